@@ -25,6 +25,12 @@
  *   - buddy_generate_missing_docs_email
  *   - buddy_write_signal
  *   - buddy_detect_anomalies
+ *
+ * Write tools exposed (accept dryRun; every call is audited):
+ *   - buddy_clear_condition
+ *   - buddy_attach_checklist_document
+ *   - buddy_request_borrower_document
+ *   - buddy_draft_memo_section
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -328,6 +334,131 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
         },
       },
+      {
+        name: "buddy_clear_condition",
+        description: "Satisfy or waive a deal condition (audited; supports dry run)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            caseId: {
+              type: "string",
+              description: "The unique ID of the case/deal",
+            },
+            conditionId: {
+              type: "string",
+              description: "The deal_conditions row to clear",
+            },
+            status: {
+              type: "string",
+              description: "Target status (default: 'satisfied')",
+              enum: ["satisfied", "waived"],
+            },
+            note: {
+              type: "string",
+              description: "Optional note recorded with the status change",
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Return the diff without committing (default: false)",
+            },
+          },
+          required: ["caseId", "conditionId"],
+        },
+      },
+      {
+        name: "buddy_attach_checklist_document",
+        description: "Attach an already-classified document to a checklist item and mark it received (audited; supports dry run)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            caseId: {
+              type: "string",
+              description: "The unique ID of the case/deal",
+            },
+            checklistKey: {
+              type: "string",
+              description: "Checklist key, e.g. 'IRS_BUSINESS_3Y'",
+            },
+            documentId: {
+              type: "string",
+              description: "The deal document to attach; must be valid evidence for the key",
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Return the diff without committing (default: false)",
+            },
+          },
+          required: ["caseId", "checklistKey", "documentId"],
+        },
+      },
+      {
+        name: "buddy_request_borrower_document",
+        description: "Request a document from the borrower via the portal (audited; supports dry run)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            caseId: {
+              type: "string",
+              description: "The unique ID of the case/deal",
+            },
+            title: {
+              type: "string",
+              description: "What the borrower should upload",
+            },
+            description: {
+              type: "string",
+              description: "Optional instructions shown to the borrower",
+            },
+            category: {
+              type: "string",
+              description: "Optional request category",
+            },
+            docType: {
+              type: "string",
+              description: "Optional expected document type",
+            },
+            dueAt: {
+              type: "string",
+              description: "Optional ISO 8601 due date",
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Return the diff without committing (default: false)",
+            },
+          },
+          required: ["caseId", "title"],
+        },
+      },
+      {
+        name: "buddy_draft_memo_section",
+        description: "Draft a qualitative credit memo section (audited; supports dry run)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            caseId: {
+              type: "string",
+              description: "The unique ID of the case/deal",
+            },
+            sectionKey: {
+              type: "string",
+              description: "Narrative override key, e.g. 'business_description'",
+            },
+            text: {
+              type: "string",
+              description: "Section text",
+            },
+            overwrite: {
+              type: "boolean",
+              description: "Replace existing different text (default: false)",
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Return the diff without committing (default: false)",
+            },
+          },
+          required: ["caseId", "sectionKey", "text"],
+        },
+      },
     ],
   };
 });
@@ -369,6 +500,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "buddy_detect_anomalies":
         method = "buddy://tools/detect_anomalies";
         break;
+      case "buddy_clear_condition":
+        method = "buddy://tools/clear_condition";
+        break;
+      case "buddy_attach_checklist_document":
+        method = "buddy://tools/attach_checklist_document";
+        break;
+      case "buddy_request_borrower_document":
+        method = "buddy://tools/request_borrower_document";
+        break;
+      case "buddy_draft_memo_section":
+        method = "buddy://tools/draft_memo_section";
+        break;
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
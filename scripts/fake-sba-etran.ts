@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+/**
+ * Local fake SBA E-Tran server for dev, until sandbox credentials exist.
+ *
+ *   npx tsx scripts/fake-sba-etran.ts            # http://localhost:9999/mock-etran
+ *   SBA_ETRAN_MOCK_ENDPOINT=http://localhost:9999/mock-etran npm run dev
+ *
+ *   POST /mock-etran                    — submit E-Tran XML (always received)
+ *   GET  /mock-etran/status/{appNo}     — decision status (pending first, then decided)
+ *   POST /mock-etran/decide/{appNo}     — script a decision, JSON body
+ *        {"status":"returned","errors":[{"code":"E-1002","message":"...","xml_path":"Borrower/EIN"}]}
+ *
+ * Behavior lives in src/lib/etran/fakeSbaEtran.ts (the same fake the unit
+ * tests use); this file is only the HTTP listener.
+ */
+import http from "node:http";
+import { createFakeSbaEtran, type FakeSbaDecision } from "@/lib/etran/fakeSbaEtran";
+
+const port = Number(process.env.FAKE_SBA_ETRAN_PORT ?? 9999);
+const base = "/mock-etran";
+const fake = createFakeSbaEtran({ pendingPolls: Number(process.env.FAKE_SBA_ETRAN_PENDING_POLLS ?? 1) });
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (c) => chunks.push(c));
+  req.on("end", () => {
+    const path = (req.url ?? "").split("?")[0];
+    const body = Buffer.concat(chunks).toString("utf8");
+
+    if (!path.startsWith(base)) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const decide = path.match(/\/decide\/([^/]+)$/);
+    if (req.method === "POST" && decide) {
+      let decision: FakeSbaDecision;
+      try {
+        decision = JSON.parse(body);
+      } catch {
+        res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: false, error: "invalid JSON" }));
+        return;
+      }
+      const ok = fake.decide(decodeURIComponent(decide[1]), decision);
+      res.writeHead(ok ? 200 : 404, { "Content-Type": "application/json" }).end(JSON.stringify({ ok }));
+      return;
+    }
+
+    const result = fake.handle({ method: req.method ?? "GET", path, body });
+    console.log(`[fake-sba-etran] ${req.method} ${path} -> ${result.status}`);
+    res.writeHead(result.status, { "Content-Type": "application/xml" }).end(result.body);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[fake-sba-etran] listening on http://localhost:${port}${base}`);
+});
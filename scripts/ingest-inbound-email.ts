@@ -0,0 +1,59 @@
+/**
+ * Local inbound-email ingest — feed raw .eml files through the same path as
+ * the /api/webhooks/inbound-email provider webhook, without a mail provider.
+ *
+ * Each file is parsed, routed by its docs+<token>@ recipient to a deal, sender
+ * verified against deal participants, and (if verified) its attachments go
+ * through ingestDocument → checklist auto-match → orchestrateIntake. The
+ * receipt row is recorded with transport = 'local_file'.
+ *
+ * Run:
+ *   pnpm tsx --conditions=react-server scripts/ingest-inbound-email.ts <file.eml> [more.eml …]
+ *
+ * Why `--conditions=react-server`:
+ *   The ingest path imports supabaseAdmin / ingestDocument, which import
+ *   "server-only" and throw in plain Node.
+ *
+ * Env:
+ *   INBOUND_EMAIL_DOMAIN  only recipients on this domain are routed (the
+ *                         .eml's To/Cc/Delivered-To must match)
+ *   + SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
+ *
+ * Exits non-zero if any file could not be read or the ingest threw; rejected
+ * and quarantined messages are reported but are not failures.
+ */
+
+import fs from "node:fs/promises";
+import process from "node:process";
+import { ingestInboundEmail } from "@/lib/intake/inboundEmail/ingestInboundEmail";
+
+async function main(): Promise<number> {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    console.error("usage: tsx --conditions=react-server scripts/ingest-inbound-email.ts <file.eml> [more.eml …]");
+    return 2;
+  }
+
+  let failures = 0;
+  for (const file of files) {
+    try {
+      const raw = await fs.readFile(file);
+      const res = await ingestInboundEmail({ raw, transport: "local_file" });
+      const detail = res.reason ? ` (${res.reason})` : "";
+      console.log(`${file}: ${res.status}${detail} deal=${res.dealId ?? "-"} documents=${res.documentIds.length}`);
+      for (const s of res.skipped) console.log(`  skipped ${s.filename}: ${s.reason}`);
+    } catch (e: any) {
+      failures++;
+      console.error(`${file}: error ${e?.message ?? e}`);
+    }
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,150 @@
+/**
+ * OCR provider parity report — text quality of Gemini vs Mistral vs the
+ * self-hosted local engine on the golden corpus.
+ *
+ * For every `<id>.txt` reference transcription in the corpus directory, the
+ * source document is `<id>.pdf|.png|.jpg|.jpeg|.tif|.tiff` next to it. When no
+ * source exists (the committed src/test/goldenCorpus fixtures are text-only)
+ * the reference is typeset into a synthetic PDF so every provider still gets
+ * identical input. Each configured provider OCRs each document; output is
+ * scored against the reference (CER, WER, numeric-token recall — see
+ * src/lib/ocr/ocrParity.ts).
+ *
+ * Run:
+ *   pnpm tsx --conditions=react-server scripts/ocr-parity-report.ts
+ *
+ * Why `--conditions=react-server`:
+ *   The provider runners import "server-only", which throws in plain Node.
+ *
+ * Env:
+ *   OCR_GOLDEN_DIR        corpus directory (default src/test/goldenCorpus/fixtures)
+ *   OCR_PARITY_PROVIDERS  comma list (default: every configured provider)
+ *   OCR_PARITY_JSON       optional path to also write the full report as JSON
+ *   + the usual provider env (USE_GEMINI_OCR, MISTRAL_API_KEY, LOCAL_OCR_URL)
+ *
+ * Report-only: exits non-zero only when no provider is configured.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { runGeminiOcrJob } from "@/lib/ocr/runGeminiOcrJob";
+import { runMistralOcrJob } from "@/lib/ocr/runMistralOcrJob";
+import { runLocalOcrJob } from "@/lib/ocr/runLocalOcrJob";
+import { planOcrProviderChain, readOcrProviderConfig, type OcrProvider } from "@/lib/ocr/ocrProviderChain";
+import {
+  buildOcrParityReport,
+  formatOcrParityReport,
+  scoreOcrParity,
+  type OcrParityRun,
+} from "@/lib/ocr/ocrParity";
+
+const SOURCE_EXTS: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+};
+
+async function typesetReference(text: string): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Courier);
+  const size = 10;
+  const lineHeight = 13;
+  const linesPerPage = 56;
+  // Courier is WinAnsi-only; replace anything it can't encode.
+  const lines = text.replace(/[^\x20-\x7e\n]/g, "?").split("\n");
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    const page = pdf.addPage([612, 792]);
+    lines.slice(i, i + linesPerPage).forEach((line, j) => {
+      page.drawText(line.slice(0, 95), { x: 40, y: 752 - j * lineHeight, size, font });
+    });
+  }
+  return Buffer.from(await pdf.save());
+}
+
+async function loadCorpus(dir: string) {
+  const names = await fs.readdir(dir);
+  const docs: Array<{ id: string; reference: string; bytes: Buffer; mimeType: string; synthetic: boolean }> = [];
+  for (const name of names.filter((n) => n.endsWith(".txt")).sort()) {
+    const id = name.slice(0, -4);
+    const reference = await fs.readFile(path.join(dir, name), "utf-8");
+    const source = names.find((n) => n.startsWith(`${id}.`) && SOURCE_EXTS[path.extname(n).toLowerCase()]);
+    if (source) {
+      docs.push({
+        id,
+        reference,
+        bytes: await fs.readFile(path.join(dir, source)),
+        mimeType: SOURCE_EXTS[path.extname(source).toLowerCase()],
+        synthetic: false,
+      });
+    } else {
+      docs.push({ id, reference, bytes: await typesetReference(reference), mimeType: "application/pdf", synthetic: true });
+    }
+  }
+  return docs;
+}
+
+async function runProvider(provider: OcrProvider, args: { fileBytes: Buffer; mimeType: string; fileName: string }) {
+  if (provider === "gemini_google") return { ...(await runGeminiOcrJob(args)), meanConfidence: null };
+  if (provider === "mistral") return { ...(await runMistralOcrJob(args)), meanConfidence: null };
+  return runLocalOcrJob(args);
+}
+
+async function main() {
+  const dir = process.env.OCR_GOLDEN_DIR || "src/test/goldenCorpus/fixtures";
+  const requested = (process.env.OCR_PARITY_PROVIDERS || "").split(",").map((s) => s.trim()).filter(Boolean);
+  const providers = planOcrProviderChain(readOcrProviderConfig()).filter(
+    (p) => requested.length === 0 || requested.includes(p),
+  );
+
+  if (providers.length === 0) {
+    console.error("❌ No OCR provider configured. Set USE_GEMINI_OCR=true, MISTRAL_API_KEY and/or LOCAL_OCR_URL.");
+    process.exit(1);
+  }
+
+  const docs = await loadCorpus(dir);
+  console.log(`\nOCR parity — ${docs.length} document(s) from ${dir} × ${providers.join(", ")}`);
+  const synthetic = docs.filter((d) => d.synthetic).map((d) => d.id);
+  if (synthetic.length) console.log(`  (typeset from reference text: ${synthetic.join(", ")})`);
+
+  const runs: OcrParityRun[] = [];
+  for (const doc of docs) {
+    for (const provider of providers) {
+      const started = Date.now();
+      try {
+        const out = await runProvider(provider, {
+          fileBytes: doc.bytes,
+          mimeType: doc.mimeType,
+          fileName: `${doc.id}${doc.mimeType === "application/pdf" ? ".pdf" : ""}`,
+        });
+        runs.push({
+          documentId: doc.id,
+          provider,
+          ok: true,
+          latencyMs: Date.now() - started,
+          score: scoreOcrParity(doc.reference, out.text),
+          meanConfidence: out.meanConfidence,
+        });
+      } catch (e: any) {
+        runs.push({ documentId: doc.id, provider, ok: false, latencyMs: Date.now() - started, error: e?.message ?? String(e) });
+      }
+    }
+  }
+
+  const report = buildOcrParityReport(runs);
+  console.log(`\n${formatOcrParityReport(report)}\n`);
+
+  if (process.env.OCR_PARITY_JSON) {
+    await fs.writeFile(process.env.OCR_PARITY_JSON, JSON.stringify(report, null, 2), "utf-8");
+    console.log(`Wrote ${process.env.OCR_PARITY_JSON}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
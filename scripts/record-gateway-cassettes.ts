@@ -0,0 +1,41 @@
+/**
+ * Record AI gateway cassettes for the gateway eval cases
+ * (src/evals/cases/gatewayCases.ts) against the live providers, then print
+ * the scored run. Replaying them is `runGatewayEvalSuite({ mode: "replay" })`.
+ *
+ * Run:
+ *   pnpm evals:record
+ *
+ * Why `--conditions=react-server`:
+ *   The gateway and its provider adapters import "server-only", which
+ *   throws in plain Node.
+ *
+ * Env:
+ *   AI_GATEWAY_CASSETTE_DIR  output directory (default src/evals/cassettes)
+ *   + the usual provider env (GEMINI_API_KEY, OPENAI_API_KEY,
+ *     ANTHROPIC_API_KEY, LOCAL_LLM_BASE_URL, AI_GATEWAY_CHAIN_<ROLE>)
+ *
+ * Exits non-zero when any case failed to record or to score.
+ */
+
+import process from "node:process";
+import { runGatewayEvalSuite } from "@/evals/runner";
+
+async function main() {
+  const summary = await runGatewayEvalSuite({
+    mode: "record",
+    cassetteDir: process.env.AI_GATEWAY_CASSETTE_DIR || undefined,
+  });
+  for (const s of summary.scores) {
+    const where = s.provider ? ` [${s.provider}:${s.model}]` : "";
+    console.log(`${s.passed ? "PASS" : "FAIL"}  ${s.caseId}${where}`);
+    for (const f of s.failures) console.log(`      ${f}`);
+  }
+  console.log(`\n${summary.passedCases}/${summary.totalCases} passed in ${summary.durationMs}ms`);
+  if (summary.failedCases > 0) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -25,8 +25,8 @@ export async function upsertItem19Facts(
       `INSERT INTO fdd_item19_facts
          (brand_id, filing_id, filing_year, metric_name, metric_type,
           value, cohort_definition, cohort_size, percentile_rank,
-          source_page, extraction_confidence)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          source_page, pdf_page, extraction_confidence)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
        ON CONFLICT (brand_id, filing_year, metric_name, cohort_definition)
        DO UPDATE SET
          value = EXCLUDED.value,
@@ -34,6 +34,7 @@ export async function upsertItem19Facts(
          cohort_size = EXCLUDED.cohort_size,
          percentile_rank = EXCLUDED.percentile_rank,
          source_page = EXCLUDED.source_page,
+         pdf_page = EXCLUDED.pdf_page,
          extraction_confidence = EXCLUDED.extraction_confidence,
          filing_id = EXCLUDED.filing_id`,
       [
@@ -47,6 +48,7 @@ export async function upsertItem19Facts(
         metric.cohortSize,
         metric.percentileRank,
         metric.sourcePage,
+        metric.pdfPage,
         args.extractionConfidence,
       ]
     );
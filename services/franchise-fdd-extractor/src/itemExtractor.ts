@@ -375,15 +375,19 @@ export async function extractItem19(
         ? []
         : r.metrics
             .filter((m) => str(m.metric_name) !== null)
-            .map((m) => ({
-              metricName: (str(m.metric_name) ?? '').toUpperCase().replace(/\s+/g, '_'),
-              value: num(m.value),
-              metricType: str(m.metric_type) ?? 'currency',
-              cohortDefinition: str(m.cohort_definition),
-              cohortSize: int(m.cohort_size),
-              percentileRank: num(m.percentile_rank),
-              sourcePage: int(m.source_page),
-            })),
+            .map((m) => {
+              const sourcePage = int(m.source_page);
+              return {
+                metricName: (str(m.metric_name) ?? '').toUpperCase().replace(/\s+/g, '_'),
+                value: num(m.value),
+                metricType: str(m.metric_type) ?? 'currency',
+                cohortDefinition: str(m.cohort_definition),
+                cohortSize: int(m.cohort_size),
+                percentileRank: num(m.percentile_rank),
+                sourcePage,
+                pdfPage: sourcePage !== null ? range.startPage + sourcePage - 1 : null,
+              };
+            }),
       notes: str(r.notes) ?? undefined,
     },
     modelUsed: res.modelUsed,
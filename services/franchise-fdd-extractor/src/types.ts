@@ -54,7 +54,10 @@ export interface Item19Metric {
   cohortDefinition: string | null;
   cohortSize: number | null;
   percentileRank: number | null;
+  /** Page within the extraction slice, as reported by the model. */
   sourcePage: number | null;
+  /** Page in the full FDD PDF — sourcePage offset by the slice start. */
+  pdfPage: number | null;
 }
 
 export interface Item19Result {
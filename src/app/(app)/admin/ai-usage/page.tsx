@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import AiUsageAdminClient from "@/components/admin/AiUsageAdminClient";
+
+export const dynamic = "force-dynamic";
+export default function Page() {
+  return (
+    <Suspense fallback={<div className="p-6 text-sm text-white/70">Loading…</div>}>
+      <AiUsageAdminClient />
+    </Suspense>
+  );
+}
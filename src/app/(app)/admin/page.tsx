@@ -138,6 +138,24 @@ export default async function AdminHome() {
           )}
         </div>
 
+        <GlassActionCard
+          icon="webhook"
+          iconColor="text-lime-400"
+          title="Webhooks"
+          description="Bank integration subscriptions, failed deliveries, and replay."
+          href={`/admin/webhooks${bankSuffix}`}
+          actionLabel="View Deliveries"
+        />
+
+        <GlassActionCard
+          icon="payments"
+          iconColor="text-emerald-400"
+          title="AI Usage"
+          description="Per-bank AI spend, monthly budgets, and chargeback reports."
+          href={`/admin/ai-usage${bankSuffix}`}
+          actionLabel="View Usage"
+        />
+
         <GlassActionCard
           icon="monitoring"
           iconColor="text-teal-400"
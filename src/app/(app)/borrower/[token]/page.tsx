@@ -13,6 +13,8 @@ type LoadPayload = {
   ok: boolean;
   application?: any;
   answers?: any[];
+  /** The applicant's own Section 1071 demographic answers (firewalled store) */
+  protected_answers?: any[];
   applicants?: any[];
   attachments?: any[];
   error?: string;
@@ -123,8 +125,9 @@ const [data, setData] = useState<LoadPayload>({ ok: false });
   const answerMap = useMemo(() => {
     const m = new Map<string, any>();
     for (const a of data.answers ?? []) m.set(a.question_key, a.value);
+    for (const a of data.protected_answers ?? []) m.set(a.question_key, a.value);
     return m;
-  }, [data.answers]);
+  }, [data.answers, data.protected_answers]);
 
   const answersObj = useMemo(() => {
     const o: Record<string, any> = {};
@@ -231,6 +234,9 @@ const [data, setData] = useState<LoadPayload>({ ok: false });
       {visibleSections.map((section) => (
         <div key={section.id} className="rounded border bg-white p-4 space-y-3">
           <div className="text-sm font-semibold">{section.title}</div>
+          {section.notice ? (
+            <div className="rounded bg-gray-50 p-3 text-xs text-gray-600">{section.notice}</div>
+          ) : null}
 
           <div className="space-y-3">
             {section.questions.map((q) => (
@@ -2,7 +2,8 @@
  * Examiner Deal Overview Page.
  *
  * Fetches scoped deal snapshot via the examiner portal API.
- * Shows navigation to sub-pages (borrower, decision, integrity, traces).
+ * Shows the latest simulated file review (score, findings, cited evidence)
+ * and navigation to sub-pages (borrower, decision, integrity, traces).
  * Grant-authenticated, read-only.
  */
 "use client";
@@ -18,6 +19,39 @@ type DealSnapshot = {
   signals_count: number;
 };
 
+type FileReviewCitation =
+  | { type: "ledger_event"; ledger: string; id: string; kind: string; at: string }
+  | { type: "document"; id: string; name: string | null; document_type: string | null }
+  | { type: "record"; table: string; id: string };
+
+type FileReview = {
+  score: number;
+  rating: string;
+  reviewed_as_of: string;
+  rules_version: string;
+  sample_reasons: string[];
+  findings: Array<{
+    rule_id: string;
+    severity: "HIGH" | "MEDIUM" | "LOW";
+    title: string;
+    detail: string;
+    regulation: string;
+    citations: FileReviewCitation[];
+  }>;
+};
+
+const SEVERITY_STYLE: Record<string, string> = {
+  HIGH: "bg-red-50 text-red-700 border-red-200",
+  MEDIUM: "bg-amber-50 text-amber-700 border-amber-200",
+  LOW: "bg-gray-50 text-gray-600 border-gray-200",
+};
+
+function citationLabel(c: FileReviewCitation): string {
+  if (c.type === "ledger_event") return `${c.kind} · ${c.id.slice(0, 8)}`;
+  if (c.type === "document") return `${c.name ?? "document"}${c.document_type ? ` (${c.document_type})` : ""}`;
+  return `${c.table} · ${c.id.slice(0, 8)}`;
+}
+
 type GrantInfo = {
   examiner_name: string;
   organization: string;
@@ -31,6 +65,7 @@ function ExaminerDealPageContent() {
   const grantId = searchParams?.get("grant_id") ?? "";
 
   const [snapshot, setSnapshot] = useState<DealSnapshot | null>(null);
+  const [fileReview, setFileReview] = useState<FileReview | null>(null);
   const [grant, setGrant] = useState<GrantInfo | null>(null);
   const [omegaAvailable, setOmegaAvailable] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -51,6 +86,7 @@ function ExaminerDealPageContent() {
         const data = await res.json();
         if (data.ok) {
           setSnapshot(data.snapshot);
+          setFileReview(data.file_review ?? null);
           setGrant(data.grant);
           setOmegaAvailable(data.omega_available ?? false);
         } else {
@@ -142,6 +178,53 @@ function ExaminerDealPageContent() {
         </div>
       </div>
 
+      {/* Simulated File Review */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-xs text-gray-500">Simulated File Review</div>
+          {fileReview && (
+            <div className="text-xs text-gray-500">
+              Reviewed {new Date(fileReview.reviewed_as_of).toLocaleDateString()} · rules v{fileReview.rules_version}
+            </div>
+          )}
+        </div>
+        {!fileReview ? (
+          <div className="text-xs text-gray-400">This file has not been through a simulated review.</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="font-semibold text-gray-900">Score {Number(fileReview.score)}</span>
+              <span className="text-gray-600">{fileReview.rating.replace(/_/g, " ")}</span>
+              {fileReview.sample_reasons.length > 0 && (
+                <span className="text-xs text-gray-400">
+                  Sampled for: {fileReview.sample_reasons.join(", ")}
+                </span>
+              )}
+            </div>
+            {fileReview.findings.length === 0 ? (
+              <div className="text-xs text-green-700">No findings.</div>
+            ) : (
+              <ul className="space-y-2">
+                {fileReview.findings.map((f, i) => (
+                  <li key={`${f.rule_id}-${i}`} className={`border rounded p-2 text-xs ${SEVERITY_STYLE[f.severity]}`}>
+                    <div className="font-medium">
+                      {f.severity} · {f.rule_id} {f.title}
+                    </div>
+                    <div className="mt-0.5">{f.detail}</div>
+                    <div className="mt-0.5 opacity-75">{f.regulation}</div>
+                    {f.citations.length > 0 && (
+                      <div className="mt-1 font-mono text-[11px] opacity-75">
+                        Evidence: {f.citations.map(citationLabel).join("; ")}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Sub-page Navigation */}
       <div className="grid grid-cols-2 gap-3">
         {subPages.map((page) => (
@@ -0,0 +1,157 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireSuperAdmin } from "@/lib/auth/requireAdmin";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { tryGetCurrentBankId } from "@/lib/tenant/getCurrentBankId";
+import { buildChargebackReport, chargebackCsv, type AiUsageRow } from "@/lib/ai/chargeback";
+import { budgetMonth } from "@/lib/ai/usageBudget";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+function authzError(err: any) {
+  const msg = String(err?.message ?? err);
+  if (msg === "unauthorized")
+    return { status: 401, body: { ok: false, error: "unauthorized" } };
+  if (msg === "forbidden")
+    return { status: 403, body: { ok: false, error: "forbidden" } };
+  return null;
+}
+
+async function resolveBankId(explicit: unknown): Promise<string | null> {
+  if (typeof explicit === "string" && explicit.trim()) return explicit.trim();
+  const pick = await tryGetCurrentBankId();
+  return pick.ok ? pick.bankId : null;
+}
+
+function parseLimit(v: unknown): number | null | "invalid" {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 100) / 100 : "invalid";
+}
+
+/**
+ * GET /api/admin/ai-usage
+ *
+ * Super-admin monthly AI chargeback report for one bank: spend by role,
+ * purpose, model and deal, plus budget utilization.
+ *
+ * Query params:
+ * - bankId (defaults to the current bank)
+ * - month: YYYY-MM (defaults to the current UTC month)
+ * - format: json (default) | csv
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await requireSuperAdmin();
+
+    const url = new URL(req.url);
+    const bankId = await resolveBankId(url.searchParams.get("bankId"));
+    if (!bankId) {
+      return NextResponse.json({ ok: false, error: "bank_selection_required" }, { status: 400 });
+    }
+    const month = url.searchParams.get("month") ?? budgetMonth(new Date());
+    if (!MONTH_RE.test(month)) {
+      return NextResponse.json({ ok: false, error: "invalid_month" }, { status: 400 });
+    }
+
+    const sb = supabaseAdmin();
+
+    const [{ data: bank }, { data: budgetRow, error: budgetErr }, { data: rows, error: usageErr }] = await Promise.all([
+      sb.from("banks").select("id, name").eq("id", bankId).maybeSingle(),
+      sb
+        .from("bank_ai_budgets")
+        .select("monthly_soft_limit_usd, monthly_hard_limit_usd, updated_by, updated_at")
+        .eq("bank_id", bankId)
+        .maybeSingle(),
+      sb
+        .from("v_ai_usage_monthly")
+        .select("deal_id, role, purpose, provider, model, calls, failed_calls, tokens_in, tokens_out, cost_usd")
+        .eq("bank_id", bankId)
+        .eq("month", month),
+    ]);
+    if (budgetErr) throw new Error(budgetErr.message);
+    if (usageErr) throw new Error(usageErr.message);
+
+    const report = buildChargebackReport((rows ?? []) as AiUsageRow[], {
+      bankId,
+      bankName: (bank as any)?.name ?? null,
+      month,
+      budget: budgetRow
+        ? {
+            monthlySoftLimitUsd: budgetRow.monthly_soft_limit_usd == null ? null : Number(budgetRow.monthly_soft_limit_usd),
+            monthlyHardLimitUsd: budgetRow.monthly_hard_limit_usd == null ? null : Number(budgetRow.monthly_hard_limit_usd),
+          }
+        : null,
+    });
+
+    if (url.searchParams.get("format") === "csv") {
+      return new NextResponse(chargebackCsv(report), {
+        headers: {
+          "content-type": "text/csv; charset=utf-8",
+          "content-disposition": `attachment; filename="ai-chargeback-${bankId}-${month}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ ok: true, report });
+  } catch (err: any) {
+    const a = authzError(err);
+    if (a) return NextResponse.json(a.body, { status: a.status });
+    console.error("[/api/admin/ai-usage]", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? String(err) }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/ai-usage
+ *
+ * Body { bankId?, monthlySoftLimitUsd, monthlyHardLimitUsd } — sets a bank's
+ * monthly AI budget. Either limit may be null (no limit). The gateway picks
+ * the change up within a minute (usageMeter.ts snapshot cache).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await requireSuperAdmin();
+
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const bankId = await resolveBankId(body?.bankId);
+    if (!bankId) {
+      return NextResponse.json({ ok: false, error: "bank_selection_required" }, { status: 400 });
+    }
+
+    const soft = parseLimit(body?.monthlySoftLimitUsd);
+    const hard = parseLimit(body?.monthlyHardLimitUsd);
+    if (soft === "invalid" || hard === "invalid") {
+      return NextResponse.json({ ok: false, error: "invalid_limit" }, { status: 400 });
+    }
+    if (soft != null && hard != null && soft > hard) {
+      return NextResponse.json({ ok: false, error: "soft_limit_exceeds_hard_limit" }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin()
+      .from("bank_ai_budgets")
+      .upsert(
+        {
+          bank_id: bankId,
+          monthly_soft_limit_usd: soft,
+          monthly_hard_limit_usd: hard,
+          updated_by: userId,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "bank_id" },
+      );
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({ ok: true, bankId, monthlySoftLimitUsd: soft, monthlyHardLimitUsd: hard });
+  } catch (err: any) {
+    const a = authzError(err);
+    if (a) return NextResponse.json(a.body, { status: a.status });
+    console.error("[/api/admin/ai-usage]", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? String(err) }, { status: 500 });
+  }
+}
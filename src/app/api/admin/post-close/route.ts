@@ -14,6 +14,7 @@ import "server-only";
  * 5. Open exceptions for overdue items
  * 6. Seed annual reviews
  * 7. Seed renewal prep
+ * 8. Test financial covenants against newly spread periods
  */
 
 import { NextResponse, type NextRequest } from "next/server";
@@ -24,6 +25,7 @@ import { generateMonitoringCycles } from "@/core/post-close/generateMonitoringCy
 import { openMonitoringException } from "@/core/post-close/openMonitoringException";
 import { seedAnnualReview } from "@/core/post-close/seedAnnualReview";
 import { seedRenewalPrep } from "@/core/post-close/seedRenewalPrep";
+import { runCovenantComplianceTest } from "@/lib/covenants/runCovenantComplianceTest";
 
 export async function POST(req: NextRequest) {
   const authHeader = req.headers.get("authorization") ?? "";
@@ -41,6 +43,7 @@ export async function POST(req: NextRequest) {
     exceptionsOpened: 0,
     annualReviewsSeeded: 0,
     renewalPrepsSeeded: 0,
+    covenantTestsRun: 0,
     errors: 0,
   };
 
@@ -134,6 +137,17 @@ export async function POST(req: NextRequest) {
           });
           if (rpResult.created) stats.renewalPrepsSeeded++;
         }
+
+        // Test covenants (no-op for deals without a covenant package)
+        const covResult = await runCovenantComplianceTest({
+          dealId: deal.id,
+          bankId: deal.bank_id,
+          runBy: "system",
+        });
+        if (covResult.ok) {
+          stats.covenantTestsRun++;
+          stats.exceptionsOpened += covResult.exceptionsOpened;
+        }
       } catch (err) {
         console.error(`[post-close/process] Error for deal ${deal.id}:`, err);
         stats.errors++;
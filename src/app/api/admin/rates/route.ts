@@ -0,0 +1,157 @@
+// src/app/api/admin/rates/route.ts
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { requireSuperAdmin } from "@/lib/auth/requireAdmin";
+import type { IndexCode } from "@/lib/rates/indexRates";
+import { listIndexRateHistory, recordIndexRates } from "@/lib/rates/indexRateHistory";
+import { parseIndexRateFile } from "@/lib/rates/parseIndexRateFile";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const INDEX_CODES: readonly IndexCode[] = ["SOFR", "UST_5Y", "PRIME"];
+const MAX_BYTES = 2 * 1024 * 1024;
+
+async function enforceSuperAdmin(): Promise<{ userId: string } | NextResponse> {
+  try {
+    return await requireSuperAdmin();
+  } catch (err: any) {
+    const msg = String(err?.message ?? err);
+    if (msg === "unauthorized")
+      return NextResponse.json(
+        { ok: false, error: "unauthorized" },
+        { status: 401 },
+      );
+    if (msg === "forbidden")
+      return NextResponse.json(
+        { ok: false, error: "forbidden" },
+        { status: 403 },
+      );
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/**
+ * Admin: index rate history.
+ *
+ * GET  ?index_code=SOFR&limit=100 — recent history rows
+ * POST { index_code, as_of_date, rate_pct, source? } — record a manual rate
+ * POST multipart/form-data: file, dry_run — import a CSV / FRED / H.15 file
+ */
+export async function GET(req: Request) {
+  const auth = await enforceSuperAdmin();
+  if (auth instanceof NextResponse) return auth;
+
+  const url = new URL(req.url);
+  const code = url.searchParams.get("index_code")?.toUpperCase() as IndexCode | undefined;
+  if (code && !INDEX_CODES.includes(code)) {
+    return NextResponse.json({ ok: false, error: "unknown index_code" }, { status: 400 });
+  }
+  const limit = Math.min(Number(url.searchParams.get("limit") ?? 200) || 200, 1000);
+
+  const history = await listIndexRateHistory({ code, limit });
+  return NextResponse.json({ ok: true, history });
+}
+
+export async function POST(req: Request) {
+  const auth = await enforceSuperAdmin();
+  if (auth instanceof NextResponse) return auth;
+
+  if ((req.headers.get("content-type") ?? "").startsWith("multipart/form-data")) {
+    return uploadRateFile(req, auth.userId);
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  // Reuse the file parser's validation so manual entry and uploads agree.
+  const line = [body.index_code, body.as_of_date, body.rate_pct, body.source ?? "manual"]
+    .map((v) => String(v ?? ""))
+    .join(",");
+  const parsed = parseIndexRateFile(`index_code,as_of_date,rate_pct,source\n${line}`);
+  if (parsed.rows.length !== 1) {
+    return NextResponse.json(
+      { ok: false, error: "invalid_rate", detail: parsed.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const [record] = await recordIndexRates(parsed.rows, {
+      provider: "manual",
+      recordedBy: auth.userId,
+    });
+    // History is append-only — a differing manual rate for the same date
+    // is a conflict, not an overwrite.
+    if (record && record.ratePct !== parsed.rows[0].ratePct) {
+      return NextResponse.json(
+        { ok: false, error: "already_recorded", record },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({ ok: true, record });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "record_failed" }, { status: 500 });
+  }
+}
+
+/**
+ * Rows already recorded for the same index, date and provider are kept
+ * as-is; those whose stored value differs are reported as conflicts.
+ */
+async function uploadRateFile(req: Request, userId: string) {
+  const form = await req.formData();
+  const file = form.get("file");
+  const dryRun = String(form.get("dry_run") ?? "") === "true";
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ ok: false, error: "missing_file" }, { status: 400 });
+  }
+  if (file.size > MAX_BYTES) {
+    return NextResponse.json({ ok: false, error: "file_too_large" }, { status: 413 });
+  }
+
+  const parsed = parseIndexRateFile(await file.text());
+  if (!parsed.format) {
+    return NextResponse.json(
+      { ok: false, error: "unrecognised_format", detail: parsed.errors },
+      { status: 400 },
+    );
+  }
+
+  if (dryRun || parsed.rows.length === 0) {
+    return NextResponse.json({
+      ok: true,
+      dryRun,
+      format: parsed.format,
+      parsed: parsed.rows.length,
+      errors: parsed.errors,
+      rows: parsed.rows.slice(0, 50),
+    });
+  }
+
+  const uploadBatchId = crypto.randomUUID();
+  try {
+    const records = await recordIndexRates(parsed.rows, {
+      provider: "file_upload",
+      recordedBy: userId,
+      uploadBatchId,
+    });
+
+    const byKey = new Map(parsed.rows.map((r) => [`${r.code}|${r.asOf}`, r.ratePct]));
+    const conflicts = records.filter((r) => byKey.get(`${r.code}|${r.asOf}`) !== r.ratePct);
+    const inserted = records.filter((r) => r.uploadBatchId === uploadBatchId).length;
+
+    return NextResponse.json({
+      ok: true,
+      format: parsed.format,
+      uploadBatchId,
+      parsed: parsed.rows.length,
+      inserted,
+      alreadyRecorded: records.length - inserted,
+      conflicts,
+      errors: parsed.errors,
+    });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "record_failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,201 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireSuperAdmin } from "@/lib/auth/requireAdmin";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { tryGetCurrentBankId } from "@/lib/tenant/getCurrentBankId";
+import { WEBHOOK_EVENTS, isWebhookEvent } from "@/lib/webhooks/events";
+import { replayWebhookDelivery, storeWebhookSecret } from "@/lib/webhooks/deliveries";
+import { generateWebhookSecret } from "@/lib/webhooks/signing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DELIVERY_STATUSES = new Set(["pending", "delivered", "failed"]);
+
+function authzError(err: any) {
+  const msg = String(err?.message ?? err);
+  if (msg === "unauthorized")
+    return { status: 401, body: { ok: false, error: "unauthorized" } };
+  if (msg === "forbidden")
+    return { status: 403, body: { ok: false, error: "forbidden" } };
+  return null;
+}
+
+async function resolveBankId(explicit: unknown): Promise<string | null> {
+  if (typeof explicit === "string" && explicit.trim()) return explicit.trim();
+  const pick = await tryGetCurrentBankId();
+  return pick.ok ? pick.bankId : null;
+}
+
+/**
+ * GET /api/admin/webhooks
+ *
+ * Super-admin view of a bank's outbound webhook subscriptions and delivery
+ * log. Only the masked secret_hint is listed; the secret itself is only
+ * returned on create/rotate and otherwise never leaves deal_webhook_secrets.
+ *
+ * Query params:
+ * - bankId (defaults to the current bank)
+ * - status: failed (default) | pending | delivered | all
+ * - limit: number (default 50, max 200)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await requireSuperAdmin();
+
+    const url = new URL(req.url);
+    const bankId = await resolveBankId(url.searchParams.get("bankId"));
+    if (!bankId) {
+      return NextResponse.json({ ok: false, error: "bank_selection_required" }, { status: 400 });
+    }
+
+    const status = url.searchParams.get("status") ?? "failed";
+    const limitRaw = parseInt(url.searchParams.get("limit") || "50", 10);
+    const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(limitRaw, 1), 200) : 50;
+
+    const sb = supabaseAdmin();
+
+    const { data: subs, error: subErr } = await sb
+      .from("deal_webhooks")
+      .select("id, url, events, enabled, description, secret_hint, created_at")
+      .eq("bank_id", bankId)
+      .order("created_at", { ascending: true });
+    if (subErr) throw new Error(subErr.message);
+
+    let query = sb
+      .from("webhook_deliveries")
+      .select(
+        "id, webhook_id, event, event_id, deal_id, status, attempt_count, next_attempt_at, last_attempt_at, delivered_at, response_status, response_body, error, replay_of, created_at",
+      )
+      .eq("bank_id", bankId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (DELIVERY_STATUSES.has(status)) query = query.eq("status", status);
+
+    const { data: deliveries, error: delErr } = await query;
+    if (delErr) throw new Error(delErr.message);
+
+    return NextResponse.json({
+      ok: true,
+      bankId,
+      events: WEBHOOK_EVENTS,
+      subscriptions: subs ?? [],
+      deliveries: deliveries ?? [],
+    });
+  } catch (err: any) {
+    const a = authzError(err);
+    if (a) return NextResponse.json(a.body, { status: a.status });
+    console.error("[/api/admin/webhooks]", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? String(err) }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/webhooks
+ *
+ * Body { action, bankId?, ... }:
+ * - replay               { deliveryId }                  re-send a delivery (new row, replay_of → original)
+ * - create_subscription  { url, events[], description? } returns the signing secret once
+ * - update_subscription  { subscriptionId, events?, enabled? }
+ * - rotate_secret        { subscriptionId }              returns the new secret once
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await requireSuperAdmin();
+
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const action = String(body?.action ?? "");
+    const bankId = await resolveBankId(body?.bankId);
+    if (!bankId) {
+      return NextResponse.json({ ok: false, error: "bank_selection_required" }, { status: 400 });
+    }
+
+    const sb = supabaseAdmin();
+
+    if (action === "replay") {
+      const deliveryId = String(body?.deliveryId ?? "").trim();
+      if (!deliveryId) return NextResponse.json({ ok: false, error: "deliveryId required" }, { status: 400 });
+      const result = await replayWebhookDelivery({ deliveryId, bankId }, { sb });
+      if (!result.ok) {
+        const status = result.error === "delivery_not_found" ? 404 : 409;
+        return NextResponse.json({ ok: false, error: result.error }, { status });
+      }
+      return NextResponse.json({ ok: true, outcome: result.outcome });
+    }
+
+    const events = Array.isArray(body?.events) ? (body!.events as unknown[]) : null;
+    if (events && !events.every(isWebhookEvent)) {
+      return NextResponse.json(
+        { ok: false, error: "unknown_event", allowed: WEBHOOK_EVENTS },
+        { status: 400 },
+      );
+    }
+
+    if (action === "create_subscription") {
+      let endpoint: URL;
+      try {
+        endpoint = new URL(String(body?.url ?? ""));
+      } catch {
+        return NextResponse.json({ ok: false, error: "invalid_url" }, { status: 400 });
+      }
+      if (endpoint.protocol !== "https:") {
+        return NextResponse.json({ ok: false, error: "https_required" }, { status: 400 });
+      }
+      if (!events || events.length === 0) {
+        return NextResponse.json({ ok: false, error: "events required" }, { status: 400 });
+      }
+      const secret = generateWebhookSecret();
+      const { data, error } = await sb
+        .from("deal_webhooks")
+        .insert({
+          bank_id: bankId,
+          url: endpoint.toString(),
+          events,
+          description: typeof body?.description === "string" ? body.description.trim() || null : null,
+          enabled: true,
+        })
+        .select("id")
+        .single();
+      if (error) throw new Error(error.message);
+      try {
+        await storeWebhookSecret({ webhookId: data.id, bankId, secret, rotated: false }, { sb });
+      } catch (err) {
+        // A subscription without a secret could never sign a delivery.
+        await sb.from("deal_webhooks").delete().eq("id", data.id);
+        throw err;
+      }
+      return NextResponse.json({ ok: true, subscriptionId: data.id, secret });
+    }
+
+    const subscriptionId = String(body?.subscriptionId ?? "").trim();
+    if (!subscriptionId) return NextResponse.json({ ok: false, error: "subscriptionId required" }, { status: 400 });
+
+    if (action === "update_subscription" || action === "rotate_secret") {
+      const secret = action === "rotate_secret" ? generateWebhookSecret() : null;
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (events) patch.events = events;
+      if (typeof body?.enabled === "boolean") patch.enabled = body.enabled;
+
+      const { data, error } = await sb
+        .from("deal_webhooks")
+        .update(patch)
+        .eq("id", subscriptionId)
+        .eq("bank_id", bankId)
+        .select("id")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) return NextResponse.json({ ok: false, error: "subscription_not_found" }, { status: 404 });
+      if (secret) await storeWebhookSecret({ webhookId: subscriptionId, bankId, secret, rotated: true }, { sb });
+      return NextResponse.json(secret ? { ok: true, subscriptionId, secret } : { ok: true, subscriptionId });
+    }
+
+    return NextResponse.json({ ok: false, error: `unknown action: ${action}` }, { status: 400 });
+  } catch (err: any) {
+    const a = authzError(err);
+    if (a) return NextResponse.json(a.body, { status: a.status });
+    console.error("[/api/admin/webhooks]", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? String(err) }, { status: 500 });
+  }
+}
@@ -2,30 +2,168 @@ import "server-only";
 
 /**
  * /api/banks/[bankId]/[resource]
- * resource ∈ {"etran-credentials", "third-party-vendors"}
+ * resource ∈ {"etran-credentials", "third-party-vendors", "authority-matrix", "officer-authority",
+ *             "section-1071-register", "section-1071-applications", "section-1071-filer",
+ *             "sanctions-lists", "loan-doc-templates", "loan-doc-clauses"}
  *
  * Consolidates the former separate banks/[bankId]/etran/credentials and
  * banks/[bankId]/third-party/vendors route files into one dynamic-segment
  * dispatcher — route/page slot budget discipline (see the Drift Log).
  * Path changes from /etran/credentials to /etran-credentials (caller
  * updated: EtranCredentialAdminPanel.tsx) and /third-party/vendors to
- * /third-party-vendors (no caller found).
+ * /third-party-vendors (no caller found). authority-matrix and
+ * officer-authority configure delegated lending authority
+ * (src/lib/committee/authorityMatrix.ts); both GETs return the full
+ * matrix + officer list. The section-1071-* resources are compliance
+ * surfaces: the annual register (GET ?year=&format=json|csv — the CSV is
+ * only served once the local validation edits pass), per-deal action
+ * taken / credit terms (POST), and the filer's LEI (POST). The register
+ * reads firewalled demographic answers, which is why it sits behind the
+ * bank-admin gate rather than on any deal route. sanctions-lists loads
+ * OFAC SDN / consolidated CSVs or a bank watchlist as the bank's active
+ * list version (multipart POST) and queues a rescreen of every previously
+ * screened deal against it for the sanctions-rescreen worker; GET lists
+ * the loaded versions. loan-doc-templates and
+ * loan-doc-clauses hold the bank's drafting templates and clause library
+ * (src/lib/closingPackage/drafting); each POST stores a validated new
+ * version and the highest active version is the one drafted.
  */
 
+import * as crypto from "node:crypto";
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { safeClerkAuth } from "@/lib/auth/clerkServer";
 import { requireBankAdmin } from "@/lib/auth/requireBankAdmin";
 import { storeEtranCredentials } from "@/lib/etran/credentials";
+import { validateAuthorityMatrix, type AuthorityMatrix } from "@/lib/committee/authorityMatrix";
+import { loadSection1071Register } from "@/lib/section1071/loadRegister";
+import { registerCsv } from "@/lib/section1071/register";
+import {
+  SB1071_APPLICATION_FIELDS,
+  upsertSection1071Application,
+  type Sb1071ApplicationPatch,
+} from "@/lib/section1071/tracking";
+import {
+  parseOfacCsv,
+  parseWatchlistCsv,
+  type ParseWatchlistResult,
+  type WatchlistSource,
+} from "@/lib/sanctions/parseWatchlistFile";
+import { listWatchlistVersions, recordWatchlistVersion } from "@/lib/sanctions/watchlistStore";
+import { MERGE_FIELDS } from "@/lib/closingPackage/drafting/approvedTerms";
+import { validateClauseDefinition, validateDraftingTemplate } from "@/lib/closingPackage/drafting/clauseLibrary";
 
 export const runtime = "nodejs";
-export const maxDuration = 30;
+export const maxDuration = 60;
 export const dynamic = "force-dynamic";
 
 const VENDOR_TYPES = new Set(["appraiser", "business_valuator", "environmental_consultant", "insurance_carrier", "title_company", "ucc_search_service"]);
+const AUTHORITY_RESOURCES = new Set(["authority-matrix", "officer-authority"]);
+
+function nonNegative(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+const LEI_PATTERN = /^[A-Z0-9]{20}$/;
+
+const WATCHLIST_SOURCES = new Set<WatchlistSource>(["SDN", "CONSOLIDATED", "BANK_WATCHLIST"]);
+const MAX_WATCHLIST_FILE_BYTES = 25 * 1024 * 1024;
 
 type Ctx = { params: Promise<{ bankId: string; resource: string }> };
 
+/**
+ * Drafting templates and clauses are append-only: a POST inserts the next
+ * version of the document type / clause key. A concurrent insert of the
+ * same version hits the unique index and is reported as a conflict.
+ */
+async function createDraftingVersion(
+  table: "loan_doc_drafting_templates" | "loan_doc_clauses",
+  keyColumn: "document_type" | "clause_key",
+  row: Record<string, unknown>,
+  bankId: string,
+  userId: string,
+) {
+  const sb = supabaseAdmin();
+  const { data: latest } = await (sb as any)
+    .from(table)
+    .select("version")
+    .eq("bank_id", bankId)
+    .eq(keyColumn, row[keyColumn])
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await (sb as any)
+    .from(table)
+    .insert({ ...row, bank_id: bankId, version: Number(latest?.version ?? 0) + 1, is_active: true, created_by: userId })
+    .select("*")
+    .single();
+  if (error?.code === "23505") return NextResponse.json({ ok: false, error: "version_conflict" }, { status: 409 });
+  if (error || !data) return NextResponse.json({ ok: false, error: "insert_failed", detail: error?.message }, { status: 500 });
+  return NextResponse.json({ ok: true, version: data });
+}
+
+/**
+ * OFAC lists arrive as the primary CSV plus optional alt / address
+ * companions; a bank watchlist is one headed CSV. The version hash covers
+ * every file so a changed companion is a new version.
+ */
+async function uploadWatchlist(req: Request, bankId: string, userId: string) {
+  const form = await req.formData();
+  const listSource = String(form.get("list_source") ?? "").toUpperCase() as WatchlistSource;
+  const publishDate = String(form.get("publish_date") ?? "").trim() || null;
+  if (!WATCHLIST_SOURCES.has(listSource)) {
+    return NextResponse.json({ ok: false, error: "invalid_list_source" }, { status: 400 });
+  }
+  if (publishDate && !/^\d{4}-\d{2}-\d{2}$/.test(publishDate)) {
+    return NextResponse.json({ ok: false, error: "invalid_publish_date" }, { status: 400 });
+  }
+
+  const texts: Record<"file" | "alt_file" | "address_file", string | null> = { file: null, alt_file: null, address_file: null };
+  for (const field of Object.keys(texts) as Array<keyof typeof texts>) {
+    const file = form.get(field);
+    if (file == null || file === "") continue;
+    if (!(file instanceof File)) return NextResponse.json({ ok: false, error: `invalid_${field}` }, { status: 400 });
+    if (file.size > MAX_WATCHLIST_FILE_BYTES) {
+      return NextResponse.json({ ok: false, error: "file_too_large" }, { status: 413 });
+    }
+    texts[field] = await file.text();
+  }
+  if (!texts.file) return NextResponse.json({ ok: false, error: "missing_file" }, { status: 400 });
+
+  const parsed: ParseWatchlistResult =
+    listSource === "BANK_WATCHLIST"
+      ? parseWatchlistCsv(texts.file)
+      : parseOfacCsv({ primary: texts.file, alt: texts.alt_file, address: texts.address_file }, listSource);
+  if (!parsed.format || parsed.entries.length === 0) {
+    return NextResponse.json({ ok: false, error: "unrecognised_format", detail: parsed.errors }, { status: 400 });
+  }
+
+  const contentSha256 = crypto
+    .createHash("sha256")
+    .update(JSON.stringify([texts.file, texts.alt_file, texts.address_file]))
+    .digest("hex");
+  const { version, activated, reused } = await recordWatchlistVersion({
+    bankId,
+    listSource,
+    fileFormat: parsed.format,
+    entries: parsed.entries,
+    contentSha256,
+    publishDate,
+    loadedBy: userId,
+  });
+  return NextResponse.json({
+    ok: true,
+    version,
+    activated,
+    reused,
+    parsed: parsed.entries.length,
+    errors: parsed.errors,
+    rescreen_queued: activated,
+  });
+}
+
 export async function GET(req: Request, ctx: Ctx) {
   try {
     const { bankId, resource } = await ctx.params;
@@ -53,6 +191,71 @@ export async function GET(req: Request, ctx: Ctx) {
       return NextResponse.json({ ok: true, vendors: vendors ?? [] });
     }
 
+    if (AUTHORITY_RESOURCES.has(resource)) {
+      const [{ data: matrixRow }, { data: officers }] = await Promise.all([
+        sb.from("bank_lending_authority_matrices").select("matrix_json, updated_by, updated_at").eq("bank_id", bankId).maybeSingle(),
+        sb
+          .from("bank_officer_lending_authority")
+          .select("user_id, individual_limit, joint_limit, max_risk_rating, products, active, updated_by, updated_at")
+          .eq("bank_id", bankId)
+          .order("user_id", { ascending: true }),
+      ]);
+
+      return NextResponse.json({ ok: true, matrix: matrixRow ?? null, officers: officers ?? [] });
+    }
+
+    if (resource === "section-1071-register") {
+      const url = new URL(req.url);
+      const filingYear = Number(url.searchParams.get("year") ?? new Date().getUTCFullYear() - 1);
+      if (!Number.isInteger(filingYear) || filingYear < 2024) {
+        return NextResponse.json({ ok: false, error: "invalid_year" }, { status: 400 });
+      }
+      const register = await loadSection1071Register({ bankId, filingYear });
+
+      if (url.searchParams.get("format") === "csv") {
+        if (!register.validation.ok) {
+          return NextResponse.json(
+            { ok: false, error: "validation_edits_failed", validation: register.validation },
+            { status: 422 },
+          );
+        }
+        return new NextResponse(registerCsv(register.rows), {
+          headers: {
+            "content-type": "text/csv; charset=utf-8",
+            "content-disposition": `attachment; filename="sblar-${register.lei}-${filingYear}.csv"`,
+          },
+        });
+      }
+
+      return NextResponse.json({ ok: true, register });
+    }
+
+    if (resource === "sanctions-lists") {
+      return NextResponse.json({ ok: true, versions: await listWatchlistVersions(bankId) });
+    }
+
+    if (resource === "loan-doc-templates") {
+      const { data: templates } = await (sb as any)
+        .from("loan_doc_drafting_templates")
+        .select("id, document_type, version, title, body, is_active, created_by, created_at")
+        .eq("bank_id", bankId)
+        .order("document_type", { ascending: true })
+        .order("version", { ascending: false });
+
+      return NextResponse.json({ ok: true, templates: templates ?? [], mergeFields: [...MERGE_FIELDS] });
+    }
+
+    if (resource === "loan-doc-clauses") {
+      const { data: clauses } = await (sb as any)
+        .from("loan_doc_clauses")
+        .select("id, clause_key, version, title, section, document_types, condition_json, body, sort_order, is_active, created_by, created_at")
+        .eq("bank_id", bankId)
+        .order("clause_key", { ascending: true })
+        .order("version", { ascending: false });
+
+      return NextResponse.json({ ok: true, clauses: clauses ?? [] });
+    }
+
     return NextResponse.json({ ok: false, error: `unsupported_resource: ${resource}` }, { status: 400 });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -131,6 +334,158 @@ export async function POST(req: Request, ctx: Ctx) {
       return NextResponse.json({ ok: true, vendor });
     }
 
+    if (resource === "authority-matrix") {
+      const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+      const { data: current } = await sb
+        .from("bank_lending_authority_matrices")
+        .select("matrix_json")
+        .eq("bank_id", bankId)
+        .maybeSingle();
+      const matrix: AuthorityMatrix = {
+        version: Number((current as any)?.matrix_json?.version ?? 0) + 1,
+        rules: body.rules as AuthorityMatrix["rules"],
+      };
+      const errors = validateAuthorityMatrix(matrix);
+      if (errors.length > 0) {
+        return NextResponse.json({ ok: false, error: "invalid_matrix", errors }, { status: 400 });
+      }
+
+      const { error } = await sb
+        .from("bank_lending_authority_matrices")
+        .upsert(
+          { bank_id: bankId, matrix_json: matrix, updated_by: userId, updated_at: new Date().toISOString() },
+          { onConflict: "bank_id" },
+        );
+      if (error) {
+        return NextResponse.json({ ok: false, error: "upsert_failed", detail: error.message }, { status: 500 });
+      }
+      return NextResponse.json({ ok: true, matrix });
+    }
+
+    if (resource === "officer-authority") {
+      const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+      const officerUserId = typeof body.user_id === "string" ? body.user_id.trim() : "";
+      const individualLimit = nonNegative(body.individual_limit);
+      const jointLimit = nonNegative(body.joint_limit ?? body.individual_limit);
+      const maxRiskRating = body.max_risk_rating == null ? null : nonNegative(body.max_risk_rating);
+      if (!officerUserId || individualLimit === null || jointLimit === null || jointLimit < individualLimit) {
+        return NextResponse.json(
+          { ok: false, error: "user_id, individual_limit and joint_limit (>= individual_limit) are required" },
+          { status: 400 },
+        );
+      }
+      if (body.max_risk_rating != null && maxRiskRating === null) {
+        return NextResponse.json({ ok: false, error: "invalid_max_risk_rating" }, { status: 400 });
+      }
+
+      const { data: officer, error } = await sb
+        .from("bank_officer_lending_authority")
+        .upsert(
+          {
+            bank_id: bankId,
+            user_id: officerUserId,
+            individual_limit: individualLimit,
+            joint_limit: jointLimit,
+            max_risk_rating: maxRiskRating === null ? null : Math.round(maxRiskRating),
+            products: Array.isArray(body.products) && body.products.length > 0 ? body.products.map(String) : null,
+            active: body.active !== false,
+            updated_by: userId,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "bank_id,user_id" },
+        )
+        .select("user_id, individual_limit, joint_limit, max_risk_rating, products, active, updated_by, updated_at")
+        .single();
+      if (error || !officer) {
+        return NextResponse.json({ ok: false, error: "upsert_failed", detail: error?.message }, { status: 500 });
+      }
+      return NextResponse.json({ ok: true, officer });
+    }
+
+    if (resource === "section-1071-applications") {
+      const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+      const dealId = typeof body.deal_id === "string" ? body.deal_id.trim() : "";
+      if (!dealId) return NextResponse.json({ ok: false, error: "deal_id is required" }, { status: 400 });
+
+      const patch: Sb1071ApplicationPatch = {};
+      for (const field of SB1071_APPLICATION_FIELDS) {
+        if (field in body) (patch as Record<string, unknown>)[field] = body[field];
+      }
+      try {
+        const application = await upsertSection1071Application({ bankId, dealId, patch, updatedBy: userId });
+        return NextResponse.json({ ok: true, application });
+      } catch (err: any) {
+        const detail = err?.message ?? String(err);
+        if (detail === "deal_not_found") return NextResponse.json({ ok: false, error: detail }, { status: 404 });
+        if (detail === "invalid_action_taken") return NextResponse.json({ ok: false, error: detail }, { status: 400 });
+        return NextResponse.json({ ok: false, error: "upsert_failed", detail }, { status: 500 });
+      }
+    }
+
+    if (resource === "section-1071-filer") {
+      const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+      const lei = typeof body.lei === "string" ? body.lei.trim().toUpperCase() : "";
+      if (!LEI_PATTERN.test(lei)) {
+        return NextResponse.json({ ok: false, error: "lei must be 20 letters and digits" }, { status: 400 });
+      }
+      const { error } = await sb.from("banks").update({ lei }).eq("id", bankId);
+      if (error) return NextResponse.json({ ok: false, error: "update_failed", detail: error.message }, { status: 500 });
+      return NextResponse.json({ ok: true, lei });
+    }
+
+    if (resource === "sanctions-lists") {
+      return uploadWatchlist(req, bankId, userId);
+    }
+
+    if (resource === "loan-doc-templates") {
+      const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+      const template = {
+        documentType: typeof body.document_type === "string" ? body.document_type.trim() : "",
+        title: typeof body.title === "string" ? body.title.trim() : "",
+        body: typeof body.body === "string" ? body.body : "",
+      };
+      const errors = validateDraftingTemplate(template, MERGE_FIELDS);
+      if (errors.length > 0) return NextResponse.json({ ok: false, error: "invalid_template", errors }, { status: 400 });
+
+      return createDraftingVersion(
+        "loan_doc_drafting_templates",
+        "document_type",
+        { document_type: template.documentType, title: template.title, body: template.body },
+        bankId,
+        userId,
+      );
+    }
+
+    if (resource === "loan-doc-clauses") {
+      const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+      const clause = {
+        clauseKey: typeof body.clause_key === "string" ? body.clause_key.trim() : "",
+        title: typeof body.title === "string" ? body.title.trim() : "",
+        section: typeof body.section === "string" ? body.section.trim() : "",
+        documentTypes: Array.isArray(body.document_types) ? body.document_types.map(String) : [],
+        condition: body.condition ?? null,
+        body: typeof body.body === "string" ? body.body : "",
+      };
+      const errors = validateClauseDefinition(clause, MERGE_FIELDS);
+      if (errors.length > 0) return NextResponse.json({ ok: false, error: "invalid_clause", errors }, { status: 400 });
+
+      return createDraftingVersion(
+        "loan_doc_clauses",
+        "clause_key",
+        {
+          clause_key: clause.clauseKey,
+          title: clause.title,
+          section: clause.section,
+          document_types: clause.documentTypes,
+          condition_json: clause.condition,
+          body: clause.body,
+          sort_order: Number.isInteger(body.sort_order) ? body.sort_order : 0,
+        },
+        bankId,
+        userId,
+      );
+    }
+
     return NextResponse.json({ ok: false, error: `unsupported_resource: ${resource}` }, { status: 400 });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
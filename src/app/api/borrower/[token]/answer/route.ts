@@ -2,6 +2,8 @@
 import "server-only";
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { isFirewalledKey } from "@/lib/section1071/firewall";
+import { saveProtectedResponse } from "@/lib/section1071/tracking";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -53,6 +55,17 @@ export async function POST(req: NextRequest, ctx: Ctx) {
       return json(404, { ok: false, error: "Application not found" });
     }
 
+    // Section 1071 demographic answers go to the firewalled store
+    if (isFirewalledKey(question_key)) {
+      await saveProtectedResponse({
+        applicationId: application.id,
+        dealId: null,
+        questionKey: question_key,
+        value: answer_value,
+      });
+      return json(200, { ok: true });
+    }
+
     // Upsert answer to Supabase
     const { data: answer, error } = await sb
       .from("borrower_answers")
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { requireBorrowerToken } from "@/lib/borrower/token";
+import { isFirewalledKey } from "@/lib/section1071/firewall";
+import { saveProtectedResponse } from "@/lib/section1071/tracking";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -24,6 +26,17 @@ export async function POST(
       );
     }
 
+    // Section 1071 demographic answers never land in borrower_answers
+    if (isFirewalledKey(question_key)) {
+      await saveProtectedResponse({
+        applicationId: application.id,
+        dealId: application.deal_id ?? null,
+        questionKey: question_key,
+        value,
+      });
+      return NextResponse.json({ ok: true });
+    }
+
     // Upsert answer
     const { error } = await sb.from("borrower_answers").upsert(
       {
@@ -2,6 +2,7 @@
 import "server-only";
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { loadOwnProtectedResponses } from "@/lib/section1071/tracking";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -16,7 +17,10 @@ function json(status: number, body: any) {
  * GET /api/borrower/[token]/load
  * Load application data for borrower portal
  *
- * Returns: { application, applicants, answers, uploads }
+ * Returns: { application, applicants, answers, protected_answers, uploads }
+ *
+ * protected_answers are the applicant's own Section 1071 demographic
+ * answers, returned only to this token-holder session.
  */
 export async function GET(req: NextRequest, ctx: Ctx) {
   try {
@@ -55,6 +59,8 @@ export async function GET(req: NextRequest, ctx: Ctx) {
       .select("*")
       .eq("application_id", application.id);
 
+    const protectedAnswers = await loadOwnProtectedResponses(application.id);
+
     const { data: uploads } = await sb
       .from("borrower_uploads")
       .select("*")
@@ -65,6 +71,7 @@ export async function GET(req: NextRequest, ctx: Ctx) {
       application,
       applicants: applicants || [],
       answers: answers || [],
+      protected_answers: protectedAnswers,
       uploads: uploads || [],
     });
   } catch (e: any) {
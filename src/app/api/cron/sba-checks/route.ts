@@ -15,6 +15,8 @@
  * check=stale-signatures       — flag SBA form signatures expiring within 14 days (SPEC S3 D-1)
  * check=third-party-overdue    — flag third-party vendor orders past their expected completion (SPEC S5 C)
  * check=etran-cert-expiry      — flag bank E-Tran mutual-TLS certs expiring within 30 days (SPEC S5 B-7)
+ * check=etran-status           — poll SBA for decisions on received E-Tran applications and reconcile
+ *                                 returned/screened-out fields into banker tasks
  * check=template-staleness     — compare stored SBA/IRS PDFs against the live sba.gov/irs.gov
  *                                 revision so official forms never silently go stale
  */
@@ -29,6 +31,9 @@ import { pollVendorTranscriptRequest } from "@/lib/integrations/irsTranscripts/c
 import { findStaleSignatures, writeStaleSignatureGaps } from "@/lib/jobs/staleSignatureChecker";
 import { findOverdueThirdPartyOrders, writeOverdueThirdPartyGaps } from "@/lib/jobs/thirdPartyOverdueChecker";
 import { findExpiringEtranCredentials } from "@/lib/jobs/etranCertExpiryChecker";
+import { pollEtranSubmissionStatuses } from "@/lib/etran/statusTracker";
+import { getEtranCredentials } from "@/lib/etran/credentials";
+import { fetchSbaEtranStatus, resolveEtranStatusEndpoints } from "@/lib/etran/etranHttpClient";
 import { findTemplateStaleness, writeTemplateStalenessFindings } from "@/lib/jobs/templateStalenessChecker";
 
 export const runtime = "nodejs";
@@ -40,6 +45,7 @@ const CHECKS = new Set([
   "stale-signatures",
   "third-party-overdue",
   "etran-cert-expiry",
+  "etran-status",
   "template-staleness",
 ]);
 
@@ -89,6 +95,22 @@ export async function GET(req: NextRequest) {
         }
         return NextResponse.json({ ok: true, check, found: findings.length, findings, durationMs: Date.now() - start });
       }
+      case "etran-status": {
+        const endpoints = resolveEtranStatusEndpoints();
+        const outcomes = await pollEtranSubmissionStatuses({
+          sb: sb as any,
+          getCredentials: getEtranCredentials,
+          fetchStatus: fetchSbaEtranStatus,
+          sandboxStatusEndpoint: endpoints.sandbox,
+          productionStatusEndpoint: endpoints.production,
+        });
+        const decided = outcomes.filter((o) => o.outcome === "decided").length;
+        const errors = outcomes.filter((o) => o.outcome === "error");
+        if (errors.length > 0) {
+          console.warn("[cron/sba-checks] etran status polls failed", { errors });
+        }
+        return NextResponse.json({ ok: true, check, polled: outcomes.length, decided, outcomes, durationMs: Date.now() - start });
+      }
       case "template-staleness": {
         const findings = await findTemplateStaleness(sb as any);
         const written = await writeTemplateStalenessFindings(sb as any, findings);
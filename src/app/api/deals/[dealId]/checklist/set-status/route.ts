@@ -3,6 +3,7 @@ import { supabaseAdmin } from "@/lib/supabase/admin";
 import { requireUser } from "@/lib/server/authz";
 import { ensureDealBankAccess } from "@/lib/tenant/ensureDealBankAccess";
 import { writeEvent } from "@/lib/ledger/writeEvent";
+import { fireWebhook } from "@/lib/webhooks/fireWebhook";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -96,6 +97,18 @@ export async function POST(
       },
     });
 
+    if (currentItem?.status !== status) {
+      await fireWebhook("checklist.item_status_changed", {
+        deal_id: dealId,
+        bank_id: access.bankId,
+        data: {
+          checklist_key: checklistKey,
+          status,
+          previous_status: currentItem?.status || null,
+        },
+      });
+    }
+
     return NextResponse.json({ ok: true, event_emitted: true });
   } catch (error: any) {
     console.error("[/api/deals/[dealId]/checklist/set-status]", error);
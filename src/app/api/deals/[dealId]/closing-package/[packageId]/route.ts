@@ -2,15 +2,72 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireDealCockpitAccess, COCKPIT_ROLES } from "@/lib/auth/requireDealCockpitAccess";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { logLedgerEvent } from "@/lib/pipeline/logLedgerEvent";
+import { getSignedPdfUrl } from "@/lib/storage/uploadGeneratedPdf";
+import { draftClosingPackageDocuments } from "@/lib/closingPackage/drafting/draftClosingPackageDocuments";
+import { getLoanDocumentDeviations } from "@/lib/closingPackage/drafting/getLoanDocumentDeviations";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 type Ctx = { params: Promise<{ dealId: string; packageId: string }> };
 
+/**
+ * GET /api/deals/[dealId]/closing-package/[packageId]
+ * Drafted documents with their deviations from the approved terms.
+ * ?document_id=&format=docx|pdf returns a signed download URL instead.
+ */
+export async function GET(req: NextRequest, ctx: Ctx) {
+  const { dealId, packageId } = await ctx.params;
+  const auth = await requireDealCockpitAccess(dealId, COCKPIT_ROLES);
+  if (!auth.ok) return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+
+  const sb = supabaseAdmin();
+  const { data: pkg } = await sb.from("closing_packages")
+    .select("id, status, generation_version")
+    .eq("id", packageId).eq("deal_id", dealId).maybeSingle();
+  if (!pkg) return NextResponse.json({ ok: false, error: "package_not_found" }, { status: 404 });
+
+  const documentId = req.nextUrl.searchParams.get("document_id");
+  if (documentId) {
+    const format = req.nextUrl.searchParams.get("format") === "docx" ? "docx" : "pdf";
+    const { data: doc } = await (sb as any).from("closing_package_documents")
+      .select("storage_ref, docx_storage_ref")
+      .eq("id", documentId).eq("closing_package_id", packageId).maybeSingle();
+    const path = format === "docx" ? doc?.docx_storage_ref : doc?.storage_ref;
+    if (!path) return NextResponse.json({ ok: false, error: "document_not_drafted" }, { status: 404 });
+    return NextResponse.json({ ok: true, format, url: await getSignedPdfUrl(path) });
+  }
+
+  const [{ data: docs }, drafting] = await Promise.all([
+    (sb as any).from("closing_package_documents")
+      .select("id, document_type, title, render_status, drafted_at, draft_json, deviations_json")
+      .eq("closing_package_id", packageId)
+      .order("created_at", { ascending: true }),
+    getLoanDocumentDeviations(dealId, packageId),
+  ]);
+
+  return NextResponse.json({
+    ok: true,
+    package: pkg,
+    drafted: drafting.drafted,
+    deviations: drafting.deviations,
+    termsGaps: drafting.terms?.gaps ?? [],
+    documents: ((docs ?? []) as any[]).map((d) => ({
+      id: d.id,
+      documentType: d.document_type,
+      title: d.title,
+      renderStatus: d.render_status,
+      draftedAt: d.drafted_at,
+      templateVersion: d.draft_json?.templateVersion ?? null,
+      clauses: d.draft_json?.clauses ?? [],
+      deviationsAtDraft: d.deviations_json ?? [],
+    })),
+  });
+}
+
 /**
  * POST /api/deals/[dealId]/closing-package/[packageId]
- * Actions: approve, supersede
+ * Actions: approve, supersede, draft (redraft from the current approved terms)
  */
 export async function POST(req: NextRequest, ctx: Ctx) {
   const { dealId, packageId } = await ctx.params;
@@ -22,7 +79,29 @@ export async function POST(req: NextRequest, ctx: Ctx) {
   const sb = supabaseAdmin();
   const now = new Date().toISOString();
 
+  if (action === "draft") {
+    const result = await draftClosingPackageDocuments({
+      dealId,
+      bankId: auth.bankId,
+      closingPackageId: packageId,
+      actorUserId: auth.userId,
+    });
+    if (!result.ok) {
+      const status = result.error === "package_not_found" ? 404 : result.error === "package_superseded" ? 409 : 500;
+      return NextResponse.json(result, { status });
+    }
+    return NextResponse.json(result);
+  }
+
   if (action === "approve") {
+    const drafting = await getLoanDocumentDeviations(dealId, packageId);
+    if (drafting.deviations.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: "document_deviations", deviations: drafting.deviations },
+        { status: 422 },
+      );
+    }
+
     await sb.from("closing_packages")
       .update({ status: "approved_for_send", updated_at: now })
       .eq("id", packageId).eq("deal_id", dealId);
@@ -3,6 +3,7 @@ import { requireDealCockpitAccess, COCKPIT_ROLES } from "@/lib/auth/requireDealC
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { getFundingAuthorizationGate } from "@/lib/closing/getFundingAuthorizationGate";
 import { logLedgerEvent } from "@/lib/pipeline/logLedgerEvent";
+import { fireWebhook } from "@/lib/webhooks/fireWebhook";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,7 +12,8 @@ type Ctx = { params: Promise<{ dealId: string }> };
 
 /**
  * POST /api/deals/[dealId]/closing/funding/authorize
- * Authorize funding release. Requires execution_complete.
+ * Authorize funding release. Requires execution_complete and drafted loan
+ * documents that match the approved terms.
  */
 export async function POST(_req: NextRequest, ctx: Ctx) {
   const { dealId } = await ctx.params;
@@ -24,6 +26,10 @@ export async function POST(_req: NextRequest, ctx: Ctx) {
     return NextResponse.json({ ok: false, error: "execution_not_complete", reasons: gate.reasons }, { status: 422 });
   }
 
+  if (gate.documentDeviationCount > 0) {
+    return NextResponse.json({ ok: false, error: "document_deviations", reasons: gate.reasons }, { status: 422 });
+  }
+
   const sb = supabaseAdmin();
   const now = new Date().toISOString();
 
@@ -50,5 +56,15 @@ export async function POST(_req: NextRequest, ctx: Ctx) {
     meta: { funding_id: funding?.id, actor: auth.userId },
   }).catch(() => {});
 
+  await fireWebhook("closing.funding_authorized", {
+    deal_id: dealId,
+    bank_id: auth.bankId,
+    data: {
+      funding_authorization_id: funding?.id ?? null,
+      closing_package_id: gate.activePackageId,
+      authorized_at: now,
+    },
+  });
+
   return NextResponse.json({ ok: true, fundingAuthorizationId: funding?.id });
 }
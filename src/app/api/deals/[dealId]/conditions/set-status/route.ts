@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { getCurrentBankId } from "@/lib/tenant/getCurrentBankId";
+import { fireWebhook } from "@/lib/webhooks/fireWebhook";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -147,5 +148,17 @@ export async function POST(
     });
   } catch {}
 
+  await fireWebhook("condition.status_changed", {
+    deal_id: dealId,
+    bank_id: String(bankId),
+    data: {
+      condition_id,
+      title: up.data?.title ?? null,
+      status,
+      note,
+      source: cur.data.source ?? null,
+    },
+  });
+
   return NextResponse.json({ ok: true, condition: up.data ?? null });
 }
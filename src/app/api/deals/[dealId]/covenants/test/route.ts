@@ -0,0 +1,82 @@
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { requireUser } from "@/lib/server/authz";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { runCovenantComplianceTest } from "@/lib/covenants/runCovenantComplianceTest";
+import { assertDealAccess } from "@/lib/server/deal-access";
+import { accessErrorToResponse } from "@/lib/server/withDealAccess";
+
+/** GET — persisted compliance results, newest test period first. */
+export async function GET(
+  _req: NextRequest,
+  ctx: { params: Promise<{ dealId: string }> },
+) {
+  try {
+    await requireUser();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { dealId } = await ctx.params;
+  try {
+    await assertDealAccess(dealId);
+  } catch (err) {
+    const accessRes = accessErrorToResponse(err);
+    if (accessRes) return accessRes;
+    return NextResponse.json({ ok: false, error: "access_check_failed" }, { status: 500 });
+  }
+  const sb = supabaseAdmin();
+
+  const [{ data: results }, { data: springing }] = await Promise.all([
+    (sb as any)
+      .from("buddy_covenant_test_results")
+      .select("*")
+      .eq("deal_id", dealId)
+      .order("period_end", { ascending: false })
+      .limit(200),
+    (sb as any)
+      .from("buddy_covenant_springing_activations")
+      .select("*")
+      .eq("deal_id", dealId)
+      .order("activated_at", { ascending: false }),
+  ]);
+
+  return NextResponse.json({ ok: true, results: results ?? [], springing: springing ?? [] });
+}
+
+/** POST — run a compliance test now (optionally as of body.testDate). */
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ dealId: string }> },
+) {
+  let userId: string;
+  try {
+    ({ userId } = await requireUser());
+  } catch {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { dealId } = await ctx.params;
+
+  try {
+    const { bankId } = await assertDealAccess(dealId);
+    const body = await req.json().catch(() => ({}));
+    const testDate = typeof body?.testDate === "string" && !Number.isNaN(Date.parse(body.testDate))
+      ? new Date(body.testDate).toISOString()
+      : undefined;
+
+    const result = await runCovenantComplianceTest({ dealId, bankId, testDate, runBy: userId });
+    if (!result.ok) {
+      const status = result.error === "no_covenant_package" ? 404 : 500;
+      return NextResponse.json({ ok: false, error: result.error }, { status });
+    }
+
+    return NextResponse.json({ ok: true, report: result.report, exceptionsOpened: result.exceptionsOpened });
+  } catch (err) {
+    const accessRes = accessErrorToResponse(err);
+    if (accessRes) return accessRes;
+    console.error("[POST covenants/test]", err);
+    return NextResponse.json({ ok: false, error: "Failed to run compliance test" }, { status: 500 });
+  }
+}
@@ -23,6 +23,7 @@ import * as latest from "../_handlers/latest";
 import * as auditExport from "../_handlers/audit-export";
 import * as snapshot from "../_handlers/snapshot";
 import * as attest from "../_handlers/attest";
+import * as coSign from "../_handlers/co-sign";
 import * as committeeStatus from "../_handlers/committee-status";
 import * as counterfactual from "../_handlers/counterfactual";
 import * as diff from "../_handlers/diff";
@@ -48,6 +49,7 @@ const MODULES: Record<string, HandlerModule> = {
   "audit-export": auditExport as HandlerModule,
   "snapshot": snapshot as HandlerModule,
   "attest": attest as HandlerModule,
+  "co-sign": coSign as HandlerModule,
   "committee-status": committeeStatus as HandlerModule,
   "counterfactual": counterfactual as HandlerModule,
   "diff": diff as HandlerModule,
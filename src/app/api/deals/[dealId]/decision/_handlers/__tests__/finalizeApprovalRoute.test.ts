@@ -0,0 +1,254 @@
+/**
+ * Finalize enforces the delegated authority route
+ * (decision/_handlers/finalize.ts, decision/_handlers/co-sign.ts).
+ *
+ * sole finalizes; co_signer is refused until an officer with joint
+ * authority has co-signed; committee is refused until the vote is complete
+ * and a committee decline vetoes an approval. A refused finalize leaves the
+ * snapshot open, the deal stage untouched and fires no webhook.
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { mockServerOnly } from "../../../../../../../../test/utils/mockServerOnly";
+
+mockServerOnly();
+const require = createRequire(import.meta.url);
+
+// ─── Mock state ────────────────────────────────────────────────────────
+type Row = Record<string, any>;
+type CommitteeOutcome = "approve" | "approve_with_conditions" | "decline" | "pending";
+
+const state: {
+  snapshot: Row;
+  dealStage: string | null;
+  events: Row[];
+  webhooks: string[];
+  routing: Row | null;
+  recordedRouting: Row | null;
+  coSigners: string[];
+  coSignatures: Row[];
+  committee: { complete: boolean; outcome: CommitteeOutcome };
+  userId: string | null;
+} = {} as any;
+
+function resetState(over: Partial<typeof state> = {}) {
+  Object.assign(state, {
+    snapshot: { id: "snap-1", deal_id: "deal-1", status: "draft", decision: "approve" },
+    dealStage: "underwriting",
+    events: [],
+    webhooks: [],
+    routing: null,
+    recordedRouting: null,
+    coSigners: [],
+    coSignatures: [],
+    committee: { complete: false, outcome: "pending" },
+    userId: "officer-1",
+    ...over,
+  });
+}
+
+function routing(route: "sole" | "co_signer" | "committee", eligibleCoSigners: string[] = []): Row {
+  return {
+    route,
+    firedRule: { key: `rule_${route}`, label: route, source: "matrix", route },
+    matchedRules: [],
+    aggregateExposure: 1_500_000,
+    exposure: { proposed: 1_500_000, existing: 0, aggregate: 1_500_000, relatedDeals: [] },
+    officerUserId: "officer-1",
+    eligibleCoSigners,
+    matrixVersion: 1,
+  };
+}
+
+function makeQueryBuilder(table: string) {
+  const q: any = {
+    _op: "select" as "select" | "update" | "insert",
+    _payload: null as any,
+    select() {
+      return this;
+    },
+    eq() {
+      return this;
+    },
+    update(payload: any) {
+      this._op = "update";
+      this._payload = payload;
+      return this;
+    },
+    insert(payload: any) {
+      if (table === "deal_events") state.events.push(payload);
+      return Promise.resolve({ data: null, error: null });
+    },
+    single() {
+      return Promise.resolve({ data: table === "decision_snapshots" ? state.snapshot : null, error: null });
+    },
+    then(onFulfilled: any) {
+      if (this._op === "update") {
+        if (table === "decision_snapshots") Object.assign(state.snapshot, this._payload);
+        if (table === "deals") state.dealStage = this._payload.stage;
+      }
+      return Promise.resolve({ data: null, error: null }).then(onFulfilled);
+    },
+  };
+  return q;
+}
+
+function stub(id: string, exports: Record<string, unknown>) {
+  require.cache[require.resolve(id)] = { id, filename: id, loaded: true, exports } as any;
+}
+
+stub("@/lib/supabase/admin", { supabaseAdmin: () => ({ from: makeQueryBuilder }) });
+stub("@/lib/tenant/getCurrentBankId", { getCurrentBankId: async () => "bank-1" });
+stub("@/lib/deals/fetchDealContext", { fetchDealBankId: async () => "bank-1" });
+stub("@/lib/deals/readiness", { recomputeDealReady: async () => undefined });
+stub("@/lib/webhooks/fireWebhook", {
+  fireWebhook: async (event: string) => {
+    state.webhooks.push(event);
+  },
+});
+stub("@/lib/auth/clerkServer", {
+  safeClerkAuth: async () => ({ userId: state.userId }),
+  clerkAuth: async () => ({ userId: state.userId }),
+});
+stub("@/lib/sanctions/screeningService", {
+  getSanctionsScreeningGate: async () => ({ ready: true, trueMatchCount: 0 }),
+});
+stub("@/lib/section1071/tracking", { recordSection1071ActionTaken: async () => undefined });
+stub("@/lib/committee/committeeLogic", {
+  getCommitteeStatus: async () => ({
+    quorum: 2,
+    voteCount: state.committee.complete ? 2 : 0,
+    tally: { approve: 0, approve_with_conditions: 0, decline: 0 },
+    votes: [],
+    ...state.committee,
+  }),
+});
+stub("@/lib/committee/approvalRouting", {
+  evaluateApprovalRouting: async () => state.routing,
+  recordApprovalRouting: async ({ routing: r }: { routing: Row }) => {
+    state.recordedRouting = { id: "routing-1", route: r.route, officer_user_id: r.officerUserId, routing_json: r };
+  },
+  loadLatestApprovalRouting: async () => state.recordedRouting,
+  loadCoSignerUserIds: async () => state.coSigners,
+  recordCoSignature: async (args: Row) => {
+    state.coSignatures.push(args);
+    state.coSigners.push(args.signerUserId);
+  },
+});
+
+const finalize = require("../finalize") as typeof import("../finalize");
+const coSign = require("../co-sign") as typeof import("../co-sign");
+
+const ctx = { params: Promise.resolve({ dealId: "deal-1", snapshotId: "snap-1" }) };
+
+async function callFinalize(): Promise<{ status: number; body: any }> {
+  const res = await finalize.POST(new Request("http://test/finalize", { method: "POST" }), ctx);
+  return { status: res.status, body: await res.json() };
+}
+
+async function callCoSign(): Promise<{ status: number; body: any }> {
+  const res = await coSign.POST(new Request("http://test/co-sign", { method: "POST" }), ctx);
+  return { status: res.status, body: await res.json() };
+}
+
+function assertStillOpen() {
+  assert.equal(state.snapshot.status, "draft");
+  assert.equal(state.dealStage, "underwriting");
+  assert.deepEqual(state.webhooks, []);
+}
+
+// ─── sole ─────────────────────────────────────────────────────────────
+
+test("sole route finalizes and advances the deal", async () => {
+  resetState({ routing: routing("sole") });
+  const r = await callFinalize();
+  assert.equal(r.status, 200);
+  assert.equal(r.body.approval_route, "sole");
+  assert.equal(state.snapshot.status, "final");
+  assert.equal(state.snapshot.committee_required, false);
+  assert.equal(state.dealStage, "decision_made");
+  assert.deepEqual(state.webhooks, ["decision.finalized"]);
+});
+
+// ─── co_signer ────────────────────────────────────────────────────────
+
+test("co_signer route → 409 until an eligible officer co-signs", async () => {
+  resetState({ routing: routing("co_signer", ["officer-2", "officer-3"]) });
+  const r = await callFinalize();
+  assert.equal(r.status, 409);
+  assert.equal(r.body.error, "co_signer_required");
+  assert.deepEqual(r.body.eligible_co_signers, ["officer-2", "officer-3"]);
+  assertStillOpen();
+});
+
+test("co_signer route ignores a co-signature from an officer without joint authority", async () => {
+  resetState({ routing: routing("co_signer", ["officer-2"]), coSigners: ["officer-9"] });
+  const r = await callFinalize();
+  assert.equal(r.status, 409);
+  assertStillOpen();
+});
+
+test("co_signer route finalizes once an eligible officer has co-signed", async () => {
+  resetState({ routing: routing("co_signer", ["officer-2"]) });
+  assert.equal((await callFinalize()).status, 409);
+
+  state.userId = "officer-2";
+  const signed = await callCoSign();
+  assert.equal(signed.status, 200);
+  assert.equal(state.coSignatures[0].approvalRoutingId, "routing-1");
+  assert.ok(state.events.some((e) => e.kind === "decision.co_signed"));
+
+  state.userId = "officer-1";
+  const r = await callFinalize();
+  assert.equal(r.status, 200);
+  assert.equal(r.body.approval_route, "co_signer");
+  assert.equal(state.snapshot.status, "final");
+  assert.equal(state.dealStage, "decision_made");
+});
+
+test("co-sign → 403 for an officer who is not an eligible co-signer", async () => {
+  resetState({ routing: routing("co_signer", ["officer-2"]) });
+  await callFinalize();
+  state.userId = "officer-9";
+  const r = await callCoSign();
+  assert.equal(r.status, 403);
+  assert.deepEqual(state.coSignatures, []);
+});
+
+test("co-sign → 409 when the decision was not routed to co_signer", async () => {
+  resetState({ routing: routing("sole") });
+  state.recordedRouting = { id: "routing-1", route: "committee", officer_user_id: "officer-1", routing_json: routing("committee") };
+  state.userId = "officer-2";
+  const r = await callCoSign();
+  assert.equal(r.status, 409);
+  assert.equal(r.body.error, "not_routed_to_co_signer");
+});
+
+// ─── committee ────────────────────────────────────────────────────────
+
+test("committee route → 409 until the committee vote is complete", async () => {
+  resetState({ routing: routing("committee") });
+  const r = await callFinalize();
+  assert.equal(r.status, 409);
+  assert.equal(r.body.error, "committee_vote_required");
+  assertStillOpen();
+});
+
+test("committee route → 409 when the committee declined an approval", async () => {
+  resetState({ routing: routing("committee"), committee: { complete: true, outcome: "decline" } });
+  const r = await callFinalize();
+  assert.equal(r.status, 409);
+  assert.equal(r.body.error, "committee_declined");
+  assertStillOpen();
+});
+
+test("committee route finalizes after the committee has voted", async () => {
+  resetState({ routing: routing("committee"), committee: { complete: true, outcome: "approve_with_conditions" } });
+  const r = await callFinalize();
+  assert.equal(r.status, 200);
+  assert.equal(r.body.approval_route, "committee");
+  assert.equal(state.snapshot.status, "final");
+  assert.equal(state.snapshot.committee_required, true);
+  assert.deepEqual(state.webhooks, ["decision.finalized"]);
+});
@@ -0,0 +1,91 @@
+/**
+ * POST /api/deals/{dealId}/decision/{snapshotId}/co-sign
+ *
+ * Co-sign a decision the delegated authority matrix routed to co_signer.
+ * Only an officer listed as an eligible co-signer on the latest recorded
+ * routing (joint authority covering the request) may co-sign; finalize
+ * is refused until one has.
+ */
+
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { getCurrentBankId } from "@/lib/tenant/getCurrentBankId";
+import { fetchDealBankId } from "@/lib/deals/fetchDealContext";
+import { clerkAuth } from "@/lib/auth/clerkServer";
+import { loadLatestApprovalRouting, recordCoSignature } from "@/lib/committee/approvalRouting";
+
+export async function POST(
+  _req: Request,
+  ctx: { params: Promise<{ dealId: string; snapshotId: string }> }
+) {
+  const { dealId, snapshotId } = await ctx.params;
+  const bankId = await getCurrentBankId();
+  if (!bankId) {
+    return NextResponse.json({ error: "No bank selected" }, { status: 401 });
+  }
+
+  const { userId } = await clerkAuth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const dealBankId = await fetchDealBankId(dealId);
+  if (dealBankId !== bankId) {
+    return NextResponse.json({ error: "Deal not found" }, { status: 404 });
+  }
+
+  const sb = supabaseAdmin();
+  const { data: snapshot, error: snapErr } = await sb
+    .from("decision_snapshots")
+    .select("id, status")
+    .eq("id", snapshotId)
+    .eq("deal_id", dealId)
+    .single();
+
+  if (snapErr || !snapshot) {
+    return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+  }
+  if (snapshot.status === "final") {
+    return NextResponse.json({ error: "Decision is already final" }, { status: 409 });
+  }
+
+  const routing = await loadLatestApprovalRouting(snapshotId);
+  if (!routing || routing.route !== "co_signer") {
+    return NextResponse.json(
+      { error: "not_routed_to_co_signer", route: routing?.route ?? null },
+      { status: 409 }
+    );
+  }
+  if (!routing.routing_json.eligibleCoSigners.includes(userId)) {
+    return NextResponse.json(
+      { error: "User does not hold joint authority for this decision" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await recordCoSignature({
+      bankId,
+      dealId,
+      snapshotId,
+      signerUserId: userId,
+      approvalRoutingId: routing.id,
+    });
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message ?? "co_signature_failed" }, { status: 500 });
+  }
+
+  // deal_events has no bank_id column; bank_id moves into payload.
+  await sb.from("deal_events").insert({
+    deal_id: dealId,
+    kind: "decision.co_signed",
+    payload: {
+      bank_id: bankId,
+      snapshot_id: snapshotId,
+      signer_user_id: userId,
+      officer_user_id: routing.officer_user_id,
+    },
+  });
+
+  return NextResponse.json({ ok: true, snapshotId, signer_user_id: userId });
+}
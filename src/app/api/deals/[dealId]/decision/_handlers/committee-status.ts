@@ -2,13 +2,17 @@
  * GET /api/deals/{dealId}/decision/{snapshotId}/committee-status
  * 
  * Returns whether this decision requires credit committee approval
- * and the reasons why (based on bank policy rules).
+ * and the reasons why (based on bank policy rules), plus the delegated
+ * authority route: the routing recorded at finalize, or a live preview
+ * for the current officer while the snapshot is still open.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { getCurrentBankId } from "@/lib/tenant/getCurrentBankId";
 import { requiresCreditCommittee } from "@/lib/decision/creditCommittee";
+import { safeClerkAuth } from "@/lib/auth/clerkServer";
+import { evaluateApprovalRouting, loadLatestApprovalRouting } from "@/lib/committee/approvalRouting";
 
 type Ctx = { params: Promise<{ dealId: string; snapshotId: string }> };
 
@@ -39,10 +43,24 @@ export async function GET(req: NextRequest, ctx: Ctx) {
     decisionSnapshot: snapshot
   });
 
+  const recorded = await loadLatestApprovalRouting(snapshotId);
+  let approvalRouting = recorded?.routing_json ?? null;
+  if (!recorded && snapshot.status !== "final") {
+    const { userId } = await safeClerkAuth();
+    approvalRouting = await evaluateApprovalRouting({
+      bankId,
+      dealId,
+      decisionSnapshot: snapshot,
+      officerUserId: userId ?? undefined,
+    });
+  }
+
   return NextResponse.json({
     ok: true,
     committee_required: evaluation.required,
     reasons: evaluation.reasons,
-    policy: evaluation.policy
+    policy: evaluation.policy,
+    approval_routing: approvalRouting,
+    approval_routing_recorded: !!recorded
   });
 }
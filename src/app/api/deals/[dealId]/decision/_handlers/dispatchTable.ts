@@ -31,6 +31,7 @@ const STATIC_TOP: Record<string, DecisionRoute> = {
 
 const SNAPSHOT_CHILD: Record<string, DecisionRoute> = {
   attest: { handler: "attest", methods: ["POST", "GET"] },
+  "co-sign": { handler: "co-sign", methods: ["POST"] },
   "committee-status": { handler: "committee-status", methods: ["GET"] },
   counterfactual: { handler: "counterfactual", methods: ["POST", "GET"] },
   diff: { handler: "diff", methods: ["GET"] },
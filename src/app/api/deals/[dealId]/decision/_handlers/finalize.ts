@@ -3,6 +3,13 @@ import { supabaseAdmin } from "@/lib/supabase/admin";
 import { getCurrentBankId } from "@/lib/tenant/getCurrentBankId";
 import { fetchDealBankId } from "@/lib/deals/fetchDealContext";
 import { recomputeDealReady } from "@/lib/deals/readiness";
+import { fireWebhook } from "@/lib/webhooks/fireWebhook";
+import { safeClerkAuth } from "@/lib/auth/clerkServer";
+import { evaluateApprovalRouting, loadCoSignerUserIds, recordApprovalRouting } from "@/lib/committee/approvalRouting";
+import { getCommitteeStatus } from "@/lib/committee/committeeLogic";
+import { ACTION_TAKEN } from "@/lib/section1071/codes";
+import { recordSection1071ActionTaken } from "@/lib/section1071/tracking";
+import { getSanctionsScreeningGate } from "@/lib/sanctions/screeningService";
 
 export async function POST(
   _req: Request,
@@ -25,7 +32,7 @@ export async function POST(
   // Fetch snapshot
   const { data: snapshot, error: snapErr } = await sb
     .from("decision_snapshots")
-    .select("id, status, decision")
+    .select("*")
     .eq("id", snapshotId)
     .eq("deal_id", dealId)
     .single();
@@ -38,22 +45,121 @@ export async function POST(
     return NextResponse.json({ ok: true, already_final: true });
   }
 
+  // Sanctions screening is a hard gate (the lifecycle blocker fails open;
+  // this does not). A confirmed true match permits only a decline.
+  let sanctionsGate: Awaited<ReturnType<typeof getSanctionsScreeningGate>>;
+  try {
+    sanctionsGate = await getSanctionsScreeningGate(dealId, bankId);
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message ?? "sanctions_gate_failed" }, { status: 500 });
+  }
+  if (!sanctionsGate.ready) {
+    return NextResponse.json({ error: "sanctions_screening_open", gate: sanctionsGate }, { status: 409 });
+  }
+  if (sanctionsGate.trueMatchCount > 0 && snapshot.decision !== "decline") {
+    return NextResponse.json({ error: "sanctions_true_match", gate: sanctionsGate }, { status: 409 });
+  }
+
+  // Route through the delegated authority matrix while the snapshot is
+  // still mutable — committee_required cannot be set once it is final.
+  // Banks without an authority matrix are not routed (routing = null).
+  const { userId } = await safeClerkAuth();
+  let routing: Awaited<ReturnType<typeof evaluateApprovalRouting>> = null;
+  try {
+    routing = await evaluateApprovalRouting({
+      bankId,
+      dealId,
+      decisionSnapshot: snapshot,
+      officerUserId: userId ?? undefined,
+    });
+    if (routing) await recordApprovalRouting({ bankId, dealId, snapshotId, routing });
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message ?? "approval_routing_failed" }, { status: 500 });
+  }
+
+  // The route must be satisfied before the decision is final: sole signs
+  // alone, co_signer needs an officer with joint authority to have
+  // co-signed, committee needs a complete vote (any decline vetoes).
+  if (routing?.route === "co_signer") {
+    let coSigners: string[];
+    try {
+      coSigners = await loadCoSignerUserIds(snapshotId);
+    } catch (err: any) {
+      return NextResponse.json({ error: err?.message ?? "co_signatures_failed" }, { status: 500 });
+    }
+    if (!coSigners.some((u) => routing.eligibleCoSigners.includes(u))) {
+      return NextResponse.json(
+        { error: "co_signer_required", eligible_co_signers: routing.eligibleCoSigners },
+        { status: 409 }
+      );
+    }
+  } else if (routing?.route === "committee") {
+    const committee = await getCommitteeStatus({ bankId, snapshotId });
+    if (!committee.complete || committee.outcome === "pending") {
+      return NextResponse.json(
+        { error: "committee_vote_required", quorum: committee.quorum, vote_count: committee.voteCount },
+        { status: 409 }
+      );
+    }
+    if (committee.outcome === "decline" && snapshot.decision !== "decline") {
+      return NextResponse.json({ error: "committee_declined", tally: committee.tally }, { status: 409 });
+    }
+  }
+
   // Mark snapshot as final
   const { error: updateErr } = await sb
     .from("decision_snapshots")
-    .update({ status: "final" })
+    .update({ status: "final", ...(routing ? { committee_required: routing.route === "committee" } : {}) })
     .eq("id", snapshotId);
 
   if (updateErr) {
     return NextResponse.json({ error: updateErr.message }, { status: 500 });
   }
 
+  if (routing) {
+    // deal_events has no bank_id column; bank_id moves into payload.
+    await sb.from("deal_events").insert({
+      deal_id: dealId,
+      kind: "decision.approval_routed",
+      payload: {
+        bank_id: bankId,
+        snapshot_id: snapshotId,
+        route: routing.route,
+        fired_rule_key: routing.firedRule.key,
+        aggregate_exposure: routing.aggregateExposure,
+        officer_user_id: routing.officerUserId,
+      },
+    });
+  }
+
   // Advance deals.stage to decision_made
   await sb
     .from("deals")
     .update({ stage: "decision_made", updated_at: new Date().toISOString() })
     .eq("id", dealId);
 
+  await fireWebhook("decision.finalized", {
+    deal_id: dealId,
+    bank_id: bankId,
+    data: { snapshot_id: snapshotId, decision: snapshot.decision },
+  });
+
+  // A final decline is the Section 1071 action taken (1 = denied). Other
+  // actions (originated, withdrawn, …) are recorded by compliance staff.
+  if (snapshot.decision === "decline") {
+    try {
+      await recordSection1071ActionTaken({
+        bankId,
+        dealId,
+        actionTaken: ACTION_TAKEN.denied,
+        actionTakenDate: new Date().toISOString(),
+        updatedBy: userId ?? null,
+      });
+    } catch (err: any) {
+      console.warn("[finalize] section 1071 action taken failed (non-fatal)", err?.message);
+    }
+  }
+
   // Trigger lifecycle recompute (non-fatal)
   try {
     await recomputeDealReady(dealId);
@@ -61,5 +167,10 @@ export async function POST(
     console.warn("[finalize] recomputeDealReady failed (non-fatal)", err?.message);
   }
 
-  return NextResponse.json({ ok: true, snapshotId, decision: snapshot.decision });
+  return NextResponse.json({
+    ok: true,
+    snapshotId,
+    decision: snapshot.decision,
+    approval_route: routing?.route ?? null,
+  });
 }
@@ -1,30 +1,65 @@
+import "server-only";
+
 import { NextResponse } from "next/server";
-import { getSupabaseServerClient } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { ensureDealBankAccess } from "@/lib/tenant/ensureDealBankAccess";
+import { rethrowNextErrors } from "@/lib/api/rethrowNextErrors";
 import { writeAiEvent } from "@/lib/aiEvents";
-import { simulateExaminerReview } from "@/lib/examiner/examinerSimulator";
+import { runExaminerFileReview } from "@/lib/examiner/runExaminerReview";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
+/**
+ * POST /api/deals/[dealId]/examiner/simulate
+ *
+ * Runs the examiner rule library over this deal's loan file and stores the
+ * scored review (examiner_file_reviews). The legacy
+ * "examiner.simulation.completed" ai_event is still written with the
+ * risk level and finding titles for existing readers of the examiner ledger.
+ */
 export async function POST(
   _: Request,
   { params }: { params: Promise<{ dealId: string }> }
 ) {
-  const { dealId } = await params;
-  const supabase = getSupabaseServerClient();
-
-  const { data: events } = await supabase
-    .from("ai_events")
-    .select("*")
-    .eq("deal_id", dealId);
+  try {
+    const { dealId } = await params;
+    const access = await ensureDealBankAccess(dealId);
+    if (!access.ok) {
+      return NextResponse.json(
+        { ok: false, error: access.error },
+        { status: access.error === "deal_not_found" ? 404 : 403 },
+      );
+    }
 
-  const result = simulateExaminerReview(events ?? []);
+    const result = await runExaminerFileReview(supabaseAdmin(), {
+      dealId,
+      bankId: access.bankId,
+      userId: access.userId ?? null,
+    });
+    if (!result) return NextResponse.json({ ok: false, error: "deal_not_found" }, { status: 404 });
+    const review = result.reviews[0];
 
-  await writeAiEvent({
-    deal_id: dealId,
-    kind: "examiner.simulation.completed",
-    scope: "sba",
-    action: "review",
-    output_json: result,
-    confidence: 0.9
-  });
+    await writeAiEvent({
+      deal_id: dealId,
+      kind: "examiner.simulation.completed",
+      scope: "sba",
+      action: "review",
+      output_json: {
+        risk_level: review.risk_level,
+        flags: review.findings.map((f) => `${f.rule_id}: ${f.detail}`),
+        run_id: result.runId,
+        review_id: review.review_id,
+        score: review.score,
+        rating: review.rating,
+      },
+      confidence: 0.9
+    });
 
-  return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, run_id: result.runId, review });
+  } catch (e: any) {
+    rethrowNextErrors(e);
+    console.error("[examiner/simulate] failed", e);
+    return NextResponse.json({ ok: false, error: e?.message ?? "simulation_failed" }, { status: 500 });
+  }
 }
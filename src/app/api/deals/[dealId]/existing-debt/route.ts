@@ -5,6 +5,10 @@ import {
   insertExistingDebtScheduleEntry,
   syncExistingDebtScheduleToDownstream,
 } from "@/lib/financialFacts/existingDebtScheduleWriter";
+import { rematchUccLiens } from "@/lib/thirdParty/orchestrator";
+import { loadBankTransactionAnalysis } from "@/lib/deposits/loadBankTransactionAnalysis";
+import { buildDebtSchedule } from "@/lib/financialFacts/debtScheduleAutoBuilder";
+import { debtScheduleEntryToRow } from "@/lib/financialFacts/existingDebtSchedule";
 
 export const dynamic = "force-dynamic";
 
@@ -31,7 +35,33 @@ export async function GET(
     return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
   }
 
-  return NextResponse.json({ ok: true, existingDebt: data ?? [] });
+  // UCC liens parsed from third-party searches, with how each one matched
+  // against the rows above (see thirdParty/ucc/uccLienLedger.ts).
+  const { data: uccLiens } = await (sb as any)
+    .from("deal_ucc_liens")
+    .select("*")
+    .eq("deal_id", dealId)
+    .order("debtor_name", { ascending: true })
+    .order("filing_date", { ascending: true });
+
+  // Suggested rows for recurring lender debits in bank activity that aren't
+  // on the schedule yet — not written; the banker confirms each via POST.
+  let bankTransactionCandidates: ReturnType<typeof debtScheduleEntryToRow>[] = [];
+  try {
+    const analysis = await loadBankTransactionAnalysis(sb, { dealId });
+    bankTransactionCandidates = buildDebtSchedule(analysis.debt_candidates).map((e) =>
+      debtScheduleEntryToRow(e, { dealId, bankId: access.bankId ?? null }),
+    );
+  } catch (e) {
+    console.warn("[existing-debt] bank transaction candidates failed (non-fatal)", e);
+  }
+
+  return NextResponse.json({
+    ok: true,
+    existingDebt: data ?? [],
+    uccLiens: uccLiens ?? [],
+    bankTransactionCandidates,
+  });
 }
 
 export async function POST(
@@ -71,6 +101,8 @@ export async function POST(
   // Brokerage borrower-facing route does. See existingDebtScheduleWriter.ts.
   if (access.bankId) {
     await syncExistingDebtScheduleToDownstream({ dealId, bankId: access.bankId }).catch(() => {});
+    // Non-fatal: a newly disclosed lender may explain a UCC lien.
+    await rematchUccLiens({ dealId, bankId: access.bankId }, { sb: supabaseAdmin() as any }).catch(() => {});
   }
 
   return NextResponse.json({ ok: true, existingDebt: result.row });
@@ -30,12 +30,12 @@ export async function GET(_req: NextRequest, ctx: { params: Params }) {
     const sb = supabaseAdmin();
     const { data: link } = await sb
       .from("deal_franchises")
-      .select("brand_id")
+      .select("brand_id, unit_count")
       .eq("deal_id", dealId)
       .maybeSingle();
 
     if (!link?.brand_id) {
-      return NextResponse.json({ ok: true, brandId: null, brandName: null });
+      return NextResponse.json({ ok: true, brandId: null, brandName: null, unitCount: null });
     }
 
     const { data: brand } = await sb
@@ -48,6 +48,7 @@ export async function GET(_req: NextRequest, ctx: { params: Params }) {
       ok: true,
       brandId: link.brand_id,
       brandName: brand?.brand_name ?? null,
+      unitCount: link.unit_count ?? null,
     });
   } catch (error) {
     rethrowNextErrors(error);
@@ -67,6 +68,12 @@ export async function PATCH(req: NextRequest, ctx: { params: Params }) {
     if (!brandId) {
       return NextResponse.json({ ok: false, error: "brand_id_required" }, { status: 400 });
     }
+    // Optional: units the borrower operates under the brand (not the
+    // brand's system-wide count). Omitted leaves the stored value as is.
+    const unitCount = body?.unit_count;
+    if (unitCount !== undefined && unitCount !== null && !(Number.isInteger(unitCount) && unitCount > 0)) {
+      return NextResponse.json({ ok: false, error: "invalid_unit_count" }, { status: 400 });
+    }
 
     const access = await assertDealAccess(dealId);
 
@@ -88,7 +95,12 @@ export async function PATCH(req: NextRequest, ctx: { params: Params }) {
     const { error: upsertErr } = await sb
       .from("deal_franchises")
       .upsert(
-        { deal_id: dealId, brand_id: brand.id, updated_at: new Date().toISOString() },
+        {
+          deal_id: dealId,
+          brand_id: brand.id,
+          ...(unitCount !== undefined ? { unit_count: unitCount } : {}),
+          updated_at: new Date().toISOString(),
+        },
         { onConflict: "deal_id" },
       );
 
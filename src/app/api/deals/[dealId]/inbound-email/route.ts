@@ -0,0 +1,126 @@
+import "server-only";
+
+/**
+ * Per-deal inbound email intake — banker side.
+ *
+ * GET  /api/deals/[dealId]/inbound-email
+ *   → inbound addresses (deal + campaign) and the 50 most recent messages
+ * POST /api/deals/[dealId]/inbound-email
+ *   { action: "ensure_address", campaignId? }  → create/return the active address
+ *   { action: "disable_address", addressId }   → stop routing mail for it
+ *   { action: "release", messageId }           → ingest a quarantined message
+ *
+ * Mail itself arrives via /api/webhooks/inbound-email
+ * (src/lib/intake/inboundEmail/ingestInboundEmail.ts).
+ */
+
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { assertDealAccess } from "@/lib/server/deal-access";
+import { accessErrorToResponse } from "@/lib/server/withDealAccess";
+import { inboundAddressFor } from "@/lib/intake/inboundEmail/addresses";
+import {
+  ensureInboundAddress,
+  releaseQuarantinedInboundEmail,
+} from "@/lib/intake/inboundEmail/ingestInboundEmail";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ dealId: string }> };
+
+function withEmail<T extends { token: string }>(row: T) {
+  return { ...row, email: inboundAddressFor(row.token) };
+}
+
+export async function GET(_req: Request, ctx: Ctx) {
+  try {
+    const { dealId: rawDealId } = await ctx.params;
+    const { dealId, bankId } = await assertDealAccess(rawDealId);
+    const sb = supabaseAdmin();
+
+    const [addresses, messages] = await Promise.all([
+      (sb as any)
+        .from("deal_inbound_addresses")
+        .select("id, token, campaign_id, status, created_at")
+        .eq("deal_id", dealId)
+        .eq("bank_id", bankId)
+        .order("created_at", { ascending: false }),
+      (sb as any)
+        .from("inbound_email_messages")
+        .select("id, from_email, subject, status, reason, attachment_count, document_ids, skipped_attachments, received_at, released_by, released_at")
+        .eq("deal_id", dealId)
+        .eq("bank_id", bankId)
+        .order("received_at", { ascending: false })
+        .limit(50),
+    ]);
+
+    return NextResponse.json({
+      ok: true,
+      domainConfigured: Boolean(process.env.INBOUND_EMAIL_DOMAIN),
+      addresses: (addresses.data ?? []).map(withEmail),
+      messages: messages.data ?? [],
+    });
+  } catch (e: unknown) {
+    const accessRes = accessErrorToResponse(e);
+    if (accessRes) return accessRes;
+    console.error("[/api/deals/[dealId]/inbound-email] GET", e);
+    return NextResponse.json({ ok: false, error: "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, ctx: Ctx) {
+  try {
+    const { dealId: rawDealId } = await ctx.params;
+    const { dealId, bankId, userId } = await assertDealAccess(rawDealId);
+    const sb = supabaseAdmin();
+    const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+    const action = typeof body.action === "string" ? body.action : "";
+
+    if (action === "ensure_address") {
+      const campaignId = typeof body.campaignId === "string" && body.campaignId ? body.campaignId : null;
+      if (campaignId) {
+        const { data: campaign } = await (sb as any)
+          .from("borrower_request_campaigns")
+          .select("id")
+          .eq("id", campaignId)
+          .eq("deal_id", dealId)
+          .maybeSingle();
+        if (!campaign) return NextResponse.json({ ok: false, error: "campaign_not_found" }, { status: 404 });
+      }
+      const address = await ensureInboundAddress({ dealId, bankId, campaignId, createdBy: userId }, sb);
+      return NextResponse.json({ ok: true, address: withEmail(address) });
+    }
+
+    if (action === "disable_address") {
+      const addressId = typeof body.addressId === "string" ? body.addressId : "";
+      if (!addressId) return NextResponse.json({ ok: false, error: "missing_addressId" }, { status: 400 });
+      const { error } = await (sb as any)
+        .from("deal_inbound_addresses")
+        .update({ status: "disabled" })
+        .eq("id", addressId)
+        .eq("deal_id", dealId)
+        .eq("bank_id", bankId);
+      if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      return NextResponse.json({ ok: true });
+    }
+
+    if (action === "release") {
+      const messageId = typeof body.messageId === "string" ? body.messageId : "";
+      if (!messageId) return NextResponse.json({ ok: false, error: "missing_messageId" }, { status: 400 });
+      const res = await releaseQuarantinedInboundEmail({ messageRowId: messageId, dealId, bankId, userId });
+      if (!res.ok) {
+        return NextResponse.json(res, { status: res.error === "message_not_found" ? 404 : 409 });
+      }
+      return NextResponse.json(res);
+    }
+
+    return NextResponse.json({ ok: false, error: `unsupported_action: ${action}` }, { status: 400 });
+  } catch (e: unknown) {
+    const accessRes = accessErrorToResponse(e);
+    if (accessRes) return accessRes;
+    console.error("[/api/deals/[dealId]/inbound-email] POST", e);
+    return NextResponse.json({ ok: false, error: "unexpected_error" }, { status: 500 });
+  }
+}
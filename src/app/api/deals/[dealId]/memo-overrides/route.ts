@@ -4,6 +4,7 @@ import { rethrowNextErrors } from "@/lib/api/rethrowNextErrors";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { isPermittedOverrideKey } from "@/lib/creditMemo/overridePolicy";
 import { emitMemoOverrideSaved } from "@/lib/observability/underwriteEvents";
+import { fireWebhook } from "@/lib/webhooks/fireWebhook";
 
 export const runtime = "nodejs";
 export const maxDuration = 15;
@@ -48,6 +49,12 @@ export async function PATCH(req: NextRequest, props: { params: Promise<{ dealId:
       await sb.from("deal_memo_overrides").insert({ deal_id: dealId, bank_id: auth.bankId, overrides: merged });
     }
     emitMemoOverrideSaved({ dealId, actorUserId: auth.userId, key, rejected: false });
+    // Section key only — narrative text stays in Buddy; receivers fetch it if entitled.
+    await fireWebhook("memo.section_saved", {
+      deal_id: dealId,
+      bank_id: auth.bankId,
+      data: { section_key: key, cleared: !value },
+    });
     return NextResponse.json({ ok: true });
   } catch (e: unknown) {
     rethrowNextErrors(e);
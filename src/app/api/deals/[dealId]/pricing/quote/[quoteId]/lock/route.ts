@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { getCurrentBankId } from "@/lib/tenant/getCurrentBankId";
 import { getLatestIndexRates } from "@/lib/rates/indexRates";
+import { getIndexRateRecord, recordToIndexRate } from "@/lib/rates/indexRateHistory";
+import { resolveQuoteRateRecordId } from "@/lib/pricing/getLatestLockedQuote";
 import { buildPricingMemoMarkdown } from "@/lib/pricing/memoBlock";
 import {
   buildExplainability,
@@ -35,7 +37,7 @@ export async function POST(
 
   const { data: quote, error: qErr } = await sb
     .from("deal_pricing_quotes")
-    .select("id, status")
+    .select("id, status, index_rate_history_id, rate_snapshot_id")
     .eq("id", quoteId)
     .eq("deal_id", dealId)
     .single();
@@ -47,6 +49,19 @@ export async function POST(
     return NextResponse.json({ ok: true, status: "locked" });
   }
 
+  // A locked quote must point at the exact index rate record it used.
+  const rateRecordId = await resolveQuoteRateRecordId(sb, quote);
+  if (!rateRecordId) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "rate_record_missing",
+        message: "This quote has no recorded index rate. Generate a new quote before locking.",
+      },
+      { status: 409 },
+    );
+  }
+
   let underwritingSnapshotId: string | null = null;
   try {
     const snap = await sb
@@ -69,6 +84,7 @@ export async function POST(
       locked_by: "system",
       underwriting_snapshot_id: underwritingSnapshotId,
       lock_reason: lockReason,
+      index_rate_history_id: rateRecordId,
     })
     .eq("id", quoteId)
     .eq("deal_id", dealId)
@@ -102,8 +118,11 @@ export async function POST(
       base_rate_override_pct: inputsRow?.base_rate_override_pct ?? null,
     };
 
-    const latest = await getLatestIndexRates();
-    const latestRate = latest[inputs.index_code];
+    // Memo reflects the rate the quote was priced from, not today's rate.
+    const rateRecord = await getIndexRateRecord(rateRecordId);
+    const latestRate = rateRecord
+      ? recordToIndexRate(rateRecord)
+      : (await getLatestIndexRates())[inputs.index_code];
 
     const baseRatePct = inputs.base_rate_override_pct ?? latestRate.ratePct;
     const spreadBps = inputs.spread_override_bps ?? Number(updated.spread_bps ?? 0);
@@ -181,7 +200,7 @@ export async function POST(
     kind: "pricing.quote.locked",
     scope: "pricing",
     action: "quote_locked",
-    output: { quoteId, lockReason },
+    output: { quoteId, lockReason, indexRateHistoryId: rateRecordId },
   }).catch(() => {});
 
   // SPEC-PRICING-STAGE-GATE-FIX-1: Locking a quote finalizes risk pricing.
@@ -95,6 +95,7 @@ export async function POST(
       source: live.source,
       source_url: live.sourceUrl ?? null,
       raw: live.raw ?? null,
+      index_rate_history_id: live.historyId ?? null,
     })
     .select("*")
     .single();
@@ -114,6 +115,7 @@ export async function POST(
       ratePct: live.ratePct,
       asOf: live.asOf,
       source: live.source,
+      indexRateHistoryId: live.historyId ?? null,
     },
   });
 
@@ -135,6 +137,7 @@ export async function POST(
       bank_id: bankId,
       deal_id: dealId,
       rate_snapshot_id: snapshot.id,
+      index_rate_history_id: live.historyId ?? null,
       index_code: indexCode,
       base_rate_pct: baseRatePct,
       spread_bps: spreadBps,
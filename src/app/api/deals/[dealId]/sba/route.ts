@@ -49,7 +49,8 @@ import { recomputeSbaServicing } from "@/lib/sba/servicing/evaluateServicing";
 import { submitToSba } from "@/lib/etran/submitter";
 import { generateETranXML } from "@/lib/etran/generator";
 import { getEtranCredentials } from "@/lib/etran/credentials";
-import { postToSbaEtran } from "@/lib/etran/etranHttpClient";
+import { postToSbaEtran, fetchSbaEtranStatus, resolveEtranStatusEndpoints } from "@/lib/etran/etranHttpClient";
+import { ingestSbaStatusResponse, pollEtranSubmissionStatus } from "@/lib/etran/statusTracker";
 import { buildForm1919Input } from "@/lib/sba/forms/form1919/inputBuilder";
 import { FORM_912_TRIGGER_FIELDS } from "@/lib/sba/forms/form1919/fields";
 import { buildForm155Input } from "@/lib/sba/forms/form155/inputBuilder";
@@ -208,6 +209,8 @@ export async function GET(req: NextRequest, ctx: { params: Params }) {
         return getServicing(dealId);
       case "signing-status":
         return getSigningStatus(dealId, access.bankId);
+      case "etran-status":
+        return getEtranStatus(dealId);
       case "run-items": {
         const runId = url.searchParams.get("runId");
         if (!runId) {
@@ -296,6 +299,10 @@ export async function POST(req: NextRequest, ctx: { params: Params }) {
         return assemblePackageAction(dealId, body);
       case "submit-etran":
         return submitEtranAction(dealId, access.bankId, access.userId, body);
+      case "poll-etran-status":
+        return pollEtranStatusAction(dealId, body);
+      case "ingest-etran-response":
+        return ingestEtranResponseAction(dealId, access.userId, body);
 
       // Servicing
       case "recompute-servicing":
@@ -713,6 +720,37 @@ function signingStatusPersonTriggers912(fields: Record<string, unknown>): boolea
   return FORM_912_TRIGGER_FIELDS.some((key) => fields[key] === true);
 }
 
+async function getEtranStatus(dealId: string): Promise<Response> {
+  const sb = supabaseAdmin();
+
+  const { data: submissions } = await sb
+    .from("sba_etran_submissions")
+    .select("id, status, status_reason, sba_application_number, sba_loan_number, sba_errors, endpoint_environment, submitted_at, decision_at, last_polled_at, next_poll_at, poll_attempt_count, created_at")
+    .eq("deal_id", dealId)
+    .order("created_at", { ascending: false });
+
+  const { data: events } = await sb
+    .from("sba_etran_status_events")
+    .select("id, submission_id, source, status, sba_loan_number, errors, received_by, created_at")
+    .eq("deal_id", dealId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  const { data: openTasks } = await sb
+    .from("deal_gap_queue")
+    .select("id, gap_type, fact_key, description, resolution_prompt, priority, created_at")
+    .eq("deal_id", dealId)
+    .in("gap_type", ["etran_field_rejected", "etran_decision_delayed"])
+    .eq("status", "open");
+
+  return NextResponse.json({
+    ok: true,
+    submissions: submissions ?? [],
+    events: events ?? [],
+    openTasks: openTasks ?? [],
+  });
+}
+
 async function getSigningStatus(dealId: string, bankId: string): Promise<Response> {
   const sb = supabaseAdmin();
 
@@ -1744,6 +1782,61 @@ async function submitEtranAction(
   );
 }
 
+/**
+ * Latest E-Tran submission for the deal (or the one named in the body),
+ * scoped to the deal so a submission id from another deal is never touched.
+ */
+async function findEtranSubmission(dealId: string, body: Record<string, unknown>): Promise<{ id: string } | null> {
+  let q = supabaseAdmin().from("sba_etran_submissions").select("id").eq("deal_id", dealId);
+  if (typeof body.submission_id === "string") q = q.eq("id", body.submission_id);
+  const { data } = await q.order("created_at", { ascending: false }).limit(1).maybeSingle();
+  return (data as { id: string } | null) ?? null;
+}
+
+/** Banker "check SBA status now" — same path the etran-status cron takes. */
+async function pollEtranStatusAction(dealId: string, body: Record<string, unknown>): Promise<Response> {
+  const submission = await findEtranSubmission(dealId, body);
+  if (!submission) return NextResponse.json({ ok: false, error: "SUBMISSION_NOT_FOUND" }, { status: 404 });
+
+  const endpoints = resolveEtranStatusEndpoints();
+  const result = await pollEtranSubmissionStatus(
+    { submissionId: submission.id },
+    {
+      sb: supabaseAdmin(),
+      getCredentials: getEtranCredentials,
+      fetchStatus: fetchSbaEtranStatus,
+      sandboxStatusEndpoint: endpoints.sandbox,
+      productionStatusEndpoint: endpoints.production,
+    },
+  );
+
+  return NextResponse.json({ ok: result.outcome !== "error", ...result }, { status: result.outcome === "error" ? 502 : 200 });
+}
+
+/**
+ * Banker-pasted SBA response (e.g. the status XML from the E-Tran web UI or
+ * an SBA email) — reconciled exactly like a polled response.
+ */
+async function ingestEtranResponseAction(dealId: string, userId: string, body: Record<string, unknown>): Promise<Response> {
+  const responseXml = body.response_xml;
+  if (typeof responseXml !== "string" || !responseXml.trim()) {
+    return NextResponse.json({ ok: false, error: "response_xml required" }, { status: 400 });
+  }
+  const submission = await findEtranSubmission(dealId, body);
+  if (!submission) return NextResponse.json({ ok: false, error: "SUBMISSION_NOT_FOUND" }, { status: 404 });
+
+  const result = await ingestSbaStatusResponse(
+    { submissionId: submission.id, body: responseXml, source: "ingest", receivedBy: userId },
+    { sb: supabaseAdmin() },
+  );
+
+  if (!result.ok) {
+    const status = result.reason === "DB_INSERT_FAILED" ? 500 : 422;
+    return NextResponse.json({ ok: false, error: result.reason, detail: result.details }, { status });
+  }
+  return NextResponse.json({ submission_id: submission.id, ...result });
+}
+
 /**
  * Marks a Buddy-generated closing document (SBA Note, Loan Authorization)
  * as attorney/compliance-reviewed and approved for signature — the gate
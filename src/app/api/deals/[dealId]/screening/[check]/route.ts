@@ -2,13 +2,16 @@ import "server-only";
 
 /**
  * ARC-00 (SPEC S4 B-2/C-3) — POST /api/deals/[dealId]/screening/[check]
- * check ∈ {"caivrs", "credit-pull", "sam"}
+ * check ∈ {"caivrs", "credit-pull", "sam", "sanctions", "sanctions-disposition"}
+ * GET  /api/deals/[dealId]/screening/sanctions — latest screening, hits, gate
  *
  * Consolidates the 3 previously-separate screening-check route files
  * (caivrs/run, credit-pull/request, sam/run — no UI caller used any of
  * them by their old paths, confirmed before this rename) into one
  * dynamic-segment dispatcher — route/page slot budget discipline (see the
- * Drift Log).
+ * Drift Log). "sanctions" screens the deal's ownership graph against the
+ * bank's locally loaded OFAC / watchlist versions (src/lib/sanctions);
+ * "sanctions-disposition" records the reviewer's call on one hit.
  */
 
 import * as crypto from "node:crypto";
@@ -24,6 +27,11 @@ import { requestSoftPull } from "@/lib/integrations/creditBureau/request";
 import { requestVendorSoftPull, currentVendor } from "@/lib/integrations/creditBureau/client";
 import { runSamCheck } from "@/lib/integrations/samGov/service";
 import { fetchSamExclusions } from "@/lib/integrations/samGov/client";
+import {
+  dispositionSanctionsHit,
+  loadSanctionsScreening,
+  runSanctionsScreening,
+} from "@/lib/sanctions/screeningService";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
@@ -38,10 +46,38 @@ async function consentTextHash(templateFile: string): Promise<string> {
   return crypto.createHash("sha256").update(text).digest("hex");
 }
 
-export async function POST(req: Request, ctx: Ctx) {
+const SANCTIONS_DISPOSITION_ERRORS: Record<string, number> = {
+  invalid_disposition: 400,
+  disposition_requires_note: 400,
+  false_positive_requires_reason_code: 400,
+  hit_not_found: 404,
+  already_dispositioned: 409,
+  hit_superseded: 409,
+};
+
+export async function GET(_req: Request, ctx: Ctx) {
   try {
     const { dealId: rawDealId, check } = await ctx.params;
     const { dealId, bankId } = await assertDealAccess(rawDealId);
+
+    if (check === "sanctions") {
+      const { screening, hits, gate } = await loadSanctionsScreening(dealId, bankId);
+      return NextResponse.json({ ok: true, screening, hits, gate });
+    }
+
+    return NextResponse.json({ ok: false, error: `unsupported_check: ${check}` }, { status: 400 });
+  } catch (e: unknown) {
+    const accessRes = accessErrorToResponse(e);
+    if (accessRes) return accessRes;
+    console.error("[/api/deals/[dealId]/screening/[check]] GET", e);
+    return NextResponse.json({ ok: false, error: "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, ctx: Ctx) {
+  try {
+    const { dealId: rawDealId, check } = await ctx.params;
+    const { dealId, bankId, userId } = await assertDealAccess(rawDealId);
     const sb = supabaseAdmin();
     const body = await req.json().catch(() => null);
 
@@ -181,6 +217,47 @@ export async function POST(req: Request, ctx: Ctx) {
       return NextResponse.json({ ok: true, check_id: result.checkId, status: result.status, hit_count: result.hitCount, reused: result.reused });
     }
 
+    if (check === "sanctions") {
+      try {
+        const result = await runSanctionsScreening({ dealId, bankId, trigger: "manual", screenedBy: userId });
+        return NextResponse.json({
+          ok: true,
+          screening_id: result.screeningId,
+          subject_count: result.subjectCount,
+          hit_count: result.hitCount,
+          open_hit_count: result.openHitCount,
+        });
+      } catch (err: any) {
+        if (err?.message === "no_active_watchlists") {
+          return NextResponse.json({ ok: false, error: "no_active_watchlists" }, { status: 409 });
+        }
+        throw err;
+      }
+    }
+
+    if (check === "sanctions-disposition") {
+      const hitId = body?.hit_id;
+      if (typeof hitId !== "string" || !hitId) {
+        return NextResponse.json({ ok: false, error: "missing_hit_id" }, { status: 400 });
+      }
+      try {
+        const hit = await dispositionSanctionsHit({
+          dealId,
+          bankId,
+          hitId,
+          disposition: body?.disposition,
+          reasonCode: typeof body?.reason_code === "string" ? body.reason_code : null,
+          note: typeof body?.note === "string" ? body.note : "",
+          userId,
+        });
+        return NextResponse.json({ ok: true, hit });
+      } catch (err: any) {
+        const status = SANCTIONS_DISPOSITION_ERRORS[err?.message];
+        if (status) return NextResponse.json({ ok: false, error: err.message }, { status });
+        throw err;
+      }
+    }
+
     return NextResponse.json({ ok: false, error: `unsupported_check: ${check}` }, { status: 400 });
   } catch (e: unknown) {
     const accessRes = accessErrorToResponse(e);
@@ -5,6 +5,15 @@ import { supabaseAdmin } from "@/lib/supabase/admin";
 import { ensureDealBankAccess } from "@/lib/tenant/ensureDealBankAccess";
 import { rethrowNextErrors } from "@/lib/api/rethrowNextErrors";
 import { getCanonicalGlobalCashFlow } from "@/lib/financialFacts/getCanonicalGlobalCashFlow";
+import { loadDealNameProjection } from "@/lib/deals/loadDealNameProjection";
+import {
+  loadSpreadWorkbookSources,
+  renderSpreadWorkbook,
+  SpreadWorkbookError,
+  WORKBOOK_SPREAD_TYPES,
+  type WorkbookSpread,
+} from "@/lib/financialSpreads/xlsx/spreadWorkbook";
+import { importSpreadWorkbook } from "@/lib/financialSpreads/xlsx/importSpreadWorkbook";
 
 export const runtime = "nodejs";
 // Spec D5: cockpit-supporting GET routes must allow headroom beyond the
@@ -14,6 +23,8 @@ export const dynamic = "force-dynamic";
 
 type Ctx = { params: Promise<{ dealId: string }> };
 
+const MAX_WORKBOOK_BYTES = 10 * 1024 * 1024;
+
 export async function GET(req: NextRequest, ctx: Ctx) {
   try {
 
@@ -126,6 +137,45 @@ export async function GET(req: NextRequest, ctx: Ctx) {
       return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
     }
 
+    // ?format=xlsx: the same spreads as an Excel workbook with live formulas
+    // and provenance notes (lib/financialSpreads/xlsx). Folded into this GET
+    // rather than a new route; POST below takes the edited file back.
+    if (url.searchParams.get("format") === "xlsx") {
+      const latest = new Map<string, WorkbookSpread>();
+      for (const row of (data ?? []) as any[]) {
+        if (row.status !== "ready" || !row.rendered_json) continue;
+        if (!WORKBOOK_SPREAD_TYPES.includes(row.spread_type)) continue;
+        const key = `${row.spread_type}|${row.owner_type ?? "DEAL"}|${row.owner_entity_id ?? ""}`;
+        if (latest.has(key)) continue; // newest first
+        latest.set(key, {
+          spreadType: row.spread_type,
+          ownerType: row.owner_type ?? "DEAL",
+          ownerEntityId: row.owner_entity_id ?? null,
+          rendered: row.rendered_json,
+        });
+      }
+      if (latest.size === 0) {
+        return NextResponse.json({ ok: false, error: "no_ready_spreads" }, { status: 404 });
+      }
+
+      const [sources, name] = await Promise.all([
+        loadSpreadWorkbookSources(sb, { dealId, bankId: access.bankId }),
+        loadDealNameProjection(dealId, access.bankId),
+      ]);
+      const buffer = await renderSpreadWorkbook([...latest.values()], {
+        dealId,
+        dealName: name?.label ?? null,
+        sources,
+      });
+      return new NextResponse(new Uint8Array(buffer), {
+        headers: {
+          "content-type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "content-disposition": `attachment; filename="spreads-${dealId}.xlsx"`,
+          "cache-control": "no-store",
+        },
+      });
+    }
+
     // SPEC-BUSINESS-SPREADS-OPERATING-COMPANY-VIEW-1: the Business Spreads page is
     // context-aware (operating company vs CRE/property) and must derive which
     // business spreads are eligible from the deal. Rather than have the client
@@ -138,12 +188,13 @@ export async function GET(req: NextRequest, ctx: Ctx) {
           dealType: string | null;
           collateralType: string | null;
           hasT12Source: boolean;
+          loanAmount: number | null;
         }
       | undefined;
     if (url.searchParams.get("context") === "1") {
       const { data: dealRow } = await (sb as any)
         .from("deals")
-        .select("deal_type, product_type, deal_mode, has_monthly_statements")
+        .select("deal_type, product_type, deal_mode, has_monthly_statements, loan_amount")
         .eq("id", dealId)
         .eq("bank_id", access.bankId)
         .maybeSingle();
@@ -152,6 +203,7 @@ export async function GET(req: NextRequest, ctx: Ctx) {
         dealType: dealRow?.deal_type ?? null,
         collateralType: dealRow?.product_type ?? null,
         hasT12Source: dealRow?.has_monthly_statements === true,
+        loanAmount: dealRow?.loan_amount == null ? null : Number(dealRow.loan_amount),
       };
     }
 
@@ -163,3 +215,52 @@ export async function GET(req: NextRequest, ctx: Ctx) {
     return NextResponse.json({ ok: false, error: "unexpected_error" }, { status: 500 });
   }
 }
+
+/**
+ * POST /api/deals/[dealId]/spreads — multipart `file`: a workbook exported
+ * by GET ?format=xlsx, edited by an analyst. Each edit is recorded in
+ * deal_spread_overrides; edits to source-backed inputs are applied as
+ * MANUAL facts and the spreads are re-queued (see importSpreadWorkbook).
+ */
+export async function POST(req: NextRequest, ctx: Ctx) {
+  try {
+    const { dealId } = await ctx.params;
+    const access = await ensureDealBankAccess(dealId);
+    if (!access.ok) {
+      return NextResponse.json(
+        { ok: false, error: access.error },
+        { status: access.error === "deal_not_found" ? 404 : 403 },
+      );
+    }
+
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ ok: false, error: "missing_file" }, { status: 400 });
+    }
+    if (file.size > MAX_WORKBOOK_BYTES) {
+      return NextResponse.json({ ok: false, error: "file_too_large" }, { status: 413 });
+    }
+
+    const result = await importSpreadWorkbook(
+      {
+        dealId,
+        bankId: access.bankId,
+        userId: access.userId,
+        buffer: Buffer.from(await file.arrayBuffer()),
+        fileName: file.name || null,
+      },
+      { sb: supabaseAdmin() },
+    );
+
+    return NextResponse.json({ ok: true, dealId, ...result });
+  } catch (e: any) {
+    rethrowNextErrors(e);
+
+    if (e instanceof SpreadWorkbookError) {
+      return NextResponse.json({ ok: false, error: e.code }, { status: 400 });
+    }
+    console.error("[/api/deals/[dealId]/spreads] POST", e);
+    return NextResponse.json({ ok: false, error: "unexpected_error" }, { status: 500 });
+  }
+}
@@ -11,13 +11,31 @@ import "server-only";
  * POST /api/deals/[dealId]/third-party/dispatch?orderId=...  (+ vendor_id in body)
  * POST /api/deals/[dealId]/third-party/ingest?orderId=...    (multipart file upload)
  * POST /api/deals/[dealId]/third-party/cancel?orderId=...    (+ reason in body)
+ * GET  /api/deals/[dealId]/third-party/appraisal-reviews -> list appraisal reviews
+ * POST /api/deals/[dealId]/third-party/appraisal-review?reviewId=...  (+ clearances { KEY: note })
+ * GET  /api/deals/[dealId]/third-party/ucc-liens         -> UCC lien ledger
+ *
+ * Ingesting a real_estate_appraisal result also OCRs the report and runs
+ * processAppraisalResult: values are staged on the appraisal review and land
+ * on the collateral record once the reviewer checklist is cleared. Ingesting a ucc_lien_search
+ * result runs processUccSearchResult: filings land in deal_ucc_liens,
+ * matched against the existing debt schedule.
  */
 
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { assertDealAccess } from "@/lib/server/deal-access";
 import { accessErrorToResponse } from "@/lib/server/withDealAccess";
-import { evaluateAndCreateTriggers, dispatchOrder, ingestResult, cancelOrder } from "@/lib/thirdParty/orchestrator";
+import {
+  evaluateAndCreateTriggers,
+  dispatchOrder,
+  ingestResult,
+  cancelOrder,
+  processAppraisalResult,
+  resolveAppraisalReview,
+  processUccSearchResult,
+} from "@/lib/thirdParty/orchestrator";
+import { ocrFileBytes } from "@/lib/ocr/runOcrJob";
 import { buildSbaEligibilityInput } from "@/lib/sba/dealDataBuilder";
 import { getEmailProvider } from "@/lib/email/getProvider";
 import { buildAppraisalOrderEmail } from "@/lib/thirdParty/emailTemplates/appraisal-order.eml";
@@ -65,11 +83,31 @@ export async function GET(_req: Request, ctx: Ctx) {
     const { dealId: rawDealId, action } = await ctx.params;
     const { dealId } = await assertDealAccess(rawDealId);
 
+    const sb = supabaseAdmin();
+
+    if (action === "appraisal-reviews") {
+      const { data: reviews } = await (sb as any)
+        .from("appraisal_reviews")
+        .select("*")
+        .eq("deal_id", dealId)
+        .order("created_at", { ascending: false });
+      return NextResponse.json({ ok: true, reviews: reviews ?? [] });
+    }
+
+    if (action === "ucc-liens") {
+      const { data: liens } = await (sb as any)
+        .from("deal_ucc_liens")
+        .select("*")
+        .eq("deal_id", dealId)
+        .order("debtor_name", { ascending: true })
+        .order("filing_date", { ascending: true });
+      return NextResponse.json({ ok: true, liens: liens ?? [] });
+    }
+
     if (action !== "orders") {
       return NextResponse.json({ ok: false, error: `unsupported_action: ${action}` }, { status: 400 });
     }
 
-    const sb = supabaseAdmin();
     const { data: orders } = await sb.from("third_party_orders").select("*").eq("deal_id", dealId).order("triggered_at", { ascending: false });
     return NextResponse.json({ ok: true, orders: orders ?? [] });
   } catch (e: unknown) {
@@ -122,6 +160,18 @@ export async function POST(req: Request, ctx: Ctx) {
       return NextResponse.json({ ok: true, ...result });
     }
 
+    if (action === "appraisal-review") {
+      const reviewId = new URL(req.url).searchParams.get("reviewId");
+      if (!reviewId) return NextResponse.json({ ok: false, error: "missing_reviewId_query_param" }, { status: 400 });
+      const body = await req.json().catch(() => ({}) as Record<string, unknown>);
+      const clearances = body.clearances && typeof body.clearances === "object" ? (body.clearances as Record<string, string>) : {};
+      const result = await resolveAppraisalReview({ reviewId, dealId, userId, clearances }, { sb });
+      if (!result.ok) {
+        return NextResponse.json({ ok: false, error: result.reason, detail: result.detail }, { status: result.reason === "REVIEW_NOT_FOUND" ? 404 : 409 });
+      }
+      return NextResponse.json(result);
+    }
+
     if (!orderId) {
       return NextResponse.json({ ok: false, error: "missing_orderId_query_param" }, { status: 400 });
     }
@@ -161,7 +211,28 @@ export async function POST(req: Request, ctx: Ctx) {
       if (!result.ok) {
         return NextResponse.json({ ok: false, error: result.reason, detail: result.detail }, { status: result.reason === "ORDER_NOT_FOUND" ? 404 : 502 });
       }
-      return NextResponse.json({ ok: true, storagePath: result.storagePath });
+
+      type OcrFailed = { ok: false; reason: "OCR_FAILED"; detail?: string };
+      let appraisal: Awaited<ReturnType<typeof processAppraisalResult>> | OcrFailed | null = null;
+      let ucc: Awaited<ReturnType<typeof processUccSearchResult>> | OcrFailed | null = null;
+      const { data: order } = await sb.from("third_party_orders").select("order_type").eq("id", orderId).maybeSingle();
+      const parseable = order?.order_type === "real_estate_appraisal" || order?.order_type === "ucc_lien_search";
+      if (parseable && !resultParsedJson) {
+        try {
+          const ocr = await ocrFileBytes({ fileBytes, mimeType: file.type || "application/pdf", fileName: file.name });
+          if (order?.order_type === "real_estate_appraisal") {
+            appraisal = await processAppraisalResult({ orderId, text: ocr.text }, { sb });
+          } else {
+            ucc = await processUccSearchResult({ orderId, text: ocr.text }, { sb });
+          }
+        } catch (err: any) {
+          // The report is stored; extraction can be retried by re-ingesting.
+          const failed: OcrFailed = { ok: false, reason: "OCR_FAILED", detail: err?.message ?? String(err) };
+          if (order?.order_type === "real_estate_appraisal") appraisal = failed;
+          else ucc = failed;
+        }
+      }
+      return NextResponse.json({ ok: true, storagePath: result.storagePath, appraisal, ucc });
     }
 
     if (action === "cancel") {
@@ -49,6 +49,16 @@ async function resolveProductType(dealId: string): Promise<ProductType> {
   return PRODUCT_TYPE_MAP[raw] ?? "SBA";
 }
 
+async function resolveNaicsCode(dealId: string): Promise<string | undefined> {
+  const sb = supabaseAdmin();
+  const { data } = await sb
+    .from("deals")
+    .select("naics_code")
+    .eq("id", dealId)
+    .maybeSingle();
+  return (data as { naics_code?: string | null } | null)?.naics_code ?? undefined;
+}
+
 // ---------------------------------------------------------------------------
 // POST handler
 // ---------------------------------------------------------------------------
@@ -66,11 +76,12 @@ export async function POST(_req: Request, ctx: Ctx) {
     }
 
     // Load inputs
-    const [model, instruments, bankConfig, product] = await Promise.all([
+    const [model, instruments, bankConfig, product, naicsCode] = await Promise.all([
       loadDealModel(dealId),
       loadDealInstruments(dealId),
       loadActiveBankConfig(access.bankId),
       resolveProductType(dealId),
+      resolveNaicsCode(dealId),
     ]);
 
     // Run pipeline
@@ -79,6 +90,7 @@ export async function POST(_req: Request, ctx: Ctx) {
       product,
       instruments: instruments.length > 0 ? instruments : undefined,
       bankConfig: bankConfig ?? undefined,
+      naicsCode,
     });
 
     if (!result.diagnostics.pipelineComplete) {
@@ -0,0 +1,146 @@
+import "server-only";
+
+import { NextResponse, NextRequest } from "next/server";
+import { getCurrentBankId } from "@/lib/tenant/getCurrentBankId";
+import { requireRoleApi, AuthorizationError } from "@/lib/auth/requireRole";
+import { rethrowNextErrors } from "@/lib/api/rethrowNextErrors";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  EXAMINER_DEFAULT_SAMPLE_SIZE,
+  loadExaminerReviewRun,
+  runExaminerSampleReview,
+} from "@/lib/examiner/runExaminerReview";
+import {
+  respond200,
+  createHeaders,
+  generateCorrelationId,
+  createTimestamp,
+  sanitizeError,
+  validateUuidParam,
+} from "@/lib/api/respond";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+const ROUTE = "/api/examiner/file-reviews";
+
+const MAX_SAMPLE_SIZE = 100;
+
+function authError(err: unknown) {
+  if (err instanceof AuthorizationError) {
+    return NextResponse.json(
+      { ok: false, error: err.code },
+      { status: err.code === "not_authenticated" ? 401 : 403 },
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/examiner/file-reviews?run_id=<uuid>
+ *
+ * Returns a simulated examination run with its scored file reviews —
+ * the latest sample run for the current bank when run_id is omitted.
+ *
+ * Sealed: always HTTP 200, errors in body.
+ */
+export async function GET(req: NextRequest) {
+  const correlationId = generateCorrelationId("exfr");
+  const ts = createTimestamp();
+  const headers = createHeaders(correlationId, ROUTE);
+
+  try {
+    await requireRoleApi(["super_admin", "bank_admin"]);
+    const bankId = await getCurrentBankId();
+    const runId = new URL(req.url).searchParams.get("run_id");
+
+    if (runId && !validateUuidParam(runId, "run_id").ok) {
+      return respond200(
+        { ok: false, error: { code: "invalid_run_id", message: "run_id must be a UUID.", correlationId }, meta: { correlationId, ts } },
+        headers,
+      );
+    }
+
+    const stored = await loadExaminerReviewRun(supabaseAdmin(), { bankId, runId });
+    return respond200(
+      { ok: true, run: stored?.run ?? null, reviews: stored?.reviews ?? [], meta: { correlationId, ts } },
+      headers,
+    );
+  } catch (err) {
+    rethrowNextErrors(err);
+    const denied = authError(err);
+    if (denied) return denied;
+
+    const safe = sanitizeError(err, "examiner_file_reviews_failed");
+    return respond200({ ok: false, error: safe, meta: { correlationId, ts } }, headers);
+  }
+}
+
+/**
+ * POST /api/examiner/file-reviews
+ * Body: { size?: number, seed?: string, since?: ISO date }
+ *
+ * Draws an examiner-style sample from the bank's decided loans (largest
+ * exposures, exception and criticized files, SBA loans, then a seeded
+ * random draw) and reviews every sampled file against the rule library.
+ * Re-posting the same seed over unchanged data reproduces the sample.
+ */
+export async function POST(req: NextRequest) {
+  const correlationId = generateCorrelationId("exfr");
+  const ts = createTimestamp();
+  const headers = createHeaders(correlationId, ROUTE);
+
+  try {
+    const { userId } = await requireRoleApi(["super_admin", "bank_admin"]);
+    const bankId = await getCurrentBankId();
+    const body = await req.json().catch(() => ({}));
+
+    const size = body?.size == null ? EXAMINER_DEFAULT_SAMPLE_SIZE : Number(body.size);
+    if (!Number.isInteger(size) || size < 1 || size > MAX_SAMPLE_SIZE) {
+      return respond200(
+        {
+          ok: false,
+          error: { code: "invalid_size", message: `size must be an integer from 1 to ${MAX_SAMPLE_SIZE}.`, correlationId },
+          meta: { correlationId, ts },
+        },
+        headers,
+      );
+    }
+    const since = typeof body?.since === "string" && !Number.isNaN(Date.parse(body.since)) ? body.since : null;
+
+    const result = await runExaminerSampleReview(supabaseAdmin(), {
+      bankId,
+      userId,
+      size,
+      seed: typeof body?.seed === "string" ? body.seed : null,
+      since,
+    });
+
+    return respond200(
+      {
+        ok: true,
+        run_id: result.runId,
+        sample: result.sample,
+        summary: result.summary,
+        skipped: result.skipped,
+        reviews: result.reviews.map((r) => ({
+          review_id: r.review_id,
+          deal_id: r.deal_id,
+          score: r.score,
+          rating: r.rating,
+          findings: r.findings,
+        })),
+        meta: { correlationId, ts },
+      },
+      headers,
+    );
+  } catch (err) {
+    rethrowNextErrors(err);
+    const denied = authError(err);
+    if (denied) return denied;
+
+    const safe = sanitizeError(err, "examiner_sample_review_failed");
+    return respond200({ ok: false, error: safe, meta: { correlationId, ts } }, headers);
+  }
+}
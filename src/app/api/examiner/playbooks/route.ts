@@ -7,6 +7,9 @@ import { sha256 } from "@/lib/security/tokens";
 import { stableStringify } from "@/lib/audit/buildBorrowerAuditSnapshot";
 import { generateExaminerPlaybooks } from "@/lib/examiner/playbookGenerator";
 import { renderPlaybooksPdf } from "@/lib/examiner/renderPlaybooksPdf";
+import { loadExaminerReviewRun } from "@/lib/examiner/runExaminerReview";
+import { getCurrentBankId } from "@/lib/tenant/getCurrentBankId";
+import { supabaseAdmin } from "@/lib/supabase/admin";
 import {
   respond200,
   createHeaders,
@@ -21,11 +24,13 @@ export const dynamic = "force-dynamic";
 const ROUTE = "/api/examiner/playbooks";
 
 /**
- * GET /api/examiner/playbooks?format=json|pdf
+ * GET /api/examiner/playbooks?format=json|pdf&review_run=latest|<run_id>
  *
  * Returns the complete examiner playbook bundle:
  *  - 7 self-contained playbooks in regulator tone
  *  - Deterministic hash for integrity verification
+ *  - Optionally, a simulated loan file review run for the current bank
+ *    (section 8 of the PDF, `file_review` in JSON); not part of the hash
  *
  * Formats:
  *  - json: Full playbook object with hash
@@ -43,6 +48,7 @@ export async function GET(req: NextRequest) {
 
     const { searchParams } = new URL(req.url);
     const format = searchParams.get("format") ?? "json";
+    const reviewRun = searchParams.get("review_run");
 
     if (format !== "json" && format !== "pdf") {
       return respond200(
@@ -64,8 +70,15 @@ export async function GET(req: NextRequest) {
     const playbookJson = stableStringify(playbooks);
     const playbookHash = sha256(playbookJson);
 
+    const fileReview = reviewRun
+      ? await loadExaminerReviewRun(supabaseAdmin(), {
+          bankId: await getCurrentBankId(),
+          runId: reviewRun === "latest" ? null : reviewRun,
+        })
+      : null;
+
     if (format === "pdf") {
-      const pdfBuffer = await renderPlaybooksPdf(playbooks, playbookHash);
+      const pdfBuffer = await renderPlaybooksPdf(playbooks, playbookHash, fileReview);
       const pdfBase64 = pdfBuffer.toString("base64");
 
       return respond200(
@@ -93,6 +106,7 @@ export async function GET(req: NextRequest) {
         playbooks,
         playbook_hash: playbookHash,
         generated_at: playbooks.generated_at,
+        ...(reviewRun ? { file_review: fileReview } : {}),
         meta: { correlationId, ts },
       },
       {
@@ -7,6 +7,8 @@ import {
   logExaminerActivity,
 } from "@/lib/examiner/examinerAccessGrants";
 import { loadSandboxDealSnapshot } from "@/lib/sandbox/loadRegulatorSandbox";
+import { loadLatestDealFileReview } from "@/lib/examiner/runExaminerReview";
+import { supabaseAdmin } from "@/lib/supabase/admin";
 import {
   respond200,
   createHeaders,
@@ -30,6 +32,8 @@ const ROUTE = "/api/examiner/portal/deals/[dealId]";
  *
  * No authentication via Clerk — grant_id is the access token.
  * No ZIP downloads by default. Inline hash verification only.
+ * Includes the deal's latest simulated file review (findings + citations),
+ * or null when the file has never been reviewed.
  */
 export async function GET(
   req: NextRequest,
@@ -109,6 +113,11 @@ export async function GET(
       );
     }
 
+    const fileReview = await loadLatestDealFileReview(supabaseAdmin(), {
+      dealId,
+      bankId: grant.bank_id,
+    });
+
     // Log activity (non-blocking)
     await logExaminerActivity({
       grant_id: grantId,
@@ -139,6 +148,7 @@ export async function GET(
       {
         ok: true,
         snapshot,
+        file_review: fileReview,
         grant: {
           examiner_name: grant.examiner_name,
           organization: grant.organization,
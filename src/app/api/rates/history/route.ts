@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import type { IndexCode } from "@/lib/rates/indexRates";
+import { getIndexRateAsOf, recordToIndexRate } from "@/lib/rates/indexRateHistory";
+
+export const dynamic = "force-dynamic";
+
+const INDEX_CODES: readonly IndexCode[] = ["SOFR", "UST_5Y", "PRIME"];
+
+/** GET ?index_code=SOFR&as_of=2026-07-29 — rate in effect on that date. */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const code = (url.searchParams.get("index_code") ?? "").toUpperCase() as IndexCode;
+  const asOf = url.searchParams.get("as_of") ?? new Date().toISOString().slice(0, 10);
+
+  if (!INDEX_CODES.includes(code)) {
+    return NextResponse.json({ ok: false, error: "unknown index_code" }, { status: 400 });
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(asOf)) {
+    return NextResponse.json({ ok: false, error: "as_of must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  try {
+    const record = await getIndexRateAsOf(code, asOf);
+    if (!record) {
+      return NextResponse.json({ ok: false, error: "no_rate_on_or_before_as_of" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, rate: recordToIndexRate(record), record });
+  } catch (err: any) {
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -35,6 +35,7 @@ export async function POST(req: NextRequest) {
       source: r.source,
       source_url: r.sourceUrl ?? null,
       raw: r.raw ?? null,
+      index_rate_history_id: r.historyId ?? null,
     })
     .select("*")
     .single();
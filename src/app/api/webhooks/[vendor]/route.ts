@@ -2,7 +2,7 @@ import "server-only";
 
 /**
  * POST /api/webhooks/[vendor]
- * vendor ∈ {"signwell", "didit", "plaid"}
+ * vendor ∈ {"signwell", "didit", "plaid", "inbound-email"}
  *
  * Consolidates the former separate esign/docuseal/webhook,
  * kyc/persona/webhook, and borrower/plaid/webhook route files into one
@@ -14,6 +14,7 @@ import "server-only";
  * Plaid dashboard to this new URL before relying on them.
  */
 
+import { timingSafeEqual } from "node:crypto";
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { verifySignwellWebhookEvent } from "@/lib/esign/signwell/verifySignwellWebhook";
@@ -24,6 +25,7 @@ import { handleDiditWebhook } from "@/lib/identity/kyc/service";
 import { createDiditSession, fetchDiditSession, getDiditSessionDecision } from "@/lib/identity/kyc/didit";
 import { verifyPlaidWebhook } from "@/lib/integrations/plaid/verifyWebhook";
 import { syncTransactions } from "@/lib/integrations/plaid/sync";
+import { ingestInboundEmail } from "@/lib/intake/inboundEmail/ingestInboundEmail";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
@@ -169,10 +171,60 @@ async function handlePlaid(req: Request): Promise<Response> {
   return NextResponse.json({ ok: true, webhookType, webhookCode, handled: false });
 }
 
+function secretMatches(provided: string | null, expected: string): boolean {
+  const a = Buffer.from(provided ?? "");
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Inbound document email (docs+<token>@INBOUND_EMAIL_DOMAIN). Any provider
+ * that can forward the raw MIME works: raw body (message/rfc822), or a
+ * multipart form field named "email" (SendGrid raw mode) / "body-mime"
+ * (Mailgun). Authenticated with a shared secret since providers differ in
+ * signing schemes. Rejected mail still returns 200 so providers don't retry
+ * it forever; only unexpected errors return 5xx.
+ */
+async function handleInboundEmail(req: Request): Promise<Response> {
+  const secret = process.env.INBOUND_EMAIL_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("[/api/webhooks/inbound-email] INBOUND_EMAIL_WEBHOOK_SECRET not configured");
+    return NextResponse.json({ ok: false, error: "not_configured" }, { status: 503 });
+  }
+
+  const url = new URL(req.url);
+  const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? null;
+  const provided = req.headers.get("x-inbound-email-secret") ?? bearer ?? url.searchParams.get("secret");
+  if (!secretMatches(provided, secret)) {
+    return NextResponse.json({ ok: false, error: "invalid_secret" }, { status: 401 });
+  }
+
+  let raw: Buffer;
+  const contentType = req.headers.get("content-type") ?? "";
+  if (contentType.includes("multipart/form-data") || contentType.includes("application/x-www-form-urlencoded")) {
+    const form = await req.formData();
+    const field = form.get("email") ?? form.get("body-mime");
+    if (!field) return NextResponse.json({ ok: false, error: "missing_mime" }, { status: 400 });
+    raw = typeof field === "string" ? Buffer.from(field, "utf8") : Buffer.from(await field.arrayBuffer());
+  } else {
+    raw = Buffer.from(await req.arrayBuffer());
+  }
+  if (raw.length === 0) return NextResponse.json({ ok: false, error: "empty_body" }, { status: 400 });
+
+  try {
+    const result = await ingestInboundEmail({ raw, transport: "webhook" });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    console.error("[/api/webhooks/inbound-email]", e);
+    return NextResponse.json({ ok: false, error: "unexpected_error" }, { status: 500 });
+  }
+}
+
 export async function POST(req: Request, ctx: Ctx) {
   const { vendor } = await ctx.params;
   if (vendor === "signwell") return handleSignwell(req);
   if (vendor === "didit") return handleDidit(req);
   if (vendor === "plaid") return handlePlaid(req);
+  if (vendor === "inbound-email") return handleInboundEmail(req);
   return NextResponse.json({ ok: false, error: `unsupported_vendor: ${vendor}` }, { status: 400 });
 }
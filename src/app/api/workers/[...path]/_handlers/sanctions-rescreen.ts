@@ -0,0 +1,101 @@
+/**
+ * GET /api/workers/sanctions-rescreen
+ *
+ * Vercel Cron entry point for rescreening deals after a bank loads a new
+ * sanctions / watchlist version. The sanctions-lists upload only records
+ * and activates the version; this worker rescreens, a bounded batch per
+ * run, every previously screened deal whose latest screening did not use
+ * the bank's active versions, then marks the bank's rescreen complete.
+ * A deal that keeps failing backs off and is dropped after five attempts.
+ *
+ * Schedule: every 5 minutes (vercel.json cron)
+ * Auth: CRON_SECRET or WORKER_SECRET
+ *
+ * Singleton across concurrent invocations via PostgreSQL advisory lock
+ * (WORKER_LOCK_KEYS.SANCTIONS_RESCREEN).
+ */
+
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { hasValidWorkerSecret } from "@/lib/auth/hasValidWorkerSecret";
+import { processPendingSanctionsRescreens } from "@/lib/sanctions/screeningService";
+import {
+  WORKER_LOCK_KEYS,
+  withWorkerAdvisoryLock,
+  isWorkerLockSkip,
+} from "@/lib/workers/workerLock";
+import { resolveBatchSize } from "@/lib/workers/batchCaps";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest) {
+  const start = Date.now();
+
+  if (!hasValidWorkerSecret(req)) {
+    console.error(
+      "[sanctions-rescreen] auth_failed — check CRON_SECRET / WORKER_SECRET",
+    );
+    return NextResponse.json(
+      { ok: false, error: "unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const max = resolveBatchSize(
+    req.nextUrl.searchParams.get("max"),
+    process.env.BUDDY_SANCTIONS_RESCREEN_BATCH_SIZE,
+    "sanctionsRescreen",
+  );
+
+  const sb = supabaseAdmin();
+
+  const result = await withWorkerAdvisoryLock({
+    sb,
+    lockKey: WORKER_LOCK_KEYS.SANCTIONS_RESCREEN,
+    workerName: "sanctions-rescreen",
+    run: async () => processPendingSanctionsRescreens({ limit: max }),
+  });
+
+  const durationMs = Date.now() - start;
+
+  if (isWorkerLockSkip(result)) {
+    return NextResponse.json({
+      ok: true,
+      worker: "sanctions_rescreen",
+      skipped: true,
+      reason: "lock_not_acquired",
+      durationMs,
+    });
+  }
+
+  if (result.banks === 0) {
+    return NextResponse.json({
+      ok: true,
+      worker: "sanctions_rescreen",
+      skipped: true,
+      reason: "idle_no_work",
+      durationMs,
+    });
+  }
+
+  if (result.failed.length > 0) {
+    console.error("[sanctions-rescreen] deals failed to rescreen", result.failed);
+  }
+
+  return NextResponse.json({
+    ok: true,
+    worker: "sanctions_rescreen",
+    skipped: false,
+    reason: null,
+    banks: result.banks,
+    completed_banks: result.completedBanks,
+    rescreened: result.rescreened,
+    failed: result.failed,
+    exhausted: result.exhausted,
+    durationMs,
+  });
+}
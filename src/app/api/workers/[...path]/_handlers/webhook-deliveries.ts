@@ -0,0 +1,95 @@
+/**
+ * GET /api/workers/webhook-deliveries
+ *
+ * Vercel Cron entry point for sending outbound bank webhooks. Attempts
+ * every webhook_deliveries row still "pending" that is due — new events
+ * (queued by fireWebhook) and retries whose backoff has elapsed;
+ * rows that exhaust WEBHOOK_MAX_ATTEMPTS are parked as "failed" for the
+ * /admin/webhooks view.
+ *
+ * Schedule: every 2 minutes (vercel.json cron)
+ * Auth: CRON_SECRET or WORKER_SECRET
+ *
+ * Singleton across concurrent invocations via PostgreSQL advisory lock
+ * (WORKER_LOCK_KEYS.WEBHOOK_DELIVERIES).
+ */
+
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { hasValidWorkerSecret } from "@/lib/auth/hasValidWorkerSecret";
+import { processDueWebhookDeliveries } from "@/lib/webhooks/deliveries";
+import {
+  WORKER_LOCK_KEYS,
+  withWorkerAdvisoryLock,
+  isWorkerLockSkip,
+} from "@/lib/workers/workerLock";
+import { resolveBatchSize } from "@/lib/workers/batchCaps";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest) {
+  const start = Date.now();
+
+  if (!hasValidWorkerSecret(req)) {
+    console.error(
+      "[webhook-deliveries] auth_failed — check CRON_SECRET / WORKER_SECRET",
+    );
+    return NextResponse.json(
+      { ok: false, error: "unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const max = resolveBatchSize(
+    req.nextUrl.searchParams.get("max"),
+    process.env.BUDDY_WEBHOOK_BATCH_SIZE,
+    "webhooks",
+  );
+
+  const sb = supabaseAdmin();
+
+  const result = await withWorkerAdvisoryLock({
+    sb,
+    lockKey: WORKER_LOCK_KEYS.WEBHOOK_DELIVERIES,
+    workerName: "webhook-deliveries",
+    run: async () => processDueWebhookDeliveries({ limit: max }, { sb }),
+  });
+
+  const durationMs = Date.now() - start;
+
+  if (isWorkerLockSkip(result)) {
+    return NextResponse.json({
+      ok: true,
+      worker: "webhook_deliveries",
+      skipped: true,
+      reason: "lock_not_acquired",
+      durationMs,
+    });
+  }
+
+  if (result.claimed === 0) {
+    return NextResponse.json({
+      ok: true,
+      worker: "webhook_deliveries",
+      skipped: true,
+      reason: "idle_no_work",
+      durationMs,
+    });
+  }
+
+  return NextResponse.json({
+    ok: true,
+    worker: "webhook_deliveries",
+    skipped: false,
+    reason: null,
+    claimed: result.claimed,
+    delivered: result.delivered,
+    retrying: result.retrying,
+    failed: result.failed,
+    durationMs,
+  });
+}
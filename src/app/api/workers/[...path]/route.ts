@@ -21,6 +21,10 @@ export async function GET(req: NextRequest, ctx: Ctx) {
       return (await import("./_handlers/intake-recovery")).GET(req);
     case "pulse-outbox":
       return (await import("./_handlers/pulse-outbox")).GET(req);
+    case "sanctions-rescreen":
+      return (await import("./_handlers/sanctions-rescreen")).GET(req);
+    case "webhook-deliveries":
+      return (await import("./_handlers/webhook-deliveries")).GET(req);
     default:
       return NextResponse.json({ ok: false, error: "not_found" }, { status: 404 });
   }
@@ -60,6 +60,7 @@ export function blockerGatesStage(code: LifecycleBlockerCode): LifecycleStage |
     case "underwrite_not_started":
     case "underwrite_incomplete":
     case "critical_flags_unresolved":
+    case "sanctions_screening_open":
       return "underwrite_in_progress";
 
     // === committee_ready ===
@@ -169,6 +169,18 @@ export function computeBlockers(
     });
   }
 
+  // Sanctions screening gate — every watchlist hit needs a disposition
+  if (
+    (stage === "underwrite_in_progress" || stage === "committee_ready") &&
+    derived.sanctionsGateReady === false
+  ) {
+    blockers.push({
+      code: "sanctions_screening_open",
+      message: derived.sanctionsGateMessage ?? "Sanctions screening hits need a disposition",
+      evidence: { openHitCount: derived.sanctionsOpenHitCount ?? 0 },
+    });
+  }
+
   // Phase 55C: Financial validation gate — blocks committee readiness
   if (
     (stage === "underwrite_in_progress" || stage === "committee_ready") &&
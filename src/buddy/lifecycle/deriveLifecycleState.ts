@@ -604,6 +604,20 @@ async function deriveLifecycleStateInternal(dealId: string): Promise<LifecycleSt
       // Non-fatal — financial gate failure must never block lifecycle derivation
       derived.financialSnapshotGateReady = true; // fail-open
     }
+
+    // Sanctions / watchlist screening gate — hits must carry a disposition
+    if (deal.bank_id) {
+      try {
+        const { getSanctionsScreeningGate } = await import("@/lib/sanctions/screeningService");
+        const gate = await getSanctionsScreeningGate(dealId, deal.bank_id);
+        derived.sanctionsGateReady = gate.ready;
+        derived.sanctionsOpenHitCount = gate.openHitCount;
+        derived.sanctionsGateMessage = gate.message;
+      } catch {
+        // Non-fatal — finalize re-checks the gate and fails closed
+        derived.sanctionsGateReady = true; // fail-open
+      }
+    }
   }
 
   // Compute blockers (merge with any runtime fetch failures)
@@ -87,6 +87,9 @@ export type LifecycleBlockerCode =
   | "financial_period_review_open"
   // Critical risk flags blocker — emitted when unresolved critical flags exist
   | "critical_flags_unresolved"
+  // Sanctions / watchlist screening — hits without a disposition, or the
+  // parties were not screened against the bank's current list versions
+  | "sanctions_screening_open"
   // Borrower is REQUIRED for every deal — no cockpit without it
   | "borrower_not_attached"
   // Pipeline stall blocker — emitted when artifacts stuck queued/processing
@@ -188,6 +191,12 @@ export type LifecycleDerived = {
   financialSnapshotLastBuiltAt?: string | null;
   /** Phase 55C: Whether snapshot is stale */
   financialSnapshotStale?: boolean;
+  /** False when sanctions screening is missing, stale, or has undispositioned hits (fail-open) */
+  sanctionsGateReady?: boolean;
+  /** Sanctions screening hits awaiting a disposition */
+  sanctionsOpenHitCount?: number;
+  /** Why the sanctions gate is closed */
+  sanctionsGateMessage?: string | null;
   /** Request correlation ID for debugging (optional, set by route) */
   correlationId?: string;
   // Gatekeeper-derived readiness detail fields
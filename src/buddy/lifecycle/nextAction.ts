@@ -532,6 +532,12 @@ export function getBlockerFixAction(
         href: `/deals/${dealId}/risk`,
       };
 
+    case "sanctions_screening_open":
+      return {
+        label: "Disposition sanctions screening hits",
+        href: `/deals/${dealId}/risk`,
+      };
+
     case "borrower_not_attached":
       // SPEC-BORROWER-ENTITY-SPONSOR-SEPARATION-1: this blocker means the LEGAL
       // borrower entity is unidentified — NOT that a management/sponsor/guarantor
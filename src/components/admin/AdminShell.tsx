@@ -39,6 +39,8 @@ export default function AdminShell({ children }: { children: ReactNode }) {
             <NavLink href="/admin/brokerage/lenders" label="Lenders" />
             <NavLink href="/admin/brokerage-owner" label="Owner Command Center" />
             <NavLink href="/admin/audit" label="Audit" />
+            <NavLink href="/admin/webhooks" label="Webhooks" />
+            <NavLink href="/admin/ai-usage" label="AI Usage" />
             <NavLink href="/admin/templates" label="Templates" />
             <NavLink href="/admin/fields" label="Fields" />
             <NavLink href="/admin/merge-fields" label="Merge Fields" />
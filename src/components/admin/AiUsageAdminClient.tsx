@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+type Line = {
+  key: string;
+  calls: number;
+  failedCalls: number;
+  tokensIn: number;
+  tokensOut: number;
+  costUsd: number;
+  tier?: "essential" | "deferrable";
+  provider?: string;
+};
+
+type Report = {
+  bankId: string;
+  bankName: string | null;
+  month: string;
+  totals: Omit<Line, "key">;
+  budget: { monthlySoftLimitUsd: number | null; monthlyHardLimitUsd: number | null } | null;
+  budgetState: "ok" | "soft_exceeded" | "hard_exceeded";
+  utilization: number | null;
+  byRole: Line[];
+  byPurpose: Line[];
+  byModel: Line[];
+  byDeal: Line[];
+};
+
+type LoadResponse = { ok: true; report: Report } | { ok: false; error: string };
+
+const STATE_STYLE: Record<Report["budgetState"], string> = {
+  ok: "text-emerald-300",
+  soft_exceeded: "text-amber-300",
+  hard_exceeded: "text-red-300",
+};
+
+function usd(n: number | null | undefined) {
+  return n == null ? "—" : `$${n.toFixed(2)}`;
+}
+
+function LineTable({ title, lines }: { title: string; lines: Line[] }) {
+  return (
+    <div className="border rounded overflow-hidden">
+      <div className="px-3 py-2 text-xs font-medium bg-muted/40">{title}</div>
+      <div className="divide-y">
+        {lines.map((l) => (
+          <div key={l.key} className="grid grid-cols-12 gap-2 px-3 py-1.5 text-xs">
+            <div className="col-span-6 font-mono truncate" title={l.key}>
+              {l.key}
+              {l.tier === "deferrable" && <span className="ml-2 text-amber-300">deferrable</span>}
+            </div>
+            <div className="col-span-2 text-right">{l.calls}</div>
+            <div className="col-span-2 text-right">{(l.tokensIn + l.tokensOut).toLocaleString()}</div>
+            <div className="col-span-2 text-right">{usd(l.costUsd)}</div>
+          </div>
+        ))}
+        {lines.length === 0 && <div className="px-3 py-4 text-xs text-muted-foreground">No usage.</div>}
+      </div>
+    </div>
+  );
+}
+
+export default function AiUsageAdminClient() {
+  const search = useSearchParams();
+  const bankIdParam = search.get("bankId") ?? "";
+
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [report, setReport] = useState<Report | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [soft, setSoft] = useState("");
+  const [hard, setHard] = useState("");
+
+  function reportUrl(format?: "csv") {
+    const url = new URL("/api/admin/ai-usage", window.location.origin);
+    url.searchParams.set("month", month);
+    if (bankIdParam) url.searchParams.set("bankId", bankIdParam);
+    if (format) url.searchParams.set("format", format);
+    return url.toString();
+  }
+
+  async function load() {
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await fetch(reportUrl(), { cache: "no-store" });
+      const j = (await r.json().catch(() => null)) as LoadResponse | null;
+      if (!j?.ok) throw new Error(j?.error ?? `Failed to load (${r.status})`);
+      setReport(j.report);
+      setSoft(j.report.budget?.monthlySoftLimitUsd?.toString() ?? "");
+      setHard(j.report.budget?.monthlyHardLimitUsd?.toString() ?? "");
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+      setReport(null);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveBudget() {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const body = { monthlySoftLimitUsd: soft.trim() || null, monthlyHardLimitUsd: hard.trim() || null };
+      const r = await fetch("/api/admin/ai-usage", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(bankIdParam ? { ...body, bankId: bankIdParam } : body),
+      });
+      const j = await r.json().catch(() => null);
+      if (!j?.ok) throw new Error(j?.error ?? `Request failed (${r.status})`);
+      setNotice("Budget saved — the gateway applies it within a minute.");
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+    await load();
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [month]);
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-xl font-semibold">AI Usage &amp; Chargeback</div>
+          <div className="text-sm text-muted-foreground">
+            Bank <span className="font-mono">{report?.bankName ?? report?.bankId ?? (bankIdParam || "(current)")}</span> ·
+            metered from the AI gateway ledger at list prices. Over the hard limit, narrative and coaching purposes
+            degrade; extraction continues. Super-admin only.
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input type="month" className="border rounded px-3 py-1" value={month} onChange={(e) => setMonth(e.target.value)} />
+          <button className="border rounded px-3 py-1" onClick={() => load()} disabled={busy}>
+            {busy ? "Loading…" : "Refresh"}
+          </button>
+          <a className="border rounded px-3 py-1" href={report ? reportUrl("csv") : undefined}>
+            CSV
+          </a>
+        </div>
+      </div>
+
+      {error && (
+        <div className="border border-red-500/40 bg-red-500/10 text-red-200 rounded p-3 text-sm">{error}</div>
+      )}
+      {notice && (
+        <div className="border border-emerald-500/40 bg-emerald-500/10 text-emerald-200 rounded p-3 text-sm">{notice}</div>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
+          <div className="lg:col-span-4 space-y-3">
+            <div className="border rounded p-3 space-y-1 text-sm">
+              <div className="text-xs font-medium">{report.month}</div>
+              <div className="text-2xl font-semibold">{usd(report.totals.costUsd)}</div>
+              <div className="text-xs text-muted-foreground">
+                {report.totals.calls} calls · {report.totals.failedCalls} failed ·{" "}
+                {(report.totals.tokensIn + report.totals.tokensOut).toLocaleString()} tokens
+              </div>
+              <div className={`text-xs ${STATE_STYLE[report.budgetState]}`}>
+                {report.budgetState.replace("_", " ")}
+                {report.utilization != null && ` · ${Math.round(report.utilization * 100)}% of limit`}
+              </div>
+            </div>
+
+            <div className="border rounded p-3 space-y-2">
+              <div className="text-xs font-medium">Monthly budget (USD)</div>
+              <label className="flex items-center gap-2 text-xs">
+                <span className="w-10">Soft</span>
+                <input className="flex-1 border rounded px-2 py-1" value={soft} onChange={(e) => setSoft(e.target.value)} placeholder="no limit" />
+              </label>
+              <label className="flex items-center gap-2 text-xs">
+                <span className="w-10">Hard</span>
+                <input className="flex-1 border rounded px-2 py-1" value={hard} onChange={(e) => setHard(e.target.value)} placeholder="no limit" />
+              </label>
+              <button className="border rounded px-3 py-1 text-xs" onClick={saveBudget} disabled={busy}>
+                Save
+              </button>
+            </div>
+
+            <LineTable title="By role" lines={report.byRole} />
+          </div>
+
+          <div className="lg:col-span-4 space-y-3">
+            <LineTable title="By purpose" lines={report.byPurpose} />
+            <LineTable title="By model" lines={report.byModel} />
+          </div>
+
+          <div className="lg:col-span-4">
+            <LineTable title="By deal" lines={report.byDeal} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
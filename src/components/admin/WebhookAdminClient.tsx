@@ -0,0 +1,290 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+type Subscription = {
+  id: string;
+  url: string;
+  events: string[] | null;
+  enabled: boolean;
+  description: string | null;
+  secret_hint: string | null;
+  created_at: string | null;
+};
+
+type Delivery = {
+  id: string;
+  webhook_id: string | null;
+  event: string;
+  event_id: string | null;
+  deal_id: string | null;
+  status: "pending" | "delivered" | "failed";
+  attempt_count: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  replay_of: string | null;
+  created_at: string | null;
+};
+
+type LoadResponse =
+  | { ok: true; bankId: string; events: string[]; subscriptions: Subscription[]; deliveries: Delivery[] }
+  | { ok: false; error: string };
+
+function formatTs(ts: string | null) {
+  if (!ts) return "—";
+  const d = new Date(ts);
+  if (Number.isNaN(d.getTime())) return ts;
+  return d.toLocaleString();
+}
+
+const STATUS_STYLE: Record<Delivery["status"], string> = {
+  failed: "text-red-300",
+  pending: "text-amber-300",
+  delivered: "text-emerald-300",
+};
+
+export default function WebhookAdminClient() {
+  const search = useSearchParams();
+  const bankIdParam = search.get("bankId") ?? "";
+
+  const [status, setStatus] = useState<"failed" | "pending" | "delivered" | "all">("failed");
+  const [data, setData] = useState<Extract<LoadResponse, { ok: true }> | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [newUrl, setNewUrl] = useState("");
+  const [newEvents, setNewEvents] = useState<string[]>([]);
+
+  const selected = useMemo(
+    () => (selectedId ? data?.deliveries.find((d) => d.id === selectedId) ?? null : null),
+    [data, selectedId],
+  );
+  const subsById = useMemo(() => new Map((data?.subscriptions ?? []).map((s) => [s.id, s])), [data]);
+
+  async function load() {
+    setBusy(true);
+    setError(null);
+    try {
+      const url = new URL("/api/admin/webhooks", window.location.origin);
+      url.searchParams.set("status", status);
+      if (bankIdParam) url.searchParams.set("bankId", bankIdParam);
+      const r = await fetch(url.toString(), { cache: "no-store" });
+      const j = (await r.json().catch(() => null)) as LoadResponse | null;
+      if (!j?.ok) throw new Error(j?.error ?? `Failed to load (${r.status})`);
+      setData(j);
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+      setData(null);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function post(body: Record<string, unknown>) {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const r = await fetch("/api/admin/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(bankIdParam ? { ...body, bankId: bankIdParam } : body),
+      });
+      const j = await r.json().catch(() => null);
+      if (!j?.ok) throw new Error(j?.error ?? `Request failed (${r.status})`);
+      return j;
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function replay(deliveryId: string) {
+    const j = await post({ action: "replay", deliveryId });
+    if (j) {
+      setNotice(`Replayed — new delivery ${j.outcome.deliveryId} is ${j.outcome.status}`);
+      await load();
+    }
+  }
+
+  async function createSubscription() {
+    const j = await post({ action: "create_subscription", url: newUrl.trim(), events: newEvents });
+    if (j) {
+      setNotice(`Subscription created. Signing secret (shown once): ${j.secret}`);
+      setNewUrl("");
+      setNewEvents([]);
+      await load();
+    }
+  }
+
+  async function rotate(subscriptionId: string) {
+    const j = await post({ action: "rotate_secret", subscriptionId });
+    if (j) {
+      setNotice(`Secret rotated (shown once): ${j.secret}`);
+      await load();
+    }
+  }
+
+  async function setEnabled(subscriptionId: string, enabled: boolean) {
+    if (await post({ action: "update_subscription", subscriptionId, enabled })) await load();
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-xl font-semibold">Outbound Webhooks</div>
+          <div className="text-sm text-muted-foreground">
+            Bank <span className="font-mono">{data?.bankId ?? (bankIdParam || "(current)")}</span> · signed with{" "}
+            <span className="font-mono">Buddy-Signature</span> · retried with exponential backoff. Super-admin only.
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select className="border rounded px-3 py-1" value={status} onChange={(e) => setStatus(e.target.value as any)}>
+            <option value="failed">Failed</option>
+            <option value="pending">Retrying</option>
+            <option value="delivered">Delivered</option>
+            <option value="all">All</option>
+          </select>
+          <button className="border rounded px-3 py-1" onClick={() => load()} disabled={busy}>
+            {busy ? "Loading…" : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="border border-red-500/40 bg-red-500/10 text-red-200 rounded p-3 text-sm">{error}</div>
+      )}
+      {notice && (
+        <div className="border border-emerald-500/40 bg-emerald-500/10 text-emerald-200 rounded p-3 text-sm font-mono break-all">
+          {notice}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
+        <div className="lg:col-span-4 space-y-3">
+          <div className="text-sm font-medium">Subscriptions</div>
+          {(data?.subscriptions ?? []).map((s) => (
+            <div key={s.id} className="border rounded p-3 space-y-2 text-sm">
+              <div className="font-mono text-xs break-all">{s.url}</div>
+              <div className="text-xs text-muted-foreground">{(s.events ?? []).join(", ") || "(no events)"}</div>
+              <div className="text-xs font-mono text-muted-foreground">secret {s.secret_hint ?? "—"}</div>
+              <div className="flex gap-2">
+                <button className="border rounded px-2 py-1 text-xs" onClick={() => setEnabled(s.id, !s.enabled)} disabled={busy}>
+                  {s.enabled ? "Disable" : "Enable"}
+                </button>
+                <button className="border rounded px-2 py-1 text-xs" onClick={() => rotate(s.id)} disabled={busy}>
+                  Rotate secret
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="border rounded p-3 space-y-2">
+            <div className="text-xs font-medium">New subscription</div>
+            <input
+              className="w-full border rounded px-3 py-2 font-mono text-xs"
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+              placeholder="https://los.example.com/buddy-webhooks"
+            />
+            <div className="grid grid-cols-1 gap-1">
+              {(data?.events ?? []).map((ev) => (
+                <label key={ev} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={newEvents.includes(ev)}
+                    onChange={(e) =>
+                      setNewEvents((prev) => (e.target.checked ? [...prev, ev] : prev.filter((x) => x !== ev)))
+                    }
+                  />
+                  <span className="font-mono">{ev}</span>
+                </label>
+              ))}
+            </div>
+            <button
+              className="border rounded px-3 py-1 text-xs"
+              onClick={createSubscription}
+              disabled={busy || !newUrl.trim() || newEvents.length === 0}
+            >
+              Create
+            </button>
+          </div>
+        </div>
+
+        <div className="lg:col-span-5 border rounded overflow-hidden">
+          <div className="grid grid-cols-12 gap-2 px-3 py-2 text-xs font-medium bg-muted/40">
+            <div className="col-span-4">Created</div>
+            <div className="col-span-4">Event</div>
+            <div className="col-span-2">Status</div>
+            <div className="col-span-2">Tries</div>
+          </div>
+          <div className="divide-y">
+            {(data?.deliveries ?? []).map((d) => (
+              <button
+                key={d.id}
+                className={`w-full text-left grid grid-cols-12 gap-2 px-3 py-2 text-sm hover:bg-muted/30 ${
+                  d.id === selectedId ? "bg-muted/30" : ""
+                }`}
+                onClick={() => setSelectedId(d.id)}
+              >
+                <div className="col-span-4 text-xs">{formatTs(d.created_at)}</div>
+                <div className="col-span-4 font-mono text-xs truncate">{d.event}</div>
+                <div className={`col-span-2 text-xs ${STATUS_STYLE[d.status]}`}>{d.status}</div>
+                <div className="col-span-2 text-xs">{d.attempt_count}</div>
+              </button>
+            ))}
+            {data && data.deliveries.length === 0 && (
+              <div className="px-3 py-6 text-sm text-muted-foreground">No {status === "all" ? "" : status} deliveries.</div>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-3 space-y-2 text-xs">
+          {selected ? (
+            <>
+              <div className="font-medium text-sm">Delivery</div>
+              <div className="font-mono break-all">{selected.id}</div>
+              <div>Endpoint: <span className="font-mono break-all">{subsById.get(selected.webhook_id ?? "")?.url ?? "(deleted)"}</span></div>
+              <div>Deal: <span className="font-mono">{selected.deal_id ?? "—"}</span></div>
+              <div>Event id: <span className="font-mono">{selected.event_id ?? "—"}</span></div>
+              <div>Last attempt: {formatTs(selected.last_attempt_at)}</div>
+              <div>Next attempt: {selected.status === "pending" ? formatTs(selected.next_attempt_at) : "—"}</div>
+              <div>HTTP status: {selected.response_status ?? "—"}</div>
+              {selected.replay_of && <div>Replay of: <span className="font-mono">{selected.replay_of}</span></div>}
+              {selected.error && <div className="text-red-300 break-all">{selected.error}</div>}
+              {selected.response_body && (
+                <pre className="border rounded p-2 whitespace-pre-wrap break-all max-h-48 overflow-auto">
+                  {selected.response_body}
+                </pre>
+              )}
+              <button
+                className="border rounded px-3 py-1"
+                onClick={() => replay(selected.id)}
+                disabled={busy || selected.status === "pending"}
+              >
+                Replay
+              </button>
+            </>
+          ) : (
+            <div className="text-muted-foreground">Select a delivery to inspect or replay it.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -146,6 +146,12 @@ export function CollateralWorkspace({ collateral, requestedAmount, onAdd, onUpda
               <span className="text-white/50">Net Lendable Value</span>
               <span className="text-white font-semibold">${ltv.totalLendableValue.toLocaleString()}</span>
             </div>
+            {ltv.itemsAwaitingReview > 0 && (
+              <div className="flex justify-between text-sm mt-1">
+                <span className="text-amber-300/80">Appraisal Review Pending ({ltv.itemsAwaitingReview})</span>
+                <span className="text-amber-300/80">Appraised value not yet applied</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm mt-1">
               <span className="text-white/50">Loan to Value (LTV)</span>
               <span className={`font-semibold ${ltv.withinPolicy === false ? "text-rose-400" : "text-white"}`}>
@@ -20,6 +20,7 @@ export const BLOCKER_ACTION_MAP: Record<string, BuddyActionCode[]> = {
   pricing_quote_missing: ["commit_pricing_quote"],
   committee_packet_missing: ["generate_committee_packet"],
   critical_flags_unresolved: ["resolve_critical_flags"],
+  sanctions_screening_open: ["resolve_readiness_blockers"],
   decision_missing: ["record_committee_decision"],
   attestation_missing: ["complete_attestation"],
   loan_request_missing: ["submit_loan_request"],
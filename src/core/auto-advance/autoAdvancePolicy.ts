@@ -63,6 +63,7 @@ export const AUTO_ADVANCE_RULES: AutoAdvanceRule[] = [
       "risk_pricing_not_finalized",
       "structural_pricing_missing",
       "critical_flags_unresolved",
+      "sanctions_screening_open",
       "pricing_quote_missing",
     ],
     description:
@@ -16,6 +16,7 @@ const BLOCKER_DESCRIPTIONS: Record<string, string> = {
   risk_pricing_not_finalized: "Risk-based pricing analysis is not finalized",
   structural_pricing_missing: "Structural pricing terms are not complete",
   critical_flags_unresolved: "Critical flags must be resolved before committee",
+  sanctions_screening_open: "Sanctions screening hits need a disposition before a decision",
   committee_packet_missing: "Committee review packet has not been generated",
   decision_missing: "Credit committee decision has not been recorded",
   attestation_missing: "Required attestation has not been completed",
@@ -39,7 +39,9 @@ export type MonitoringExceptionCode =
   | "borrower_nonresponse"
   | "review_backlog"
   | "covenant_certificate_missing"
-  | "annual_review_overdue";
+  | "annual_review_overdue"
+  | "covenant_breach"
+  | "springing_covenant_triggered";
 
 // ── Obligation Type ─────────────────────────────────────────────────────
 
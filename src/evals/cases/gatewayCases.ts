@@ -0,0 +1,74 @@
+/**
+ * Gateway eval cases — AI-backed extraction and memo prompts, recorded to
+ * and replayed from cassettes in src/evals/cassettes (see runGatewayEvalSuite).
+ *
+ * Synthetic, anonymized. No real deal data. Changing a prompt here changes
+ * its cassette key: re-record with `pnpm evals:record` and review the new
+ * cassette diff like any other fixture change.
+ */
+
+import type { GatewayEvalCase } from "../types";
+
+const TAX_RETURN_EXCERPT = [
+  "Form 1120-S  U.S. Income Tax Return for an S Corporation  2025",
+  "Name: Synthetic Widgets LLC   EIN: 00-0000000",
+  "1a Gross receipts or sales ........ 2,400,000",
+  "2  Cost of goods sold .............. 1,380,000",
+  "3  Gross profit .................... 1,020,000",
+  "14 Depreciation .................... 62,000",
+  "13 Interest ........................ 41,500",
+  "21 Ordinary business income (loss) . 240,000",
+].join("\n");
+
+export const GATEWAY_CASES: GatewayEvalCase[] = [
+  {
+    id: "gw_structurer_1120s_income",
+    name: "Structurer — 1120-S income lines",
+    role: "structurer",
+    request: {
+      purpose: "eval_1120s_income",
+      systemInstruction: "Extract the requested line items from the tax return excerpt. Use plain numbers, no commas.",
+      prompt: `Tax return excerpt:\n\n${TAX_RETURN_EXCERPT}`,
+      responseSchema: {
+        type: "object",
+        properties: {
+          gross_receipts: { type: "number" },
+          cost_of_goods_sold: { type: "number" },
+          depreciation: { type: "number" },
+          interest: { type: "number" },
+          ordinary_business_income: { type: "number" },
+        },
+        required: ["gross_receipts", "cost_of_goods_sold", "depreciation", "interest", "ordinary_business_income"],
+        additionalProperties: false,
+      },
+    },
+    expected: {
+      json: {
+        gross_receipts: 2_400_000,
+        cost_of_goods_sold: 1_380_000,
+        depreciation: 62_000,
+        interest: 41_500,
+        ordinary_business_income: 240_000,
+      },
+    },
+    tags: ["extraction", "tax_return"],
+  },
+  {
+    id: "gw_generator_memo_repayment",
+    name: "Generator — memo repayment paragraph",
+    role: "generator",
+    request: {
+      purpose: "eval_memo_repayment",
+      systemInstruction:
+        "You write the repayment-capacity paragraph of a commercial credit memo. Use only the figures given; state the DSCR to two decimals.",
+      prompt: [
+        "Borrower: Synthetic Widgets LLC (synthetic).",
+        "Cash flow available for debt service: $240,000.",
+        "Proposed annual debt service: $160,000.",
+        "Policy minimum DSCR: 1.25x.",
+      ].join("\n"),
+    },
+    expected: { contains: ["1.50", "1.25"] },
+    tags: ["memo", "narrative"],
+  },
+];
@@ -0,0 +1,77 @@
+/**
+ * runGatewayEvalSuite — record once against fake providers, then replay
+ * offline and score.
+ */
+
+import { describe, it, before, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { mockServerOnly } from "../../test/utils/mockServerOnly";
+import { runGatewayEvalSuite } from "./runner";
+import { scoreGatewayOutput } from "./scorer";
+import { GATEWAY_CASES } from "./cases/gatewayCases";
+import type { GatewayEvalCase } from "./types";
+
+mockServerOnly();
+// Same dynamic import runGatewayEvalSuite uses, so the test seams land on
+// the module instance the runner actually calls.
+let gateway: typeof import("@/lib/ai/gateway");
+before(async () => {
+  gateway = await import("@/lib/ai/gateway");
+});
+
+const CASE: GatewayEvalCase = {
+  id: "t_structurer",
+  name: "structurer",
+  role: "structurer",
+  request: { prompt: "extract", purpose: "eval_test" },
+  expected: { json: { revenue: 1_000_000, "owner.name": "Synthetic" } },
+  tags: [],
+};
+
+afterEach(() => {
+  gateway.__resetGatewayTestOverrides();
+});
+
+describe("scoreGatewayOutput", () => {
+  it("checks dotted JSON paths with numeric tolerance and required text", () => {
+    assert.deepEqual(scoreGatewayOutput(CASE, '{"revenue":1010000,"owner":{"name":"Synthetic"}}'), []);
+    assert.deepEqual(scoreGatewayOutput(CASE, '{"revenue":900000,"owner":{"name":"Synthetic"}}'), [
+      "revenue: expected 1000000, got 900000",
+    ]);
+    assert.deepEqual(scoreGatewayOutput(CASE, "not json"), ["output is not valid JSON"]);
+    const memo = GATEWAY_CASES.find((c) => c.id === "gw_generator_memo_repayment")!;
+    assert.deepEqual(scoreGatewayOutput(memo, "DSCR of 1.50x exceeds the 1.25x minimum."), []);
+  });
+});
+
+describe("runGatewayEvalSuite", () => {
+  it("records, then replays offline with the same scores; unrecorded prompts are cassette misses", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "gw-evals-"));
+    try {
+      gateway.__setLogGatewayCallForTests(async () => {});
+      gateway.__setProviderImplForTests("openai", async () => ({
+        text: '{"revenue":1000000,"owner":{"name":"Synthetic"}}',
+        tokensIn: 1,
+        tokensOut: 1,
+      }));
+      const recorded = await runGatewayEvalSuite({ mode: "record", cassetteDir: dir, cases: [CASE] });
+      assert.equal(recorded.passedCases, 1);
+
+      gateway.__setProviderImplForTests("openai", async () => {
+        throw new Error("network call during replay");
+      });
+      const changed: GatewayEvalCase = { ...CASE, id: "t_changed", request: { ...CASE.request, prompt: "extract v2" } };
+      const replayed = await runGatewayEvalSuite({ mode: "replay", cassetteDir: dir, cases: [CASE, changed] });
+      assert.equal(replayed.mode, "replay");
+      assert.equal(replayed.passedCases, 1);
+      assert.equal(replayed.cassetteMisses, 1);
+      assert.equal(replayed.scores[0].provider, "openai");
+      assert.equal(replayed.scores[1].cassetteMiss, true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
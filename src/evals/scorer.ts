@@ -5,7 +5,7 @@
  * LLM judge is only for narrative quality (not implemented in 54 base).
  */
 
-import type { EvalCase, EvalScore, IncorrectFact } from "./types";
+import type { EvalCase, EvalScore, GatewayEvalCase, IncorrectFact } from "./types";
 
 const DEFAULT_TOLERANCE = 0.02; // 2%
 const PASSING_THRESHOLD = 0.85;
@@ -104,3 +104,45 @@ function mapRatioToFactKey(ratioKey: string): string {
   };
   return MAP[ratioKey] ?? ratioKey.toUpperCase();
 }
+
+function valueAtPath(obj: unknown, dotted: string): unknown {
+  let cur: unknown = obj;
+  for (const part of dotted.split(".")) {
+    if (cur === null || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+/**
+ * Gateway eval scoring — same no-LLM rule as scoreCase: expected JSON
+ * fields (numbers within DEFAULT_TOLERANCE) and required substrings.
+ * Returns the list of failures; empty means the case passed.
+ */
+export function scoreGatewayOutput(evalCase: GatewayEvalCase, text: string): string[] {
+  const failures: string[] = [];
+  const { json, contains } = evalCase.expected;
+
+  if (json && Object.keys(json).length > 0) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return ["output is not valid JSON"];
+    }
+    for (const [path, expected] of Object.entries(json)) {
+      const actual = valueAtPath(parsed, path);
+      const ok =
+        typeof expected === "number" && typeof actual === "number"
+          ? withinTolerance(actual, expected)
+          : actual === expected;
+      if (!ok) failures.push(`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+
+  const lower = text.toLowerCase();
+  for (const needle of contains ?? []) {
+    if (!lower.includes(needle.toLowerCase())) failures.push(`missing text: "${needle}"`);
+  }
+  return failures;
+}
@@ -2,6 +2,8 @@
  * Phase 54 — Buddy Eval Suite Types
  */
 
+import type { GatewayRole } from "@/lib/ai/roleConfig";
+
 export type EvalRunMode = "facts_only" | "full_pipeline";
 
 export type EvalCase = {
@@ -67,3 +69,51 @@ export type EvalRunSummary = {
   durationMs: number;
   scores: EvalScore[];
 };
+
+// ── Gateway (record/replay) evals ─────────────────────────────────────────
+// AI-backed extraction/memo cases replayed from cassettes
+// (src/lib/ai/providers/replay.ts) — deterministic, no network.
+
+export type GatewayEvalMode = "replay" | "record";
+
+export type GatewayEvalCase = {
+  id: string;
+  name: string;
+  role: GatewayRole;
+  request: {
+    prompt: string;
+    systemInstruction?: string;
+    responseSchema?: Record<string, unknown>;
+    purpose: string;
+  };
+  expected: {
+    /** Dotted path → expected value in the JSON output; numbers within 2%. */
+    json?: Record<string, string | number | boolean | null>;
+    /** Substrings the text output must contain (case-insensitive). */
+    contains?: string[];
+  };
+  tags: string[];
+};
+
+export type GatewayEvalScore = {
+  caseId: string;
+  caseName: string;
+  passed: boolean;
+  /** No cassette for the current prompt — re-record before trusting the run. */
+  cassetteMiss: boolean;
+  failures: string[];
+  provider: string | null;
+  model: string | null;
+};
+
+export type GatewayEvalRunSummary = {
+  runId: string;
+  runAt: string;
+  mode: GatewayEvalMode;
+  totalCases: number;
+  passedCases: number;
+  failedCases: number;
+  cassetteMisses: number;
+  durationMs: number;
+  scores: GatewayEvalScore[];
+};
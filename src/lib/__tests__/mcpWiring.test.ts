@@ -153,6 +153,15 @@ describe("Buddy MCP server (source-level)", () => {
     assert.ok(src.includes("handleDetectAnomalies"));
   });
 
+  test("routes governed write tools from ./writeTools with dryRun", () => {
+    assert.ok(src.includes("./writeTools"));
+    assert.ok(src.includes("handleClearCondition"));
+    assert.ok(src.includes("handleAttachChecklistDocument"));
+    assert.ok(src.includes("handleRequestBorrowerDocument"));
+    assert.ok(src.includes("handleDraftMemoSection"));
+    assert.ok(/dryRun:\s*params\.dryRun === true/.test(src));
+  });
+
   test("imports from resources and tools modules", () => {
     assert.ok(src.includes("./resources"));
     assert.ok(src.includes("./tools"));
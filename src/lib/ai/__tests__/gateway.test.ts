@@ -3,8 +3,8 @@
  *
  * Uses the test-only seams exported by gateway.ts
  * (__setProviderImplForTests / __setLogGatewayCallForTests /
- * __resetGatewayTestOverrides / __resetGatewayBudgetForTests) so failover,
- * NPI-refusal, and budget behavior can be verified without live network
+ * __setUsageMeterForTests / __resetGatewayTestOverrides /
+ * __resetGatewayBudgetForTests) so failover, NPI-refusal, and budget behavior can be verified without live network
  * calls or a live Supabase connection — same escape-hatch pattern as
  * OpenAICircuitBreaker._reset() in openaiResilience.ts.
  */
@@ -24,6 +24,7 @@ const {
   runRoleStream,
   __setProviderImplForTests,
   __setLogGatewayCallForTests,
+  __setUsageMeterForTests,
   __resetGatewayTestOverrides,
   __resetGatewayBudgetForTests,
 } = require("../gateway") as typeof import("../gateway");
@@ -149,6 +150,95 @@ describe("runRole: daily token budget hard stop", () => {
   });
 });
 
+describe("runRole: per-bank monthly budget", () => {
+  function meterFor(state: "ok" | "soft_exceeded" | "hard_exceeded") {
+    const spend: Array<{ bankId: string; costUsd: number }> = [];
+    __setUsageMeterForTests({
+      resolveBankId: async (dealId) => (dealId === "deal-1" ? "bank-1" : null),
+      budgetState: async () => state,
+      recordSpend: (bankId, costUsd) => spend.push({ bankId, costUsd }),
+    });
+    return spend;
+  }
+
+  it("attributes the call to the deal's bank, prices it, and records the spend", async () => {
+    const spend = meterFor("ok");
+    __setProviderImplForTests("google", async () => ({ text: "ok", tokensIn: 1000, tokensOut: 1000 }));
+
+    await runRole("generator", { prompt: "hi", purpose: "test", dealId: "deal-1" });
+
+    assert.equal(ledgerEntries[0].bankId, "bank-1");
+    assert.ok((ledgerEntries[0].costUsd ?? 0) > 0);
+    assert.deepEqual(spend, [{ bankId: "bank-1", costUsd: ledgerEntries[0].costUsd }]);
+  });
+
+  it("over the hard limit, a narrative purpose skips paid steps for a zero-cost local step", async () => {
+    meterFor("hard_exceeded");
+    process.env.AI_GATEWAY_CHAIN_GENERATOR = "google:gemini-3.1-pro-preview,local:qwen2.5-32b-instruct";
+    __setProviderImplForTests("google", async () => {
+      throw new Error("should not be called");
+    });
+    __setProviderImplForTests("local", async () => okResult("from the bank's own model"));
+
+    const result = await runRole("generator", { prompt: "hi", purpose: "sba_package_narrative", dealId: "deal-1" });
+
+    assert.equal(result.provider, "local");
+    assert.equal(ledgerEntries[0].outcome, "failure");
+    assert.match(ledgerEntries[0].errorMessage ?? "", /bank AI budget hard limit/);
+    assert.equal(ledgerEntries[1].costUsd, 0);
+  });
+
+  it("over the hard limit, a narrative purpose with no zero-cost step is refused", async () => {
+    meterFor("hard_exceeded");
+    __setProviderImplForTests("google", async () => {
+      throw new Error("should not be called");
+    });
+    __setProviderImplForTests("openai", async () => {
+      throw new Error("should not be called");
+    });
+
+    await assert.rejects(
+      () => runRole("generator", { prompt: "hi", purpose: "classic_spread_narrative", dealId: "deal-1" }),
+      /bank AI budget hard limit/,
+    );
+  });
+
+  it("over the hard limit, an unpriced hosted model from the env chain counts as paid", async () => {
+    meterFor("hard_exceeded");
+    process.env.AI_GATEWAY_CHAIN_GENERATOR = "anthropic:claude-unlisted-next";
+    __setProviderImplForTests("anthropic", async () => {
+      throw new Error("should not be called");
+    });
+
+    await assert.rejects(
+      () => runRole("generator", { prompt: "hi", purpose: "sba_package_narrative", dealId: "deal-1" }),
+      /hard limit reached: purpose "sba_package_narrative" is deferrable and model "claude-unlisted-next" is not zero-cost/,
+    );
+    assert.equal(ledgerEntries.length, 1);
+    assert.equal(ledgerEntries[0].outcome, "failure");
+  });
+
+  it("meters an unpriced hosted model at the fallback rate, not $0", async () => {
+    const spend = meterFor("ok");
+    process.env.AI_GATEWAY_CHAIN_GENERATOR = "anthropic:claude-unlisted-next";
+    __setProviderImplForTests("anthropic", async () => ({ text: "ok", tokensIn: 1_000_000, tokensOut: 0 }));
+
+    await runRole("generator", { prompt: "hi", purpose: "test", dealId: "deal-1" });
+
+    assert.equal(ledgerEntries[0].costUsd, 15);
+    assert.deepEqual(spend, [{ bankId: "bank-1", costUsd: 15 }]);
+  });
+
+  it("over the hard limit, extraction keeps running on paid providers", async () => {
+    meterFor("hard_exceeded");
+    __setProviderImplForTests("google", async () => okResult("extracted"));
+
+    const result = await runRole("generator", { prompt: "hi", purpose: "doc_extraction", dealId: "deal-1" });
+
+    assert.equal(result.provider, "google");
+  });
+});
+
 describe("runRole: SPEC-GATEWAY-CAPABILITY-EXPANSION-1 field passthrough", () => {
   it("passes inlineData and useSearchGrounding from the request into the provider call", async () => {
     let captured: any = null;
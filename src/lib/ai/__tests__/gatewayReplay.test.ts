@@ -0,0 +1,142 @@
+/**
+ * Gateway record/replay (providers/replay.ts) and the "local" provider's
+ * role routing.
+ */
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { mockServerOnly } from "../../../../test/utils/mockServerOnly";
+import type { LedgerEntry } from "../ledger";
+import { getRoleConfig } from "../roleConfig";
+
+mockServerOnly();
+const require = createRequire(import.meta.url);
+const {
+  runRole,
+  runRoleStream,
+  __setProviderImplForTests,
+  __setLogGatewayCallForTests,
+  __resetGatewayTestOverrides,
+  __resetGatewayBudgetForTests,
+} = require("../gateway") as typeof import("../gateway");
+const { cassetteKey, setCassetteConfig, CassetteMissError } = require("../providers/replay") as typeof import("../providers/replay");
+
+let dir: string;
+let ledgerEntries: LedgerEntry[];
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "cassettes-"));
+  ledgerEntries = [];
+  __setLogGatewayCallForTests(async (entry) => {
+    ledgerEntries.push(entry);
+  });
+});
+
+afterEach(() => {
+  setCassetteConfig(null);
+  __resetGatewayTestOverrides();
+  __resetGatewayBudgetForTests();
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.AI_GATEWAY_CHAIN_STRUCTURER;
+});
+
+const offline = async (): Promise<never> => {
+  throw new Error("network call during replay");
+};
+
+describe("cassetteKey", () => {
+  it("is stable across schema key order and ignores timeout/auth", () => {
+    const a = cassetteKey("openai", { model: "m", prompt: "p", timeoutMs: 1, responseSchema: { a: 1, b: { c: 2, d: 3 } } });
+    const b = cassetteKey("openai", { model: "m", prompt: "p", timeoutMs: 99, authMode: "vertex", responseSchema: { b: { d: 3, c: 2 }, a: 1 } });
+    assert.equal(a, b);
+    assert.notEqual(a, cassetteKey("openai", { model: "m", prompt: "p2", timeoutMs: 1, responseSchema: { a: 1, b: { c: 2, d: 3 } } }));
+    assert.notEqual(a, cassetteKey("local", { model: "m", prompt: "p", timeoutMs: 1, responseSchema: { a: 1, b: { c: 2, d: 3 } } }));
+  });
+});
+
+describe("runRole with cassettes", () => {
+  it("records a call, then replays it offline without ledger rows", async () => {
+    setCassetteConfig({ mode: "record", dir });
+    __setProviderImplForTests("openai", async () => ({ text: '{"revenue":100}', tokensIn: 5, tokensOut: 3 }));
+    const recorded = await runRole("structurer", { prompt: "extract revenue", purpose: "test" });
+    assert.equal(recorded.replayed, undefined);
+    assert.equal(ledgerEntries.length, 1);
+
+    const files = readdirSync(dir);
+    assert.equal(files.length, 1);
+    const cassette = JSON.parse(readFileSync(path.join(dir, files[0]), "utf8"));
+    assert.equal(cassette.provider, "openai");
+    assert.equal(cassette.promptPreview, "extract revenue");
+    assert.equal(cassette.result.text, '{"revenue":100}');
+
+    setCassetteConfig({ mode: "replay", dir });
+    __setProviderImplForTests("openai", offline);
+    const replayed = await runRole("structurer", { prompt: "extract revenue", purpose: "test" });
+    assert.equal(replayed.text, '{"revenue":100}');
+    assert.equal(replayed.tokensIn, 5);
+    assert.equal(replayed.replayed, true);
+    assert.equal(ledgerEntries.length, 1, "replays are not ledgered");
+  });
+
+  it("a changed prompt is a cassette miss, never a network call", async () => {
+    setCassetteConfig({ mode: "replay", dir });
+    __setProviderImplForTests("openai", offline);
+    await assert.rejects(
+      () => runRole("structurer", { prompt: "never recorded", purpose: "test" }),
+      (err: unknown) => err instanceof CassetteMissError && err.provider === "openai",
+    );
+    assert.equal(ledgerEntries.length, 0);
+  });
+
+  it("replays a recorded failover the same way", async () => {
+    setCassetteConfig({ mode: "record", dir });
+    __setProviderImplForTests("google", async () => {
+      throw new Error("HTTP 500");
+    });
+    __setProviderImplForTests("openai", async () => ({ text: "from openai", tokensIn: 1, tokensOut: 1 }));
+    await runRole("generator", { prompt: "memo", purpose: "test" });
+
+    setCassetteConfig({ mode: "replay", dir });
+    __setProviderImplForTests("google", offline);
+    __setProviderImplForTests("openai", offline);
+    const replayed = await runRole("generator", { prompt: "memo", purpose: "test" });
+    assert.equal(replayed.provider, "openai");
+    assert.equal(replayed.text, "from openai");
+    assert.equal(replayed.attempts, 2);
+  });
+
+  it("streaming refuses to run in replay mode", async () => {
+    setCassetteConfig({ mode: "replay", dir });
+    await assert.rejects(async () => {
+      for await (const chunk of runRoleStream("interviewer", { prompt: "hi", purpose: "test" })) void chunk;
+    }, /not recorded/);
+  });
+});
+
+describe("local provider routing", () => {
+  it("a role chain override can name the local provider, keeping colons in the model tag", () => {
+    process.env.AI_GATEWAY_CHAIN_STRUCTURER = "local:llama3.1:70b-instruct,openai:gpt-4o-mini";
+    assert.deepEqual(getRoleConfig("structurer").chain, [
+      { provider: "local", model: "llama3.1:70b-instruct" },
+      { provider: "openai", model: "gpt-4o-mini" },
+    ]);
+  });
+
+  it("runRole dispatches a local chain step to the local adapter and ledgers it", async () => {
+    process.env.AI_GATEWAY_CHAIN_STRUCTURER = "local:qwen2.5-32b-instruct";
+    __setProviderImplForTests("local", async (req) => ({ text: `local:${req.model}`, tokensIn: 2, tokensOut: 2 }));
+    const result = await runRole("structurer", { prompt: "x", purpose: "test" });
+    assert.equal(result.provider, "local");
+    assert.equal(result.text, "local:qwen2.5-32b-instruct");
+    assert.equal(ledgerEntries[0].provider, "local");
+  });
+
+  it("NPI-tagged requests to a PENDING local provider are refused like any vendor", async () => {
+    process.env.AI_GATEWAY_CHAIN_STRUCTURER = "local:qwen2.5-32b-instruct";
+    __setProviderImplForTests("local", offline);
+    await assert.rejects(() => runRole("structurer", { prompt: "x", purpose: "test", npiTagged: true }), /not APPROVED/);
+  });
+});
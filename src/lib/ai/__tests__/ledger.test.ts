@@ -68,6 +68,8 @@ describe("logGatewayCall", () => {
       tokens_out: 20,
       latency_ms: 500,
       deal_id: "deal-123",
+      bank_id: null,
+      cost_usd: 0.000033,
       purpose: "test",
       npi_tagged: false,
       outcome: "success",
@@ -75,6 +77,29 @@ describe("logGatewayCall", () => {
     });
   });
 
+  it("writes bank attribution and an explicit cost when supplied", async () => {
+    const { client, calls } = makeFakeClient({ error: null });
+    await logGatewayCall(
+      {
+        role: "structurer",
+        provider: "local",
+        model: "qwen2.5-32b-instruct",
+        tokensIn: 1000,
+        tokensOut: 500,
+        latencyMs: 900,
+        dealId: "deal-123",
+        bankId: "bank-9",
+        costUsd: 0.0125,
+        purpose: "test",
+        npiTagged: false,
+        outcome: "success",
+      },
+      client,
+    );
+    assert.equal(calls[0].row.bank_id, "bank-9");
+    assert.equal(calls[0].row.cost_usd, 0.0125);
+  });
+
   it("defaults error_message to null when not supplied", async () => {
     const { client, calls } = makeFakeClient({ error: null });
     await logGatewayCall(
@@ -0,0 +1,144 @@
+/**
+ * Per-bank AI usage meter (lib/ai/usageMeter.ts).
+ *
+ * Month-to-date spend is read from the bank's ai_gateway_calls in the
+ * month's created_at range, across pages; a snapshot loaded over a limit
+ * offers the threshold webhook and the *_notified_month claim keeps it to
+ * once a month.
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { mockServerOnly } from "../../../../test/utils/mockServerOnly";
+
+mockServerOnly();
+const require = createRequire(import.meta.url);
+
+type Row = Record<string, any>;
+const state: { budgets: Row[]; calls: Row[]; webhooks: Array<{ event: string; payload: any }> } = {
+  budgets: [],
+  calls: [],
+  webhooks: [],
+};
+
+function makeQueryBuilder(table: string) {
+  const q: any = {
+    _filters: [] as Array<(r: Row) => boolean>,
+    _range: null as [number, number] | null,
+    _update: null as Row | null,
+    select() {
+      return this;
+    },
+    eq(col: string, v: any) {
+      this._filters.push((r: Row) => r[col] === v);
+      return this;
+    },
+    gte(col: string, v: any) {
+      this._filters.push((r: Row) => r[col] >= v);
+      return this;
+    },
+    lt(col: string, v: any) {
+      this._filters.push((r: Row) => r[col] < v);
+      return this;
+    },
+    gt(col: string, v: any) {
+      this._filters.push((r: Row) => r[col] > v);
+      return this;
+    },
+    or(expr: string) {
+      // `${column}.is.null,${column}.neq.${month}`
+      const [, column, month] = /^(\w+)\.is\.null,\w+\.neq\.(.+)$/.exec(expr)!;
+      this._filters.push((r: Row) => r[column] == null || r[column] !== month);
+      return this;
+    },
+    order() {
+      return this;
+    },
+    range(from: number, to: number) {
+      this._range = [from, to];
+      return this;
+    },
+    update(payload: Row) {
+      this._update = payload;
+      return this;
+    },
+    maybeSingle() {
+      return Promise.resolve({ data: this._exec()[0] ?? null, error: null });
+    },
+    then(onFulfilled: any) {
+      return Promise.resolve({ data: this._exec(), error: null }).then(onFulfilled);
+    },
+    _exec(): Row[] {
+      const source = table === "bank_ai_budgets" ? state.budgets : table === "ai_gateway_calls" ? state.calls : [];
+      let rows = source.filter((r) => this._filters.every((f: (r: Row) => boolean) => f(r)));
+      if (this._update) for (const r of rows) Object.assign(r, this._update);
+      if (this._range) rows = rows.slice(this._range[0], this._range[1] + 1);
+      return rows;
+    },
+  };
+  return q;
+}
+
+const sb = { from: makeQueryBuilder };
+
+require.cache[require.resolve("@/lib/supabase/admin")] = {
+  id: "sb-stub",
+  filename: "sb-stub",
+  loaded: true,
+  exports: { supabaseAdmin: () => sb },
+} as any;
+
+require.cache[require.resolve("@/lib/webhooks/fireWebhook")] = {
+  id: "webhook-stub",
+  filename: "webhook-stub",
+  loaded: true,
+  exports: {
+    fireWebhook: async (event: string, payload: any) => {
+      state.webhooks.push({ event, payload });
+    },
+  },
+} as any;
+
+const { loadBankBudgetSnapshot, usageMeter, __resetUsageMeterCachesForTests } =
+  require("../usageMeter") as typeof import("../usageMeter");
+
+function reset(budget: Row | null) {
+  __resetUsageMeterCachesForTests();
+  state.budgets = budget ? [{ bank_id: "bank-1", soft_notified_month: null, hard_notified_month: null, ...budget }] : [];
+  state.calls = [];
+  state.webhooks = [];
+}
+
+function call(createdAt: string, costUsd: number, bankId = "bank-1") {
+  state.calls.push({ id: `c-${state.calls.length}`, bank_id: bankId, created_at: createdAt, cost_usd: costUsd });
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+test("sums the bank's calls in the month's created_at range across pages", async () => {
+  reset({ monthly_soft_limit_usd: 5000, monthly_hard_limit_usd: null });
+  for (let i = 0; i < 2500; i++) call("2026-10-05T12:00:00.000Z", 1);
+  call("2026-09-30T23:59:59.999Z", 100);
+  call("2026-11-01T00:00:00.000Z", 100);
+  call("2026-10-05T12:00:00.000Z", 100, "bank-2");
+
+  const snapshot = await loadBankBudgetSnapshot("bank-1", { sb: sb as any, now: new Date("2026-10-19T00:00:00Z") });
+  assert.equal(snapshot.month, "2026-10");
+  assert.equal(snapshot.spentUsd, 2500);
+  assert.equal(snapshot.state, "ok");
+});
+
+test("a snapshot loaded over a limit fires the threshold webhook once a month", async () => {
+  reset({ monthly_soft_limit_usd: 10, monthly_hard_limit_usd: null });
+  call(new Date().toISOString(), 12);
+
+  assert.equal(await usageMeter.budgetState("bank-1"), "soft_exceeded");
+  await flush();
+  assert.deepEqual(state.webhooks.map((w) => w.event), ["ai_budget.soft_limit_reached"]);
+  assert.equal(state.budgets[0].soft_notified_month, new Date().toISOString().slice(0, 7));
+
+  __resetUsageMeterCachesForTests();
+  assert.equal(await usageMeter.budgetState("bank-1"), "soft_exceeded");
+  await flush();
+  assert.equal(state.webhooks.length, 1, "the notified-month claim deduplicates");
+});
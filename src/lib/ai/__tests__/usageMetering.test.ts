@@ -0,0 +1,120 @@
+/**
+ * Per-bank AI usage metering — pricing.ts, usageBudget.ts and
+ * chargeback.ts (all pure).
+ */
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { estimateCostUsd, modelPrice, providerModelPrice, UNPRICED_MODEL_PRICE } from "../pricing";
+import { bankBudgetState, budgetMonth, monthBounds, mustDegrade, purposeTier } from "../usageBudget";
+import { buildChargebackReport, chargebackCsv, type AiUsageRow } from "../chargeback";
+import { GEMINI_PRO, OPENAI_MINI } from "../models";
+
+afterEach(() => {
+  delete process.env.AI_GATEWAY_PRICING_JSON;
+});
+
+describe("pricing", () => {
+  it("prices a call from the per-1M-token table", () => {
+    // 1M in × $2 + 500k out × $12
+    assert.equal(estimateCostUsd(GEMINI_PRO, 1_000_000, 500_000), 8);
+  });
+
+  it("meters unpriced (self-hosted) models at $0 until overridden", () => {
+    assert.equal(modelPrice("qwen2.5-32b-instruct"), null);
+    assert.equal(estimateCostUsd("qwen2.5-32b-instruct", 1000, 1000), 0);
+
+    process.env.AI_GATEWAY_PRICING_JSON = JSON.stringify({ "qwen2.5-32b-instruct": { input: 1, output: 1 } });
+    assert.equal(estimateCostUsd("qwen2.5-32b-instruct", 500_000, 500_000), 1);
+  });
+
+  it("prices an unlisted hosted model at the fallback rate; an unlisted local model stays $0", () => {
+    assert.deepEqual(providerModelPrice("anthropic", "claude-unlisted-next"), UNPRICED_MODEL_PRICE);
+    assert.equal(estimateCostUsd("claude-unlisted-next", 1_000_000, 0, "anthropic"), UNPRICED_MODEL_PRICE.input);
+    assert.equal(providerModelPrice("local", "qwen2.5-32b-instruct"), null);
+    assert.equal(estimateCostUsd("qwen2.5-32b-instruct", 1000, 1000, "local"), 0);
+  });
+
+  it("ignores a malformed override", () => {
+    process.env.AI_GATEWAY_PRICING_JSON = "{not json";
+    assert.deepEqual(modelPrice(OPENAI_MINI), { input: 0.15, output: 0.6 });
+  });
+});
+
+describe("usageBudget", () => {
+  const budget = { monthlySoftLimitUsd: 100, monthlyHardLimitUsd: 250 };
+
+  it("classifies spend against soft and hard limits", () => {
+    assert.equal(bankBudgetState(99.99, budget), "ok");
+    assert.equal(bankBudgetState(100, budget), "soft_exceeded");
+    assert.equal(bankBudgetState(250, budget), "hard_exceeded");
+    assert.equal(bankBudgetState(1e9, null), "ok");
+    assert.equal(bankBudgetState(300, { monthlySoftLimitUsd: 100, monthlyHardLimitUsd: null }), "soft_exceeded");
+  });
+
+  it("treats narratives and coaching as deferrable, everything else as essential", () => {
+    assert.equal(purposeTier("sba_package_narrative"), "deferrable");
+    assert.equal(purposeTier("borrower_coaching_tips"), "deferrable");
+    assert.equal(purposeTier("doc_extraction"), "essential");
+    assert.equal(purposeTier("some_new_caller"), "essential");
+  });
+
+  it("only degrades deferrable purposes, and only over the hard limit", () => {
+    assert.equal(mustDegrade("hard_exceeded", "glass_box_narrate"), true);
+    assert.equal(mustDegrade("soft_exceeded", "glass_box_narrate"), false);
+    assert.equal(mustDegrade("hard_exceeded", "naics_suggest"), false);
+  });
+
+  it("budget months are UTC calendar months", () => {
+    assert.equal(budgetMonth(new Date("2026-10-31T23:30:00Z")), "2026-10");
+    assert.deepEqual(monthBounds("2026-12"), {
+      start: "2026-12-01T00:00:00.000Z",
+      end: "2027-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("chargeback", () => {
+  const rows: AiUsageRow[] = [
+    { deal_id: "deal-a", role: "structurer", purpose: "doc_extraction", provider: "google", model: "gemini-3.5-flash", calls: 40, failed_calls: 2, tokens_in: 400000, tokens_out: 80000, cost_usd: "0.440000" },
+    { deal_id: "deal-a", role: "generator", purpose: "sba_package_narrative", provider: "google", model: GEMINI_PRO, calls: 3, failed_calls: 0, tokens_in: 60000, tokens_out: 30000, cost_usd: "0.480000" },
+    { deal_id: null, role: "generator", purpose: "omega_advisory", provider: "local", model: "qwen2.5-32b-instruct", calls: 5, failed_calls: 0, tokens_in: 9000, tokens_out: 3000, cost_usd: "0" },
+  ];
+
+  it("rolls spend up by role, purpose, model and deal with budget utilization", () => {
+    const report = buildChargebackReport(rows, {
+      bankId: "bank-1",
+      bankName: "First Example Bank",
+      month: "2026-10",
+      budget: { monthlySoftLimitUsd: 0.5, monthlyHardLimitUsd: 2 },
+    });
+
+    assert.equal(report.totals.calls, 48);
+    assert.equal(report.totals.failedCalls, 2);
+    assert.equal(report.totals.costUsd, 0.92);
+    assert.equal(report.budgetState, "soft_exceeded");
+    assert.equal(report.utilization, 0.46);
+
+    assert.deepEqual(report.byRole.map((l) => [l.key, l.costUsd]), [["generator", 0.48], ["structurer", 0.44]]);
+    assert.deepEqual(
+      report.byPurpose.map((l) => [l.key, l.tier]),
+      [["sba_package_narrative", "deferrable"], ["doc_extraction", "essential"], ["omega_advisory", "deferrable"]],
+    );
+    assert.equal(report.byModel.find((l) => l.key === "qwen2.5-32b-instruct")?.provider, "local");
+    assert.deepEqual(report.byDeal.map((l) => l.key), ["deal-a", "(none)"]);
+  });
+
+  it("reports an empty month without a budget", () => {
+    const report = buildChargebackReport([], { bankId: "bank-1", month: "2026-09" });
+    assert.equal(report.totals.costUsd, 0);
+    assert.equal(report.utilization, null);
+    assert.equal(report.budgetState, "ok");
+  });
+
+  it("exports one CSV line per dimension and key", () => {
+    const csv = chargebackCsv(buildChargebackReport(rows, { bankId: "bank-1", month: "2026-10" }));
+    const lines = csv.trim().split("\n");
+    assert.equal(lines[0], "bank_id,month,dimension,key,calls,failed_calls,tokens_in,tokens_out,cost_usd");
+    assert.equal(lines[1], "bank-1,2026-10,total,total,48,2,469000,113000,0.920000");
+    assert.equal(lines.length, 1 + 1 + 2 + 3 + 3 + 2);
+  });
+});
@@ -11,7 +11,7 @@ import { resolve } from "node:path";
 
 import { VENDOR_NPI_APPROVAL } from "../vendorApproval";
 
-const PROVIDERS = ["google", "anthropic", "openai"] as const;
+const PROVIDERS = ["google", "anthropic", "openai", "local"] as const;
 
 function readDocStatus(provider: string): string {
   const path = resolve(process.cwd(), `docs/vendors/${provider}.md`);
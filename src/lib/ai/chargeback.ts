@@ -0,0 +1,122 @@
+/**
+ * Monthly AI chargeback report for one bank — pure.
+ *
+ * Input is the bank's v_ai_usage_monthly rows for a month (one row per
+ * deal × role × purpose × provider × model). Output is the same spend
+ * rolled up four ways — by role, purpose, model and deal — plus the
+ * month's budget utilization, so finance can charge the bank and the bank
+ * can see which workflows drove it. Bank-level calls with no deal roll up
+ * under deal "(none)".
+ */
+
+import { bankBudgetState, purposeTier, type BankBudget, type BankBudgetState, type PurposeTier } from "./usageBudget";
+
+export type AiUsageRow = {
+  deal_id: string | null;
+  role: string;
+  purpose: string;
+  provider: string;
+  model: string;
+  calls: number | string;
+  failed_calls: number | string;
+  tokens_in: number | string;
+  tokens_out: number | string;
+  cost_usd: number | string;
+};
+
+export type ChargebackLine = {
+  key: string;
+  calls: number;
+  failedCalls: number;
+  tokensIn: number;
+  tokensOut: number;
+  costUsd: number;
+};
+
+export type ChargebackReport = {
+  bankId: string;
+  bankName: string | null;
+  month: string;
+  totals: Omit<ChargebackLine, "key">;
+  budget: BankBudget | null;
+  budgetState: BankBudgetState;
+  /** Spend as a fraction of the hard limit (soft when no hard limit); null without a budget. */
+  utilization: number | null;
+  byRole: ChargebackLine[];
+  byPurpose: Array<ChargebackLine & { tier: PurposeTier }>;
+  byModel: Array<ChargebackLine & { provider: string }>;
+  byDeal: ChargebackLine[];
+};
+
+const NO_DEAL = "(none)";
+
+function round6(n: number): number {
+  return Math.round(n * 1_000_000) / 1_000_000;
+}
+
+function rollUp(rows: AiUsageRow[], keyOf: (r: AiUsageRow) => string): ChargebackLine[] {
+  const lines = new Map<string, ChargebackLine>();
+  for (const r of rows) {
+    const key = keyOf(r);
+    const line = lines.get(key) ?? { key, calls: 0, failedCalls: 0, tokensIn: 0, tokensOut: 0, costUsd: 0 };
+    line.calls += Number(r.calls ?? 0);
+    line.failedCalls += Number(r.failed_calls ?? 0);
+    line.tokensIn += Number(r.tokens_in ?? 0);
+    line.tokensOut += Number(r.tokens_out ?? 0);
+    line.costUsd += Number(r.cost_usd ?? 0);
+    lines.set(key, line);
+  }
+  return [...lines.values()]
+    .map((l) => ({ ...l, costUsd: round6(l.costUsd) }))
+    .sort((a, b) => b.costUsd - a.costUsd || a.key.localeCompare(b.key));
+}
+
+export function buildChargebackReport(
+  rows: AiUsageRow[],
+  args: { bankId: string; bankName?: string | null; month: string; budget?: BankBudget | null },
+): ChargebackReport {
+  const [all] = rollUp(rows, () => "total");
+  const totals = all
+    ? { calls: all.calls, failedCalls: all.failedCalls, tokensIn: all.tokensIn, tokensOut: all.tokensOut, costUsd: all.costUsd }
+    : { calls: 0, failedCalls: 0, tokensIn: 0, tokensOut: 0, costUsd: 0 };
+
+  const budget = args.budget ?? null;
+  const limit = budget?.monthlyHardLimitUsd ?? budget?.monthlySoftLimitUsd ?? null;
+
+  const providerOf = new Map(rows.map((r) => [r.model, r.provider]));
+
+  return {
+    bankId: args.bankId,
+    bankName: args.bankName ?? null,
+    month: args.month,
+    totals,
+    budget,
+    budgetState: bankBudgetState(totals.costUsd, budget),
+    utilization: limit && limit > 0 ? Math.round((totals.costUsd / limit) * 1000) / 1000 : null,
+    byRole: rollUp(rows, (r) => r.role),
+    byPurpose: rollUp(rows, (r) => r.purpose).map((l) => ({ ...l, tier: purposeTier(l.key) })),
+    byModel: rollUp(rows, (r) => r.model).map((l) => ({ ...l, provider: providerOf.get(l.key) ?? "" })),
+    byDeal: rollUp(rows, (r) => r.deal_id ?? NO_DEAL),
+  };
+}
+
+function csvCell(v: string | number): string {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One row per (dimension, key) — the file finance imports for the invoice line. */
+export function chargebackCsv(report: ChargebackReport): string {
+  const header = ["bank_id", "month", "dimension", "key", "calls", "failed_calls", "tokens_in", "tokens_out", "cost_usd"];
+  const lines: Array<Array<string | number>> = [];
+  const push = (dimension: string, l: ChargebackLine) =>
+    lines.push([report.bankId, report.month, dimension, l.key, l.calls, l.failedCalls, l.tokensIn, l.tokensOut, l.costUsd.toFixed(6)]);
+
+  push("total", { key: "total", ...report.totals });
+  report.byRole.forEach((l) => push("role", l));
+  report.byPurpose.forEach((l) => push("purpose", l));
+  report.byModel.forEach((l) => push("model", l));
+  report.byDeal.forEach((l) => push("deal", l));
+
+  return [header, ...lines].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
@@ -12,6 +12,10 @@ import "server-only";
  *     network call.
  *   - Per-role daily token budget is a hard stop, not just a dashboard
  *     metric — checked before every chain step.
+ *   - Per-bank monthly budget (usageBudget.ts / usageMeter.ts): once a
+ *     bank is over its hard limit, deferrable purposes (narratives,
+ *     coaching) may only run on zero-cost chain steps; essential purposes
+ *     (extraction, classification, verification) are never degraded.
  *   - Every attempt (success or failure) is ledgered, including refused
  *     attempts, so the ledger is a complete SR 11-7 audit trail.
  *
@@ -19,17 +23,36 @@ import "server-only";
  * only tries the chain's first step — see providers/google.ts's doc
  * comment on why mid-stream failover isn't attempted. Non-Google streaming
  * providers are out of scope for this spec.
+ *
+ * Record/replay (providers/replay.ts): with AI_GATEWAY_CASSETTES=record
+ * every successful provider call is also written to a cassette file; with
+ * =replay calls are answered from cassettes only, never the network. Replays
+ * are not ledgered and don't count against the daily budget — nothing was
+ * sent to a provider. runRoleStream refuses to run in replay mode rather
+ * than quietly reaching the network.
  */
 
 import { getRoleConfig, type GatewayProvider, type GatewayRole } from "./roleConfig";
 import { VENDOR_NPI_APPROVAL } from "./vendorApproval";
 import { logGatewayCall as realLogGatewayCall, type LedgerEntry } from "./ledger";
+import { estimateCostUsd, providerModelPrice } from "./pricing";
+import { mustDegrade, type BankBudgetState } from "./usageBudget";
+import { usageMeter as realUsageMeter, type UsageMeter } from "./usageMeter";
 import { callGoogle, streamGoogle } from "./providers/google";
 import { callAnthropic } from "./providers/anthropic";
 import { callOpenAI } from "./providers/openai";
+import { callLocal } from "./providers/local";
+import { callWithCassette, getCassetteConfig } from "./providers/replay";
 import type { ProviderCallRequest, ProviderCallResult } from "./providers/types";
 
 export type { GatewayProvider, GatewayRole } from "./roleConfig";
+export {
+  CassetteMissError,
+  DEFAULT_CASSETTE_DIR,
+  setCassetteConfig,
+  type CassetteConfig,
+  type CassetteMode,
+} from "./providers/replay";
 
 export type RunRoleRequest = {
   prompt: string;
@@ -40,6 +63,11 @@ export type RunRoleRequest = {
   /** Ledger `purpose` column — short, stable label, e.g. "naics_suggest". */
   purpose: string;
   dealId?: string | null;
+  /**
+   * Bank the call is metered and charged to. Derived from dealId when
+   * omitted; pass it explicitly for bank-level work with no deal.
+   */
+  bankId?: string | null;
   /** True if the payload contains borrower/customer NPI — gates provider eligibility. */
   npiTagged?: boolean;
   /**
@@ -111,6 +139,8 @@ export type RunRoleResult = {
   attempts: number;
   /** SPEC-GATEWAY-CAPABILITY-EXPANSION-1 §3 — present only when useSearchGrounding was honored. */
   groundingMetadata?: unknown;
+  /** Present (true) only when the answer came from a cassette (providers/replay.ts). */
+  replayed?: true;
 };
 
 // Test-only seams. Production code always goes through the real provider
@@ -126,8 +156,10 @@ const providerImpl: Record<
   google: callGoogle,
   anthropic: callAnthropic,
   openai: callOpenAI,
+  local: callLocal,
 };
 let logCallImpl: (entry: LedgerEntry) => Promise<void> = realLogGatewayCall;
+let usageMeterImpl: UsageMeter = realUsageMeter;
 
 /** Test-only: replace one provider's implementation (e.g. to simulate a 500). */
 export function __setProviderImplForTests(
@@ -142,19 +174,26 @@ export function __setLogGatewayCallForTests(impl: (entry: LedgerEntry) => Promis
   logCallImpl = impl;
 }
 
-/** Test-only: restore real provider implementations and the real ledger writer. */
+/** Test-only: replace bank attribution / budget lookups (no Supabase in unit tests). */
+export function __setUsageMeterForTests(impl: UsageMeter): void {
+  usageMeterImpl = impl;
+}
+
+/** Test-only: restore real provider implementations, ledger writer and usage meter. */
 export function __resetGatewayTestOverrides(): void {
   providerImpl.google = callGoogle;
   providerImpl.anthropic = callAnthropic;
   providerImpl.openai = callOpenAI;
+  providerImpl.local = callLocal;
   logCallImpl = realLogGatewayCall;
+  usageMeterImpl = realUsageMeter;
 }
 
 async function callProvider(
   provider: GatewayProvider,
   req: ProviderCallRequest,
-): Promise<ProviderCallResult> {
-  return providerImpl[provider](req);
+): Promise<ProviderCallResult & { replayed: boolean }> {
+  return callWithCassette(provider, req, providerImpl[provider]);
 }
 
 // Process-local daily token counters backing each role's budget hard-stop.
@@ -187,6 +226,29 @@ export function __resetGatewayBudgetForTests(): void {
   budgetUsage.clear();
 }
 
+/**
+ * Self-hosted or explicitly free models — what a bank over its hard limit
+ * can still use. A hosted model missing from pricing.ts counts as paid.
+ */
+function isZeroCostModel(provider: GatewayProvider, model: string): boolean {
+  const price = providerModelPrice(provider, model);
+  return !price || (price.input === 0 && price.output === 0);
+}
+
+async function resolveBankBudget(
+  request: RunRoleRequest,
+  dealId: string | null,
+): Promise<{ bankId: string | null; state: BankBudgetState }> {
+  const bankId = request.bankId ?? (dealId ? await usageMeterImpl.resolveBankId(dealId) : null);
+  return { bankId, state: bankId ? await usageMeterImpl.budgetState(bankId) : "ok" };
+}
+
+function bankBudgetRefusalError(purpose: string, model: string): Error {
+  return new Error(
+    `bank AI budget hard limit reached: purpose "${purpose}" is deferrable and model "${model}" is not zero-cost`,
+  );
+}
+
 function npiRefusalError(provider: GatewayProvider): Error {
   return new Error(
     `NPI-tagged request refused: provider "${provider}" is not APPROVED in docs/vendors/${provider}.md`,
@@ -200,6 +262,12 @@ export async function runRole(
   const config = getRoleConfig(role);
   const npiTagged = request.npiTagged ?? false;
   const dealId = request.dealId ?? null;
+  const replaying = getCassetteConfig().mode === "replay";
+  const { bankId, state: bankState } = replaying
+    ? { bankId: request.bankId ?? null, state: "ok" as const }
+    : await resolveBankBudget(request, dealId);
+  const degraded = mustDegrade(bankState, request.purpose);
+  const log = (entry: LedgerEntry) => (replaying ? Promise.resolve() : logCallImpl({ ...entry, bankId }));
 
   let lastError: Error | null = null;
   let attempts = 0;
@@ -233,9 +301,32 @@ export async function runRole(
 
     attempts++;
 
+    const model =
+      request.modelOverride !== undefined && step.provider === primaryProvider
+        ? request.modelOverride
+        : step.model;
+
+    if (degraded && !isZeroCostModel(step.provider, model)) {
+      lastError = bankBudgetRefusalError(request.purpose, model);
+      await log({
+        role,
+        provider: step.provider,
+        model,
+        tokensIn: 0,
+        tokensOut: 0,
+        latencyMs: 0,
+        dealId,
+        purpose: request.purpose,
+        npiTagged,
+        outcome: "failure",
+        errorMessage: lastError.message,
+      });
+      continue; // a later chain step may be a zero-cost (local) model
+    }
+
     if (npiTagged && VENDOR_NPI_APPROVAL[step.provider] !== "APPROVED") {
       lastError = npiRefusalError(step.provider);
-      await logCallImpl({
+      await log({
         role,
         provider: step.provider,
         model: step.model,
@@ -252,7 +343,7 @@ export async function runRole(
     }
 
     const budgetUsed = getBudgetUsed(role);
-    if (budgetUsed >= config.dailyTokenBudget) {
+    if (!replaying && budgetUsed >= config.dailyTokenBudget) {
       lastError = new Error(
         `daily token budget exceeded for role "${role}" (${budgetUsed}/${config.dailyTokenBudget})`,
       );
@@ -262,10 +353,6 @@ export async function runRole(
     }
 
     const start = Date.now();
-    const model =
-      request.modelOverride !== undefined && step.provider === primaryProvider
-        ? request.modelOverride
-        : step.model;
     try {
       const result = await callProvider(step.provider, {
         model,
@@ -282,8 +369,12 @@ export async function runRole(
         mediaResolution: request.mediaResolution,
       });
       const latencyMs = Date.now() - start;
-      recordBudgetUsage(role, result.tokensIn + result.tokensOut);
-      await logCallImpl({
+      const costUsd = estimateCostUsd(model, result.tokensIn, result.tokensOut, step.provider);
+      if (!result.replayed) {
+        recordBudgetUsage(role, result.tokensIn + result.tokensOut);
+        if (bankId) usageMeterImpl.recordSpend(bankId, costUsd);
+      }
+      await log({
         role,
         provider: step.provider,
         model,
@@ -294,6 +385,7 @@ export async function runRole(
         purpose: request.purpose,
         npiTagged,
         outcome: "success",
+        costUsd,
       });
       return {
         text: result.text,
@@ -306,11 +398,12 @@ export async function runRole(
         ...(result.groundingMetadata !== undefined
           ? { groundingMetadata: result.groundingMetadata }
           : {}),
+        ...(result.replayed ? { replayed: true as const } : {}),
       };
     } catch (e) {
       const latencyMs = Date.now() - start;
       lastError = e instanceof Error ? e : new Error(String(e));
-      await logCallImpl({
+      await log({
         role,
         provider: step.provider,
         model,
@@ -343,10 +436,30 @@ export async function* runRoleStream(
   const step = config.chain[0];
   const npiTagged = request.npiTagged ?? false;
   const dealId = request.dealId ?? null;
+  const { bankId, state: bankState } = await resolveBankBudget(request, dealId);
+  const log = (entry: LedgerEntry) => logCallImpl({ ...entry, bankId });
+
+  if (mustDegrade(bankState, request.purpose) && !isZeroCostModel(step.provider, request.modelOverride ?? step.model)) {
+    const err = bankBudgetRefusalError(request.purpose, request.modelOverride ?? step.model);
+    await log({
+      role,
+      provider: step.provider,
+      model: request.modelOverride ?? step.model,
+      tokensIn: 0,
+      tokensOut: 0,
+      latencyMs: 0,
+      dealId,
+      purpose: request.purpose,
+      npiTagged,
+      outcome: "failure",
+      errorMessage: err.message,
+    });
+    throw err;
+  }
 
   if (npiTagged && VENDOR_NPI_APPROVAL[step.provider] !== "APPROVED") {
     const err = npiRefusalError(step.provider);
-    await logCallImpl({
+    await log({
       role,
       provider: step.provider,
       model: step.model,
@@ -362,6 +475,10 @@ export async function* runRoleStream(
     throw err;
   }
 
+  if (getCassetteConfig().mode === "replay") {
+    throw new Error("runRoleStream: streaming calls are not recorded — unavailable with AI_GATEWAY_CASSETTES=replay");
+  }
+
   if (step.provider !== "google") {
     throw new Error(
       `runRoleStream: streaming is not implemented for provider "${step.provider}" in SPEC-M1 (google only)`,
@@ -395,7 +512,7 @@ export async function* runRoleStream(
     // non-streaming endpoint does — token accounting for streamed calls is
     // a known gap, tracked for M5 (which owns the interviewer UX) rather
     // than guessed at here via a length heuristic.
-    await logCallImpl({
+    await log({
       role,
       provider: step.provider,
       model,
@@ -410,7 +527,7 @@ export async function* runRoleStream(
   } catch (e) {
     const latencyMs = Date.now() - start;
     const err = e instanceof Error ? e : new Error(String(e));
-    await logCallImpl({
+    await log({
       role,
       provider: step.provider,
       model,
@@ -4,7 +4,8 @@ import "server-only";
  * AI gateway call ledger (SPEC-M1 AI-GATEWAY-1). Every runRole()/
  * runRoleStream() attempt — success or failure — writes one row to
  * ai_gateway_calls. This is both the SR 11-7 model-inventory audit trail
- * and the cost meter behind roleConfig's daily token budgets.
+ * and the cost meter behind roleConfig's daily token budgets and the
+ * per-bank monthly budgets / chargeback (usageMeter.ts, chargeback.ts).
  *
  * Never throws: a ledger write failure must not take down the caller's
  * actual AI request (same never-throw-envelope philosophy as
@@ -13,6 +14,7 @@ import "server-only";
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { estimateCostUsd } from "./pricing";
 import type { GatewayProvider, GatewayRole } from "./roleConfig";
 
 export type LedgerOutcome = "success" | "failure";
@@ -34,6 +36,10 @@ export type LedgerEntry = {
   tokensOut: number;
   latencyMs: number;
   dealId: string | null;
+  /** Bank the call is charged to. Null when neither given nor derivable from dealId. */
+  bankId?: string | null;
+  /** Defaults to the pricing-table estimate for model × tokens. */
+  costUsd?: number;
   purpose: string;
   npiTagged: boolean;
   outcome: LedgerOutcome;
@@ -57,6 +63,8 @@ export async function logGatewayCall(
       tokens_out: entry.tokensOut,
       latency_ms: entry.latencyMs,
       deal_id: entry.dealId,
+      bank_id: entry.bankId ?? null,
+      cost_usd: entry.costUsd ?? estimateCostUsd(entry.model, entry.tokensIn, entry.tokensOut, entry.provider),
       purpose: entry.purpose,
       npi_tagged: entry.npiTagged,
       outcome: entry.outcome,
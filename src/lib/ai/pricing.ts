@@ -0,0 +1,81 @@
+/**
+ * Per-model token pricing for AI usage metering and bank chargeback
+ * (ai_gateway_calls.cost_usd). USD per 1M tokens, provider list prices when
+ * the model was adopted — the point is consistent attribution across banks,
+ * not invoice reconciliation.
+ *
+ * AI_GATEWAY_PRICING_JSON overrides or extends the table without a deploy,
+ * e.g. {"gpt-4o-mini":{"input":0.15,"output":0.6},"qwen2.5-32b":{"input":0.05,"output":0.05}}
+ * — the way to charge a self-hosted ("local") model's GPU cost back to the
+ * bank. An unpriced local model meters at $0; an unpriced hosted model (a
+ * new model ID set through AI_GATEWAY_CHAIN_<ROLE> or modelOverride) meters
+ * at UNPRICED_MODEL_PRICE rather than for free.
+ */
+
+import {
+  ANTHROPIC_VERIFIER,
+  GEMINI_FLASH,
+  GEMINI_FLASH_PRECISION,
+  GEMINI_PRO,
+  OPENAI_CHAT,
+  OPENAI_EMBEDDINGS,
+  OPENAI_MINI,
+  OPENAI_REASONING,
+} from "./models";
+
+export type ModelPrice = { input: number; output: number };
+
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  [GEMINI_FLASH]: { input: 0.25, output: 1.5 },
+  [GEMINI_FLASH_PRECISION]: { input: 0.5, output: 3.0 },
+  [GEMINI_PRO]: { input: 2.0, output: 12.0 },
+  [OPENAI_CHAT]: { input: 2.5, output: 10.0 },
+  [OPENAI_MINI]: { input: 0.15, output: 0.6 },
+  [OPENAI_REASONING]: { input: 15.0, output: 60.0 },
+  [OPENAI_EMBEDDINGS]: { input: 0.02, output: 0 },
+  [ANTHROPIC_VERIFIER]: { input: 3.0, output: 15.0 },
+};
+
+function pricingOverrides(): Record<string, ModelPrice> {
+  const raw = process.env.AI_GATEWAY_PRICING_JSON;
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    const out: Record<string, ModelPrice> = {};
+    for (const [model, p] of Object.entries(parsed)) {
+      const input = Number(p?.input);
+      const output = Number(p?.output);
+      if (Number.isFinite(input) && Number.isFinite(output)) out[model] = { input, output };
+    }
+    return out;
+  } catch {
+    console.warn("[ai-gateway:pricing] AI_GATEWAY_PRICING_JSON is not valid JSON — ignoring override");
+    return {};
+  }
+}
+
+/** Conservative rate for a hosted model missing from the table — the most expensive listed model. */
+export const UNPRICED_MODEL_PRICE: ModelPrice = { input: 15.0, output: 60.0 };
+
+export function modelPrice(model: string): ModelPrice | null {
+  return pricingOverrides()[model] ?? DEFAULT_PRICING[model] ?? null;
+}
+
+/**
+ * Price of a call on a provider's model: the table price, else $0 for a
+ * local model and UNPRICED_MODEL_PRICE for any hosted one.
+ */
+export function providerModelPrice(provider: string, model: string): ModelPrice | null {
+  return modelPrice(model) ?? (provider === "local" ? null : UNPRICED_MODEL_PRICE);
+}
+
+/**
+ * USD for one call, rounded to the ledger column's 6 decimals. Without a
+ * provider only the table is consulted and an unpriced model is $0.
+ */
+export function estimateCostUsd(model: string, tokensIn: number, tokensOut: number, provider?: string): number {
+  const price = provider === undefined ? modelPrice(model) : providerModelPrice(provider, model);
+  if (!price) return 0;
+  const usd = (tokensIn * price.input + tokensOut * price.output) / 1_000_000;
+  return Math.round(usd * 1_000_000) / 1_000_000;
+}
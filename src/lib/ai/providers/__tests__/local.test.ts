@@ -0,0 +1,86 @@
+/**
+ * providers/local.ts — self-hosted OpenAI-compatible adapter.
+ */
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { mockServerOnly } from "../../../../../test/utils/mockServerOnly";
+
+mockServerOnly();
+const require = createRequire(import.meta.url);
+const { callLocal, localChatCompletionsUrl } = require("../local") as typeof import("../local");
+
+type CapturedCall = { url: string; init: any };
+
+function installFetch(body: Record<string, unknown>): { restore: () => void; calls: CapturedCall[] } {
+  const calls: CapturedCall[] = [];
+  const original = globalThis.fetch;
+  globalThis.fetch = (async (input: any, init?: any) => {
+    calls.push({ url: String(input), init });
+    return new Response(JSON.stringify(body), { status: 200, headers: { "content-type": "application/json" } });
+  }) as typeof fetch;
+  return { restore: () => { globalThis.fetch = original; }, calls };
+}
+
+const COMPLETION = {
+  choices: [{ message: { content: '{"ok":true}' }, finish_reason: "stop" }],
+  usage: { prompt_tokens: 12, completion_tokens: 4 },
+};
+
+afterEach(() => {
+  delete process.env.LOCAL_LLM_BASE_URL;
+  delete process.env.LOCAL_LLM_API_KEY;
+});
+
+describe("callLocal", () => {
+  it("throws when LOCAL_LLM_BASE_URL is not configured", async () => {
+    await assert.rejects(() => callLocal({ model: "m", prompt: "hi", timeoutMs: 1000 }), /LOCAL_LLM_BASE_URL missing/);
+  });
+
+  it("posts an OpenAI-style chat completion to the configured base URL, json_schema included", async () => {
+    process.env.LOCAL_LLM_BASE_URL = "http://llm.internal:8000/v1/";
+    const { restore, calls } = installFetch(COMPLETION);
+    try {
+      const result = await callLocal({
+        model: "llama3.1:70b-instruct",
+        prompt: "extract",
+        systemInstruction: "be exact",
+        timeoutMs: 1000,
+        responseSchema: { type: "object" },
+      });
+      assert.deepEqual(result, { text: '{"ok":true}', tokensIn: 12, tokensOut: 4 });
+      assert.equal(calls[0].url, "http://llm.internal:8000/v1/chat/completions");
+      assert.equal(calls[0].init.headers.Authorization, undefined);
+      const body = JSON.parse(calls[0].init.body);
+      assert.equal(body.model, "llama3.1:70b-instruct");
+      assert.deepEqual(body.messages.map((m: any) => m.role), ["system", "user"]);
+      assert.equal(body.response_format.type, "json_schema");
+    } finally {
+      restore();
+    }
+  });
+
+  it("sends the optional bearer token", async () => {
+    process.env.LOCAL_LLM_BASE_URL = "http://llm.internal:8000/v1";
+    process.env.LOCAL_LLM_API_KEY = "in-network-token";
+    const { restore, calls } = installFetch(COMPLETION);
+    try {
+      await callLocal({ model: "m", prompt: "hi", timeoutMs: 1000 });
+      assert.equal(calls[0].init.headers.Authorization, "Bearer in-network-token");
+    } finally {
+      restore();
+    }
+  });
+
+  it("throws rather than silently dropping inlineData", async () => {
+    process.env.LOCAL_LLM_BASE_URL = "http://llm.internal:8000/v1";
+    await assert.rejects(
+      () => callLocal({ model: "m", prompt: "hi", timeoutMs: 1000, inlineData: [{ mimeType: "image/png", data: "x" }] }),
+      /inlineData is not supported/,
+    );
+  });
+
+  it("normalizes trailing slashes on the base URL", () => {
+    assert.equal(localChatCompletionsUrl("http://h/v1///"), "http://h/v1/chat/completions");
+  });
+});
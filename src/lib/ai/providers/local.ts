@@ -0,0 +1,40 @@
+import "server-only";
+
+/**
+ * Self-hosted, OpenAI-compatible provider adapter for the AI gateway. Lets a
+ * bank point a role (typically `structurer` or `generator`) at a model it
+ * runs inside its own network — vLLM, llama.cpp server, Ollama, LM Studio,
+ * TGI and friends all expose `/v1/chat/completions`.
+ *
+ * Routing is the usual roleConfig.ts override, e.g.
+ *   AI_GATEWAY_CHAIN_STRUCTURER=local:qwen2.5-32b-instruct,openai:gpt-4o-mini
+ *
+ * Env:
+ *   LOCAL_LLM_BASE_URL  server base URL including the /v1 prefix
+ *                       (e.g. http://llm.internal:8000/v1)
+ *   LOCAL_LLM_API_KEY   optional bearer token, for servers that require one
+ *
+ * Structured output is sent as the same json_schema response_format as
+ * providers/openai.ts; servers without schema-constrained decoding should
+ * not be put on the `structurer` chain.
+ */
+
+import { callChatCompletions } from "./openai";
+import type { ProviderCallRequest, ProviderCallResult } from "./types";
+
+export function localChatCompletionsUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+}
+
+export async function callLocal(req: ProviderCallRequest): Promise<ProviderCallResult> {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseUrl) throw new Error("LOCAL_LLM_BASE_URL missing");
+
+  // Same §2 contract as the hosted adapters: never silently drop a
+  // caller's image/PDF.
+  if (req.inlineData?.length) {
+    throw new Error("callLocal: inlineData is not supported by this provider adapter");
+  }
+
+  return callChatCompletions(localChatCompletionsUrl(baseUrl), process.env.LOCAL_LLM_API_KEY || null, req);
+}
@@ -28,6 +28,19 @@ export async function callOpenAI(req: ProviderCallRequest): Promise<ProviderCall
     throw new Error("callOpenAI: inlineData is not supported by this provider adapter");
   }
 
+  return callChatCompletions("https://api.openai.com/v1/chat/completions", apiKey, req);
+}
+
+/**
+ * Chat Completions request/response handling shared with providers/local.ts
+ * (self-hosted OpenAI-compatible servers speak the same wire format).
+ * gateway.ts never calls this directly — only callOpenAI / callLocal.
+ */
+export async function callChatCompletions(
+  url: string,
+  apiKey: string | null,
+  req: ProviderCallRequest,
+): Promise<ProviderCallResult> {
   const messages: Array<{ role: string; content: string }> = [];
   if (req.systemInstruction) {
     messages.push({ role: "system", content: req.systemInstruction });
@@ -58,11 +71,11 @@ export async function callOpenAI(req: ProviderCallRequest): Promise<ProviderCall
 
   let res: Response;
   try {
-    res = await fetch("https://api.openai.com/v1/chat/completions", {
+    res = await fetch(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
       },
       body: JSON.stringify(body),
       signal: controller.signal,
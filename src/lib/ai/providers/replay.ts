@@ -0,0 +1,151 @@
+import "server-only";
+
+/**
+ * Record/replay layer for AI gateway provider calls ("cassettes").
+ *
+ *   record  every successful provider call is written to
+ *           <dir>/<key>.json, then returned as normal
+ *   replay  calls are answered from <dir>/<key>.json only — no network;
+ *           a missing cassette throws CassetteMissError, which the gateway
+ *           treats like any other provider failure (so a recorded
+ *           failover replays the same way)
+ *   off     pass-through (production default)
+ *
+ * The key is a SHA-256 over the provider, model and everything that shapes
+ * the completion (prompt, system instruction, schema, inline data,
+ * sampling knobs) — not timeouts or auth mode. Any prompt change is a
+ * cassette miss, which is the point: a replayed eval run fails loudly
+ * instead of scoring a stale answer.
+ *
+ * Env: AI_GATEWAY_CASSETTES=record|replay, AI_GATEWAY_CASSETTE_DIR
+ * (default src/evals/cassettes). setCassetteConfig() overrides both
+ * in-process (src/evals/runner.ts, tests).
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ProviderCallRequest, ProviderCallResult } from "./types";
+
+export type CassetteMode = "off" | "record" | "replay";
+export type CassetteConfig = { mode: CassetteMode; dir: string };
+
+export const DEFAULT_CASSETTE_DIR = "src/evals/cassettes";
+
+export type Cassette = {
+  version: 1;
+  key: string;
+  provider: string;
+  model: string;
+  promptSha256: string;
+  /** First 200 characters of the prompt, so a reviewer can tell cassettes apart. */
+  promptPreview: string;
+  recordedAt: string;
+  result: ProviderCallResult;
+};
+
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly provider: string,
+    public readonly model: string,
+  ) {
+    super(`no cassette for ${provider}:${model} (key ${key.slice(0, 12)}…) — re-record with AI_GATEWAY_CASSETTES=record`);
+    this.name = "CassetteMissError";
+  }
+}
+
+let override: CassetteConfig | null = null;
+
+/** In-process override of the env config; pass null to go back to env. */
+export function setCassetteConfig(config: CassetteConfig | null): void {
+  override = config;
+}
+
+export function getCassetteConfig(): CassetteConfig {
+  if (override) return override;
+  const raw = process.env.AI_GATEWAY_CASSETTES;
+  const mode: CassetteMode = raw === "record" || raw === "replay" ? raw : "off";
+  return { mode, dir: process.env.AI_GATEWAY_CASSETTE_DIR || DEFAULT_CASSETTE_DIR };
+}
+
+function sha256(s: string): string {
+  return createHash("sha256").update(s).digest("hex");
+}
+
+/** Deterministic JSON: object keys sorted, so schema key order can't change the key. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function cassetteKey(provider: string, req: ProviderCallRequest): string {
+  return sha256(
+    canonicalJson({
+      provider,
+      model: req.model,
+      prompt: req.prompt,
+      systemInstruction: req.systemInstruction,
+      responseSchema: req.responseSchema,
+      maxOutputTokens: req.maxOutputTokens,
+      temperature: req.temperature,
+      thinkingLevel: req.thinkingLevel,
+      mediaResolution: req.mediaResolution,
+      useSearchGrounding: req.useSearchGrounding,
+      inlineData: req.inlineData?.map((d) => ({ mimeType: d.mimeType, sha256: sha256(d.data) })),
+    }),
+  );
+}
+
+function cassettePath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+/**
+ * Run one provider call through the active cassette mode. `replayed` is
+ * true when the result came from disk, so the gateway can keep replays out
+ * of the ledger and the daily token budget.
+ */
+export async function callWithCassette(
+  provider: string,
+  req: ProviderCallRequest,
+  impl: (req: ProviderCallRequest) => Promise<ProviderCallResult>,
+  config: CassetteConfig = getCassetteConfig(),
+): Promise<ProviderCallResult & { replayed: boolean }> {
+  if (config.mode === "off") return { ...(await impl(req)), replayed: false };
+
+  const key = cassetteKey(provider, req);
+  const file = cassettePath(config.dir, key);
+
+  if (config.mode === "replay") {
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf8");
+    } catch {
+      throw new CassetteMissError(key, provider, req.model);
+    }
+    const cassette = JSON.parse(raw) as Cassette;
+    return { ...cassette.result, replayed: true };
+  }
+
+  const result = await impl(req);
+  const cassette: Cassette = {
+    version: 1,
+    key,
+    provider,
+    model: req.model,
+    promptSha256: sha256(req.prompt),
+    promptPreview: req.prompt.slice(0, 200),
+    recordedAt: new Date().toISOString(),
+    result,
+  };
+  await mkdir(config.dir, { recursive: true });
+  await writeFile(file, `${JSON.stringify(cassette, null, 2)}\n`, "utf8");
+  return { ...result, replayed: false };
+}
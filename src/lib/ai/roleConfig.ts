@@ -22,12 +22,18 @@
  * AI_GATEWAY_CHAIN_<ROLE> ("provider:model,provider:model") and
  * AI_GATEWAY_BUDGET_<ROLE> (integer tokens/day) env vars, so a vendor
  * incident or cost issue is a config change, not a deploy.
+ *
+ * Provider "local" is a self-hosted OpenAI-compatible server inside the
+ * bank's own network (providers/local.ts). It has no default chain — a
+ * deployment opts a role into it via the chain override, e.g.
+ * AI_GATEWAY_CHAIN_STRUCTURER=local:llama3.1:70b-instruct. Only the first
+ * ":" separates provider from model, since local model tags carry their own.
  */
 
 import { GEMINI_FLASH, OPENAI_CHAT, ANTHROPIC_VERIFIER } from "./models";
 
 export type GatewayRole = "generator" | "verifier" | "structurer" | "interviewer" | "translator";
-export type GatewayProvider = "google" | "anthropic" | "openai";
+export type GatewayProvider = "google" | "anthropic" | "openai" | "local";
 
 export type RoleStep = {
   provider: GatewayProvider;
@@ -70,7 +76,7 @@ const DEFAULT_BUDGETS: Record<GatewayRole, number> = {
 };
 
 function isGatewayProvider(v: string): v is GatewayProvider {
-  return v === "google" || v === "anthropic" || v === "openai";
+  return v === "google" || v === "anthropic" || v === "openai" || v === "local";
 }
 
 function chainFromEnv(role: GatewayRole): RoleStep[] | null {
@@ -79,7 +85,9 @@ function chainFromEnv(role: GatewayRole): RoleStep[] | null {
 
   const steps: RoleStep[] = [];
   for (const segment of raw.split(",")) {
-    const [provider, model] = segment.split(":").map((s) => s.trim());
+    const sep = segment.indexOf(":");
+    const provider = sep >= 0 ? segment.slice(0, sep).trim() : segment.trim();
+    const model = sep >= 0 ? segment.slice(sep + 1).trim() : "";
     if (!provider || !model || !isGatewayProvider(provider)) {
       console.warn(
         `[ai-gateway:roleConfig] malformed AI_GATEWAY_CHAIN_${role.toUpperCase()} segment "${segment}" — ignoring override, using default chain`,
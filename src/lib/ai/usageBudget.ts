@@ -0,0 +1,77 @@
+/**
+ * Per-bank AI budget policy — pure.
+ *
+ * Each bank may set a monthly soft and hard limit in USD (bank_ai_budgets).
+ * Month-to-date spend is the sum of ai_gateway_calls.cost_usd attributed to
+ * the bank (see usageMeter.ts).
+ *
+ *   under soft        everything runs
+ *   soft exceeded     everything runs; the bank is notified once a month
+ *   hard exceeded     deferrable purposes (narratives, coaching, advisory
+ *                     prose) degrade to zero-cost chain steps — a
+ *                     self-hosted "local" model — or are refused;
+ *                     essential purposes (extraction, classification,
+ *                     OCR, verification) keep running
+ *
+ * Purposes are the stable `purpose` labels callers already pass to runRole.
+ * Unknown purposes are essential: a new caller should never silently stop
+ * working because someone forgot to classify it.
+ */
+
+export type BankBudgetState = "ok" | "soft_exceeded" | "hard_exceeded";
+export type PurposeTier = "essential" | "deferrable";
+
+export type BankBudget = {
+  monthlySoftLimitUsd: number | null;
+  monthlyHardLimitUsd: number | null;
+};
+
+/** Known narrative / coaching purposes. */
+const DEFERRABLE_PURPOSES = new Set([
+  "sba_package_narrative",
+  "classic_spread_narrative",
+  "projections_assumptions_narrate",
+  "glass_box_narrate",
+  "sba_actionable_roadmap",
+  "sba_research_briefing",
+  "omega_advisory",
+  "fix_card_copy",
+  "hostile_committee_interrogation",
+  "brokerage-concierge-turn",
+  "borrower_qa",
+  "quick_look_questions",
+  "buddy_shadow_brain",
+]);
+
+const DEFERRABLE_PATTERN = /narrat|coach|roadmap|briefing|advisory|concierge/;
+
+export function purposeTier(purpose: string): PurposeTier {
+  const p = purpose.trim().toLowerCase();
+  return DEFERRABLE_PURPOSES.has(p) || DEFERRABLE_PATTERN.test(p) ? "deferrable" : "essential";
+}
+
+export function bankBudgetState(spentUsd: number, budget: BankBudget | null): BankBudgetState {
+  if (!budget) return "ok";
+  const { monthlyHardLimitUsd: hard, monthlySoftLimitUsd: soft } = budget;
+  if (hard != null && spentUsd >= hard) return "hard_exceeded";
+  if (soft != null && spentUsd >= soft) return "soft_exceeded";
+  return "ok";
+}
+
+/** Over the hard limit, a deferrable purpose may only use zero-cost steps. */
+export function mustDegrade(state: BankBudgetState, purpose: string): boolean {
+  return state === "hard_exceeded" && purposeTier(purpose) === "deferrable";
+}
+
+/** "2026-10" — the budget month, in UTC like the ledger's created_at. */
+export function budgetMonth(d: Date): string {
+  return d.toISOString().slice(0, 7);
+}
+
+export function monthBounds(month: string): { start: string; end: string } {
+  const [y, m] = month.split("-").map(Number);
+  return {
+    start: new Date(Date.UTC(y, m - 1, 1)).toISOString(),
+    end: new Date(Date.UTC(y, m, 1)).toISOString(),
+  };
+}
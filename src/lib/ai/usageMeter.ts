@@ -0,0 +1,189 @@
+import "server-only";
+
+/**
+ * Per-bank AI usage meter — the I/O half of usageBudget.ts, used by the
+ * gateway on every runRole call.
+ *
+ *   resolveBankId   deal → bank attribution for callers that only pass a
+ *                   dealId (cached for the process lifetime; deals don't
+ *                   change banks)
+ *   budgetState     month-to-date spend vs bank_ai_budgets, cached for a
+ *                   minute and advanced in-process by recordSpend between
+ *                   refreshes, so a runaway loop can't outrun the cache;
+ *                   every load over a limit offers the threshold webhook
+ *   recordSpend     add a call's cost to the cached month-to-date total and
+ *                   offer the threshold webhook when it crosses a limit
+ *
+ * The threshold webhook fires once per bank per month however many
+ * instances offer it — the *_notified_month claim deduplicates.
+ *
+ * Never throws: metering must not take down the caller's AI request (same
+ * philosophy as ledger.ts). Any failure reads as "ok" / unattributed.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { fireWebhook } from "@/lib/webhooks/fireWebhook";
+import { bankBudgetState, budgetMonth, monthBounds, type BankBudget, type BankBudgetState } from "./usageBudget";
+
+export type UsageMeter = {
+  resolveBankId: (dealId: string) => Promise<string | null>;
+  budgetState: (bankId: string) => Promise<BankBudgetState>;
+  recordSpend: (bankId: string, costUsd: number) => void;
+};
+
+export type BankBudgetSnapshot = {
+  bankId: string;
+  month: string;
+  spentUsd: number;
+  budget: BankBudget | null;
+  state: BankBudgetState;
+};
+
+const SNAPSHOT_TTL_MS = 60_000;
+const USAGE_PAGE = 1000;
+
+const dealBanks = new Map<string, string>();
+const snapshots = new Map<string, { snapshot: BankBudgetSnapshot; loadedAt: number }>();
+
+function warn(what: string, e: unknown): void {
+  console.warn(`[ai-gateway:usageMeter] ${what} failed (non-fatal):`, e instanceof Error ? e.message : String(e));
+}
+
+async function resolveBankId(dealId: string): Promise<string | null> {
+  const cached = dealBanks.get(dealId);
+  if (cached) return cached;
+  try {
+    const { data } = await supabaseAdmin().from("deals").select("bank_id").eq("id", dealId).maybeSingle();
+    const bankId = (data as { bank_id?: string | null } | null)?.bank_id ?? null;
+    if (bankId) dealBanks.set(dealId, bankId);
+    return bankId;
+  } catch (e) {
+    warn("deal bank lookup", e);
+    return null;
+  }
+}
+
+/**
+ * Uncached read of a bank's month-to-date spend and limits. Spend is summed
+ * from the bank's ai_gateway_calls in the month's created_at range (the
+ * (bank_id, created_at) index), a page at a time.
+ */
+export async function loadBankBudgetSnapshot(
+  bankId: string,
+  opts: { sb?: SupabaseClient; now?: Date } = {},
+): Promise<BankBudgetSnapshot> {
+  const sb = opts.sb ?? supabaseAdmin();
+  const month = budgetMonth(opts.now ?? new Date());
+
+  const { data: row } = await sb
+    .from("bank_ai_budgets")
+    .select("monthly_soft_limit_usd, monthly_hard_limit_usd")
+    .eq("bank_id", bankId)
+    .maybeSingle();
+  const budget: BankBudget | null = row
+    ? {
+        monthlySoftLimitUsd: row.monthly_soft_limit_usd == null ? null : Number(row.monthly_soft_limit_usd),
+        monthlyHardLimitUsd: row.monthly_hard_limit_usd == null ? null : Number(row.monthly_hard_limit_usd),
+      }
+    : null;
+
+  let spentUsd = 0;
+  if (budget) {
+    const { start, end } = monthBounds(month);
+    for (let from = 0; ; from += USAGE_PAGE) {
+      const { data: calls, error } = await sb
+        .from("ai_gateway_calls")
+        .select("cost_usd")
+        .eq("bank_id", bankId)
+        .gte("created_at", start)
+        .lt("created_at", end)
+        .gt("cost_usd", 0)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + USAGE_PAGE - 1);
+      if (error) throw new Error(`ai_gateway_calls_select_failed:${error.message}`);
+      const rows = (calls ?? []) as Array<{ cost_usd: number | string }>;
+      spentUsd += rows.reduce((s, r) => s + Number(r.cost_usd ?? 0), 0);
+      if (rows.length < USAGE_PAGE) break;
+    }
+  }
+
+  return { bankId, month, spentUsd, budget, state: bankBudgetState(spentUsd, budget) };
+}
+
+async function cachedSnapshot(bankId: string): Promise<BankBudgetSnapshot | null> {
+  const now = Date.now();
+  const hit = snapshots.get(bankId);
+  if (hit && now - hit.loadedAt < SNAPSHOT_TTL_MS && hit.snapshot.month === budgetMonth(new Date(now))) {
+    return hit.snapshot;
+  }
+  try {
+    const snapshot = await loadBankBudgetSnapshot(bankId);
+    snapshots.set(bankId, { snapshot, loadedAt: now });
+    offerThresholdNotification(snapshot);
+    return snapshot;
+  } catch (e) {
+    warn("budget snapshot", e);
+    return null;
+  }
+}
+
+async function budgetState(bankId: string): Promise<BankBudgetState> {
+  return (await cachedSnapshot(bankId))?.state ?? "ok";
+}
+
+/**
+ * Fire ai_budget.<level>_limit_reached at most once per bank per month.
+ * The conditional update is the claim: only the instance whose update
+ * matched a row sends the webhook.
+ */
+export async function notifyBudgetThreshold(
+  snapshot: BankBudgetSnapshot,
+  opts: { sb?: SupabaseClient } = {},
+): Promise<boolean> {
+  if (snapshot.state === "ok" || !snapshot.budget) return false;
+  const level = snapshot.state === "hard_exceeded" ? "hard" : "soft";
+  const column = `${level}_notified_month`;
+  const sb = opts.sb ?? supabaseAdmin();
+  const { data } = await sb
+    .from("bank_ai_budgets")
+    .update({ [column]: snapshot.month })
+    .eq("bank_id", snapshot.bankId)
+    .or(`${column}.is.null,${column}.neq.${snapshot.month}`)
+    .select("bank_id");
+  if (!data || data.length === 0) return false;
+
+  await fireWebhook(level === "hard" ? "ai_budget.hard_limit_reached" : "ai_budget.soft_limit_reached", {
+    deal_id: null,
+    bank_id: snapshot.bankId,
+    data: {
+      month: snapshot.month,
+      spent_usd: Math.round(snapshot.spentUsd * 100) / 100,
+      limit_usd: level === "hard" ? snapshot.budget.monthlyHardLimitUsd : snapshot.budget.monthlySoftLimitUsd,
+    },
+  });
+  return true;
+}
+
+function offerThresholdNotification(snapshot: BankBudgetSnapshot): void {
+  if (snapshot.state === "ok") return;
+  notifyBudgetThreshold(snapshot).catch((e) => warn("threshold notification", e));
+}
+
+function recordSpend(bankId: string, costUsd: number): void {
+  const hit = snapshots.get(bankId);
+  if (!hit || costUsd <= 0) return;
+  const before = hit.snapshot.state;
+  const spentUsd = hit.snapshot.spentUsd + costUsd;
+  hit.snapshot = { ...hit.snapshot, spentUsd, state: bankBudgetState(spentUsd, hit.snapshot.budget) };
+  if (hit.snapshot.state !== before) offerThresholdNotification(hit.snapshot);
+}
+
+export const usageMeter: UsageMeter = { resolveBankId, budgetState, recordSpend };
+
+/** Test-only: drop cached deal→bank and budget snapshots. */
+export function __resetUsageMeterCachesForTests(): void {
+  dealBanks.clear();
+  snapshots.clear();
+}
@@ -13,6 +13,10 @@
  * the same explicit sign-off as the two net-new vendors rather than
  * grandfathering it in silently. Matt flips a provider to APPROVED only
  * after reviewing its docs/vendors/<provider>.md.
+ *
+ * "local" (a bank's self-hosted model) starts PENDING too: the payload
+ * never leaves the bank's network, but the model and the host serving it
+ * still need the same sign-off per deployment — see docs/vendors/local.md.
  */
 
 import type { GatewayProvider } from "./roleConfig";
@@ -23,6 +27,7 @@ export const VENDOR_NPI_APPROVAL: Record<GatewayProvider, VendorApprovalStatus>
   google: "PENDING",
   anthropic: "PENDING",
   openai: "PENDING",
+  local: "PENDING",
 };
 
 /**
@@ -43,4 +48,5 @@ export function __resetVendorApprovalForTests(): void {
   VENDOR_NPI_APPROVAL.google = "PENDING";
   VENDOR_NPI_APPROVAL.anthropic = "PENDING";
   VENDOR_NPI_APPROVAL.openai = "PENDING";
+  VENDOR_NPI_APPROVAL.local = "PENDING";
 }
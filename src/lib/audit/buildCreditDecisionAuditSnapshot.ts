@@ -9,7 +9,8 @@ import { stableStringify } from "./buildBorrowerAuditSnapshot";
  *
  * Produces a tamper-evident, deterministic snapshot of an underwriting
  * credit decision including: decision record, financial metrics, policy
- * evaluation, human overrides, attestation chain, and committee record.
+ * evaluation, human overrides, attestation chain, approval routing, and
+ * committee record.
  *
  * Invariants:
  *  - Snapshot is read-only
@@ -88,6 +89,20 @@ export type CreditDecisionAuditSnapshot = {
     created_at: string;
   }>;
 
+  /** Delegated authority route recorded at finalize (null = bank not routed). */
+  approval_routing: {
+    route: string;
+    fired_rule_key: string;
+    fired_rule_label: string;
+    fired_rule_source: string;
+    aggregate_exposure: number;
+    officer_user_id: string | null;
+    eligible_co_signers: string[];
+    matched_rule_keys: string[];
+    matrix_version: number | null;
+    routed_at: string;
+  } | null;
+
   committee: {
     quorum: number;
     vote_count: number;
@@ -236,6 +251,18 @@ export async function buildCreditDecisionAuditSnapshot(opts: {
     committeeOutcome = "pending";
   }
 
+  // 9b) Load the recorded approval routing (latest for this snapshot)
+  const { data: routingRaw } = await sb
+    .from("decision_approval_routings")
+    .select("route, fired_rule_key, aggregate_exposure, officer_user_id, matrix_version, routing_json, created_at")
+    .eq("decision_snapshot_id", opts.snapshotId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const routing = routingRaw as any;
+  const routingJson = routing?.routing_json ?? {};
+
   // 10) Load deal ledger events (decision-related)
   const { data: ledgerRaw } = await sb
     .from("deal_pipeline_ledger")
@@ -326,6 +353,21 @@ export async function buildCreditDecisionAuditSnapshot(opts: {
       created_at: a.created_at ?? "",
     })),
 
+    approval_routing: routing
+      ? {
+          route: routing.route ?? "",
+          fired_rule_key: routing.fired_rule_key ?? "",
+          fired_rule_label: routingJson.firedRule?.label ?? "",
+          fired_rule_source: routingJson.firedRule?.source ?? "",
+          aggregate_exposure: Number(routing.aggregate_exposure ?? 0),
+          officer_user_id: routing.officer_user_id ?? null,
+          eligible_co_signers: routingJson.eligibleCoSigners ?? [],
+          matched_rule_keys: (routingJson.matchedRules ?? []).map((r: any) => r.key),
+          matrix_version: routing.matrix_version ?? null,
+          routed_at: routing.created_at ?? "",
+        }
+      : null,
+
     committee: {
       quorum,
       vote_count: votes.length,
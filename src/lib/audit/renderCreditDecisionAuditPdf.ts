@@ -231,6 +231,21 @@ export function renderCreditDecisionAuditPdf(
       sectionHeader(doc, "6. Committee Record");
       doc.fontSize(11).font("Helvetica").fillColor("#000000");
 
+      const r = snapshot.approval_routing;
+      if (r) {
+        doc.font("Helvetica-Bold").text("Approval Route: ", { continued: true });
+        doc.font("Helvetica").text(r.route.toUpperCase());
+        doc.font("Helvetica-Bold").text("Rule Fired: ", { continued: true });
+        doc.font("Helvetica").text(`${r.fired_rule_key} — ${r.fired_rule_label}`);
+        doc.font("Helvetica-Bold").text("Aggregate Exposure: ", { continued: true });
+        doc.font("Helvetica").text(`$${Math.round(r.aggregate_exposure).toLocaleString("en-US")}`);
+        if (r.eligible_co_signers.length > 0) {
+          doc.font("Helvetica-Bold").text("Eligible Co-Signers: ", { continued: true });
+          doc.font("Helvetica").text(r.eligible_co_signers.join(", "));
+        }
+        doc.moveDown(0.5);
+      }
+
       const c = snapshot.committee;
       doc.font("Helvetica-Bold").text("Quorum: ", { continued: true });
       doc.font("Helvetica").text(String(c.quorum));
@@ -343,6 +358,7 @@ export function renderCreditDecisionAuditPdf(
       doc.text(`Exceptions: ${snapshot.policy.exceptions.length}`);
       doc.text(`Overrides: ${snapshot.overrides.length}`);
       doc.text(`Attestations: ${snapshot.attestations.length}`);
+      doc.text(`Approval Route: ${snapshot.approval_routing?.route ?? "—"}`);
       doc.text(`Committee Votes: ${snapshot.committee.vote_count}`);
       doc.text(`Committee Outcome: ${snapshot.committee.outcome}`);
       doc.text(`Dissent Opinions: ${snapshot.committee.dissent.length}`);
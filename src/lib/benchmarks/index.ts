@@ -12,6 +12,7 @@ export {
   type RatioBenchmarkOutput,
   type BenchmarkLookupResult,
   type BenchmarkMetricId,
+  type IndustryVolatilityProfile,
   BENCHMARK_METRIC_IDS,
   getRevenueTier,
   lookupBenchmark,
@@ -20,6 +21,7 @@ export {
   getNaicsDescription,
   getSupportedNaicsCodes,
   getAvailableMetrics,
+  getIndustryVolatility,
 } from "./industryBenchmarks";
 
 // SBA exports (Phase 58A) — async DB function, separate export
@@ -695,6 +695,75 @@ export function getAvailableMetrics(naicsCode: string): BenchmarkMetricId[] {
   return BENCHMARK_METRIC_IDS.filter((id) => profile[id] !== undefined);
 }
 
+// ---------------------------------------------------------------------------
+// Industry volatility — year-over-year dispersion for cash-flow simulation
+//
+// Revenue growth is the annual log-growth mean / standard deviation; margin
+// volatility is the standard deviation of year-over-year EBITDA margin
+// change. Smaller firms are more volatile, so vols scale by revenue tier.
+// ---------------------------------------------------------------------------
+
+export type IndustryVolatilityProfile = {
+  revenueGrowthMean: number;
+  revenueGrowthVol: number;
+  ebitdaMarginVol: number;
+  naicsDescription: string | null;
+  revenueTier: RevenueTier;
+};
+
+type VolatilityEntry = Pick<IndustryVolatilityProfile, "revenueGrowthMean" | "revenueGrowthVol" | "ebitdaMarginVol">;
+
+const GROUP_VOLATILITY: Record<IndustryGroup, VolatilityEntry> = {
+  manufacturing:         { revenueGrowthMean: 0.04, revenueGrowthVol: 0.12, ebitdaMarginVol: 0.025 },
+  wholesale:             { revenueGrowthMean: 0.04, revenueGrowthVol: 0.11, ebitdaMarginVol: 0.015 },
+  retail:                { revenueGrowthMean: 0.03, revenueGrowthVol: 0.10, ebitdaMarginVol: 0.020 },
+  professional_services: { revenueGrowthMean: 0.05, revenueGrowthVol: 0.12, ebitdaMarginVol: 0.030 },
+  healthcare:            { revenueGrowthMean: 0.05, revenueGrowthVol: 0.08, ebitdaMarginVol: 0.025 },
+  construction:          { revenueGrowthMean: 0.05, revenueGrowthVol: 0.20, ebitdaMarginVol: 0.035 },
+  real_estate:           { revenueGrowthMean: 0.03, revenueGrowthVol: 0.07, ebitdaMarginVol: 0.030 },
+  food_service:          { revenueGrowthMean: 0.03, revenueGrowthVol: 0.14, ebitdaMarginVol: 0.030 },
+  transportation:        { revenueGrowthMean: 0.04, revenueGrowthVol: 0.15, ebitdaMarginVol: 0.030 },
+  other_services:        { revenueGrowthMean: 0.03, revenueGrowthVol: 0.10, ebitdaMarginVol: 0.025 },
+  agriculture:           { revenueGrowthMean: 0.02, revenueGrowthVol: 0.18, ebitdaMarginVol: 0.050 },
+  finance_insurance:     { revenueGrowthMean: 0.04, revenueGrowthVol: 0.09, ebitdaMarginVol: 0.030 },
+};
+
+/** Used when NAICS is unknown or unsupported. */
+const DEFAULT_VOLATILITY: VolatilityEntry = {
+  revenueGrowthMean: 0.03,
+  revenueGrowthVol: 0.12,
+  ebitdaMarginVol: 0.030,
+};
+
+const TIER_VOLATILITY_MULT: Record<RevenueTier, number> = {
+  under_1m: 1.3,
+  "1m_5m": 1.15,
+  "5m_25m": 1.0,
+  "25m_100m": 0.9,
+  over_100m: 0.8,
+};
+
+/**
+ * Industry volatility prior for a NAICS code and revenue size. Falls back
+ * to a generic profile when the NAICS code is missing or unsupported.
+ */
+export function getIndustryVolatility(
+  naicsCode: string | null | undefined,
+  annualRevenue: number,
+): IndustryVolatilityProfile {
+  const entry = naicsCode ? resolveNaics(naicsCode) : null;
+  const base = entry ? GROUP_VOLATILITY[entry.group] : DEFAULT_VOLATILITY;
+  const tier = getRevenueTier(annualRevenue);
+  const mult = TIER_VOLATILITY_MULT[tier];
+  return {
+    revenueGrowthMean: base.revenueGrowthMean,
+    revenueGrowthVol: base.revenueGrowthVol * mult,
+    ebitdaMarginVol: base.ebitdaMarginVol * mult,
+    naicsDescription: entry?.description ?? null,
+    revenueTier: tier,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // SBA Default Profile Lookup (Phase 58A)
 // ---------------------------------------------------------------------------
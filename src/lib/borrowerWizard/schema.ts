@@ -1,9 +1,20 @@
+import {
+  ETHNICITY_OPTIONS,
+  MAX_PRINCIPAL_OWNERS,
+  OWNERSHIP_OPTIONS,
+  RACE_OPTIONS,
+  NUMBER_OF_WORKERS_BANDS,
+} from "@/lib/section1071/codes";
+import { SB1071_PROTECTED_PREFIX } from "@/lib/section1071/firewall";
+
 export type WizardTrack = "SBA_7A" | "CONVENTIONAL" | "UNKNOWN";
 
 export type WizardSection = {
   id: string;
   title: string;
   track: WizardTrack | "ALL";
+  /** Shown above the questions (e.g. the Section 1071 disclosure) */
+  notice?: string;
   questions: WizardQuestion[];
 };
 
@@ -14,8 +25,32 @@ export type WizardQuestion = {
   type: "text" | "number" | "yesno" | "select";
   options?: { value: string; label: string }[];
   required?: boolean;
+  /**
+   * Section 1071 protected demographic data. Stored outside borrower_answers
+   * (sb1071_protected_responses) so underwriters never see it.
+   */
+  firewalled?: boolean;
 };
 
+const SB1071_NOTICE =
+  "Federal law requires us to ask for this information to help ensure that small businesses are treated " +
+  "fairly. You are not required to answer, and we cannot discriminate on the basis of your answers or " +
+  "whether you choose to answer. Your answers are kept separate from your application and are not " +
+  "visible to the people who decide on your loan.";
+
+function principalOwnerQuestions(): WizardQuestion[] {
+  const out: WizardQuestion[] = [];
+  for (let n = 1; n <= MAX_PRINCIPAL_OWNERS; n++) {
+    const key = `${SB1071_PROTECTED_PREFIX}po${n}`;
+    out.push(
+      { key: `${key}.ethnicity`, section: "sb1071", label: `Principal owner ${n}: ethnicity`, type: "select", options: ETHNICITY_OPTIONS, firewalled: true },
+      { key: `${key}.race`, section: "sb1071", label: `Principal owner ${n}: race`, type: "select", options: RACE_OPTIONS, firewalled: true },
+      { key: `${key}.sex_gender`, section: "sb1071", label: `Principal owner ${n}: sex/gender (optional, in your own words)`, type: "text", firewalled: true },
+    );
+  }
+  return out;
+}
+
 export const SECTIONS: WizardSection[] = [
   {
     id: "business",
@@ -51,6 +86,35 @@ export const SECTIONS: WizardSection[] = [
       },
     ],
   },
+  {
+    id: "sb1071_business",
+    title: "Small Business Information",
+    track: "ALL",
+    questions: [
+      { key: "sb1071.gross_annual_revenue", section: "sb1071", label: "Gross annual revenue for the last fiscal year", type: "number" },
+      {
+        key: "sb1071.number_of_workers",
+        section: "sb1071",
+        label: "Number of non-owner workers",
+        type: "select",
+        options: NUMBER_OF_WORKERS_BANDS.map((b) => ({ value: String(b.code), label: b.label })),
+      },
+      { key: "sb1071.time_in_business_years", section: "sb1071", label: "Years the business has operated", type: "number" },
+      { key: "sb1071.num_principal_owners", section: "sb1071", label: "Number of principal owners (25%+ ownership)", type: "number" },
+    ],
+  },
+  {
+    id: "sb1071_demographics",
+    title: "Ownership Demographics (optional)",
+    track: "ALL",
+    notice: SB1071_NOTICE,
+    questions: [
+      { key: `${SB1071_PROTECTED_PREFIX}ownership.minority`, section: "sb1071", label: "Is the business minority-owned?", type: "select", options: OWNERSHIP_OPTIONS, firewalled: true },
+      { key: `${SB1071_PROTECTED_PREFIX}ownership.women`, section: "sb1071", label: "Is the business women-owned?", type: "select", options: OWNERSHIP_OPTIONS, firewalled: true },
+      { key: `${SB1071_PROTECTED_PREFIX}ownership.lgbtqi`, section: "sb1071", label: "Is the business LGBTQI+-owned?", type: "select", options: OWNERSHIP_OPTIONS, firewalled: true },
+      ...principalOwnerQuestions(),
+    ],
+  },
   {
     id: "sba_gate",
     title: "SBA Eligibility Check",
@@ -353,6 +353,8 @@ export type CollateralItem = {
   valuation_source_note?: string;
   advance_rate?: number;
   net_lendable_value?: number;
+  // Appraisal ingest: appraised value staged on the review until its checklist clears
+  appraisal_review_status?: "pending_review" | "cleared" | null;
   created_at: string;
   updated_at: string;
 };
@@ -3,6 +3,12 @@
  * Replaces banker-facing "Collateral Coverage" with policy-based LTV.
  *
  * LTV = loan_amount / total_lendable_value (NOT gross_value)
+ *
+ * Items whose appraisal is still under review (appraisal_review_status =
+ * 'pending_review', set by thirdParty/orchestrator processAppraisalResult)
+ * keep their prior value — the appraised value is staged on the review and
+ * only lands on the item when the reviewer checklist clears. They are
+ * counted separately as itemsAwaitingReview.
  */
 
 import type { CollateralItem } from "./builderTypes";
@@ -13,6 +19,7 @@ export type CollateralLtvSummary = {
   ltv: number | null;
   policyLimit: number | null;
   withinPolicy: boolean | null;
+  itemsAwaitingReview: number;
 };
 
 /** Default advance rates by collateral type when none explicitly set */
@@ -29,6 +36,13 @@ const DEFAULT_ADVANCE_RATES: Record<string, number> = {
 /** Default policy LTV limit (can be overridden by bank policy later) */
 const DEFAULT_POLICY_LTV_LIMIT = 0.80;
 
+/**
+ * True while an appraised value for the item awaits reviewer clearance.
+ */
+export function isAwaitingAppraisalReview(item: CollateralItem): boolean {
+  return item.appraisal_review_status === "pending_review";
+}
+
 /**
  * Compute lendable value for a single collateral item.
  * advance_rate from item takes precedence, then default by type.
@@ -77,5 +91,6 @@ export function computeCollateralLtv(
     ltv,
     policyLimit: limit,
     withinPolicy: ltv !== null ? ltv <= limit : null,
+    itemsAwaitingReview: collateral.filter(isAwaitingAppraisalReview).length,
   };
 }
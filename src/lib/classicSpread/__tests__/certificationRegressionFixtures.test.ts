@@ -300,7 +300,7 @@ describe("no T12 required for an SBA / conventional annual-statement borrower",
   });
 
   it("Phase-2 internal fact-write plan excludes T12 and GCF for an annual deal with no source / prereqs", () => {
-    const plan = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false });
+    const plan = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false, ucaCashFlowRequired: false });
     assert.deepEqual(plan.sort(), ["BALANCE_SHEET", "STANDARD"]);
     assert.ok(!plan.includes("T12" as SpreadType));
     assert.ok(!plan.includes("GLOBAL_CASH_FLOW" as SpreadType));
@@ -308,8 +308,8 @@ describe("no T12 required for an SBA / conventional annual-statement borrower",
   });
 
   it("Phase-2 plan admits T12 only with a real source, and GCF only when prereqs are ready", () => {
-    assert.ok(planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: false }).includes("T12" as SpreadType));
-    assert.ok(planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: true }).includes("GLOBAL_CASH_FLOW" as SpreadType));
+    assert.ok(planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: false, ucaCashFlowRequired: false }).includes("T12" as SpreadType));
+    assert.ok(planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: true, ucaCashFlowRequired: false }).includes("GLOBAL_CASH_FLOW" as SpreadType));
   });
 });
 
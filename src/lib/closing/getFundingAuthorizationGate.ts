@@ -7,6 +7,7 @@ import "server-only";
  */
 
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { getLoanDocumentDeviations } from "@/lib/closingPackage/drafting/getLoanDocumentDeviations";
 import { deriveClosingExecutionState } from "./deriveClosingExecutionState";
 
 export type FundingGate = {
@@ -17,6 +18,8 @@ export type FundingGate = {
   conditionsRemaining: number;
   activePackageId: string | null;
   fundingAuthorized: boolean;
+  /** Drafted loan documents that deviate from the approved terms */
+  documentDeviationCount: number;
 };
 
 export async function getFundingAuthorizationGate(dealId: string): Promise<FundingGate> {
@@ -35,7 +38,7 @@ export async function getFundingAuthorizationGate(dealId: string): Promise<Fundi
     .maybeSingle();
 
   if (!pkg) {
-    return { ok: false, reasons: ["No active closing package"], executionComplete: false, signaturesRemaining: 0, conditionsRemaining: 0, activePackageId: null, fundingAuthorized: false };
+    return { ok: false, reasons: ["No active closing package"], executionComplete: false, signaturesRemaining: 0, conditionsRemaining: 0, activePackageId: null, fundingAuthorized: false, documentDeviationCount: 0 };
   }
 
   // Load execution run
@@ -85,6 +88,13 @@ export async function getFundingAuthorizationGate(dealId: string): Promise<Fundi
     if (!run) reasons.push("Execution not started");
   }
 
+  // Drafted documents must still match the approved terms
+  const drafting = await getLoanDocumentDeviations(dealId, pkg.id);
+  const documentDeviationCount = drafting.deviations.length;
+  if (documentDeviationCount > 0) {
+    reasons.push(`${documentDeviationCount} loan document deviation(s) from approved terms`);
+  }
+
   // Check funding authorization
   const { data: auth } = await sb
     .from("funding_authorizations")
@@ -94,7 +104,7 @@ export async function getFundingAuthorizationGate(dealId: string): Promise<Fundi
     .maybeSingle();
 
   const fundingAuthorized = Boolean(auth);
-  if (!fundingAuthorized && derived.executionComplete) {
+  if (!fundingAuthorized && derived.executionComplete && documentDeviationCount === 0) {
     reasons.push("Funding not yet authorized");
   }
 
@@ -106,5 +116,6 @@ export async function getFundingAuthorizationGate(dealId: string): Promise<Fundi
     conditionsRemaining: derived.conditionsRemaining,
     activePackageId: pkg.id,
     fundingAuthorized,
+    documentDeviationCount,
   };
 }
@@ -20,8 +20,15 @@ type RenderInput = {
   templateId: string;
   templateCode: string;
   templateVersion: string;
-  snapshot: ClosingRenderSnapshot;
+  snapshot: ClosingRenderSnapshot | Record<string, unknown>;
   createdBy: string;
+  rendererName?: string;
+  /**
+   * Produces the artifact for the render record and returns its checksum.
+   * Without an engine the document is marked rendered against its input
+   * checksum (the bank-docs/generate integration fills it in later).
+   */
+  engine?: (renderId: string) => Promise<{ outputChecksum: string }>;
 };
 
 type RenderResult = {
@@ -41,6 +48,7 @@ export async function renderClosingPackageDocument(input: RenderInput): Promise<
   const sb = supabaseAdmin();
   const now = new Date().toISOString();
   const renderInputChecksum = computeInputChecksum(input.snapshot as any);
+  let renderId: string | undefined;
 
   try {
     // 1. Create render record
@@ -56,7 +64,7 @@ export async function renderClosingPackageDocument(input: RenderInput): Promise<
         status: "rendering",
         render_input_snapshot: input.snapshot,
         render_input_checksum: renderInputChecksum,
-        renderer_name: "bank-docs/generate",
+        renderer_name: input.rendererName ?? "bank-docs/generate",
         created_by: input.createdBy,
         started_at: now,
       })
@@ -64,6 +72,7 @@ export async function renderClosingPackageDocument(input: RenderInput): Promise<
       .single();
 
     if (renderErr || !render) throw new Error(renderErr?.message ?? "Render insert failed");
+    renderId = render.id;
 
     // 2. Mark package doc as rendering
     await sb
@@ -71,14 +80,14 @@ export async function renderClosingPackageDocument(input: RenderInput): Promise<
       .update({ render_status: "rendering" })
       .eq("id", input.closingPackageDocumentId);
 
-    // 3. Rendering engine call would go here.
-    // For now, mark as rendered (actual PDF generation integrates with bank-docs/generate)
+    // 3. Rendering engine
+    const outputChecksum = input.engine ? (await input.engine(render.id)).outputChecksum : renderInputChecksum;
     const renderedAt = new Date().toISOString();
 
     // 4. Update render record to rendered
     await sb
       .from("closing_document_renders")
-      .update({ status: "rendered", completed_at: renderedAt })
+      .update({ status: "rendered", completed_at: renderedAt, output_checksum: input.engine ? outputChecksum : null })
       .eq("id", render.id);
 
     // 5. Update package document
@@ -88,7 +97,7 @@ export async function renderClosingPackageDocument(input: RenderInput): Promise<
         current_render_id: render.id,
         render_status: "rendered",
         rendered_at: renderedAt,
-        output_checksum: renderInputChecksum, // Will be output checksum when real PDF is produced
+        output_checksum: outputChecksum,
       })
       .eq("id", input.closingPackageDocumentId);
 
@@ -111,6 +120,12 @@ export async function renderClosingPackageDocument(input: RenderInput): Promise<
     return { ok: true, renderId: render.id, renderInputChecksum };
   } catch (err) {
     // Mark failed
+    if (renderId) {
+      await sb
+        .from("closing_document_renders")
+        .update({ status: "failed", failure_detail: err instanceof Error ? err.message : String(err), completed_at: new Date().toISOString() })
+        .eq("id", renderId);
+    }
     if (input.closingPackageDocumentId) {
       await sb
         .from("closing_package_documents")
@@ -127,6 +142,6 @@ export async function renderClosingPackageDocument(input: RenderInput): Promise<
       meta: { template_code: input.templateCode, error: err instanceof Error ? err.message : String(err) },
     }).catch(() => {});
 
-    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    return { ok: false, renderId, error: err instanceof Error ? err.message : String(err) };
   }
 }
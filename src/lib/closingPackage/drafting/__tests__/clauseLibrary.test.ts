@@ -0,0 +1,148 @@
+/**
+ * Clause library (lib/closingPackage/drafting).
+ *
+ * Condition evaluation, highest-active-version selection per clause key,
+ * document-type filtering and ordering, and validation of clauses and
+ * drafting templates before a new version is stored.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MERGE_FIELDS } from "../approvedTerms";
+import {
+  evaluateCondition,
+  selectClauses,
+  validateClauseDefinition,
+  validateDraftingTemplate,
+  type ClauseDefinition,
+} from "../clauseLibrary";
+
+function clause(over: Partial<ClauseDefinition> & Pick<ClauseDefinition, "clauseKey">): ClauseDefinition {
+  return {
+    id: `${over.clauseKey}-v${over.version ?? 1}`,
+    version: 1,
+    title: over.clauseKey,
+    section: "general",
+    documentTypes: ["loan_agreement"],
+    condition: null,
+    body: "Text.",
+    sortOrder: 0,
+    active: true,
+    ...over,
+  };
+}
+
+const FACTS = {
+  "loan.product_type": "term",
+  "loan.interest_only_months": 6,
+  "collateral.types": ["real_estate", "equipment"],
+  "guarantors.count": 2,
+  "guarantors.names": ["Ann Lee", "Bo Park"],
+  "loan.prepayment": null,
+};
+
+describe("evaluateCondition", () => {
+  it("supports comparators, all / any / not and exists", () => {
+    assert.equal(evaluateCondition(null, FACTS), true);
+    assert.equal(evaluateCondition({ fact: "loan.product_type", eq: "term" }, FACTS), true);
+    assert.equal(evaluateCondition({ fact: "loan.product_type", in: ["loc", "cre"] }, FACTS), false);
+    assert.equal(evaluateCondition({ fact: "loan.interest_only_months", gt: 0 }, FACTS), true);
+    assert.equal(evaluateCondition({ fact: "collateral.types", contains: "real_estate" }, FACTS), true);
+    assert.equal(evaluateCondition({ fact: "loan.prepayment", exists: true }, FACTS), false);
+    assert.equal(
+      evaluateCondition(
+        { all: [{ fact: "guarantors.count", gte: 2 }, { not: { fact: "loan.product_type", eq: "loc" } }] },
+        FACTS,
+      ),
+      true,
+    );
+    assert.equal(
+      evaluateCondition({ any: [{ fact: "guarantors.count", lt: 1 }, { fact: "loan.prepayment", exists: true }] }, FACTS),
+      false,
+    );
+  });
+
+  it("treats a missing fact as failing numeric comparisons", () => {
+    assert.equal(evaluateCondition({ fact: "loan.amort_months", gte: 0 }, FACTS), false);
+  });
+});
+
+describe("selectClauses", () => {
+  const library = [
+    clause({ clauseKey: "interest_only", version: 1, section: "payment", body: "v1" }),
+    clause({ clauseKey: "interest_only", version: 2, section: "payment", body: "v2",
+      condition: { fact: "loan.interest_only_months", gt: 0 } }),
+    clause({ clauseKey: "interest_only", version: 3, section: "payment", body: "v3 draft", active: false }),
+    clause({ clauseKey: "environmental", section: "covenants", sortOrder: 2,
+      condition: { fact: "collateral.types", contains: "real_estate" } }),
+    clause({ clauseKey: "financial_reporting", section: "covenants", sortOrder: 1 }),
+    clause({ clauseKey: "borrowing_base", section: "covenants", condition: { fact: "loan.product_type", eq: "loc" } }),
+    clause({ clauseKey: "waiver_of_notice", documentTypes: ["guaranty"] }),
+  ];
+
+  it("drafts the highest active version whose condition holds", () => {
+    const selected = selectClauses(library, "loan_agreement", FACTS);
+    const io = selected.find((c) => c.clauseKey === "interest_only");
+    assert.equal(io?.version, 2);
+    assert.equal(io?.body, "v2");
+  });
+
+  it("does not fall back to an older version when the latest one's condition fails", () => {
+    const selected = selectClauses(library, "loan_agreement", { ...FACTS, "loan.interest_only_months": 0 });
+    assert.equal(selected.some((c) => c.clauseKey === "interest_only"), false);
+  });
+
+  it("filters by document type and orders by section then sort order", () => {
+    assert.deepEqual(
+      selectClauses(library, "loan_agreement", FACTS).map((c) => c.clauseKey),
+      ["financial_reporting", "environmental", "interest_only"],
+    );
+    assert.deepEqual(selectClauses(library, "guaranty", FACTS).map((c) => c.clauseKey), ["waiver_of_notice"]);
+  });
+});
+
+describe("validateClauseDefinition", () => {
+  const valid = {
+    clauseKey: "environmental",
+    title: "Environmental Indemnity",
+    section: "covenants",
+    documentTypes: ["loan_agreement"],
+    condition: { fact: "collateral.types", contains: "real_estate" },
+    body: "Borrower shall indemnify Lender in respect of {{collateral.descriptions}}.",
+  };
+
+  it("accepts a well-formed clause, including deal covenant fields", () => {
+    assert.deepEqual(validateClauseDefinition(valid, MERGE_FIELDS), []);
+    assert.deepEqual(
+      validateClauseDefinition({ ...valid, body: "DSCR of at least {{covenant.dscr.threshold}}x." }, MERGE_FIELDS),
+      [],
+    );
+  });
+
+  it("rejects unknown merge fields, clause slots, bad conditions and document types", () => {
+    const errors = validateClauseDefinition(
+      {
+        ...valid,
+        documentTypes: ["side_letter"],
+        condition: { fact: "loan.amount", above: 5 },
+        body: "{{loan.amout}} {{clauses.general}}",
+      },
+      MERGE_FIELDS,
+    );
+    assert.equal(errors.length, 4);
+    assert.ok(errors.some((e) => e.includes("side_letter")));
+    assert.ok(errors.some((e) => e.includes("{{loan.amout}}")));
+    assert.ok(errors.some((e) => e.includes("clause slots")));
+    assert.ok(errors.some((e) => e.includes("comparator")));
+  });
+});
+
+describe("validateDraftingTemplate", () => {
+  it("allows clause slots and known merge fields only", () => {
+    const body = "# Promissory Note\n\nFor value received, {{borrower.legal_name}} promises to pay {{loan.amount}}.\n\n{{clauses.payment}}";
+    assert.deepEqual(validateDraftingTemplate({ documentType: "promissory_note", title: "Note", body }, MERGE_FIELDS), []);
+    assert.deepEqual(
+      validateDraftingTemplate({ documentType: "promissory_note", title: "Note", body: "{{lender.name}}" }, MERGE_FIELDS),
+      ["unknown merge field {{lender.name}}"],
+    );
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Loan document drafting and the approved-terms diff
+ * (lib/closingPackage/drafting).
+ *
+ * Approved-terms assembly and gaps, merge-field formatting, clause slots,
+ * unresolved fields and literal figures in drafts, and the deviations
+ * that block funding: stale bindings after a term change, missing
+ * required terms, undrafted documents and uncovered covenants.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildApprovedTerms, clauseFacts, type ApprovedTermsSources } from "../approvedTerms";
+import { selectClauses, type ClauseDefinition } from "../clauseLibrary";
+import { draftLoanDocument, draftPlainText, formatFieldValue, UNRESOLVED_MARK, type DraftTemplate } from "../draftDocument";
+import { diffDraftAgainstTerms, diffPackageAgainstTerms } from "../diffApprovedTerms";
+
+function sources(over: Partial<ApprovedTermsSources> = {}): ApprovedTermsSources {
+  return {
+    dealId: "deal-1",
+    decision: { id: "ds-1", decision: "approve", status: "final", createdAt: "2026-09-14T16:00:00Z" },
+    pricing: {
+      source: "locked_quote",
+      id: "q-1",
+      loanAmount: 1250000,
+      ratePct: 7.25,
+      indexCode: "PRIME",
+      spreadBps: 75,
+      termMonths: 120,
+      amortMonths: 300,
+      interestOnlyMonths: 0,
+      monthlyPayment: 9035.14,
+      prepayment: null,
+    },
+    productType: "term",
+    purpose: "Acquisition of equipment",
+    borrower: { legalName: "Northwind Machining LLC", stateOfFormation: "OH", address: "10 Main St, Dayton, OH 45402" },
+    guarantors: [{ name: "Ann Lee", guarantyType: "unlimited", guarantyAmount: null }],
+    collateral: [
+      { itemType: "equipment", description: "CNC machining centers", lienPosition: 1, address: null, estimatedValue: 900000 },
+    ],
+    covenantPackage: {
+      id: "cp-1",
+      status: "approved",
+      covenants: [
+        {
+          key: "fc-1",
+          kind: "financial",
+          category: "dscr",
+          name: "Minimum DSCR",
+          threshold: 1.25,
+          unit: "ratio",
+          frequency: "annual",
+          language: "Borrower shall maintain a DSCR of not less than 1.25x.",
+        },
+      ],
+    },
+    ...over,
+  };
+}
+
+const NOTE: DraftTemplate = {
+  id: "tpl-note-3",
+  documentType: "promissory_note",
+  version: 3,
+  title: "Promissory Note",
+  body: [
+    "# Promise to Pay",
+    "",
+    "For value received, {{borrower.legal_name}} promises to pay {{loan.amount}}",
+    "with interest at {{loan.rate_pct}} per annum over {{loan.term_months}}.",
+    "",
+    "{{clauses.payment}}",
+  ].join("\n"),
+};
+
+const LIBRARY: ClauseDefinition[] = [
+  {
+    id: "c-late",
+    clauseKey: "late_charge",
+    version: 1,
+    title: "Late Charge",
+    section: "payment",
+    documentTypes: ["promissory_note"],
+    condition: null,
+    body: "A late charge of 5% of any payment more than 10 days late.",
+    sortOrder: 0,
+    active: true,
+  },
+  {
+    id: "c-io",
+    clauseKey: "interest_only",
+    version: 1,
+    title: "Interest-Only Period",
+    section: "payment",
+    documentTypes: ["promissory_note"],
+    condition: { fact: "loan.interest_only_months", gt: 0 },
+    body: "Interest only for {{loan.interest_only_months}}.",
+    sortOrder: 1,
+    active: true,
+  },
+  {
+    id: "c-waiver",
+    clauseKey: "jury_waiver",
+    version: 2,
+    title: "Jury Trial Waiver",
+    section: "boilerplate",
+    documentTypes: ["promissory_note"],
+    condition: null,
+    body: "Borrower waives trial by jury.",
+    sortOrder: 0,
+    active: true,
+  },
+];
+
+function draftNote(src = sources(), template = NOTE) {
+  const terms = buildApprovedTerms(src);
+  return { terms, draft: draftLoanDocument({ template, clauses: selectClauses(LIBRARY, template.documentType, clauseFacts(terms)), terms }) };
+}
+
+describe("buildApprovedTerms", () => {
+  it("converts the quote spread to a margin and dates the decision", () => {
+    const terms = buildApprovedTerms(sources());
+    assert.equal(terms.loan.marginPct, 0.75);
+    assert.equal(terms.decisionDate, "2026-09-14");
+    assert.deepEqual(terms.gaps, []);
+  });
+
+  it("records gaps and drops covenants from an unapproved package", () => {
+    const terms = buildApprovedTerms(
+      sources({
+        decision: { id: "ds-2", decision: "approve", status: "proposed", createdAt: "2026-09-14T16:00:00Z" },
+        pricing: null,
+        covenantPackage: { id: "cp-2", status: "banker_reviewed", covenants: sources().covenantPackage!.covenants },
+      }),
+    );
+    assert.deepEqual(terms.gaps, ["decision_not_final", "pricing_not_locked", "covenants_not_approved"]);
+    assert.deepEqual(terms.covenants, []);
+  });
+});
+
+describe("formatFieldValue", () => {
+  it("formats currency, percent, months, dates and lists", () => {
+    assert.equal(formatFieldValue({ value: 1250000, format: "currency" }), "$1,250,000.00");
+    assert.equal(formatFieldValue({ value: 7.25, format: "percent" }), "7.250%");
+    assert.equal(formatFieldValue({ value: 120, format: "months" }), "120 months");
+    assert.equal(formatFieldValue({ value: "2026-09-14", format: "date" }), "September 14, 2026");
+    assert.equal(formatFieldValue({ value: ["Ann Lee", "Bo Park"], format: "list" }), "Ann Lee; Bo Park");
+    assert.equal(formatFieldValue({ value: null, format: "text" }), UNRESOLVED_MARK);
+  });
+});
+
+describe("draftLoanDocument", () => {
+  it("fills merge fields and drafts selected clauses into their slot", () => {
+    const { draft } = draftNote();
+    const text = draftPlainText(draft);
+    assert.ok(text.includes("Northwind Machining LLC promises to pay $1,250,000.00 with interest at 7.250% per annum over 120 months."));
+    assert.ok(text.includes("LATE CHARGE"));
+    assert.ok(!text.includes("Interest-Only"), "conditional clause excluded when there is no IO period");
+    assert.deepEqual(draft.clauses.map((c) => c.clauseKey), ["jury_waiver", "late_charge"]);
+    assert.equal(draft.bindings["loan.amount"], 1250000);
+    assert.deepEqual(draft.unresolved, []);
+  });
+
+  it("drafts clauses without a slot under Additional Provisions", () => {
+    const { draft } = draftNote();
+    const headings = draft.blocks.filter((b) => b.kind === "heading").map((b) => b.text);
+    assert.deepEqual(headings, ["Promise to Pay", "Late Charge", "Additional Provisions", "Jury Trial Waiver"]);
+  });
+
+  it("records unknown and empty merge fields and literal figures", () => {
+    const { draft } = draftNote(sources({ borrower: { legalName: null, stateOfFormation: null, address: null } }), {
+      ...NOTE,
+      body: `${NOTE.body}\n\nPayable to {{lender.name}}. Default rate: 18% per annum.`,
+    });
+    assert.deepEqual(draft.unresolved, ["borrower.legal_name", "lender.name"]);
+    assert.ok(draftPlainText(draft).includes(`Payable to ${UNRESOLVED_MARK}.`));
+    assert.deepEqual(draft.literals, ["5%", "18%"]);
+  });
+});
+
+describe("diffDraftAgainstTerms", () => {
+  it("reports nothing for a note drafted from the current terms", () => {
+    const { terms, draft } = draftNote();
+    assert.deepEqual(diffDraftAgainstTerms(draft, terms), []);
+  });
+
+  it("flags a dollar amount typed into the text that is not an approved figure", () => {
+    const { terms, draft } = draftNote(sources(), { ...NOTE, body: `${NOTE.body}\n\nGuaranty capped at $250,000.` });
+    const literal = diffDraftAgainstTerms(draft, terms).filter((d) => d.code === "literal_figure");
+    assert.deepEqual(literal.map((d) => d.actual), ["$250,000"]);
+  });
+
+  it("flags a binding made stale by a re-priced loan", () => {
+    const { draft } = draftNote();
+    const repriced = buildApprovedTerms(sources({ pricing: { ...sources().pricing!, ratePct: 7.5 } }));
+    const mismatch = diffDraftAgainstTerms(draft, repriced).find((d) => d.code === "term_mismatch");
+    assert.equal(mismatch?.field, "loan.rate_pct");
+    assert.equal(mismatch?.expected, "7.5");
+    assert.equal(mismatch?.actual, "7.25");
+  });
+
+  it("flags required terms the template never states", () => {
+    const { terms, draft } = draftNote(sources(), { ...NOTE, body: "{{borrower.legal_name}} owes {{loan.amount}}." });
+    const missing = diffDraftAgainstTerms(draft, terms).filter((d) => d.code === "required_term_missing");
+    assert.deepEqual(missing.map((d) => d.field), ["loan.rate_pct", "loan.term_months"]);
+  });
+
+  it("accepts literal figures that repeat an approved figure", () => {
+    const terms = buildApprovedTerms(sources());
+    const deviations = diffDraftAgainstTerms(
+      { documentType: "borrowing_base", bindings: { "borrower.legal_name": "Northwind Machining LLC", "loan.amount": 1250000 }, unresolved: [], literals: ["$900,000", "7.25%"] },
+      terms,
+    );
+    assert.deepEqual(deviations, []);
+  });
+});
+
+describe("diffPackageAgainstTerms", () => {
+  it("has nothing to diff when no document was drafted", () => {
+    const terms = buildApprovedTerms(sources());
+    assert.deepEqual(diffPackageAgainstTerms([{ documentType: "promissory_note", draft: null }], terms), []);
+  });
+
+  it("flags undrafted documents, uncovered covenants and term gaps", () => {
+    const { draft } = draftNote();
+    const terms = buildApprovedTerms(sources({ pricing: null }));
+    const codes = diffPackageAgainstTerms(
+      [
+        { documentType: "promissory_note", draft },
+        { documentType: "guaranty", draft: null },
+        { documentType: "closing_checklist", draft: null },
+      ],
+      terms,
+    ).map((d) => d.code);
+    assert.ok(codes.includes("terms_incomplete"));
+    assert.ok(codes.includes("document_not_drafted"));
+    assert.ok(codes.includes("covenant_missing"));
+    assert.equal(codes.filter((c) => c === "document_not_drafted").length, 1);
+  });
+
+  it("treats a covenant bound by its threshold as covered", () => {
+    const terms = buildApprovedTerms(sources());
+    const deviations = diffPackageAgainstTerms(
+      [
+        {
+          documentType: "loan_agreement",
+          draft: {
+            documentType: "loan_agreement",
+            bindings: { "borrower.legal_name": "Northwind Machining LLC", "loan.amount": 1250000, "loan.term_months": 120, "covenant.dscr.threshold": 1.25 },
+            unresolved: [],
+            literals: [],
+          },
+        },
+      ],
+      terms,
+    );
+    assert.deepEqual(deviations, []);
+  });
+});
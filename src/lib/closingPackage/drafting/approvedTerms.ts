@@ -0,0 +1,203 @@
+/**
+ * Approved Terms
+ *
+ * The single set of terms loan documents are drafted from and diffed
+ * against: the final credit decision, the pricing decision (or locked
+ * quote), the approved covenant package, guarantors and collateral.
+ * `fieldValues` flattens them into the merge fields templates and
+ * clauses reference ({{loan.amount}}, {{covenant.dscr.threshold}}, …).
+ *
+ * Pure — no DB, no side effects.
+ */
+
+export type PricingSource = "pricing_decision" | "locked_quote";
+
+export type ApprovedCovenant = {
+  key: string;
+  kind: "financial" | "reporting" | "behavioral" | "springing";
+  /** Financial covenant category (dscr, leverage, …); null for other kinds */
+  category: string | null;
+  name: string;
+  threshold: number | null;
+  unit: string | null;
+  frequency: string | null;
+  language: string;
+};
+
+export type ApprovedTermsSources = {
+  dealId: string;
+  decision: { id: string; decision: string; status: string; createdAt: string } | null;
+  pricing: {
+    source: PricingSource;
+    id: string;
+    loanAmount: number | null;
+    ratePct: number | null;
+    indexCode: string | null;
+    spreadBps: number | null;
+    termMonths: number | null;
+    amortMonths: number | null;
+    interestOnlyMonths: number | null;
+    monthlyPayment: number | null;
+    prepayment: string | null;
+  } | null;
+  productType: string | null;
+  purpose: string | null;
+  borrower: { legalName: string | null; stateOfFormation: string | null; address: string | null };
+  guarantors: Array<{ name: string; guarantyType: string | null; guarantyAmount: number | null }>;
+  collateral: Array<{
+    itemType: string;
+    description: string | null;
+    lienPosition: number;
+    address: string | null;
+    estimatedValue: number | null;
+  }>;
+  covenantPackage: { id: string; status: string; covenants: ApprovedCovenant[] } | null;
+};
+
+export type ApprovedTerms = {
+  dealId: string;
+  decisionSnapshotId: string | null;
+  pricingSource: PricingSource | null;
+  pricingId: string | null;
+  covenantPackageId: string | null;
+  borrower: ApprovedTermsSources["borrower"];
+  loan: {
+    amount: number | null;
+    productType: string | null;
+    purpose: string | null;
+    ratePct: number | null;
+    indexCode: string | null;
+    marginPct: number | null;
+    termMonths: number | null;
+    amortMonths: number | null;
+    interestOnlyMonths: number | null;
+    monthlyPayment: number | null;
+    prepayment: string | null;
+  };
+  guarantors: ApprovedTermsSources["guarantors"];
+  collateral: ApprovedTermsSources["collateral"];
+  covenants: ApprovedCovenant[];
+  decisionDate: string | null;
+  /** Why documents cannot be drafted yet (empty when terms are complete) */
+  gaps: string[];
+};
+
+const APPROVING_DECISIONS = new Set(["approve", "approve_with_conditions"]);
+
+export function buildApprovedTerms(src: ApprovedTermsSources): ApprovedTerms {
+  const gaps: string[] = [];
+  if (!src.decision || src.decision.status !== "final") gaps.push("decision_not_final");
+  else if (!APPROVING_DECISIONS.has(src.decision.decision)) gaps.push("decision_not_approved");
+  if (!src.pricing) gaps.push("pricing_not_locked");
+  if (src.covenantPackage && src.covenantPackage.status !== "approved") gaps.push("covenants_not_approved");
+
+  const p = src.pricing;
+  const covenants = src.covenantPackage?.status === "approved" ? src.covenantPackage.covenants : [];
+  return {
+    dealId: src.dealId,
+    decisionSnapshotId: src.decision?.id ?? null,
+    pricingSource: p?.source ?? null,
+    pricingId: p?.id ?? null,
+    covenantPackageId: src.covenantPackage?.id ?? null,
+    borrower: src.borrower,
+    loan: {
+      amount: p?.loanAmount ?? null,
+      productType: src.productType,
+      purpose: src.purpose,
+      ratePct: p?.ratePct ?? null,
+      indexCode: p?.indexCode ?? null,
+      marginPct: p?.spreadBps != null ? p.spreadBps / 100 : null,
+      termMonths: p?.termMonths ?? null,
+      amortMonths: p?.amortMonths ?? null,
+      interestOnlyMonths: p?.interestOnlyMonths ?? null,
+      monthlyPayment: p?.monthlyPayment ?? null,
+      prepayment: p?.prepayment ?? null,
+    },
+    guarantors: src.guarantors,
+    collateral: [...src.collateral].sort((a, b) => a.lienPosition - b.lienPosition),
+    covenants,
+    decisionDate: src.decision?.createdAt?.slice(0, 10) ?? null,
+    gaps,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Merge fields
+// ---------------------------------------------------------------------------
+
+export type FieldFormat = "text" | "currency" | "percent" | "months" | "date" | "list" | "number";
+
+export type FieldValue = { value: string | number | string[] | null; format: FieldFormat };
+
+/**
+ * Every merge field the approved terms can supply. A field whose value is
+ * null is known but not yet established — drafting reports it unresolved.
+ */
+export function fieldValues(t: ApprovedTerms): Record<string, FieldValue> {
+  const fields: Record<string, FieldValue> = {
+    "borrower.legal_name": { value: t.borrower.legalName, format: "text" },
+    "borrower.state_of_formation": { value: t.borrower.stateOfFormation, format: "text" },
+    "borrower.address": { value: t.borrower.address, format: "text" },
+    "loan.amount": { value: t.loan.amount, format: "currency" },
+    "loan.product_type": { value: t.loan.productType, format: "text" },
+    "loan.purpose": { value: t.loan.purpose, format: "text" },
+    "loan.rate_pct": { value: t.loan.ratePct, format: "percent" },
+    "loan.index_code": { value: t.loan.indexCode, format: "text" },
+    "loan.margin_pct": { value: t.loan.marginPct, format: "percent" },
+    "loan.term_months": { value: t.loan.termMonths, format: "months" },
+    "loan.amort_months": { value: t.loan.amortMonths, format: "months" },
+    "loan.interest_only_months": { value: t.loan.interestOnlyMonths, format: "months" },
+    "loan.monthly_payment": { value: t.loan.monthlyPayment, format: "currency" },
+    "loan.prepayment": { value: t.loan.prepayment, format: "text" },
+    "decision.date": { value: t.decisionDate, format: "date" },
+    "guarantors.names": { value: t.guarantors.length ? t.guarantors.map((g) => g.name) : null, format: "list" },
+    "collateral.descriptions": {
+      value: t.collateral.length ? t.collateral.map((c) => c.description ?? c.itemType) : null,
+      format: "list",
+    },
+    "covenants.schedule": {
+      value: t.covenants.length ? t.covenants.map((c) => `${c.name}: ${c.language}`) : null,
+      format: "list",
+    },
+  };
+  for (const c of t.covenants) {
+    if (c.kind !== "financial" || !c.category) continue;
+    fields[`covenant.${c.category}.threshold`] = { value: c.threshold, format: "number" };
+    fields[`covenant.${c.category}.frequency`] = { value: c.frequency, format: "text" };
+  }
+  return fields;
+}
+
+/** Merge fields every deal supplies; covenant.<category>.* vary by deal. */
+export const MERGE_FIELDS: Set<string> = new Set(
+  Object.keys(
+    fieldValues(
+      buildApprovedTerms({
+        dealId: "",
+        decision: null,
+        pricing: null,
+        productType: null,
+        purpose: null,
+        borrower: { legalName: null, stateOfFormation: null, address: null },
+        guarantors: [],
+        collateral: [],
+        covenantPackage: null,
+      }),
+    ),
+  ),
+);
+
+/**
+ * Facts clause conditions are evaluated against: the merge-field values
+ * plus derived flags ("guarantors.count", "collateral.types", …).
+ */
+export function clauseFacts(t: ApprovedTerms): Record<string, unknown> {
+  const facts: Record<string, unknown> = {};
+  for (const [k, f] of Object.entries(fieldValues(t))) facts[k] = f.value;
+  facts["guarantors.count"] = t.guarantors.length;
+  facts["guarantors.types"] = [...new Set(t.guarantors.map((g) => g.guarantyType).filter(Boolean))];
+  facts["collateral.types"] = [...new Set(t.collateral.map((c) => c.itemType))];
+  facts["covenants.categories"] = [...new Set(t.covenants.map((c) => c.category).filter(Boolean))];
+  facts["covenants.kinds"] = [...new Set(t.covenants.map((c) => c.kind))];
+  return facts;
+}
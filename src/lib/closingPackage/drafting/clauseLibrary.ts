@@ -0,0 +1,185 @@
+/**
+ * Clause Library
+ *
+ * Bank-owned, versioned clauses picked into loan documents by condition.
+ * A clause is identified by clause_key; each edit is a new version and
+ * the highest active version is the one drafted. Conditions are a small
+ * JSON predicate language over clauseFacts():
+ *
+ *   { "fact": "collateral.types", "contains": "real_estate" }
+ *   { "all": [ { "fact": "loan.interest_only_months", "gt": 0 },
+ *              { "not": { "fact": "loan.product_type", "eq": "loc" } } ] }
+ *
+ * A clause with no condition always applies to its document types.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+export const DRAFTABLE_DOCUMENT_TYPES = [
+  "promissory_note",
+  "loan_agreement",
+  "guaranty",
+  "security_agreement",
+  "deed_of_trust",
+  "borrowing_base",
+  "sba_note",
+  "sba_guaranty",
+  "sba_authorization",
+] as const;
+
+export type DraftableDocumentType = (typeof DRAFTABLE_DOCUMENT_TYPES)[number];
+
+type Scalar = string | number | boolean;
+
+export type ClauseCondition =
+  | { all: ClauseCondition[] }
+  | { any: ClauseCondition[] }
+  | { not: ClauseCondition }
+  | {
+      fact: string;
+      eq?: Scalar;
+      in?: Scalar[];
+      gt?: number;
+      gte?: number;
+      lt?: number;
+      lte?: number;
+      contains?: Scalar;
+      exists?: boolean;
+    };
+
+export type ClauseDefinition = {
+  id: string;
+  clauseKey: string;
+  version: number;
+  title: string;
+  /** Template slot the clause is drafted into ({{clauses.<section>}}) */
+  section: string;
+  documentTypes: string[];
+  condition: ClauseCondition | null;
+  body: string;
+  sortOrder: number;
+  active: boolean;
+};
+
+export type SelectedClause = Pick<ClauseDefinition, "id" | "clauseKey" | "version" | "title" | "section" | "body">;
+
+const CLAUSE_KEY = /^[a-z][a-z0-9_.]{1,63}$/;
+const SECTION_KEY = /^[a-z][a-z0-9_]{0,31}$/;
+const COVENANT_FIELD = /^covenant\.[a-z_]+\.(threshold|frequency)$/;
+const COMPARATORS = ["eq", "in", "gt", "gte", "lt", "lte", "contains", "exists"] as const;
+
+export function evaluateCondition(cond: ClauseCondition | null, facts: Record<string, unknown>): boolean {
+  if (!cond) return true;
+  if ("all" in cond) return cond.all.every((c) => evaluateCondition(c, facts));
+  if ("any" in cond) return cond.any.some((c) => evaluateCondition(c, facts));
+  if ("not" in cond) return !evaluateCondition(cond.not, facts);
+
+  const v = facts[cond.fact];
+  const present = v !== null && v !== undefined && !(Array.isArray(v) && v.length === 0);
+  if (cond.exists !== undefined && cond.exists !== present) return false;
+  if (cond.eq !== undefined && v !== cond.eq) return false;
+  if (cond.in !== undefined && !cond.in.includes(v as Scalar)) return false;
+  if (cond.contains !== undefined && !(Array.isArray(v) && v.includes(cond.contains))) return false;
+  const n = typeof v === "number" ? v : NaN;
+  if (cond.gt !== undefined && !(n > cond.gt)) return false;
+  if (cond.gte !== undefined && !(n >= cond.gte)) return false;
+  if (cond.lt !== undefined && !(n < cond.lt)) return false;
+  if (cond.lte !== undefined && !(n <= cond.lte)) return false;
+  return true;
+}
+
+/**
+ * The clauses a document of `documentType` gets for these facts: the
+ * highest active version of each clause_key that targets the document
+ * type and whose condition holds, in section / sort order.
+ */
+export function selectClauses(
+  library: ClauseDefinition[],
+  documentType: string,
+  facts: Record<string, unknown>,
+): SelectedClause[] {
+  const latest = new Map<string, ClauseDefinition>();
+  for (const c of library) {
+    if (!c.active) continue;
+    const prev = latest.get(c.clauseKey);
+    if (!prev || c.version > prev.version) latest.set(c.clauseKey, c);
+  }
+
+  return [...latest.values()]
+    .filter((c) => c.documentTypes.includes(documentType) && evaluateCondition(c.condition, facts))
+    .sort((a, b) => a.section.localeCompare(b.section) || a.sortOrder - b.sortOrder || a.clauseKey.localeCompare(b.clauseKey))
+    .map(({ id, clauseKey, version, title, section, body }) => ({ id, clauseKey, version, title, section, body }));
+}
+
+function conditionErrors(cond: unknown, path: string): string[] {
+  if (!cond || typeof cond !== "object" || Array.isArray(cond)) return [`${path}: must be an object`];
+  const c = cond as Record<string, unknown>;
+  if ("all" in c || "any" in c) {
+    const list = c.all ?? c.any;
+    if (!Array.isArray(list) || list.length === 0) return [`${path}: all/any needs a non-empty list`];
+    return list.flatMap((x, i) => conditionErrors(x, `${path}.${"all" in c ? "all" : "any"}[${i}]`));
+  }
+  if ("not" in c) return conditionErrors(c.not, `${path}.not`);
+  if (typeof c.fact !== "string" || !c.fact) return [`${path}: needs all, any, not or fact`];
+  if (!COMPARATORS.some((k) => k in c)) return [`${path}: fact "${c.fact}" needs a comparator (${COMPARATORS.join(", ")})`];
+  const unknown = Object.keys(c).filter((k) => k !== "fact" && !(COMPARATORS as readonly string[]).includes(k));
+  return unknown.length ? [`${path}: unknown keys ${unknown.join(", ")}`] : [];
+}
+
+/**
+ * Validate a clause before it is stored as a new version. `knownFields`
+ * limits the merge fields the body may reference; covenant fields
+ * (covenant.<category>.*) are always allowed since they depend on the deal.
+ */
+export function validateClauseDefinition(
+  c: { clauseKey: string; title: string; section: string; documentTypes: string[]; condition: unknown; body: string },
+  knownFields: Set<string>,
+): string[] {
+  const errors: string[] = [];
+  if (!CLAUSE_KEY.test(c.clauseKey)) errors.push("clause_key must be lowercase letters, digits, _ or .");
+  if (!c.title.trim()) errors.push("title is required");
+  if (!SECTION_KEY.test(c.section)) errors.push("section must be a lowercase identifier");
+  if (c.documentTypes.length === 0) errors.push("document_types must name at least one document type");
+  for (const t of c.documentTypes) {
+    if (!(DRAFTABLE_DOCUMENT_TYPES as readonly string[]).includes(t)) errors.push(`unknown document type "${t}"`);
+  }
+  if (c.condition != null) errors.push(...conditionErrors(c.condition, "condition"));
+  if (!c.body.trim()) errors.push("body is required");
+  for (const field of mergeFieldsIn(c.body)) {
+    if (field.startsWith("clauses.")) errors.push(`clauses cannot contain clause slots ({{${field}}})`);
+    else if (!knownFields.has(field) && !COVENANT_FIELD.test(field)) {
+      errors.push(`unknown merge field {{${field}}}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate a bank drafting template before it is stored as a new version.
+ * Besides merge fields the body may hold clause slots ({{clauses.<section>}}).
+ */
+export function validateDraftingTemplate(
+  t: { documentType: string; title: string; body: string },
+  knownFields: Set<string>,
+): string[] {
+  const errors: string[] = [];
+  if (!(DRAFTABLE_DOCUMENT_TYPES as readonly string[]).includes(t.documentType)) {
+    errors.push(`unknown document type "${t.documentType}"`);
+  }
+  if (!t.title.trim()) errors.push("title is required");
+  if (!t.body.trim()) errors.push("body is required");
+  for (const field of mergeFieldsIn(t.body)) {
+    if (field.startsWith("clauses.")) {
+      if (!SECTION_KEY.test(field.slice("clauses.".length))) errors.push(`invalid clause slot {{${field}}}`);
+    } else if (!knownFields.has(field) && !COVENANT_FIELD.test(field)) {
+      errors.push(`unknown merge field {{${field}}}`);
+    }
+  }
+  return errors;
+}
+
+const MERGE_FIELD = /\{\{\s*([a-z0-9_.]+)\s*\}\}/g;
+
+export function mergeFieldsIn(text: string): string[] {
+  return [...new Set([...text.matchAll(MERGE_FIELD)].map((m) => m[1]))];
+}
@@ -0,0 +1,206 @@
+/**
+ * Approved-Terms Diff
+ *
+ * Compares drafted loan documents against the current approved terms.
+ * Every deviation blocks funding authorization until the package is
+ * redrafted (or the template / clause fixed):
+ *
+ *   required_term_missing — the document type must state a term it does not
+ *   term_mismatch         — a merge field was filled with a value that is no
+ *                           longer the approved one (terms changed after drafting)
+ *   unresolved_field      — a merge field had no approved value
+ *   literal_figure        — a dollar amount typed into template or clause text
+ *                           that matches no approved figure (percentages in
+ *                           boilerplate — late charges, default margins — are
+ *                           bank standard terms and are only recorded)
+ *   covenant_missing      — an approved covenant appears in no drafted document
+ *   document_not_drafted  — a draftable document in the package has no draft
+ *   terms_incomplete      — the approved terms themselves have a gap
+ *
+ * Pure — no DB, no side effects.
+ */
+
+import { fieldValues, type ApprovedTerms, type FieldValue } from "./approvedTerms";
+import { DRAFTABLE_DOCUMENT_TYPES } from "./clauseLibrary";
+import type { DraftedDocument } from "./draftDocument";
+
+export type DeviationCode =
+  | "required_term_missing"
+  | "term_mismatch"
+  | "unresolved_field"
+  | "literal_figure"
+  | "covenant_missing"
+  | "document_not_drafted"
+  | "terms_incomplete";
+
+export type DocumentDeviation = {
+  code: DeviationCode;
+  documentType: string | null;
+  field: string | null;
+  expected: string | null;
+  actual: string | null;
+  message: string;
+};
+
+/** Terms each document type must state, by merge field. */
+export const REQUIRED_TERMS: Record<string, string[]> = {
+  promissory_note: ["borrower.legal_name", "loan.amount", "loan.rate_pct", "loan.term_months"],
+  sba_note: ["borrower.legal_name", "loan.amount", "loan.rate_pct", "loan.term_months"],
+  loan_agreement: ["borrower.legal_name", "loan.amount", "loan.term_months"],
+  guaranty: ["borrower.legal_name", "guarantors.names", "loan.amount"],
+  sba_guaranty: ["borrower.legal_name", "guarantors.names", "loan.amount"],
+  security_agreement: ["borrower.legal_name", "collateral.descriptions", "loan.amount"],
+  deed_of_trust: ["borrower.legal_name", "collateral.descriptions", "loan.amount"],
+  borrowing_base: ["borrower.legal_name", "loan.amount"],
+  sba_authorization: ["borrower.legal_name", "loan.amount", "loan.term_months"],
+};
+
+type DraftFacts = Pick<DraftedDocument, "documentType" | "bindings" | "unresolved" | "literals">;
+
+function show(v: FieldValue["value"] | undefined): string | null {
+  if (v === null || v === undefined) return null;
+  return Array.isArray(v) ? v.join("; ") : String(v);
+}
+
+function sameValue(a: FieldValue["value"], b: FieldValue["value"] | undefined): boolean {
+  if (b === undefined) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && [...a].sort().join("\u0000") === [...b].sort().join("\u0000");
+  }
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) < 1e-9;
+  return a === b;
+}
+
+/** Every approved figure a dollar literal may legitimately repeat. */
+function approvedFigures(t: ApprovedTerms): number[] {
+  const figures: number[] = [];
+  for (const f of Object.values(fieldValues(t))) {
+    if (typeof f.value === "number") figures.push(f.value);
+  }
+  for (const g of t.guarantors) if (g.guarantyAmount != null) figures.push(g.guarantyAmount);
+  for (const c of t.collateral) if (c.estimatedValue != null) figures.push(c.estimatedValue);
+  for (const c of t.covenants) if (c.threshold != null) figures.push(c.threshold);
+  return figures;
+}
+
+function figureValue(literal: string): number {
+  return Number(literal.replace(/[$,%\s]/g, ""));
+}
+
+export function diffDraftAgainstTerms(draft: DraftFacts, terms: ApprovedTerms): DocumentDeviation[] {
+  const out: DocumentDeviation[] = [];
+  const docType = draft.documentType;
+  const current = fieldValues(terms);
+
+  for (const field of REQUIRED_TERMS[docType] ?? []) {
+    if (!(field in draft.bindings) && !draft.unresolved.includes(field)) {
+      out.push({
+        code: "required_term_missing",
+        documentType: docType,
+        field,
+        expected: show(current[field]?.value),
+        actual: null,
+        message: `The ${docType} does not state ${field}.`,
+      });
+    }
+  }
+
+  for (const field of draft.unresolved) {
+    out.push({
+      code: "unresolved_field",
+      documentType: docType,
+      field,
+      expected: null,
+      actual: null,
+      message: field in current ? `${field} has no approved value yet.` : `{{${field}}} is not a known merge field.`,
+    });
+  }
+
+  for (const [field, drafted] of Object.entries(draft.bindings)) {
+    const approved = current[field]?.value;
+    if (approved === null || !sameValue(drafted, approved)) {
+      out.push({
+        code: "term_mismatch",
+        documentType: docType,
+        field,
+        expected: show(approved),
+        actual: show(drafted),
+        message: `${field} was drafted as "${show(drafted)}" but the approved term is "${show(approved) ?? "none"}".`,
+      });
+    }
+  }
+
+  const figures = approvedFigures(terms);
+  for (const literal of draft.literals) {
+    if (!literal.startsWith("$")) continue;
+    const n = figureValue(literal);
+    if (figures.some((f) => Math.abs(f - n) < 0.0005)) continue;
+    out.push({
+      code: "literal_figure",
+      documentType: docType,
+      field: null,
+      expected: null,
+      actual: literal,
+      message: `"${literal}" is written into the document text and matches no approved term.`,
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Package-level diff: each drafted document, every draftable document the
+ * package holds without a draft, covenant coverage across the package and
+ * gaps in the approved terms. A package with no drafts at all (the bank has
+ * no drafting templates) has nothing to diff and returns no deviations.
+ */
+export function diffPackageAgainstTerms(
+  documents: Array<{ documentType: string; draft: DraftFacts | null }>,
+  terms: ApprovedTerms,
+): DocumentDeviation[] {
+  const drafted = documents.filter((d) => d.draft !== null).map((d) => d.draft!);
+  if (drafted.length === 0) return [];
+
+  const out: DocumentDeviation[] = terms.gaps.map((gap) => ({
+    code: "terms_incomplete" as const,
+    documentType: null,
+    field: null,
+    expected: null,
+    actual: gap,
+    message: `Approved terms are incomplete: ${gap}.`,
+  }));
+
+  for (const d of documents) {
+    if (d.draft) {
+      out.push(...diffDraftAgainstTerms(d.draft, terms));
+    } else if ((DRAFTABLE_DOCUMENT_TYPES as readonly string[]).includes(d.documentType)) {
+      out.push({
+        code: "document_not_drafted",
+        documentType: d.documentType,
+        field: null,
+        expected: null,
+        actual: null,
+        message: `The ${d.documentType} has not been drafted from the approved terms.`,
+      });
+    }
+  }
+
+  const bound = new Set(drafted.flatMap((d) => Object.keys(d.bindings)));
+  for (const c of terms.covenants) {
+    const covered =
+      bound.has("covenants.schedule") ||
+      (c.kind === "financial" && c.category !== null && bound.has(`covenant.${c.category}.threshold`));
+    if (!covered) {
+      out.push({
+        code: "covenant_missing",
+        documentType: null,
+        field: c.category ? `covenant.${c.category}.threshold` : "covenants.schedule",
+        expected: c.name,
+        actual: null,
+        message: `Approved covenant "${c.name}" does not appear in any drafted document.`,
+      });
+    }
+  }
+
+  return out;
+}
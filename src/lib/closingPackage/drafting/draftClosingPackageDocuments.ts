@@ -0,0 +1,207 @@
+import "server-only";
+
+/**
+ * Loan Document Drafting — package runner
+ *
+ * Drafts every document of a closing package that the bank has an active
+ * drafting template for: selects clauses from the bank's clause library,
+ * fills the template from the approved terms, renders DOCX + PDF through
+ * the closing render spine and stores the draft with its deviations from
+ * the approved terms. Documents without a bank template stay as stubs.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { logLedgerEvent } from "@/lib/pipeline/logLedgerEvent";
+import { renderClosingPackageDocument } from "@/lib/closing/render/renderClosingPackageDocument";
+import { computeInputChecksum, computeOutputChecksum } from "@/lib/closing/render/computeRenderChecksum";
+import { clauseFacts } from "./approvedTerms";
+import { selectClauses, type ClauseCondition, type ClauseDefinition } from "./clauseLibrary";
+import { draftLoanDocument, draftPlainText, type DraftTemplate } from "./draftDocument";
+import { diffDraftAgainstTerms } from "./diffApprovedTerms";
+import { loadApprovedTerms } from "./loadApprovedTerms";
+import { renderDraftDocx, renderDraftPdf } from "./renderDraftFiles";
+
+const BUCKET = "generated-documents";
+
+type DraftPackageInput = {
+  dealId: string;
+  bankId: string;
+  closingPackageId: string;
+  actorUserId: string;
+};
+
+export type DraftPackageResult =
+  | { ok: true; draftedCount: number; failedCount: number; deviationCount: number; undraftedTypes: string[] }
+  | { ok: false; error: string };
+
+/** Active drafting templates for a bank, highest version per document type. */
+export async function loadBankDraftingTemplates(bankId: string): Promise<Map<string, DraftTemplate>> {
+  const sb = supabaseAdmin();
+  const { data, error } = await (sb as any)
+    .from("loan_doc_drafting_templates")
+    .select("id, document_type, version, title, body")
+    .eq("bank_id", bankId)
+    .eq("is_active", true)
+    .order("version", { ascending: false });
+  if (error) throw new Error(`loan_doc_drafting_templates_select_failed:${error.message}`);
+
+  const out = new Map<string, DraftTemplate>();
+  for (const r of (data ?? []) as any[]) {
+    if (out.has(r.document_type)) continue;
+    out.set(r.document_type, {
+      id: r.id,
+      documentType: r.document_type,
+      version: Number(r.version),
+      title: r.title,
+      body: r.body,
+    });
+  }
+  return out;
+}
+
+export async function loadBankClauseLibrary(bankId: string): Promise<ClauseDefinition[]> {
+  const sb = supabaseAdmin();
+  const { data, error } = await (sb as any)
+    .from("loan_doc_clauses")
+    .select("id, clause_key, version, title, section, document_types, condition_json, body, sort_order, is_active")
+    .eq("bank_id", bankId);
+  if (error) throw new Error(`loan_doc_clauses_select_failed:${error.message}`);
+
+  return ((data ?? []) as any[]).map((r) => ({
+    id: r.id,
+    clauseKey: r.clause_key,
+    version: Number(r.version),
+    title: r.title,
+    section: r.section,
+    documentTypes: (r.document_types ?? []) as string[],
+    condition: (r.condition_json ?? null) as ClauseCondition | null,
+    body: r.body,
+    sortOrder: Number(r.sort_order ?? 0),
+    active: Boolean(r.is_active),
+  }));
+}
+
+export async function draftClosingPackageDocuments(input: DraftPackageInput): Promise<DraftPackageResult> {
+  const { dealId, bankId, closingPackageId, actorUserId } = input;
+  const sb = supabaseAdmin();
+
+  const { data: pkg, error: pkgErr } = await sb
+    .from("closing_packages")
+    .select("id, deal_id, status, generated_from_json")
+    .eq("id", closingPackageId)
+    .eq("deal_id", dealId)
+    .maybeSingle();
+  if (pkgErr) return { ok: false, error: `closing_packages_select_failed:${pkgErr.message}` };
+  if (!pkg) return { ok: false, error: "package_not_found" };
+  if (pkg.status === "superseded") return { ok: false, error: "package_superseded" };
+
+  const templateKey = (pkg.generated_from_json as { templateKey?: string } | null)?.templateKey ?? null;
+  const { data: productTemplate } = await sb
+    .from("loan_doc_templates")
+    .select("id")
+    .eq("template_key", templateKey ?? "")
+    .maybeSingle();
+  if (!productTemplate) return { ok: false, error: "product_template_not_found" };
+
+  const { data: docs, error: docsErr } = await sb
+    .from("closing_package_documents")
+    .select("id, document_type")
+    .eq("closing_package_id", closingPackageId);
+  if (docsErr) return { ok: false, error: `closing_package_documents_select_failed:${docsErr.message}` };
+
+  const [templates, library, terms] = await Promise.all([
+    loadBankDraftingTemplates(bankId),
+    loadBankClauseLibrary(bankId),
+    loadApprovedTerms(dealId),
+  ]);
+  const facts = clauseFacts(terms);
+  const termsChecksum = computeInputChecksum(terms as any);
+
+  let draftedCount = 0;
+  let failedCount = 0;
+  let deviationCount = 0;
+  const undraftedTypes: string[] = [];
+
+  for (const doc of (docs ?? []) as Array<{ id: string; document_type: string }>) {
+    const template = templates.get(doc.document_type);
+    if (!template) {
+      if (doc.document_type !== "closing_checklist") undraftedTypes.push(doc.document_type);
+      continue;
+    }
+
+    const draft = draftLoanDocument({
+      template,
+      clauses: selectClauses(library, doc.document_type, facts),
+      terms,
+    });
+    const deviations = diffDraftAgainstTerms(draft, terms);
+    const basePath = `deals/${dealId}/loan-docs/${closingPackageId}/${doc.document_type}-v${template.version}`;
+
+    const rendered = await renderClosingPackageDocument({
+      dealId,
+      bankId,
+      closingPackageId,
+      closingPackageDocumentId: doc.id,
+      templateId: productTemplate.id,
+      templateCode: doc.document_type,
+      templateVersion: String(template.version),
+      snapshot: { draftingTemplateId: template.id, clauses: draft.clauses, bindings: draft.bindings, termsChecksum },
+      createdBy: actorUserId,
+      rendererName: "loan-doc-drafting",
+      engine: async () => {
+        const [docx, pdf] = await Promise.all([renderDraftDocx(draft, termsChecksum), renderDraftPdf(draft, termsChecksum)]);
+        const storage = sb.storage.from(BUCKET);
+        const up1 = await storage.upload(`${basePath}.docx`, docx, {
+          contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+          upsert: true,
+        });
+        if (up1.error) throw new Error(`docx_upload_failed:${up1.error.message}`);
+        const up2 = await storage.upload(`${basePath}.pdf`, pdf, { contentType: "application/pdf", upsert: true });
+        if (up2.error) throw new Error(`pdf_upload_failed:${up2.error.message}`);
+
+        const { error: updErr } = await (sb as any)
+          .from("closing_package_documents")
+          .update({
+            title: draft.title,
+            storage_ref: `${basePath}.pdf`,
+            docx_storage_ref: `${basePath}.docx`,
+            drafted_text: draftPlainText(draft),
+            draft_json: { ...draft, termsChecksum },
+            deviations_json: deviations,
+            drafted_at: new Date().toISOString(),
+          })
+          .eq("id", doc.id);
+        if (updErr) throw new Error(`closing_package_documents_update_failed:${updErr.message}`);
+
+        return { outputChecksum: computeOutputChecksum(pdf) };
+      },
+    });
+
+    if (rendered.ok) {
+      draftedCount += 1;
+      deviationCount += deviations.length;
+    } else {
+      failedCount += 1;
+    }
+  }
+
+  await logLedgerEvent({
+    dealId,
+    bankId,
+    eventKey: "closing_package.drafted",
+    uiState: "done",
+    uiMessage: `Loan documents drafted: ${draftedCount}`,
+    meta: {
+      package_id: closingPackageId,
+      drafted_count: draftedCount,
+      failed_count: failedCount,
+      deviation_count: deviationCount,
+      undrafted_types: undraftedTypes,
+      terms_checksum: termsChecksum,
+      terms_gaps: terms.gaps,
+      actor: actorUserId,
+    },
+  }).catch(() => {});
+
+  return { ok: true, draftedCount, failedCount, deviationCount, undraftedTypes };
+}
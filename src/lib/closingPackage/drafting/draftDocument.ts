@@ -0,0 +1,165 @@
+/**
+ * Loan Document Drafting
+ *
+ * Fills a bank template with the approved terms and the clauses selected
+ * for it. Template syntax:
+ *
+ *   # Heading / ## Sub-heading      — one line
+ *   blank line                      — paragraph break
+ *   {{loan.amount}}                 — merge field (see fieldValues)
+ *   {{clauses.covenants}}           — the selected clauses of a section
+ *
+ * Selected clauses whose section has no slot in the template are drafted
+ * under "Additional Provisions" rather than dropped. The draft records
+ * what each merge field was bound to, any field that could not be
+ * resolved, and every dollar or percent figure typed directly into the
+ * template or clause text — the inputs diffDraftAgainstTerms checks.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+import { fieldValues, type ApprovedTerms, type FieldValue } from "./approvedTerms";
+import { mergeFieldsIn, type SelectedClause } from "./clauseLibrary";
+
+export type DraftTemplate = {
+  id: string;
+  documentType: string;
+  version: number;
+  title: string;
+  body: string;
+};
+
+export type DraftBlock = { kind: "heading"; level: 1 | 2; text: string } | { kind: "paragraph"; text: string };
+
+export type DraftedDocument = {
+  documentType: string;
+  title: string;
+  templateId: string;
+  templateVersion: number;
+  clauses: Array<{ id: string; clauseKey: string; version: number }>;
+  blocks: DraftBlock[];
+  /** Raw approved value each merge field was filled with */
+  bindings: Record<string, FieldValue["value"]>;
+  unresolved: string[];
+  /** "$…" / "…%" figures written into template or clause text */
+  literals: string[];
+};
+
+export const UNRESOLVED_MARK = "[UNRESOLVED]";
+
+const CLAUSE_SLOT = /\{\{\s*clauses\.([a-z0-9_]+)\s*\}\}/g;
+const MERGE_FIELD = /\{\{\s*([a-z0-9_.]+)\s*\}\}/g;
+const FIGURE = /\$\s?\d[\d,]*(?:\.\d+)?|\d+(?:\.\d+)?\s?%/g;
+
+function clauseText(c: SelectedClause): string {
+  return `## ${c.title}\n\n${c.body.trim()}`;
+}
+
+export function formatFieldValue(f: FieldValue): string {
+  const v = f.value;
+  if (v === null) return UNRESOLVED_MARK;
+  if (Array.isArray(v)) return v.join("; ");
+  if (typeof v === "number") {
+    switch (f.format) {
+      case "currency":
+        return `$${v.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      case "percent":
+        return `${v.toFixed(3)}%`;
+      case "months":
+        return `${v} months`;
+      default:
+        return String(v);
+    }
+  }
+  if (f.format === "date" && /^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    return new Date(`${v}T00:00:00Z`).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  }
+  return v;
+}
+
+function toBlocks(text: string): DraftBlock[] {
+  const blocks: DraftBlock[] = [];
+  let para: string[] = [];
+  const flush = () => {
+    const t = para.join(" ").replace(/\s+/g, " ").trim();
+    if (t) blocks.push({ kind: "paragraph", text: t });
+    para = [];
+  };
+  for (const line of text.split(/\r?\n/)) {
+    const heading = /^(#{1,2})\s+(.+)$/.exec(line.trim());
+    if (heading) {
+      flush();
+      blocks.push({ kind: "heading", level: heading[1].length as 1 | 2, text: heading[2].trim() });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      para.push(line.trim());
+    }
+  }
+  flush();
+  return blocks;
+}
+
+export function draftLoanDocument(input: {
+  template: DraftTemplate;
+  clauses: SelectedClause[];
+  terms: ApprovedTerms;
+}): DraftedDocument {
+  const { template, clauses, terms } = input;
+
+  const bySection = new Map<string, SelectedClause[]>();
+  for (const c of clauses) {
+    if (!bySection.has(c.section)) bySection.set(c.section, []);
+    bySection.get(c.section)!.push(c);
+  }
+  const placed = new Set<string>();
+  let source = template.body.replace(CLAUSE_SLOT, (_m, section: string) => {
+    placed.add(section);
+    return (bySection.get(section) ?? []).map(clauseText).join("\n\n");
+  });
+  const unplaced = clauses.filter((c) => !placed.has(c.section));
+  if (unplaced.length > 0) {
+    source += `\n\n# Additional Provisions\n\n${unplaced.map(clauseText).join("\n\n")}`;
+  }
+
+  const literals = [...new Set(source.replace(MERGE_FIELD, " ").match(FIGURE) ?? [])];
+
+  const values = fieldValues(terms);
+  const bindings: DraftedDocument["bindings"] = {};
+  const unresolved = new Set<string>();
+  for (const field of mergeFieldsIn(source)) {
+    const f = values[field];
+    if (!f || f.value === null) unresolved.add(field);
+    else bindings[field] = f.value;
+  }
+  const merged = source.replace(MERGE_FIELD, (_m, field: string) => {
+    const f = values[field];
+    return f ? formatFieldValue(f) : UNRESOLVED_MARK;
+  });
+
+  return {
+    documentType: template.documentType,
+    title: template.title,
+    templateId: template.id,
+    templateVersion: template.version,
+    clauses: clauses.map((c) => ({ id: c.id, clauseKey: c.clauseKey, version: c.version })),
+    blocks: toBlocks(merged),
+    bindings,
+    unresolved: [...unresolved].sort(),
+    literals,
+  };
+}
+
+/** Plain text of a draft (stored for review and full-text diffing). */
+export function draftPlainText(doc: Pick<DraftedDocument, "title" | "blocks">): string {
+  const lines = [doc.title.toUpperCase(), ""];
+  for (const b of doc.blocks) {
+    lines.push(b.kind === "heading" ? b.text.toUpperCase() : b.text, "");
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
@@ -0,0 +1,46 @@
+import "server-only";
+
+/**
+ * Re-diffs a closing package's drafted documents against the approved
+ * terms as they stand now, so a term changed after drafting (re-priced,
+ * covenant edited) reopens the package. Used by the funding authorization
+ * gate and the package review screen.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { ApprovedTerms } from "./approvedTerms";
+import { diffPackageAgainstTerms, type DocumentDeviation } from "./diffApprovedTerms";
+import type { DraftedDocument } from "./draftDocument";
+import { loadApprovedTerms } from "./loadApprovedTerms";
+
+export type LoanDocumentDeviations = {
+  /** False when no document in the package was drafted (stub package) */
+  drafted: boolean;
+  deviations: DocumentDeviation[];
+  terms: ApprovedTerms | null;
+};
+
+export async function getLoanDocumentDeviations(dealId: string, closingPackageId: string): Promise<LoanDocumentDeviations> {
+  const sb = supabaseAdmin();
+  const { data, error } = await (sb as any)
+    .from("closing_package_documents")
+    .select("document_type, draft_json")
+    .eq("closing_package_id", closingPackageId);
+  if (error) throw new Error(`closing_package_documents_select_failed:${error.message}`);
+
+  const documents = ((data ?? []) as Array<{ document_type: string; draft_json: DraftedDocument | null }>).map((d) => ({
+    documentType: d.document_type,
+    draft: d.draft_json
+      ? {
+          documentType: d.document_type,
+          bindings: d.draft_json.bindings ?? {},
+          unresolved: d.draft_json.unresolved ?? [],
+          literals: d.draft_json.literals ?? [],
+        }
+      : null,
+  }));
+  if (!documents.some((d) => d.draft)) return { drafted: false, deviations: [], terms: null };
+
+  const terms = await loadApprovedTerms(dealId);
+  return { drafted: true, deviations: diffPackageAgainstTerms(documents, terms), terms };
+}
@@ -0,0 +1,219 @@
+import "server-only";
+
+/**
+ * Loads the approved terms a deal's loan documents are drafted from:
+ * the latest final decision snapshot, the pricing decision's terms (or
+ * the latest locked quote), the latest covenant package, borrower,
+ * guarantors and collateral. See approvedTerms.ts for the shape.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type {
+  BehavioralCovenant,
+  FinancialCovenant,
+  ReportingCovenant,
+  SpringingCovenant,
+} from "@/lib/covenants/covenantTypes";
+import { buildApprovedTerms, type ApprovedCovenant, type ApprovedTerms, type ApprovedTermsSources } from "./approvedTerms";
+
+type Sb = ReturnType<typeof supabaseAdmin>;
+
+function num(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function prepaymentText(v: unknown): string | null {
+  if (!v) return null;
+  if (typeof v === "string") return v;
+  const o = v as Record<string, unknown>;
+  return typeof o.description === "string" ? o.description : typeof o.type === "string" ? o.type : null;
+}
+
+async function loadPricing(sb: Sb, dealId: string): Promise<ApprovedTermsSources["pricing"]> {
+  const { data: decision } = await (sb as any)
+    .from("pricing_decisions")
+    .select("id, decision")
+    .eq("deal_id", dealId)
+    .maybeSingle();
+
+  if (decision?.decision === "APPROVED") {
+    const { data: terms } = await (sb as any)
+      .from("pricing_terms")
+      .select("interest_rate, spread, index_code, amort_years, term_years, loan_amount, prepayment")
+      .eq("pricing_decision_id", decision.id)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (terms) {
+      const spread = num(terms.spread);
+      const amortYears = num(terms.amort_years);
+      const termYears = num(terms.term_years);
+      return {
+        source: "pricing_decision",
+        id: String(decision.id),
+        loanAmount: num(terms.loan_amount),
+        ratePct: num(terms.interest_rate),
+        indexCode: terms.index_code ?? null,
+        spreadBps: spread !== null ? Math.round(spread * 100) : null,
+        termMonths: termYears !== null ? termYears * 12 : null,
+        amortMonths: amortYears !== null ? amortYears * 12 : null,
+        interestOnlyMonths: null,
+        monthlyPayment: null,
+        prepayment: prepaymentText(terms.prepayment),
+      };
+    }
+  }
+
+  const { data: quote } = await (sb as any)
+    .from("deal_pricing_quotes")
+    .select("id, loan_amount, all_in_rate_pct, index_code, spread_bps, term_months, amort_months, interest_only_months, monthly_payment_pi")
+    .eq("deal_id", dealId)
+    .eq("status", "locked")
+    .order("locked_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!quote) return null;
+  return {
+    source: "locked_quote",
+    id: String(quote.id),
+    loanAmount: num(quote.loan_amount),
+    ratePct: num(quote.all_in_rate_pct),
+    indexCode: quote.index_code ?? null,
+    spreadBps: num(quote.spread_bps),
+    termMonths: num(quote.term_months),
+    amortMonths: num(quote.amort_months),
+    interestOnlyMonths: num(quote.interest_only_months),
+    monthlyPayment: num(quote.monthly_payment_pi),
+    prepayment: null,
+  };
+}
+
+function covenantsFrom(row: {
+  financial_covenants: FinancialCovenant[] | null;
+  reporting_covenants: ReportingCovenant[] | null;
+  behavioral_covenants: BehavioralCovenant[] | null;
+  springing_covenants: SpringingCovenant[] | null;
+}): ApprovedCovenant[] {
+  const out: ApprovedCovenant[] = (row.financial_covenants ?? []).map((c) => ({
+    key: c.id,
+    kind: "financial",
+    category: c.category ?? null,
+    name: c.name,
+    threshold: num(c.threshold),
+    unit: c.unit ?? null,
+    frequency: c.testingFrequency ?? null,
+    language: c.draftLanguage ?? "",
+  }));
+  const other = (kind: ApprovedCovenant["kind"], c: { id: string; name: string }, frequency: string | null, language: string) =>
+    out.push({ key: c.id, kind, category: null, name: c.name, threshold: null, unit: null, frequency, language });
+  for (const c of row.reporting_covenants ?? []) other("reporting", c, c.frequency ?? null, c.draftLanguage ?? c.requirement);
+  for (const c of row.behavioral_covenants ?? []) other("behavioral", c, null, c.draftLanguage ?? "");
+  for (const c of row.springing_covenants ?? []) other("springing", c, null, c.draftLanguage ?? c.remedy);
+  return out;
+}
+
+export async function loadApprovedTerms(dealId: string): Promise<ApprovedTerms> {
+  const sb = supabaseAdmin();
+
+  const [decisionRes, pricing, covenantRes, collateralRes, guarantorRes, dealRes, intakeRes, requestRes] = await Promise.all([
+    (sb as any)
+      .from("decision_snapshots")
+      .select("id, decision, status, created_at")
+      .eq("deal_id", dealId)
+      .eq("status", "final")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    loadPricing(sb, dealId),
+    (sb as any)
+      .from("buddy_covenant_packages")
+      .select("id, status, financial_covenants, reporting_covenants, behavioral_covenants, springing_covenants")
+      .eq("deal_id", dealId)
+      .order("generated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    (sb as any)
+      .from("deal_collateral_items")
+      .select("item_type, description, lien_position, address, estimated_value")
+      .eq("deal_id", dealId),
+    (sb as any)
+      .from("deal_entity_participations")
+      .select("ownership_entity_id, guaranty_type, guaranty_amount, title")
+      .eq("deal_id", dealId)
+      .eq("role_key", "guarantor"),
+    (sb as any).from("deals").select("borrower_id, borrower_name").eq("id", dealId).maybeSingle(),
+    (sb as any).from("deal_intake").select("loan_type").eq("deal_id", dealId).maybeSingle(),
+    (sb as any)
+      .from("deal_loan_requests")
+      .select("purpose")
+      .eq("deal_id", dealId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (decisionRes.error) throw new Error(`decision_snapshots_select_failed:${decisionRes.error.message}`);
+  if (covenantRes.error) throw new Error(`buddy_covenant_packages_select_failed:${covenantRes.error.message}`);
+
+  const deal = dealRes.data as { borrower_id: string | null; borrower_name: string | null } | null;
+  let borrower: any = null;
+  if (deal?.borrower_id) {
+    const { data } = await (sb as any)
+      .from("borrowers")
+      .select("legal_name, address_line1, city, state, zip, state_of_formation")
+      .eq("id", deal.borrower_id)
+      .maybeSingle();
+    borrower = data;
+  }
+  const address = borrower
+    ? [borrower.address_line1, borrower.city, [borrower.state, borrower.zip].filter(Boolean).join(" ")]
+        .filter(Boolean)
+        .join(", ") || null
+    : null;
+
+  const participations = (guarantorRes.data ?? []) as Array<{
+    ownership_entity_id: string | null;
+    guaranty_type: string | null;
+    guaranty_amount: number | null;
+    title: string | null;
+  }>;
+  const entityIds = participations.map((p) => p.ownership_entity_id).filter((id): id is string => Boolean(id));
+  const names = new Map<string, string>();
+  if (entityIds.length > 0) {
+    const { data: entities } = await (sb as any).from("ownership_entities").select("id, display_name").in("id", entityIds);
+    for (const e of (entities ?? []) as Array<{ id: string; display_name: string | null }>) {
+      if (e.display_name) names.set(e.id, e.display_name);
+    }
+  }
+
+  const d = decisionRes.data;
+  const cp = covenantRes.data;
+  return buildApprovedTerms({
+    dealId,
+    decision: d ? { id: String(d.id), decision: String(d.decision), status: String(d.status), createdAt: String(d.created_at) } : null,
+    pricing,
+    productType: intakeRes.data?.loan_type ?? null,
+    purpose: requestRes.data?.purpose ?? null,
+    borrower: {
+      legalName: borrower?.legal_name ?? deal?.borrower_name ?? null,
+      stateOfFormation: borrower?.state_of_formation ?? null,
+      address,
+    },
+    guarantors: participations.map((p) => ({
+      name: (p.ownership_entity_id && names.get(p.ownership_entity_id)) || p.title || "Guarantor",
+      guarantyType: p.guaranty_type,
+      guarantyAmount: num(p.guaranty_amount),
+    })),
+    collateral: ((collateralRes.data ?? []) as any[]).map((c) => ({
+      itemType: String(c.item_type),
+      description: c.description ?? null,
+      lienPosition: Number(c.lien_position ?? 1),
+      address: c.address ?? null,
+      estimatedValue: num(c.estimated_value),
+    })),
+    covenantPackage: cp ? { id: String(cp.id), status: String(cp.status), covenants: covenantsFrom(cp) } : null,
+  });
+}
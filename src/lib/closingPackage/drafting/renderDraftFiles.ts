@@ -0,0 +1,90 @@
+/**
+ * Draft File Rendering
+ *
+ * Turns a drafted loan document into the DOCX (for counsel edits) and PDF
+ * (for signature) files stored with the closing package. Uses docx and
+ * pdfkit, the same libraries as the research exports.
+ */
+
+import PDFDocument from "pdfkit";
+import { AlignmentType, Document, Footer, HeadingLevel, Packer, PageNumber, Paragraph, TextRun } from "docx";
+import type { DraftedDocument } from "./draftDocument";
+
+type RenderableDraft = Pick<DraftedDocument, "title" | "blocks" | "templateVersion">;
+
+function footerText(draft: RenderableDraft, termsChecksum: string): string {
+  return `Template v${draft.templateVersion} | Terms ${termsChecksum}`;
+}
+
+export async function renderDraftDocx(draft: RenderableDraft, termsChecksum: string): Promise<Buffer> {
+  const children = [
+    new Paragraph({ text: draft.title, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+    ...draft.blocks.map((b) =>
+      b.kind === "heading"
+        ? new Paragraph({ text: b.text, heading: b.level === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2 })
+        : new Paragraph({ children: [new TextRun(b.text)], spacing: { after: 160 }, alignment: AlignmentType.JUSTIFIED }),
+    ),
+  ];
+
+  const doc = new Document({
+    title: draft.title,
+    sections: [
+      {
+        properties: {},
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({ text: `${footerText(draft, termsChecksum)} | Page `, color: "999999", size: 16 }),
+                  new TextRun({ children: [PageNumber.CURRENT], color: "999999", size: 16 }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children,
+      },
+    ],
+  });
+
+  return await Packer.toBuffer(doc);
+}
+
+export async function renderDraftPdf(draft: RenderableDraft, termsChecksum: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const chunks: Buffer[] = [];
+      const doc = new PDFDocument({
+        size: "LETTER",
+        margins: { top: 72, bottom: 72, left: 72, right: 72 },
+        info: { Title: draft.title, CreationDate: new Date() },
+      });
+
+      doc.on("data", (chunk) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      doc.fontSize(16).font("Helvetica-Bold").text(draft.title.toUpperCase(), { align: "center" });
+      doc.moveDown(1.5);
+
+      for (const b of draft.blocks) {
+        if (b.kind === "heading") {
+          doc.moveDown(0.5);
+          doc.fontSize(b.level === 1 ? 12 : 11).font("Helvetica-Bold").text(b.text);
+          doc.moveDown(0.5);
+        } else {
+          doc.fontSize(11).font("Helvetica").text(b.text, { align: "justify" });
+          doc.moveDown(0.75);
+        }
+      }
+
+      doc.moveDown(2);
+      doc.fontSize(8).fillColor("#999999").font("Helvetica").text(footerText(draft, termsChecksum), { align: "center" });
+      doc.end();
+    } catch (err) {
+      reject(err);
+    }
+  });
+}
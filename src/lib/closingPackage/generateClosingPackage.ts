@@ -4,12 +4,14 @@ import "server-only";
  * Phase 56C — Closing Package Generation
  *
  * Assembles a versioned closing package from canonical deal data.
- * Uses template registry to determine supported document types.
+ * Uses template registry to determine supported document types, then
+ * drafts each document the bank has a drafting template for.
  */
 
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { logLedgerEvent } from "@/lib/pipeline/logLedgerEvent";
 import { getDocsGenerationGate } from "./getDocsGenerationGate";
+import { draftClosingPackageDocuments } from "./drafting/draftClosingPackageDocuments";
 
 type GenerateInput = {
   dealId: string;
@@ -21,6 +23,7 @@ type GenerateResult = {
   ok: true;
   packageId: string;
   documentCount: number;
+  draftedCount: number;
   status: string;
 } | {
   ok: false;
@@ -30,7 +33,8 @@ type GenerateResult = {
 
 /**
  * Generate a closing package for a deal.
- * Checks gate, creates package record, generates document stubs.
+ * Checks gate, creates package record, generates document stubs and
+ * drafts them from the approved terms.
  */
 export async function generateClosingPackage(input: GenerateInput): Promise<GenerateResult> {
   const { dealId, bankId, actorUserId } = input;
@@ -121,7 +125,16 @@ export async function generateClosingPackage(input: GenerateInput): Promise<Gene
       await sb.from("closing_checklist_items").insert(checklistItems);
     }
 
-    // 7. Audit
+    // 7. Draft documents from bank templates (a drafting failure leaves stubs)
+    const drafting = await draftClosingPackageDocuments({
+      dealId,
+      bankId,
+      closingPackageId: pkg.id,
+      actorUserId,
+    }).catch((err) => ({ ok: false as const, error: err instanceof Error ? err.message : String(err) }));
+    const draftedCount = drafting.ok ? drafting.draftedCount : 0;
+
+    // 8. Audit
     await logLedgerEvent({
       dealId, bankId,
       eventKey: "closing_package.generated",
@@ -133,11 +146,13 @@ export async function generateClosingPackage(input: GenerateInput): Promise<Gene
         template_key: gate.templateKey,
         document_count: features.length,
         checklist_count: checklistItems.length,
+        drafted_count: draftedCount,
+        drafting_error: drafting.ok ? null : drafting.error,
         actor: actorUserId,
       },
     }).catch(() => {});
 
-    return { ok: true, packageId: pkg.id, documentCount: features.length, status: "generated" };
+    return { ok: true, packageId: pkg.id, documentCount: features.length, draftedCount, status: "generated" };
   } catch (err) {
     return { ok: false, error: err instanceof Error ? err.message : String(err) };
   }
@@ -146,6 +161,7 @@ export async function generateClosingPackage(input: GenerateInput): Promise<Gene
 function humanizeDocType(feature: string): string {
   const map: Record<string, string> = {
     promissory_note: "Promissory Note",
+    loan_agreement: "Loan Agreement",
     guaranty: "Guaranty Agreement",
     security_agreement: "Security Agreement",
     closing_checklist: "Closing Checklist",
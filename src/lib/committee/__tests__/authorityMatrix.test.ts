@@ -0,0 +1,188 @@
+/**
+ * Delegated lending authority matrix (lib/committee/authorityMatrix).
+ *
+ * Relationship exposure aggregation, officer individual / joint limits,
+ * bank matrix escalation rules, co-signer eligibility and matrix
+ * validation.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeRelationshipExposure,
+  routeApproval,
+  validateAuthorityMatrix,
+  type ApprovalRoutingInput,
+  type AuthorityMatrix,
+  type OfficerAuthority,
+} from "../authorityMatrix";
+
+const ALICE: OfficerAuthority = {
+  userId: "alice",
+  individualLimit: 500_000,
+  jointLimit: 1_500_000,
+  maxRiskRating: 5,
+  products: null,
+};
+
+const BOB: OfficerAuthority = {
+  userId: "bob",
+  individualLimit: 1_000_000,
+  jointLimit: 2_000_000,
+  maxRiskRating: 6,
+  products: null,
+};
+
+function input(overrides: Partial<ApprovalRoutingInput> = {}, proposed = 400_000): ApprovalRoutingInput {
+  return {
+    product: "SBA_7A",
+    riskRating: 4,
+    exceptionCount: 0,
+    exposure: computeRelationshipExposure({ proposedAmount: proposed, relatedDeals: [] }),
+    officer: ALICE,
+    officers: [ALICE, BOB],
+    matrix: null,
+    ...overrides,
+  };
+}
+
+describe("computeRelationshipExposure", () => {
+  it("sums the proposed amount with live related deals", () => {
+    const e = computeRelationshipExposure({
+      proposedAmount: 400_000,
+      relatedDeals: [
+        { id: "d2", loan_amount: 250_000, stage: "funded" },
+        { id: "d3", loan_amount: 100_000, stage: "underwriting" },
+      ],
+    });
+    assert.equal(e.aggregate, 750_000);
+    assert.deepEqual(
+      e.related.map((r) => r.dealId),
+      ["d2", "d3"],
+    );
+  });
+
+  it("excludes declined, withdrawn and lost deals and final declines", () => {
+    const e = computeRelationshipExposure({
+      proposedAmount: 400_000,
+      relatedDeals: [
+        { id: "d2", loan_amount: 250_000, stage: "declined" },
+        { id: "d3", loan_amount: 100_000, brokerage_stage: "withdrawn" },
+        { id: "d4", loan_amount: 300_000, final_decision: "decline" },
+        { id: "d5", loan_amount: null },
+      ],
+    });
+    assert.equal(e.aggregate, 400_000);
+    assert.equal(e.related.length, 0);
+  });
+});
+
+describe("routeApproval — officer authority", () => {
+  it("lets the officer sign alone within individual authority", () => {
+    const r = routeApproval(input());
+    assert.equal(r.route, "sole");
+    assert.equal(r.firedRule.key, "within_individual_authority");
+    assert.equal(r.officerUserId, "alice");
+  });
+
+  it("needs a co-signer once aggregate exposure passes the individual limit", () => {
+    const exposure = computeRelationshipExposure({
+      proposedAmount: 400_000,
+      relatedDeals: [{ id: "d2", loan_amount: 300_000 }],
+    });
+    const r = routeApproval(input({ exposure }));
+    assert.equal(r.route, "co_signer");
+    assert.equal(r.firedRule.key, "exceeds_individual_authority");
+    assert.equal(r.aggregateExposure, 700_000);
+    assert.deepEqual(r.eligibleCoSigners, ["bob"]);
+  });
+
+  it("goes to committee above the joint limit", () => {
+    const r = routeApproval(input({}, 1_600_000));
+    assert.equal(r.route, "committee");
+    assert.equal(r.firedRule.key, "exceeds_joint_authority");
+  });
+
+  it("goes to committee when no other officer can co-sign", () => {
+    const r = routeApproval(input({ officers: [ALICE] }, 700_000));
+    assert.equal(r.route, "committee");
+    assert.equal(r.firedRule.key, "no_eligible_co_signer");
+    assert.ok(r.matchedRules.some((m) => m.key === "exceeds_individual_authority"));
+  });
+
+  it("goes to committee without delegated authority, outside products, or above the risk cap", () => {
+    assert.equal(routeApproval(input({ officer: null })).firedRule.key, "officer_authority_missing");
+    assert.equal(
+      routeApproval(input({ officer: { ...ALICE, products: ["CRE"] } })).firedRule.key,
+      "officer_product_not_authorized",
+    );
+    assert.equal(routeApproval(input({ riskRating: 6 })).firedRule.key, "officer_risk_rating_exceeded");
+    assert.equal(routeApproval(input({ riskRating: null })).firedRule.key, "officer_risk_rating_exceeded");
+  });
+});
+
+describe("routeApproval — bank matrix rules", () => {
+  const matrix: AuthorityMatrix = {
+    version: 3,
+    rules: [
+      { key: "exceptions_cosign", label: "Policy exceptions need a second signature", route: "co_signer", when: { exceptionsGte: 1 } },
+      { key: "sba_large", label: "SBA over $1MM to committee", route: "committee", when: { products: ["SBA_7A"], aggregateExposureGt: 1_000_000 } },
+      { key: "watch_grade", label: "Grade 5+ to committee", route: "committee", when: { riskRatingGte: 5 } },
+    ],
+  };
+
+  it("escalates a sole-authority decision with exceptions to a co-signer", () => {
+    const r = routeApproval(input({ matrix, exceptionCount: 2 }));
+    assert.equal(r.route, "co_signer");
+    assert.equal(r.firedRule.key, "exceptions_cosign");
+    assert.equal(r.firedRule.source, "matrix");
+    assert.equal(r.matrixVersion, 3);
+  });
+
+  it("never de-escalates, and the most restrictive rule fires", () => {
+    const r = routeApproval(input({ matrix, exceptionCount: 1 }, 1_200_000));
+    assert.equal(r.route, "committee");
+    assert.equal(r.firedRule.key, "sba_large");
+    assert.deepEqual(
+      r.matchedRules.map((m) => m.key),
+      ["exceeds_individual_authority", "exceptions_cosign", "sba_large"],
+    );
+  });
+
+  it("applies product-scoped rules only to matching products", () => {
+    const r = routeApproval(input({ matrix, product: "CRE" }, 1_200_000));
+    assert.equal(r.route, "co_signer");
+    assert.equal(r.firedRule.key, "exceeds_individual_authority");
+  });
+
+  it("treats an unknown risk rating as matching risk rules", () => {
+    const r = routeApproval(input({ matrix, riskRating: null, officer: { ...ALICE, maxRiskRating: null } }));
+    assert.equal(r.firedRule.key, "watch_grade");
+  });
+});
+
+describe("validateAuthorityMatrix", () => {
+  it("accepts a well-formed matrix", () => {
+    assert.deepEqual(
+      validateAuthorityMatrix({ version: 1, rules: [{ key: "all", label: "Everything", route: "committee", when: {} }] }),
+      [],
+    );
+  });
+
+  it("reports bad keys, routes, thresholds and duplicates", () => {
+    const errors = validateAuthorityMatrix({
+      version: 0,
+      rules: [
+        { key: "Bad Key", label: "x", route: "committee", when: {} },
+        { key: "dup", label: "x", route: "board" as any, when: { aggregateExposureGt: -1 } },
+        { key: "dup", label: "", route: "sole", when: { products: [] } },
+      ],
+    });
+    assert.ok(errors.some((e) => e.includes("version")));
+    assert.ok(errors.some((e) => e.includes("Bad Key")));
+    assert.ok(errors.some((e) => e.includes("route must be one of")));
+    assert.ok(errors.some((e) => e.includes("aggregateExposureGt")));
+    assert.ok(errors.some((e) => e.includes("duplicate key")));
+    assert.ok(errors.some((e) => e.includes("label is required")));
+    assert.ok(errors.some((e) => e.includes("products must be a non-empty array")));
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Approval Routing (delegated lending authority)
+ *
+ * Loads a bank's authority matrix, officer limits and the borrower's
+ * relationship exposure, routes a decision snapshot through
+ * authorityMatrix.ts, and records the result in decision_approval_routings.
+ * Co-signatures for the co_signer route live in decision_co_signatures.
+ *
+ * Banks with no matrix and no officer limits on file are NOT routed
+ * (evaluateApprovalRouting returns null) — they keep the committee-only
+ * flow in committeeLogic.ts.
+ */
+
+import "server-only";
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  computeRelationshipExposure,
+  routeApproval,
+  type ApprovalRoutingResult,
+  type AuthorityMatrix,
+  type OfficerAuthority,
+} from "./authorityMatrix";
+
+export interface ApprovalRoutingRecord {
+  id: string;
+  decision_snapshot_id: string;
+  officer_user_id: string | null;
+  route: string;
+  fired_rule_key: string;
+  aggregate_exposure: number;
+  matrix_version: number | null;
+  routing_json: ApprovalRoutingResult;
+  created_at: string;
+}
+
+export function toOfficerAuthority(row: any): OfficerAuthority {
+  return {
+    userId: String(row.user_id),
+    individualLimit: Number(row.individual_limit ?? 0),
+    jointLimit: Number(row.joint_limit ?? 0),
+    maxRiskRating: row.max_risk_rating == null ? null : Number(row.max_risk_rating),
+    products: Array.isArray(row.products) && row.products.length > 0 ? row.products : null,
+  };
+}
+
+function readNum(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Route a decision snapshot. `officerUserId` is the officer asking to sign;
+ * defaults to the snapshot's creator.
+ */
+export async function evaluateApprovalRouting(args: {
+  bankId: string;
+  dealId: string;
+  decisionSnapshot: any;
+  officerUserId?: string | null;
+}): Promise<ApprovalRoutingResult | null> {
+  const sb = supabaseAdmin();
+  const snap = args.decisionSnapshot ?? {};
+
+  const [{ data: matrixRow, error: matrixErr }, { data: officerRows, error: officerErr }, { data: deal, error: dealErr }] =
+    await Promise.all([
+      sb.from("bank_lending_authority_matrices").select("matrix_json").eq("bank_id", args.bankId).maybeSingle(),
+      sb
+        .from("bank_officer_lending_authority")
+        .select("user_id, individual_limit, joint_limit, max_risk_rating, products")
+        .eq("bank_id", args.bankId)
+        .eq("active", true),
+      sb
+        .from("deals")
+        .select("id, borrower_id, loan_amount, product_type")
+        .eq("id", args.dealId)
+        .eq("bank_id", args.bankId)
+        .maybeSingle(),
+    ]);
+  if (matrixErr) throw new Error(`bank_lending_authority_matrices_select_failed:${matrixErr.message}`);
+  if (officerErr) throw new Error(`bank_officer_lending_authority_select_failed:${officerErr.message}`);
+  if (dealErr) throw new Error(`deals_select_failed:${dealErr.message}`);
+
+  const matrix = ((matrixRow as any)?.matrix_json ?? null) as AuthorityMatrix | null;
+  const officers = (officerRows ?? []).map(toOfficerAuthority);
+  if (!matrix && officers.length === 0) return null;
+
+  // Relationship = the borrower's other deals at this bank.
+  let relatedDeals: any[] = [];
+  const borrowerId = (deal as any)?.borrower_id ?? null;
+  if (borrowerId) {
+    const { data: rows, error } = await sb
+      .from("deals")
+      .select("id, loan_amount, stage, brokerage_stage")
+      .eq("bank_id", args.bankId)
+      .eq("borrower_id", borrowerId)
+      .neq("id", args.dealId);
+    if (error) throw new Error(`related_deals_select_failed:${error.message}`);
+    relatedDeals = rows ?? [];
+  }
+
+  if (relatedDeals.length > 0) {
+    const { data: finals, error } = await sb
+      .from("decision_snapshots")
+      .select("deal_id, decision, created_at")
+      .in(
+        "deal_id",
+        relatedDeals.map((d) => d.id),
+      )
+      .eq("status", "final")
+      .order("created_at", { ascending: false });
+    if (error) throw new Error(`related_decisions_select_failed:${error.message}`);
+    const latest = new Map<string, string>();
+    for (const f of finals ?? []) {
+      if (!latest.has((f as any).deal_id)) latest.set((f as any).deal_id, (f as any).decision);
+    }
+    relatedDeals = relatedDeals.map((d) => ({ ...d, final_decision: latest.get(d.id) ?? null }));
+  }
+
+  const proposedAmount =
+    readNum(snap.inputs_json?.loan_amount) ??
+    readNum(snap.inputs_json?.bank_loan_total) ??
+    readNum((deal as any)?.loan_amount);
+
+  const officerUserId = args.officerUserId ?? snap.created_by_user_id ?? null;
+
+  return routeApproval({
+    product: (deal as any)?.product_type ?? snap.inputs_json?.product_type ?? null,
+    riskRating: readNum(snap.policy_eval_json?.risk_rating),
+    exceptionCount: Array.isArray(snap.exceptions_json) ? snap.exceptions_json.length : 0,
+    exposure: computeRelationshipExposure({ proposedAmount, relatedDeals }),
+    officer: officers.find((o) => o.userId === officerUserId) ?? null,
+    officers,
+    matrix,
+  });
+}
+
+/**
+ * Persist a routing result for a decision snapshot (append-only).
+ */
+export async function recordApprovalRouting(args: {
+  bankId: string;
+  dealId: string;
+  snapshotId: string;
+  routing: ApprovalRoutingResult;
+}): Promise<void> {
+  const sb = supabaseAdmin();
+  const { error } = await sb.from("decision_approval_routings").insert({
+    bank_id: args.bankId,
+    deal_id: args.dealId,
+    decision_snapshot_id: args.snapshotId,
+    officer_user_id: args.routing.officerUserId,
+    route: args.routing.route,
+    fired_rule_key: args.routing.firedRule.key,
+    aggregate_exposure: args.routing.aggregateExposure,
+    matrix_version: args.routing.matrixVersion,
+    routing_json: args.routing,
+  });
+  if (error) throw new Error(`decision_approval_routings_insert_failed:${error.message}`);
+}
+
+/**
+ * Most recent recorded routing for a decision snapshot, or null.
+ */
+export async function loadLatestApprovalRouting(snapshotId: string): Promise<ApprovalRoutingRecord | null> {
+  const sb = supabaseAdmin();
+  const { data } = await sb
+    .from("decision_approval_routings")
+    .select(
+      "id, decision_snapshot_id, officer_user_id, route, fired_rule_key, aggregate_exposure, matrix_version, routing_json, created_at",
+    )
+    .eq("decision_snapshot_id", snapshotId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data as ApprovalRoutingRecord | null) ?? null;
+}
+
+/**
+ * Record an officer's co-signature on a decision snapshot (idempotent per
+ * officer).
+ */
+export async function recordCoSignature(args: {
+  bankId: string;
+  dealId: string;
+  snapshotId: string;
+  signerUserId: string;
+  approvalRoutingId: string | null;
+}): Promise<void> {
+  const sb = supabaseAdmin();
+  const { error } = await sb.from("decision_co_signatures").upsert(
+    {
+      bank_id: args.bankId,
+      deal_id: args.dealId,
+      decision_snapshot_id: args.snapshotId,
+      signer_user_id: args.signerUserId,
+      approval_routing_id: args.approvalRoutingId,
+    },
+    { onConflict: "decision_snapshot_id,signer_user_id" },
+  );
+  if (error) throw new Error(`decision_co_signatures_upsert_failed:${error.message}`);
+}
+
+/**
+ * Officers who have co-signed a decision snapshot.
+ */
+export async function loadCoSignerUserIds(snapshotId: string): Promise<string[]> {
+  const sb = supabaseAdmin();
+  const { data, error } = await sb
+    .from("decision_co_signatures")
+    .select("signer_user_id")
+    .eq("decision_snapshot_id", snapshotId);
+  if (error) throw new Error(`decision_co_signatures_select_failed:${error.message}`);
+  return ((data ?? []) as Array<{ signer_user_id: string }>).map((r) => r.signer_user_id);
+}
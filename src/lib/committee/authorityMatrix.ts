@@ -0,0 +1,300 @@
+/**
+ * Delegated Lending Authority Matrix
+ *
+ * Decides, per decision snapshot, who may approve the credit:
+ * - "sole"      → the officer signs alone
+ * - "co_signer" → the officer signs with a second officer holding joint authority
+ * - "committee" → the decision goes to credit committee (committeeLogic.ts)
+ *
+ * Two layers, evaluated against AGGREGATE relationship exposure (this
+ * request + the borrower's other live deals at the bank):
+ * 1. Officer authority (bank_officer_lending_authority) — individual and
+ *    joint dollar limits, a maximum risk rating and an optional product list.
+ * 2. Bank matrix rules (bank_lending_authority_matrices.matrix_json) — e.g.
+ *    "any policy exception → co-signer", "SBA over $2MM → committee".
+ *
+ * Rules only ever ESCALATE (sole < co_signer < committee). The rule that set
+ * the final route is the one that "fired"; ties go to the first rule reached.
+ * Unknown inputs fail closed: a missing risk rating matches every risk rule.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+export type ApprovalRoute = "sole" | "co_signer" | "committee";
+
+const ROUTE_RANK: Record<ApprovalRoute, number> = { sole: 0, co_signer: 1, committee: 2 };
+
+export const APPROVAL_ROUTES: ApprovalRoute[] = ["sole", "co_signer", "committee"];
+
+export interface OfficerAuthority {
+  userId: string;
+  /** Aggregate exposure the officer may approve alone */
+  individualLimit: number;
+  /** Aggregate exposure the officer may approve with a co-signer */
+  jointLimit: number;
+  /** Worst risk rating the officer may approve (higher = riskier). Null = no cap. */
+  maxRiskRating: number | null;
+  /** Product types the officer may approve. Null = all products. */
+  products: string[] | null;
+}
+
+export interface AuthorityMatrixRule {
+  /** Stable key (a-z, 0-9, _) recorded in the audit trail */
+  key: string;
+  label: string;
+  route: ApprovalRoute;
+  /** All present conditions must hold. No conditions = always matches. */
+  when: {
+    products?: string[];
+    aggregateExposureGt?: number;
+    riskRatingGte?: number;
+    exceptionsGte?: number;
+  };
+}
+
+export interface AuthorityMatrix {
+  version: number;
+  rules: AuthorityMatrixRule[];
+}
+
+export interface RelatedExposure {
+  dealId: string;
+  amount: number;
+}
+
+export interface RelationshipExposure {
+  proposed: number;
+  related: RelatedExposure[];
+  aggregate: number;
+}
+
+export interface ApprovalRoutingInput {
+  product: string | null;
+  riskRating: number | null;
+  exceptionCount: number;
+  exposure: RelationshipExposure;
+  /** The officer asking to sign. Null = no delegated authority on file. */
+  officer: OfficerAuthority | null;
+  /** Every officer at the bank — co-signer candidates */
+  officers: OfficerAuthority[];
+  matrix: AuthorityMatrix | null;
+}
+
+export interface FiredAuthorityRule {
+  key: string;
+  label: string;
+  source: "officer_authority" | "matrix";
+  route: ApprovalRoute;
+}
+
+export interface ApprovalRoutingResult {
+  route: ApprovalRoute;
+  firedRule: FiredAuthorityRule;
+  /** Every rule that matched, in evaluation order */
+  matchedRules: FiredAuthorityRule[];
+  aggregateExposure: number;
+  exposure: RelationshipExposure;
+  officerUserId: string | null;
+  /** Officers who can co-sign (only populated for the co_signer route) */
+  eligibleCoSigners: string[];
+  matrixVersion: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Exposure
+// ---------------------------------------------------------------------------
+
+/** Deal stages that carry no exposure (the request died). */
+const DEAD_STAGES = new Set(["declined", "withdrawn", "lost"]);
+
+/**
+ * Aggregate relationship exposure: the proposed amount plus every other
+ * live deal for the same borrower. Deals in a dead stage, or whose latest
+ * final decision was a decline, are excluded.
+ */
+export function computeRelationshipExposure(args: {
+  proposedAmount: number | null;
+  relatedDeals: Array<{
+    id: string;
+    loan_amount: number | null;
+    stage?: string | null;
+    brokerage_stage?: string | null;
+    final_decision?: string | null;
+  }>;
+}): RelationshipExposure {
+  const proposed = positive(args.proposedAmount);
+  const related: RelatedExposure[] = [];
+  for (const d of args.relatedDeals) {
+    if (DEAD_STAGES.has(String(d.stage ?? "").toLowerCase())) continue;
+    if (DEAD_STAGES.has(String(d.brokerage_stage ?? "").toLowerCase())) continue;
+    if (d.final_decision === "decline") continue;
+    const amount = positive(d.loan_amount);
+    if (amount > 0) related.push({ dealId: d.id, amount });
+  }
+  const aggregate = related.reduce((s, r) => s + r.amount, proposed);
+  return { proposed, related, aggregate };
+}
+
+function positive(v: number | null | undefined): number {
+  return typeof v === "number" && Number.isFinite(v) && v > 0 ? v : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Matrix validation
+// ---------------------------------------------------------------------------
+
+const KEY_PATTERN = /^[a-z0-9_]{1,60}$/;
+
+/**
+ * Validate a bank matrix. Returns human-readable errors (empty = valid).
+ */
+export function validateAuthorityMatrix(matrix: AuthorityMatrix): string[] {
+  const errors: string[] = [];
+  if (!Number.isInteger(matrix?.version) || matrix.version < 1) errors.push("version must be a positive integer");
+  if (!Array.isArray(matrix?.rules)) return [...errors, "rules must be an array"];
+
+  const seen = new Set<string>();
+  for (const r of matrix.rules) {
+    if (!KEY_PATTERN.test(r?.key ?? "")) errors.push(`key "${r?.key}" must be 1-60 chars of a-z, 0-9, _`);
+    else if (seen.has(r.key)) errors.push(`${r.key}: duplicate key`);
+    seen.add(r?.key);
+    if (!r?.label?.trim()) errors.push(`${r?.key}: label is required`);
+    if (!APPROVAL_ROUTES.includes(r?.route)) errors.push(`${r?.key}: route must be one of ${APPROVAL_ROUTES.join(", ")}`);
+    const w = r?.when ?? {};
+    if (w.products !== undefined && !(Array.isArray(w.products) && w.products.length > 0)) {
+      errors.push(`${r.key}: products must be a non-empty array`);
+    }
+    for (const k of ["aggregateExposureGt", "riskRatingGte", "exceptionsGte"] as const) {
+      const v = w[k];
+      if (v !== undefined && !(typeof v === "number" && Number.isFinite(v) && v >= 0)) {
+        errors.push(`${r.key}: ${k} must be a non-negative number`);
+      }
+    }
+  }
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+function officerRule(key: string, label: string, route: ApprovalRoute): FiredAuthorityRule {
+  return { key, label, source: "officer_authority", route };
+}
+
+function fmtUsd(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+function productAllowed(products: string[] | null, product: string | null): boolean {
+  return products === null || (product !== null && products.includes(product));
+}
+
+function riskAllowed(maxRiskRating: number | null, riskRating: number | null): boolean {
+  return maxRiskRating === null || (riskRating !== null && riskRating <= maxRiskRating);
+}
+
+function evaluateOfficer(input: ApprovalRoutingInput): FiredAuthorityRule {
+  const { officer, product, riskRating } = input;
+  const aggregate = input.exposure.aggregate;
+
+  if (!officer) {
+    return officerRule("officer_authority_missing", "Officer has no delegated lending authority", "committee");
+  }
+  if (!productAllowed(officer.products, product)) {
+    return officerRule(
+      "officer_product_not_authorized",
+      `Officer is not authorized for product ${product ?? "(unknown)"}`,
+      "committee",
+    );
+  }
+  if (!riskAllowed(officer.maxRiskRating, riskRating)) {
+    return officerRule(
+      "officer_risk_rating_exceeded",
+      `Risk rating ${riskRating ?? "(unknown)"} exceeds officer maximum ${officer.maxRiskRating}`,
+      "committee",
+    );
+  }
+  if (aggregate > officer.jointLimit) {
+    return officerRule(
+      "exceeds_joint_authority",
+      `Aggregate exposure ${fmtUsd(aggregate)} exceeds officer joint authority ${fmtUsd(officer.jointLimit)}`,
+      "committee",
+    );
+  }
+  if (aggregate > officer.individualLimit) {
+    return officerRule(
+      "exceeds_individual_authority",
+      `Aggregate exposure ${fmtUsd(aggregate)} exceeds officer individual authority ${fmtUsd(officer.individualLimit)}`,
+      "co_signer",
+    );
+  }
+  return officerRule(
+    "within_individual_authority",
+    `Aggregate exposure ${fmtUsd(aggregate)} within officer individual authority ${fmtUsd(officer.individualLimit)}`,
+    "sole",
+  );
+}
+
+function matrixRuleMatches(rule: AuthorityMatrixRule, input: ApprovalRoutingInput): boolean {
+  const w = rule.when ?? {};
+  if (w.products && !(input.product !== null && w.products.includes(input.product))) return false;
+  if (w.aggregateExposureGt !== undefined && !(input.exposure.aggregate > w.aggregateExposureGt)) return false;
+  if (w.riskRatingGte !== undefined && input.riskRating !== null && input.riskRating < w.riskRatingGte) return false;
+  if (w.exceptionsGte !== undefined && input.exceptionCount < w.exceptionsGte) return false;
+  return true;
+}
+
+/**
+ * Officers other than the signing officer whose joint authority, risk cap
+ * and products cover this request.
+ */
+export function findEligibleCoSigners(input: ApprovalRoutingInput): string[] {
+  return input.officers
+    .filter(
+      (o) =>
+        o.userId !== input.officer?.userId &&
+        input.exposure.aggregate <= o.jointLimit &&
+        riskAllowed(o.maxRiskRating, input.riskRating) &&
+        productAllowed(o.products, input.product),
+    )
+    .map((o) => o.userId)
+    .sort();
+}
+
+/**
+ * Route a decision through the authority matrix.
+ */
+export function routeApproval(input: ApprovalRoutingInput): ApprovalRoutingResult {
+  const matched: FiredAuthorityRule[] = [evaluateOfficer(input)];
+
+  for (const rule of input.matrix?.rules ?? []) {
+    if (!matrixRuleMatches(rule, input)) continue;
+    matched.push({ key: rule.key, label: rule.label, source: "matrix", route: rule.route });
+  }
+
+  let fired = matched[0];
+  for (const m of matched) {
+    if (ROUTE_RANK[m.route] > ROUTE_RANK[fired.route]) fired = m;
+  }
+
+  let eligibleCoSigners: string[] = [];
+  if (fired.route === "co_signer") {
+    eligibleCoSigners = findEligibleCoSigners(input);
+    if (eligibleCoSigners.length === 0) {
+      fired = officerRule("no_eligible_co_signer", "No other officer holds joint authority for this request", "committee");
+      matched.push(fired);
+    }
+  }
+
+  return {
+    route: fired.route,
+    firedRule: fired,
+    matchedRules: matched,
+    aggregateExposure: input.exposure.aggregate,
+    exposure: input.exposure,
+    officerUserId: input.officer?.userId ?? null,
+    eligibleCoSigners,
+    matrixVersion: input.matrix?.version ?? null,
+  };
+}
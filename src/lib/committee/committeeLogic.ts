@@ -8,6 +8,9 @@
  * - "approve_with_conditions" → At least one conditional approval
  * - "decline" → At least one decline vote (veto power)
  * - "pending" → Quorum not yet met
+ *
+ * Which decisions reach committee at all is decided by the delegated
+ * authority matrix (authorityMatrix.ts) for banks that configure one.
  */
 
 import { supabaseAdmin } from "@/lib/supabase/admin";
@@ -10,6 +10,7 @@ export type {
   BankConfig,
   PolicyConfigOverride,
   StressConfigOverride,
+  CustomStressScenarioConfig,
   PricingConfigOverride,
 } from "./types";
 
@@ -21,4 +22,10 @@ export {
   DEFAULT_STRESS_ADJUST_BPS_PER_TIER,
 } from "./defaults";
 
+export {
+  validateCustomScenario,
+  customScenarioToDefinition,
+  resolveStressScenarios,
+} from "./stressScenarios";
+
 export { loadActiveBankConfig } from "./loadConfig";
@@ -0,0 +1,97 @@
+/**
+ * Config Engine — Stress Scenario Resolution
+ *
+ * Turns a bank's StressConfigOverride into the ordered scenario list the
+ * stress engine runs. BASELINE is always first.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+import type { StressScenarioDefinition } from "@/lib/stressEngine/types";
+import { STRESS_SCENARIOS } from "@/lib/stressEngine/scenarios";
+import type { CustomStressScenarioConfig, StressConfigOverride } from "./types";
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const ID_PATTERN = /^[A-Z0-9_]{1,40}$/;
+const MAX_RATE_SHOCK_BPS = 2_000;
+const MAX_AR_SLOWDOWN_DAYS = 365;
+
+function inUnitRange(v: number | undefined): boolean {
+  return v === undefined || (Number.isFinite(v) && v >= 0 && v <= 1);
+}
+
+/**
+ * Validate a custom scenario. Returns human-readable errors (empty = valid).
+ */
+export function validateCustomScenario(c: CustomStressScenarioConfig): string[] {
+  const errors: string[] = [];
+  if (!ID_PATTERN.test(c.id)) errors.push(`id "${c.id}" must be 1-40 chars of A-Z, 0-9, _`);
+  if (!c.label?.trim()) errors.push(`${c.id}: label is required`);
+  if (!inUnitRange(c.revenueDecline)) errors.push(`${c.id}: revenueDecline must be between 0 and 1`);
+  if (!inUnitRange(c.ebitdaHaircut)) errors.push(`${c.id}: ebitdaHaircut must be between 0 and 1`);
+  if (
+    c.rateShockBps !== undefined &&
+    !(Number.isFinite(c.rateShockBps) && Math.abs(c.rateShockBps) <= MAX_RATE_SHOCK_BPS)
+  ) {
+    errors.push(`${c.id}: rateShockBps must be within ±${MAX_RATE_SHOCK_BPS}`);
+  }
+  if (
+    c.arSlowdownDays !== undefined &&
+    !(Number.isFinite(c.arSlowdownDays) && c.arSlowdownDays >= 0 && c.arSlowdownDays <= MAX_AR_SLOWDOWN_DAYS)
+  ) {
+    errors.push(`${c.id}: arSlowdownDays must be between 0 and ${MAX_AR_SLOWDOWN_DAYS}`);
+  }
+  if (
+    c.revenueDecline === undefined &&
+    c.ebitdaHaircut === undefined &&
+    c.rateShockBps === undefined &&
+    c.arSlowdownDays === undefined
+  ) {
+    errors.push(`${c.id}: at least one shock is required`);
+  }
+  return errors;
+}
+
+export function customScenarioToDefinition(c: CustomStressScenarioConfig): StressScenarioDefinition {
+  return {
+    key: `CUSTOM_${c.id}`,
+    label: c.label,
+    ...(c.revenueDecline !== undefined ? { revenueHaircut: c.revenueDecline, revenueFlowsToEbitda: true } : {}),
+    ...(c.ebitdaHaircut !== undefined ? { ebitdaHaircut: c.ebitdaHaircut } : {}),
+    ...(c.rateShockBps !== undefined ? { rateShockBps: c.rateShockBps } : {}),
+    ...(c.arSlowdownDays !== undefined ? { arSlowdownDays: c.arSlowdownDays } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the scenario list for a bank.
+ *
+ * - `scenarios` set → used as-is (legacy full replacement)
+ * - otherwise → system defaults + valid custom scenarios (invalid and
+ *   duplicate ids are skipped)
+ * - no override → undefined (stress engine uses system defaults)
+ */
+export function resolveStressScenarios(
+  override: StressConfigOverride | undefined,
+): StressScenarioDefinition[] | undefined {
+  if (!override) return undefined;
+  if (override.scenarios) return override.scenarios;
+  if (!override.customScenarios || override.customScenarios.length === 0) return undefined;
+
+  const seen = new Set<string>();
+  const custom: StressScenarioDefinition[] = [];
+  for (const c of override.customScenarios) {
+    if (validateCustomScenario(c).length > 0 || seen.has(c.id)) continue;
+    seen.add(c.id);
+    custom.push(customScenarioToDefinition(c));
+  }
+
+  return [...STRESS_SCENARIOS, ...custom];
+}
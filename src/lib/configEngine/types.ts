@@ -8,7 +8,7 @@
  */
 
 import type { ProductType } from "@/lib/creditLenses/types";
-import type { RiskTier } from "@/lib/policyEngine/types";
+import type { MonthRange, RiskTier } from "@/lib/policyEngine/types";
 import type { StressScenarioDefinition } from "@/lib/stressEngine/types";
 
 // ---------------------------------------------------------------------------
@@ -38,6 +38,17 @@ export interface PolicyConfigOverride {
   }>;
   /** Override for MINOR_BREACH_BAND (default 0.15) */
   minorBreachBand?: number;
+  /** Per-product loan-structure limits for the structuring optimizer. */
+  structureBounds?: Array<{
+    product: ProductType;
+    amortizationMonths?: Partial<MonthRange>;
+    termMonths?: Partial<MonthRange>;
+    minEquityPct?: number;
+    maxLtv?: number;
+    guaranteePct?: { min?: number; max?: number };
+    maxLoanAmount?: number;
+    minGlobalDscr?: number;
+  }>;
 }
 
 // ---------------------------------------------------------------------------
@@ -47,6 +58,39 @@ export interface PolicyConfigOverride {
 export interface StressConfigOverride {
   /** Custom scenarios. If provided, replaces system default scenarios entirely. */
   scenarios?: StressScenarioDefinition[];
+  /** Bank-defined scenarios appended after the system defaults. Ignored when `scenarios` is set. */
+  customScenarios?: CustomStressScenarioConfig[];
+  /** Reverse-stress breakeven solve (DSCR = 1.00x and policy minimum). Default off. */
+  reverseStress?: {
+    enabled: boolean;
+    /** Extra DSCR targets to solve for */
+    additionalTargets?: number[];
+  };
+  /** Monte Carlo DSCR simulation over the loan term. Default off. */
+  simulation?: {
+    enabled: boolean;
+    iterations?: number;
+    seed?: number;
+    horizonYears?: number;
+    /** Annual index-rate shock standard deviation (decimal) */
+    rateVol?: number;
+  };
+}
+
+/**
+ * A bank-defined stress scenario, e.g. revenue -25% + rate +300bps + 60-day
+ * AR slowdown. Revenue declines flow through to EBITDA at gross margin.
+ */
+export interface CustomStressScenarioConfig {
+  /** Stable id (A-Z, 0-9, _). Scenario key becomes CUSTOM_<id>. */
+  id: string;
+  label: string;
+  /** Revenue decline as decimal (0.25 = -25%) */
+  revenueDecline?: number;
+  /** EBITDA haircut as decimal, applied after the revenue decline */
+  ebitdaHaircut?: number;
+  rateShockBps?: number;
+  arSlowdownDays?: number;
 }
 
 // ---------------------------------------------------------------------------
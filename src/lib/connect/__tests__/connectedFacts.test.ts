@@ -0,0 +1,152 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  mapPlaidCashFlow,
+  mapQboAging,
+  mapQboBalanceSheet,
+  mapQboProfitAndLoss,
+  reconcileBookToTax,
+  type QboReport,
+  type ReconcilableFact,
+} from "../connectedFacts";
+
+const yearCol = (y: number, end = `${y}-12-31`) => ({
+  ColTitle: `Jan - Dec ${y}`,
+  ColType: "Money",
+  MetaData: [
+    { Name: "StartDate", Value: `${y}-01-01` },
+    { Name: "EndDate", Value: end },
+  ],
+});
+
+const summary = (label: string, ...values: string[]) => ({ Summary: { ColData: [{ value: label }, ...values.map((value) => ({ value }))] } });
+
+const PNL: QboReport = {
+  Columns: { Column: [{ ColTitle: "", ColType: "Account" }, yearCol(2024), yearCol(2025, "2025-06-30"), { ColTitle: "Total", ColType: "Money" }] },
+  Rows: {
+    Row: [
+      { type: "Section", group: "Income", ...summary("Total Income", "1200000.00", "650000.00", "1850000.00") },
+      { type: "Section", group: "COGS", ...summary("Total Cost of Goods Sold", "480000.00", "250000.00", "730000.00") },
+      { type: "Section", group: "GrossProfit", ...summary("Gross Profit", "720000.00", "400000.00", "1120000.00") },
+      { type: "Section", group: "Expenses", ...summary("Total Expenses", "560000.00", "300000.00", "860000.00") },
+      // NetIncome rows carry plain ColData in some report versions
+      { type: "Section", group: "NetIncome", ColData: [{ value: "Net Income" }, { value: "160000.00" }, { value: "100000.00" }, { value: "260000.00" }] },
+    ],
+  },
+};
+
+test("mapQboProfitAndLoss: one fact per section per year column, Total column skipped", () => {
+  const items = mapQboProfitAndLoss(PNL);
+  const revenue = items.filter((i) => i.factKey === "TOTAL_REVENUE");
+  assert.deepEqual(
+    revenue.map((i) => [i.periodStart, i.periodEnd, i.value]),
+    [
+      ["2024-01-01", "2024-12-31", 1_200_000],
+      ["2025-01-01", "2025-06-30", 650_000],
+    ],
+  );
+  assert.ok(items.every((i) => i.factType === "INCOME_STATEMENT"));
+  assert.equal(items.find((i) => i.factKey === "NET_INCOME" && i.periodEnd === "2024-12-31")?.value, 160_000);
+  assert.equal(items.length, 10);
+});
+
+test("mapQboBalanceSheet: nested sections by group, point-in-time periods", () => {
+  const bs: QboReport = {
+    Columns: { Column: [{ ColType: "Account" }, yearCol(2024)] },
+    Rows: {
+      Row: [
+        {
+          group: "TotalAssets",
+          Rows: { Row: [{ group: "CurrentAssets", Rows: { Row: [{ group: "AR", ...summary("Total Accounts Receivable", "90000") }] }, ...summary("Total Current Assets", "250000") }] },
+          ...summary("TOTAL ASSETS", "900000"),
+        },
+      ],
+    },
+  };
+  const items = mapQboBalanceSheet(bs);
+  assert.deepEqual(
+    items.map((i) => [i.factKey, i.value, i.periodStart]),
+    [
+      ["ACCOUNTS_RECEIVABLE", 90_000, "2024-12-31"],
+      ["TOTAL_CURRENT_ASSETS", 250_000, "2024-12-31"],
+      ["TOTAL_ASSETS", 900_000, "2024-12-31"],
+    ],
+  );
+});
+
+test("mapQboAging: total and 91+ buckets from the grand total row", () => {
+  const aging: QboReport = {
+    Columns: {
+      Column: [{ ColTitle: "" }, { ColTitle: "Current" }, { ColTitle: "1 - 30" }, { ColTitle: "31 - 60" }, { ColTitle: "61 - 90" }, { ColTitle: "91 and over" }, { ColTitle: "Total" }],
+    },
+    Rows: { Row: [{ ColData: [{ value: "Acme" }, { value: "10" }] }, { type: "Section", ...summary("TOTAL", "50000", "20000", "5000", "3000", "7000", "85000") }] },
+  };
+  assert.deepEqual(
+    mapQboAging(aging, "AR", "2026-10-19").map((i) => [i.factType, i.factKey, i.value]),
+    [
+      ["AR_AGING", "TOTAL_AR", 85_000],
+      ["AR_AGING", "OVER_90_AR", 7_000],
+    ],
+  );
+});
+
+test("mapPlaidCashFlow: calendar years, transfers and pending excluded, partial years keep their span", () => {
+  const txs = [];
+  for (let m = 1; m <= 12; m++) {
+    const mm = String(m).padStart(2, "0");
+    txs.push({ date: `2024-${mm}-05`, amount: -10_000 }, { date: `2024-${mm}-20`, amount: 7_000 });
+  }
+  txs.push(
+    { date: "2024-03-01", amount: -50_000, derived_category: "transfer" },
+    { date: "2025-01-15", amount: -9_000 },
+    { date: "2025-02-15", amount: -9_000, pending: true },
+    { date: "2025-03-10", amount: 4_000 },
+  );
+  const items = mapPlaidCashFlow(txs);
+  const get = (key: string, end: string) => items.find((i) => i.factKey === key && i.periodEnd === end)?.value;
+  assert.equal(get("BANK_TOTAL_DEPOSITS", "2024-12-31"), 120_000);
+  assert.equal(get("BANK_NET_CASH_FLOW", "2024-12-31"), 36_000);
+  assert.equal(get("BANK_MONTHS_COVERED", "2024-12-31"), 12);
+  assert.equal(get("BANK_TOTAL_DEPOSITS", "2025-03-31"), 9_000);
+  assert.equal(items.find((i) => i.periodEnd === "2025-03-31")?.periodStart, "2025-01-01");
+});
+
+const fact = (over: Partial<ReconcilableFact> & Pick<ReconcilableFact, "fact_key" | "fact_value_num" | "fact_period_end">): ReconcilableFact => ({
+  fact_type: "INCOME_STATEMENT",
+  fact_period_start: `${over.fact_period_end!.slice(0, 4)}-01-01`,
+  source_canonical_type: "QUICKBOOKS_ONLINE",
+  owner_type: "DEAL",
+  ...over,
+});
+
+test("reconcileBookToTax: same-year deltas with tolerance, partial years and other owners ignored", () => {
+  const tax = { fact_type: "TAX_RETURN", source_canonical_type: "BUSINESS_TAX_RETURN" };
+  const deltas = reconcileBookToTax([
+    fact({ fact_key: "TOTAL_REVENUE", fact_value_num: 1_200_000, fact_period_end: "2024-12-31" }),
+    fact({ fact_key: "NET_INCOME", fact_value_num: 160_000, fact_period_end: "2024-12-31" }),
+    fact({ fact_key: "TOTAL_REVENUE", fact_value_num: 650_000, fact_period_end: "2025-06-30" }),
+    fact({ fact_key: "GROSS_RECEIPTS", fact_value_num: 1_180_000, fact_period_end: "2024-12-31", ...tax }),
+    fact({ fact_key: "ORDINARY_BUSINESS_INCOME", fact_value_num: 120_000, fact_period_end: "2024-12-31", ...tax }),
+    fact({ fact_key: "GROSS_RECEIPTS", fact_value_num: 400_000, fact_period_end: "2025-12-31", ...tax }),
+    fact({ fact_key: "BANK_TOTAL_DEPOSITS", fact_value_num: 900_000, fact_period_end: "2024-12-31", fact_type: "BANK_CASH_FLOW", source_canonical_type: "PLAID_BANK" }),
+    fact({ fact_key: "TOTAL_REVENUE", fact_value_num: 1, fact_period_end: "2024-12-31", owner_type: "PERSONAL" }),
+  ]);
+
+  const byLabel = new Map(deltas.map((d) => [d.label, d]));
+  assert.equal(deltas.length, 3);
+
+  const revenue = byLabel.get("Revenue")!;
+  assert.equal(revenue.year, 2024);
+  assert.equal(revenue.delta, 20_000);
+  assert.equal(revenue.status, "within_tolerance");
+
+  const netIncome = byLabel.get("Net income")!;
+  assert.equal(netIncome.row_key, "NET_PROFIT");
+  assert.equal(netIncome.status, "variance");
+  assert.ok(Math.abs(netIncome.delta_pct! - 1 / 3) < 1e-9);
+
+  const deposits = byLabel.get("Bank deposits vs revenue")!;
+  assert.equal(deposits.book_source, "PLAID_BANK");
+  assert.equal(deposits.tax_key, "GROSS_RECEIPTS");
+  assert.equal(deposits.status, "variance");
+});
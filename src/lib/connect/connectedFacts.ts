@@ -0,0 +1,400 @@
+/**
+ * Connected-account financial facts — QuickBooks Online reports and Plaid
+ * bank cash flow mapped into deal_financial_facts, plus the book-vs-tax
+ * reconciliation the standard spread surfaces.
+ *
+ * Pure — no DB, no server-only. quickbooks.ts / plaid.ts fetch, this maps,
+ * writeConnectedFacts.ts persists.
+ *
+ * Connected facts use the same fact types and keys as extracted financial
+ * statements (INCOME_STATEMENT / BALANCE_SHEET) so they land in the same
+ * spread rows; what distinguishes them is provenance.source_type
+ * "CONNECTED_ACCOUNT" and source_canonical_type QUICKBOOKS_ONLINE /
+ * PLAID_BANK. Book data never displaces a tax-return figure for the same
+ * period — the spread keeps the tax value and shows the delta instead.
+ */
+
+export const CONNECTED_SOURCE_TYPES = {
+  quickbooks: "QUICKBOOKS_ONLINE",
+  plaid: "PLAID_BANK",
+} as const;
+
+export type ConnectedSource = keyof typeof CONNECTED_SOURCE_TYPES;
+
+const CONNECTED_CANONICAL_TYPES: ReadonlySet<string> = new Set(Object.values(CONNECTED_SOURCE_TYPES));
+
+export function isConnectedSourceType(sourceCanonicalType: string | null | undefined): boolean {
+  return !!sourceCanonicalType && CONNECTED_CANONICAL_TYPES.has(sourceCanonicalType);
+}
+
+export type ConnectedFactItem = {
+  factType: "INCOME_STATEMENT" | "BALANCE_SHEET" | "AR_AGING" | "AP_AGING" | "BANK_CASH_FLOW";
+  factKey: string;
+  value: number;
+  periodStart: string;
+  periodEnd: string;
+};
+
+// ---------------------------------------------------------------------------
+// QuickBooks reports
+// ---------------------------------------------------------------------------
+
+type QboColData = { value?: string };
+type QboRow = {
+  type?: string;
+  group?: string;
+  ColData?: QboColData[];
+  Summary?: { ColData?: QboColData[] };
+  Rows?: { Row?: QboRow[] };
+};
+export type QboReport = {
+  Header?: { StartPeriod?: string; EndPeriod?: string };
+  Columns?: { Column?: Array<{ ColTitle?: string; ColType?: string; MetaData?: Array<{ Name: string; Value: string }> }> };
+  Rows?: { Row?: QboRow[] };
+};
+
+/**
+ * Report section → fact key. QBO tags summary sections with a stable `group`
+ * attribute; the summary label is the fallback for reports that omit it.
+ */
+const QBO_PNL_GROUPS: Array<{ group: string; label: string; factKey: string }> = [
+  { group: "Income", label: "Total Income", factKey: "TOTAL_REVENUE" },
+  { group: "COGS", label: "Total Cost of Goods Sold", factKey: "COST_OF_GOODS_SOLD" },
+  { group: "GrossProfit", label: "Gross Profit", factKey: "GROSS_PROFIT" },
+  { group: "Expenses", label: "Total Expenses", factKey: "TOTAL_OPERATING_EXPENSES" },
+  { group: "NetOperatingIncome", label: "Net Operating Income", factKey: "NET_OPERATING_PROFIT" },
+  { group: "OtherIncome", label: "Total Other Income", factKey: "OTHER_INCOME" },
+  { group: "OtherExpenses", label: "Total Other Expenses", factKey: "OTHER_EXPENSE" },
+  { group: "NetIncome", label: "Net Income", factKey: "NET_INCOME" },
+];
+
+const QBO_BS_GROUPS: Array<{ group: string; label: string; factKey: string }> = [
+  { group: "BankAccounts", label: "Total Bank Accounts", factKey: "CASH_AND_EQUIVALENTS" },
+  { group: "AR", label: "Total Accounts Receivable", factKey: "ACCOUNTS_RECEIVABLE" },
+  { group: "CurrentAssets", label: "Total Current Assets", factKey: "TOTAL_CURRENT_ASSETS" },
+  { group: "FixedAssets", label: "Total Fixed Assets", factKey: "FIXED_ASSETS_NET" },
+  { group: "TotalAssets", label: "Total Assets", factKey: "TOTAL_ASSETS" },
+  { group: "AP", label: "Total Accounts Payable", factKey: "ACCOUNTS_PAYABLE" },
+  { group: "CurrentLiabilities", label: "Total Current Liabilities", factKey: "TOTAL_CURRENT_LIABILITIES" },
+  { group: "Liabilities", label: "Total Liabilities", factKey: "TOTAL_LIABILITIES" },
+  { group: "Equity", label: "Total Equity", factKey: "TOTAL_EQUITY" },
+];
+
+type QboPeriodColumn = { index: number; start: string; end: string };
+
+/**
+ * Money columns with a date range (one per year with summarize_column_by=Year).
+ * The trailing "Total" column carries no dates and is skipped; a report with
+ * a single undated money column falls back to the header period.
+ */
+export function qboPeriodColumns(report: QboReport): QboPeriodColumn[] {
+  const columns = report.Columns?.Column ?? [];
+  const dated: QboPeriodColumn[] = [];
+  columns.forEach((col, index) => {
+    const meta = new Map((col.MetaData ?? []).map((m) => [m.Name, m.Value]));
+    const start = meta.get("StartDate");
+    const end = meta.get("EndDate");
+    if (col.ColType === "Money" && start && end) dated.push({ index, start, end });
+  });
+  if (dated.length > 0) return dated;
+
+  const moneyIndex = columns.findIndex((c) => c.ColType === "Money");
+  const start = report.Header?.StartPeriod;
+  const end = report.Header?.EndPeriod;
+  return moneyIndex >= 0 && start && end ? [{ index: moneyIndex, start, end }] : [];
+}
+
+function findSummary(rows: QboRow[], group: string, label: string): QboColData[] | null {
+  for (const row of rows) {
+    const summary = row.Summary?.ColData;
+    if (summary && (row.group === group || summary[0]?.value === label)) return summary;
+    // GrossProfit / NetIncome style rows carry their totals as plain ColData
+    if (!summary && row.group === group && row.ColData) return row.ColData;
+    const nested = row.Rows?.Row;
+    if (nested) {
+      const found = findSummary(nested, group, label);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function mapQboReport(
+  report: QboReport,
+  groups: Array<{ group: string; label: string; factKey: string }>,
+  factType: ConnectedFactItem["factType"],
+  asOfBalance: boolean,
+): ConnectedFactItem[] {
+  const periods = qboPeriodColumns(report);
+  const rows = report.Rows?.Row ?? [];
+  const items: ConnectedFactItem[] = [];
+  for (const { group, label, factKey } of groups) {
+    const cols = findSummary(rows, group, label);
+    if (!cols) continue;
+    for (const p of periods) {
+      const raw = cols[p.index]?.value;
+      if (raw === undefined || raw === "") continue;
+      const value = Number(raw);
+      if (!Number.isFinite(value)) continue;
+      items.push({
+        factType,
+        factKey,
+        value,
+        // Balance sheet amounts are point-in-time at the column end date
+        periodStart: asOfBalance ? p.end : p.start,
+        periodEnd: p.end,
+      });
+    }
+  }
+  return items;
+}
+
+export function mapQboProfitAndLoss(report: QboReport): ConnectedFactItem[] {
+  return mapQboReport(report, QBO_PNL_GROUPS, "INCOME_STATEMENT", false);
+}
+
+export function mapQboBalanceSheet(report: QboReport): ConnectedFactItem[] {
+  return mapQboReport(report, QBO_BS_GROUPS, "BALANCE_SHEET", true);
+}
+
+/**
+ * AgedReceivables / AgedPayables summary → total and 90+ day balances, in the
+ * same TOTAL_AR / OVER_90_AR vocabulary arCollateralProcessor writes.
+ */
+export function mapQboAging(report: QboReport, kind: "AR" | "AP", asOf: string): ConnectedFactItem[] {
+  const columns = report.Columns?.Column ?? [];
+  const totalIdx = columns.findIndex((c) => (c.ColTitle ?? "").trim().toLowerCase() === "total");
+  const over90Idx = columns.findIndex((c) => /91|90\+|over 90/i.test(c.ColTitle ?? ""));
+  const rows = report.Rows?.Row ?? [];
+  const grand = rows.find((r) => r.type === "Section" && r.Summary) ?? rows[rows.length - 1];
+  const cols = grand?.Summary?.ColData ?? grand?.ColData;
+  if (!cols || totalIdx < 0) return [];
+
+  const factType = kind === "AR" ? "AR_AGING" : "AP_AGING";
+  const items: ConnectedFactItem[] = [];
+  const total = Number(cols[totalIdx]?.value);
+  if (Number.isFinite(total)) items.push({ factType, factKey: `TOTAL_${kind}`, value: total, periodStart: asOf, periodEnd: asOf });
+  const over90 = over90Idx >= 0 ? Number(cols[over90Idx]?.value) : NaN;
+  if (Number.isFinite(over90)) items.push({ factType, factKey: `OVER_90_${kind}`, value: over90, periodStart: asOf, periodEnd: asOf });
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// Plaid bank cash flow
+// ---------------------------------------------------------------------------
+
+export type BankTransactionLike = {
+  date: string; // YYYY-MM-DD
+  /** Plaid sign convention: negative = money in, positive = money out */
+  amount: number;
+  pending?: boolean;
+  derived_category?: string | null;
+};
+
+/**
+ * Calendar-year deposit / withdrawal totals. Pending and inter-account
+ * transfers are excluded — transfers between the borrower's own accounts
+ * would otherwise count twice as both deposit and withdrawal. Partial years
+ * are written with their actual month span and BANK_MONTHS_COVERED so the
+ * reconciliation only compares full years against the tax return.
+ */
+export function mapPlaidCashFlow(transactions: BankTransactionLike[]): ConnectedFactItem[] {
+  const byYear = new Map<string, { deposits: number; withdrawals: number; months: Set<string>; first: string; last: string }>();
+  for (const tx of transactions) {
+    if (tx.pending || tx.derived_category === "transfer") continue;
+    const year = tx.date.slice(0, 4);
+    let bucket = byYear.get(year);
+    if (!bucket) {
+      bucket = { deposits: 0, withdrawals: 0, months: new Set(), first: tx.date, last: tx.date };
+      byYear.set(year, bucket);
+    }
+    if (tx.amount < 0) bucket.deposits += Math.abs(tx.amount);
+    else bucket.withdrawals += tx.amount;
+    bucket.months.add(tx.date.slice(0, 7));
+    if (tx.date < bucket.first) bucket.first = tx.date;
+    if (tx.date > bucket.last) bucket.last = tx.date;
+  }
+
+  const items: ConnectedFactItem[] = [];
+  for (const [year, b] of [...byYear.entries()].sort(([a], [c]) => a.localeCompare(c))) {
+    const full = b.months.size === 12;
+    const periodStart = full ? `${year}-01-01` : `${b.first.slice(0, 7)}-01`;
+    const periodEnd = full ? `${year}-12-31` : endOfMonth(b.last);
+    const round = (n: number) => Math.round(n * 100) / 100;
+    items.push(
+      { factType: "BANK_CASH_FLOW", factKey: "BANK_TOTAL_DEPOSITS", value: round(b.deposits), periodStart, periodEnd },
+      { factType: "BANK_CASH_FLOW", factKey: "BANK_TOTAL_WITHDRAWALS", value: round(b.withdrawals), periodStart, periodEnd },
+      { factType: "BANK_CASH_FLOW", factKey: "BANK_NET_CASH_FLOW", value: round(b.deposits - b.withdrawals), periodStart, periodEnd },
+      { factType: "BANK_CASH_FLOW", factKey: "BANK_MONTHS_COVERED", value: b.months.size, periodStart, periodEnd },
+    );
+  }
+  return items;
+}
+
+function endOfMonth(date: string): string {
+  const [y, m] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+}
+
+// ---------------------------------------------------------------------------
+// Book vs tax reconciliation
+// ---------------------------------------------------------------------------
+
+export type ReconcilableFact = {
+  fact_type: string;
+  fact_key: string;
+  fact_value_num: number | null;
+  fact_period_start: string | null;
+  fact_period_end: string | null;
+  source_canonical_type?: string | null;
+  owner_type?: string;
+  is_superseded?: boolean;
+};
+
+export type BookTaxDelta = {
+  year: number;
+  /** Standard-spread row the delta is shown on */
+  row_key: string;
+  label: string;
+  book_source: (typeof CONNECTED_SOURCE_TYPES)[ConnectedSource];
+  book_key: string;
+  book_value: number;
+  tax_key: string;
+  tax_value: number;
+  /** book − tax */
+  delta: number;
+  /** delta / |tax| */
+  delta_pct: number | null;
+  tolerance_pct: number;
+  status: "within_tolerance" | "variance";
+  note: string;
+};
+
+type Comparison = {
+  row_key: string;
+  label: string;
+  source: ConnectedSource;
+  bookKeys: string[];
+  taxKeys: string[];
+  tolerance: number;
+  note: string;
+};
+
+/**
+ * 5% matches checkTaxToFinancials' cash-vs-accrual allowance. Net income gets
+ * more room (depreciation methods, meals, officer life insurance are routine
+ * M-1 items); bank deposits more still (owner injections, loan proceeds and
+ * refunds land in deposits without being revenue).
+ */
+const COMPARISONS: Comparison[] = [
+  {
+    row_key: "TOTAL_REVENUE",
+    label: "Revenue",
+    source: "quickbooks",
+    bookKeys: ["TOTAL_REVENUE"],
+    taxKeys: ["GROSS_RECEIPTS", "NET_SALES_REVENUE", "TOTAL_INCOME"],
+    tolerance: 0.05,
+    note: "Book revenue vs tax gross receipts — cash/accrual method and year-end cutoff explain small differences.",
+  },
+  {
+    row_key: "COST_OF_GOODS_SOLD",
+    label: "Cost of goods sold",
+    source: "quickbooks",
+    bookKeys: ["COST_OF_GOODS_SOLD"],
+    taxKeys: ["COST_OF_GOODS_SOLD", "COGS"],
+    tolerance: 0.05,
+    note: "Book COGS vs Form 1125-A — inventory method and UNICAP adjustments differ between book and tax.",
+  },
+  {
+    row_key: "NET_PROFIT",
+    label: "Net income",
+    source: "quickbooks",
+    bookKeys: ["NET_INCOME"],
+    taxKeys: ["ORDINARY_BUSINESS_INCOME", "TAXABLE_INCOME"],
+    tolerance: 0.1,
+    note: "Book net income vs tax income — see Schedule M-1 for depreciation, meals and other book/tax differences.",
+  },
+  {
+    row_key: "TOTAL_ASSETS",
+    label: "Total assets",
+    source: "quickbooks",
+    bookKeys: ["TOTAL_ASSETS"],
+    taxKeys: ["SL_TOTAL_ASSETS"],
+    tolerance: 0.05,
+    note: "Book total assets vs Schedule L — tax depreciation usually leaves Schedule L fixed assets lower.",
+  },
+  {
+    row_key: "TOTAL_REVENUE",
+    label: "Bank deposits vs revenue",
+    source: "plaid",
+    bookKeys: ["BANK_TOTAL_DEPOSITS"],
+    taxKeys: ["GROSS_RECEIPTS", "NET_SALES_REVENUE", "TOTAL_INCOME"],
+    tolerance: 0.15,
+    note: "Bank deposits (transfers excluded) vs tax gross receipts — deposits well below receipts, or far above, need an explanation.",
+  },
+];
+
+function isTaxFact(f: ReconcilableFact): boolean {
+  return f.fact_type.startsWith("TAX_RETURN") || (f.source_canonical_type ?? "").includes("TAX_RETURN");
+}
+
+function monthsBetween(start: string | null, end: string | null): number | null {
+  if (!start || !end) return null;
+  const s = new Date(`${start}T00:00:00Z`);
+  const e = new Date(`${end}T00:00:00Z`);
+  return (e.getUTCFullYear() - s.getUTCFullYear()) * 12 + (e.getUTCMonth() - s.getUTCMonth()) + 1;
+}
+
+/**
+ * Compare connected book/bank figures with tax-return figures for the same
+ * fiscal year (matched on period-end year). Flow items only compare full-year
+ * book periods; balance sheet items compare the year-end balance.
+ */
+export function reconcileBookToTax(facts: ReconcilableFact[]): BookTaxDelta[] {
+  const live = facts.filter((f) => !f.is_superseded && f.fact_value_num !== null && f.fact_period_end && (f.owner_type ?? "DEAL") === "DEAL");
+  const deltas: BookTaxDelta[] = [];
+
+  for (const cmp of COMPARISONS) {
+    const sourceType = CONNECTED_SOURCE_TYPES[cmp.source];
+    const isFlow = cmp.row_key !== "TOTAL_ASSETS";
+
+    const bookByYear = new Map<number, ReconcilableFact>();
+    for (const f of live) {
+      if (f.source_canonical_type !== sourceType || !cmp.bookKeys.includes(f.fact_key)) continue;
+      if (isFlow && (monthsBetween(f.fact_period_start, f.fact_period_end) ?? 0) < 12) continue;
+      if (!isFlow && !f.fact_period_end!.endsWith("-12-31")) continue;
+      bookByYear.set(Number(f.fact_period_end!.slice(0, 4)), f);
+    }
+
+    for (const [year, book] of [...bookByYear.entries()].sort(([a], [b]) => a - b)) {
+      const tax = cmp.taxKeys
+        .map((k) => live.find((f) => isTaxFact(f) && f.fact_key === k && Number(f.fact_period_end!.slice(0, 4)) === year))
+        .find((f): f is ReconcilableFact => !!f);
+      if (!tax) continue;
+
+      const bookValue = book.fact_value_num!;
+      const taxValue = tax.fact_value_num!;
+      const delta = bookValue - taxValue;
+      const deltaPct = taxValue !== 0 ? delta / Math.abs(taxValue) : null;
+      const within = deltaPct === null ? delta === 0 : Math.abs(deltaPct) <= cmp.tolerance;
+
+      deltas.push({
+        year,
+        row_key: cmp.row_key,
+        label: cmp.label,
+        book_source: sourceType,
+        book_key: book.fact_key,
+        book_value: bookValue,
+        tax_key: tax.fact_key,
+        tax_value: taxValue,
+        delta,
+        delta_pct: deltaPct,
+        tolerance_pct: cmp.tolerance,
+        status: within ? "within_tolerance" : "variance",
+        note: cmp.note,
+      });
+    }
+  }
+
+  return deltas;
+}
@@ -6,10 +6,14 @@
  * - Account connection
  * - Transaction sync
  * - Cash flow extraction
+ * - Bank cash-flow spread facts (connectedFacts.ts), reconciled against
+ *   tax-return gross receipts
  */
 
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from "plaid";
+import { mapPlaidCashFlow, type BankTransactionLike } from "@/lib/connect/connectedFacts";
+import { writeConnectedFacts } from "@/lib/connect/writeConnectedFacts";
 
 // Plaid client (lazy-initialized)
 let plaidClient: PlaidApi | null = null;
@@ -198,6 +202,10 @@ export async function syncPlaidTransactions(params: {
 
     if (insertErr) throw insertErr;
 
+    // Bank cash-flow facts come from the deal's full synced history (with
+    // derived categories), not this single page of transactions.
+    await refreshPlaidCashFlowFacts({ dealId: params.dealId, bankId: params.bankId });
+
     // Update connection sync status
     await sb
       .from("borrower_account_connections")
@@ -256,6 +264,45 @@ function extractCashFlowFromTransactions(transactions: any[]): any {
   };
 }
 
+/**
+ * Rebuild the deal's bank cash-flow facts from every synced transaction in
+ * borrower_bank_transactions (the live Plaid sync in integrations/plaid/sync.ts
+ * writes there). Whole-history rebuild, so a removed or re-categorized
+ * transaction is reflected on the next sync.
+ */
+export async function refreshPlaidCashFlowFacts(params: {
+  dealId: string;
+  bankId: string;
+}): Promise<{ facts_written: number }> {
+  const sb = supabaseAdmin();
+  const PAGE = 1000;
+  const transactions: BankTransactionLike[] = [];
+
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await sb
+      .from("borrower_bank_transactions")
+      .select("posted_date, amount, is_pending, derived_category")
+      .eq("deal_id", params.dealId)
+      .order("posted_date", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`borrower_bank_transactions read failed: ${error.message}`);
+    const rows = (data ?? []) as Array<{ posted_date: string; amount: number; is_pending: boolean | null; derived_category: string | null }>;
+    for (const r of rows) {
+      transactions.push({ date: r.posted_date, amount: Number(r.amount), pending: r.is_pending ?? false, derived_category: r.derived_category });
+    }
+    if (rows.length < PAGE) break;
+  }
+
+  const { factsWritten } = await writeConnectedFacts({
+    dealId: params.dealId,
+    bankId: params.bankId,
+    source: "plaid",
+    sourceRef: `plaid:deal:${params.dealId}`,
+    items: mapPlaidCashFlow(transactions),
+  });
+  return { facts_written: factsWritten };
+}
+
 /**
  * Disconnect Plaid account
  */
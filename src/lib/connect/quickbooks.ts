@@ -6,10 +6,14 @@
  * - Financial statement extraction (P&L, Balance Sheet)
  * - AR/AP aging reports
  * - Normalized financial data
+ * - Spread facts (connectedFacts.ts) — one column per year, reconciled
+ *   against tax-return facts in the standard spread
  */
 
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import OAuthClient from "intuit-oauth";
+import { mapQboAging, mapQboBalanceSheet, mapQboProfitAndLoss, type ConnectedFactItem } from "@/lib/connect/connectedFacts";
+import { writeConnectedFacts } from "@/lib/connect/writeConnectedFacts";
 
 // QuickBooks OAuth client (lazy-initialized)
 let qboClient: OAuthClient | null = null;
@@ -130,7 +134,7 @@ export async function syncQBOFinancials(params: {
   connectionId: string;
   dealId: string;
   bankId: string;
-}): Promise<{ statements_synced: string[] }> {
+}): Promise<{ statements_synced: string[]; facts_written: number }> {
   const sb = supabaseAdmin();
 
   // Get connection
@@ -153,11 +157,14 @@ export async function syncQBOFinancials(params: {
 
     const realmId = connection.provider_id!;
     const statements: string[] = [];
+    const factItems: ConnectedFactItem[] = [];
 
-    // Pull Profit & Loss (last 3 years)
+    // Pull Profit & Loss (3 prior years + YTD), one column per year so each
+    // year lines up with that year's tax return
     const plResponse = await client.makeApiCall({
-      url: `https://quickbooks.api.intuit.com/v3/company/${realmId}/reports/ProfitAndLoss?start_date=${getDateYearsAgo(3)}&end_date=${getTodayDate()}`,
+      url: `https://quickbooks.api.intuit.com/v3/company/${realmId}/reports/ProfitAndLoss?start_date=${getYearStartYearsAgo(3)}&end_date=${getTodayDate()}&summarize_column_by=Year`,
     });
+    factItems.push(...mapQboProfitAndLoss(plResponse.json));
 
     // Normalize P&L data
     const normalizedPL = normalizeProfitAndLoss(plResponse.json);
@@ -172,16 +179,17 @@ export async function syncQBOFinancials(params: {
       raw_data: plResponse.json,
       evidence_field_path: "business.financials.profit_and_loss",
       evidence_confidence: 0.98,
-      period_start: getDateYearsAgo(3),
+      period_start: getYearStartYearsAgo(3),
       period_end: getTodayDate(),
     });
 
     statements.push("P&L");
 
-    // Pull Balance Sheet
+    // Pull Balance Sheet (year-end balances + current)
     const bsResponse = await client.makeApiCall({
-      url: `https://quickbooks.api.intuit.com/v3/company/${realmId}/reports/BalanceSheet?date=${getTodayDate()}`,
+      url: `https://quickbooks.api.intuit.com/v3/company/${realmId}/reports/BalanceSheet?start_date=${getYearStartYearsAgo(3)}&end_date=${getTodayDate()}&summarize_column_by=Year`,
     });
+    factItems.push(...mapQboBalanceSheet(bsResponse.json));
 
     const normalizedBS = normalizeBalanceSheet(bsResponse.json);
 
@@ -201,6 +209,24 @@ export async function syncQBOFinancials(params: {
 
     statements.push("Balance Sheet");
 
+    // Pull AR / AP aging summaries (as of today)
+    for (const kind of ["AR", "AP"] as const) {
+      const report = kind === "AR" ? "AgedReceivables" : "AgedPayables";
+      const agingResponse = await client.makeApiCall({
+        url: `https://quickbooks.api.intuit.com/v3/company/${realmId}/reports/${report}?report_date=${getTodayDate()}`,
+      });
+      factItems.push(...mapQboAging(agingResponse.json, kind, getTodayDate()));
+      statements.push(`${kind} Aging`);
+    }
+
+    const { factsWritten } = await writeConnectedFacts({
+      dealId: params.dealId,
+      bankId: params.bankId,
+      source: "quickbooks",
+      sourceRef: `quickbooks:${realmId}`,
+      items: factItems,
+    });
+
     // Update connection sync status
     await sb
       .from("borrower_account_connections")
@@ -210,7 +236,7 @@ export async function syncQBOFinancials(params: {
       })
       .eq("id", params.connectionId);
 
-    return { statements_synced: statements };
+    return { statements_synced: statements, facts_written: factsWritten };
   } catch (err: any) {
     console.error("[QBO] Financial sync failed:", err);
 
@@ -263,7 +289,9 @@ function extractLineItem(report: any, itemName: string): number {
   const findInRows = (rows: any[]): number | null => {
     for (const row of rows) {
       if (row.Summary?.ColData?.[0]?.value === itemName) {
-        return parseFloat(row.Summary.ColData[1]?.value || "0");
+        // Last column: the Total (P&L) / latest balance (BS) when summarized by year
+        const cols = row.Summary.ColData;
+        return parseFloat(cols[cols.length - 1]?.value || "0");
       }
       if (row.Rows) {
         const found = findInRows(row.Rows.Row);
@@ -277,12 +305,10 @@ function extractLineItem(report: any, itemName: string): number {
 }
 
 /**
- * Helper: Get date N years ago
+ * Helper: Get January 1 of the year N years ago
  */
-function getDateYearsAgo(years: number): string {
-  const date = new Date();
-  date.setFullYear(date.getFullYear() - years);
-  return date.toISOString().split("T")[0];
+function getYearStartYearsAgo(years: number): string {
+  return `${new Date().getFullYear() - years}-01-01`;
 }
 
 /**
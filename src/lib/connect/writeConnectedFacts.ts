@@ -0,0 +1,70 @@
+import "server-only";
+
+import { upsertDealFinancialFact } from "@/lib/financialFacts/writeFact";
+import { CONNECTED_SOURCE_TYPES, type ConnectedFactItem, type ConnectedSource } from "@/lib/connect/connectedFacts";
+
+const EXTRACTOR: Record<ConnectedSource, string> = {
+  quickbooks: "connect.quickbooks:v1",
+  plaid: "connect.plaid:v1",
+};
+
+/** API-sourced figures are exact, but unreviewed books rank below a filed return. */
+const CONFIDENCE: Record<ConnectedSource, number> = {
+  quickbooks: 0.9,
+  plaid: 0.95,
+};
+
+/**
+ * Persist connected-account facts through the canonical fact chokepoint and
+ * queue a spread recompute. `sourceRef` identifies the connection (e.g.
+ * `quickbooks:<realmId>`) — there is no deal_documents row behind these facts.
+ */
+export async function writeConnectedFacts(args: {
+  dealId: string;
+  bankId: string;
+  source: ConnectedSource;
+  sourceRef: string;
+  items: ConnectedFactItem[];
+}): Promise<{ factsWritten: number }> {
+  const results = await Promise.all(
+    args.items.map((item) =>
+      upsertDealFinancialFact({
+        dealId: args.dealId,
+        bankId: args.bankId,
+        sourceDocumentId: null,
+        factType: item.factType,
+        factKey: item.factKey,
+        factValueNum: item.value,
+        confidence: CONFIDENCE[args.source],
+        factPeriodStart: item.periodStart,
+        factPeriodEnd: item.periodEnd,
+        sourceCanonicalType: CONNECTED_SOURCE_TYPES[args.source],
+        provenance: {
+          source_type: "CONNECTED_ACCOUNT",
+          source_ref: `connected_account:${args.sourceRef}`,
+          as_of_date: item.periodEnd,
+          extractor: EXTRACTOR[args.source],
+          confidence: CONFIDENCE[args.source],
+        },
+      }),
+    ),
+  );
+  const factsWritten = results.filter((r) => r.ok).length;
+
+  // STANDARD carries the book-vs-tax deltas, so any connected write refreshes it
+  if (factsWritten > 0) {
+    try {
+      const { enqueueSpreadRecompute } = await import("@/lib/financialSpreads/enqueueSpreadRecompute");
+      const hasBalanceSheet = args.items.some((i) => i.factType === "BALANCE_SHEET");
+      await enqueueSpreadRecompute({
+        dealId: args.dealId,
+        bankId: args.bankId,
+        spreadTypes: hasBalanceSheet ? ["STANDARD", "BALANCE_SHEET"] : ["STANDARD"],
+      });
+    } catch (err: any) {
+      console.warn("[writeConnectedFacts] spread recompute enqueue failed (non-fatal)", err?.message);
+    }
+  }
+
+  return { factsWritten };
+}
@@ -0,0 +1,152 @@
+/**
+ * Covenant Compliance Engine Tests (Deterministic)
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  runCovenantCompliance,
+  selectTestPeriod,
+  testFinancialCovenant,
+} from "./covenantComplianceEngine";
+import { runCovenantRuleEngine } from "./covenantRuleEngine";
+import type { CovenantPackage, CovenantTestPeriod, FinancialCovenant } from "./covenantTypes";
+
+const DSCR: FinancialCovenant = {
+  id: "cov_dscr",
+  name: "DSCR Floor",
+  category: "dscr",
+  threshold: 1.25,
+  unit: "ratio",
+  testingFrequency: "annual",
+  testingBasis: "trailing 12-month",
+  draftLanguage: "",
+  rationale: "",
+  source: "rule_engine",
+  severity: "required",
+};
+
+const LEVERAGE: FinancialCovenant = {
+  ...DSCR,
+  id: "cov_lev",
+  name: "Leverage Cap",
+  category: "leverage",
+  threshold: 4.0,
+};
+
+const TEST_DATE = "2026-05-15T00:00:00.000Z";
+
+function period(periodEnd: string, facts: Record<string, number | null>): CovenantTestPeriod {
+  return { periodEnd, facts };
+}
+
+function pkg(): CovenantPackage {
+  const raw = runCovenantRuleEngine({
+    riskGrade: "BB",
+    dealType: "operating_company",
+    actualDscr: 1.5,
+    actualLeverage: 2.5,
+    actualDebtYield: null,
+    actualOccupancy: null,
+    actualGlobalCashFlow: null,
+    loanAmount: 1000000,
+  });
+  return {
+    dealId: "deal-1",
+    generatedAt: "2025-01-01T00:00:00.000Z",
+    riskGrade: "BB",
+    dealType: "operating_company",
+    financial: raw.financial,
+    reporting: raw.reporting,
+    affirmativeNegative: raw.behavioral,
+    springing: raw.springing,
+    rationale: "",
+    customizations: [],
+    bankerNotes: "",
+    snapshotHash: "abc",
+    ruleEngineVersion: "1.0.0",
+  };
+}
+
+describe("covenantComplianceEngine", () => {
+  it("passes a DSCR floor with ample cushion", () => {
+    const r = testFinancialCovenant(DSCR, [period("2025-12-31", { DSCR: 1.6 })], TEST_DATE);
+    assert.equal(r.status, "pass");
+    assert.equal(r.periodEnd, "2025-12-31");
+    assert.ok(Math.abs(r.headroom! - 0.35) < 1e-9);
+  });
+
+  it("flags a near miss inside the cushion", () => {
+    const r = testFinancialCovenant(DSCR, [period("2025-12-31", { DSCR: 1.30 })], TEST_DATE);
+    assert.equal(r.status, "near_miss");
+  });
+
+  it("fails a DSCR floor breach with negative headroom", () => {
+    const r = testFinancialCovenant(DSCR, [period("2025-12-31", { DSCR: 1.10 })], TEST_DATE);
+    assert.equal(r.status, "fail");
+    assert.ok(r.headroom! < 0);
+  });
+
+  it("derives DSCR from cash flow and debt service when DSCR fact is absent", () => {
+    const r = testFinancialCovenant(
+      DSCR,
+      [period("2025-12-31", { CASH_FLOW_AVAILABLE: 150000, ANNUAL_DEBT_SERVICE: 100000 })],
+      TEST_DATE,
+    );
+    assert.equal(r.actualValue, 1.5);
+    assert.equal(r.status, "pass");
+  });
+
+  it("treats leverage as a cap", () => {
+    const ok = testFinancialCovenant(LEVERAGE, [period("2025-12-31", { DEBT_TO_EQUITY: 2.0 })], TEST_DATE);
+    const bad = testFinancialCovenant(
+      LEVERAGE,
+      [period("2025-12-31", { TOTAL_LIABILITIES: 500000, NET_WORTH: 100000 })],
+      TEST_DATE,
+    );
+    assert.equal(ok.direction, "cap");
+    assert.equal(ok.status, "pass");
+    assert.equal(bad.actualValue, 5);
+    assert.equal(bad.status, "fail");
+  });
+
+  it("tests the newest period ending on or before the test date", () => {
+    const periods = [
+      period("2024-12-31", { DSCR: 1.0 }),
+      period("2025-12-31", { DSCR: 1.6 }),
+      period("2026-12-31", { DSCR: 0.5 }),
+    ];
+    const r = testFinancialCovenant(DSCR, periods, TEST_DATE);
+    assert.equal(r.periodEnd, "2025-12-31");
+    assert.equal(r.status, "pass");
+  });
+
+  it("returns insufficient_data when the newest period is stale for the frequency", () => {
+    const quarterly = { ...DSCR, testingFrequency: "quarterly" as const };
+    const r = testFinancialCovenant(quarterly, [period("2025-06-30", { DSCR: 1.6 })], TEST_DATE);
+    assert.equal(r.status, "insufficient_data");
+    assert.equal(r.periodEnd, null);
+    assert.equal(selectTestPeriod([period("2025-06-30", {})], TEST_DATE, "annual")?.periodEnd, "2025-06-30");
+  });
+
+  it("returns insufficient_data when the period lacks the needed facts", () => {
+    const r = testFinancialCovenant(DSCR, [period("2025-12-31", { REVENUE: 1000000 })], TEST_DATE);
+    assert.equal(r.status, "insufficient_data");
+    assert.equal(r.periodEnd, "2025-12-31");
+  });
+
+  it("activates the DSCR springing covenant when DSCR crosses the trigger", () => {
+    const p = pkg();
+    const trigger = p.springing.find((s) => s.triggerMetric === "DSCR")!.triggerThreshold;
+    const report = runCovenantCompliance(p, [period("2025-12-31", { DSCR: trigger - 0.05 })], TEST_DATE);
+    assert.equal(report.springingActivations.length, 1);
+    assert.equal(report.springingActivations[0].triggerMetric, "DSCR");
+    assert.ok(report.breachCount >= 1);
+  });
+
+  it("does not activate springing covenants above the trigger", () => {
+    const report = runCovenantCompliance(pkg(), [period("2025-12-31", { DSCR: 2.0, DEBT_TO_EQUITY: 1.0 })], TEST_DATE);
+    assert.equal(report.springingActivations.length, 0);
+    assert.equal(report.breachCount, 0);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Covenant Compliance Engine — post-close testing of a CovenantPackage
+ *
+ * Pure function. Package + spread periods + test date → pass / near-miss /
+ * fail per financial covenant, plus springing covenants whose trigger metric
+ * crossed its threshold. No LLM. No DB.
+ */
+
+import { COVENANT_RULE_CONFIG } from "./covenantRuleConfig";
+import type {
+  CovenantComplianceReport,
+  CovenantPackage,
+  CovenantTestPeriod,
+  CovenantTestResult,
+  CovenantTestStatus,
+  FinancialCovenant,
+  SpringingActivation,
+} from "./covenantTypes";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Facts = Record<string, number | null>;
+
+function num(facts: Facts, ...keys: string[]): number | null {
+  for (const k of keys) {
+    const v = facts[k];
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+  }
+  return null;
+}
+
+function ratio(numerator: number | null, denominator: number | null): number | null {
+  if (numerator === null || denominator === null || denominator === 0) return null;
+  return numerator / denominator;
+}
+
+// ── Metric resolution ─────────────────────────────────────────────────
+
+export function computeDscr(facts: Facts): number | null {
+  return (
+    num(facts, "DSCR") ??
+    ratio(num(facts, "CASH_FLOW_AVAILABLE"), num(facts, "ANNUAL_DEBT_SERVICE"))
+  );
+}
+
+export function computeLeverage(facts: Facts): number | null {
+  return (
+    num(facts, "DEBT_TO_EQUITY") ??
+    ratio(
+      num(facts, "TOTAL_LIABILITIES", "SL_TOTAL_LIABILITIES"),
+      num(facts, "NET_WORTH", "TOTAL_EQUITY", "SL_TOTAL_EQUITY"),
+    )
+  );
+}
+
+export function computeCovenantMetric(
+  covenant: Pick<FinancialCovenant, "category" | "unit">,
+  facts: Facts,
+): number | null {
+  switch (covenant.category) {
+    case "dscr":
+      return computeDscr(facts);
+    case "leverage":
+      return computeLeverage(facts);
+    case "liquidity":
+      return covenant.unit === "dollars"
+        ? num(facts, "CASH_AND_EQUIVALENTS", "SL_CASH")
+        : num(facts, "CURRENT_RATIO");
+    case "debt_yield":
+      return ratio(num(facts, "NOI_TTM", "NET_OPERATING_INCOME"), num(facts, "BANK_LOAN_TOTAL"));
+    case "occupancy":
+      return num(facts, "OCCUPANCY_PCT");
+    case "global_cash_flow":
+      return covenant.unit === "dollars"
+        ? num(facts, "GCF_GLOBAL_CASH_FLOW", "GLOBAL_CASH_FLOW")
+        : num(facts, "GCF_DSCR");
+  }
+}
+
+export function covenantDirection(category: FinancialCovenant["category"]): "floor" | "cap" {
+  return category === "leverage" ? "cap" : "floor";
+}
+
+function nearMissCushion(covenant: FinancialCovenant): number {
+  const c = COVENANT_RULE_CONFIG.compliance.nearMissCushion;
+  if (covenant.unit === "ratio") return c.ratio;
+  if (covenant.unit === "percentage") return c.percentage;
+  return Math.abs(covenant.threshold) * c.dollarsPct;
+}
+
+// ── Period selection ──────────────────────────────────────────────────
+
+/**
+ * Newest period ending on or before the test date, provided it is recent
+ * enough for the covenant's testing frequency. Null when nothing qualifies.
+ */
+export function selectTestPeriod(
+  periods: CovenantTestPeriod[],
+  testDate: string,
+  frequency: FinancialCovenant["testingFrequency"],
+): CovenantTestPeriod | null {
+  const testMs = Date.parse(testDate);
+  const maxAgeMs = COVENANT_RULE_CONFIG.compliance.maxPeriodAgeDays[frequency] * DAY_MS;
+
+  let best: CovenantTestPeriod | null = null;
+  for (const p of periods) {
+    const endMs = Date.parse(p.periodEnd);
+    if (!Number.isFinite(endMs) || endMs > testMs) continue;
+    if (testMs - endMs > maxAgeMs) continue;
+    if (!best || endMs > Date.parse(best.periodEnd)) best = p;
+  }
+  return best;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+export function testFinancialCovenant(
+  covenant: FinancialCovenant,
+  periods: CovenantTestPeriod[],
+  testDate: string,
+): CovenantTestResult {
+  const direction = covenantDirection(covenant.category);
+  const base = {
+    covenantId: covenant.id,
+    covenantName: covenant.name,
+    category: covenant.category,
+    direction,
+    threshold: covenant.threshold,
+    testingFrequency: covenant.testingFrequency,
+    testDate,
+  };
+
+  const period = selectTestPeriod(periods, testDate, covenant.testingFrequency);
+  if (!period) {
+    return {
+      ...base,
+      actualValue: null,
+      headroom: null,
+      status: "insufficient_data",
+      periodEnd: null,
+      reason: `No ${covenant.testingFrequency.replace(/_/g, "-")} spread period available as of ${testDate.slice(0, 10)}.`,
+    };
+  }
+
+  const actual = computeCovenantMetric(covenant, period.facts);
+  if (actual === null) {
+    return {
+      ...base,
+      actualValue: null,
+      headroom: null,
+      status: "insufficient_data",
+      periodEnd: period.periodEnd,
+      reason: `Spread period ${period.periodEnd} lacks the facts needed to compute ${covenant.name}.`,
+    };
+  }
+
+  const headroom = direction === "floor" ? actual - covenant.threshold : covenant.threshold - actual;
+  let status: CovenantTestStatus;
+  if (headroom < 0) status = "fail";
+  else if (headroom < nearMissCushion(covenant)) status = "near_miss";
+  else status = "pass";
+
+  const cmp = direction === "floor" ? "minimum" : "maximum";
+  return {
+    ...base,
+    actualValue: actual,
+    headroom,
+    status,
+    periodEnd: period.periodEnd,
+    reason: `${covenant.name}: actual ${actual.toFixed(2)} vs ${cmp} ${covenant.threshold.toFixed(2)} for period ending ${period.periodEnd}.`,
+  };
+}
+
+/** Springing trigger metrics → [resolver, direction that activates it]. */
+const SPRINGING_METRICS: Record<string, { compute: (f: Facts) => number | null; activatesWhen: "below" | "above" }> = {
+  DSCR: { compute: computeDscr, activatesWhen: "below" },
+  GCF_DSCR: { compute: (f) => num(f, "GCF_DSCR"), activatesWhen: "below" },
+  OCCUPANCY_PCT: { compute: (f) => num(f, "OCCUPANCY_PCT"), activatesWhen: "below" },
+  LEVERAGE: { compute: computeLeverage, activatesWhen: "above" },
+  DEBT_TO_EQUITY: { compute: computeLeverage, activatesWhen: "above" },
+};
+
+export function evaluateSpringingCovenants(
+  pkg: Pick<CovenantPackage, "springing">,
+  periods: CovenantTestPeriod[],
+  testDate: string,
+): SpringingActivation[] {
+  const out: SpringingActivation[] = [];
+  // Springing triggers are checked against the newest period on file, at the
+  // loosest (annual) staleness window.
+  const period = selectTestPeriod(periods, testDate, "annual");
+  if (!period) return out;
+
+  for (const s of pkg.springing) {
+    const metric = SPRINGING_METRICS[s.triggerMetric.toUpperCase()];
+    if (!metric) continue;
+    const actual = metric.compute(period.facts);
+    if (actual === null) continue;
+    const crossed = metric.activatesWhen === "below"
+      ? actual < s.triggerThreshold
+      : actual > s.triggerThreshold;
+    if (!crossed) continue;
+    out.push({
+      springingId: s.id,
+      name: s.name,
+      triggerMetric: s.triggerMetric,
+      triggerThreshold: s.triggerThreshold,
+      actualValue: actual,
+      periodEnd: period.periodEnd,
+      remedy: s.remedy,
+    });
+  }
+  return out;
+}
+
+export function runCovenantCompliance(
+  pkg: CovenantPackage,
+  periods: CovenantTestPeriod[],
+  testDate: string,
+): CovenantComplianceReport {
+  const results = pkg.financial.map((c) => testFinancialCovenant(c, periods, testDate));
+  return {
+    dealId: pkg.dealId,
+    testDate,
+    snapshotHash: pkg.snapshotHash,
+    results,
+    springingActivations: evaluateSpringingCovenants(pkg, periods, testDate),
+    breachCount: results.filter((r) => r.status === "fail").length,
+    nearMissCount: results.filter((r) => r.status === "near_miss").length,
+  };
+}
@@ -40,6 +40,13 @@ export const COVENANT_RULE_CONFIG = {
     occupancyTrigger: 0.10, // floor - 0.10
     leverageTrigger: 0.50, // cap + 0.50
   },
+
+  compliance: {
+    // Within this distance of the threshold (on the passing side) = near miss.
+    nearMissCushion: { ratio: 0.10, percentage: 0.02, dollarsPct: 0.10 },
+    // Newest spread period older than this (days before test date) is stale.
+    maxPeriodAgeDays: { monthly: 60, quarterly: 135, semi_annual: 225, annual: 485 },
+  },
 } as const;
 
 export function isInvestmentGrade(grade: string): boolean {
@@ -68,3 +68,49 @@ export type CovenantPackage = {
   snapshotHash: string | null;
   ruleEngineVersion: string;
 };
+
+// ── Post-Close Compliance Testing ─────────────────────────────────────
+
+export type CovenantTestStatus = "pass" | "near_miss" | "fail" | "insufficient_data";
+
+/** One spread period's facts, keyed by canonical fact_key. */
+export type CovenantTestPeriod = {
+  periodEnd: string;
+  facts: Record<string, number | null>;
+};
+
+export type CovenantTestResult = {
+  covenantId: string;
+  covenantName: string;
+  category: FinancialCovenant["category"];
+  direction: "floor" | "cap";
+  threshold: number;
+  actualValue: number | null;
+  /** Positive => cushion remaining; negative => breach magnitude. */
+  headroom: number | null;
+  status: CovenantTestStatus;
+  testingFrequency: TestingFrequency;
+  periodEnd: string | null;
+  testDate: string;
+  reason: string;
+};
+
+export type SpringingActivation = {
+  springingId: string;
+  name: string;
+  triggerMetric: string;
+  triggerThreshold: number;
+  actualValue: number;
+  periodEnd: string;
+  remedy: string;
+};
+
+export type CovenantComplianceReport = {
+  dealId: string;
+  testDate: string;
+  snapshotHash: string | null;
+  results: CovenantTestResult[];
+  springingActivations: SpringingActivation[];
+  breachCount: number;
+  nearMissCount: number;
+};
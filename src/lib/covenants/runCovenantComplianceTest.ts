@@ -0,0 +1,201 @@
+import "server-only";
+
+/**
+ * Covenant Compliance Test (Orchestrator)
+ *
+ * Loads the deal's latest covenant package and its spread periods, runs the
+ * pure compliance engine, persists one result per covenant per test period,
+ * and opens a monitoring exception on breach or springing activation.
+ * Re-running for the same period is idempotent (upsert on period key).
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { openMonitoringException } from "@/core/post-close/openMonitoringException";
+import { runCovenantCompliance } from "./covenantComplianceEngine";
+import type {
+  CovenantComplianceReport,
+  CovenantPackage,
+  CovenantTestPeriod,
+  DealType,
+} from "./covenantTypes";
+
+export type RunComplianceTestInput = {
+  dealId: string;
+  bankId: string;
+  testDate?: string;
+  runBy: string;
+};
+
+export type RunComplianceTestResult =
+  | { ok: true; report: CovenantComplianceReport; exceptionsOpened: number }
+  | { ok: false; error: "no_covenant_package" | "persist_failed" };
+
+export async function runCovenantComplianceTest(
+  input: RunComplianceTestInput,
+): Promise<RunComplianceTestResult> {
+  const sb = supabaseAdmin();
+  const testDate = input.testDate ?? new Date().toISOString();
+
+  const pkg = await loadLatestCovenantPackage(sb, input.dealId);
+  if (!pkg) return { ok: false, error: "no_covenant_package" };
+
+  const periods = await loadSpreadPeriods(sb, input.dealId);
+  const report = runCovenantCompliance(pkg, periods, testDate);
+
+  let exceptionsOpened = 0;
+  let breachExceptionId: string | null = null;
+  if (report.breachCount > 0) {
+    const ex = await openMonitoringException({
+      dealId: input.dealId,
+      bankId: input.bankId,
+      exceptionCode: "covenant_breach",
+      severity: "critical",
+      openedBy: input.runBy,
+    });
+    breachExceptionId = ex.exceptionId;
+    if (ex.created) exceptionsOpened++;
+  }
+
+  let springingExceptionId: string | null = null;
+  if (report.springingActivations.length > 0) {
+    const ex = await openMonitoringException({
+      dealId: input.dealId,
+      bankId: input.bankId,
+      exceptionCode: "springing_covenant_triggered",
+      severity: "urgent",
+      openedBy: input.runBy,
+    });
+    springingExceptionId = ex.exceptionId;
+    if (ex.created) exceptionsOpened++;
+  }
+
+  // Results without a period (insufficient data) are reported but not
+  // persisted — there is no test period to key them on.
+  const resultRows = report.results
+    .filter((r) => r.periodEnd !== null)
+    .map((r) => ({
+      deal_id: input.dealId,
+      bank_id: input.bankId,
+      snapshot_hash: report.snapshotHash,
+      covenant_id: r.covenantId,
+      covenant_name: r.covenantName,
+      category: r.category,
+      direction: r.direction,
+      threshold: r.threshold,
+      actual_value: r.actualValue,
+      headroom: r.headroom,
+      status: r.status,
+      testing_frequency: r.testingFrequency,
+      period_end: r.periodEnd,
+      test_date: testDate,
+      reason: r.reason,
+      exception_id: r.status === "fail" ? breachExceptionId : null,
+      tested_by: input.runBy,
+    }));
+
+  if (resultRows.length > 0) {
+    const { error } = await (sb as any)
+      .from("buddy_covenant_test_results")
+      .upsert(resultRows, { onConflict: "deal_id,covenant_id,period_end" });
+    if (error) {
+      console.error("[runCovenantComplianceTest] result persist failed", { dealId: input.dealId, error: error.message });
+      return { ok: false, error: "persist_failed" };
+    }
+  }
+
+  if (report.springingActivations.length > 0) {
+    const { error } = await (sb as any)
+      .from("buddy_covenant_springing_activations")
+      .upsert(
+        report.springingActivations.map((a) => ({
+          deal_id: input.dealId,
+          bank_id: input.bankId,
+          springing_id: a.springingId,
+          name: a.name,
+          trigger_metric: a.triggerMetric,
+          trigger_threshold: a.triggerThreshold,
+          actual_value: a.actualValue,
+          period_end: a.periodEnd,
+          remedy: a.remedy,
+          exception_id: springingExceptionId,
+        })),
+        { onConflict: "deal_id,springing_id,period_end", ignoreDuplicates: true },
+      );
+    if (error) {
+      console.error("[runCovenantComplianceTest] springing persist failed", { dealId: input.dealId, error: error.message });
+      return { ok: false, error: "persist_failed" };
+    }
+  }
+
+  if (report.breachCount > 0 || report.nearMissCount > 0 || report.springingActivations.length > 0) {
+    await sb.from("deal_timeline_events").insert({
+      deal_id: input.dealId,
+      kind: "covenant.compliance_tested",
+      title: "Covenant compliance test",
+      detail: `${report.breachCount} breach(es), ${report.nearMissCount} near miss(es), ${report.springingActivations.length} springing trigger(s)`,
+      visible_to_borrower: false,
+      meta: { test_date: testDate, snapshot_hash: report.snapshotHash },
+    });
+  }
+
+  return { ok: true, report, exceptionsOpened };
+}
+
+async function loadLatestCovenantPackage(
+  sb: ReturnType<typeof supabaseAdmin>,
+  dealId: string,
+): Promise<CovenantPackage | null> {
+  const { data: row } = await (sb as any)
+    .from("buddy_covenant_packages")
+    .select("deal_id, generated_at, risk_grade, deal_type, financial_covenants, reporting_covenants, behavioral_covenants, springing_covenants, rationale, customizations, banker_notes, snapshot_hash, rule_engine_version")
+    .eq("deal_id", dealId)
+    .order("generated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!row) return null;
+  return {
+    dealId: String(row.deal_id),
+    generatedAt: String(row.generated_at),
+    riskGrade: String(row.risk_grade),
+    dealType: row.deal_type as DealType,
+    financial: row.financial_covenants ?? [],
+    reporting: row.reporting_covenants ?? [],
+    affirmativeNegative: row.behavioral_covenants ?? [],
+    springing: row.springing_covenants ?? [],
+    rationale: String(row.rationale ?? ""),
+    customizations: row.customizations ?? [],
+    bankerNotes: String(row.banker_notes ?? ""),
+    snapshotHash: row.snapshot_hash ?? null,
+    ruleEngineVersion: String(row.rule_engine_version ?? ""),
+  };
+}
+
+async function loadSpreadPeriods(
+  sb: ReturnType<typeof supabaseAdmin>,
+  dealId: string,
+): Promise<CovenantTestPeriod[]> {
+  const { data, error } = await (sb as any)
+    .from("deal_financial_facts")
+    .select("fact_key, fact_value_num, fact_period_end")
+    .eq("deal_id", dealId)
+    .eq("is_superseded", false)
+    .neq("resolution_status", "rejected")
+    .neq("resolution_status", "system_invalidated")
+    .not("fact_period_end", "is", null);
+
+  if (error || !data) {
+    console.warn("[runCovenantComplianceTest] facts query failed", { dealId, error: error?.message });
+    return [];
+  }
+
+  const byPeriod = new Map<string, Record<string, number | null>>();
+  for (const row of data as { fact_key: string; fact_value_num: number | null; fact_period_end: string }[]) {
+    const periodEnd = String(row.fact_period_end).slice(0, 10);
+    const facts = byPeriod.get(periodEnd) ?? {};
+    facts[row.fact_key] = row.fact_value_num;
+    byPeriod.set(periodEnd, facts);
+  }
+
+  return [...byPeriod.entries()].map(([periodEnd, facts]) => ({ periodEnd, facts }));
+}
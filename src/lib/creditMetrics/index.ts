@@ -14,6 +14,7 @@ import { selectAnalysisPeriod } from "./periodSelection";
 import { computeDebtServiceForPeriod } from "./debtService";
 import { computeCoreCreditMetrics } from "./ratios";
 import { computeDebtPortfolioService, alignDebtServiceToPeriod } from "@/lib/debtEngine";
+import type { PortfolioServiceOpts } from "@/lib/debtEngine";
 import type { DebtInstrument } from "@/lib/debtEngine/types";
 
 // Re-export all types for consumer convenience
@@ -45,8 +46,9 @@ export { safeDivide, safeSum, buildDiagnostics } from "./explain";
 function resolveDebtServiceFromInstruments(
   instruments: DebtInstrument[],
   periodType: import("@/lib/modelEngine/types").PeriodType,
+  portfolioOpts: PortfolioServiceOpts = {},
 ): DebtServiceResult {
-  const portfolio = computeDebtPortfolioService(instruments);
+  const portfolio = computeDebtPortfolioService(instruments, portfolioOpts);
   const aligned = alignDebtServiceToPeriod(portfolio, periodType);
 
   // Split existing vs proposed
@@ -57,12 +59,12 @@ function resolveDebtServiceFromInstruments(
   let proposedDS: number | undefined;
 
   if (existingInstruments.length > 0) {
-    const existingPortfolio = computeDebtPortfolioService(existingInstruments);
+    const existingPortfolio = computeDebtPortfolioService(existingInstruments, portfolioOpts);
     existingDS = existingPortfolio.totalAnnualDebtService;
   }
 
   if (proposedInstruments.length > 0) {
-    const proposedPortfolio = computeDebtPortfolioService(proposedInstruments);
+    const proposedPortfolio = computeDebtPortfolioService(proposedInstruments, portfolioOpts);
     proposedDS = proposedPortfolio.totalAnnualDebtService;
   }
 
@@ -112,7 +114,10 @@ export function computeCreditSnapshot(
   // Phase 4C: use debt engine when instruments are provided
   const debtService =
     opts.instruments && opts.instruments.length > 0
-      ? resolveDebtServiceFromInstruments(opts.instruments, period.type)
+      ? resolveDebtServiceFromInstruments(opts.instruments, period.type, {
+          basis: opts.debtServiceBasis,
+          forwardRates: opts.forwardRates,
+        })
       : computeDebtServiceForPeriod(model, period.periodId);
 
   const ratios = computeCoreCreditMetrics(model, period.periodId, debtService);
@@ -35,6 +35,10 @@ export interface PeriodSelectionOpts {
 export interface CreditSnapshotOpts extends PeriodSelectionOpts {
   /** Debt instruments for institutional DS calculation (Phase 4C) */
   instruments?: import("@/lib/debtEngine/types").DebtInstrument[];
+  /** Annual DS basis for variable-rate instruments. Default: "current". */
+  debtServiceBasis?: import("@/lib/debtEngine/types").DebtServiceBasis;
+  /** Forward index paths for projecting variable-rate instruments */
+  forwardRates?: import("@/lib/debtEngine/types").ForwardRatePath[];
 }
 
 export interface SelectedPeriodResult {
@@ -0,0 +1,161 @@
+/**
+ * Debt Engine — Variable-Rate Tests
+ *
+ * Floating index + spread with floor/cap/resets, step-rate schedules,
+ * forward-path projection, and expected vs worst-case annual DS.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import type { DebtInstrument, ForwardRatePath } from "../types";
+import {
+  computeAnnualDebtService,
+  projectPaymentSchedule,
+  resolveAllInRate,
+} from "../amortization";
+import { computeDebtPortfolioService } from "../portfolio";
+import { applyRateShock } from "@/lib/stressEngine/modelTransforms";
+
+const PRIME_LOAN: DebtInstrument = {
+  id: "loan-prime",
+  source: "proposed",
+  principal: 1_000_000,
+  rate: 0.0825, // PRIME 7.50% + 0.75%
+  amortizationMonths: 120,
+  paymentFrequency: "monthly",
+  floating: {
+    index: "PRIME",
+    spread: 0.0075,
+    floor: 0.07,
+    cap: 0.11,
+    resetFrequencyMonths: 12,
+  },
+};
+
+const RISING_PRIME: ForwardRatePath = {
+  index: "PRIME",
+  points: [
+    { month: 1, rate: 0.075 },
+    { month: 13, rate: 0.085 },
+    { month: 25, rate: 0.095 },
+  ],
+};
+
+describe("resolveAllInRate", () => {
+  it("uses index at the most recent reset month + spread", () => {
+    assert.ok(Math.abs(resolveAllInRate(PRIME_LOAN, 1, RISING_PRIME) - 0.0825) < 1e-12);
+    // Month 12 still within first reset window
+    assert.ok(Math.abs(resolveAllInRate(PRIME_LOAN, 12, RISING_PRIME) - 0.0825) < 1e-12);
+    assert.ok(Math.abs(resolveAllInRate(PRIME_LOAN, 13, RISING_PRIME) - 0.0925) < 1e-12);
+  });
+
+  it("applies floor and cap to the all-in rate", () => {
+    const low: ForwardRatePath = { index: "PRIME", points: [{ month: 1, rate: 0.03 }] };
+    const high: ForwardRatePath = { index: "PRIME", points: [{ month: 1, rate: 0.15 }] };
+    assert.equal(resolveAllInRate(PRIME_LOAN, 1, low), 0.07);
+    assert.equal(resolveAllInRate(PRIME_LOAN, 1, high), 0.11);
+  });
+
+  it("implies a flat index from the current rate without a path", () => {
+    assert.ok(Math.abs(resolveAllInRate(PRIME_LOAN, 60) - 0.0825) < 1e-12);
+  });
+
+  it("applies step-rate schedules to fixed instruments", () => {
+    const stepped: DebtInstrument = {
+      ...PRIME_LOAN,
+      floating: undefined,
+      rate: 0.06,
+      rateSteps: [{ fromMonth: 37, rate: 0.07 }],
+    };
+    assert.equal(resolveAllInRate(stepped, 36), 0.06);
+    assert.equal(resolveAllInRate(stepped, 37), 0.07);
+  });
+});
+
+describe("projectPaymentSchedule", () => {
+  it("flat path matches the fixed-rate annual DS", () => {
+    const proj = projectPaymentSchedule(PRIME_LOAN);
+    const fixed = computeAnnualDebtService({ ...PRIME_LOAN, floating: undefined });
+    assert.ok(Math.abs(proj.expectedAnnualDebtService! - fixed.annualDebtService!) < 0.01);
+    assert.equal(proj.payments.length, 120);
+    assert.ok(proj.payments[119].endingBalance < 0.01);
+  });
+
+  it("recasts the payment when the rate resets upward", () => {
+    const proj = projectPaymentSchedule(PRIME_LOAN, RISING_PRIME);
+    assert.ok(proj.payments[12].payment > proj.payments[11].payment);
+    assert.ok(proj.annual[2].debtService > proj.annual[0].debtService);
+    assert.ok(proj.peakAnnualDebtService! >= proj.expectedAnnualDebtService!);
+  });
+
+  it("worst case pins the rate at the lifetime cap", () => {
+    const proj = projectPaymentSchedule(PRIME_LOAN, RISING_PRIME);
+    const atCap = computeAnnualDebtService({ ...PRIME_LOAN, floating: undefined, rate: 0.11 });
+    assert.equal(proj.worstCaseRate, 0.11);
+    assert.ok(Math.abs(proj.worstCaseAnnualDebtService! - atCap.annualDebtService!) < 0.01);
+  });
+
+  it("without a cap the worst case uses the path maximum and notes it", () => {
+    const uncapped: DebtInstrument = {
+      ...PRIME_LOAN,
+      floating: { ...PRIME_LOAN.floating!, cap: undefined },
+    };
+    const proj = projectPaymentSchedule(uncapped, RISING_PRIME);
+    assert.ok(Math.abs(proj.worstCaseRate! - 0.1025) < 1e-12);
+    assert.ok(proj.diagnostics?.notes?.some((n) => n.includes("No lifetime cap")));
+  });
+
+  it("periodic cap limits the change at each reset", () => {
+    const jump: ForwardRatePath = {
+      index: "PRIME",
+      points: [{ month: 1, rate: 0.075 }, { month: 13, rate: 0.10 }],
+    };
+    const capped: DebtInstrument = {
+      ...PRIME_LOAN,
+      floating: { ...PRIME_LOAN.floating!, periodicCap: 0.01 },
+    };
+    const proj = projectPaymentSchedule(capped, jump);
+    assert.ok(Math.abs(proj.payments[12].rate - 0.0925) < 1e-12);
+  });
+
+  it("balloon loans report the unpaid balance at maturity", () => {
+    const balloon: DebtInstrument = { ...PRIME_LOAN, amortizationMonths: 300, termMonths: 60, balloon: true };
+    const proj = projectPaymentSchedule(balloon, RISING_PRIME);
+    assert.equal(proj.payments.length, 60);
+    assert.ok(proj.balloonAmount > 0);
+    assert.equal(proj.annual.length, 5);
+  });
+
+  it("interest-only months carry no principal", () => {
+    const io: DebtInstrument = { ...PRIME_LOAN, interestOnlyMonths: 12 };
+    const proj = projectPaymentSchedule(io);
+    assert.equal(proj.payments[0].principal, 0);
+    assert.ok(proj.payments[12].principal > 0);
+  });
+});
+
+describe("Portfolio basis", () => {
+  it("current basis preserves Phase 4C behavior", () => {
+    const current = computeDebtPortfolioService([PRIME_LOAN]);
+    const fixed = computeAnnualDebtService(PRIME_LOAN);
+    assert.equal(current.totalAnnualDebtService, fixed.annualDebtService);
+  });
+
+  it("worst_case basis ≥ expected basis ≥ current for a rising path", () => {
+    const opts = { forwardRates: [RISING_PRIME] };
+    const current = computeDebtPortfolioService([PRIME_LOAN], opts).totalAnnualDebtService!;
+    const expected = computeDebtPortfolioService([PRIME_LOAN], { ...opts, basis: "expected" }).totalAnnualDebtService!;
+    const worst = computeDebtPortfolioService([PRIME_LOAN], { ...opts, basis: "worst_case" }).totalAnnualDebtService!;
+    assert.ok(expected > current);
+    assert.ok(worst > expected);
+  });
+});
+
+describe("Rate shock on variable instruments", () => {
+  it("never pushes the all-in rate above the cap", () => {
+    const [shocked] = applyRateShock([{ ...PRIME_LOAN, rate: 0.105 }], 200)!;
+    assert.equal(shocked.rate, 0.11);
+    assert.ok(Math.abs(shocked.floating!.spread - 0.0275) < 1e-12);
+  });
+});
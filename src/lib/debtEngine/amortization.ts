@@ -13,9 +13,20 @@
  * For underwriting DSCR, we compute the fully-amortizing annual payment
  * (post-IO steady state), since that's the conservative assumption.
  * Balloon principal is excluded from annual DS per banking convention.
+ *
+ * Variable instruments (floating index, step rates) are projected period by
+ * period under a forward rate path: the payment is recast on the remaining
+ * balance and remaining amortization whenever the all-in rate changes.
  */
 
-import type { DebtInstrument, InstrumentServiceResult } from "./types";
+import type {
+  DebtInstrument,
+  ForwardRatePath,
+  InstrumentServiceResult,
+  PaymentScheduleProjection,
+  ProjectedAnnualDebtService,
+  ProjectedPayment,
+} from "./types";
 
 // ---------------------------------------------------------------------------
 // Internal helpers
@@ -167,3 +178,223 @@ export function computeAnnualDebtService(instrument: DebtInstrument): Instrument
     diagnostics: notes.length > 0 ? { notes } : undefined,
   };
 }
+
+// ---------------------------------------------------------------------------
+// Rate-path projection
+// ---------------------------------------------------------------------------
+
+/** True when the instrument's rate can change over its life. */
+export function isVariableRate(instrument: DebtInstrument): boolean {
+  return instrument.floating !== undefined || (instrument.rateSteps?.length ?? 0) > 0;
+}
+
+function activeStep(instrument: DebtInstrument, month: number) {
+  let step: NonNullable<DebtInstrument["rateSteps"]>[number] | undefined;
+  for (const s of instrument.rateSteps ?? []) {
+    if (s.fromMonth <= month && (!step || s.fromMonth >= step.fromMonth)) step = s;
+  }
+  return step;
+}
+
+function indexRateAt(path: ForwardRatePath | undefined, month: number): number | undefined {
+  if (!path || path.points.length === 0) return undefined;
+  const sorted = [...path.points].sort((a, b) => a.month - b.month);
+  let value = sorted[0].rate;
+  for (const p of sorted) {
+    if (p.month <= month) value = p.rate;
+  }
+  return value;
+}
+
+function clampRate(rate: number, floor?: number, cap?: number): number {
+  let r = rate;
+  if (floor !== undefined) r = Math.max(r, floor);
+  if (cap !== undefined) r = Math.min(r, cap);
+  return r;
+}
+
+/**
+ * All-in annual rate for a given month, before periodic-cap smoothing.
+ *
+ * Floating: index (from the path at the most recent reset month) + spread,
+ * bounded by floor/cap. Without a path, the index is implied from the
+ * current all-in rate (rate - spread), i.e. a flat path.
+ */
+export function resolveAllInRate(
+  instrument: DebtInstrument,
+  month: number,
+  path?: ForwardRatePath,
+): number {
+  const step = activeStep(instrument, month);
+  const fl = instrument.floating;
+  if (!fl) return step?.rate ?? instrument.rate;
+
+  const resetEvery = Math.max(1, Math.floor(fl.resetFrequencyMonths));
+  const resetMonth = Math.floor((month - 1) / resetEvery) * resetEvery + 1;
+  const index = indexRateAt(path?.index === fl.index ? path : undefined, resetMonth)
+    ?? instrument.rate - fl.spread;
+  const spread = step?.spread ?? fl.spread;
+  return clampRate(index + spread, fl.floor, fl.cap);
+}
+
+type ProjectionCore = {
+  payments: ProjectedPayment[];
+  annual: ProjectedAnnualDebtService[];
+  balloonAmount: number;
+};
+
+function runSchedule(
+  instrument: DebtInstrument,
+  rateForMonth: (month: number) => number,
+): ProjectionCore {
+  const ppy = periodsPerYear(instrument.paymentFrequency);
+  const monthsPerPeriod = 12 / ppy;
+  const termMonths = instrument.termMonths ?? instrument.amortizationMonths;
+  const horizon = Math.ceil(termMonths / monthsPerPeriod);
+  const ioPeriods = Math.ceil((instrument.interestOnlyMonths ?? 0) / monthsPerPeriod);
+  const amortPeriods = amortPeriodsForFrequency(instrument.amortizationMonths, instrument.paymentFrequency);
+  const periodicCap = instrument.floating?.periodicCap;
+
+  const payments: ProjectedPayment[] = [];
+  let balance = instrument.principal;
+  let prevRate: number | undefined;
+  let payment = 0;
+
+  for (let k = 1; k <= horizon && balance > 1e-6; k++) {
+    const month = (k - 1) * monthsPerPeriod + 1;
+    let rate = rateForMonth(month);
+    if (prevRate !== undefined && periodicCap !== undefined) {
+      rate = Math.min(Math.max(rate, prevRate - periodicCap), prevRate + periodicCap);
+    }
+    const periodicRate = rate / ppy;
+    const interest = balance * periodicRate;
+    let principal: number;
+
+    if (k <= ioPeriods) {
+      payment = interest;
+      principal = 0;
+    } else {
+      const remaining = Math.max(1, amortPeriods - (k - ioPeriods - 1));
+      // Recast on the first amortizing period and at every rate change.
+      if (k === ioPeriods + 1 || rate !== prevRate) {
+        payment = pmt(balance, periodicRate, remaining);
+      }
+      principal = Math.min(payment - interest, balance);
+      payment = principal + interest;
+    }
+
+    balance -= principal;
+    payments.push({ period: k, month, rate, payment, interest, principal, endingBalance: balance });
+    prevRate = rate;
+  }
+
+  const byYear = new Map<number, ProjectedAnnualDebtService & { rateSum: number; count: number }>();
+  for (const p of payments) {
+    const year = Math.ceil(p.month / 12);
+    const y = byYear.get(year) ?? { year, debtService: 0, interest: 0, principal: 0, averageRate: 0, rateSum: 0, count: 0 };
+    y.debtService += p.payment;
+    y.interest += p.interest;
+    y.principal += p.principal;
+    y.rateSum += p.rate;
+    y.count++;
+    byYear.set(year, y);
+  }
+  const annual = [...byYear.values()]
+    .sort((a, b) => a.year - b.year)
+    .map(({ rateSum, count, ...y }) => ({ ...y, averageRate: rateSum / count }));
+
+  return { payments, annual, balloonAmount: Math.max(0, balance) };
+}
+
+/** Full-year totals only — a stub final year would understate annual DS. */
+function fullYears(instrument: DebtInstrument, core: ProjectionCore): ProjectedAnnualDebtService[] {
+  const ppy = periodsPerYear(instrument.paymentFrequency);
+  const counts = new Map<number, number>();
+  for (const p of core.payments) {
+    const year = Math.ceil(p.month / 12);
+    counts.set(year, (counts.get(year) ?? 0) + 1);
+  }
+  const full = core.annual.filter((y) => counts.get(y.year) === ppy);
+  return full.length > 0 ? full : core.annual;
+}
+
+/**
+ * Project the payment schedule of an instrument under a forward rate path,
+ * and report expected, peak, and worst-case annual debt service.
+ *
+ * Worst case pins the all-in rate at its ceiling: the lifetime cap when one
+ * exists, otherwise the highest rate reached on the path or step schedule.
+ *
+ * Pure function — deterministic, no side effects.
+ */
+export function projectPaymentSchedule(
+  instrument: DebtInstrument,
+  path?: ForwardRatePath,
+): PaymentScheduleProjection {
+  const base = computeAnnualDebtService(instrument);
+  if (base.annualDebtService === undefined || instrument.principal === 0) {
+    return {
+      instrumentId: instrument.id,
+      payments: [],
+      annual: [],
+      expectedAnnualDebtService: base.annualDebtService,
+      peakAnnualDebtService: base.annualDebtService,
+      worstCaseAnnualDebtService: base.annualDebtService,
+      worstCaseRate: base.annualDebtService === undefined ? undefined : instrument.rate,
+      balloonAmount: 0,
+      diagnostics: base.diagnostics,
+    };
+  }
+
+  const notes: string[] = [];
+  const fl = instrument.floating;
+  if (fl && fl.resetFrequencyMonths <= 0) {
+    return {
+      instrumentId: instrument.id,
+      payments: [],
+      annual: [],
+      expectedAnnualDebtService: undefined,
+      peakAnnualDebtService: undefined,
+      worstCaseAnnualDebtService: undefined,
+      worstCaseRate: undefined,
+      balloonAmount: 0,
+      diagnostics: { unsupportedStructure: true, notes: ["Non-positive reset frequency"] },
+    };
+  }
+  if (fl && path && path.index !== fl.index) {
+    notes.push(`Forward path is ${path.index}; instrument indexes ${fl.index}. Flat index assumed.`);
+  } else if (fl && !path) {
+    notes.push("No forward path supplied. Flat index assumed at current all-in rate less spread.");
+  }
+
+  const expected = runSchedule(instrument, (m) => resolveAllInRate(instrument, m, path));
+  const expectedYears = fullYears(instrument, expected);
+  const expectedDS = expectedYears.reduce((s, y) => s + y.debtService, 0) / expectedYears.length;
+  const peakDS = Math.max(...expectedYears.map((y) => y.debtService));
+
+  let ceiling: number;
+  if (fl?.cap !== undefined) {
+    ceiling = fl.cap;
+  } else {
+    ceiling = Math.max(...expected.payments.map((p) => p.rate));
+    if (fl) notes.push("No lifetime cap. Worst case limited to the forward path maximum.");
+  }
+  const worst = runSchedule(instrument, () => ceiling);
+  const worstDS = Math.max(...fullYears(instrument, worst).map((y) => y.debtService));
+
+  if (expected.balloonAmount > 0) {
+    notes.push("Balloon payment excluded from annual debt service.");
+  }
+
+  return {
+    instrumentId: instrument.id,
+    payments: expected.payments,
+    annual: expected.annual,
+    expectedAnnualDebtService: expectedDS,
+    peakAnnualDebtService: peakDS,
+    worstCaseAnnualDebtService: Math.max(worstDS, peakDS),
+    worstCaseRate: ceiling,
+    balloonAmount: expected.balloonAmount,
+    diagnostics: notes.length > 0 ? { notes } : undefined,
+  };
+}
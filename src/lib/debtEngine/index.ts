@@ -2,7 +2,8 @@
  * Debt Engine — Public API
  *
  * Institutional debt service computation.
- * Supports amortizing, IO, balloon, multi-instrument portfolios.
+ * Supports amortizing, IO, balloon, multi-instrument portfolios,
+ * and floating / step-rate instruments projected under a forward path.
  *
  * PHASE 4C: Pure math — no policy, no stress, no UI.
  */
@@ -15,9 +16,23 @@ export type {
   AlignedDebtService,
   PaymentFrequency,
   PeriodAlignmentType,
+  RateIndexCode,
+  FloatingRateTerms,
+  RateStep,
+  ForwardRatePath,
+  DebtServiceBasis,
+  ProjectedPayment,
+  ProjectedAnnualDebtService,
+  PaymentScheduleProjection,
 } from "./types";
+export type { PortfolioServiceOpts } from "./portfolio";
 
 // Re-export computation functions
-export { computeAnnualDebtService } from "./amortization";
+export {
+  computeAnnualDebtService,
+  isVariableRate,
+  resolveAllInRate,
+  projectPaymentSchedule,
+} from "./amortization";
 export { computeDebtPortfolioService } from "./portfolio";
 export { alignDebtServiceToPeriod } from "./periodAlignment";
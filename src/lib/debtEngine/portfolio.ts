@@ -7,8 +7,64 @@
  * PHASE 4C: Pure math — no policy, no stress.
  */
 
-import type { DebtInstrument, InstrumentServiceResult, PortfolioServiceResult } from "./types";
-import { computeAnnualDebtService } from "./amortization";
+import type {
+  DebtInstrument,
+  DebtServiceBasis,
+  ForwardRatePath,
+  InstrumentServiceResult,
+  PortfolioServiceResult,
+} from "./types";
+import { computeAnnualDebtService, isVariableRate, projectPaymentSchedule } from "./amortization";
+
+export interface PortfolioServiceOpts {
+  /** Which annual DS to use for variable-rate instruments. Default: "current". */
+  basis?: DebtServiceBasis;
+  /** Forward index paths, matched to instruments by index code */
+  forwardRates?: ForwardRatePath[];
+}
+
+/**
+ * Annual DS for one instrument on the requested basis. Fixed-rate
+ * instruments always use the Phase 4C fully-amortizing payment.
+ */
+function computeInstrumentService(
+  instrument: DebtInstrument,
+  opts: PortfolioServiceOpts,
+): InstrumentServiceResult {
+  const result = computeAnnualDebtService(instrument);
+  const basis = opts.basis ?? "current";
+  if (basis === "current" || !isVariableRate(instrument) || result.annualDebtService === undefined) {
+    return result;
+  }
+
+  const path = instrument.floating
+    ? opts.forwardRates?.find((p) => p.index === instrument.floating!.index)
+    : undefined;
+  const projection = projectPaymentSchedule(instrument, path);
+  const annualDS = basis === "expected"
+    ? projection.expectedAnnualDebtService
+    : projection.worstCaseAnnualDebtService;
+  if (annualDS === undefined) return result;
+
+  const firstYear = projection.annual[0];
+  const interestShare = firstYear && firstYear.debtService > 0 ? firstYear.interest / firstYear.debtService : 0;
+  return {
+    ...result,
+    annualDebtService: annualDS,
+    breakdown: {
+      principal: annualDS * (1 - interestShare),
+      interest: annualDS * interestShare,
+    },
+    diagnostics: {
+      ...result.diagnostics,
+      notes: [
+        ...(result.diagnostics?.notes ?? []),
+        ...(projection.diagnostics?.notes ?? []),
+        `Variable-rate DS on ${basis.replace("_", "-")} basis.`,
+      ],
+    },
+  };
+}
 
 /**
  * Compute total annual debt service across a portfolio of instruments.
@@ -18,11 +74,13 @@ import { computeAnnualDebtService } from "./amortization";
  * - Invalid instruments tracked in diagnostics
  * - Total is sum of all valid instruments
  * - If ALL instruments are invalid, total is undefined
+ * - Variable-rate instruments use opts.basis (current / expected / worst_case)
  *
  * Pure function — deterministic, no side effects.
  */
 export function computeDebtPortfolioService(
   instruments: DebtInstrument[],
+  opts: PortfolioServiceOpts = {},
 ): PortfolioServiceResult {
   if (instruments.length === 0) {
     return {
@@ -42,7 +100,7 @@ export function computeDebtPortfolioService(
   let validCount = 0;
 
   for (const instrument of instruments) {
-    const result = computeAnnualDebtService(instrument);
+    const result = computeInstrumentService(instrument, opts);
     breakdown[instrument.id] = result;
 
     if (result.annualDebtService !== undefined) {
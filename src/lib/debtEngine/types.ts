@@ -3,6 +3,8 @@
  *
  * Institutional debt service computation types.
  * Supports amortizing, IO, balloon, and multi-instrument portfolios.
+ * Variable instruments: index + spread with floor/cap, periodic resets,
+ * and step-rate schedules, projected under a supplied forward rate path.
  *
  * PHASE 4C: Pure math — no policy, no stress, no UI.
  */
@@ -13,11 +15,58 @@
 
 export type PaymentFrequency = "monthly" | "quarterly" | "annual";
 
+export type RateIndexCode = "PRIME" | "SOFR" | "UST_5Y";
+
+/**
+ * Floating-rate terms. All rates are annual decimals.
+ * Floor and cap bound the all-in rate (index + spread), not the index.
+ */
+export interface FloatingRateTerms {
+  index: RateIndexCode;
+  /** Margin over the index (e.g. 0.0275 for +275bps) */
+  spread: number;
+  floor?: number;
+  /** Lifetime cap on the all-in rate */
+  cap?: number;
+  /** Max all-in change at any single reset */
+  periodicCap?: number;
+  /** Months between resets (1 = monthly, 12 = annual, 60 = five-year adjustable) */
+  resetFrequencyMonths: number;
+}
+
+/**
+ * Step-rate schedule entry. From `fromMonth` (1-based) onward, a fixed
+ * instrument pays `rate`; a floating instrument pays index + `spread`.
+ */
+export interface RateStep {
+  fromMonth: number;
+  rate?: number;
+  spread?: number;
+}
+
+/**
+ * Forward index path. The index value for month m is the last point with
+ * point.month <= m; months before the first point use the first point.
+ */
+export interface ForwardRatePath {
+  index: RateIndexCode;
+  points: Array<{ month: number; rate: number }>;
+}
+
+/**
+ * Which annual debt service feeds DSCR:
+ * - current: today's all-in rate, fully amortizing (Phase 4C behavior)
+ * - expected: mean annual DS under the forward rate path
+ * - worst_case: highest annual DS with the rate pinned at its ceiling
+ */
+export type DebtServiceBasis = "current" | "expected" | "worst_case";
+
 export interface DebtInstrument {
   id: string;
   source: "existing" | "proposed";
   principal: number;
-  /** Annual interest rate as decimal (e.g. 0.065 for 6.5%) */
+  /** Annual interest rate as decimal (e.g. 0.065 for 6.5%). For floating
+   *  instruments this is the current all-in rate. */
   rate: number;
   /** Total amortization schedule in months */
   amortizationMonths: number;
@@ -28,6 +77,10 @@ export interface DebtInstrument {
   /** Whether the loan has a balloon payment at maturity */
   balloon?: boolean;
   paymentFrequency: PaymentFrequency;
+  /** Present for index-based instruments; absent = fixed rate */
+  floating?: FloatingRateTerms;
+  /** Step-up / step-down schedule, ordered by fromMonth */
+  rateSteps?: RateStep[];
 }
 
 // ---------------------------------------------------------------------------
@@ -53,6 +106,50 @@ export interface InstrumentServiceResult {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Rate-Path Projection
+// ---------------------------------------------------------------------------
+
+export interface ProjectedPayment {
+  period: number;
+  /** First month (1-based) covered by this payment */
+  month: number;
+  rate: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  endingBalance: number;
+}
+
+export interface ProjectedAnnualDebtService {
+  year: number;
+  debtService: number;
+  interest: number;
+  principal: number;
+  averageRate: number;
+}
+
+export interface PaymentScheduleProjection {
+  instrumentId: string;
+  payments: ProjectedPayment[];
+  annual: ProjectedAnnualDebtService[];
+  /** Mean annual DS over the projected years under the forward path */
+  expectedAnnualDebtService: number | undefined;
+  /** Highest projected year under the forward path */
+  peakAnnualDebtService: number | undefined;
+  /** Highest year with the all-in rate pinned at its ceiling */
+  worstCaseAnnualDebtService: number | undefined;
+  /** Ceiling rate used for the worst case */
+  worstCaseRate: number | undefined;
+  /** Unpaid balance at maturity (excluded from annual DS) */
+  balloonAmount: number;
+  diagnostics?: {
+    missingInputs?: string[];
+    unsupportedStructure?: boolean;
+    notes?: string[];
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Portfolio Result
 // ---------------------------------------------------------------------------
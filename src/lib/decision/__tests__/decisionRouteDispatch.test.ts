@@ -33,7 +33,7 @@ describe("matchDecisionPath — path → handler mapping", () => {
   });
 
   it("all [snapshotId] children dispatch with the snapshot id", () => {
-    const cases = ["attest", "committee-status", "counterfactual", "diff", "finalize", "pdf", "regulator-zip"];
+    const cases = ["attest", "co-sign", "committee-status", "counterfactual", "diff", "finalize", "pdf", "regulator-zip"];
     for (const seg of cases) {
       const m = matchDecisionPath(["s1", seg]);
       assert.equal(m?.route.handler, seg, seg);
@@ -102,7 +102,7 @@ describe("dispatcher source guarantees", () => {
 
   it("every routing-table handler key has a backing module", () => {
     for (const key of [
-      "generate", "latest", "audit-export", "snapshot", "attest", "committee-status",
+      "generate", "latest", "audit-export", "snapshot", "attest", "co-sign", "committee-status",
       "counterfactual", "diff", "finalize", "pdf", "regulator-zip",
       "committee/dissent", "committee/minutes", "committee/status", "committee/vote",
     ]) {
@@ -36,6 +36,9 @@ export type DecisionReadinessInput = {
   unresolvedPricingReview?: boolean;
   unresolvedStructureReview?: boolean;
   committeeDiscussionItemsOpen?: number;
+  // Sanctions / watchlist screening (src/lib/sanctions)
+  sanctionsOpenHitCount?: number;
+  sanctionsTrueMatchCount?: number;
 };
 
 /**
@@ -101,6 +104,14 @@ export function validateDecisionReadiness(
     warnings.push(`${input.committeeDiscussionItemsOpen} committee discussion item(s) remain unresolved`);
   }
 
+  // Sanctions screening: every hit dispositioned; a true match permits only a decline
+  if (input.sanctionsOpenHitCount != null && input.sanctionsOpenHitCount > 0) {
+    blockers.push(`${input.sanctionsOpenHitCount} sanctions screening hit(s) need a disposition`);
+  }
+  if (input.sanctionsTrueMatchCount != null && input.sanctionsTrueMatchCount > 0 && input.decisionType !== "declined") {
+    blockers.push("A party is a confirmed sanctions match — only a decline can be recorded");
+  }
+
   // Memo must meet completeness threshold
   if (!input.memoCompleteness.complete) {
     blockers.push(`Credit memo incomplete (${input.memoCompleteness.pct}%) — missing: ${input.memoCompleteness.missing_sections.join(", ")}`);
@@ -0,0 +1,189 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { analyzeBankTransactions, counterpartyKey, type BankTransactionInput } from "../bankTransactionAnalyzer";
+import { parseStatementTransactions } from "../statementTransactionParser";
+import { buildDebtSchedule } from "../../financialFacts/debtScheduleAutoBuilder";
+
+function tx(date: string, amount: number, description: string, extra: Partial<BankTransactionInput> = {}): BankTransactionInput {
+  return { date, amount, description, source: "plaid", ...extra };
+}
+
+/** Business days (Mon–Fri) in a month, as YYYY-MM-DD. */
+function businessDays(month: string): string[] {
+  const [y, m] = month.split("-").map(Number);
+  const days: string[] = [];
+  for (let d = 1; d <= 31; d++) {
+    const dt = new Date(Date.UTC(y, m - 1, d));
+    if (dt.getUTCMonth() !== m - 1) break;
+    if (dt.getUTCDay() !== 0 && dt.getUTCDay() !== 6) days.push(dt.toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+describe("Bank Transaction Analyzer", () => {
+  it("Test 1: separates true deposits from transfers, loan proceeds and reversals", () => {
+    const a = analyzeBankTransactions([
+      tx("2025-03-03", -12000, "MOBILE DEPOSIT"),
+      tx("2025-03-05", -8000, "SQUARE INC SETTLEMENT"),
+      tx("2025-03-06", -5000, "ONLINE TRANSFER FROM SAVINGS"),
+      tx("2025-03-10", -40000, "KAPITUS FUNDING"),
+      tx("2025-03-12", -300, "VENDOR REFUND"),
+      tx("2025-03-15", 2500, "RENT PAYMENT"),
+    ]);
+
+    assert.equal(a.monthly.length, 1);
+    const m = a.monthly[0];
+    assert.equal(m.total_deposits, 65300);
+    assert.equal(m.true_deposits, 20000);
+    assert.equal(m.transfers_in, 5000);
+    assert.equal(m.loan_proceeds, 40000);
+    assert.equal(m.reversals, 300);
+    assert.equal(m.deposit_count, 2);
+    assert.equal(m.total_withdrawals, 2500);
+  });
+
+  it("Test 2: counts NSF and overdraft charges, trailing twelve months only", () => {
+    const a = analyzeBankTransactions([
+      tx("2024-01-10", 35, "NSF FEE"),
+      tx("2025-02-10", 35, "NSF RETURNED ITEM FEE"),
+      tx("2025-03-11", 36, "OVERDRAFT FEE"),
+      tx("2025-03-12", 36, "OD FEE"),
+      ...Array.from({ length: 12 }, (_, i) => tx(`2025-${String(i + 1).padStart(2, "0")}-01`, -1000, "DEPOSIT")),
+    ]);
+
+    assert.equal(a.totals.nsf_count, 2);
+    assert.equal(a.totals.overdraft_count, 2);
+    assert.equal(a.nsf_events_trailing_12m, 3);
+  });
+
+  it("Test 3: detects daily MCA remittances and monthly loan payments, marks disclosed creditors", () => {
+    const rows: BankTransactionInput[] = [];
+    for (const month of ["2025-04", "2025-05", "2025-06"]) {
+      for (const d of businessDays(month)) rows.push(tx(d, 450, `ACH DEBIT ${d.replace(/-/g, "")} BLUEVINE SETTLEMENT`));
+      rows.push(tx(`${month}-15`, 1850, "EQUIPMENT LOAN PMT 88213"));
+      rows.push(tx(`${month}-20`, 1200, "SBA LOAN PAYMENT"));
+      rows.push(tx(`${month}-28`, -30000, "DEPOSIT"));
+    }
+
+    const a = analyzeBankTransactions(rows, { disclosedCreditors: ["SBA Loan"] });
+    const byKind = Object.fromEntries(a.recurring_debits.map((d) => [d.kind, d]));
+
+    assert.equal(byKind.mca.cadence, "daily");
+    assert.equal(byKind.mca.basis, "cadence");
+    assert.equal(byKind.mca.monthly_payment, 450 * 21);
+    assert.equal(byKind.mca.disclosed, false);
+    assert.equal(byKind.mca.active, true);
+
+    assert.equal(byKind.loan.cadence, "monthly");
+    assert.equal(byKind.loan.monthly_payment, 1850);
+    assert.equal(byKind.loan.disclosed, false);
+
+    assert.equal(byKind.sba_loan.disclosed, true);
+  });
+
+  it("Test 4: undisclosed debits become monthly candidate rows for the debt schedule auto-builder", () => {
+    const rows: BankTransactionInput[] = [];
+    for (const month of ["2025-04", "2025-05", "2025-06"]) {
+      for (const d of businessDays(month)) rows.push(tx(d, 200, "ONDECK CAPITAL ACH"));
+    }
+
+    const a = analyzeBankTransactions(rows);
+    assert.equal(a.debt_candidates.length, 3);
+    assert.ok(a.debt_candidates.every((c) => c.derived_category === "mca"));
+
+    const schedule = buildDebtSchedule(a.debt_candidates);
+    assert.equal(schedule.length, 1);
+    assert.equal(schedule[0].account_type_inferred, "mca");
+    // Median of monthly totals, not of individual daily debits.
+    assert.equal(schedule[0].monthly_payment, 200 * businessDays("2025-05").length);
+  });
+
+  it("Test 5: verifies annualized deposits against reported gross receipts", () => {
+    const rows = ["2024-07", "2024-08", "2024-09", "2024-10", "2024-11", "2024-12"].map((m) =>
+      tx(`${m}-15`, -50000, "DEPOSIT"),
+    );
+    rows.push(tx("2023-12-15", -10000, "DEPOSIT"));
+
+    const a = analyzeBankTransactions(rows, { grossReceiptsByYear: { 2023: 900000, 2024: 800000 } });
+    const [y2023, y2024] = a.revenue_verification;
+
+    assert.equal(y2023.status, "insufficient_history");
+    assert.equal(y2023.variance_pct, null);
+    assert.equal(y2024.months_covered, 6);
+    assert.equal(y2024.annualized_deposits, 600000);
+    assert.equal(y2024.variance_pct, -0.25);
+    assert.equal(y2024.status, "deposits_below_receipts");
+  });
+
+  it("Test 6: Plaid wins over statement lines for months both cover; pending rows dropped", () => {
+    const a = analyzeBankTransactions([
+      tx("2025-03-05", -1000, "DEPOSIT"),
+      tx("2025-03-06", -999, "DEPOSIT", { pending: true }),
+      tx("2025-03-05", -1000, "DEPOSIT", { source: "statement" }),
+      tx("2025-02-05", -700, "DEPOSIT", { source: "statement" }),
+    ]);
+
+    assert.equal(a.transaction_count, 2);
+    assert.deepEqual(a.monthly.map((m) => [m.month, m.source, m.true_deposits]), [
+      ["2025-02", "statement", 700],
+      ["2025-03", "plaid", 1000],
+    ]);
+    assert.deepEqual(a.sources, ["plaid", "statement"]);
+  });
+
+  it("Test 7: counterparty key strips ACH boilerplate and reference numbers", () => {
+    assert.equal(counterpartyKey("ACH DEBIT 20250403 ONDECK CAPITAL ID:99812"), "ondeck capital");
+    assert.equal(counterpartyKey("OnDeck Capital"), "ondeck capital");
+  });
+});
+
+describe("Statement Transaction Parser", () => {
+  const statement = [
+    "First Community Bank — Business Checking",
+    "Statement Period 12/01/2024 through 01/31/2025",
+    "12/01 Beginning Balance 10,000.00",
+    "Deposits and Additions",
+    "12/03 Card Settlement 2,500.00 12,500.00",
+    "01/06 Mobile Deposit 1,000.00",
+    "Electronic Withdrawals",
+    "12/04 ACH Debit Kapitus 300.00 12,200.00",
+    "01/07 NSF Returned Item Fee 35.00",
+    "Checks Paid",
+    "01/08 Check 1045 (125.50)",
+    "01/09 Wire In 4,000.00 CR",
+    "Daily Ending Balance",
+    "01/31 9,999.00",
+  ].join("\n");
+
+  it("Test 8: reads direction from balance, sign and section, and infers the year", () => {
+    const r = parseStatementTransactions(statement, { documentId: "doc-1" });
+
+    assert.equal(r.period_start, "2024-12-01");
+    assert.equal(r.period_end, "2025-01-31");
+    assert.deepEqual(
+      r.transactions.map((t) => [t.date, t.description, t.amount]),
+      [
+        ["2024-12-03", "Card Settlement", -2500],
+        ["2025-01-06", "Mobile Deposit", -1000],
+        ["2024-12-04", "ACH Debit Kapitus", 300],
+        ["2025-01-07", "NSF Returned Item Fee", 35],
+        ["2025-01-08", "Check 1045", 125.5],
+        ["2025-01-09", "Wire In", -4000],
+      ],
+    );
+    assert.ok(r.transactions.every((t) => t.source === "statement" && t.ref?.startsWith("doc-1:")));
+  });
+
+  it("Test 9: skips lines without a year when no period is known", () => {
+    const r = parseStatementTransactions("Deposits\n03/04 Deposit 100.00", { documentId: "doc-2" });
+    assert.equal(r.transactions.length, 0);
+    assert.equal(r.skipped_lines, 1);
+
+    const withFacts = parseStatementTransactions("Deposits\n03/04 Deposit 100.00", {
+      documentId: "doc-2",
+      periodEnd: "2025-03-31",
+    });
+    assert.equal(withFacts.transactions[0].date, "2025-03-04");
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Bank transaction analyzer — rolls transaction-level bank data up into
+ * underwriting signals. Pure function — no DB.
+ *
+ * Works on Plaid transactions (borrower_bank_transactions) and on lines
+ * parsed from PDF bank statements (statementTransactionParser.ts) alike;
+ * both arrive in Plaid's sign convention. Produces:
+ *   - monthly true deposits vs. transfers, loan/MCA proceeds and reversals
+ *   - NSF and overdraft counts
+ *   - recurring debits that look like merchant cash advance remittances or
+ *     loan payments, and whether each is on the deal's debt schedule
+ *   - deposits vs. reported (tax-return) gross receipts by year
+ *   - candidate rows for financialFacts/debtScheduleAutoBuilder.ts
+ */
+
+import { classifyTransaction } from "@/lib/integrations/plaid/classifier";
+import type { BorrowerBankTransactionLike } from "@/lib/financialFacts/debtScheduleAutoBuilder";
+
+export type BankTransactionSource = "plaid" | "statement";
+
+export type BankTransactionInput = {
+  date: string; // YYYY-MM-DD
+  description: string;
+  /** Plaid sign convention: negative = money in, positive = money out */
+  amount: number;
+  source: BankTransactionSource;
+  pending?: boolean;
+  /** Classifier category when already known (Plaid sync stamps it). */
+  derived_category?: string | null;
+  /** plaid_transaction_id, or `<documentId>:<line>` for statement lines. */
+  ref?: string | null;
+};
+
+export type DepositClass = "true_deposit" | "transfer" | "loan_proceeds" | "reversal";
+
+export type BankMonthSummary = {
+  month: string; // YYYY-MM
+  source: BankTransactionSource;
+  total_deposits: number;
+  true_deposits: number;
+  transfers_in: number;
+  loan_proceeds: number;
+  reversals: number;
+  total_withdrawals: number;
+  deposit_count: number;
+  nsf_count: number;
+  overdraft_count: number;
+};
+
+export type RecurringDebitCadence = "daily" | "weekly" | "biweekly" | "monthly";
+export type RecurringDebitKind = "mca" | "loan" | "sba_loan";
+
+export type RecurringDebit = {
+  counterparty: string;
+  kind: RecurringDebitKind;
+  /** "pattern" = lender name matched; "cadence" = fixed daily/weekly debit with no lender name. */
+  basis: "pattern" | "cadence";
+  cadence: RecurringDebitCadence;
+  typical_amount: number;
+  monthly_payment: number;
+  occurrences: number;
+  first_date: string;
+  last_date: string;
+  /** Still debiting within RECURRING_ACTIVE_DAYS of the last transaction analyzed. */
+  active: boolean;
+  disclosed: boolean;
+  refs: string[];
+};
+
+export type RevenueVerificationStatus =
+  | "consistent"
+  | "deposits_below_receipts"
+  | "deposits_above_receipts"
+  | "insufficient_history";
+
+export type RevenueVerification = {
+  year: number;
+  reported_gross_receipts: number;
+  true_deposits: number;
+  months_covered: number;
+  /** True deposits scaled to twelve months when coverage is partial. */
+  annualized_deposits: number;
+  variance_pct: number | null;
+  status: RevenueVerificationStatus;
+};
+
+export type BankTransactionAnalysis = {
+  period_start: string | null;
+  period_end: string | null;
+  sources: BankTransactionSource[];
+  transaction_count: number;
+  monthly: BankMonthSummary[];
+  totals: {
+    true_deposits: number;
+    transfers_in: number;
+    loan_proceeds: number;
+    nsf_count: number;
+    overdraft_count: number;
+  };
+  /** NSF + overdraft events in the trailing twelve months of data. */
+  nsf_events_trailing_12m: number;
+  recurring_debits: RecurringDebit[];
+  revenue_verification: RevenueVerification[];
+  /** Undisclosed recurring debt payments, one row per creditor-month, for buildDebtSchedule(). */
+  debt_candidates: BorrowerBankTransactionLike[];
+};
+
+export type AnalyzeBankTransactionsOptions = {
+  /** Reported gross receipts by tax year (GROSS_RECEIPTS facts). */
+  grossReceiptsByYear?: Record<number, number>;
+  /** Lender names already on deal_existing_debt_schedule. */
+  disclosedCreditors?: string[];
+};
+
+/** Deposits within ±this share of reported receipts verify revenue (matches the book-to-tax bank row). */
+export const REVENUE_VARIANCE_TOLERANCE = 0.15;
+/** Fewer months than this can't support an annualized comparison. */
+export const MIN_MONTHS_FOR_REVENUE_CHECK = 3;
+/** Recurring debits need at least this many hits to count. */
+export const MIN_RECURRING_OCCURRENCES = 3;
+/** Largest coefficient of variation in payment amount for a "fixed" remittance. */
+export const FIXED_AMOUNT_MAX_CV = 0.15;
+export const RECURRING_ACTIVE_DAYS = 45;
+
+/** Payments per month by cadence — daily remittances debit on business days. */
+const PAYMENTS_PER_MONTH: Record<RecurringDebitCadence, number> = {
+  daily: 21,
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  monthly: 1,
+};
+
+const NSF_PATTERN = /\bnsf\b|non[-\s]?sufficient|insufficient\s+funds|returned\s+(item|check|ach)|return\s+item/i;
+const OVERDRAFT_PATTERN = /overdraft|\bod\s+(fee|charge|item)\b|\bodp\b/i;
+const MCA_PATTERN = /\bmca\b|merchant\s*cash|cleartocash|kapitus|forwardline|ondeck|libertas|rapid\s*finance|credibly|fundbox|yellowstone|pearl\s*capital|everest\s*business/i;
+const LOAN_PATTERN = /\bloan\b|lending|\bfinanc|\bcapital\b|funding|\badvance\b|\bpmt\s+to\b/i;
+const SBA_LOAN_PATTERN = /sba.*loan|sba-7a|small business administration/i;
+const TRANSFER_PATTERN = /transfer|\bxfer\b|zelle|venmo|cash\s*app|from\s+(checking|savings|acct)/i;
+const PROCEEDS_PATTERN = /loan\s*(proceeds|disbursement|deposit|advance)|\bfunding\b|\bfunded\b|capital\s+advance/i;
+const REVERSAL_PATTERN = /reversal|refund|chargeback|returned\s+deposit|deposit\s+return|\bcredit\s+adj/i;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function isNsf(tx: BankTransactionInput): boolean {
+  return NSF_PATTERN.test(tx.description);
+}
+
+function isOverdraft(tx: BankTransactionInput): boolean {
+  return !isNsf(tx) && OVERDRAFT_PATTERN.test(tx.description);
+}
+
+function isTransfer(tx: BankTransactionInput): boolean {
+  return tx.derived_category === "transfer" || TRANSFER_PATTERN.test(tx.description);
+}
+
+export function classifyDeposit(tx: BankTransactionInput): DepositClass {
+  if (isTransfer(tx)) return "transfer";
+  if (tx.derived_category === "mca" || MCA_PATTERN.test(tx.description) || PROCEEDS_PATTERN.test(tx.description)) {
+    return "loan_proceeds";
+  }
+  if (REVERSAL_PATTERN.test(tx.description)) return "reversal";
+  return "true_deposit";
+}
+
+/** Counterparty key: lowercased, reference numbers and ACH boilerplate stripped. */
+export function counterpartyKey(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\b(ach|ppd|ccd|web|debit|pmt|payment|id|ref|trace|orig|co|entry|descr|des|indn)\b[:#]?/g, " ")
+    .replace(/[#:*]?\b\w*\d\w*\b/g, " ")
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+}
+
+/**
+ * Plaid rows win over statement lines for any month the live feed covers,
+ * so the same account uploaded as a PDF and connected via Plaid isn't
+ * counted twice. Pending rows are dropped — they may still change.
+ */
+export function mergeTransactionSources(transactions: BankTransactionInput[]): BankTransactionInput[] {
+  const plaidMonths = new Set(transactions.filter((t) => t.source === "plaid").map((t) => t.date.slice(0, 7)));
+  return transactions
+    .filter((t) => !t.pending && Number.isFinite(t.amount) && t.amount !== 0)
+    .filter((t) => t.source === "plaid" || !plaidMonths.has(t.date.slice(0, 7)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function daysBetween(a: string, b: string): number {
+  return (Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86_400_000;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function cadenceOf(dates: string[]): RecurringDebitCadence | null {
+  const unique = [...new Set(dates)].sort();
+  if (unique.length < MIN_RECURRING_OCCURRENCES) return null;
+  const intervals: number[] = [];
+  for (let i = 1; i < unique.length; i++) intervals.push(daysBetween(unique[i - 1], unique[i]));
+  const step = median(intervals);
+  if (step <= 3) return "daily";
+  if (step >= 6 && step <= 8) return "weekly";
+  if (step >= 13 && step <= 16) return "biweekly";
+  if (step >= 27 && step <= 33) return "monthly";
+  return null;
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  if (mean === 0) return Infinity;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+function isDisclosed(key: string, disclosed: string[]): boolean {
+  return disclosed.some((d) => d.length > 0 && (key.includes(d) || d.includes(key)));
+}
+
+function detectRecurringDebits(
+  transactions: BankTransactionInput[],
+  disclosedCreditors: string[],
+  lastDate: string,
+): RecurringDebit[] {
+  const groups = new Map<string, BankTransactionInput[]>();
+  for (const tx of transactions) {
+    if (tx.amount <= 0 || isTransfer(tx) || isNsf(tx) || isOverdraft(tx)) continue;
+    const category = tx.derived_category ?? classifyTransaction({ transaction_id: tx.ref ?? "", name: tx.description, amount: tx.amount, date: tx.date }).derived_category;
+    if (category === "payroll" || category === "rent") continue;
+    const key = counterpartyKey(tx.description);
+    if (!key) continue;
+    const group = groups.get(key) ?? [];
+    group.push(tx);
+    groups.set(key, group);
+  }
+
+  const disclosed = disclosedCreditors.map(counterpartyKey).filter(Boolean);
+  const debits: RecurringDebit[] = [];
+  for (const [key, group] of groups) {
+    const cadence = cadenceOf(group.map((t) => t.date));
+    if (!cadence) continue;
+
+    const text = group[0].description;
+    const amounts = group.map((t) => t.amount);
+    const fixed = coefficientOfVariation(amounts) <= FIXED_AMOUNT_MAX_CV;
+
+    let kind: RecurringDebitKind | null = null;
+    let basis: RecurringDebit["basis"] = "pattern";
+    if (group.some((t) => t.derived_category === "mca") || MCA_PATTERN.test(text)) kind = "mca";
+    else if (group.some((t) => t.derived_category === "sba_loan_payment") || SBA_LOAN_PATTERN.test(text)) kind = "sba_loan";
+    else if (LOAN_PATTERN.test(text)) kind = cadence === "daily" || cadence === "weekly" ? "mca" : "loan";
+    else if (fixed && (cadence === "daily" || cadence === "weekly")) {
+      // Fixed daily/weekly ACH debits with no lender name are the MCA remittance shape.
+      kind = "mca";
+      basis = "cadence";
+    }
+    if (!kind) continue;
+
+    const typical = median(amounts);
+    const dates = group.map((t) => t.date).sort();
+    debits.push({
+      counterparty: text.trim(),
+      kind,
+      basis,
+      cadence,
+      typical_amount: round2(typical),
+      monthly_payment: round2(typical * PAYMENTS_PER_MONTH[cadence]),
+      occurrences: group.length,
+      first_date: dates[0],
+      last_date: dates[dates.length - 1],
+      active: daysBetween(dates[dates.length - 1], lastDate) <= RECURRING_ACTIVE_DAYS,
+      disclosed: isDisclosed(key, disclosed),
+      refs: group.map((t) => t.ref).filter((r): r is string => !!r),
+    });
+  }
+
+  return debits.sort((a, b) => b.monthly_payment - a.monthly_payment || a.counterparty.localeCompare(b.counterparty));
+}
+
+function debtCandidates(debits: RecurringDebit[], transactions: BankTransactionInput[]): BorrowerBankTransactionLike[] {
+  const rows: BorrowerBankTransactionLike[] = [];
+  for (const d of debits) {
+    if (d.disclosed) continue;
+    const key = counterpartyKey(d.counterparty);
+    const byMonth = new Map<string, { amount: number; last: string }>();
+    for (const tx of transactions) {
+      if (tx.amount <= 0 || counterpartyKey(tx.description) !== key) continue;
+      const m = byMonth.get(tx.date.slice(0, 7)) ?? { amount: 0, last: tx.date };
+      m.amount += tx.amount;
+      if (tx.date > m.last) m.last = tx.date;
+      byMonth.set(tx.date.slice(0, 7), m);
+    }
+    for (const m of byMonth.values()) {
+      rows.push({
+        posted_date: m.last,
+        amount: round2(m.amount),
+        merchant_name: d.counterparty,
+        description: `${d.cadence} ${d.kind} debit`,
+        derived_category: d.kind === "mca" ? "mca" : d.kind === "sba_loan" ? "sba_loan_payment" : "recurring_payment",
+      });
+    }
+  }
+  return rows;
+}
+
+function verifyRevenue(monthly: BankMonthSummary[], grossReceiptsByYear: Record<number, number>): RevenueVerification[] {
+  const out: RevenueVerification[] = [];
+  for (const [yearKey, receipts] of Object.entries(grossReceiptsByYear)) {
+    const year = Number(yearKey);
+    if (!Number.isFinite(receipts) || receipts <= 0) continue;
+    const months = monthly.filter((m) => m.month.startsWith(`${year}-`));
+    if (months.length === 0) continue;
+
+    const deposits = months.reduce((s, m) => s + m.true_deposits, 0);
+    const annualized = (deposits / months.length) * 12;
+    const enough = months.length >= MIN_MONTHS_FOR_REVENUE_CHECK;
+    const variance = enough ? (annualized - receipts) / receipts : null;
+    const status: RevenueVerificationStatus =
+      variance === null
+        ? "insufficient_history"
+        : variance < -REVENUE_VARIANCE_TOLERANCE
+          ? "deposits_below_receipts"
+          : variance > REVENUE_VARIANCE_TOLERANCE
+            ? "deposits_above_receipts"
+            : "consistent";
+
+    out.push({
+      year,
+      reported_gross_receipts: receipts,
+      true_deposits: round2(deposits),
+      months_covered: months.length,
+      annualized_deposits: round2(annualized),
+      variance_pct: variance === null ? null : Math.round(variance * 1000) / 1000,
+      status,
+    });
+  }
+  return out.sort((a, b) => a.year - b.year);
+}
+
+export function analyzeBankTransactions(
+  input: BankTransactionInput[],
+  opts: AnalyzeBankTransactionsOptions = {},
+): BankTransactionAnalysis {
+  const transactions = mergeTransactionSources(input);
+  const byMonth = new Map<string, BankMonthSummary>();
+
+  for (const tx of transactions) {
+    const month = tx.date.slice(0, 7);
+    let m = byMonth.get(month);
+    if (!m) {
+      m = {
+        month,
+        source: tx.source,
+        total_deposits: 0,
+        true_deposits: 0,
+        transfers_in: 0,
+        loan_proceeds: 0,
+        reversals: 0,
+        total_withdrawals: 0,
+        deposit_count: 0,
+        nsf_count: 0,
+        overdraft_count: 0,
+      };
+      byMonth.set(month, m);
+    }
+
+    if (tx.amount < 0) {
+      const value = Math.abs(tx.amount);
+      m.total_deposits += value;
+      const cls = classifyDeposit(tx);
+      if (cls === "true_deposit") {
+        m.true_deposits += value;
+        m.deposit_count++;
+      } else if (cls === "transfer") m.transfers_in += value;
+      else if (cls === "loan_proceeds") m.loan_proceeds += value;
+      else m.reversals += value;
+    } else {
+      m.total_withdrawals += tx.amount;
+      if (isNsf(tx)) m.nsf_count++;
+      else if (isOverdraft(tx)) m.overdraft_count++;
+    }
+  }
+
+  const monthly = [...byMonth.values()]
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map((m) => ({
+      ...m,
+      total_deposits: round2(m.total_deposits),
+      true_deposits: round2(m.true_deposits),
+      transfers_in: round2(m.transfers_in),
+      loan_proceeds: round2(m.loan_proceeds),
+      reversals: round2(m.reversals),
+      total_withdrawals: round2(m.total_withdrawals),
+    }));
+
+  const periodStart = transactions[0]?.date ?? null;
+  const periodEnd = transactions[transactions.length - 1]?.date ?? null;
+  const trailing = monthly.slice(-12);
+  const recurring = periodEnd ? detectRecurringDebits(transactions, opts.disclosedCreditors ?? [], periodEnd) : [];
+
+  return {
+    period_start: periodStart,
+    period_end: periodEnd,
+    sources: [...new Set(transactions.map((t) => t.source))].sort(),
+    transaction_count: transactions.length,
+    monthly,
+    totals: {
+      true_deposits: round2(monthly.reduce((s, m) => s + m.true_deposits, 0)),
+      transfers_in: round2(monthly.reduce((s, m) => s + m.transfers_in, 0)),
+      loan_proceeds: round2(monthly.reduce((s, m) => s + m.loan_proceeds, 0)),
+      nsf_count: monthly.reduce((s, m) => s + m.nsf_count, 0),
+      overdraft_count: monthly.reduce((s, m) => s + m.overdraft_count, 0),
+    },
+    nsf_events_trailing_12m: trailing.reduce((s, m) => s + m.nsf_count + m.overdraft_count, 0),
+    recurring_debits: recurring,
+    revenue_verification: verifyRevenue(monthly, opts.grossReceiptsByYear ?? {}),
+    debt_candidates: debtCandidates(recurring, transactions),
+  };
+}
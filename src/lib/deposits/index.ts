@@ -1,2 +1,11 @@
 export { buildDepositProfile } from "./depositProfileBuilder";
 export type { DepositProfile } from "./depositProfileBuilder";
+export { analyzeBankTransactions, classifyDeposit, mergeTransactionSources } from "./bankTransactionAnalyzer";
+export type {
+  BankTransactionAnalysis,
+  BankTransactionInput,
+  BankMonthSummary,
+  RecurringDebit,
+  RevenueVerification,
+} from "./bankTransactionAnalyzer";
+export { parseStatementTransactions } from "./statementTransactionParser";
@@ -0,0 +1,114 @@
+import "server-only";
+
+/**
+ * Loads a deal's bank activity — synced Plaid transactions plus transaction
+ * lines parsed from uploaded bank statement OCR — and runs the transaction
+ * analyzer over it. Disclosed creditors come from deal_existing_debt_schedule
+ * so recurring lender debits can be matched against what the borrower
+ * already reported.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  analyzeBankTransactions,
+  type BankTransactionAnalysis,
+  type BankTransactionInput,
+} from "./bankTransactionAnalyzer";
+import { parseStatementTransactions } from "./statementTransactionParser";
+
+const PAGE = 1000;
+
+async function loadPlaidTransactions(sb: SupabaseClient, dealId: string): Promise<BankTransactionInput[]> {
+  const out: BankTransactionInput[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await sb
+      .from("borrower_bank_transactions")
+      .select("plaid_transaction_id, posted_date, amount, merchant_name, description, is_pending, derived_category")
+      .eq("deal_id", dealId)
+      .order("posted_date", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`borrower_bank_transactions_select_failed:${error.message}`);
+    const rows = (data ?? []) as Array<{
+      plaid_transaction_id: string;
+      posted_date: string;
+      amount: number;
+      merchant_name: string | null;
+      description: string | null;
+      is_pending: boolean | null;
+      derived_category: string | null;
+    }>;
+    for (const r of rows) {
+      out.push({
+        date: r.posted_date,
+        description: r.description ?? r.merchant_name ?? "",
+        amount: Number(r.amount),
+        source: "plaid",
+        pending: r.is_pending ?? false,
+        derived_category: r.derived_category,
+        ref: r.plaid_transaction_id,
+      });
+    }
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+async function loadStatementTransactions(sb: SupabaseClient, dealId: string): Promise<BankTransactionInput[]> {
+  const { data: docs, error } = await sb
+    .from("deal_documents")
+    .select("id")
+    .eq("deal_id", dealId)
+    .eq("canonical_type", "BANK_STATEMENT");
+  if (error) throw new Error(`deal_documents_select_failed:${error.message}`);
+  const docIds = (docs ?? []).map((d: any) => String(d.id));
+  if (docIds.length === 0) return [];
+
+  const [ocrRes, periodRes] = await Promise.all([
+    sb.from("document_ocr_results").select("attachment_id, extracted_text").in("attachment_id", docIds),
+    // Statement period from the Gemini extraction, for statements whose text doesn't print one.
+    sb
+      .from("deal_financial_facts")
+      .select("source_document_id, fact_period_start, fact_period_end")
+      .eq("deal_id", dealId)
+      .eq("fact_key", "BS_ENDING_BALANCE")
+      .in("source_document_id", docIds),
+  ]);
+  if (ocrRes.error) throw new Error(`document_ocr_results_select_failed:${ocrRes.error.message}`);
+
+  const periods = new Map<string, { start: string | null; end: string | null }>();
+  for (const f of (periodRes.data ?? []) as any[]) {
+    periods.set(String(f.source_document_id), { start: f.fact_period_start ?? null, end: f.fact_period_end ?? null });
+  }
+
+  const out: BankTransactionInput[] = [];
+  for (const row of (ocrRes.data ?? []) as Array<{ attachment_id: string; extracted_text: string | null }>) {
+    if (!row.extracted_text) continue;
+    const period = periods.get(String(row.attachment_id));
+    const parsed = parseStatementTransactions(row.extracted_text, {
+      documentId: String(row.attachment_id),
+      periodStart: period?.start,
+      periodEnd: period?.end,
+    });
+    out.push(...parsed.transactions);
+  }
+  return out;
+}
+
+export async function loadBankTransactionAnalysis(
+  sb: SupabaseClient,
+  args: { dealId: string; grossReceiptsByYear?: Record<number, number> },
+): Promise<BankTransactionAnalysis> {
+  const [plaid, statements, debt] = await Promise.all([
+    loadPlaidTransactions(sb, args.dealId),
+    loadStatementTransactions(sb, args.dealId),
+    sb.from("deal_existing_debt_schedule").select("lender_name").eq("deal_id", args.dealId),
+  ]);
+  if (debt.error) throw new Error(`deal_existing_debt_schedule_select_failed:${debt.error.message}`);
+
+  return analyzeBankTransactions([...plaid, ...statements], {
+    grossReceiptsByYear: args.grossReceiptsByYear,
+    disclosedCreditors: ((debt.data ?? []) as Array<{ lender_name: string | null }>)
+      .map((d) => d.lender_name ?? "")
+      .filter(Boolean),
+  });
+}
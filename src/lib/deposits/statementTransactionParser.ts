@@ -0,0 +1,128 @@
+/**
+ * Statement transaction parser — pulls transaction lines out of the OCR
+ * text of a PDF bank statement. Pure function — no DB.
+ *
+ * The Gemini bank-statement prompt only extracts period totals (BS_* facts),
+ * so transaction-level analysis re-reads the statement text. Direction comes
+ * from, in order: an explicit sign on the amount (parentheses, trailing or
+ * leading minus, CR/DR), the movement of the running balance column, then
+ * the section the line sits under ("Deposits and Additions", "Checks Paid",
+ * ...). Lines whose direction or year can't be established are skipped
+ * rather than guessed.
+ */
+
+import type { BankTransactionInput } from "./bankTransactionAnalyzer";
+
+export type StatementParseOptions = {
+  documentId: string;
+  /** Statement period from extracted facts, used when the text doesn't state one. */
+  periodStart?: string | null;
+  periodEnd?: string | null;
+};
+
+export type StatementParseResult = {
+  period_start: string | null;
+  period_end: string | null;
+  transactions: BankTransactionInput[];
+  skipped_lines: number;
+};
+
+const CREDIT_SECTION = /^(deposits?|credits?|additions|other credits|electronic (deposits|credits)|deposits (and|&) (other )?(credits|additions))\b/i;
+const DEBIT_SECTION =
+  /^(withdrawals?|debits?|checks( paid)?|electronic (withdrawals|payments|debits)|other (debits|withdrawals)|fees|service (charges|fees)|atm( and debit card)?|card (purchases|transactions)|payments)\b/i;
+const NEUTRAL_SECTION = /^(daily (ending )?balances?|balance summary|account summary|summary of accounts)\b/i;
+const BALANCE_LINE = /beginning balance|ending balance|balance forward|previous balance/i;
+
+const AMOUNT = String.raw`\(?-?\$?[\d,]+\.\d{2}\)?-?`;
+const TX_LINE = new RegExp(
+  String.raw`^(\d{1,2})[\/-](\d{1,2})(?:[\/-](\d{2,4}))?\s+(.+?)\s+(${AMOUNT})(?:\s+(CR|DR))?(?:\s+(${AMOUNT}))?\s*$`,
+  "i",
+);
+const PERIOD_LINE = /(\d{1,2}\/\d{1,2}\/\d{2,4})\s*(?:-|–|to|through|thru)\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i;
+
+function parseAmount(raw: string): { value: number; negative: boolean } {
+  const negative = raw.startsWith("(") || raw.includes("-");
+  return { value: Number(raw.replace(/[^\d.]/g, "")), negative };
+}
+
+function fullYear(y: string): number {
+  const n = Number(y);
+  return y.length === 2 ? 2000 + n : n;
+}
+
+function toIsoDate(month: number, day: number, year: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseSlashDate(raw: string): string | null {
+  const [m, d, y] = raw.split("/");
+  return toIsoDate(Number(m), Number(d), fullYear(y));
+}
+
+export function parseStatementTransactions(text: string, opts: StatementParseOptions): StatementParseResult {
+  const periodMatch = text.match(PERIOD_LINE);
+  const periodStart = (periodMatch && parseSlashDate(periodMatch[1])) || opts.periodStart || null;
+  const periodEnd = (periodMatch && parseSlashDate(periodMatch[2])) || opts.periodEnd || null;
+  const endYear = periodEnd ? Number(periodEnd.slice(0, 4)) : null;
+  const endMonth = periodEnd ? Number(periodEnd.slice(5, 7)) : null;
+
+  const transactions: BankTransactionInput[] = [];
+  let section: "credit" | "debit" | null = null;
+  let prevBalance: number | null = null;
+  let skipped = 0;
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((rawLine, lineNo) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const m = line.match(TX_LINE);
+    if (!m) {
+      if (NEUTRAL_SECTION.test(line)) section = null;
+      else if (CREDIT_SECTION.test(line)) section = "credit";
+      else if (DEBIT_SECTION.test(line)) section = "debit";
+      return;
+    }
+
+    const [, mm, dd, yy, description, amountRaw, crdr, balanceRaw] = m;
+    const amount = parseAmount(amountRaw);
+    const balance = balanceRaw ? parseAmount(balanceRaw) : null;
+    const signedBalance = balance ? (balance.negative ? 0 - balance.value : balance.value) : null;
+
+    if (BALANCE_LINE.test(description)) {
+      prevBalance = signedBalance ?? (amount.negative ? 0 - amount.value : amount.value);
+      return;
+    }
+
+    let direction: "credit" | "debit" | null = null;
+    if (crdr) direction = crdr.toUpperCase() === "CR" ? "credit" : "debit";
+    else if (amount.negative) direction = "debit";
+    else if (signedBalance !== null && prevBalance !== null) {
+      const delta = signedBalance - prevBalance;
+      if (Math.abs(Math.abs(delta) - amount.value) < 0.01) direction = delta >= 0 ? "credit" : "debit";
+    }
+    direction ??= section;
+    if (signedBalance !== null) prevBalance = signedBalance;
+
+    let year = yy ? fullYear(yy) : endYear;
+    if (!yy && year !== null && endMonth !== null && Number(mm) > endMonth) year -= 1;
+    const date = year !== null ? toIsoDate(Number(mm), Number(dd), year) : null;
+
+    if (!direction || !date || amount.value === 0) {
+      skipped++;
+      return;
+    }
+
+    transactions.push({
+      date,
+      description: description.trim(),
+      // Plaid sign convention, so both sources share one analyzer.
+      amount: direction === "credit" ? 0 - amount.value : amount.value,
+      source: "statement",
+      ref: `${opts.documentId}:${lineNo + 1}`,
+    });
+  });
+
+  return { period_start: periodStart, period_end: periodEnd, transactions, skipped_lines: skipped };
+}
@@ -1,4 +1,5 @@
 import "server-only";
+import http from "node:http";
 import https from "node:https";
 
 /**
@@ -10,6 +11,10 @@ import https from "node:https";
  * Cert PEM strings live in memory only for the duration of this call.
  * Never logged, never included in any error message beyond the standard
  * Node `https` error (which doesn't echo request options).
+ *
+ * Plain http: endpoints are only for the local fake SBA server
+ * (scripts/fake-sba-etran.ts behind SBA_ETRAN_MOCK_ENDPOINT); client certs
+ * are not sent over them.
  */
 export function postToSbaEtran(args: {
   endpoint: string;
@@ -19,14 +24,10 @@ export function postToSbaEtran(args: {
 }): Promise<{ accepted: boolean; body: string; rejectionReason?: string }> {
   return new Promise((resolve, reject) => {
     const url = new URL(args.endpoint);
-    const req = https.request(
+    const req = requestFor(url)(
       {
         method: "POST",
-        hostname: url.hostname,
-        path: url.pathname,
-        port: 443,
-        cert: args.clientCertPem,
-        key: args.clientKeyPem,
+        ...targetOf(url, args),
         headers: {
           "Content-Type": "application/xml",
           "Content-Length": Buffer.byteLength(args.xml),
@@ -48,6 +49,59 @@ export function postToSbaEtran(args: {
   });
 }
 
+/**
+ * Fetch the SBA decision status for a received application (GET
+ * {statusEndpoint}/{applicationNumber}). Parsing and reconciliation live in
+ * statusTracker.ts, which takes this as its injected `fetchStatus`.
+ */
+export function fetchSbaEtranStatus(args: {
+  endpoint: string;
+  applicationNumber: string;
+  clientCertPem: string;
+  clientKeyPem: string;
+}): Promise<{ body: string }> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(`${args.endpoint.replace(/\/$/, "")}/${encodeURIComponent(args.applicationNumber)}`);
+    const req = requestFor(url)(
+      { method: "GET", ...targetOf(url, args), headers: { Accept: "application/xml" } },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (c) => chunks.push(c));
+        res.on("end", () => {
+          const body = Buffer.concat(chunks).toString("utf8");
+          if (res.statusCode !== 200) reject(new Error(`SBA status request failed (${res.statusCode})`));
+          else resolve({ body });
+        });
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/** Status endpoints; the mock endpoint serves status under {mock}/status. */
+export function resolveEtranStatusEndpoints(): { sandbox: string; production: string } {
+  const mock = process.env.SBA_ETRAN_MOCK_ENDPOINT;
+  return {
+    sandbox: process.env.SBA_ETRAN_SANDBOX_STATUS_ENDPOINT ?? (mock ? `${mock.replace(/\/$/, "")}/status` : ""),
+    production: process.env.SBA_ETRAN_PROD_STATUS_ENDPOINT ?? "",
+  };
+}
+
+function requestFor(url: URL): typeof https.request {
+  return (url.protocol === "http:" ? http.request : https.request) as typeof https.request;
+}
+
+function targetOf(url: URL, creds: { clientCertPem: string; clientKeyPem: string }) {
+  const tls = url.protocol !== "http:";
+  return {
+    hostname: url.hostname,
+    path: `${url.pathname}${url.search}`,
+    port: url.port ? Number(url.port) : tls ? 443 : 80,
+    ...(tls ? { cert: creds.clientCertPem, key: creds.clientKeyPem } : {}),
+  };
+}
+
 function extractRejectionReason(xml: string): string {
   const match = xml.match(/<RejectionReason>([^<]+)<\/RejectionReason>/);
   return match ? match[1] : "Unknown rejection reason";
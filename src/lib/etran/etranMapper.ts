@@ -3,8 +3,45 @@ export function mapFactsToEtran(facts: any) {
     borrower_name: facts.business_name,
     ein: facts.ein,
     naics: facts.naics,
+    business_address: facts.business_address,
     loan_amount: facts.requested_amount,
     term_months: 120,
-    use_of_proceeds: facts.use_of_proceeds
+    interest_rate: facts.interest_rate,
+    use_of_proceeds: facts.use_of_proceeds,
+    owners: facts.owners,
   };
 }
+
+export type EtranPayload = ReturnType<typeof mapFactsToEtran>;
+export type EtranMappedField = keyof EtranPayload;
+
+/**
+ * Where each mapped field lands in the generated E-Tran XML (generator.ts),
+ * so SBA errors that name an XML element can be traced back to the field the
+ * banker has to correct.
+ */
+export const ETRAN_FIELD_SOURCES: Record<EtranMappedField, { label: string; xmlPaths: string[] }> = {
+  borrower_name: { label: "Borrower legal name", xmlPaths: ["Borrower/LegalName", "Borrower/DBA"] },
+  ein: { label: "Borrower EIN", xmlPaths: ["Borrower/EIN"] },
+  naics: { label: "NAICS code", xmlPaths: ["Borrower/NAICSCode"] },
+  business_address: { label: "Business address", xmlPaths: ["Borrower/Address"] },
+  loan_amount: { label: "Loan amount", xmlPaths: ["Loan/Amount", "Loan/SBAGuaranteePercentage"] },
+  term_months: { label: "Loan term", xmlPaths: ["Loan/TermMonths"] },
+  interest_rate: { label: "Interest rate", xmlPaths: ["Loan/InterestRate"] },
+  use_of_proceeds: { label: "Use of proceeds", xmlPaths: ["Loan/UseOfProceeds"] },
+  owners: { label: "Owners (20%+)", xmlPaths: ["Owners/Owner"] },
+};
+
+/** Resolve an XML element path (e.g. "Owners/Owner[2]/SSN") to its mapped field. */
+export function fieldForXmlPath(path: string): EtranMappedField | null {
+  const normalized = path.replace(/\[\d+\]/g, "").replace(/^\/?ETran\//, "").replace(/^\//, "");
+  let best: { field: EtranMappedField; len: number } | null = null;
+  for (const [field, source] of Object.entries(ETRAN_FIELD_SOURCES) as Array<[EtranMappedField, { xmlPaths: string[] }]>) {
+    for (const xmlPath of source.xmlPaths) {
+      if ((normalized === xmlPath || normalized.startsWith(`${xmlPath}/`)) && (!best || xmlPath.length > best.len)) {
+        best = { field, len: xmlPath.length };
+      }
+    }
+  }
+  return best?.field ?? null;
+}
@@ -0,0 +1,132 @@
+import type { PostToSbaFn } from "./submitter";
+import type { FetchSbaStatusFn, SbaApplicationStatus } from "./statusTracker";
+import type { SbaResponseError } from "./sbaErrorCodes";
+
+/**
+ * In-memory stand-in for SBA E-Tran, for dev and tests until sandbox
+ * credentials exist. Provides the same injected functions submitter.ts and
+ * statusTracker.ts take from etranHttpClient.ts, plus a tiny request handler
+ * that scripts/fake-sba-etran.ts serves at SBA_ETRAN_MOCK_ENDPOINT.
+ *
+ * Submissions are always received. The decision is either scripted
+ * (decideNext / decide) or derived from a handful of checks on the XML, and
+ * is reported after `pendingPolls` status checks so the poll cadence gets
+ * exercised. Error codes come from sbaErrorCodes.ts.
+ */
+
+export type FakeSbaDecision =
+  | { status: "approved"; loanNumber?: string }
+  | { status: "screenout" | "returned"; errors: SbaResponseError[] };
+
+type FakeApplication = {
+  applicationNumber: string;
+  xml: string;
+  decision: FakeSbaDecision;
+  statusChecks: number;
+};
+
+export type FakeSbaEtran = {
+  postToSba: PostToSbaFn;
+  fetchStatus: FetchSbaStatusFn;
+  /** Decision for the next submission received (overrides the XML checks). */
+  decideNext: (decision: FakeSbaDecision) => void;
+  /** Replace the decision for an application already received. */
+  decide: (applicationNumber: string, decision: FakeSbaDecision) => boolean;
+  applications: Map<string, FakeApplication>;
+  /** HTTP-shaped entry point: POST {base} submits, GET {base}/status/{appNo} checks status. */
+  handle: (req: { method: string; path: string; body: string }) => { status: number; body: string };
+};
+
+function tag(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return match ? match[1].trim() : null;
+}
+
+/** The subset of SBA's front-end edits the fake enforces. */
+export function checkEtranXml(xml: string): SbaResponseError[] {
+  const errors: SbaResponseError[] = [];
+  const ein = (tag(xml, "EIN") ?? "").replace(/\D/g, "");
+  if (ein.length !== 9) {
+    errors.push({ code: "E-1002", message: "EIN must be 9 digits", xml_path: "Borrower/EIN" });
+  }
+  if (!/^\d{6}$/.test(tag(xml, "NAICSCode") ?? "")) {
+    errors.push({ code: "E-2001", message: "NAICS code must be a valid 6-digit code", xml_path: "Borrower/NAICSCode" });
+  }
+  if (!/<Owner>/.test(xml)) {
+    errors.push({ code: "E-2010", message: "At least one owner of 20% or more is required", xml_path: "Owners/Owner" });
+  }
+  const amount = Number(tag(xml, "Amount"));
+  if (Number.isFinite(amount) && amount > 5_000_000) {
+    errors.push({ code: "E-3001", message: "Loan amount exceeds the 7(a) maximum of $5,000,000", xml_path: "Loan/Amount" });
+  }
+  return errors;
+}
+
+function statusXml(app: FakeApplication, status: SbaApplicationStatus): string {
+  const decision = app.decision;
+  const loanNumber = status === "approved" && decision.status === "approved" ? `<LoanNumber>${decision.loanNumber ?? `FAKE-${app.applicationNumber.slice(-6)}`}</LoanNumber>` : "";
+  const errors =
+    status !== "pending" && decision.status !== "approved" && decision.errors.length > 0
+      ? `<Errors>${decision.errors
+          .map((e) => `<Error><Code>${e.code}</Code>${e.xml_path ? `<Field>${e.xml_path}</Field>` : ""}<Message>${e.message}</Message></Error>`)
+          .join("")}</Errors>`
+      : "";
+  const label = { pending: "Pending", approved: "Approved", screenout: "Screenout", returned: "Returned" }[status];
+  return `<StatusResponse><ApplicationNumber>${app.applicationNumber}</ApplicationNumber><Status>${label}</Status>${loanNumber}${errors}</StatusResponse>`;
+}
+
+export function createFakeSbaEtran(opts: { pendingPolls?: number } = {}): FakeSbaEtran {
+  const pendingPolls = opts.pendingPolls ?? 1;
+  const applications = new Map<string, FakeApplication>();
+  let nextDecision: FakeSbaDecision | null = null;
+  let seq = 0;
+
+  function receive(xml: string): { status: number; body: string } {
+    if (!/<ETran[\s>]/.test(xml)) {
+      return { status: 400, body: "<Response><Status>Rejected</Status><RejectionReason>Malformed E-Tran XML</RejectionReason></Response>" };
+    }
+    seq += 1;
+    const applicationNumber = `SBA-FAKE-${String(seq).padStart(6, "0")}`;
+    const errors = checkEtranXml(xml);
+    const decision: FakeSbaDecision = nextDecision ?? (errors.length > 0 ? { status: "returned", errors } : { status: "approved" });
+    nextDecision = null;
+    applications.set(applicationNumber, { applicationNumber, xml, decision, statusChecks: 0 });
+    return { status: 200, body: `<Response><Status>Accepted</Status><ApplicationNumber>${applicationNumber}</ApplicationNumber></Response>` };
+  }
+
+  function status(applicationNumber: string): { status: number; body: string } {
+    const app = applications.get(applicationNumber);
+    if (!app) return { status: 404, body: "<Error><Message>Unknown application</Message></Error>" };
+    app.statusChecks += 1;
+    return { status: 200, body: statusXml(app, app.statusChecks > pendingPolls ? app.decision.status : "pending") };
+  }
+
+  return {
+    applications,
+    decideNext(decision) {
+      nextDecision = decision;
+    },
+    decide(applicationNumber, decision) {
+      const app = applications.get(applicationNumber);
+      if (!app) return false;
+      app.decision = decision;
+      return true;
+    },
+    async postToSba({ xml }) {
+      const res = receive(xml);
+      const accepted = res.status === 200;
+      return { accepted, body: res.body, rejectionReason: accepted ? undefined : tag(res.body, "RejectionReason") ?? undefined };
+    },
+    async fetchStatus({ applicationNumber }) {
+      const res = status(applicationNumber);
+      if (res.status !== 200) throw new Error(`SBA status request failed (${res.status})`);
+      return { body: res.body };
+    },
+    handle(req) {
+      const statusMatch = req.path.match(/\/status\/([^/?]+)$/);
+      if (req.method === "GET" && statusMatch) return status(decodeURIComponent(statusMatch[1]));
+      if (req.method === "POST" && !statusMatch) return receive(req.body);
+      return { status: 404, body: "<Error><Message>Not found</Message></Error>" };
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { ETRAN_FIELD_SOURCES, fieldForXmlPath, type EtranMappedField } from "./etranMapper";
+
+/**
+ * SBA E-Tran validation messages → the mapper field the banker corrects.
+ * Pure, no "server-only".
+ *
+ * Codes not listed here fall back to the response's <Field> element (matched
+ * against ETRAN_FIELD_SOURCES) and finally to an application-level task, so a
+ * new SBA code never drops an error on the floor — it just loses the
+ * field-specific resolution hint until it is added below.
+ *
+ * The fake SBA endpoint (fakeSbaEtran.ts) emits these codes; confirm the
+ * catalogue against SBA's sandbox when credentials are provisioned.
+ */
+
+type SbaErrorCodeEntry = { field: EtranMappedField | null; resolution: string };
+
+export const SBA_ERROR_CODES: Record<string, SbaErrorCodeEntry> = {
+  // Borrower identity
+  "E-1001": { field: "borrower_name", resolution: "Match the legal name exactly to the IRS EIN assignment letter / Secretary of State filing." },
+  "E-1002": { field: "ein", resolution: "Confirm the 9-digit EIN against the IRS CP-575 or a recent tax return." },
+  "E-1003": { field: "ein", resolution: "EIN already has an active SBA application — confirm this is not a duplicate submission." },
+  "E-1010": { field: "business_address", resolution: "Provide a physical (non-PO box) business address that validates against USPS." },
+  // Eligibility
+  "E-2001": { field: "naics", resolution: "Use a current 6-digit NAICS code that matches the business's primary activity." },
+  "E-2002": { field: "naics", resolution: "NAICS code is on SBA's ineligible list — review eligibility before resubmitting." },
+  "E-2010": { field: "owners", resolution: "List every owner with 20% or more, with valid SSNs and percentages totalling no more than 100%." },
+  "E-2011": { field: "owners", resolution: "An owner SSN failed verification — confirm against the signed Form 1919." },
+  "E-2012": { field: "owners", resolution: "An owner appears in CAIVRS or has a prior SBA loss — clear the hit or document the exception." },
+  // Loan terms
+  "E-3001": { field: "loan_amount", resolution: "Loan amount exceeds the program maximum or the guaranteed-portion cap." },
+  "E-3002": { field: "loan_amount", resolution: "Guarantee percentage does not match the program schedule for this loan amount." },
+  "E-3010": { field: "term_months", resolution: "Maturity exceeds the maximum for the use of proceeds (10 years, 25 for real estate)." },
+  "E-3020": { field: "interest_rate", resolution: "Rate exceeds the SBA maximum spread over base for this loan size." },
+  "E-3030": { field: "use_of_proceeds", resolution: "Use-of-proceeds lines must be eligible categories and sum to the loan amount." },
+  // Application-level
+  "E-9001": { field: null, resolution: "SBA screened the application out — review the screenout reason with the SBA loan processing center." },
+  "E-9002": { field: null, resolution: "Lender is not authorized for this delivery method — confirm the lender's SBA program authority." },
+};
+
+export type SbaResponseError = { code: string; message: string; xml_path: string | null };
+
+export type EtranFieldRejection = {
+  /** Mapper field to correct; null = application-level */
+  field: EtranMappedField | null;
+  label: string;
+  codes: string[];
+  messages: string[];
+  xml_paths: string[];
+  resolution: string;
+};
+
+/**
+ * Group SBA response errors by the mapper field they point at. One rejection
+ * per field (one banker task per field), carrying every code SBA raised for it.
+ */
+export function reconcileSbaErrors(errors: SbaResponseError[]): EtranFieldRejection[] {
+  const byKey = new Map<string, EtranFieldRejection>();
+
+  for (const err of errors) {
+    const entry = SBA_ERROR_CODES[err.code];
+    const field = entry?.field ?? (err.xml_path ? fieldForXmlPath(err.xml_path) : null);
+    const key = field ?? "__application__";
+
+    let rejection = byKey.get(key);
+    if (!rejection) {
+      rejection = {
+        field,
+        label: field ? ETRAN_FIELD_SOURCES[field].label : "SBA application",
+        codes: [],
+        messages: [],
+        xml_paths: [],
+        resolution: entry?.resolution ?? "Review the SBA message, correct the deal data and resubmit.",
+      };
+      byKey.set(key, rejection);
+    }
+    if (!rejection.codes.includes(err.code)) rejection.codes.push(err.code);
+    if (err.message && !rejection.messages.includes(err.message)) rejection.messages.push(err.message);
+    if (err.xml_path && !rejection.xml_paths.includes(err.xml_path)) rejection.xml_paths.push(err.xml_path);
+  }
+
+  return [...byKey.values()];
+}
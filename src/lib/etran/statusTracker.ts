@@ -0,0 +1,374 @@
+import * as crypto from "node:crypto";
+import type { EtranSupabaseClient, GetEtranCredentialsFn } from "./submitter";
+import { reconcileSbaErrors, type EtranFieldRejection, type SbaResponseError } from "./sbaErrorCodes";
+
+/**
+ * E-Tran lifecycle after submitToSba: SBA has received the XML
+ * (sba_etran_submissions.status = 'accepted') and decides asynchronously.
+ * Same DI'd, no-"server-only" shape as submitter.ts — the cron route and the
+ * SBA action route wire in the real https client; tests wire in the fake SBA
+ * endpoint (fakeSbaEtran.ts).
+ *
+ * Every SBA response, polled or pasted in by a banker, goes through
+ * ingestSbaStatusResponse: it is recorded once in sba_etran_status_events,
+ * the submission moves to approved / screenout / returned, and each rejected
+ * field opens a deal_gap_queue task. The latest SBA response is
+ * authoritative — field tasks it no longer mentions are resolved.
+ *
+ * Nothing here resubmits. A returned application goes back through the
+ * human-approval gate in submitter.ts after the banker corrects the fields.
+ */
+
+export type SbaApplicationStatus = "pending" | "approved" | "screenout" | "returned";
+
+export type FetchSbaStatusFn = (args: {
+  endpoint: string;
+  applicationNumber: string;
+  clientCertPem: string;
+  clientKeyPem: string;
+}) => Promise<{ body: string }>;
+
+export type ParsedSbaStatusResponse = {
+  application_number: string | null;
+  status: SbaApplicationStatus | null;
+  sba_loan_number: string | null;
+  errors: SbaResponseError[];
+};
+
+const STATUS_ALIASES: Record<string, SbaApplicationStatus> = {
+  pending: "pending",
+  received: "pending",
+  accepted: "pending",
+  "in process": "pending",
+  "in review": "pending",
+  approved: "approved",
+  approval: "approved",
+  screenout: "screenout",
+  "screened out": "screenout",
+  returned: "returned",
+  "returned with errors": "returned",
+};
+
+/** SBA statuses that end polling for a submission. */
+const DECIDED: ReadonlySet<SbaApplicationStatus> = new Set(["approved", "screenout", "returned"]);
+
+/** Submission statuses that reached SBA and can receive a status response. */
+const AT_SBA = ["accepted", "approved", "screenout", "returned"];
+
+const GAP_TYPE = "etran_field_rejected";
+const GAP_FACT_TYPE = "etran_field";
+const GAP_CONFLICT = "deal_id,fact_type,fact_key,gap_type,status";
+
+function tag(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return match ? match[1].trim() : null;
+}
+
+export function parseSbaStatusResponse(xml: string): ParsedSbaStatusResponse {
+  const rawStatus = tag(xml, "Status");
+  const errors: SbaResponseError[] = [];
+  for (const block of xml.match(/<Error>[\s\S]*?<\/Error>/g) ?? []) {
+    const code = tag(block, "Code");
+    if (!code) continue;
+    errors.push({ code, message: tag(block, "Message") ?? "", xml_path: tag(block, "Field") });
+  }
+  return {
+    application_number: tag(xml, "ApplicationNumber"),
+    status: rawStatus ? STATUS_ALIASES[rawStatus.toLowerCase()] ?? null : null,
+    sba_loan_number: tag(xml, "LoanNumber"),
+    errors,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Poll cadence
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Hourly for the first day after SBA receipt, every 4h to day 7, daily to
+ * day 30, then stop and surface a gap — SBA decisions outside that window
+ * need a call to the loan processing center, not more polling.
+ */
+export function computeNextEtranPollAt(submittedAt: Date, now: Date): { nextPollAt: string | null; expired: boolean } {
+  const elapsedMs = now.getTime() - submittedAt.getTime();
+  if (elapsedMs >= 30 * DAY_MS) return { nextPollAt: null, expired: true };
+  const interval = elapsedMs >= 7 * DAY_MS ? DAY_MS : elapsedMs >= DAY_MS ? 4 * HOUR_MS : HOUR_MS;
+  return { nextPollAt: new Date(now.getTime() + interval).toISOString(), expired: false };
+}
+
+// ---------------------------------------------------------------------------
+// Ingest
+// ---------------------------------------------------------------------------
+
+export type IngestSbaStatusResult =
+  | {
+      ok: true;
+      status: SbaApplicationStatus;
+      duplicate: boolean;
+      rejections: EtranFieldRejection[];
+      gaps_opened: number;
+      gaps_resolved: number;
+    }
+  | {
+      ok: false;
+      reason: "SUBMISSION_NOT_FOUND" | "NOT_AT_SBA" | "UNPARSEABLE_RESPONSE" | "APPLICATION_NUMBER_MISMATCH" | "DB_INSERT_FAILED";
+      details?: string;
+    };
+
+type SubmissionRow = {
+  id: string;
+  deal_id: string;
+  bank_id: string;
+  status: string;
+  sba_application_number: string | null;
+  endpoint_environment: "sandbox" | "production";
+  submitted_at: string | null;
+  poll_attempt_count: number | null;
+};
+
+const SUBMISSION_COLUMNS = "id, deal_id, bank_id, status, sba_application_number, endpoint_environment, submitted_at, poll_attempt_count";
+
+export async function ingestSbaStatusResponse(
+  args: { submissionId: string; body: string; source: "poll" | "ingest"; receivedBy?: string | null },
+  deps: { sb: EtranSupabaseClient; now?: Date },
+): Promise<IngestSbaStatusResult> {
+  const { sb } = deps;
+  const now = deps.now ?? new Date();
+
+  const { data: submission } = await sb.from("sba_etran_submissions").select(SUBMISSION_COLUMNS).eq("id", args.submissionId).single();
+  const row = submission as SubmissionRow | null;
+  if (!row) return { ok: false, reason: "SUBMISSION_NOT_FOUND" };
+  if (!AT_SBA.includes(row.status)) return { ok: false, reason: "NOT_AT_SBA", details: row.status };
+
+  const parsed = parseSbaStatusResponse(args.body);
+  if (!parsed.status) {
+    return { ok: false, reason: "UNPARSEABLE_RESPONSE", details: "no recognizable <Status>" };
+  }
+  if (parsed.application_number && row.sba_application_number && parsed.application_number !== row.sba_application_number) {
+    return {
+      ok: false,
+      reason: "APPLICATION_NUMBER_MISMATCH",
+      details: `${parsed.application_number} != ${row.sba_application_number}`,
+    };
+  }
+
+  const rejections = parsed.status === "approved" || parsed.status === "pending" ? [] : reconcileSbaErrors(parsed.errors);
+  const responseHash = crypto.createHash("sha256").update(args.body).digest("hex");
+
+  const { error: eventErr } = await sb
+    .from("sba_etran_status_events")
+    .insert({
+      submission_id: row.id,
+      deal_id: row.deal_id,
+      bank_id: row.bank_id,
+      sba_application_number: parsed.application_number ?? row.sba_application_number,
+      source: args.source,
+      status: parsed.status,
+      sba_loan_number: parsed.sba_loan_number,
+      errors: parsed.errors,
+      response_hash: responseHash,
+      response_body: args.body,
+      received_by: args.receivedBy ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (eventErr) {
+    // Same SBA response seen before (re-poll or re-paste) — nothing new to apply
+    if (eventErr.code === "23505") {
+      return { ok: true, status: parsed.status, duplicate: true, rejections, gaps_opened: 0, gaps_resolved: 0 };
+    }
+    return { ok: false, reason: "DB_INSERT_FAILED", details: eventErr.message };
+  }
+
+  if (parsed.status === "pending") {
+    return { ok: true, status: "pending", duplicate: false, rejections, gaps_opened: 0, gaps_resolved: 0 };
+  }
+
+  await sb
+    .from("sba_etran_submissions")
+    .update({
+      status: parsed.status,
+      status_reason: rejections.length > 0 ? rejections.map((r) => `${r.label}: ${r.codes.join(",")}`).join("; ") : null,
+      sba_loan_number: parsed.sba_loan_number,
+      sba_errors: rejections,
+      decision_at: now.toISOString(),
+      responded_at: now.toISOString(),
+      next_poll_at: null,
+    })
+    .eq("id", row.id);
+
+  const gaps = await syncRejectionGaps(sb, row, parsed.status, rejections, now);
+
+  await sb.from("deal_events").insert({
+    deal_id: row.deal_id,
+    kind: `sba_application_${parsed.status}`,
+    payload: {
+      submission_id: row.id,
+      sba_application_number: row.sba_application_number,
+      sba_loan_number: parsed.sba_loan_number,
+      rejected_fields: rejections.map((r) => r.field ?? "application"),
+      source: args.source,
+    },
+  });
+
+  return { ok: true, status: parsed.status, duplicate: false, rejections, ...gaps };
+}
+
+async function syncRejectionGaps(
+  sb: EtranSupabaseClient,
+  row: SubmissionRow,
+  status: SbaApplicationStatus,
+  rejections: EtranFieldRejection[],
+  now: Date,
+): Promise<{ gaps_opened: number; gaps_resolved: number }> {
+  const gapRows = rejections.map((r) => ({
+    deal_id: row.deal_id,
+    bank_id: row.bank_id,
+    gap_type: GAP_TYPE,
+    fact_type: GAP_FACT_TYPE,
+    fact_key: `etran.${r.field ?? "application"}`,
+    owner_entity_id: null,
+    description: `SBA ${status} ${row.sba_application_number ?? "application"}: ${r.label} — ${r.messages.join("; ") || "see SBA response"} (${r.codes.join(", ")})`,
+    resolution_prompt: r.resolution,
+    priority: 1,
+    status: "open",
+  }));
+  if (gapRows.length > 0) {
+    await sb.from("deal_gap_queue").upsert(gapRows, { onConflict: GAP_CONFLICT });
+  }
+
+  const current = new Set(gapRows.map((g) => g.fact_key));
+  const { data: open } = await sb
+    .from("deal_gap_queue")
+    .select("id, fact_key")
+    .eq("deal_id", row.deal_id)
+    .eq("gap_type", GAP_TYPE)
+    .eq("status", "open");
+  const stale = ((open ?? []) as Array<{ id: string; fact_key: string }>).filter((g) => !current.has(g.fact_key));
+  for (const gap of stale) {
+    await sb
+      .from("deal_gap_queue")
+      .update({ status: "resolved", resolved_by: "sba_etran", resolved_at: now.toISOString(), resolution_meta: { submission_id: row.id, sba_status: status } })
+      .eq("id", gap.id);
+  }
+
+  return { gaps_opened: gapRows.length, gaps_resolved: stale.length };
+}
+
+// ---------------------------------------------------------------------------
+// Poll
+// ---------------------------------------------------------------------------
+
+export type EtranPollDeps = {
+  sb: EtranSupabaseClient;
+  getCredentials: GetEtranCredentialsFn;
+  fetchStatus: FetchSbaStatusFn;
+  sandboxStatusEndpoint: string;
+  productionStatusEndpoint: string;
+};
+
+export type EtranPollOutcome = {
+  submissionId: string;
+  outcome: "decided" | "still_pending" | "expired" | "skipped" | "error";
+  status?: SbaApplicationStatus;
+  details?: string;
+};
+
+/** Poll SBA once for a single submission (cron and the banker "check now" action). */
+export async function pollEtranSubmissionStatus(
+  args: { submissionId: string },
+  deps: EtranPollDeps,
+  now: Date = new Date(),
+): Promise<EtranPollOutcome> {
+  const { sb } = deps;
+  const { data } = await sb.from("sba_etran_submissions").select(SUBMISSION_COLUMNS).eq("id", args.submissionId).single();
+  const row = data as SubmissionRow | null;
+  if (!row) return { submissionId: args.submissionId, outcome: "skipped", details: "SUBMISSION_NOT_FOUND" };
+  if (row.status !== "accepted" || !row.sba_application_number) {
+    return { submissionId: row.id, outcome: "skipped", details: `status ${row.status}` };
+  }
+
+  const creds = await deps.getCredentials(row.bank_id);
+  if (!creds) return { submissionId: row.id, outcome: "skipped", details: "ETRAN_CREDENTIALS_MISSING" };
+
+  const endpoint = row.endpoint_environment === "production" ? deps.productionStatusEndpoint : deps.sandboxStatusEndpoint;
+  const attempts = (row.poll_attempt_count ?? 0) + 1;
+  const cadence = computeNextEtranPollAt(new Date(row.submitted_at ?? now.toISOString()), now);
+
+  let body: string;
+  try {
+    ({ body } = await deps.fetchStatus({
+      endpoint,
+      applicationNumber: row.sba_application_number,
+      clientCertPem: creds.client_cert_pem,
+      clientKeyPem: creds.client_key_pem,
+    }));
+  } catch (err: any) {
+    await sb
+      .from("sba_etran_submissions")
+      .update({ last_polled_at: now.toISOString(), poll_attempt_count: attempts, next_poll_at: cadence.nextPollAt })
+      .eq("id", row.id);
+    return { submissionId: row.id, outcome: "error", details: err?.message ?? String(err) };
+  }
+
+  const ingested = await ingestSbaStatusResponse({ submissionId: row.id, body, source: "poll" }, { sb, now });
+  if (!ingested.ok) {
+    await sb
+      .from("sba_etran_submissions")
+      .update({ last_polled_at: now.toISOString(), poll_attempt_count: attempts, next_poll_at: cadence.nextPollAt })
+      .eq("id", row.id);
+    return { submissionId: row.id, outcome: "error", details: `${ingested.reason}${ingested.details ? ": " + ingested.details : ""}` };
+  }
+
+  if (DECIDED.has(ingested.status)) {
+    await sb.from("sba_etran_submissions").update({ last_polled_at: now.toISOString(), poll_attempt_count: attempts }).eq("id", row.id);
+    return { submissionId: row.id, outcome: "decided", status: ingested.status };
+  }
+
+  await sb
+    .from("sba_etran_submissions")
+    .update({ last_polled_at: now.toISOString(), poll_attempt_count: attempts, next_poll_at: cadence.nextPollAt })
+    .eq("id", row.id);
+
+  if (cadence.expired) {
+    await sb.from("deal_gap_queue").upsert(
+      [
+        {
+          deal_id: row.deal_id,
+          bank_id: row.bank_id,
+          gap_type: "etran_decision_delayed",
+          fact_type: GAP_FACT_TYPE,
+          fact_key: `etran.decision.${row.id}`,
+          owner_entity_id: null,
+          description: `SBA has not decided application ${row.sba_application_number} within 30 days of receipt — automatic status polling has stopped.`,
+          resolution_prompt: "Call the SBA loan processing center, then paste the SBA response into the E-Tran status panel.",
+          priority: 2,
+          status: "open",
+        },
+      ],
+      { onConflict: GAP_CONFLICT },
+    );
+    return { submissionId: row.id, outcome: "expired", status: "pending" };
+  }
+
+  return { submissionId: row.id, outcome: "still_pending", status: "pending" };
+}
+
+/** Cron entry: poll every submission awaiting an SBA decision whose next poll is due. */
+export async function pollEtranSubmissionStatuses(deps: EtranPollDeps, now: Date = new Date()): Promise<EtranPollOutcome[]> {
+  const { data } = await deps.sb
+    .from("sba_etran_submissions")
+    .select("id")
+    .eq("status", "accepted")
+    .lte("next_poll_at", now.toISOString());
+
+  const outcomes: EtranPollOutcome[] = [];
+  for (const row of (data ?? []) as Array<{ id: string }>) {
+    outcomes.push(await pollEtranSubmissionStatus({ submissionId: row.id }, deps, now));
+  }
+  return outcomes;
+}
@@ -149,6 +149,8 @@ export async function submitToSba(
         submitted_at: new Date().toISOString(),
         responded_at: new Date().toISOString(),
         status_reason: response.accepted ? null : response.rejectionReason,
+        // SBA decides asynchronously — statusTracker.ts polls from here
+        next_poll_at: response.accepted ? new Date(Date.now() + 60 * 60 * 1000).toISOString() : null,
       })
       .eq("id", submission.id);
 
@@ -0,0 +1,366 @@
+/**
+ * Examiner simulator (lib/examiner).
+ *
+ * The rule library against a clean SBA file and targeted defects, file
+ * scoring, examiner-style sampling, and the run persistence / ledger
+ * events written by runExaminerReview.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mockServerOnly } from "../../../../test/utils/mockServerOnly";
+import type { ExaminerLoanFile } from "../examinerRules";
+
+mockServerOnly();
+
+type Row = Record<string, any>;
+
+const AS_OF = new Date("2026-10-19T12:00:00Z");
+
+function cleanFile(): ExaminerLoanFile {
+  return {
+    deal: { id: "d1", bank_id: "b1", name: "Harbor Logistics", loan_amount: 1_200_000, is_sba: true, created_at: "2026-01-05T00:00:00Z" },
+    decision: {
+      id: "snap-1",
+      status: "final",
+      decision: "approve_with_conditions",
+      created_at: "2026-03-10T15:00:00Z",
+      risk_rating: 4,
+      exception_keys: ["ltv_above_policy"],
+      evidence_count: 3,
+    },
+    dscr: { value: 1.42, fact_id: "fact-dscr" },
+    events: [
+      { ledger: "deal_events", id: "ev-appr", kind: "third_party.appraisal_review_cleared", created_at: "2026-03-01T10:00:00Z", payload: { review_id: "rev-1" } },
+      { ledger: "deal_events", id: "ev-caivrs", kind: "caivrs.check_completed", created_at: "2026-02-10T10:00:00Z", payload: { ownership_entity_id: "o1", status: "clear" } },
+      { ledger: "deal_events", id: "ev-kyc", kind: "kyc.verification_approved", created_at: "2026-02-11T10:00:00Z", payload: { verification_id: "kyc-1" } },
+      {
+        ledger: "deal_events",
+        id: "ev-ofac",
+        kind: "sanctions.screening_completed",
+        created_at: "2026-02-12T10:00:00Z",
+        payload: { screening_id: "scr-1", trigger: "manual", subject_count: 3, hit_count: 0, open_hit_count: 0 },
+      },
+      { ledger: "ai_events", id: "ai-etran", kind: "etran.package.generated", created_at: "2026-03-12T10:00:00Z", payload: null },
+    ],
+    documents: [
+      { id: "doc-appr", name: "appraisal.pdf", document_type: "APPRAISAL", created_at: "2026-02-20T00:00:00Z" },
+      { id: "doc-1919", name: "1919.pdf", document_type: "SBA_1919", created_at: "2026-01-10T00:00:00Z" },
+      { id: "doc-4506", name: "4506c.pdf", document_type: "IRS_4506C", created_at: "2026-01-10T00:00:00Z" },
+    ],
+    collateral: [{ id: "col-1", item_type: "real_estate", estimated_value: 1_600_000, appraisal_date: null }],
+    appraisal_reviews: [
+      { id: "rev-1", collateral_item_id: "col-1", status: "cleared", effective_date: "2026-02-01", cleared_at: "2026-03-01T10:00:00Z", open_items: [], created_at: "2026-02-20T00:00:00Z" },
+    ],
+    exceptions: [
+      {
+        id: "exc-1",
+        exception_key: "ltv_above_policy",
+        title: "LTV above policy",
+        severity: "exception",
+        status: "approved",
+        policy_reference: "CRE-4.2",
+        first_detected_at: "2026-03-01T00:00:00Z",
+        resolved_at: null,
+        actions: [
+          { id: "act-1", action_type: "add_mitigant", new_status: "mitigated", mitigant_text: "Additional equipment lien", rationale_text: null, acted_by: "u1", acted_at: "2026-03-02T00:00:00Z" },
+          { id: "act-2", action_type: "change_status", new_status: "approved", mitigant_text: null, rationale_text: "Strong liquidity and guarantor support", acted_by: "u2", acted_at: "2026-03-03T00:00:00Z" },
+        ],
+      },
+    ],
+    parties: [
+      {
+        participation_id: "p1", entity_id: "o1", name: "Dana Reyes", entity_type: "person", role_key: "guarantor",
+        ownership_pct: 60, guaranty_type: "unlimited", guaranty_amount: null, completed: true,
+        citizenship_status: "us_citizen", document_ids: [],
+      },
+      {
+        participation_id: "p2", entity_id: "o2", name: "Harbor Logistics LLC", entity_type: "company", role_key: "lead_borrower",
+        ownership_pct: null, guaranty_type: null, guaranty_amount: null, completed: true,
+        citizenship_status: null, document_ids: [],
+      },
+    ],
+    identity_verifications: [{ id: "kyc-1", ownership_entity_id: "o1", status: "approved", completed_at: "2026-02-11T10:00:00Z" }],
+    personal_facts: [
+      { id: "pfs-1", owner_entity_id: "o1", fact_type: "PERSONAL_FINANCIAL_STATEMENT", period_end: "2025-12-31", created_at: "2026-01-15T00:00:00Z" },
+      { id: "pi-1", owner_entity_id: "o1", fact_type: "PERSONAL_INCOME", period_end: "2024-12-31", created_at: "2026-01-15T00:00:00Z" },
+    ],
+  };
+}
+
+class FakeDb {
+  private seq = 0;
+  constructor(public tables: Record<string, Row[]>) {}
+
+  from = (table: string) => {
+    const filters: Array<(r: Row) => boolean> = [];
+    let op: "select" | "insert" = "select";
+    let payload: Row = {};
+    let order: { col: string; asc: boolean } | null = null;
+    let limit = Infinity;
+    const run = () => {
+      if (op === "insert") {
+        const row = { id: `${table}-${++this.seq}`, ...payload };
+        (this.tables[table] ??= []).push(row);
+        return { data: [row], error: null };
+      }
+      let out = (this.tables[table] ?? []).filter((r) => filters.every((f) => f(r)));
+      if (order) {
+        const { col, asc } = order;
+        out = [...out].sort((a, b) => (asc ? 1 : -1) * String(a[col]).localeCompare(String(b[col])));
+      }
+      return { data: out.slice(0, limit), error: null };
+    };
+    const b: any = {
+      select: () => b,
+      insert: (p: Row) => ((op = "insert"), (payload = p), b),
+      eq: (c: string, v: unknown) => (filters.push((r) => r[c] === v), b),
+      in: (c: string, vs: unknown[]) => (filters.push((r) => vs.includes(r[c])), b),
+      order: (col: string, o?: { ascending?: boolean }) => ((order = { col, asc: o?.ascending !== false }), b),
+      limit: (n: number) => ((limit = n), b),
+      maybeSingle: () => Promise.resolve({ data: run().data[0] ?? null, error: null }),
+      then: (ok: (v: unknown) => unknown, bad?: (e: unknown) => unknown) => Promise.resolve(run()).then(ok, bad),
+    };
+    return b;
+  };
+}
+
+describe("examiner simulator", async () => {
+  const { reviewLoanFile, scoreExaminerFindings, selectExaminerSample } = await import("../examinerSimulator");
+  const { runExaminerSampleReview, loadExaminerReviewRun, loadLatestDealFileReview } = await import("../runExaminerReview");
+  const { renderPlaybooksPdf } = await import("../renderPlaybooksPdf");
+  const { generateExaminerPlaybooks } = await import("../playbookGenerator");
+
+  const review = (f: ExaminerLoanFile) => reviewLoanFile(f, { asOf: AS_OF });
+  const ruleIds = (f: ExaminerLoanFile) => review(f).findings.map((x) => x.rule_id);
+
+  it("a complete SBA file passes every rule with evidence", () => {
+    const r = review(cleanFile());
+    assert.deepEqual(r.findings, []);
+    assert.equal(r.score, 100);
+    assert.equal(r.rating, "SATISFACTORY");
+    assert.equal(r.risk_level, "LOW");
+    assert.equal(r.counts.fail, 0);
+    assert.equal(r.counts.pass, 18);
+
+    const ofac = r.rule_results.find((x) => x.rule_id === "KYC-02")!;
+    assert.deepEqual(ofac.evidence, [
+      { type: "ledger_event", ledger: "deal_events", id: "ev-ofac", kind: "sanctions.screening_completed", at: "2026-02-12T10:00:00Z" },
+    ]);
+  });
+
+  it("appraisal timing: stale value and review cleared after approval", () => {
+    const f = cleanFile();
+    f.appraisal_reviews[0].effective_date = "2025-01-15";
+    f.appraisal_reviews[0].cleared_at = "2026-03-20T00:00:00Z";
+    const findings = review(f).findings;
+
+    const stale = findings.find((x) => x.rule_id === "APPR-02")!;
+    assert.match(stale.detail, /419 days old/);
+    assert.deepEqual(stale.citations.map((c) => c.type === "record" && c.table), ["appraisal_reviews", "decision_snapshots"]);
+
+    const late = findings.find((x) => x.rule_id === "APPR-03")!;
+    assert.match(late.detail, /after the 2026-03-10 approval/);
+    assert.ok(late.citations.some((c) => c.type === "ledger_event" && c.id === "ev-appr"));
+
+    // Below the CRE threshold an evaluation suffices.
+    const small = cleanFile();
+    small.deal.loan_amount = 400_000;
+    small.documents = small.documents.filter((d) => d.document_type !== "APPRAISAL");
+    small.appraisal_reviews = [];
+    assert.ok(!ruleIds(small).includes("APPR-01"));
+    small.deal.loan_amount = 900_000;
+    assert.ok(ruleIds(small).includes("APPR-01"));
+  });
+
+  it("policy exceptions: open at approval, missing rationale, not disclosed", () => {
+    const open = cleanFile();
+    open.exceptions[0].status = "open";
+    const openFinding = review(open).findings.find((x) => x.rule_id === "EXC-01")!;
+    assert.equal(openFinding.severity, "HIGH");
+
+    const thin = cleanFile();
+    thin.exceptions[0].actions = [thin.exceptions[0].actions[0]];
+    const thinFinding = review(thin).findings.filter((x) => x.rule_id === "EXC-01");
+    assert.deepEqual(thinFinding.map((x) => x.detail), ['"LTV above policy" was approved without an approval rationale.']);
+
+    const hidden = cleanFile();
+    hidden.decision!.exception_keys = [];
+    assert.ok(ruleIds(hidden).includes("EXC-02"));
+  });
+
+  it("risk rating: missing at approval, and pass grade on sub-1.0x coverage", () => {
+    const missing = cleanFile();
+    missing.decision!.risk_rating = null;
+    assert.equal(review(missing).findings.find((x) => x.rule_id === "RR-01")!.severity, "HIGH");
+
+    const weak = cleanFile();
+    weak.dscr = { value: 0.91, fact_id: "fact-dscr" };
+    const f = review(weak).findings.find((x) => x.rule_id === "RR-02")!;
+    assert.match(f.detail, /0\.91x/);
+    assert.ok(f.citations.some((c) => c.type === "record" && c.table === "deal_financial_facts" && c.id === "fact-dscr"));
+
+    weak.decision!.risk_rating = 8;
+    assert.ok(!ruleIds(weak).includes("RR-02"));
+  });
+
+  it("guarantors and SBA: owner not guaranteeing, no CAIVRS, unknown citizenship, no PFS", () => {
+    const f = cleanFile();
+    f.parties.push({
+      participation_id: "p3", entity_id: "o3", name: "Sam Ortiz", entity_type: "person", role_key: "principal",
+      ownership_pct: 40, guaranty_type: null, guaranty_amount: null, completed: false,
+      citizenship_status: null, document_ids: [],
+    });
+    f.personal_facts = f.personal_facts.filter((p) => p.fact_type !== "PERSONAL_FINANCIAL_STATEMENT");
+    const findings = review(f).findings;
+    const byRule = (id: string) => findings.filter((x) => x.rule_id === id).map((x) => x.detail);
+
+    assert.deepEqual(byRule("SBA-01"), ["Sam Ortiz owns 40% but is not a guarantor."]);
+    assert.deepEqual(byRule("SBA-04"), ["No CAIVRS check for Sam Ortiz."]);
+    assert.deepEqual(byRule("SBA-05"), ["Citizenship status not documented for owner Sam Ortiz."]);
+    assert.deepEqual(byRule("GUA-01"), ["No personal financial statement on file for guarantor Dana Reyes."]);
+    assert.deepEqual(byRule("KYC-01"), ["No completed identity verification for Sam Ortiz."]);
+
+    // None of the SBA rules apply to a conventional loan.
+    f.deal.is_sba = false;
+    assert.ok(!ruleIds(f).some((id) => id.startsWith("SBA-")));
+  });
+
+  it("OFAC: screening only after approval, or an undisposed potential match", () => {
+    const late = cleanFile();
+    late.events = late.events.map((e) => (e.id === "ev-ofac" ? { ...e, created_at: "2026-04-01T00:00:00Z" } : e));
+    const f = review(late).findings.find((x) => x.rule_id === "KYC-02")!;
+    assert.equal(f.detail, "OFAC screening was only run after the loan was approved.");
+    assert.equal(f.severity, "HIGH");
+
+    const hit = cleanFile();
+    hit.events = hit.events.map((e) =>
+      e.id === "ev-ofac" ? { ...e, payload: { ...e.payload, hit_count: 2, open_hit_count: 2 } } : e,
+    );
+    const disposition = (id: string, at: string, d: string) => ({
+      ledger: "deal_events" as const,
+      id,
+      kind: "sanctions.hit_dispositioned",
+      created_at: at,
+      payload: { hit_id: `hit-${id}`, disposition: d, reason_code: d === "false_positive" ? "dob_mismatch" : null },
+    });
+    hit.events.push(disposition("disp-1", "2026-02-13T10:00:00Z", "false_positive"));
+    assert.equal(
+      review(hit).findings.find((x) => x.rule_id === "KYC-02")!.detail,
+      "OFAC screening returned 1 potential match with no recorded disposition before approval.",
+    );
+
+    // A disposition recorded after approval does not count.
+    hit.events.push(disposition("disp-2", "2026-03-20T10:00:00Z", "false_positive"));
+    assert.ok(review(hit).findings.some((x) => x.rule_id === "KYC-02"));
+
+    hit.events.push(disposition("disp-3", "2026-02-14T10:00:00Z", "false_positive"));
+    const cleared = review(hit).rule_results.find((x) => x.rule_id === "KYC-02")!;
+    assert.deepEqual(cleared.evidence.map((c) => (c as { id: string }).id), ["ev-ofac", "disp-1", "disp-3"]);
+    assert.ok(!review(hit).findings.some((x) => x.rule_id === "KYC-02"));
+
+    const confirmed = cleanFile();
+    confirmed.events.push(disposition("disp-4", "2026-02-13T10:00:00Z", "true_match"));
+    assert.match(review(confirmed).findings.find((x) => x.rule_id === "KYC-02")!.detail, /true match/);
+  });
+
+  it("scores deduct by severity and rate the file", () => {
+    const finding = (severity: "HIGH" | "MEDIUM" | "LOW") => ({
+      rule_id: "X", category: "SBA" as const, severity, title: "t", detail: "d", regulation: "r", citations: [],
+    });
+    assert.deepEqual(scoreExaminerFindings([finding("LOW"), finding("LOW")]), { score: 94, rating: "SATISFACTORY" });
+    assert.deepEqual(scoreExaminerFindings([finding("HIGH")]), { score: 80, rating: "NEEDS_IMPROVEMENT" });
+    assert.deepEqual(scoreExaminerFindings([finding("MEDIUM"), finding("MEDIUM")]), { score: 84, rating: "NEEDS_IMPROVEMENT" });
+    assert.deepEqual(scoreExaminerFindings([finding("HIGH"), finding("HIGH")]), { score: 60, rating: "DEFICIENT" });
+  });
+
+  it("samples large, exception and SBA files first, then a seeded random draw", () => {
+    const candidates = Array.from({ length: 30 }, (_, i) => ({
+      deal_id: `deal-${String(i).padStart(2, "0")}`,
+      loan_amount: (i + 1) * 100_000,
+      is_sba: i === 3,
+      exception_count: i === 5 ? 1 : 0,
+      risk_rating: i === 7 ? 8 : 4,
+    }));
+
+    const sample = selectExaminerSample(candidates, { size: 10, seed: "exam-2026" });
+    assert.equal(sample.length, 10);
+    assert.deepEqual(
+      sample.slice(0, 4).map((s) => s.deal_id),
+      ["deal-29", "deal-28", "deal-27", "deal-26"],
+    );
+    const reasons = new Map(sample.map((s) => [s.deal_id, s.reasons]));
+    assert.deepEqual(reasons.get("deal-05"), ["POLICY_EXCEPTION"]);
+    assert.deepEqual(reasons.get("deal-07"), ["CRITICIZED_RATING"]);
+    assert.deepEqual(reasons.get("deal-03"), ["SBA"]);
+    assert.equal(sample.filter((s) => s.reasons.includes("RANDOM")).length, 3);
+
+    assert.deepEqual(selectExaminerSample(candidates, { size: 10, seed: "exam-2026" }), sample);
+    assert.notDeepEqual(selectExaminerSample(candidates, { size: 10, seed: "other" }), sample);
+    assert.equal(selectExaminerSample(candidates.slice(0, 4), { size: 10, seed: "s" }).length, 4);
+  });
+
+  it("a sample run persists scored reviews and writes a ledger event per file", async () => {
+    const db = new FakeDb({
+      decision_snapshots: [
+        { id: "s1", deal_id: "d1", bank_id: "b1", status: "final", decision: "approve", created_at: "2026-03-10T00:00:00Z", policy_eval_json: { risk_rating: 4 }, exceptions_json: [], evidence_snapshot_json: [{}] },
+        { id: "s2", deal_id: "d2", bank_id: "b1", status: "final", decision: "approve", created_at: "2026-04-10T00:00:00Z", policy_eval_json: {}, exceptions_json: [], evidence_snapshot_json: [] },
+        { id: "s3", deal_id: "d9", bank_id: "b2", status: "final", decision: "approve", created_at: "2026-04-10T00:00:00Z", policy_eval_json: {}, exceptions_json: [], evidence_snapshot_json: [] },
+      ],
+      deals: [
+        { id: "d1", bank_id: "b1", name: "One", loan_amount: 300_000, deal_type: "CONVENTIONAL", product_type: "TERM_LOAN" },
+        { id: "d2", bank_id: "b1", name: "Two", loan_amount: 800_000, deal_type: "CONVENTIONAL", product_type: "TERM_LOAN" },
+        { id: "d9", bank_id: "b2", name: "Other bank", loan_amount: 5_000_000, deal_type: "SBA", product_type: null },
+      ],
+      deal_events: [{ id: "e1", deal_id: "d1", kind: "sanctions.screening_completed", payload: { open_hit_count: 0 }, created_at: "2026-03-01T00:00:00Z" }],
+    });
+
+    let n = 0;
+    const result = await runExaminerSampleReview(
+      db as any,
+      { bankId: "b1", userId: "u1", size: 5, seed: "s" },
+      { newId: () => `id-${++n}`, now: () => AS_OF },
+    );
+
+    assert.deepEqual(result.sample.map((s) => s.deal_id).sort(), ["d1", "d2"]);
+    assert.deepEqual(result.skipped, []);
+    const d2 = result.reviews.find((r) => r.deal_id === "d2")!;
+    assert.deepEqual(d2.findings.map((f) => f.rule_id), ["RR-01", "KYC-02"]);
+    assert.equal(d2.rating, "DEFICIENT");
+
+    assert.equal(db.tables.examiner_review_runs.length, 1);
+    assert.equal(db.tables.examiner_review_runs[0].kind, "sample");
+    assert.equal(db.tables.examiner_file_reviews.length, 2);
+    const events = db.tables.deal_events.filter((e) => e.kind === "examiner.file_review.completed");
+    assert.deepEqual(events.map((e) => e.deal_id).sort(), ["d1", "d2"]);
+    assert.equal(events.find((e) => e.deal_id === "d2")!.payload.high_findings, 2);
+
+    const stored = await loadExaminerReviewRun(db as any, { bankId: "b1" });
+    assert.equal(stored!.run.id, result.runId);
+    assert.deepEqual(stored!.reviews.map((r) => r.deal_id), ["d2", "d1"], "worst file first");
+    assert.equal(await loadExaminerReviewRun(db as any, { bankId: "b2" }), null);
+
+    const latest = await loadLatestDealFileReview(db as any, { dealId: "d2", bankId: "b1" });
+    assert.equal(latest!.rating, "DEFICIENT");
+  });
+
+  it("renders a review run into the playbook PDF as section 8", async () => {
+    const pages = (b: Buffer) => (b.toString("latin1").match(/\/Type \/Page[^s]/g) ?? []).length;
+    const playbooks = generateExaminerPlaybooks();
+    const r = review(cleanFile());
+    const defect = cleanFile();
+    defect.decision!.risk_rating = null;
+
+    const report = {
+      run: {
+        id: "run-1", kind: "sample", created_at: AS_OF.toISOString(), sample_size: 2, seed: "s", rules_version: r.rules_version,
+        summary: { files: 2, average_score: 90, by_rating: { SATISFACTORY: 1, NEEDS_IMPROVEMENT: 1, DEFICIENT: 0 }, findings_by_category: {}, top_rules: [] },
+      },
+      reviews: [review(defect), r].map((x) => ({ ...x, sample_reasons: ["RANDOM" as const] })),
+    };
+
+    const plain = await renderPlaybooksPdf(playbooks, "a".repeat(64));
+    const withReview = await renderPlaybooksPdf(playbooks, "a".repeat(64), report);
+    assert.equal(withReview.subarray(0, 5).toString(), "%PDF-");
+    assert.ok(pages(withReview) > pages(plain), `${pages(withReview)} vs ${pages(plain)} pages`);
+  });
+});
@@ -0,0 +1,867 @@
+/**
+ * Examiner file-review rule library — pure.
+ *
+ * Each rule reads one assembled loan file (see runExaminerReview.ts for the
+ * loader) the way a safety-and-soundness or SBA examiner would, and either
+ * passes, fails with findings, or doesn't apply to the file. Findings cite
+ * the ledger events, documents and records they rest on so a reviewer can
+ * pull the exact evidence.
+ *
+ * Rules never read the database and never call the clock: everything they
+ * need is on the ExaminerLoanFile, and "now" is the review's asOf.
+ */
+
+import { APPRAISAL_MAX_AGE_DAYS } from "@/lib/thirdParty/appraisal/appraisalReviewChecklist";
+
+// ── Loan file ────────────────────────────────────────────────────
+
+export type ExaminerLedgerEvent = {
+  ledger: "deal_events" | "ai_events";
+  id: string;
+  kind: string;
+  created_at: string;
+  payload: Record<string, any> | null;
+};
+
+export type ExaminerDocument = {
+  id: string;
+  name: string | null;
+  document_type: string | null;
+  created_at: string | null;
+};
+
+export type ExaminerParty = {
+  participation_id: string;
+  entity_id: string;
+  name: string | null;
+  entity_type: string | null;
+  role_key: string;
+  ownership_pct: number | null;
+  guaranty_type: string | null;
+  guaranty_amount: number | null;
+  completed: boolean;
+  citizenship_status: string | null;
+  /** deal_entity_documents links for this participation. */
+  document_ids: string[];
+};
+
+export type ExaminerPolicyException = {
+  id: string;
+  exception_key: string;
+  title: string;
+  severity: string;
+  status: string;
+  policy_reference: string | null;
+  first_detected_at: string;
+  resolved_at: string | null;
+  actions: Array<{
+    id: string;
+    action_type: string;
+    new_status: string | null;
+    mitigant_text: string | null;
+    rationale_text: string | null;
+    acted_by: string | null;
+    acted_at: string;
+  }>;
+};
+
+export type ExaminerLoanFile = {
+  deal: {
+    id: string;
+    bank_id: string;
+    name: string | null;
+    loan_amount: number | null;
+    is_sba: boolean;
+    created_at: string | null;
+  };
+  /** Latest final decision snapshot, else the latest non-void one. */
+  decision: {
+    id: string;
+    status: string;
+    decision: string;
+    created_at: string;
+    risk_rating: number | null;
+    exception_keys: string[];
+    evidence_count: number;
+  } | null;
+  /** Latest DSCR fact on the deal. */
+  dscr: { value: number; fact_id: string } | null;
+  events: ExaminerLedgerEvent[];
+  documents: ExaminerDocument[];
+  collateral: Array<{
+    id: string;
+    item_type: string;
+    estimated_value: number | null;
+    appraisal_date: string | null;
+  }>;
+  appraisal_reviews: Array<{
+    id: string;
+    collateral_item_id: string | null;
+    status: string;
+    effective_date: string | null;
+    cleared_at: string | null;
+    open_items: string[];
+    created_at: string;
+  }>;
+  exceptions: ExaminerPolicyException[];
+  parties: ExaminerParty[];
+  identity_verifications: Array<{
+    id: string;
+    ownership_entity_id: string;
+    status: string;
+    completed_at: string | null;
+  }>;
+  /** PERSONAL_FINANCIAL_STATEMENT / PERSONAL_INCOME facts, one row per fact. */
+  personal_facts: Array<{
+    id: string;
+    owner_entity_id: string;
+    fact_type: string;
+    period_end: string | null;
+    created_at: string | null;
+  }>;
+};
+
+// ── Findings ─────────────────────────────────────────────────────
+
+export type ExaminerRuleCategory =
+  | "APPRAISAL"
+  | "POLICY_EXCEPTIONS"
+  | "RISK_RATING"
+  | "GUARANTOR"
+  | "SBA"
+  | "BSA_KYC";
+
+export type ExaminerSeverity = "HIGH" | "MEDIUM" | "LOW";
+
+export type ExaminerCitation =
+  | { type: "ledger_event"; ledger: ExaminerLedgerEvent["ledger"]; id: string; kind: string; at: string }
+  | { type: "document"; id: string; name: string | null; document_type: string | null }
+  | { type: "record"; table: string; id: string };
+
+export type ExaminerFinding = {
+  rule_id: string;
+  category: ExaminerRuleCategory;
+  severity: ExaminerSeverity;
+  title: string;
+  detail: string;
+  regulation: string;
+  citations: ExaminerCitation[];
+};
+
+export type ExaminerRuleStatus = "pass" | "fail" | "not_applicable";
+
+export type ExaminerRuleResult = {
+  rule_id: string;
+  category: ExaminerRuleCategory;
+  title: string;
+  regulation: string;
+  status: ExaminerRuleStatus;
+  /** What the rule looked at — on a pass this is the supporting evidence. */
+  evidence: ExaminerCitation[];
+  findings: ExaminerFinding[];
+};
+
+export type ExaminerRuleContext = {
+  /** Review date; stands in for the decision date when the file has no final decision. */
+  asOf: Date;
+};
+
+type RuleIssue = { detail: string; citations?: ExaminerCitation[]; severity?: ExaminerSeverity };
+
+type RuleOutcome =
+  | { status: "not_applicable" }
+  | { status: "evaluated"; issues: RuleIssue[]; evidence: ExaminerCitation[] };
+
+export type ExaminerRule = {
+  id: string;
+  category: ExaminerRuleCategory;
+  title: string;
+  regulation: string;
+  /** Default severity; an issue can raise or lower it. */
+  severity: ExaminerSeverity;
+  evaluate: (file: ExaminerLoanFile, ctx: ExaminerRuleContext) => RuleOutcome;
+};
+
+// ── Thresholds ───────────────────────────────────────────────────
+
+/** 12 CFR 34.43(a)(1) / 323.3(a)(1): commercial real estate appraisal threshold. */
+export const CRE_APPRAISAL_THRESHOLD = 500_000;
+/** SOP 50 10 8: owners of 20% or more must guarantee. */
+export const SBA_GUARANTOR_OWNERSHIP_PCT = 20;
+/** 31 CFR 1010.230: beneficial owners are 25% or more owners. */
+export const CDD_BENEFICIAL_OWNER_PCT = 25;
+/** Guarantor financial statements older than this are stale. */
+export const GUARANTOR_PFS_MAX_AGE_DAYS = 365;
+/** A DSCR below this with a pass-grade rating is an unsupported rating. */
+export const RISK_RATING_MIN_DSCR = 1.0;
+/** Ratings 1–10, higher is riskier; 7 and up are criticized / committee grades. */
+export const CRITICIZED_RISK_RATING = 7;
+
+const ELIGIBLE_CITIZENSHIP = new Set(["us_citizen", "us_national", "lawful_permanent_resident"]);
+const KYC_SUCCESS_STATUSES = new Set(["completed", "approved"]);
+const PFS_DOC_TYPES = new Set(["PFS", "PERSONAL_FINANCIAL_STATEMENT", "SBA_413"]);
+const PERSONAL_INCOME_DOC_TYPES = new Set(["PERSONAL_TAX_RETURN", "IRS_1040", "PERSONAL_INCOME"]);
+const MS_PER_DAY = 86_400_000;
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function ms(iso: string | null | undefined): number | null {
+  if (!iso) return null;
+  const t = Date.parse(iso.length === 10 ? `${iso}T00:00:00Z` : iso);
+  return Number.isFinite(t) ? t : null;
+}
+
+/** The date the credit decision was made, or the review date for an undecided file. */
+export function decisionDate(file: ExaminerLoanFile, ctx: ExaminerRuleContext): number {
+  return (file.decision?.status === "final" ? ms(file.decision.created_at) : null) ?? ctx.asOf.getTime();
+}
+
+function eventCite(e: ExaminerLedgerEvent): ExaminerCitation {
+  return { type: "ledger_event", ledger: e.ledger, id: e.id, kind: e.kind, at: e.created_at };
+}
+
+function docCite(d: ExaminerDocument): ExaminerCitation {
+  return { type: "document", id: d.id, name: d.name, document_type: d.document_type };
+}
+
+function recordCite(table: string, id: string): ExaminerCitation {
+  return { type: "record", table, id };
+}
+
+function decisionCite(file: ExaminerLoanFile): ExaminerCitation[] {
+  return file.decision ? [recordCite("decision_snapshots", file.decision.id)] : [];
+}
+
+function docsOfType(file: ExaminerLoanFile, types: Set<string>): ExaminerDocument[] {
+  return file.documents.filter((d) => d.document_type && types.has(d.document_type.toUpperCase()));
+}
+
+function eventsWhere(file: ExaminerLoanFile, pred: (e: ExaminerLedgerEvent) => boolean): ExaminerLedgerEvent[] {
+  return file.events.filter(pred);
+}
+
+function partyLabel(p: ExaminerParty): string {
+  return p.name ?? p.entity_id.slice(0, 8);
+}
+
+/** One row per entity; an owner who is also a guarantor has two participations. */
+function entities(file: ExaminerLoanFile): Map<string, ExaminerParty[]> {
+  const out = new Map<string, ExaminerParty[]>();
+  for (const p of file.parties) out.set(p.entity_id, [...(out.get(p.entity_id) ?? []), p]);
+  return out;
+}
+
+function ownershipPct(parts: ExaminerParty[]): number {
+  return Math.max(0, ...parts.map((p) => p.ownership_pct ?? 0));
+}
+
+function owners(file: ExaminerLoanFile, minPct: number): ExaminerParty[][] {
+  return [...entities(file).values()].filter((parts) => ownershipPct(parts) >= minPct);
+}
+
+function guarantors(file: ExaminerLoanFile): ExaminerParty[] {
+  return file.parties.filter((p) => p.role_key === "guarantor");
+}
+
+function isPerson(parts: ExaminerParty[]): boolean {
+  return parts.every((p) => !p.entity_type || p.entity_type === "person" || p.entity_type === "individual");
+}
+
+function evaluated(issues: RuleIssue[], evidence: ExaminerCitation[] = []): RuleOutcome {
+  return { status: "evaluated", issues, evidence };
+}
+
+const NOT_APPLICABLE: RuleOutcome = { status: "not_applicable" };
+
+// ── Appraisal ────────────────────────────────────────────────────
+
+const realEstate = (file: ExaminerLoanFile) => file.collateral.filter((c) => c.item_type === "real_estate");
+
+const appraisalRequired: ExaminerRule = {
+  id: "APPR-01",
+  category: "APPRAISAL",
+  title: "Real estate collateral supported by an appraisal",
+  regulation: "12 CFR 34.43(a) / 12 CFR 323.3(a)",
+  severity: "HIGH",
+  evaluate(file) {
+    const items = realEstate(file);
+    if (items.length === 0) return NOT_APPLICABLE;
+    // Below the threshold an evaluation is acceptable; the file isn't held to an appraisal.
+    if ((file.deal.loan_amount ?? 0) <= CRE_APPRAISAL_THRESHOLD) return NOT_APPLICABLE;
+
+    const reports = docsOfType(file, new Set(["APPRAISAL"]));
+    const issues: RuleIssue[] = [];
+    const evidence: ExaminerCitation[] = reports.map(docCite);
+    for (const item of items) {
+      const review = file.appraisal_reviews.find((r) => r.collateral_item_id === item.id);
+      if (review) evidence.push(recordCite("appraisal_reviews", review.id));
+      else if (!item.appraisal_date && reports.length === 0) {
+        issues.push({
+          detail: `Real estate collateral ${item.id.slice(0, 8)} has no appraisal on file for a $${Math.round(file.deal.loan_amount ?? 0).toLocaleString("en-US")} loan.`,
+          citations: [recordCite("deal_collateral_items", item.id)],
+        });
+      }
+    }
+    return evaluated(issues, evidence);
+  },
+};
+
+const appraisalCurrent: ExaminerRule = {
+  id: "APPR-02",
+  category: "APPRAISAL",
+  title: "Appraisal effective date current at approval",
+  regulation: "Interagency Appraisal and Evaluation Guidelines (2010), XV",
+  severity: "MEDIUM",
+  evaluate(file, ctx) {
+    const dated = [
+      ...file.appraisal_reviews
+        .filter((r) => r.effective_date)
+        .map((r) => ({ date: r.effective_date!, cite: recordCite("appraisal_reviews", r.id) })),
+      ...realEstate(file)
+        .filter((c) => c.appraisal_date && !file.appraisal_reviews.some((r) => r.collateral_item_id === c.id))
+        .map((c) => ({ date: c.appraisal_date!, cite: recordCite("deal_collateral_items", c.id) })),
+    ];
+    if (dated.length === 0) return NOT_APPLICABLE;
+
+    const decidedAt = decisionDate(file, ctx);
+    const issues: RuleIssue[] = [];
+    for (const a of dated) {
+      const ageDays = Math.floor((decidedAt - ms(a.date)!) / MS_PER_DAY);
+      if (ageDays > APPRAISAL_MAX_AGE_DAYS) {
+        issues.push({
+          detail: `Appraisal effective ${a.date} was ${ageDays} days old at approval (limit ${APPRAISAL_MAX_AGE_DAYS}) with no re-evaluation.`,
+          citations: [a.cite, ...decisionCite(file)],
+        });
+      }
+    }
+    return evaluated(issues, dated.map((a) => a.cite));
+  },
+};
+
+const appraisalReviewedBeforeApproval: ExaminerRule = {
+  id: "APPR-03",
+  category: "APPRAISAL",
+  title: "Appraisal reviewed before the credit decision",
+  regulation: "Interagency Appraisal and Evaluation Guidelines (2010), XV; 12 CFR 34.44",
+  severity: "MEDIUM",
+  evaluate(file, ctx) {
+    if (file.appraisal_reviews.length === 0) return NOT_APPLICABLE;
+    const decidedAt = decisionDate(file, ctx);
+    const final = file.decision?.status === "final";
+
+    const issues: RuleIssue[] = [];
+    const evidence: ExaminerCitation[] = [];
+    for (const r of file.appraisal_reviews) {
+      const cleared = eventsWhere(
+        file,
+        (e) => e.kind === "third_party.appraisal_review_cleared" && e.payload?.review_id === r.id,
+      );
+      const cites = [recordCite("appraisal_reviews", r.id), ...cleared.map(eventCite)];
+      evidence.push(...cites);
+      if (r.status !== "cleared") {
+        issues.push({
+          detail: `Appraisal review ${r.id.slice(0, 8)} still has open items: ${r.open_items.join(", ") || "unspecified"}.`,
+          citations: [...cites, ...decisionCite(file)],
+          severity: final ? "HIGH" : "MEDIUM",
+        });
+      } else if (final && (ms(r.cleared_at) ?? 0) > decidedAt) {
+        issues.push({
+          detail: `Appraisal review was cleared ${r.cleared_at?.slice(0, 10)}, after the ${file.decision!.created_at.slice(0, 10)} approval.`,
+          citations: [...cites, ...decisionCite(file)],
+        });
+      }
+    }
+    return evaluated(issues, evidence);
+  },
+};
+
+// ── Policy exceptions ────────────────────────────────────────────
+
+const exceptionsDocumented: ExaminerRule = {
+  id: "EXC-01",
+  category: "POLICY_EXCEPTIONS",
+  title: "Policy exceptions carry a mitigant and an approval rationale",
+  regulation: "Interagency Guidelines for Real Estate Lending Policies (12 CFR 34 Subpart D, App. A); OCC Comptroller's Handbook, Loan Portfolio Management",
+  severity: "MEDIUM",
+  evaluate(file) {
+    const live = file.exceptions.filter((x) => x.status !== "resolved");
+    if (live.length === 0) return NOT_APPLICABLE;
+    const final = file.decision?.status === "final";
+
+    const issues: RuleIssue[] = [];
+    for (const x of live) {
+      const cites = [recordCite("deal_policy_exceptions", x.id), ...x.actions.map((a) => recordCite("deal_policy_exception_actions", a.id))];
+      const mitigant = x.actions.some((a) => (a.mitigant_text ?? "").trim().length > 0);
+      const rationale = x.actions.some((a) => (a.rationale_text ?? "").trim().length > 0);
+
+      if (x.status === "open") {
+        if (final) {
+          issues.push({
+            detail: `"${x.title}" was still open when the loan was approved.`,
+            citations: [...cites, ...decisionCite(file)],
+            severity: "HIGH",
+          });
+        }
+        continue;
+      }
+      if (!mitigant) issues.push({ detail: `"${x.title}" is ${x.status} with no documented mitigant.`, citations: cites });
+      if ((x.status === "approved" || x.status === "waived") && !rationale) {
+        issues.push({ detail: `"${x.title}" was ${x.status} without an approval rationale.`, citations: cites });
+      }
+    }
+    return evaluated(issues, live.map((x) => recordCite("deal_policy_exceptions", x.id)));
+  },
+};
+
+const exceptionsInApproval: ExaminerRule = {
+  id: "EXC-02",
+  category: "POLICY_EXCEPTIONS",
+  title: "Exceptions disclosed in the approval",
+  regulation: "OCC Comptroller's Handbook, Commercial Real Estate Lending (exception tracking)",
+  severity: "MEDIUM",
+  evaluate(file, ctx) {
+    if (file.decision?.status !== "final") return NOT_APPLICABLE;
+    const decidedAt = decisionDate(file, ctx);
+    const known = file.exceptions.filter((x) => (ms(x.first_detected_at) ?? Infinity) <= decidedAt);
+    if (known.length === 0) return NOT_APPLICABLE;
+
+    const disclosed = new Set(file.decision.exception_keys);
+    const issues = known
+      .filter((x) => !disclosed.has(x.exception_key))
+      .map((x) => ({
+        detail: `"${x.title}" was identified before approval but is not in the approved decision's exception list.`,
+        citations: [recordCite("deal_policy_exceptions", x.id), ...decisionCite(file)],
+      }));
+    return evaluated(issues, decisionCite(file));
+  },
+};
+
+// ── Risk rating ──────────────────────────────────────────────────
+
+const riskRatingAssigned: ExaminerRule = {
+  id: "RR-01",
+  category: "RISK_RATING",
+  title: "Risk rating assigned at approval",
+  regulation: "Interagency Policy Statement on the Allowance for Credit Losses; OCC Comptroller's Handbook, Rating Credit Risk",
+  severity: "HIGH",
+  evaluate(file) {
+    if (file.decision?.status !== "final") return NOT_APPLICABLE;
+    if (file.decision.risk_rating == null) {
+      return evaluated([{ detail: "The approved decision carries no risk rating.", citations: decisionCite(file) }]);
+    }
+    if (file.decision.evidence_count === 0) {
+      return evaluated([
+        {
+          detail: `Risk rating ${file.decision.risk_rating} was assigned with an empty evidence snapshot.`,
+          citations: decisionCite(file),
+          severity: "LOW",
+        },
+      ]);
+    }
+    return evaluated([], decisionCite(file));
+  },
+};
+
+const riskRatingSupported: ExaminerRule = {
+  id: "RR-02",
+  category: "RISK_RATING",
+  title: "Risk rating supported by repayment capacity",
+  regulation: "OCC Comptroller's Handbook, Rating Credit Risk (primary repayment source)",
+  severity: "MEDIUM",
+  evaluate(file) {
+    const rating = file.decision?.status === "final" ? file.decision.risk_rating : null;
+    if (rating == null || !file.dscr) return NOT_APPLICABLE;
+
+    const cites = [...decisionCite(file), recordCite("deal_financial_facts", file.dscr.fact_id)];
+    if (file.dscr.value < RISK_RATING_MIN_DSCR && rating < CRITICIZED_RISK_RATING) {
+      return evaluated([
+        {
+          detail: `DSCR of ${file.dscr.value.toFixed(2)}x does not cover debt service, yet the loan is rated ${rating} (pass grade).`,
+          citations: cites,
+        },
+      ]);
+    }
+    return evaluated([], cites);
+  },
+};
+
+// ── Guarantors ───────────────────────────────────────────────────
+
+const guarantorFinancialStatement: ExaminerRule = {
+  id: "GUA-01",
+  category: "GUARANTOR",
+  title: "Current financial statement for each guarantor",
+  regulation: "OCC Comptroller's Handbook, Commercial Loans (guarantor analysis); SOP 50 10 8 (SBA Form 413)",
+  severity: "MEDIUM",
+  evaluate(file, ctx) {
+    const gs = guarantors(file);
+    if (gs.length === 0) return NOT_APPLICABLE;
+    const decidedAt = decisionDate(file, ctx);
+
+    const issues: RuleIssue[] = [];
+    const evidence: ExaminerCitation[] = [];
+    for (const g of gs) {
+      const facts = file.personal_facts.filter(
+        (f) => f.owner_entity_id === g.entity_id && f.fact_type === "PERSONAL_FINANCIAL_STATEMENT",
+      );
+      const docs = file.documents.filter(
+        (d) => g.document_ids.includes(d.id) && d.document_type && PFS_DOC_TYPES.has(d.document_type.toUpperCase()),
+      );
+      const dates = [
+        ...facts.map((f) => ms(f.period_end) ?? ms(f.created_at)),
+        ...docs.map((d) => ms(d.created_at)),
+      ].filter((t): t is number => t !== null);
+      const cites = [...facts.map((f) => recordCite("deal_financial_facts", f.id)), ...docs.map(docCite)];
+      evidence.push(...cites);
+
+      if (dates.length === 0) {
+        issues.push({
+          detail: `No personal financial statement on file for guarantor ${partyLabel(g)}.`,
+          citations: [recordCite("deal_entity_participations", g.participation_id)],
+        });
+        continue;
+      }
+      const ageDays = Math.floor((decidedAt - Math.max(...dates)) / MS_PER_DAY);
+      if (ageDays > GUARANTOR_PFS_MAX_AGE_DAYS) {
+        issues.push({
+          detail: `Guarantor ${partyLabel(g)}'s latest financial statement was ${ageDays} days old at approval.`,
+          citations: cites,
+          severity: "LOW",
+        });
+      }
+    }
+    return evaluated(issues, evidence);
+  },
+};
+
+const guarantorIncomeAnalyzed: ExaminerRule = {
+  id: "GUA-02",
+  category: "GUARANTOR",
+  title: "Guarantor income analyzed (global cash flow)",
+  regulation: "Interagency Policy Statement on Prudent Commercial Real Estate Loan Accommodations and Workouts (2023), guarantor support",
+  severity: "MEDIUM",
+  evaluate(file) {
+    const gs = guarantors(file);
+    if (gs.length === 0) return NOT_APPLICABLE;
+
+    const issues: RuleIssue[] = [];
+    const evidence: ExaminerCitation[] = [];
+    for (const g of gs) {
+      const facts = file.personal_facts.filter((f) => f.owner_entity_id === g.entity_id && f.fact_type === "PERSONAL_INCOME");
+      const docs = file.documents.filter(
+        (d) => g.document_ids.includes(d.id) && d.document_type && PERSONAL_INCOME_DOC_TYPES.has(d.document_type.toUpperCase()),
+      );
+      evidence.push(...facts.map((f) => recordCite("deal_financial_facts", f.id)), ...docs.map(docCite));
+      if (facts.length === 0 && docs.length === 0) {
+        issues.push({
+          detail: `No personal income analysis for guarantor ${partyLabel(g)}.`,
+          citations: [recordCite("deal_entity_participations", g.participation_id)],
+        });
+      }
+    }
+    return evaluated(issues, evidence);
+  },
+};
+
+const guarantyTermsDocumented: ExaminerRule = {
+  id: "GUA-03",
+  category: "GUARANTOR",
+  title: "Guaranty type and amount documented",
+  regulation: "OCC Comptroller's Handbook, Commercial Loans (guaranties)",
+  severity: "LOW",
+  evaluate(file) {
+    const gs = guarantors(file);
+    if (gs.length === 0) return NOT_APPLICABLE;
+    const issues: RuleIssue[] = [];
+    for (const g of gs) {
+      const cite = [recordCite("deal_entity_participations", g.participation_id)];
+      if (!g.guaranty_type) issues.push({ detail: `Guaranty type not recorded for ${partyLabel(g)}.`, citations: cite });
+      else if (g.guaranty_type.toLowerCase() === "limited" && g.guaranty_amount == null) {
+        issues.push({ detail: `Limited guaranty from ${partyLabel(g)} has no amount.`, citations: cite });
+      }
+    }
+    return evaluated(issues, gs.map((g) => recordCite("deal_entity_participations", g.participation_id)));
+  },
+};
+
+// ── SBA SOP 50 10 ────────────────────────────────────────────────
+
+const sbaOwnerGuaranties: ExaminerRule = {
+  id: "SBA-01",
+  category: "SBA",
+  title: "Every 20% owner guarantees the loan",
+  regulation: "SBA SOP 50 10 8, Personal Guaranties",
+  severity: "HIGH",
+  evaluate(file) {
+    if (!file.deal.is_sba) return NOT_APPLICABLE;
+    const required = owners(file, SBA_GUARANTOR_OWNERSHIP_PCT);
+    if (required.length === 0) return NOT_APPLICABLE;
+    const issues = required
+      .filter((parts) => !parts.some((p) => p.role_key === "guarantor"))
+      .map((parts) => ({
+        detail: `${partyLabel(parts[0])} owns ${ownershipPct(parts)}% but is not a guarantor.`,
+        citations: parts.map((p) => recordCite("deal_entity_participations", p.participation_id)),
+      }));
+    return evaluated(issues, required.flat().map((p) => recordCite("deal_entity_participations", p.participation_id)));
+  },
+};
+
+function requiredDocumentRule(args: {
+  id: string;
+  title: string;
+  regulation: string;
+  severity: ExaminerSeverity;
+  types: string[];
+  missing: string;
+}): ExaminerRule {
+  const types = new Set(args.types);
+  return {
+    id: args.id,
+    category: "SBA",
+    title: args.title,
+    regulation: args.regulation,
+    severity: args.severity,
+    evaluate(file) {
+      if (!file.deal.is_sba) return NOT_APPLICABLE;
+      const docs = docsOfType(file, types);
+      return docs.length > 0 ? evaluated([], docs.map(docCite)) : evaluated([{ detail: args.missing }]);
+    },
+  };
+}
+
+const sbaBorrowerInformationForm = requiredDocumentRule({
+  id: "SBA-02",
+  title: "Borrower Information Form (SBA Form 1919) on file",
+  regulation: "SBA SOP 50 10 8, Loan Application (Form 1919)",
+  severity: "MEDIUM",
+  types: ["SBA_1919"],
+  missing: "No SBA Form 1919 in the loan file.",
+});
+
+const sbaTaxTranscript = requiredDocumentRule({
+  id: "SBA-03",
+  title: "Tax transcript verification (IRS Form 4506-C)",
+  regulation: "SBA SOP 50 10 8, Verification of Financial Information",
+  severity: "MEDIUM",
+  types: ["IRS_4506C"],
+  missing: "No IRS Form 4506-C tax transcript request in the loan file.",
+});
+
+const sbaCaivrs: ExaminerRule = {
+  id: "SBA-04",
+  category: "SBA",
+  title: "CAIVRS screening for each 20% owner and guarantor",
+  regulation: "SBA SOP 50 10 8, Credit Alert Verification Reporting System; 13 CFR 120.110(q)",
+  severity: "HIGH",
+  evaluate(file) {
+    if (!file.deal.is_sba) return NOT_APPLICABLE;
+    const screened = new Map<string, ExaminerLedgerEvent[]>();
+    for (const e of eventsWhere(file, (e) => e.kind === "caivrs.check_completed")) {
+      const id = String(e.payload?.ownership_entity_id ?? "");
+      screened.set(id, [...(screened.get(id) ?? []), e]);
+    }
+    const subjects = new Map<string, ExaminerParty>();
+    for (const parts of owners(file, SBA_GUARANTOR_OWNERSHIP_PCT)) subjects.set(parts[0].entity_id, parts[0]);
+    for (const g of guarantors(file)) subjects.set(g.entity_id, g);
+    if (subjects.size === 0) return NOT_APPLICABLE;
+
+    const issues: RuleIssue[] = [];
+    const evidence: ExaminerCitation[] = [];
+    for (const [entityId, party] of subjects) {
+      const checks = screened.get(entityId) ?? [];
+      evidence.push(...checks.map(eventCite));
+      if (checks.length === 0) {
+        issues.push({
+          detail: `No CAIVRS check for ${partyLabel(party)}.`,
+          citations: [recordCite("deal_entity_participations", party.participation_id)],
+        });
+      } else if (checks.some((e) => e.payload?.status === "hit")) {
+        issues.push({
+          detail: `CAIVRS returned a hit for ${partyLabel(party)}; the file must show it was cleared.`,
+          citations: checks.map(eventCite),
+          severity: "MEDIUM",
+        });
+      }
+    }
+    return evaluated(issues, evidence);
+  },
+};
+
+const sbaCitizenship: ExaminerRule = {
+  id: "SBA-05",
+  category: "SBA",
+  title: "Ownership eligibility: citizenship and residency",
+  regulation: "SBA SOP 50 10 8, Eligibility (ownership by U.S. citizens, nationals or LPRs); 13 CFR 120.110",
+  severity: "HIGH",
+  evaluate(file) {
+    if (!file.deal.is_sba) return NOT_APPLICABLE;
+    const people = [...entities(file).values()].filter((parts) => ownershipPct(parts) > 0 && isPerson(parts));
+    if (people.length === 0) return NOT_APPLICABLE;
+
+    const issues: RuleIssue[] = [];
+    for (const parts of people) {
+      const status = parts[0].citizenship_status;
+      const cites = [recordCite("ownership_entities", parts[0].entity_id)];
+      if (!status || status === "unknown") {
+        issues.push({ detail: `Citizenship status not documented for owner ${partyLabel(parts[0])}.`, citations: cites, severity: "MEDIUM" });
+      } else if (!ELIGIBLE_CITIZENSHIP.has(status)) {
+        issues.push({ detail: `Owner ${partyLabel(parts[0])} is recorded as ${status}, which is not an eligible status.`, citations: cites });
+      }
+    }
+    return evaluated(issues, people.map((parts) => recordCite("ownership_entities", parts[0].entity_id)));
+  },
+};
+
+const sbaEtran: ExaminerRule = {
+  id: "SBA-06",
+  category: "SBA",
+  title: "E-Tran submission package generated",
+  regulation: "SBA SOP 50 10 8, Loan Submission (E-Tran)",
+  severity: "LOW",
+  evaluate(file) {
+    if (!file.deal.is_sba) return NOT_APPLICABLE;
+    const events = eventsWhere(file, (e) => e.kind === "etran.package.generated");
+    return events.length > 0
+      ? evaluated([], events.map(eventCite))
+      : evaluated([{ detail: "No E-Tran package has been generated for this SBA loan." }]);
+  },
+};
+
+// ── BSA / KYC ────────────────────────────────────────────────────
+
+const beneficialOwnerIdentity: ExaminerRule = {
+  id: "KYC-01",
+  category: "BSA_KYC",
+  title: "Beneficial owners and guarantors identity-verified",
+  regulation: "31 CFR 1020.220 (CIP); 31 CFR 1010.230 (beneficial ownership)",
+  severity: "HIGH",
+  evaluate(file) {
+    const subjects = new Map<string, ExaminerParty>();
+    for (const parts of owners(file, CDD_BENEFICIAL_OWNER_PCT)) if (isPerson(parts)) subjects.set(parts[0].entity_id, parts[0]);
+    for (const g of guarantors(file)) subjects.set(g.entity_id, g);
+    if (subjects.size === 0) return NOT_APPLICABLE;
+
+    const issues: RuleIssue[] = [];
+    const evidence: ExaminerCitation[] = [];
+    for (const [entityId, party] of subjects) {
+      const verified = file.identity_verifications.filter(
+        (v) => v.ownership_entity_id === entityId && KYC_SUCCESS_STATUSES.has(v.status) && v.completed_at,
+      );
+      const ids = new Set(verified.map((v) => v.id));
+      const events = eventsWhere(
+        file,
+        (e) => (e.kind === "kyc.verification_completed" || e.kind === "kyc.verification_approved") && ids.has(e.payload?.verification_id),
+      );
+      evidence.push(...verified.map((v) => recordCite("borrower_identity_verifications", v.id)), ...events.map(eventCite));
+      if (verified.length === 0) {
+        issues.push({
+          detail: `No completed identity verification for ${partyLabel(party)}.`,
+          citations: [recordCite("deal_entity_participations", party.participation_id)],
+        });
+      }
+    }
+    return evaluated(issues, evidence);
+  },
+};
+
+const ofacScreening: ExaminerRule = {
+  id: "KYC-02",
+  category: "BSA_KYC",
+  title: "OFAC screening completed before approval",
+  regulation: "31 CFR Part 501; FFIEC BSA/AML Examination Manual, OFAC",
+  severity: "HIGH",
+  evaluate(file, ctx) {
+    // Evidence is what lib/sanctions/screeningService records: one
+    // sanctions.screening_completed per run (with its open hit count) and
+    // one sanctions.hit_dispositioned per reviewer disposition.
+    const decidedAt = decisionDate(file, ctx);
+    const screenings = eventsWhere(file, (e) => e.kind === "sanctions.screening_completed");
+    const before = screenings.filter((e) => (ms(e.created_at) ?? Infinity) <= decidedAt);
+
+    if (before.length === 0) {
+      return evaluated([
+        {
+          detail:
+            screenings.length > 0
+              ? "OFAC screening was only run after the loan was approved."
+              : "No OFAC screening evidence in the deal ledger.",
+          citations: [...screenings.map(eventCite), ...decisionCite(file)],
+        },
+      ]);
+    }
+
+    // Dispositions only attach to the latest screening's hits, so the
+    // screening in force at approval is the last one before it.
+    const latest = before.reduce((a, b) => ((ms(b.created_at) ?? 0) > (ms(a.created_at) ?? 0) ? b : a));
+    const latestAt = ms(latest.created_at) ?? 0;
+    const dispositions = eventsWhere(
+      file,
+      (e) => e.kind === "sanctions.hit_dispositioned" && (ms(e.created_at) ?? Infinity) >= latestAt && (ms(e.created_at) ?? Infinity) <= decidedAt,
+    );
+    const evidence = [latest, ...dispositions].map(eventCite);
+
+    const trueMatches = dispositions.filter((e) => e.payload?.disposition === "true_match");
+    if (trueMatches.length > 0) {
+      return evaluated(
+        [{ detail: "The loan was approved after OFAC screening confirmed a true match.", citations: trueMatches.map(eventCite) }],
+        evidence,
+      );
+    }
+    const open = Number(latest.payload?.open_hit_count ?? 0) - dispositions.length;
+    if (open > 0) {
+      return evaluated(
+        [
+          {
+            detail: `OFAC screening returned ${open} potential match${open === 1 ? "" : "es"} with no recorded disposition before approval.`,
+            citations: [eventCite(latest), ...decisionCite(file)],
+          },
+        ],
+        evidence,
+      );
+    }
+    return evaluated([], evidence);
+  },
+};
+
+// ── Library ──────────────────────────────────────────────────────
+
+export const EXAMINER_RULES_VERSION = "1";
+
+export const EXAMINER_RULES: readonly ExaminerRule[] = [
+  appraisalRequired,
+  appraisalCurrent,
+  appraisalReviewedBeforeApproval,
+  exceptionsDocumented,
+  exceptionsInApproval,
+  riskRatingAssigned,
+  riskRatingSupported,
+  guarantorFinancialStatement,
+  guarantorIncomeAnalyzed,
+  guarantyTermsDocumented,
+  sbaOwnerGuaranties,
+  sbaBorrowerInformationForm,
+  sbaTaxTranscript,
+  sbaCaivrs,
+  sbaCitizenship,
+  sbaEtran,
+  beneficialOwnerIdentity,
+  ofacScreening,
+];
+
+/** Run one rule and attach its metadata to the outcome. */
+export function runExaminerRule(rule: ExaminerRule, file: ExaminerLoanFile, ctx: ExaminerRuleContext): ExaminerRuleResult {
+  const base = { rule_id: rule.id, category: rule.category, title: rule.title, regulation: rule.regulation };
+  const outcome = rule.evaluate(file, ctx);
+  if (outcome.status === "not_applicable") return { ...base, status: "not_applicable", evidence: [], findings: [] };
+
+  const findings = outcome.issues.map((i) => ({
+    rule_id: rule.id,
+    category: rule.category,
+    severity: i.severity ?? rule.severity,
+    title: rule.title,
+    detail: i.detail,
+    regulation: rule.regulation,
+    citations: i.citations ?? [],
+  }));
+  return { ...base, status: findings.length > 0 ? "fail" : "pass", evidence: outcome.evidence, findings };
+}
@@ -1,16 +1,225 @@
-export function simulateExaminerReview(events: any[]) {
-  const flags: string[] = [];
+/**
+ * Examiner simulator — pure.
+ *
+ * Runs the rule library (examinerRules.ts) over a loan file, scores it, and
+ * picks which files to review the way an examiner scopes a loan review: a
+ * judgmental sample (largest exposures, files with policy exceptions or
+ * criticized ratings, SBA loans) topped up with a seeded random draw from
+ * the rest of the portfolio so the same seed always reproduces the sample.
+ */
 
-  if (!events.some(e => e.kind === "etran.package.generated")) {
-    flags.push("E-Tran package not generated");
+import {
+  EXAMINER_RULES,
+  EXAMINER_RULES_VERSION,
+  CRITICIZED_RISK_RATING,
+  runExaminerRule,
+  type ExaminerFinding,
+  type ExaminerLoanFile,
+  type ExaminerRule,
+  type ExaminerRuleCategory,
+  type ExaminerRuleResult,
+  type ExaminerSeverity,
+} from "./examinerRules";
+
+// ── File review ──────────────────────────────────────────────────
+
+export type ExaminerFileRating = "SATISFACTORY" | "NEEDS_IMPROVEMENT" | "DEFICIENT";
+
+export type ExaminerFileReview = {
+  deal_id: string;
+  reviewed_as_of: string;
+  rules_version: string;
+  score: number;
+  rating: ExaminerFileRating;
+  /** Legacy simulator scale, kept for existing consumers of the simulation event. */
+  risk_level: "LOW" | "MODERATE" | "HIGH";
+  counts: { pass: number; fail: number; not_applicable: number };
+  findings: ExaminerFinding[];
+  rule_results: ExaminerRuleResult[];
+};
+
+/** Points deducted per finding. */
+export const EXAMINER_SEVERITY_WEIGHTS: Record<ExaminerSeverity, number> = { HIGH: 20, MEDIUM: 8, LOW: 3 };
+
+const SEVERITY_ORDER: Record<ExaminerSeverity, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+export function scoreExaminerFindings(findings: ExaminerFinding[]): { score: number; rating: ExaminerFileRating } {
+  const score = Math.max(0, 100 - findings.reduce((s, f) => s + EXAMINER_SEVERITY_WEIGHTS[f.severity], 0));
+  const high = findings.filter((f) => f.severity === "HIGH").length;
+  const rating: ExaminerFileRating =
+    high >= 2 || score < 60 ? "DEFICIENT" : high === 1 || score < 85 ? "NEEDS_IMPROVEMENT" : "SATISFACTORY";
+  return { score, rating };
+}
+
+export function reviewLoanFile(
+  file: ExaminerLoanFile,
+  opts: { asOf: Date; rules?: readonly ExaminerRule[] },
+): ExaminerFileReview {
+  const rule_results = (opts.rules ?? EXAMINER_RULES).map((r) => runExaminerRule(r, file, { asOf: opts.asOf }));
+  const findings = rule_results
+    .flatMap((r) => r.findings)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  const { score, rating } = scoreExaminerFindings(findings);
+
+  return {
+    deal_id: file.deal.id,
+    reviewed_as_of: opts.asOf.toISOString(),
+    rules_version: EXAMINER_RULES_VERSION,
+    score,
+    rating,
+    risk_level: rating === "SATISFACTORY" ? "LOW" : rating === "NEEDS_IMPROVEMENT" ? "MODERATE" : "HIGH",
+    counts: {
+      pass: rule_results.filter((r) => r.status === "pass").length,
+      fail: rule_results.filter((r) => r.status === "fail").length,
+      not_applicable: rule_results.filter((r) => r.status === "not_applicable").length,
+    },
+    findings,
+    rule_results,
+  };
+}
+
+// ── Sampling ─────────────────────────────────────────────────────
+
+export type ExaminerSampleCandidate = {
+  deal_id: string;
+  loan_amount: number | null;
+  is_sba: boolean;
+  exception_count: number;
+  risk_rating: number | null;
+};
+
+export type ExaminerSampleReason = "LARGEST_EXPOSURE" | "POLICY_EXCEPTION" | "CRITICIZED_RATING" | "SBA" | "RANDOM";
+
+export type ExaminerSampleSelection = { deal_id: string; loan_amount: number | null; reasons: ExaminerSampleReason[] };
+
+/** Share of the sample drawn from the largest exposures. */
+export const EXAMINER_LARGEST_SHARE = 0.4;
+/** Most of the sample the SBA stratum may take. */
+export const EXAMINER_SBA_SHARE = 0.2;
+/** Share of the sample held back for the random draw. */
+export const EXAMINER_RANDOM_SHARE = 0.2;
+
+/** mulberry32 seeded by a string hash — deterministic, not cryptographic. */
+function seededRandom(seed: string): () => number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function selectExaminerSample(
+  candidates: ExaminerSampleCandidate[],
+  opts: { size: number; seed: string },
+): ExaminerSampleSelection[] {
+  const size = Math.min(Math.max(0, Math.floor(opts.size)), candidates.length);
+  if (size === 0) return [];
+
+  const byExposure = [...candidates].sort(
+    (a, b) => (b.loan_amount ?? 0) - (a.loan_amount ?? 0) || a.deal_id.localeCompare(b.deal_id),
+  );
+  const largest = new Set(byExposure.slice(0, Math.ceil(size * EXAMINER_LARGEST_SHARE)).map((c) => c.deal_id));
+
+  const reasonsFor = (c: ExaminerSampleCandidate): ExaminerSampleReason[] => {
+    const r: ExaminerSampleReason[] = [];
+    if (largest.has(c.deal_id)) r.push("LARGEST_EXPOSURE");
+    if (c.exception_count > 0) r.push("POLICY_EXCEPTION");
+    if ((c.risk_rating ?? 0) >= CRITICIZED_RISK_RATING) r.push("CRITICIZED_RATING");
+    if (c.is_sba) r.push("SBA");
+    return r;
+  };
+
+  const judgmentalCap = size - Math.min(Math.ceil(size * EXAMINER_RANDOM_SHARE), size);
+  const picked = new Map<string, ExaminerSampleSelection>();
+  const take = (c: ExaminerSampleCandidate, cap: number) => {
+    if (picked.size >= cap || picked.has(c.deal_id)) return;
+    picked.set(c.deal_id, { deal_id: c.deal_id, loan_amount: c.loan_amount, reasons: reasonsFor(c) });
+  };
+
+  for (const c of byExposure) if (largest.has(c.deal_id)) take(c, judgmentalCap);
+  for (const c of byExposure) {
+    if (c.exception_count > 0 || (c.risk_rating ?? 0) >= CRITICIZED_RISK_RATING) take(c, judgmentalCap);
   }
+  const sbaCap = Math.min(judgmentalCap, picked.size + Math.ceil(size * EXAMINER_SBA_SHARE));
+  for (const c of byExposure) if (c.is_sba && !picked.has(c.deal_id)) take(c, sbaCap);
 
-  if (!events.some(e => e.kind === "facts.ingested")) {
-    flags.push("Source documents not verified");
+  // Random draw from everything not yet picked (Fisher–Yates over a stable order).
+  const rest = candidates.filter((c) => !picked.has(c.deal_id)).sort((a, b) => a.deal_id.localeCompare(b.deal_id));
+  const rand = seededRandom(opts.seed);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  for (const c of rest) {
+    if (picked.size >= size) break;
+    picked.set(c.deal_id, { deal_id: c.deal_id, loan_amount: c.loan_amount, reasons: [...reasonsFor(c), "RANDOM"] });
+  }
+
+  return [...picked.values()];
+}
+
+// ── Run summary ──────────────────────────────────────────────────
+
+export type ExaminerReviewSummary = {
+  files: number;
+  average_score: number | null;
+  by_rating: Record<ExaminerFileRating, number>;
+  findings_by_category: Partial<Record<ExaminerRuleCategory, number>>;
+  /** Rules failing most often across the sample, most frequent first. */
+  top_rules: Array<{ rule_id: string; title: string; files: number }>;
+};
+
+export function summarizeExaminerReviews(reviews: ExaminerFileReview[]): ExaminerReviewSummary {
+  const by_rating: Record<ExaminerFileRating, number> = { SATISFACTORY: 0, NEEDS_IMPROVEMENT: 0, DEFICIENT: 0 };
+  const findings_by_category: Partial<Record<ExaminerRuleCategory, number>> = {};
+  const rules = new Map<string, { rule_id: string; title: string; files: number }>();
+
+  for (const r of reviews) {
+    by_rating[r.rating]++;
+    for (const f of r.findings) findings_by_category[f.category] = (findings_by_category[f.category] ?? 0) + 1;
+    for (const rr of r.rule_results) {
+      if (rr.status !== "fail") continue;
+      const row = rules.get(rr.rule_id) ?? { rule_id: rr.rule_id, title: rr.title, files: 0 };
+      row.files++;
+      rules.set(rr.rule_id, row);
+    }
   }
 
   return {
-    risk_level: flags.length ? "MODERATE" : "LOW",
-    flags
+    files: reviews.length,
+    average_score: reviews.length
+      ? Math.round((reviews.reduce((s, r) => s + r.score, 0) / reviews.length) * 10) / 10
+      : null,
+    by_rating,
+    findings_by_category,
+    top_rules: [...rules.values()].sort((a, b) => b.files - a.files || a.rule_id.localeCompare(b.rule_id)).slice(0, 5),
   };
 }
+
+/** A stored run as rendered into the examiner portal and playbook PDF. */
+export type ExaminerReviewReport = {
+  run: {
+    id: string;
+    kind: string;
+    created_at: string;
+    sample_size: number;
+    seed: string | null;
+    rules_version: string;
+    summary: ExaminerReviewSummary;
+  };
+  reviews: Array<{
+    deal_id: string;
+    score: number;
+    rating: ExaminerFileRating;
+    sample_reasons: ExaminerSampleReason[];
+    findings: ExaminerFinding[];
+  }>;
+};
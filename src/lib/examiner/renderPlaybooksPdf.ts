@@ -1,5 +1,7 @@
 import PDFDocument from "pdfkit";
 import type { ExaminerPlaybooks } from "./playbookGenerator";
+import type { ExaminerCitation } from "./examinerRules";
+import type { ExaminerReviewReport } from "./examinerSimulator";
 
 /**
  * Render examiner playbooks to a regulator-grade PDF.
@@ -12,6 +14,10 @@ import type { ExaminerPlaybooks } from "./playbookGenerator";
  * 5. Credit Decision Process
  * 6. Override Handling
  * 7. Audit Artifacts Map
+ * 8. Simulated Loan File Review (only when a review run is passed)
+ *
+ * Section 8 is built from stored examiner_file_reviews, not from the static
+ * playbook, so it is not covered by the playbook hash.
  *
  * Footer (every page):
  *   Buddy Examiner Playbook v1.0 | Generated: <UTC timestamp>
@@ -19,6 +25,7 @@ import type { ExaminerPlaybooks } from "./playbookGenerator";
 export function renderPlaybooksPdf(
   playbooks: ExaminerPlaybooks,
   playbookHash: string,
+  fileReview?: ExaminerReviewReport | null,
 ): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     try {
@@ -26,6 +33,8 @@ export function renderPlaybooksPdf(
       const doc = new PDFDocument({
         size: "LETTER",
         margins: { top: 72, bottom: 72, left: 72, right: 72 },
+        // Footers are stamped after layout (switchToPage), which needs buffered pages.
+        bufferPages: true,
         info: {
           Title: "Examiner Playbook — Buddy The Underwriter",
           Author: "Buddy The Underwriter",
@@ -75,6 +84,7 @@ export function renderPlaybooksPdf(
         "5. Credit Decision Process",
         "6. Override Handling",
         "7. Audit Artifacts Map",
+        ...(fileReview ? ["8. Simulated Loan File Review"] : []),
       ];
       for (const s of sections) {
         doc.text(s);
@@ -129,6 +139,11 @@ export function renderPlaybooksPdf(
         }
       }
 
+      if (fileReview) {
+        doc.addPage();
+        renderFileReviewSection(doc, fileReview);
+      }
+
       // ── Integrity Footer ──────────────────────────────────
       doc.addPage();
       doc.fontSize(16).fillColor("#333333").font("Helvetica-Bold");
@@ -142,6 +157,14 @@ export function renderPlaybooksPdf(
         "The playbook hash below verifies the integrity of this document.",
         { lineGap: 4 },
       );
+      if (fileReview) {
+        doc.moveDown(0.5);
+        doc.text(
+          `Section 8 reports examiner review run ${fileReview.run.id} (rules v${fileReview.run.rules_version}) ` +
+          "from stored file reviews and is not covered by the playbook hash.",
+          { lineGap: 4 },
+        );
+      }
       doc.moveDown(1);
 
       doc.fontSize(12).font("Helvetica-Bold").text("Playbook Hash:");
@@ -157,6 +180,8 @@ export function renderPlaybooksPdf(
       const pageCount = doc.bufferedPageRange().count;
       for (let i = 0; i < pageCount; i++) {
         doc.switchToPage(i);
+        // The footer sits inside the bottom margin; lift it so PDFKit doesn't break to a new page.
+        doc.page.margins.bottom = 0;
         doc.fontSize(7).fillColor("#999999").font("Helvetica");
         doc.text(
           `Page ${i + 1} of ${pageCount} | Buddy Examiner Playbook v${playbooks.playbook_version} | Hash: ${playbookHash.slice(0, 16)}… | ${formatDT(playbooks.generated_at)}`,
@@ -173,6 +198,66 @@ export function renderPlaybooksPdf(
   });
 }
 
+// ── Simulated File Review ────────────────────────────────
+
+function renderFileReviewSection(doc: PDFKit.PDFDocument, report: ExaminerReviewReport): void {
+  const { run, reviews } = report;
+  const s = run.summary;
+  const ensureRoom = () => {
+    if (doc.y > 680) doc.addPage();
+  };
+
+  doc.fontSize(16).fillColor("#333333").font("Helvetica-Bold");
+  doc.text("8. Simulated Loan File Review", { underline: true });
+  doc.moveDown(0.5);
+
+  doc.fontSize(10).font("Helvetica").fillColor("#000000");
+  doc.text(`Run: ${run.id} (${run.kind}) | Reviewed: ${formatDT(run.created_at)} | Rules v${run.rules_version}`);
+  if (run.seed) doc.text(`Sample seed: ${run.seed}`);
+  doc.text(
+    `Files reviewed: ${s.files} | Average score: ${s.average_score ?? "—"} | ` +
+    `Satisfactory ${s.by_rating.SATISFACTORY}, Needs improvement ${s.by_rating.NEEDS_IMPROVEMENT}, Deficient ${s.by_rating.DEFICIENT}`,
+    { lineGap: 2 },
+  );
+  if (s.top_rules.length > 0) {
+    doc.moveDown(0.5);
+    doc.font("Helvetica-Bold").fontSize(12).text("MOST FREQUENT FINDINGS");
+    doc.font("Helvetica").fontSize(10);
+    for (const r of s.top_rules) doc.text(`${r.rule_id}  ${r.title} — ${r.files} file(s)`);
+  }
+
+  for (const review of reviews) {
+    doc.moveDown(0.8);
+    ensureRoom();
+    doc.font("Helvetica-Bold").fontSize(11).fillColor("#333333");
+    doc.text(`Deal ${review.deal_id} — score ${review.score}, ${review.rating.replace(/_/g, " ")}`);
+    doc.font("Helvetica").fontSize(9).fillColor("#666666");
+    if (review.sample_reasons.length > 0) doc.text(`Sampled for: ${review.sample_reasons.join(", ")}`);
+    doc.fillColor("#000000");
+
+    if (review.findings.length === 0) {
+      doc.fontSize(10).text("No findings.");
+      continue;
+    }
+    for (const f of review.findings) {
+      ensureRoom();
+      doc.fontSize(10).font("Helvetica-Bold").text(`[${f.severity}] ${f.rule_id} ${f.title}`, { lineGap: 1 });
+      doc.font("Helvetica").text(f.detail, { indent: 12, lineGap: 1 });
+      doc.fontSize(8).fillColor("#666666").text(f.regulation, { indent: 12 });
+      if (f.citations.length > 0) {
+        doc.text(`Evidence: ${f.citations.map(formatCitation).join("; ")}`, { indent: 12, lineGap: 1 });
+      }
+      doc.fillColor("#000000");
+    }
+  }
+}
+
+function formatCitation(c: ExaminerCitation): string {
+  if (c.type === "ledger_event") return `${c.ledger} ${c.kind} ${c.id}`;
+  if (c.type === "document") return `document ${c.name ?? c.id}${c.document_type ? ` (${c.document_type})` : ""}`;
+  return `${c.table} ${c.id}`;
+}
+
 // ── Helpers ──────────────────────────────────────────────
 
 function formatDT(iso: string): string {
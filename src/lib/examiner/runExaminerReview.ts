@@ -0,0 +1,414 @@
+import "server-only";
+
+/**
+ * Examiner simulator — loader and persistence.
+ *
+ * Assembles an ExaminerLoanFile from the deal's records (decision
+ * snapshots, ledger events, documents, collateral and appraisal reviews,
+ * policy exceptions, parties, identity verifications, personal facts),
+ * runs the rule library over it, and stores the result as an
+ * examiner_review_runs / examiner_file_reviews pair. Every reviewed file
+ * also gets an "examiner.file_review.completed" deal event so the review
+ * shows up in the deal's own ledger.
+ */
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requiresSBAChecklist } from "@/lib/deals/dealProductType";
+import { EXAMINER_RULES_VERSION, type ExaminerLoanFile } from "./examinerRules";
+import {
+  reviewLoanFile,
+  selectExaminerSample,
+  summarizeExaminerReviews,
+  type ExaminerFileReview,
+  type ExaminerReviewReport,
+  type ExaminerReviewSummary,
+  type ExaminerSampleCandidate,
+  type ExaminerSampleReason,
+  type ExaminerSampleSelection,
+} from "./examinerSimulator";
+
+type Row = Record<string, any>;
+
+export const EXAMINER_DEFAULT_SAMPLE_SIZE = 15;
+
+async function rows(query: PromiseLike<{ data: unknown; error: { message: string } | null }>, table: string): Promise<Row[]> {
+  const { data, error } = await query;
+  if (error) throw new Error(`${table}_select_failed:${error.message}`);
+  return (data ?? []) as Row[];
+}
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() !== "" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function exceptionKeys(json: unknown): string[] {
+  if (!Array.isArray(json)) return [];
+  return json
+    .map((x) => (typeof x === "string" ? x : x?.exception_key ?? x?.key ?? x?.rule_key ?? null))
+    .filter((k): k is string => typeof k === "string");
+}
+
+/** Latest final decision, else the latest one that wasn't voided. */
+function pickDecision(snaps: Row[]): Row | null {
+  const live = snaps.filter((s) => s.status !== "void").sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+  return live.find((s) => s.status === "final") ?? live[0] ?? null;
+}
+
+// ── Loader ───────────────────────────────────────────────────────
+
+export async function loadExaminerLoanFile(
+  sb: SupabaseClient,
+  args: { dealId: string; bankId: string },
+): Promise<ExaminerLoanFile | null> {
+  const { dealId, bankId } = args;
+
+  const { data: deal, error: dealErr } = await sb
+    .from("deals")
+    .select("id, bank_id, name, loan_amount, deal_type, product_type, created_at")
+    .eq("id", dealId)
+    .eq("bank_id", bankId)
+    .maybeSingle();
+  if (dealErr) throw new Error(`deals_select_failed:${dealErr.message}`);
+  if (!deal) return null;
+
+  const [snaps, dscrFacts, personalFacts, dealEvents, aiEvents, docs, collateral, appraisals, exceptions, parts, ents, entityDocs, kyc] =
+    await Promise.all([
+      rows(sb.from("decision_snapshots").select("id, status, decision, created_at, policy_eval_json, exceptions_json, evidence_snapshot_json").eq("deal_id", dealId).eq("bank_id", bankId), "decision_snapshots"),
+      rows(sb.from("deal_financial_facts").select("id, fact_value_num, created_at").eq("deal_id", dealId).eq("bank_id", bankId).eq("fact_key", "DSCR").eq("is_superseded", false), "deal_financial_facts"),
+      rows(sb.from("deal_financial_facts").select("id, fact_type, owner_entity_id, fact_period_end, created_at").eq("deal_id", dealId).eq("bank_id", bankId).eq("owner_type", "PERSONAL").eq("is_superseded", false), "deal_financial_facts"),
+      rows(sb.from("deal_events").select("id, kind, payload, created_at").eq("deal_id", dealId), "deal_events"),
+      // The E-Tran populate route still writes to ai_events.
+      rows(sb.from("ai_events").select("id, kind, created_at").eq("deal_id", dealId).eq("kind", "etran.package.generated"), "ai_events"),
+      rows(sb.from("deal_documents").select("id, original_filename, document_type, canonical_type, created_at").eq("deal_id", dealId), "deal_documents"),
+      rows(sb.from("deal_collateral_items").select("id, item_type, estimated_value, appraisal_date").eq("deal_id", dealId), "deal_collateral_items"),
+      rows(sb.from("appraisal_reviews").select("id, collateral_item_id, status, extraction, checklist, cleared_at, created_at").eq("deal_id", dealId).eq("bank_id", bankId), "appraisal_reviews"),
+      rows(sb.from("deal_policy_exceptions").select("id, exception_key, title, severity, status, policy_reference, first_detected_at, resolved_at").eq("deal_id", dealId), "deal_policy_exceptions"),
+      rows(sb.from("deal_entity_participations").select("id, ownership_entity_id, role_key, ownership_pct, guaranty_type, guaranty_amount, completed").eq("deal_id", dealId), "deal_entity_participations"),
+      rows(sb.from("ownership_entities").select("id, display_name, entity_type, citizenship_status").eq("deal_id", dealId), "ownership_entities"),
+      rows(sb.from("deal_entity_documents").select("participation_id, document_id").eq("deal_id", dealId), "deal_entity_documents"),
+      rows(sb.from("borrower_identity_verifications").select("id, ownership_entity_id, status, completed_at").eq("deal_id", dealId), "borrower_identity_verifications"),
+    ]);
+
+  const actions = exceptions.length
+    ? await rows(
+        sb.from("deal_policy_exception_actions")
+          .select("id, exception_id, action_type, new_status, mitigant_text, rationale_text, acted_by, acted_at")
+          .in("exception_id", exceptions.map((x) => x.id)),
+        "deal_policy_exception_actions",
+      )
+    : [];
+
+  const decision = pickDecision(snaps);
+  const dscr = [...dscrFacts]
+    .filter((f) => num(f.fact_value_num) !== null)
+    .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))[0];
+  const entityById = new Map(ents.map((e) => [e.id, e]));
+
+  // One citation per statement: collapse line items to owner × type × period.
+  const personal = new Map<string, Row>();
+  for (const f of personalFacts) {
+    if (f.fact_type !== "PERSONAL_FINANCIAL_STATEMENT" && f.fact_type !== "PERSONAL_INCOME") continue;
+    if (!f.owner_entity_id) continue;
+    const key = `${f.owner_entity_id}|${f.fact_type}|${f.fact_period_end ?? ""}`;
+    if (!personal.has(key)) personal.set(key, f);
+  }
+
+  return {
+    deal: {
+      id: deal.id,
+      bank_id: deal.bank_id,
+      name: deal.name ?? null,
+      loan_amount: num(deal.loan_amount),
+      is_sba: requiresSBAChecklist(deal),
+      created_at: deal.created_at ?? null,
+    },
+    decision: decision
+      ? {
+          id: decision.id,
+          status: decision.status,
+          decision: decision.decision,
+          created_at: decision.created_at,
+          risk_rating: num(decision.policy_eval_json?.risk_rating),
+          exception_keys: exceptionKeys(decision.exceptions_json),
+          evidence_count: Array.isArray(decision.evidence_snapshot_json) ? decision.evidence_snapshot_json.length : 0,
+        }
+      : null,
+    dscr: dscr ? { value: num(dscr.fact_value_num)!, fact_id: dscr.id } : null,
+    events: [
+      ...dealEvents.map((e) => ({ ledger: "deal_events" as const, id: e.id, kind: e.kind, created_at: e.created_at, payload: e.payload ?? null })),
+      ...aiEvents.map((e) => ({ ledger: "ai_events" as const, id: e.id, kind: e.kind, created_at: e.created_at, payload: null })),
+    ],
+    documents: docs.map((d) => ({
+      id: d.id,
+      name: d.original_filename ?? null,
+      document_type: d.canonical_type ?? d.document_type ?? null,
+      created_at: d.created_at ?? null,
+    })),
+    collateral: collateral.map((c) => ({
+      id: c.id,
+      item_type: c.item_type,
+      estimated_value: num(c.estimated_value),
+      appraisal_date: c.appraisal_date ?? null,
+    })),
+    appraisal_reviews: appraisals.map((r) => ({
+      id: r.id,
+      collateral_item_id: r.collateral_item_id ?? null,
+      status: r.status,
+      effective_date: r.extraction?.effectiveDate ?? null,
+      cleared_at: r.cleared_at ?? null,
+      open_items: ((r.checklist ?? []) as Row[]).filter((i) => i.status === "open").map((i) => String(i.key)),
+      created_at: r.created_at,
+    })),
+    exceptions: exceptions.map((x) => ({
+      id: x.id,
+      exception_key: x.exception_key,
+      title: x.title,
+      severity: x.severity,
+      status: x.status,
+      policy_reference: x.policy_reference ?? null,
+      first_detected_at: x.first_detected_at,
+      resolved_at: x.resolved_at ?? null,
+      actions: actions
+        .filter((a) => a.exception_id === x.id)
+        .map((a) => ({
+          id: a.id,
+          action_type: a.action_type,
+          new_status: a.new_status ?? null,
+          mitigant_text: a.mitigant_text ?? null,
+          rationale_text: a.rationale_text ?? null,
+          acted_by: a.acted_by ?? null,
+          acted_at: a.acted_at,
+        })),
+    })),
+    parties: parts.map((p) => {
+      const e = entityById.get(p.ownership_entity_id);
+      return {
+        participation_id: p.id,
+        entity_id: p.ownership_entity_id,
+        name: e?.display_name ?? null,
+        entity_type: e?.entity_type ?? null,
+        role_key: p.role_key,
+        ownership_pct: num(p.ownership_pct),
+        guaranty_type: p.guaranty_type ?? null,
+        guaranty_amount: num(p.guaranty_amount),
+        completed: Boolean(p.completed),
+        citizenship_status: e?.citizenship_status ?? null,
+        document_ids: entityDocs.filter((d) => d.participation_id === p.id).map((d) => d.document_id),
+      };
+    }),
+    identity_verifications: kyc.map((v) => ({
+      id: v.id,
+      ownership_entity_id: v.ownership_entity_id,
+      status: v.status,
+      completed_at: v.completed_at ?? null,
+    })),
+    personal_facts: [...personal.values()].map((f) => ({
+      id: f.id,
+      owner_entity_id: f.owner_entity_id,
+      fact_type: f.fact_type,
+      period_end: f.fact_period_end ?? null,
+      created_at: f.created_at ?? null,
+    })),
+  };
+}
+
+/**
+ * The population an examiner samples from: deals with a final credit
+ * decision, optionally only those decided on or after `since`.
+ */
+export async function loadExaminerSampleUniverse(
+  sb: SupabaseClient,
+  args: { bankId: string; since?: string | null },
+): Promise<ExaminerSampleCandidate[]> {
+  const snaps = await rows(
+    sb.from("decision_snapshots").select("deal_id, status, created_at, policy_eval_json").eq("bank_id", args.bankId).eq("status", "final"),
+    "decision_snapshots",
+  );
+  const latest = new Map<string, Row>();
+  for (const s of snaps) {
+    if (args.since && String(s.created_at) < args.since) continue;
+    const prev = latest.get(s.deal_id);
+    if (!prev || String(s.created_at) > String(prev.created_at)) latest.set(s.deal_id, s);
+  }
+  if (latest.size === 0) return [];
+
+  const ids = [...latest.keys()];
+  const [deals, exceptions] = await Promise.all([
+    rows(sb.from("deals").select("id, loan_amount, deal_type, product_type").eq("bank_id", args.bankId).in("id", ids), "deals"),
+    rows(sb.from("deal_policy_exceptions").select("deal_id, status").in("deal_id", ids), "deal_policy_exceptions"),
+  ]);
+
+  return deals.map((d) => ({
+    deal_id: d.id,
+    loan_amount: num(d.loan_amount),
+    is_sba: requiresSBAChecklist(d),
+    exception_count: exceptions.filter((x) => x.deal_id === d.id && x.status !== "resolved").length,
+    risk_rating: num(latest.get(d.id)?.policy_eval_json?.risk_rating),
+  }));
+}
+
+// ── Runs ─────────────────────────────────────────────────────────
+
+export type ExaminerReviewRunResult = {
+  runId: string;
+  sample: ExaminerSampleSelection[];
+  reviews: Array<ExaminerFileReview & { review_id: string }>;
+  summary: ExaminerReviewSummary;
+  /** Sampled deals whose file could not be loaded. */
+  skipped: string[];
+};
+
+type RunDeps = { newId?: () => string; now?: () => Date };
+
+async function persistRun(
+  sb: SupabaseClient,
+  args: {
+    bankId: string;
+    userId: string | null;
+    kind: "sample" | "single";
+    seed: string | null;
+    sample: ExaminerSampleSelection[];
+    files: ExaminerLoanFile[];
+    asOf: Date;
+  },
+  deps: RunDeps,
+): Promise<ExaminerReviewRunResult> {
+  const newId = deps.newId ?? (() => crypto.randomUUID());
+  const runId = newId();
+  const reasons = new Map<string, ExaminerSampleReason[]>(args.sample.map((s) => [s.deal_id, s.reasons]));
+  const reviews = args.files.map((f) => ({ ...reviewLoanFile(f, { asOf: args.asOf }), review_id: newId() }));
+  const summary = summarizeExaminerReviews(reviews);
+
+  const { error: runErr } = await sb.from("examiner_review_runs").insert({
+    id: runId,
+    bank_id: args.bankId,
+    kind: args.kind,
+    sample_size: args.sample.length,
+    seed: args.seed,
+    sampling: args.sample,
+    summary,
+    rules_version: EXAMINER_RULES_VERSION,
+    created_by: args.userId,
+  });
+  if (runErr) throw new Error(`examiner_review_runs_insert_failed:${runErr.message}`);
+
+  for (const r of reviews) {
+    const { error } = await sb.from("examiner_file_reviews").insert({
+      id: r.review_id,
+      run_id: runId,
+      deal_id: r.deal_id,
+      bank_id: args.bankId,
+      score: r.score,
+      rating: r.rating,
+      risk_level: r.risk_level,
+      sample_reasons: reasons.get(r.deal_id) ?? [],
+      findings: r.findings,
+      rule_results: r.rule_results,
+      rules_version: r.rules_version,
+      reviewed_as_of: r.reviewed_as_of,
+    });
+    if (error) throw new Error(`examiner_file_reviews_insert_failed:${error.message}`);
+
+    await sb.from("deal_events").insert({
+      deal_id: r.deal_id,
+      kind: "examiner.file_review.completed",
+      payload: {
+        run_id: runId,
+        review_id: r.review_id,
+        score: r.score,
+        rating: r.rating,
+        findings: r.findings.length,
+        high_findings: r.findings.filter((f) => f.severity === "HIGH").length,
+        rules_version: r.rules_version,
+      },
+    });
+  }
+
+  const loaded = new Set(args.files.map((f) => f.deal.id));
+  return { runId, sample: args.sample, reviews, summary, skipped: args.sample.map((s) => s.deal_id).filter((id) => !loaded.has(id)) };
+}
+
+/** Review one deal on demand (the per-deal "simulate" action). */
+export async function runExaminerFileReview(
+  sb: SupabaseClient,
+  args: { dealId: string; bankId: string; userId: string | null },
+  deps: RunDeps = {},
+): Promise<ExaminerReviewRunResult | null> {
+  const file = await loadExaminerLoanFile(sb, args);
+  if (!file) return null;
+  const sample: ExaminerSampleSelection[] = [{ deal_id: args.dealId, loan_amount: file.deal.loan_amount, reasons: [] }];
+  return persistRun(
+    sb,
+    { bankId: args.bankId, userId: args.userId, kind: "single", seed: null, sample, files: [file], asOf: (deps.now ?? (() => new Date()))() },
+    deps,
+  );
+}
+
+/** Draw an examiner-style sample across the bank's decided loans and review each file. */
+export async function runExaminerSampleReview(
+  sb: SupabaseClient,
+  args: { bankId: string; userId: string | null; size?: number; seed?: string | null; since?: string | null },
+  deps: RunDeps = {},
+): Promise<ExaminerReviewRunResult> {
+  const asOf = (deps.now ?? (() => new Date()))();
+  const seed = args.seed?.trim() || asOf.toISOString();
+  const universe = await loadExaminerSampleUniverse(sb, { bankId: args.bankId, since: args.since ?? null });
+  const sample = selectExaminerSample(universe, { size: args.size ?? EXAMINER_DEFAULT_SAMPLE_SIZE, seed });
+
+  const files: ExaminerLoanFile[] = [];
+  for (const s of sample) {
+    const file = await loadExaminerLoanFile(sb, { dealId: s.deal_id, bankId: args.bankId });
+    if (file) files.push(file);
+  }
+  return persistRun(sb, { bankId: args.bankId, userId: args.userId, kind: "sample", seed, sample, files, asOf }, deps);
+}
+
+// ── Reads ────────────────────────────────────────────────────────
+
+/** A run (the latest sample run when no id is given) with its file reviews. */
+export async function loadExaminerReviewRun(
+  sb: SupabaseClient,
+  args: { bankId: string; runId?: string | null },
+): Promise<ExaminerReviewReport | null> {
+  let q = sb
+    .from("examiner_review_runs")
+    .select("id, kind, sample_size, seed, sampling, summary, rules_version, created_by, created_at")
+    .eq("bank_id", args.bankId);
+  q = args.runId ? q.eq("id", args.runId) : q.eq("kind", "sample");
+  const runs = await rows(q.order("created_at", { ascending: false }).limit(1), "examiner_review_runs");
+  const run = runs[0];
+  if (!run) return null;
+
+  const reviews = await rows(
+    sb.from("examiner_file_reviews")
+      .select("id, deal_id, score, rating, risk_level, sample_reasons, findings, rules_version, reviewed_as_of")
+      .eq("run_id", run.id)
+      .eq("bank_id", args.bankId),
+    "examiner_file_reviews",
+  );
+  return {
+    run: run as ExaminerReviewReport["run"],
+    reviews: reviews
+      .map((r) => ({ ...r, score: Number(r.score) }) as ExaminerReviewReport["reviews"][number])
+      .sort((a, b) => a.score - b.score),
+  };
+}
+
+/** The deal's most recent file review, whichever run produced it. */
+export async function loadLatestDealFileReview(
+  sb: SupabaseClient,
+  args: { dealId: string; bankId: string },
+): Promise<Row | null> {
+  const found = await rows(
+    sb.from("examiner_file_reviews")
+      .select("id, run_id, score, rating, risk_level, sample_reasons, findings, rules_version, reviewed_as_of, created_at")
+      .eq("deal_id", args.dealId)
+      .eq("bank_id", args.bankId)
+      .order("created_at", { ascending: false })
+      .limit(1),
+    "examiner_file_reviews",
+  );
+  return found[0] ?? null;
+}
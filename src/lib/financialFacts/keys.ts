@@ -2,7 +2,8 @@ import "server-only";
 
 import type { MethodologyProvenance } from "@/lib/methodology/types";
 
-export type FinancialFactSourceType = "SPREAD" | "DOC_EXTRACT" | "MANUAL" | "STRUCTURAL";
+/** CONNECTED_ACCOUNT = pulled from a borrower's accounting system or bank feed (QuickBooks, Plaid) — see connect/connectedFacts.ts. */
+export type FinancialFactSourceType = "SPREAD" | "DOC_EXTRACT" | "MANUAL" | "STRUCTURAL" | "CONNECTED_ACCOUNT";
 
 /**
  * Provenance JSONB stored on deal_financial_facts.provenance.
@@ -73,6 +73,7 @@ export function sourceRank(f: ReconcileFact): number {
   const isGemini = ex.includes("gemini");
 
   if (isTaxReturn && isDeterministic) return 100; // verified tax-return identity
+  if (ex.startsWith("connect.")) return 45; // QuickBooks / Plaid feed — unreviewed books, below extracted documents
   if (sct.includes("financial_statement") || sct.includes("operating")) return 80; // company full-year
   if (isGemini) return 60;
   if (isDeterministic) return 50; // deterministic (consistency checked separately)
@@ -28,6 +28,7 @@ test("AC1: no T12/monthly source + GCF prereqs missing → primary spreads only
   const types = planFactWriteRecomputeSpreadTypes({
     hasT12Source: false,
     gcfPrerequisitesReady: false,
+    ucaCashFlowRequired: false,
   });
   assert.deepEqual(types.sort(), ["BALANCE_SHEET", "STANDARD"]);
   assert.ok(!types.includes("T12" as SpreadType), "annual-statement fact write must not enqueue T12");
@@ -38,7 +39,7 @@ test("Tier-8: STANDARD (Financial Analysis) is always a candidate so fact edits
   for (const t12 of [false, true]) {
     for (const gcf of [false, true]) {
       assert.ok(
-        planFactWriteRecomputeSpreadTypes({ hasT12Source: t12, gcfPrerequisitesReady: gcf }).includes(
+        planFactWriteRecomputeSpreadTypes({ hasT12Source: t12, gcfPrerequisitesReady: gcf, ucaCashFlowRequired: false }).includes(
           "STANDARD" as SpreadType,
         ),
         "STANDARD (primary document-derived spread) must always be a candidate",
@@ -48,24 +49,31 @@ test("Tier-8: STANDARD (Financial Analysis) is always a candidate so fact edits
 });
 
 test("AC2: T12 enqueued only when a real T12/monthly source exists", () => {
-  const without = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false });
+  const without = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false, ucaCashFlowRequired: false });
   assert.ok(!without.includes("T12" as SpreadType));
-  const withSource = planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: false });
+  const withSource = planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: false, ucaCashFlowRequired: false });
   assert.ok(withSource.includes("T12" as SpreadType), "real T12/monthly source allows T12");
 });
 
 test("AC3: GCF enqueued only when prerequisites are ready", () => {
-  const notReady = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false });
+  const notReady = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false, ucaCashFlowRequired: false });
   assert.ok(!notReady.includes("GLOBAL_CASH_FLOW" as SpreadType));
-  const ready = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: true });
+  const ready = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: true, ucaCashFlowRequired: false });
   assert.ok(ready.includes("GLOBAL_CASH_FLOW" as SpreadType), "ready prereqs allow GCF");
 });
 
-test("BALANCE_SHEET is always a candidate; both gates open → all three", () => {
+test("UCA_CASH_FLOW enqueued only when credit policy requires it for the deal", () => {
+  const notRequired = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false, ucaCashFlowRequired: false });
+  assert.ok(!notRequired.includes("UCA_CASH_FLOW" as SpreadType), "UCA must not render on every fact write");
+  const required = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false, ucaCashFlowRequired: true });
+  assert.ok(required.includes("UCA_CASH_FLOW" as SpreadType), "required UCA refreshes with its facts");
+});
+
+test("BALANCE_SHEET is always a candidate; all gates open → all five", () => {
   for (const t12 of [false, true]) {
     for (const gcf of [false, true]) {
       assert.ok(
-        planFactWriteRecomputeSpreadTypes({ hasT12Source: t12, gcfPrerequisitesReady: gcf }).includes(
+        planFactWriteRecomputeSpreadTypes({ hasT12Source: t12, gcfPrerequisitesReady: gcf, ucaCashFlowRequired: false }).includes(
           "BALANCE_SHEET" as SpreadType,
         ),
         "BALANCE_SHEET (primary) always present",
@@ -73,16 +81,16 @@ test("BALANCE_SHEET is always a candidate; both gates open → all three", () =>
     }
   }
   assert.deepEqual(
-    planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: true }).sort(),
-    ["BALANCE_SHEET", "GLOBAL_CASH_FLOW", "STANDARD", "T12"],
+    planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: true, ucaCashFlowRequired: true }).sort(),
+    ["BALANCE_SHEET", "GLOBAL_CASH_FLOW", "STANDARD", "T12", "UCA_CASH_FLOW"],
   );
 });
 
 test("the gated optional spread is exactly T12 (ties to #556)", () => {
-  const onlyWithSource = planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: false })
+  const onlyWithSource = planFactWriteRecomputeSpreadTypes({ hasT12Source: true, gcfPrerequisitesReady: false, ucaCashFlowRequired: false })
     .filter((t) => isOptionalSpreadType(t));
   assert.deepEqual(onlyWithSource, ["T12"]);
-  const none = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false })
+  const none = planFactWriteRecomputeSpreadTypes({ hasT12Source: false, gcfPrerequisitesReady: false, ucaCashFlowRequired: false })
     .filter((t) => isOptionalSpreadType(t));
   assert.deepEqual(none, []);
 });
@@ -108,4 +116,5 @@ test("writeFactsBatch wires both gates and no longer hardcodes the T12/GCF list"
   assert.ok(src.includes("dealHasT12Source"), "must resolve the real-T12-source gate (#556)");
   assert.ok(src.includes("getCanonicalGlobalCashFlow"), "must resolve GCF prerequisites (#554)");
   assert.ok(src.includes("gcfPrerequisitesReady"), "must pass GCF readiness into the planner");
+  assert.ok(src.includes("isUcaCashFlowRequired"), "must gate UCA cash flow on credit policy");
 });
@@ -0,0 +1,349 @@
+/**
+ * Spread workbook export / re-import (lib/financialSpreads/xlsx).
+ *
+ * Formula parity between the spreadsheet expression tables and the
+ * renderers, the exported layout (live formulas, static reported totals,
+ * provenance notes), edit detection by key, and the override import.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import ExcelJS from "exceljs";
+import { mockServerOnly } from "../../../../test/utils/mockServerOnly";
+import type { FinancialFact, RenderedSpread } from "@/lib/financialSpreads/types";
+
+mockServerOnly();
+
+type Row = Record<string, any>;
+
+const DEAL = "11111111-1111-1111-1111-111111111111";
+const BANK = "22222222-2222-2222-2222-222222222222";
+const DOC = "33333333-3333-3333-3333-333333333333";
+
+function fact(key: string, value: number, extra: Partial<FinancialFact> = {}): FinancialFact {
+  return {
+    id: `fact-${key}`,
+    deal_id: DEAL,
+    bank_id: BANK,
+    source_document_id: DOC,
+    fact_type: "BALANCE_SHEET",
+    fact_key: key,
+    fact_period_start: "2024-01-01",
+    fact_period_end: "2024-12-31",
+    fact_value_num: value,
+    fact_value_text: null,
+    currency: "USD",
+    confidence: 0.9,
+    provenance: { source_type: "DOC_EXTRACT", citations: [{ page: 3, snippet: key }] },
+    created_at: "2026-10-01T00:00:00Z",
+    owner_type: "DEAL",
+    owner_entity_id: null,
+    ...extra,
+  };
+}
+
+const BS_FACTS = [
+  fact("CASH_AND_EQUIVALENTS", 100_000),
+  fact("ACCOUNTS_RECEIVABLE", 50_000),
+  fact("INVENTORY", 25_000),
+  fact("PROPERTY_PLANT_EQUIPMENT", 400_000),
+  fact("ACCUMULATED_DEPRECIATION", 150_000),
+  fact("ACCOUNTS_PAYABLE", 40_000),
+  fact("LONG_TERM_DEBT", 200_000),
+  fact("RETAINED_EARNINGS", 185_000),
+  // Reported directly on the statement — must stay a static value.
+  fact("TOTAL_EQUITY", 185_000),
+];
+
+class FakeDb {
+  private seq = 0;
+  constructor(public tables: Record<string, Row[]>) {}
+
+  from = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let op: "select" | "update" | "insert" = "select";
+    let payload: Row = {};
+    const matches = () => (this.tables[table] ?? []).filter((r) => filters.every(([c, v]) => r[c] === v));
+    const run = () => {
+      if (op === "insert") {
+        const row = { id: `${table}-${++this.seq}`, ...payload };
+        (this.tables[table] ??= []).push(row);
+        return { data: [row], error: null };
+      }
+      if (op === "update") for (const r of matches()) Object.assign(r, payload);
+      return { data: matches(), error: null };
+    };
+    const b: any = {
+      select: () => b,
+      insert: (p: Row) => ((op = "insert"), (payload = p), b),
+      update: (p: Row) => ((op = "update"), (payload = p), b),
+      eq: (c: string, v: unknown) => (filters.push([c, v]), b),
+      then: (ok: (v: unknown) => unknown, bad?: (e: unknown) => unknown) => Promise.resolve(run()).then(ok, bad),
+    };
+    return b;
+  };
+}
+
+async function loadWorkbook(buffer: Buffer): Promise<ExcelJS.Workbook> {
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.load(buffer as any);
+  return wb;
+}
+
+/** Find a cell by its hidden row key (column A) and column key (row 1). */
+function cellByKey(ws: ExcelJS.Worksheet, rowKey: string, colKey: string): ExcelJS.Cell {
+  let r = 0;
+  let c = 0;
+  ws.getColumn(1).eachCell((cell, n) => {
+    if (cell.value === rowKey) r = n;
+  });
+  ws.getRow(1).eachCell((cell, n) => {
+    if (cell.value === colKey) c = n;
+  });
+  assert.ok(r && c, `no cell for ${rowKey} / ${colKey}`);
+  return ws.getCell(r, c);
+}
+
+describe("spread workbook", async () => {
+  const { computeFormula, computeT12Formula, FORMULA_EXPR, T12_FORMULA_EXPR } = await import("../formulas");
+  const { balanceSheetTemplate } = await import("../templates/balanceSheet");
+  const { evaluateFormulaExpr, formulaExprToExcel } = await import("../xlsx/formulaExpr");
+  const { renderSpreadWorkbook, detectSpreadWorkbookEdits, SpreadWorkbookError } = await import("../xlsx/spreadWorkbook");
+  const { importSpreadWorkbook } = await import("../xlsx/importSpreadWorkbook");
+
+  const renderBs = (facts: FinancialFact[] = BS_FACTS): RenderedSpread =>
+    balanceSheetTemplate().render({ dealId: DEAL, bankId: BANK, facts });
+
+  const exportBs = (rendered = renderBs()) =>
+    renderSpreadWorkbook([{ spreadType: "BALANCE_SHEET", ownerType: "DEAL", ownerEntityId: null, rendered }], {
+      dealId: DEAL,
+      dealName: "Lone Star Fabrication",
+      sources: {
+        documentNames: { [DOC]: "2024 Balance Sheet.pdf" },
+        factPages: { [`BALANCE_SHEET|CASH_AND_EQUIVALENTS|2024-12-31|${DOC}`]: [3] },
+      },
+      now: new Date("2026-10-19T12:00:00Z"),
+    });
+
+  it("expression tables match computeFormula / computeT12Formula", () => {
+    const t12: Record<string, number> = {
+      GROSS_RENTAL_INCOME: 1_200_000, VACANCY_CONCESSIONS: 60_000, OTHER_INCOME: 15_000,
+      REPAIRS_MAINTENANCE: 40_000, UTILITIES: 55_000, PROPERTY_MANAGEMENT: 48_000, REAL_ESTATE_TAXES: 90_000,
+      INSURANCE: 22_000, PAYROLL: 110_000, MARKETING: 6_000, PROFESSIONAL_FEES: 9_000, OTHER_OPEX: 12_000,
+      REPLACEMENT_RESERVES: 25_000, CAPEX: 30_000,
+    };
+    for (const id of Object.keys(T12_FORMULA_EXPR) as Array<keyof typeof T12_FORMULA_EXPR>) {
+      const expected = computeT12Formula({ formula: id, get: (k) => t12[k] ?? null }).value;
+      assert.equal(evaluateFormulaExpr(T12_FORMULA_EXPR[id], (k) => t12[k] ?? null), expected, id);
+      // Feed computed totals forward the way the template does.
+      t12[id.replace(/^T12_/, "")] = expected!;
+    }
+
+    const inputs = { CASH_FLOW_AVAILABLE: 480_000, ANNUAL_DEBT_SERVICE: 320_000, ANNUAL_DEBT_SERVICE_STRESSED_300BPS: 390_000 };
+    for (const id of Object.keys(FORMULA_EXPR) as Array<keyof typeof FORMULA_EXPR>) {
+      const get = (k: string) => (inputs as Record<string, number>)[k] ?? null;
+      assert.equal(evaluateFormulaExpr(FORMULA_EXPR[id], get), computeFormula(id, inputs).value, id);
+    }
+  });
+
+  it("translates expressions to Excel, guarding divisions and refusing unknown rows", () => {
+    const refs: Record<string, string> = { A: "C4", B: "C5", C: "C6" };
+    assert.equal(formulaExprToExcel("A + B - C", (k) => refs[k] ?? null), "C4+C5-C6");
+    assert.equal(formulaExprToExcel("A / (B + C)", (k) => refs[k] ?? null), 'IFERROR(C4/(C5+C6),"")');
+    assert.equal(formulaExprToExcel("A + EBITDA", (k) => refs[k] ?? null), null);
+    assert.equal(evaluateFormulaExpr("A / B", () => null), null);
+    assert.equal(evaluateFormulaExpr("A / B * 365", (k) => (k === "A" ? 10 : 20)), 182.5);
+  });
+
+  it("exports live formulas that reproduce the balance sheet, with provenance notes", async () => {
+    const rendered = renderBs();
+    const wb = await loadWorkbook(await exportBs(rendered));
+    const ws = wb.getWorksheet("Balance Sheet")!;
+    assert.ok(ws);
+    assert.equal(wb.getWorksheet("_buddy")!.state, "veryHidden");
+
+    const tca = cellByKey(ws, "TOTAL_CURRENT_ASSETS", "2024-12-31").value as ExcelJS.CellFormulaValue;
+    assert.match(tca.formula, /^C\d+\+C\d+\+C\d+\+C\d+\+C\d+$/);
+    assert.equal(tca.result, 175_000);
+
+    const ratio = cellByKey(ws, "CURRENT_RATIO", "2024-12-31").value as ExcelJS.CellFormulaValue;
+    assert.match(ratio.formula, /^IFERROR\(C\d+\/C\d+,""\)$/);
+    assert.equal(ratio.result, 175_000 / 40_000);
+
+    // Rendered values and cached formula results agree row by row.
+    const bsRow = (key: string) => rendered.rows.find((r) => r.key === key)!.values[0] as any;
+    for (const key of ["NET_FIXED_ASSETS", "TOTAL_ASSETS", "TOTAL_LIABILITIES", "NET_WORTH", "DEBT_TO_EQUITY"]) {
+      const v = cellByKey(ws, key, "2024-12-31").value as ExcelJS.CellFormulaValue;
+      assert.ok(v.formula, key);
+      assert.equal(v.result, bsRow(key).valueByCol["2024-12-31"], key);
+    }
+
+    // A total the statement reported is a static value, as in the app.
+    assert.equal(cellByKey(ws, "TOTAL_EQUITY", "2024-12-31").value, 185_000);
+
+    const note = String(cellByKey(ws, "CASH_AND_EQUIVALENTS", "2024-12-31").note);
+    assert.match(note, /Source: 2024 Balance Sheet\.pdf, p\. 3/);
+    assert.match(note, /Fact: BALANCE_SHEET\.CASH_AND_EQUIVALENTS @ 2024-12-31/);
+  });
+
+  it("detects edits by key after rows are inserted", async () => {
+    const wb = await loadWorkbook(await exportBs());
+    const ws = wb.getWorksheet("Balance Sheet")!;
+    ws.insertRow(5, [null, "Analyst scratch line", 1]);
+    cellByKey(ws, "CASH_AND_EQUIVALENTS", "2024-12-31").value = 110_000;
+    cellByKey(ws, "TOTAL_ASSETS", "2024-12-31").value = 500_000;
+    cellByKey(ws, "INVENTORY", "2024-12-31").value = "25,000"; // retyped as text, same value
+
+    const detected = await detectSpreadWorkbookEdits(Buffer.from(await wb.xlsx.writeBuffer()));
+    assert.equal(detected.dealId, DEAL);
+    assert.deepEqual(
+      detected.edits.map((e) => [e.rowKey, e.kind, e.originalValue, e.editedValue]),
+      [
+        ["CASH_AND_EQUIVALENTS", "input", 100_000, 110_000],
+        ["TOTAL_ASSETS", "formula_replaced", 425_000, 500_000],
+      ],
+    );
+    assert.equal(detected.edits[0].fact?.source_document_id, DOC);
+  });
+
+  it("rejects workbooks Buddy didn't export", async () => {
+    const wb = new ExcelJS.Workbook();
+    wb.addWorksheet("Sheet1").getCell("A1").value = 1;
+    await assert.rejects(
+      detectSpreadWorkbookEdits(Buffer.from(await wb.xlsx.writeBuffer())),
+      (e: unknown) => e instanceof SpreadWorkbookError && e.code === "NOT_A_BUDDY_WORKBOOK",
+    );
+  });
+
+  it("sums rent roll totals over unit rows with SUMIF", async () => {
+    const { rentRollTemplate } = await import("../templates/rentRoll");
+    const unit = (id: string, status: "OCCUPIED" | "VACANT", rent: number | null) => ({
+      id, deal_id: DEAL, bank_id: BANK, as_of_date: "2026-09-30", unit_id: id, unit_type: null, sqft: 1000,
+      tenant_name: status === "OCCUPIED" ? `Tenant ${id}` : null, lease_start: null, lease_end: null,
+      monthly_rent: rent, annual_rent: rent === null ? null : rent * 12, market_rent_monthly: null,
+      occupancy_status: status, concessions_monthly: null, notes: null, source_document_id: DOC,
+    });
+    const rendered = rentRollTemplate().render({
+      dealId: DEAL,
+      bankId: BANK,
+      facts: [],
+      rentRollRows: [unit("101", "OCCUPIED", 2000), unit("102", "VACANT", null), unit("103", "OCCUPIED", 2500)],
+    });
+    const buffer = await renderSpreadWorkbook(
+      [{ spreadType: "RENT_ROLL", ownerType: "DEAL", ownerEntityId: null, rendered }],
+      { dealId: DEAL },
+    );
+    const ws = (await loadWorkbook(buffer)).worksheets[0];
+    const occupied = cellByKey(ws, "TOTAL_OCCUPIED", "RENT_MO").value as ExcelJS.CellFormulaValue;
+    assert.match(occupied.formula, /^SUMIF\(E\d+:E\d+,"OCCUPIED",G\d+:G\d+\)$/);
+    assert.equal(occupied.result, 4500);
+    const annual = cellByKey(ws, "TOTALS", "RENT_YR").value as ExcelJS.CellFormulaValue;
+    assert.match(annual.formula, /^SUM\(G\d+:G\d+\)\*12$/);
+  });
+
+  it("imports edits as overrides, applying source-backed inputs as MANUAL facts", async () => {
+    const wb = await loadWorkbook(await exportBs());
+    const ws = wb.getWorksheet("Balance Sheet")!;
+    cellByKey(ws, "CASH_AND_EQUIVALENTS", "2024-12-31").value = 110_000;
+    cellByKey(ws, "TOTAL_ASSETS", "2024-12-31").value = 500_000;
+    const buffer = Buffer.from(await wb.xlsx.writeBuffer());
+
+    const db = new FakeDb({
+      deal_financial_facts: BS_FACTS.map((f) => ({ ...f, is_superseded: false })),
+      deal_spread_overrides: [],
+    });
+    const writes: any[] = [];
+    const enqueued: any[] = [];
+    const deps = {
+      sb: db as any,
+      writeFact: async (a: any) => (writes.push(a), { ok: true as const }),
+      enqueueRecompute: async (a: any) => (enqueued.push(a), { ok: true as const, enqueued: true as const }) as any,
+      newId: (() => {
+        let n = 0;
+        return () => `override-${++n}`;
+      })(),
+    };
+    const args = { dealId: DEAL, bankId: BANK, userId: "user_1", buffer, fileName: "spreads.xlsx" };
+
+    const res = await importSpreadWorkbook(args, deps);
+    assert.deepEqual([res.edits, res.applied, res.recorded, res.failed], [2, 1, 1, 0]);
+    assert.deepEqual(
+      res.overrides.map((o) => [o.rowKey, o.status, o.reason]),
+      [
+        ["CASH_AND_EQUIVALENTS", "applied", null],
+        ["TOTAL_ASSETS", "recorded", "formula_replaced"],
+      ],
+    );
+
+    assert.equal(writes.length, 1);
+    assert.equal(writes[0].factKey, "CASH_AND_EQUIVALENTS");
+    assert.equal(writes[0].factValueNum, 110_000);
+    assert.equal(writes[0].factPeriodEnd, "2024-12-31");
+    assert.equal(writes[0].sourceDocumentId, null);
+    assert.equal(writes[0].provenance.source_type, "MANUAL");
+    assert.equal(writes[0].provenance.source_ref, "deal_spread_overrides:override-1");
+    assert.equal(writes[0].provenance.as_of_date, "2024-12-31");
+
+    const original = db.tables.deal_financial_facts.find((f) => f.fact_key === "CASH_AND_EQUIVALENTS")!;
+    assert.equal(original.is_superseded, true);
+    assert.equal(original.resolution_status, "overridden");
+
+    assert.equal(db.tables.deal_spread_overrides.length, 2);
+    assert.equal(db.tables.deal_spread_overrides[0].source_fact_id, "fact-CASH_AND_EQUIVALENTS");
+    assert.deepEqual(enqueued.map((e) => e.spreadTypes), [["BALANCE_SHEET"]]);
+
+    const again = await importSpreadWorkbook(args, deps);
+    assert.deepEqual([again.alreadyImported, again.applied], [2, 0]);
+    assert.equal(db.tables.deal_spread_overrides.length, 2);
+
+    await assert.rejects(
+      importSpreadWorkbook({ ...args, dealId: "44444444-4444-4444-4444-444444444444" }, deps),
+      (e: unknown) => e instanceof SpreadWorkbookError && e.code === "WORKBOOK_DEAL_MISMATCH",
+    );
+  });
+
+  it("applies a personal sheet edit only to that owner's fact from a shared document", async () => {
+    const OWNER_A = "55555555-5555-5555-5555-555555555555";
+    const OWNER_B = "66666666-6666-6666-6666-666666666666";
+    const personal = (owner: string) =>
+      BS_FACTS.map((f) => ({ ...f, id: `${f.id}-${owner}`, owner_type: "PERSONAL", owner_entity_id: owner }));
+    const wb = await loadWorkbook(
+      await renderSpreadWorkbook(
+        [{ spreadType: "BALANCE_SHEET", ownerType: "PERSONAL", ownerEntityId: OWNER_A, rendered: renderBs(personal(OWNER_A)) }],
+        { dealId: DEAL },
+      ),
+    );
+    cellByKey(wb.worksheets[0], "CASH_AND_EQUIVALENTS", "2024-12-31").value = 110_000;
+    const buffer = Buffer.from(await wb.xlsx.writeBuffer());
+
+    const run = async (facts: FinancialFact[]) => {
+      const db = new FakeDb({
+        deal_financial_facts: facts.map((f) => ({ ...f, is_superseded: false })),
+        deal_spread_overrides: [],
+      });
+      const writes: any[] = [];
+      const res = await importSpreadWorkbook(
+        { dealId: DEAL, bankId: BANK, userId: "user_1", buffer },
+        {
+          sb: db as any,
+          writeFact: async (a: any) => (writes.push(a), { ok: true as const }),
+          enqueueRecompute: async () => ({ ok: true as const, enqueued: true as const }) as any,
+        },
+      );
+      return { db, writes, res };
+    };
+
+    // Joint return: the other owner's fact is listed first.
+    const joint = await run([...personal(OWNER_B), ...personal(OWNER_A)]);
+    assert.equal(joint.res.applied, 1);
+    assert.equal(joint.writes[0].ownerEntityId, OWNER_A);
+    assert.equal(joint.db.tables.deal_spread_overrides[0].source_fact_id, "fact-CASH_AND_EQUIVALENTS-" + OWNER_A);
+    const ownerB = joint.db.tables.deal_financial_facts.find((f) => f.id === "fact-CASH_AND_EQUIVALENTS-" + OWNER_B)!;
+    assert.equal(ownerB.is_superseded, false);
+
+    // Only the other owner's fact exists: rejected, nothing written.
+    const other = await run(personal(OWNER_B));
+    assert.deepEqual(other.res.overrides.map((o) => [o.status, o.reason]), [["recorded", "owner_fact_not_found"]]);
+    assert.equal(other.writes.length, 0);
+    assert.ok(other.db.tables.deal_financial_facts.every((f) => !f.is_superseded));
+  });
+});
@@ -0,0 +1,130 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { ucaCashFlowTemplate } from "@/lib/financialSpreads/templates/ucaCashFlow";
+import type { FinancialFact, RenderedSpread, RenderedSpreadCellV2 } from "@/lib/financialSpreads/types";
+
+function fact(factType: string, key: string, value: number, end: string, start: string | null = null): FinancialFact {
+  return {
+    id: `${factType}-${key}-${end}-${start ?? ""}`,
+    deal_id: "deal-1",
+    bank_id: "bank-1",
+    source_document_id: "doc-1",
+    fact_type: factType,
+    fact_key: key,
+    fact_period_start: start,
+    fact_period_end: end,
+    fact_value_num: value,
+    fact_value_text: null,
+    currency: "USD",
+    confidence: 0.9,
+    provenance: null,
+    created_at: "2026-10-01T00:00:00Z",
+  };
+}
+
+const bs = (end: string, lines: Record<string, number>) =>
+  Object.entries(lines).map(([k, v]) => fact("BALANCE_SHEET", k, v, end));
+
+// Balanced sheets: 2023 assets 1,200 = liabilities 600 + equity 600;
+// 2024 assets 1,370 = liabilities 590 + equity 780 (RE +180 = NI 250 − distributions 70).
+const FY2023 = bs("2023-12-31", {
+  CASH_AND_EQUIVALENTS: 100, ACCOUNTS_RECEIVABLE: 200, INVENTORY: 150,
+  PROPERTY_PLANT_EQUIPMENT: 1000, ACCUMULATED_DEPRECIATION: 300, INTANGIBLE_ASSETS: 50,
+  ACCOUNTS_PAYABLE: 120, ACCRUED_EXPENSES: 30, CURRENT_PORTION_LTD: 50, LONG_TERM_DEBT: 400,
+  COMMON_STOCK: 100, RETAINED_EARNINGS: 500,
+});
+const FY2024 = bs("2024-12-31", {
+  CASH_AND_EQUIVALENTS: 160, ACCOUNTS_RECEIVABLE: 260, INVENTORY: 140,
+  PROPERTY_PLANT_EQUIPMENT: 1150, ACCUMULATED_DEPRECIATION: 380, INTANGIBLE_ASSETS: 40,
+  ACCOUNTS_PAYABLE: 150, ACCRUED_EXPENSES: 40, CURRENT_PORTION_LTD: 50, LONG_TERM_DEBT: 350,
+  COMMON_STOCK: 100, RETAINED_EARNINGS: 680,
+});
+const IS2024 = [
+  ["NET_INCOME", 250], ["DEPRECIATION", 80], ["AMORTIZATION", 10], ["DISTRIBUTIONS", 70],
+  ["TOTAL_REVENUE", 2000], ["COST_OF_GOODS_SOLD", 1200],
+].map(([k, v]) => fact("INCOME_STATEMENT", k as string, v as number, "2024-12-31", "2024-01-01"));
+
+function render(facts: FinancialFact[]): RenderedSpread {
+  return ucaCashFlowTemplate().render({ dealId: "deal-1", bankId: "bank-1", facts });
+}
+
+function value(spread: RenderedSpread, rowKey: string, col = "2024-12-31"): number | null {
+  const row = spread.rows.find((r) => r.key === rowKey);
+  assert.ok(row, `missing row ${rowKey}`);
+  return ((row.values[0] as RenderedSpreadCellV2).valueByCol?.[col] ?? null) as number | null;
+}
+
+test("UCA cash flow derives operations, investing and financing from consecutive balance sheets", () => {
+  const spread = render([...FY2023, ...FY2024, ...IS2024]);
+
+  assert.deepEqual(spread.columnsV2?.map((c) => [c.key, c.start_date]), [["2024-12-31", "2023-12-31"]]);
+
+  assert.equal(value(spread, "UCA_GROSS_OPERATING_CASH_FLOW"), 340);
+  assert.equal(value(spread, "UCA_CHANGE_ACCOUNTS_RECEIVABLE"), -60);
+  assert.equal(value(spread, "UCA_CHANGE_INVENTORY"), 10);
+  assert.equal(value(spread, "UCA_CHANGE_ACCOUNTS_PAYABLE"), 30);
+  assert.equal(value(spread, "UCA_CHANGE_WORKING_CAPITAL"), -10);
+  assert.equal(value(spread, "UCA_CASH_FROM_OPERATIONS"), 330);
+
+  // Net fixed assets +70 with 80 of depreciation → 150 spent.
+  assert.equal(value(spread, "UCA_CAPITAL_EXPENDITURES"), -150);
+  assert.equal(value(spread, "UCA_CHANGE_INTANGIBLES"), 0);
+  assert.equal(value(spread, "UCA_CASH_FROM_INVESTING"), -150);
+
+  assert.equal(value(spread, "UCA_CHANGE_LONG_TERM_DEBT"), -50);
+  assert.equal(value(spread, "UCA_DISTRIBUTIONS"), -70);
+  assert.equal(value(spread, "UCA_OTHER_EQUITY_CHANGES"), 0);
+  assert.equal(value(spread, "UCA_CASH_FROM_FINANCING"), -120);
+});
+
+test("UCA cash flow reconciles to ending balance sheet cash", () => {
+  const spread = render([...FY2023, ...FY2024, ...IS2024]);
+
+  assert.equal(value(spread, "UCA_NET_CHANGE_IN_CASH"), 60);
+  assert.equal(value(spread, "UCA_BEGINNING_CASH"), 100);
+  assert.equal(value(spread, "UCA_ENDING_CASH_CALCULATED"), 160);
+  assert.equal(value(spread, "UCA_ENDING_CASH_REPORTED"), 160);
+  assert.equal(value(spread, "UCA_RECONCILIATION_VARIANCE"), 0);
+  assert.deepEqual(spread.meta?.reconciliation["2024-12-31"], { variance: 0, reconciled: true, period_days: 366 });
+
+  // Drop 2024 accrued expenses: the sheet no longer balances and the break shows up.
+  const broken = render([...FY2023, ...FY2024.filter((f) => !(f.fact_key === "ACCRUED_EXPENSES")), ...IS2024]);
+  assert.equal(value(broken, "UCA_RECONCILIATION_VARIANCE"), 40);
+  assert.equal(broken.meta?.reconciliation["2024-12-31"].reconciled, false);
+});
+
+test("UCA working-capital drivers use ending balances over the period's flows", () => {
+  const spread = render([...FY2023, ...FY2024, ...IS2024]);
+  const near = (a: number | null, b: number) => assert.ok(a !== null && Math.abs(a - b) < 1e-9, `${a} ≠ ${b}`);
+
+  near(value(spread, "UCA_DSO"), (260 / 2000) * 366);
+  near(value(spread, "UCA_DIO"), (140 / 1200) * 366);
+  near(value(spread, "UCA_DPO"), (150 / 1200) * 366);
+  near(value(spread, "UCA_CASH_CONVERSION_CYCLE"), ((260 / 2000) * 366) + ((140 / 1200) * 366) - ((150 / 1200) * 366));
+
+  const dso = spread.rows.find((r) => r.key === "UCA_DSO")!.values[0] as RenderedSpreadCellV2;
+  assert.equal(dso.displayByCol?.["2024-12-31"], "48");
+  const capex = spread.rows.find((r) => r.key === "UCA_CAPITAL_EXPENDITURES")!.values[0] as RenderedSpreadCellV2;
+  assert.equal(capex.displayByCol?.["2024-12-31"], "(150)");
+});
+
+test("UCA cash flow ignores income statement lines that don't cover the interval", () => {
+  const monthly = fact("INCOME_STATEMENT", "NET_INCOME", 25, "2024-12-31", "2024-12-01");
+  const tax = fact("TAX_RETURN", "ORDINARY_BUSINESS_INCOME", 240, "2024-12-31", "2024-01-01");
+
+  const spread = render([...FY2023, ...FY2024, monthly, tax]);
+  assert.equal(value(spread, "UCA_NET_INCOME"), 240, "annual tax return beats a December-only line");
+
+  const withBook = render([...FY2023, ...FY2024, monthly, tax, ...IS2024]);
+  assert.equal(value(withBook, "UCA_NET_INCOME"), 250, "book income statement beats the tax return");
+  const prov = (withBook.rows.find((r) => r.key === "UCA_NET_INCOME")!.values[0] as RenderedSpreadCellV2)
+    .provenanceByCol?.["2024-12-31"];
+  assert.equal(prov.input.fact_type, "INCOME_STATEMENT");
+});
+
+test("UCA cash flow needs two balance sheet dates", () => {
+  const spread = render([...FY2024, ...IS2024]);
+  assert.deepEqual(spread.columnsV2, []);
+  assert.match(String(spread.meta?.note), /two balance sheet dates/);
+});
@@ -196,23 +196,41 @@ export async function writeFactsBatch(args: {
         // gated on a real T12/monthly source) and must NOT enqueue GCF before its
         // upstream prerequisites exist (#554 — no orphan/placeholder GCF rows).
         // BALANCE_SHEET stays a candidate; enqueueSpreadRecompute still gates each
-        // type on its own template prerequisites.
-        const [{ dealHasT12Source }, { getCanonicalGlobalCashFlow }, { planFactWriteRecomputeSpreadTypes }, { enqueueSpreadRecompute }] =
-          await Promise.all([
-            import("@/lib/spreads/t12RecomputeGate"),
-            import("@/lib/financialFacts/getCanonicalGlobalCashFlow"),
-            import("@/lib/financialSpreads/factWriteRecomputePlan"),
-            import("@/lib/financialSpreads/enqueueSpreadRecompute"),
-          ]);
-
-        const [hasT12Source, gcf] = await Promise.all([
+        // type on its own template prerequisites. UCA_CASH_FLOW only where credit
+        // policy requires it for the deal.
+        const [
+          { dealHasT12Source },
+          { getCanonicalGlobalCashFlow },
+          { planFactWriteRecomputeSpreadTypes },
+          { enqueueSpreadRecompute },
+          { isUcaCashFlowRequired },
+        ] = await Promise.all([
+          import("@/lib/spreads/t12RecomputeGate"),
+          import("@/lib/financialFacts/getCanonicalGlobalCashFlow"),
+          import("@/lib/financialSpreads/factWriteRecomputePlan"),
+          import("@/lib/financialSpreads/enqueueSpreadRecompute"),
+          import("@/lib/spreads/businessSpreadContext"),
+        ]);
+
+        const [hasT12Source, gcf, dealRes] = await Promise.all([
           dealHasT12Source(args.dealId),
           getCanonicalGlobalCashFlow(args.dealId, args.bankId),
+          (supabaseAdmin() as any)
+            .from("deals")
+            .select("product_type, deal_mode, loan_amount")
+            .eq("id", args.dealId)
+            .maybeSingle(),
         ]);
+        const dealRow = dealRes?.data ?? null;
 
         const spreadTypes = planFactWriteRecomputeSpreadTypes({
           hasT12Source,
           gcfPrerequisitesReady: gcf.prerequisitesReady,
+          ucaCashFlowRequired: isUcaCashFlowRequired({
+            collateralType: dealRow?.product_type ?? null,
+            dealMode: dealRow?.deal_mode ?? null,
+            loanAmount: dealRow?.loan_amount == null ? null : Number(dealRow.loan_amount),
+          }),
         });
 
         await enqueueSpreadRecompute({
@@ -13,6 +13,11 @@
  *     change; previously it was omitted here and only ever produced by a full
  *     orchestrator run, so incremental fact edits left it stale. Gated on its
  *     own template prerequisites in enqueueSpreadRecompute (default path).
+ *   • UCA_CASH_FLOW — derived from the same balance sheet and income statement
+ *     facts, so it refreshes with them — but only on deals where credit policy
+ *     requires it (isUcaCashFlowRequired: C&I above the loan-amount threshold).
+ *     Enqueuing it on every deal would render a spread nobody asked for on
+ *     each fact write.
  *   • T12 — OPTIONAL / never primary (#556). Must NOT be enqueued from annual
  *     statement / tax-return fact writes unless the deal actually supplied a
  *     real T12 / monthly operating-statement source. Passing T12 explicitly here
@@ -22,8 +27,9 @@
  *     upstream prerequisites are ready; otherwise enqueuing it from a fact write
  *     creates an orphan/placeholder GCF row that can never compute.
  *
- * Resolving `hasT12Source` and `gcfPrerequisitesReady` is the caller's job
- * (server-side); this function only decides the list from those booleans.
+ * Resolving `hasT12Source`, `gcfPrerequisitesReady` and `ucaCashFlowRequired`
+ * is the caller's job (server-side); this function only decides the list from
+ * those booleans.
  */
 
 import type { SpreadType } from "./types";
@@ -31,9 +37,13 @@ import type { SpreadType } from "./types";
 export function planFactWriteRecomputeSpreadTypes(opts: {
   hasT12Source: boolean;
   gcfPrerequisitesReady: boolean;
+  ucaCashFlowRequired: boolean;
 }): SpreadType[] {
   const types: SpreadType[] = ["BALANCE_SHEET", "STANDARD"];
 
+  // UCA cash flow is a policy-driven spread; only deals that require it.
+  if (opts.ucaCashFlowRequired) types.push("UCA_CASH_FLOW");
+
   // T12 is the only optional spread today (#556); gate it on a real source.
   if (opts.hasT12Source) types.push("T12");
 
@@ -108,6 +108,28 @@ const T12_OPEX_KEYS: T12RowKey[] = [
   "OTHER_OPEX",
 ];
 
+/**
+ * Spreadsheet form of each formula — row keys joined by + - * / and
+ * parentheses. The Excel export (xlsx/spreadWorkbook.ts) writes these as
+ * live cell formulas; keep them in step with computeFormula /
+ * computeT12Formula (parity is asserted in spreadWorkbook.test.ts).
+ */
+export const FORMULA_EXPR: Record<FormulaId, string> = {
+  EXCESS_CASH_FLOW: "CASH_FLOW_AVAILABLE - ANNUAL_DEBT_SERVICE",
+  DSCR: "CASH_FLOW_AVAILABLE / ANNUAL_DEBT_SERVICE",
+  DSCR_STRESSED_300BPS: "CASH_FLOW_AVAILABLE / ANNUAL_DEBT_SERVICE_STRESSED_300BPS",
+};
+
+export const T12_FORMULA_EXPR: Record<T12FormulaId, string> = {
+  T12_TOTAL_INCOME: "GROSS_RENTAL_INCOME + OTHER_INCOME - VACANCY_CONCESSIONS",
+  T12_TOTAL_OPEX: T12_OPEX_KEYS.join(" + "),
+  T12_NOI: "TOTAL_INCOME - TOTAL_OPEX",
+  T12_TOTAL_CAPEX: "REPLACEMENT_RESERVES + CAPEX",
+  T12_NET_CASH_FLOW_BEFORE_DEBT: "NOI - TOTAL_CAPEX",
+  T12_OPEX_RATIO: "TOTAL_OPEX / TOTAL_INCOME",
+  T12_NOI_MARGIN: "NOI / TOTAL_INCOME",
+};
+
 export function computeT12Formula(args: {
   formula: T12FormulaId;
   get: (rowKey: T12RowKey) => number | null;
@@ -5,6 +5,7 @@ import { STANDARD_FORMULAS } from "@/lib/financialSpreads/standard/formulas/regi
 import { normalizeFactKey } from "@/lib/finengine/factKeyRegistry";
 import { evaluateMetric } from "@/lib/metrics/evaluateMetric";
 import type { FinancialFact, RenderedSpread, RenderedSpreadCellV2, SpreadColumnV2 } from "@/lib/financialSpreads/types";
+import { isConnectedSourceType, reconcileBookToTax, type BookTaxDelta } from "@/lib/connect/connectedFacts";
 
 export type StandardRenderInput = {
   dealId: string;
@@ -102,8 +103,13 @@ function buildFactsMap(
       } else if ((f.fact_period_end ?? "") > (best.fact_period_end ?? "")) {
         // Later period wins
         best = f;
+      } else if (f.fact_period_end === best.fact_period_end && connectedYieldsToTax(best, f)) {
+        // Same period — book/bank-feed data never displaces a tax-return
+        // figure; the difference is surfaced as a book-vs-tax delta instead
+        best = f;
       } else if (
         f.fact_period_end === best.fact_period_end &&
+        !connectedYieldsToTax(f, best) &&
         (f.confidence ?? 0) > (best.confidence ?? 0)
       ) {
         // Same period — higher confidence wins
@@ -136,6 +142,29 @@ function buildFactsMap(
   return map;
 }
 
+function isTaxSourced(f: FinancialFact): boolean {
+  return f.fact_type.startsWith("TAX_RETURN") || (f.source_canonical_type ?? "").includes("TAX_RETURN");
+}
+
+/** True when `connected` is QuickBooks/Plaid data competing with a tax-return fact. */
+function connectedYieldsToTax(connected: FinancialFact, other: FinancialFact): boolean {
+  return isConnectedSourceType(connected.source_canonical_type) && isTaxSourced(other);
+}
+
+/**
+ * Bank cash-flow and AP aging facts from connected accounts have no standard
+ * spread row — they feed the book-vs-tax reconciliation only, and would
+ * otherwise open empty columns for partial-year periods.
+ */
+const RECONCILIATION_ONLY_FACT_TYPES = new Set(["BANK_CASH_FLOW", "AP_AGING"]);
+
+function formatBookTaxNote(d: BookTaxDelta): string {
+  const source = d.book_source === "PLAID_BANK" ? "Bank deposits" : "Book (QuickBooks)";
+  const pct = d.delta_pct === null ? "" : ` (${d.delta_pct >= 0 ? "+" : ""}${(d.delta_pct * 100).toFixed(1)}%)`;
+  const flag = d.status === "variance" ? ` — exceeds ${(d.tolerance_pct * 100).toFixed(0)}% tolerance` : "";
+  return `FY${d.year} ${source} ${Math.round(d.book_value).toLocaleString("en-US")} vs tax ${Math.round(d.tax_value).toLocaleString("en-US")}${pct}${flag}`;
+}
+
 /** Sentinel dates used as placeholders when real period is unknown. */
 const SENTINEL_DATES = new Set(["1900-01-01", "0001-01-01"]);
 
@@ -314,16 +343,25 @@ function evaluateStructuralExpr(
  */
 export function renderStandardSpread(input: StandardRenderInput): RenderedSpread {
   const generatedAt = new Date().toISOString();
-  const periods = detectPeriods(input.facts);
+  const spreadFacts = input.facts.filter((f) => !RECONCILIATION_ONLY_FACT_TYPES.has(f.fact_type));
+  const periods = detectPeriods(spreadFacts);
 
   // Build per-period fact maps
   const periodFactMaps = new Map<string, Record<string, number | null>>();
   for (const p of periods) {
-    periodFactMaps.set(p.key, buildFactsMap(input.facts, p.end_date));
+    periodFactMaps.set(p.key, buildFactsMap(spreadFacts, p.end_date));
   }
 
   // Also build a "latest" map for single-value lookups
-  const latestFacts = buildFactsMap(input.facts);
+  const latestFacts = buildFactsMap(spreadFacts);
+
+  // Book (QuickBooks) / bank (Plaid) vs tax-return deltas, keyed by spread row
+  const bookTaxDeltas = reconcileBookToTax(input.facts);
+  const deltasByRow = new Map<string, BookTaxDelta[]>();
+  for (const d of bookTaxDeltas) {
+    if (!deltasByRow.has(d.row_key)) deltasByRow.set(d.row_key, []);
+    deltasByRow.get(d.row_key)!.push(d);
+  }
 
   // Sort rows by (statement order within groups, then row order)
   const STATEMENT_ORDER: Record<StandardStatement, number> = {
@@ -433,11 +471,13 @@ export function renderStandardSpread(input: StandardRenderInput): RenderedSpread
       }
     }
 
+    const rowDeltas = deltasByRow.get(row.key) ?? [];
     const cell: RenderedSpreadCellV2 = {
       value: valueByCol[periods[0]?.key] ?? null,
       valueByCol,
       displayByCol,
       formula_ref: row.formulaId ?? null,
+      ...(rowDeltas.length > 0 ? { notes: rowDeltas.map(formatBookTaxNote).join("\n") } : {}),
     };
 
     rows.push({
@@ -464,6 +504,12 @@ export function renderStandardSpread(input: StandardRenderInput): RenderedSpread
       version: 1,
       row_count: STANDARD_ROWS.length,
       period_count: periods.length,
+      ...(bookTaxDeltas.length > 0
+        ? {
+            book_tax_reconciliation: bookTaxDeltas,
+            book_tax_variance_count: bookTaxDeltas.filter((d) => d.status === "variance").length,
+          }
+        : {}),
     },
   };
 }
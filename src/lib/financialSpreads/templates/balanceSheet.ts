@@ -181,6 +181,22 @@ function computeFormula(id: string, vals: ValueMap): number | null {
   }
 }
 
+/** Spreadsheet form of computeFormula, used by the Excel export. */
+export const BS_FORMULA_EXPR: Record<string, string> = {
+  BS_TOTAL_CURRENT_ASSETS: "CASH_AND_EQUIVALENTS + ACCOUNTS_RECEIVABLE + INVENTORY + PREPAID_EXPENSES + OTHER_CURRENT_ASSETS",
+  BS_NET_FIXED_ASSETS: "PROPERTY_PLANT_EQUIPMENT - ACCUMULATED_DEPRECIATION",
+  BS_TOTAL_NON_CURRENT_ASSETS: "NET_FIXED_ASSETS + INVESTMENT_PROPERTIES + INTANGIBLE_ASSETS + OTHER_NON_CURRENT_ASSETS",
+  BS_TOTAL_ASSETS: "TOTAL_CURRENT_ASSETS + TOTAL_NON_CURRENT_ASSETS",
+  BS_TOTAL_CURRENT_LIABILITIES: "ACCOUNTS_PAYABLE + ACCRUED_EXPENSES + SHORT_TERM_DEBT + CURRENT_PORTION_LTD + OTHER_CURRENT_LIABILITIES",
+  BS_TOTAL_NON_CURRENT_LIABILITIES: "LONG_TERM_DEBT + MORTGAGE_PAYABLE + DEFERRED_TAX_LIABILITY + OTHER_NON_CURRENT_LIABILITIES",
+  BS_TOTAL_LIABILITIES: "TOTAL_CURRENT_LIABILITIES + TOTAL_NON_CURRENT_LIABILITIES",
+  BS_TOTAL_EQUITY: "COMMON_STOCK + RETAINED_EARNINGS + PARTNERS_CAPITAL + MEMBERS_EQUITY + OTHER_EQUITY",
+  BS_TOTAL_LIABILITIES_AND_EQUITY: "TOTAL_LIABILITIES + TOTAL_EQUITY",
+  BS_NET_WORTH: "TOTAL_ASSETS - TOTAL_LIABILITIES",
+  BS_CURRENT_RATIO: "TOTAL_CURRENT_ASSETS / TOTAL_CURRENT_LIABILITIES",
+  BS_DEBT_TO_EQUITY: "TOTAL_LIABILITIES / TOTAL_EQUITY",
+};
+
 function formatCurrency(v: number): string {
   return v.toLocaleString("en-US", { maximumFractionDigits: 0 });
 }
@@ -2,7 +2,7 @@ import "server-only";
 
 import type { SpreadTemplate } from "@/lib/financialSpreads/templates/templateTypes";
 import type { FinancialFact, RenderedSpread, RenderedSpreadCellV2 } from "@/lib/financialSpreads/types";
-import { computedCell } from "@/lib/financialSpreads/formulas";
+import { computedCell, FORMULA_EXPR } from "@/lib/financialSpreads/formulas";
 import { factAsOfDate, factToCell, pickLatestFact } from "@/lib/financialSpreads/templateUtils";
 import { GCF_PERSONAL_INCOME_COMPONENT_KEYS } from "@/lib/financialSpreads/gcfPersonalIncome";
 
@@ -71,6 +71,22 @@ function sumPersonalFacts(args: {
   return { value: anyPresent ? total : null, asOf: latestAsOf };
 }
 
+/**
+ * Spreadsheet form of the computed rows below, keyed by row key, used by
+ * the Excel export. Blank inputs count as zero, as in the render.
+ */
+export const GCF_ROW_EXPR: Record<string, string> = {
+  GCF_PROPERTY_CASHFLOW: "CASH_FLOW_AVAILABLE - ANNUAL_DEBT_SERVICE",
+  GCF_CASH_AVAILABLE: "GCF_PERSONAL_INCOME + GCF_PROPERTY_CASHFLOW",
+  GCF_TOTAL_OBLIGATIONS: "GCF_PERSONAL_DEBT_SERVICE + GCF_PERSONAL_LIVING",
+  GCF_GLOBAL_CASH_FLOW: "GCF_CASH_AVAILABLE - GCF_TOTAL_OBLIGATIONS",
+  EXCESS_CASH_FLOW: FORMULA_EXPR.EXCESS_CASH_FLOW,
+  DSCR: FORMULA_EXPR.DSCR,
+  DSCR_STRESSED_300BPS: FORMULA_EXPR.DSCR_STRESSED_300BPS,
+  GCF_DSCR: "GCF_CASH_AVAILABLE / (ANNUAL_DEBT_SERVICE + GCF_PERSONAL_DEBT_SERVICE)",
+  GCF_DSCR_STRESSED: "GCF_CASH_AVAILABLE / (ANNUAL_DEBT_SERVICE_STRESSED_300BPS + GCF_PERSONAL_DEBT_SERVICE)",
+};
+
 function makeCell(value: number | null, asOf: string | null, formulaRef?: string): RenderedSpreadCellV2 {
   return {
     value,
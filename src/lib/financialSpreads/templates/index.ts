@@ -8,6 +8,7 @@ import { personalFinancialStatementTemplate } from "@/lib/financialSpreads/templ
 import { personalIncomeTemplate } from "@/lib/financialSpreads/templates/personalIncome";
 import { rentRollTemplate } from "@/lib/financialSpreads/templates/rentRoll";
 import { t12Template } from "@/lib/financialSpreads/templates/t12";
+import { ucaCashFlowTemplate } from "@/lib/financialSpreads/templates/ucaCashFlow";
 import { renderStandardSpread } from "@/lib/financialSpreads/standard/renderStandardSpread";
 
 function placeholderTemplate(type: SpreadType): SpreadTemplate {
@@ -58,6 +59,7 @@ export function getSpreadTemplate(type: SpreadType): SpreadTemplate | null {
   if (type === "PERSONAL_FINANCIAL_STATEMENT") return personalFinancialStatementTemplate();
   if (type === "T12") return t12Template();
   if (type === "RENT_ROLL") return rentRollTemplate();
+  if (type === "UCA_CASH_FLOW") return ucaCashFlowTemplate();
   if (type === "STANDARD") return standardTemplate();
   if (type === "CLASSIC_PDF") return classicPdfTemplate();
   return null;
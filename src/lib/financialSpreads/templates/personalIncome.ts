@@ -32,6 +32,9 @@ const INCOME_KEYS = [
   "INTEREST_INCOME", "DIVIDEND_INCOME", "CAPITAL_GAINS", "SOCIAL_SECURITY", "OTHER_INCOME",
 ];
 
+/** Spreadsheet form of "SUM(income_components)", used by the Excel export. */
+export const PERSONAL_INCOME_TOTAL_EXPR = INCOME_KEYS.join(" + ");
+
 // Alias fallbacks: resolve old key names → new canonical DB keys.
 // Ensures historical facts written under legacy keys still resolve.
 const KEY_ALIASES: Record<string, string[]> = {
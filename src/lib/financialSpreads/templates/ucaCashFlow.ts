@@ -0,0 +1,439 @@
+import type { SpreadTemplate } from "@/lib/financialSpreads/templates/templateTypes";
+import type { FinancialFact, RenderedSpread, RenderedSpreadCellV2, SpreadColumnV2 } from "@/lib/financialSpreads/types";
+import { balanceSheetTemplate } from "@/lib/financialSpreads/templates/balanceSheet";
+import { factToInputRef } from "@/lib/financialSpreads/templateUtils";
+
+/**
+ * UCA (Uniform Credit Analysis) cash-flow statement — indirect method.
+ *
+ * Each column is the period between two consecutive balance sheets: net
+ * income and non-cash charges from the income statement for that period,
+ * then the balance-sheet changes classified into working capital, investing
+ * and financing. Balance sheet values come from the BALANCE_SHEET template
+ * (reported or computed totals, Schedule L aliases), so the two spreads
+ * always agree.
+ *
+ * Capex and intangible spend are backed into from the change in net
+ * balances plus the period's depreciation / amortization, so a balanced
+ * pair of balance sheets reconciles to ending cash exactly. A variance means
+ * the statements don't tie (an unbalanced sheet, a missing line, or an
+ * income statement that doesn't cover the interval).
+ */
+
+// ---------------------------------------------------------------------------
+// Row registry
+// ---------------------------------------------------------------------------
+
+type UcaRowKey =
+  | "UCA_NET_INCOME"
+  | "UCA_DEPRECIATION"
+  | "UCA_AMORTIZATION"
+  | "UCA_GROSS_OPERATING_CASH_FLOW"
+  | "UCA_CHANGE_ACCOUNTS_RECEIVABLE"
+  | "UCA_CHANGE_INVENTORY"
+  | "UCA_CHANGE_OTHER_CURRENT_ASSETS"
+  | "UCA_CHANGE_ACCOUNTS_PAYABLE"
+  | "UCA_CHANGE_ACCRUED_OTHER_CURRENT_LIABILITIES"
+  | "UCA_CHANGE_WORKING_CAPITAL"
+  | "UCA_CASH_FROM_OPERATIONS"
+  | "UCA_CAPITAL_EXPENDITURES"
+  | "UCA_CHANGE_INTANGIBLES"
+  | "UCA_CHANGE_OTHER_NON_CURRENT_ASSETS"
+  | "UCA_CASH_FROM_INVESTING"
+  | "UCA_CHANGE_SHORT_TERM_DEBT"
+  | "UCA_CHANGE_LONG_TERM_DEBT"
+  | "UCA_CHANGE_OTHER_LIABILITIES"
+  | "UCA_DISTRIBUTIONS"
+  | "UCA_OTHER_EQUITY_CHANGES"
+  | "UCA_CASH_FROM_FINANCING"
+  | "UCA_NET_CHANGE_IN_CASH"
+  | "UCA_BEGINNING_CASH"
+  | "UCA_ENDING_CASH_CALCULATED"
+  | "UCA_ENDING_CASH_REPORTED"
+  | "UCA_RECONCILIATION_VARIANCE"
+  // Working-capital drivers
+  | "UCA_DSO"
+  | "UCA_DIO"
+  | "UCA_DPO"
+  | "UCA_CASH_CONVERSION_CYCLE";
+
+type RowRegistryItem = {
+  key: UcaRowKey;
+  label: string;
+  section: string;
+  order: number;
+  formula?: string;
+  days?: boolean;
+};
+
+const ROWS: RowRegistryItem[] = [
+  // OPERATING
+  { key: "UCA_NET_INCOME", label: "Net Income", section: "OPERATING", order: 10 },
+  { key: "UCA_DEPRECIATION", label: "+ Depreciation", section: "OPERATING", order: 20 },
+  { key: "UCA_AMORTIZATION", label: "+ Amortization", section: "OPERATING", order: 30 },
+  { key: "UCA_GROSS_OPERATING_CASH_FLOW", label: "Gross Operating Cash Flow", section: "OPERATING", order: 40, formula: "UCA_GROSS_OPERATING_CASH_FLOW" },
+  { key: "UCA_CHANGE_ACCOUNTS_RECEIVABLE", label: "(Increase) / Decrease in Accounts Receivable", section: "WORKING_CAPITAL", order: 110, formula: "UCA_CHANGE_ACCOUNTS_RECEIVABLE" },
+  { key: "UCA_CHANGE_INVENTORY", label: "(Increase) / Decrease in Inventory", section: "WORKING_CAPITAL", order: 120, formula: "UCA_CHANGE_INVENTORY" },
+  { key: "UCA_CHANGE_OTHER_CURRENT_ASSETS", label: "(Increase) / Decrease in Prepaids & Other Current Assets", section: "WORKING_CAPITAL", order: 130, formula: "UCA_CHANGE_OTHER_CURRENT_ASSETS" },
+  { key: "UCA_CHANGE_ACCOUNTS_PAYABLE", label: "Increase / (Decrease) in Accounts Payable", section: "WORKING_CAPITAL", order: 140, formula: "UCA_CHANGE_ACCOUNTS_PAYABLE" },
+  { key: "UCA_CHANGE_ACCRUED_OTHER_CURRENT_LIABILITIES", label: "Increase / (Decrease) in Accrued & Other Current Liabilities", section: "WORKING_CAPITAL", order: 150, formula: "UCA_CHANGE_ACCRUED_OTHER_CURRENT_LIABILITIES" },
+  { key: "UCA_CHANGE_WORKING_CAPITAL", label: "Net Change in Operating Working Capital", section: "WORKING_CAPITAL", order: 160, formula: "UCA_CHANGE_WORKING_CAPITAL" },
+  { key: "UCA_CASH_FROM_OPERATIONS", label: "Cash From Operations", section: "WORKING_CAPITAL", order: 200, formula: "UCA_CASH_FROM_OPERATIONS" },
+
+  // INVESTING
+  { key: "UCA_CAPITAL_EXPENDITURES", label: "Capital Expenditures", section: "INVESTING", order: 310, formula: "UCA_CAPITAL_EXPENDITURES" },
+  { key: "UCA_CHANGE_INTANGIBLES", label: "(Increase) / Decrease in Intangibles", section: "INVESTING", order: 320, formula: "UCA_CHANGE_INTANGIBLES" },
+  { key: "UCA_CHANGE_OTHER_NON_CURRENT_ASSETS", label: "(Increase) / Decrease in Other Non-Current Assets", section: "INVESTING", order: 330, formula: "UCA_CHANGE_OTHER_NON_CURRENT_ASSETS" },
+  { key: "UCA_CASH_FROM_INVESTING", label: "Cash From Investing", section: "INVESTING", order: 400, formula: "UCA_CASH_FROM_INVESTING" },
+
+  // FINANCING
+  { key: "UCA_CHANGE_SHORT_TERM_DEBT", label: "Increase / (Decrease) in Short-Term Debt", section: "FINANCING", order: 510, formula: "UCA_CHANGE_SHORT_TERM_DEBT" },
+  { key: "UCA_CHANGE_LONG_TERM_DEBT", label: "Increase / (Decrease) in Long-Term Debt (incl. CPLTD)", section: "FINANCING", order: 520, formula: "UCA_CHANGE_LONG_TERM_DEBT" },
+  { key: "UCA_CHANGE_OTHER_LIABILITIES", label: "Increase / (Decrease) in Other Non-Current Liabilities", section: "FINANCING", order: 530, formula: "UCA_CHANGE_OTHER_LIABILITIES" },
+  { key: "UCA_DISTRIBUTIONS", label: "Dividends / Distributions", section: "FINANCING", order: 540 },
+  { key: "UCA_OTHER_EQUITY_CHANGES", label: "Other Equity Changes", section: "FINANCING", order: 550, formula: "UCA_OTHER_EQUITY_CHANGES" },
+  { key: "UCA_CASH_FROM_FINANCING", label: "Cash From Financing", section: "FINANCING", order: 600, formula: "UCA_CASH_FROM_FINANCING" },
+
+  // RECONCILIATION
+  { key: "UCA_NET_CHANGE_IN_CASH", label: "Net Change in Cash", section: "RECONCILIATION", order: 710, formula: "UCA_NET_CHANGE_IN_CASH" },
+  { key: "UCA_BEGINNING_CASH", label: "Beginning Cash", section: "RECONCILIATION", order: 720 },
+  { key: "UCA_ENDING_CASH_CALCULATED", label: "Ending Cash (Calculated)", section: "RECONCILIATION", order: 730, formula: "UCA_ENDING_CASH_CALCULATED" },
+  { key: "UCA_ENDING_CASH_REPORTED", label: "Ending Cash (Balance Sheet)", section: "RECONCILIATION", order: 740 },
+  { key: "UCA_RECONCILIATION_VARIANCE", label: "Reconciliation Variance", section: "RECONCILIATION", order: 750, formula: "UCA_RECONCILIATION_VARIANCE" },
+
+  // WORKING CAPITAL DRIVERS
+  { key: "UCA_DSO", label: "Days Sales Outstanding (DSO)", section: "DRIVERS", order: 810, formula: "UCA_DSO", days: true },
+  { key: "UCA_DIO", label: "Days Inventory Outstanding (DIO)", section: "DRIVERS", order: 820, formula: "UCA_DIO", days: true },
+  { key: "UCA_DPO", label: "Days Payable Outstanding (DPO)", section: "DRIVERS", order: 830, formula: "UCA_DPO", days: true },
+  { key: "UCA_CASH_CONVERSION_CYCLE", label: "Cash Conversion Cycle", section: "DRIVERS", order: 840, formula: "UCA_CASH_CONVERSION_CYCLE", days: true },
+];
+
+/** Differences within this many dollars are rounding, not a break. */
+export const UCA_RECONCILIATION_TOLERANCE = 1;
+
+// ---------------------------------------------------------------------------
+// Income statement inputs — first alias found wins; a book income statement
+// beats the tax return for the same period (it is what the balance sheet ties to).
+// ---------------------------------------------------------------------------
+
+type IsInputKey = "NET_INCOME" | "DEPRECIATION" | "AMORTIZATION" | "DISTRIBUTIONS" | "TOTAL_REVENUE" | "COST_OF_GOODS_SOLD";
+
+const IS_KEY_ALIASES: Record<IsInputKey, string[]> = {
+  NET_INCOME: ["NET_INCOME", "NET_PROFIT", "ORDINARY_BUSINESS_INCOME"],
+  DEPRECIATION: ["DEPRECIATION"],
+  AMORTIZATION: ["AMORTIZATION"],
+  DISTRIBUTIONS: ["DISTRIBUTIONS", "DIVIDENDS"],
+  TOTAL_REVENUE: ["TOTAL_REVENUE", "GROSS_RECEIPTS", "TOTAL_INCOME"],
+  COST_OF_GOODS_SOLD: ["COST_OF_GOODS_SOLD", "COGS"],
+};
+
+const IS_FACT_TYPES = ["INCOME_STATEMENT", "TAX_RETURN"];
+
+/** An income statement period may start a few days off the prior balance sheet date. */
+const PERIOD_START_SLACK_DAYS = 5;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type ValueMap = Record<string, number | null>;
+
+function safeSum(values: Array<number | null | undefined>): number | null {
+  let s = 0;
+  let any = false;
+  for (const v of values) {
+    if (typeof v === "number" && Number.isFinite(v)) { s += v; any = true; }
+  }
+  return any ? s : null;
+}
+
+function safeDivide(num: number | null, den: number | null): number | null {
+  if (num === null || den === null || den === 0 || !Number.isFinite(num) || !Number.isFinite(den)) return null;
+  return num / den;
+}
+
+/** Sign flip that never yields -0 (an unchanged line shows as 0, not "(0)"). */
+function neg(v: number | null): number | null {
+  return v === null ? null : 0 - v;
+}
+
+/** Sum of the given balance-sheet lines, or null when none were reported. */
+function bsTotal(vals: ValueMap, keys: string[]): number | null {
+  return safeSum(keys.map((k) => vals[k]));
+}
+
+/** Change in a group of balance-sheet lines between two dates. A line missing on one side counts as zero. */
+function change(prev: ValueMap, cur: ValueMap, keys: string[]): number | null {
+  const a = bsTotal(prev, keys);
+  const b = bsTotal(cur, keys);
+  if (a === null && b === null) return null;
+  return (b ?? 0) - (a ?? 0);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+function day(v: string | null | undefined): string | null {
+  return v && /^\d{4}-\d{2}-\d{2}/.test(v) ? v.slice(0, 10) : null;
+}
+
+/**
+ * Income statement facts covering (prevDate, curDate]: period end on the
+ * balance sheet date and, when a start is recorded, starting the day after
+ * the prior balance sheet (so a monthly T12 line never stands in for a year).
+ */
+function pickIncomeFacts(facts: FinancialFact[], prevDate: string, curDate: string): Partial<Record<IsInputKey, FinancialFact>> {
+  const inPeriod = facts.filter((f) => {
+    if (!IS_FACT_TYPES.includes(f.fact_type) || typeof f.fact_value_num !== "number") return false;
+    if (day(f.fact_period_end) !== curDate) return false;
+    const start = day(f.fact_period_start);
+    return start === null || Math.abs(daysBetween(prevDate, start) - 1) <= PERIOD_START_SLACK_DAYS;
+  });
+
+  const picked: Partial<Record<IsInputKey, FinancialFact>> = {};
+  for (const [input, aliases] of Object.entries(IS_KEY_ALIASES) as Array<[IsInputKey, string[]]>) {
+    search: for (const factType of IS_FACT_TYPES) {
+      for (const key of aliases) {
+        const best = inPeriod
+          .filter((f) => f.fact_type === factType && f.fact_key === key)
+          .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))[0];
+        if (best) {
+          picked[input] = best;
+          break search;
+        }
+      }
+    }
+  }
+  return picked;
+}
+
+function computeColumn(prev: ValueMap, cur: ValueMap, is: Partial<Record<IsInputKey, number>>, periodDays: number): ValueMap {
+  const v: ValueMap = {};
+  const ni = is.NET_INCOME ?? null;
+  const dep = is.DEPRECIATION ?? null;
+  const amort = is.AMORTIZATION ?? null;
+  const dist = is.DISTRIBUTIONS ?? null;
+
+  v.UCA_NET_INCOME = ni;
+  v.UCA_DEPRECIATION = dep;
+  v.UCA_AMORTIZATION = amort;
+  v.UCA_GROSS_OPERATING_CASH_FLOW = safeSum([ni, dep, amort]);
+
+  v.UCA_CHANGE_ACCOUNTS_RECEIVABLE = neg(change(prev, cur, ["ACCOUNTS_RECEIVABLE"]));
+  v.UCA_CHANGE_INVENTORY = neg(change(prev, cur, ["INVENTORY"]));
+  v.UCA_CHANGE_OTHER_CURRENT_ASSETS = neg(change(prev, cur, ["PREPAID_EXPENSES", "OTHER_CURRENT_ASSETS"]));
+  v.UCA_CHANGE_ACCOUNTS_PAYABLE = change(prev, cur, ["ACCOUNTS_PAYABLE"]);
+  v.UCA_CHANGE_ACCRUED_OTHER_CURRENT_LIABILITIES = change(prev, cur, ["ACCRUED_EXPENSES", "OTHER_CURRENT_LIABILITIES"]);
+  v.UCA_CHANGE_WORKING_CAPITAL = safeSum([
+    v.UCA_CHANGE_ACCOUNTS_RECEIVABLE,
+    v.UCA_CHANGE_INVENTORY,
+    v.UCA_CHANGE_OTHER_CURRENT_ASSETS,
+    v.UCA_CHANGE_ACCOUNTS_PAYABLE,
+    v.UCA_CHANGE_ACCRUED_OTHER_CURRENT_LIABILITIES,
+  ]);
+  v.UCA_CASH_FROM_OPERATIONS = safeSum([v.UCA_GROSS_OPERATING_CASH_FLOW, v.UCA_CHANGE_WORKING_CAPITAL]);
+
+  // Net balances moved by the period's spend less its non-cash charges.
+  const nfaChange = change(prev, cur, ["NET_FIXED_ASSETS"]);
+  v.UCA_CAPITAL_EXPENDITURES = nfaChange === null && dep === null ? null : neg((nfaChange ?? 0) + (dep ?? 0));
+  const intangiblesChange = change(prev, cur, ["INTANGIBLE_ASSETS"]);
+  v.UCA_CHANGE_INTANGIBLES = intangiblesChange === null && amort === null ? null : neg((intangiblesChange ?? 0) + (amort ?? 0));
+  v.UCA_CHANGE_OTHER_NON_CURRENT_ASSETS = neg(change(prev, cur, ["INVESTMENT_PROPERTIES", "OTHER_NON_CURRENT_ASSETS"]));
+  v.UCA_CASH_FROM_INVESTING = safeSum([v.UCA_CAPITAL_EXPENDITURES, v.UCA_CHANGE_INTANGIBLES, v.UCA_CHANGE_OTHER_NON_CURRENT_ASSETS]);
+
+  v.UCA_CHANGE_SHORT_TERM_DEBT = change(prev, cur, ["SHORT_TERM_DEBT"]);
+  v.UCA_CHANGE_LONG_TERM_DEBT = change(prev, cur, ["CURRENT_PORTION_LTD", "LONG_TERM_DEBT", "MORTGAGE_PAYABLE"]);
+  v.UCA_CHANGE_OTHER_LIABILITIES = change(prev, cur, ["DEFERRED_TAX_LIABILITY", "OTHER_NON_CURRENT_LIABILITIES"]);
+  v.UCA_DISTRIBUTIONS = neg(dist);
+  // Whatever moved equity besides earnings and distributions: contributions, stock issued, adjustments.
+  const equityChange = change(prev, cur, ["EQUITY"]);
+  v.UCA_OTHER_EQUITY_CHANGES = equityChange === null ? null : equityChange - (ni ?? 0) + (dist ?? 0);
+  v.UCA_CASH_FROM_FINANCING = safeSum([
+    v.UCA_CHANGE_SHORT_TERM_DEBT,
+    v.UCA_CHANGE_LONG_TERM_DEBT,
+    v.UCA_CHANGE_OTHER_LIABILITIES,
+    v.UCA_DISTRIBUTIONS,
+    v.UCA_OTHER_EQUITY_CHANGES,
+  ]);
+
+  v.UCA_NET_CHANGE_IN_CASH = safeSum([v.UCA_CASH_FROM_OPERATIONS, v.UCA_CASH_FROM_INVESTING, v.UCA_CASH_FROM_FINANCING]);
+  v.UCA_BEGINNING_CASH = prev.CASH_AND_EQUIVALENTS ?? null;
+  v.UCA_ENDING_CASH_CALCULATED = v.UCA_BEGINNING_CASH === null ? null : safeSum([v.UCA_BEGINNING_CASH, v.UCA_NET_CHANGE_IN_CASH]);
+  v.UCA_ENDING_CASH_REPORTED = cur.CASH_AND_EQUIVALENTS ?? null;
+  v.UCA_RECONCILIATION_VARIANCE =
+    v.UCA_ENDING_CASH_REPORTED === null || v.UCA_ENDING_CASH_CALCULATED === null
+      ? null
+      : v.UCA_ENDING_CASH_REPORTED - v.UCA_ENDING_CASH_CALCULATED;
+
+  // Ending balances over the period's flows, scaled to the period length.
+  const revenue = is.TOTAL_REVENUE ?? null;
+  const cogs = is.COST_OF_GOODS_SOLD ?? null;
+  const days = (num: number | null, den: number | null) => {
+    const r = safeDivide(num, den);
+    return r === null ? null : r * periodDays;
+  };
+  v.UCA_DSO = days(cur.ACCOUNTS_RECEIVABLE ?? null, revenue);
+  v.UCA_DIO = days(cur.INVENTORY ?? null, cogs);
+  v.UCA_DPO = days(cur.ACCOUNTS_PAYABLE ?? null, cogs);
+  v.UCA_CASH_CONVERSION_CYCLE =
+    v.UCA_DSO === null ? null : v.UCA_DSO + (v.UCA_DIO ?? 0) - (v.UCA_DPO ?? 0);
+
+  return v;
+}
+
+function formatCurrency(v: number): string {
+  const s = Math.abs(v).toLocaleString("en-US", { maximumFractionDigits: 0 });
+  return v < 0 ? `(${s})` : s;
+}
+
+function formatDays(v: number): string {
+  return v.toFixed(0);
+}
+
+// ---------------------------------------------------------------------------
+// Template
+// ---------------------------------------------------------------------------
+
+export function ucaCashFlowTemplate(): SpreadTemplate {
+  const title = "UCA Cash Flow";
+
+  return {
+    spreadType: "UCA_CASH_FLOW",
+    title,
+    version: 1,
+    priority: 25,
+    prerequisites: () => ({
+      facts: {
+        fact_types: ["BALANCE_SHEET"],
+        fact_types_any: IS_FACT_TYPES,
+      },
+      note: "Needs two consecutive balance sheets and the income statement for the period between them",
+    }),
+    columns: ["Line Item", "Value"],
+    render: (args): RenderedSpread => {
+      // Resolve balance sheet values exactly as the Balance Sheet spread does.
+      const bs = balanceSheetTemplate().render({ dealId: args.dealId, bankId: args.bankId, facts: args.facts });
+      const bsDates: string[] = ((bs.meta?.as_of_dates ?? []) as string[]).slice().sort();
+      const bsValue = (date: string): ValueMap => {
+        const vals: ValueMap = {};
+        for (const r of bs.rows) {
+          const cell = r.values[0] as RenderedSpreadCellV2;
+          const v = cell?.valueByCol?.[date];
+          vals[r.key] = typeof v === "number" ? v : null;
+        }
+        vals.EQUITY = vals.TOTAL_EQUITY ?? vals.NET_WORTH ?? null;
+        return vals;
+      };
+
+      const valuesByRow: Record<string, Record<string, number | null>> = {};
+      const provenanceByRow: Record<string, Record<string, any>> = {};
+      for (const r of ROWS) {
+        valuesByRow[r.key] = {};
+        provenanceByRow[r.key] = {};
+      }
+
+      // One column per consecutive balance-sheet pair, newest first.
+      const columnsV2: SpreadColumnV2[] = [];
+      const reconciliation: Record<string, { variance: number | null; reconciled: boolean | null; period_days: number }> = {};
+      for (let i = bsDates.length - 1; i >= 1; i--) {
+        const prevDate = bsDates[i - 1];
+        const curDate = bsDates[i];
+        const periodDays = daysBetween(prevDate, curDate);
+        columnsV2.push({ key: curDate, label: curDate, kind: "other", start_date: prevDate, end_date: curDate });
+
+        const isFacts = pickIncomeFacts(args.facts, prevDate, curDate);
+        const isValues: Partial<Record<IsInputKey, number>> = {};
+        for (const [k, f] of Object.entries(isFacts) as Array<[IsInputKey, FinancialFact]>) {
+          isValues[k] = f.fact_value_num as number;
+        }
+
+        const col = computeColumn(bsValue(prevDate), bsValue(curDate), isValues, periodDays);
+        for (const r of ROWS) {
+          valuesByRow[r.key][curDate] = col[r.key] ?? null;
+          if (col[r.key] === null || col[r.key] === undefined) continue;
+          provenanceByRow[r.key][curDate] = r.formula
+            ? { source: "Formula", formula: r.formula }
+            : { source: "BALANCE_SHEET", as_of_dates: [prevDate, curDate] };
+        }
+        const isRows: Array<[UcaRowKey, IsInputKey]> = [
+          ["UCA_NET_INCOME", "NET_INCOME"],
+          ["UCA_DEPRECIATION", "DEPRECIATION"],
+          ["UCA_AMORTIZATION", "AMORTIZATION"],
+          ["UCA_DISTRIBUTIONS", "DISTRIBUTIONS"],
+        ];
+        for (const [rowKey, input] of isRows) {
+          const f = isFacts[input];
+          provenanceByRow[rowKey][curDate] = f ? { source: f.fact_type, input: factToInputRef(f) } : null;
+        }
+        for (const rowKey of ["UCA_BEGINNING_CASH", "UCA_ENDING_CASH_REPORTED"] as const) {
+          if (valuesByRow[rowKey][curDate] === null) continue;
+          provenanceByRow[rowKey][curDate] = {
+            source: "BALANCE_SHEET",
+            as_of_date: rowKey === "UCA_BEGINNING_CASH" ? prevDate : curDate,
+          };
+        }
+
+        const variance = col.UCA_RECONCILIATION_VARIANCE;
+        reconciliation[curDate] = {
+          variance,
+          reconciled: variance === null ? null : Math.abs(variance) <= UCA_RECONCILIATION_TOLERANCE,
+          period_days: periodDays,
+        };
+      }
+
+      const rows = ROWS
+        .slice()
+        .sort((a, b) => a.order - b.order)
+        .map((r) => {
+          const valuesByCol: Record<string, number | null> = {};
+          const displayByCol: Record<string, string | null> = {};
+          const provByCol: Record<string, any> = {};
+
+          for (const c of columnsV2) {
+            const v = valuesByRow[r.key]?.[c.key] ?? null;
+            valuesByCol[c.key] = v;
+            provByCol[c.key] = provenanceByRow[r.key]?.[c.key] ?? null;
+            displayByCol[c.key] = v === null ? null : r.days ? formatDays(v) : formatCurrency(v);
+          }
+
+          const cell: RenderedSpreadCellV2 = {
+            value: columnsV2.length === 1 ? (valuesByCol[columnsV2[0].key] ?? null) : null,
+            valueByCol: valuesByCol,
+            displayByCol,
+            provenanceByCol: provByCol,
+          };
+
+          return {
+            key: r.key,
+            label: r.label,
+            section: r.section,
+            values: [cell],
+            formula: r.formula ?? null,
+          };
+        });
+
+      return {
+        schema_version: 3,
+        schemaVersion: 1,
+        title,
+        spread_type: "UCA_CASH_FLOW",
+        status: "ready",
+        generatedAt: new Date().toISOString(),
+        asOf: columnsV2[0]?.key ?? null,
+        columns: ["Line Item", ...columnsV2.map((c) => c.label)],
+        columnsV2,
+        rows,
+        meta: {
+          template: "uca_cash_flow_v1",
+          version: 1,
+          row_registry: ROWS.map((r) => r.key),
+          column_registry: columnsV2.map((c) => c.key),
+          balance_sheet_dates: bsDates,
+          reconciliation,
+          ...(columnsV2.length === 0 ? { note: "Needs two balance sheet dates to derive a cash flow period" } : {}),
+        },
+      };
+    },
+  };
+}
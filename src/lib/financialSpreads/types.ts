@@ -1,4 +1,4 @@
-export type SpreadType = "T12" | "RENT_ROLL" | "GLOBAL_CASH_FLOW" | "BALANCE_SHEET" | "PERSONAL_INCOME" | "PERSONAL_FINANCIAL_STATEMENT" | "STANDARD" | "CLASSIC_PDF";
+export type SpreadType = "T12" | "RENT_ROLL" | "GLOBAL_CASH_FLOW" | "BALANCE_SHEET" | "PERSONAL_INCOME" | "PERSONAL_FINANCIAL_STATEMENT" | "STANDARD" | "CLASSIC_PDF" | "UCA_CASH_FLOW";
 
 /** Runtime constant matching the SpreadType union — single source of truth for validation. */
 export const ALL_SPREAD_TYPES: SpreadType[] = [
@@ -10,6 +10,7 @@ export const ALL_SPREAD_TYPES: SpreadType[] = [
   "GLOBAL_CASH_FLOW",
   "STANDARD",
   "CLASSIC_PDF",
+  "UCA_CASH_FLOW",
 ];
 
 export type OwnerType = "DEAL" | "PERSONAL" | "GLOBAL";
@@ -0,0 +1,149 @@
+/**
+ * Row-key formula expressions — the small arithmetic language the spread
+ * formula tables are written in (FORMULA_EXPR, T12_FORMULA_EXPR,
+ * BS_FORMULA_EXPR, GCF_ROW_EXPR, STANDARD_FORMULAS[*].expr):
+ *
+ *   TOTAL_CURRENT_ASSETS / TOTAL_CURRENT_LIABILITIES
+ *   GCF_CASH_AVAILABLE / (ANNUAL_DEBT_SERVICE + GCF_PERSONAL_DEBT_SERVICE)
+ *   ACCOUNTS_RECEIVABLE / TOTAL_REVENUE * 365
+ *
+ * Identifiers are row keys, operands combine with + - * / and parentheses.
+ * The same text is valid Excel once each row key is swapped for a cell
+ * reference, which is how the workbook export writes live formulas.
+ *
+ * Evaluation follows Excel rather than the renderers' safeSum: a blank
+ * input counts as zero and division by zero is an error (the export wraps
+ * divisions in IFERROR, so an error shows as an empty cell). NaN marks an
+ * error and propagates.
+ */
+
+type Token = { kind: "num"; value: number } | { kind: "key"; key: string } | { kind: "op"; op: string };
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "key"; key: string }
+  | { kind: "neg"; arg: Node }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/"; left: Node; right: Node };
+
+const KEY_RE = /[A-Z_][A-Z0-9_]*/g;
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /\s*(?:(\d+(?:\.\d+)?)|([A-Z_][A-Z0-9_]*)|([-+*/()]))/y;
+  let pos = 0;
+  while (pos < expr.length) {
+    if (/^\s*$/.test(expr.slice(pos))) break;
+    re.lastIndex = pos;
+    const m = re.exec(expr);
+    if (!m) throw new Error(`formula_expr_syntax: unexpected "${expr.slice(pos).trim()}" in "${expr}"`);
+    if (m[1] !== undefined) tokens.push({ kind: "num", value: Number(m[1]) });
+    else if (m[2] !== undefined) tokens.push({ kind: "key", key: m[2] });
+    else tokens.push({ kind: "op", op: m[3] });
+    pos = re.lastIndex;
+  }
+  return tokens;
+}
+
+export function parseFormulaExpr(expr: string): Node {
+  const tokens = tokenize(expr);
+  let i = 0;
+
+  const peekOp = (...ops: string[]) => {
+    const t = tokens[i];
+    return t?.kind === "op" && ops.includes(t.op) ? t.op : null;
+  };
+
+  function primary(): Node {
+    const t = tokens[i++];
+    if (!t) throw new Error(`formula_expr_syntax: unexpected end of "${expr}"`);
+    if (t.kind === "num") return { kind: "num", value: t.value };
+    if (t.kind === "key") return { kind: "key", key: t.key };
+    if (t.op === "-") return { kind: "neg", arg: primary() };
+    if (t.op === "(") {
+      const inner = sum();
+      if (!peekOp(")")) throw new Error(`formula_expr_syntax: missing ")" in "${expr}"`);
+      i++;
+      return inner;
+    }
+    throw new Error(`formula_expr_syntax: unexpected "${t.op}" in "${expr}"`);
+  }
+
+  function product(): Node {
+    let left = primary();
+    for (let op = peekOp("*", "/"); op; op = peekOp("*", "/")) {
+      i++;
+      left = { kind: "bin", op: op as "*" | "/", left, right: primary() };
+    }
+    return left;
+  }
+
+  function sum(): Node {
+    let left = product();
+    for (let op = peekOp("+", "-"); op; op = peekOp("+", "-")) {
+      i++;
+      left = { kind: "bin", op: op as "+" | "-", left, right: product() };
+    }
+    return left;
+  }
+
+  const root = sum();
+  if (i !== tokens.length) throw new Error(`formula_expr_syntax: trailing input in "${expr}"`);
+  return root;
+}
+
+/** Row keys referenced by an expression, in first-use order. */
+export function formulaExprKeys(expr: string): string[] {
+  return [...new Set(expr.match(KEY_RE) ?? [])];
+}
+
+export function formulaExprHasDivision(expr: string): boolean {
+  return expr.includes("/");
+}
+
+/**
+ * Evaluate an expression. `get` returns a row's value in the column being
+ * evaluated; null is a blank cell (zero), NaN an upstream error.
+ * Returns null when the result is an error.
+ */
+export function evaluateFormulaExpr(expr: string, get: (key: string) => number | null): number | null {
+  const walk = (n: Node): number => {
+    switch (n.kind) {
+      case "num":
+        return n.value;
+      case "key": {
+        const v = get(n.key);
+        return v === null ? 0 : v;
+      }
+      case "neg":
+        return -walk(n.arg);
+      case "bin": {
+        const l = walk(n.left);
+        const r = walk(n.right);
+        if (n.op === "+") return l + r;
+        if (n.op === "-") return l - r;
+        if (n.op === "*") return l * r;
+        return r === 0 ? NaN : l / r;
+      }
+    }
+  };
+  const v = walk(parseFormulaExpr(expr));
+  return Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Excel formula text for an expression, or null when a referenced row has
+ * no cell (the caller then writes the static value). Divisions are wrapped
+ * in IFERROR so a zero denominator reads as blank, not #DIV/0!.
+ */
+export function formulaExprToExcel(expr: string, refOf: (key: string) => string | null): string | null {
+  parseFormulaExpr(expr);
+  let missing = false;
+  const text = expr.replace(KEY_RE, (key) => {
+    const ref = refOf(key);
+    if (!ref) missing = true;
+    return ref ?? key;
+  });
+  if (missing) return null;
+  const compact = text.replace(/\s+/g, "");
+  return formulaExprHasDivision(expr) ? `IFERROR(${compact},"")` : compact;
+}
@@ -0,0 +1,273 @@
+import "server-only";
+
+/**
+ * Spread workbook re-import — turns the analyst edits found in a returned
+ * workbook (spreadWorkbook.ts) into override records.
+ *
+ * Every edit lands in deal_spread_overrides. An edited input that traces
+ * to one source fact (on a personal sheet, that owner's own fact) is also
+ * applied the way a banker override is in financial review: a MANUAL fact
+ * with the same key, period and owner replaces the extracted one (marked
+ * superseded / overridden), and the workbook's spreads are re-rendered. Edits with no single source fact —
+ * a replaced formula, a cleared cell, a rent roll cell, an aggregated
+ * line — are recorded for the reviewer but not applied.
+ *
+ * Re-importing the same file is a no-op (keyed on the workbook's sha256).
+ */
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SENTINEL_DATE, SENTINEL_UUID, upsertDealFinancialFact } from "@/lib/financialFacts/writeFact";
+import { enqueueSpreadRecompute } from "@/lib/financialSpreads/enqueueSpreadRecompute";
+import { factAsOfDate } from "@/lib/financialSpreads/templateUtils";
+import type { FinancialFact, SpreadType } from "@/lib/financialSpreads/types";
+import { detectSpreadWorkbookEdits, SpreadWorkbookError, type SpreadWorkbookEdit } from "./spreadWorkbook";
+
+export type SpreadOverrideStatus = "applied" | "recorded" | "failed";
+
+export type SpreadOverrideOutcome = {
+  id: string;
+  sheet: string;
+  spreadType: SpreadType;
+  rowKey: string;
+  colKey: string;
+  kind: SpreadWorkbookEdit["kind"];
+  originalValue: number | null;
+  editedValue: number | null;
+  status: SpreadOverrideStatus;
+  reason: string | null;
+};
+
+export type ImportSpreadWorkbookResult = {
+  workbookSha256: string;
+  exportedAt: string;
+  edits: number;
+  applied: number;
+  recorded: number;
+  failed: number;
+  alreadyImported: number;
+  overrides: SpreadOverrideOutcome[];
+};
+
+type ImportDeps = {
+  sb: SupabaseClient;
+  writeFact?: typeof upsertDealFinancialFact;
+  enqueueRecompute?: typeof enqueueSpreadRecompute;
+  newId?: () => string;
+};
+
+function day(v: string | null | undefined): string | null {
+  return v ? String(v).slice(0, 10) : null;
+}
+
+function editKey(e: { spreadType: string; ownerEntityId: string | null; rowKey: string; colKey: string }): string {
+  return [e.spreadType, e.ownerEntityId ?? "", e.rowKey, e.colKey].join("|");
+}
+
+async function findSourceFact(
+  sb: SupabaseClient,
+  args: { dealId: string; bankId: string; edit: SpreadWorkbookEdit },
+): Promise<FinancialFact | null> {
+  const ref = args.edit.fact!;
+  const { data, error } = await sb
+    .from("deal_financial_facts")
+    .select("id, fact_type, fact_key, fact_period_start, fact_period_end, source_document_id, owner_type, owner_entity_id, provenance")
+    .eq("deal_id", args.dealId)
+    .eq("bank_id", args.bankId)
+    .eq("fact_type", ref.fact_type)
+    .eq("fact_key", ref.fact_key)
+    .eq("is_superseded", false);
+  if (error) throw new Error(`deal_financial_facts_select_failed:${error.message}`);
+
+  const candidates = ((data ?? []) as FinancialFact[]).filter(
+    (f) =>
+      day(f.fact_period_end) === day(ref.fact_period_end) &&
+      (f.source_document_id ?? null) === (ref.source_document_id ?? null),
+  );
+  // Personal sheets are per owner, and a shared source document (a joint
+  // return) backs both owners' facts: only this owner's fact may take the
+  // edit, never the other owner's.
+  if (args.edit.ownerType === "PERSONAL") {
+    return candidates.find((f) => f.owner_entity_id === args.edit.ownerEntityId) ?? null;
+  }
+  return candidates[0] ?? null;
+}
+
+async function applyEdit(
+  edit: SpreadWorkbookEdit,
+  overrideId: string,
+  args: { dealId: string; bankId: string },
+  deps: Required<Pick<ImportDeps, "sb" | "writeFact">>,
+): Promise<{ status: SpreadOverrideStatus; reason: string | null; sourceFactId: string | null }> {
+  if (edit.kind === "formula_replaced") return { status: "recorded", reason: "formula_replaced", sourceFactId: null };
+  if (edit.editedValue === null) return { status: "recorded", reason: "cleared", sourceFactId: null };
+  if (edit.rentRollRowId) return { status: "recorded", reason: "rent_roll_row", sourceFactId: null };
+  if (!edit.fact) return { status: "recorded", reason: "no_source_fact", sourceFactId: null };
+
+  const source = await findSourceFact(deps.sb, { ...args, edit });
+  if (!source) {
+    const reason = edit.ownerType === "PERSONAL" ? "owner_fact_not_found" : "source_fact_not_found";
+    return { status: "recorded", reason, sourceFactId: null };
+  }
+
+  const write = await deps.writeFact({
+    dealId: args.dealId,
+    bankId: args.bankId,
+    sourceDocumentId: null,
+    factType: source.fact_type,
+    factKey: source.fact_key,
+    factValueNum: edit.editedValue,
+    confidence: 1.0,
+    factPeriodStart: source.fact_period_start,
+    factPeriodEnd: source.fact_period_end,
+    ownerType: source.owner_type,
+    ownerEntityId: source.owner_entity_id ?? null,
+    // Deal-level aggregates (CASH_FLOW_AVAILABLE, ANNUAL_DEBT_SERVICE…) live at the sentinel period.
+    allowSentinelPeriod: day(source.fact_period_end) === SENTINEL_DATE,
+    provenance: {
+      source_type: "MANUAL",
+      source_ref: `deal_spread_overrides:${overrideId}`,
+      // Keeps the override in the same spread column as the fact it replaces.
+      as_of_date: factAsOfDate(source),
+      extractor: "spread_workbook:import",
+      confidence: 1.0,
+      citations: [],
+      raw_snippets: [],
+    },
+  });
+  if (!write.ok) return { status: "failed", reason: write.error, sourceFactId: source.id };
+
+  // A previous override of the same line is the same MANUAL row, updated in
+  // place above — only an extracted fact gets superseded.
+  if ((source.source_document_id ?? SENTINEL_UUID) !== SENTINEL_UUID) {
+    await deps.sb
+      .from("deal_financial_facts")
+      .update({ resolution_status: "overridden", is_superseded: true })
+      .eq("id", source.id);
+  }
+  return { status: "applied", reason: null, sourceFactId: source.id };
+}
+
+export async function importSpreadWorkbook(
+  args: { dealId: string; bankId: string; userId: string | null; buffer: Buffer; fileName?: string | null },
+  deps: ImportDeps,
+): Promise<ImportSpreadWorkbookResult> {
+  const { sb } = deps;
+  const writeFact = deps.writeFact ?? upsertDealFinancialFact;
+  const enqueueRecompute = deps.enqueueRecompute ?? enqueueSpreadRecompute;
+  const newId = deps.newId ?? (() => crypto.randomUUID());
+
+  const detected = await detectSpreadWorkbookEdits(args.buffer);
+  if (detected.dealId !== args.dealId) throw new SpreadWorkbookError("WORKBOOK_DEAL_MISMATCH");
+
+  const workbookSha256 = crypto.createHash("sha256").update(args.buffer).digest("hex");
+
+  const { data: prior, error: priorErr } = await sb
+    .from("deal_spread_overrides")
+    .select("spread_type, owner_entity_id, row_key, col_key")
+    .eq("deal_id", args.dealId)
+    .eq("workbook_sha256", workbookSha256);
+  if (priorErr) throw new Error(`deal_spread_overrides_select_failed:${priorErr.message}`);
+  const seen = new Set(
+    ((prior ?? []) as Array<Record<string, string | null>>).map((r) =>
+      editKey({ spreadType: r.spread_type!, ownerEntityId: r.owner_entity_id, rowKey: r.row_key!, colKey: r.col_key! }),
+    ),
+  );
+
+  const result: ImportSpreadWorkbookResult = {
+    workbookSha256,
+    exportedAt: detected.exportedAt,
+    edits: detected.edits.length,
+    applied: 0,
+    recorded: 0,
+    failed: 0,
+    alreadyImported: 0,
+    overrides: [],
+  };
+
+  for (const edit of detected.edits) {
+    if (seen.has(editKey(edit))) {
+      result.alreadyImported++;
+      continue;
+    }
+
+    const id = newId();
+    let outcome: Awaited<ReturnType<typeof applyEdit>>;
+    try {
+      outcome = await applyEdit(edit, id, args, { sb, writeFact });
+    } catch (e: any) {
+      outcome = { status: "failed", reason: e?.message ?? String(e), sourceFactId: null };
+    }
+
+    const { error } = await sb.from("deal_spread_overrides").insert({
+      id,
+      deal_id: args.dealId,
+      bank_id: args.bankId,
+      workbook_sha256: workbookSha256,
+      file_name: args.fileName ?? null,
+      exported_at: detected.exportedAt,
+      spread_type: edit.spreadType,
+      owner_type: edit.ownerType,
+      owner_entity_id: edit.ownerEntityId,
+      row_key: edit.rowKey,
+      col_key: edit.colKey,
+      edit_kind: edit.kind,
+      original_value: edit.originalValue,
+      edited_value: edit.editedValue,
+      formula_id: edit.formulaId,
+      fact_type: edit.fact?.fact_type ?? null,
+      fact_key: edit.fact?.fact_key ?? null,
+      fact_period_end: day(edit.fact?.fact_period_end),
+      source_document_id: edit.fact?.source_document_id ?? null,
+      source_fact_id: outcome.sourceFactId,
+      rent_roll_row_id: edit.rentRollRowId,
+      status: outcome.status,
+      reason: outcome.reason,
+      created_by: args.userId,
+    });
+    if (error) throw new Error(`deal_spread_overrides_insert_failed:${error.message}`);
+
+    result[outcome.status]++;
+    result.overrides.push({
+      id,
+      sheet: edit.sheet,
+      spreadType: edit.spreadType,
+      rowKey: edit.rowKey,
+      colKey: edit.colKey,
+      kind: edit.kind,
+      originalValue: edit.originalValue,
+      editedValue: edit.editedValue,
+      status: outcome.status,
+      reason: outcome.reason,
+    });
+  }
+
+  // Re-render the workbook's spreads so the overrides show up (and GCF /
+  // STANDARD pick up changed inputs). These rows all exist already, so this
+  // never manufactures a spread the deal didn't have.
+  if (result.applied > 0) {
+    const byOwner = new Map<string, { ownerType: string; ownerEntityId: string | null; spreadTypes: SpreadType[] }>();
+    for (const s of detected.spreads) {
+      const key = `${s.ownerType}|${s.ownerEntityId ?? ""}`;
+      const group = byOwner.get(key) ?? { ownerType: s.ownerType, ownerEntityId: s.ownerEntityId, spreadTypes: [] };
+      group.spreadTypes.push(s.spreadType);
+      byOwner.set(key, group);
+    }
+    for (const group of byOwner.values()) {
+      try {
+        await enqueueRecompute({
+          dealId: args.dealId,
+          bankId: args.bankId,
+          spreadTypes: group.spreadTypes,
+          ownerType: group.ownerType,
+          ownerEntityId: group.ownerEntityId,
+          meta: { source: "spread_workbook_import", workbook_sha256: workbookSha256 },
+        });
+      } catch (e: any) {
+        console.warn("[importSpreadWorkbook] recompute enqueue failed (non-fatal):", e?.message ?? String(e));
+      }
+    }
+  }
+
+  return result;
+}
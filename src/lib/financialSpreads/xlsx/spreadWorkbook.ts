@@ -0,0 +1,676 @@
+import "server-only";
+
+/**
+ * Spread workbook — .xlsx export of a deal's rendered spreads, and the
+ * read side that finds what an analyst changed before sending it back.
+ *
+ * One sheet per spread (balance sheet, financial analysis / income
+ * statement, GCF, personal income per owner, rent roll, T12). Subtotals
+ * and ratios are live Excel formulas built from the same expression
+ * tables the renderers evaluate (formulas.ts, balanceSheet.ts,
+ * globalCashFlow.ts, personalIncome.ts, the STANDARD registry), so an
+ * analyst who changes an input sees the totals move. A formula is only
+ * written where it reproduces the rendered number; a total the source
+ * document reported directly stays a static value, as it is in the app.
+ * Input cells carry a note with their source document, page(s) and fact.
+ *
+ * The classic spread PDF is laid out from these same deal_spreads rows and
+ * has no stable row keys of its own, so it has no separate sheet.
+ *
+ * Layout, per sheet: row 1 (hidden) holds column keys and column A
+ * (hidden) holds row keys; title in row 2, header in row 3, data from row
+ * 4. A very-hidden "_buddy" sheet holds the export manifest — every
+ * numeric cell's original value, formula id and source fact — so edits are
+ * found by key, not position, and survive inserted rows and columns.
+ */
+
+import ExcelJS from "exceljs";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FinancialFact, RenderedSpread, RenderedSpreadInputRef, SpreadType } from "@/lib/financialSpreads/types";
+import { T12_FORMULA_EXPR, type T12FormulaId } from "@/lib/financialSpreads/formulas";
+import { BS_FORMULA_EXPR } from "@/lib/financialSpreads/templates/balanceSheet";
+import { GCF_ROW_EXPR } from "@/lib/financialSpreads/templates/globalCashFlow";
+import { PERSONAL_INCOME_TOTAL_EXPR } from "@/lib/financialSpreads/templates/personalIncome";
+import { STANDARD_FORMULAS } from "@/lib/financialSpreads/standard/formulas/registry";
+import { evaluateFormulaExpr, formulaExprKeys, formulaExprToExcel } from "./formulaExpr";
+
+/** Spread types exported to the workbook, in sheet order. */
+export const WORKBOOK_SPREAD_TYPES: SpreadType[] = [
+  "BALANCE_SHEET",
+  "STANDARD",
+  "T12",
+  "RENT_ROLL",
+  "PERSONAL_INCOME",
+  "GLOBAL_CASH_FLOW",
+];
+
+export type WorkbookSpread = {
+  spreadType: SpreadType;
+  ownerType: string;
+  ownerEntityId: string | null;
+  rendered: RenderedSpread;
+};
+
+export type WorkbookSources = {
+  /** source_document_id → display name */
+  documentNames?: Record<string, string>;
+  /** factRefKey(ref) → cited page numbers */
+  factPages?: Record<string, number[]>;
+};
+
+type ManifestCell = {
+  r: string;
+  c: string;
+  v: number | null;
+  /** formula id when the cell was exported as a live formula */
+  f?: string;
+  fact?: RenderedSpreadInputRef;
+  /** deal_rent_roll_rows.id for rent roll unit cells */
+  rr?: string;
+};
+
+type ManifestSheet = {
+  sheet: string;
+  spreadType: SpreadType;
+  ownerType: string;
+  ownerEntityId: string | null;
+  cells: ManifestCell[];
+};
+
+export type SpreadWorkbookManifest = {
+  version: 1;
+  dealId: string;
+  exportedAt: string;
+  sheets: ManifestSheet[];
+};
+
+export type SpreadWorkbookEdit = {
+  sheet: string;
+  spreadType: SpreadType;
+  ownerType: string;
+  ownerEntityId: string | null;
+  rowKey: string;
+  colKey: string;
+  /** input: a value cell changed; formula_replaced: a live formula was overwritten with a value */
+  kind: "input" | "formula_replaced";
+  originalValue: number | null;
+  editedValue: number | null;
+  formulaId: string | null;
+  fact: RenderedSpreadInputRef | null;
+  rentRollRowId: string | null;
+};
+
+export class SpreadWorkbookError extends Error {
+  readonly code: "NOT_A_BUDDY_WORKBOOK" | "WORKBOOK_DEAL_MISMATCH";
+  constructor(code: SpreadWorkbookError["code"]) {
+    super(`spread_workbook_${code.toLowerCase()}`);
+    this.name = "SpreadWorkbookError";
+    this.code = code;
+  }
+}
+
+const MANIFEST_SHEET = "_buddy";
+const MANIFEST_CHUNK = 30_000;
+const KEY_CELL = "__key__";
+const FIRST_DATA_ROW = 4;
+const FIRST_VALUE_COL = 3;
+const EDIT_TOLERANCE = 0.005;
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FF1E3A8A" },
+};
+const HEADER_FONT: Partial<ExcelJS.Font> = { bold: true, color: { argb: "FFFFFFFF" } };
+const SECTION_FONT: Partial<ExcelJS.Font> = { bold: true };
+const FORMULA_FONT: Partial<ExcelJS.Font> = { color: { argb: "FF1E3A8A" } };
+const CURRENCY_FMT = '$#,##0;[Red]-$#,##0';
+const PCT_FMT = "0.0%";
+const RATIO_FMT = "0.00x";
+const INTEGER_FMT = "#,##0";
+
+export function factRefKey(ref: RenderedSpreadInputRef): string {
+  return [ref.fact_type, ref.fact_key, String(ref.fact_period_end ?? "").slice(0, 10), ref.source_document_id ?? ""].join("|");
+}
+
+/** Document names and cited pages for the provenance notes. */
+export async function loadSpreadWorkbookSources(
+  sb: SupabaseClient,
+  args: { dealId: string; bankId: string },
+): Promise<WorkbookSources> {
+  const [{ data: docs }, { data: facts }] = await Promise.all([
+    sb.from("deal_documents").select("id, original_filename").eq("deal_id", args.dealId).eq("bank_id", args.bankId),
+    sb
+      .from("deal_financial_facts")
+      .select("fact_type, fact_key, fact_period_end, source_document_id, provenance")
+      .eq("deal_id", args.dealId)
+      .eq("bank_id", args.bankId)
+      .eq("is_superseded", false),
+  ]);
+
+  const documentNames: Record<string, string> = {};
+  for (const d of (docs ?? []) as Array<{ id: string; original_filename: string | null }>) {
+    if (d.original_filename) documentNames[d.id] = d.original_filename;
+  }
+
+  const factPages: Record<string, number[]> = {};
+  for (const f of (facts ?? []) as FinancialFact[]) {
+    const pages = ((f.provenance?.citations ?? []) as Array<{ page?: unknown }>)
+      .map((c) => c?.page)
+      .filter((p): p is number => typeof p === "number" && p > 0);
+    if (!pages.length) continue;
+    const key = factRefKey({
+      fact_type: f.fact_type,
+      fact_key: f.fact_key,
+      fact_period_end: f.fact_period_end,
+      source_document_id: f.source_document_id,
+    });
+    factPages[key] = [...new Set([...(factPages[key] ?? []), ...pages])].sort((a, b) => a - b);
+  }
+
+  return { documentNames, factPages };
+}
+
+// ---------------------------------------------------------------------------
+// Sheet plan — what goes in each cell, independent of ExcelJS
+// ---------------------------------------------------------------------------
+
+type RentRollSum = { status: "OCCUPIED" | "VACANT" | null; col: string; factor: number };
+
+type PlannedCell = {
+  value: number | string | null;
+  formula?: { id: string; expr?: string; rentRollSum?: RentRollSum };
+  fact?: RenderedSpreadInputRef;
+  rentRollRowId?: string;
+  sourceDocumentId?: string | null;
+};
+
+type PlannedRow = {
+  key: string;
+  label: string;
+  header: boolean;
+  numFmt: string | null;
+  cells: Record<string, PlannedCell>;
+};
+
+type SheetPlan = {
+  title: string;
+  columns: Array<{ key: string; label: string }>;
+  rows: PlannedRow[];
+};
+
+type SpreadRow = RenderedSpread["rows"][number];
+
+function isHeaderRow(row: SpreadRow): boolean {
+  return row.notes === "section_header" || row.key.startsWith("_header_");
+}
+
+function rowFormula(spreadType: SpreadType, row: SpreadRow): { id: string; expr: string } | null {
+  const f = row.formula ?? null;
+  switch (spreadType) {
+    case "BALANCE_SHEET":
+      return f && BS_FORMULA_EXPR[f] ? { id: f, expr: BS_FORMULA_EXPR[f] } : null;
+    case "T12":
+      return f && f in T12_FORMULA_EXPR ? { id: f, expr: T12_FORMULA_EXPR[f as T12FormulaId] } : null;
+    case "GLOBAL_CASH_FLOW":
+      return GCF_ROW_EXPR[row.key] ? { id: row.key, expr: GCF_ROW_EXPR[row.key] } : null;
+    case "PERSONAL_INCOME":
+      return f === "SUM(income_components)" ? { id: f, expr: PERSONAL_INCOME_TOTAL_EXPR } : null;
+    case "STANDARD":
+      return f && STANDARD_FORMULAS[f] ? { id: f, expr: STANDARD_FORMULAS[f].expr } : null;
+    default:
+      return null;
+  }
+}
+
+function toNumber(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function close(a: number | null, b: number): boolean {
+  return a !== null && Math.abs(a - b) <= Math.max(EDIT_TOLERANCE, Math.abs(b) * 1e-9);
+}
+
+function rawCell(row: SpreadRow, colKey: string, multiColumn: boolean): {
+  value: number | string | null;
+  display: string | null;
+  prov: any;
+  fact: RenderedSpreadInputRef | null;
+} {
+  const first = row.values[0];
+  if (first === null || first === undefined || typeof first !== "object") {
+    return { value: first ?? null, display: null, prov: null, fact: null };
+  }
+  if (multiColumn) {
+    const prov = first.provenanceByCol?.[colKey] ?? null;
+    const input = prov?.input;
+    return {
+      value: first.valueByCol?.[colKey] ?? null,
+      display: first.displayByCol?.[colKey] ?? null,
+      prov,
+      fact: input && typeof input.fact_key === "string" ? (input as RenderedSpreadInputRef) : null,
+    };
+  }
+  const inputs = first.inputs_used ?? [];
+  return {
+    value: first.value ?? null,
+    display: first.notes ?? null,
+    prov: null,
+    fact: !first.formula_ref && inputs.length === 1 ? inputs[0] : null,
+  };
+}
+
+function rowNumFmt(row: SpreadRow, expr: string | null, displays: Array<string | null>): string {
+  if (displays.some((d) => typeof d === "string" && d.trim().endsWith("%"))) return PCT_FMT;
+  if (expr?.includes("* 365")) return INTEGER_FMT;
+  if (expr?.includes("/") || /DSCR|RATIO/.test(row.key)) return RATIO_FMT;
+  return CURRENCY_FMT;
+}
+
+function planFactSheet(spread: WorkbookSpread): SheetPlan {
+  const { rendered, spreadType } = spread;
+  const multiColumn = Boolean(rendered.columnsV2?.length);
+  const columns = multiColumn
+    ? rendered.columnsV2!.map((c) => ({ key: c.key, label: c.label }))
+    : [{ key: "VALUE", label: "Value" }];
+
+  const dataRows = rendered.rows.filter((r) => !isHeaderRow(r));
+  const rowsByKey = new Map(dataRows.map((r) => [r.key, r]));
+
+  const rows: PlannedRow[] = [];
+  const planned = new Map<string, Record<string, PlannedCell>>();
+
+  for (const col of columns) {
+    // Memoized per-column resolution: is this row's cell a live formula, and
+    // what does Excel compute for it? NaN marks an Excel error.
+    const resolved = new Map<string, { cell: PlannedCell; excelValue: number | null }>();
+    const inProgress = new Set<string>();
+
+    const resolve = (key: string): { cell: PlannedCell; excelValue: number | null } => {
+      const hit = resolved.get(key);
+      if (hit) return hit;
+      const row = rowsByKey.get(key)!;
+      const raw = rawCell(row, col.key, multiColumn);
+      const staticCell: PlannedCell = {
+        value: raw.value,
+        ...(raw.fact ? { fact: raw.fact } : {}),
+      };
+      let out = { cell: staticCell, excelValue: toNumber(raw.value) };
+
+      const f = rowFormula(spreadType, row);
+      const reported = raw.fact !== null || (raw.prov && raw.prov.source !== "Formula" && raw.prov.source !== "Computed");
+      if (f && !reported && typeof raw.value !== "string" && !inProgress.has(key)) {
+        const keys = formulaExprKeys(f.expr);
+        if (keys.every((k) => rowsByKey.has(k))) {
+          inProgress.add(key);
+          const evaluated = evaluateFormulaExpr(f.expr, (k) => resolve(k).excelValue);
+          inProgress.delete(key);
+          const rendered = toNumber(raw.value);
+          if (rendered === null || close(evaluated, rendered)) {
+            out = {
+              cell: { value: evaluated, formula: { id: f.id, expr: f.expr } },
+              excelValue: evaluated === null ? NaN : evaluated,
+            };
+          }
+        }
+      }
+      resolved.set(key, out);
+      return out;
+    };
+
+    for (const r of dataRows) {
+      const cells = planned.get(r.key) ?? {};
+      cells[col.key] = resolve(r.key).cell;
+      planned.set(r.key, cells);
+    }
+  }
+
+  for (const r of rendered.rows) {
+    if (isHeaderRow(r)) {
+      rows.push({ key: r.key, label: r.label, header: true, numFmt: null, cells: {} });
+      continue;
+    }
+    const f = rowFormula(spreadType, r);
+    const displays = columns.map((c) => rawCell(r, c.key, multiColumn).display);
+    rows.push({
+      key: r.key,
+      label: r.label,
+      header: false,
+      numFmt: rowNumFmt(r, f?.expr ?? null, displays),
+      cells: planned.get(r.key) ?? {},
+    });
+  }
+
+  return { title: rendered.title, columns, rows };
+}
+
+const RENT_ROLL_TOTALS: Record<string, RentRollSum["status"]> = {
+  TOTAL_OCCUPIED: "OCCUPIED",
+  TOTAL_VACANT: "VACANT",
+  TOTALS: null,
+};
+
+const RENT_ROLL_FMT: Record<string, string> = {
+  SQFT: INTEGER_FMT,
+  RENT_MO: CURRENCY_FMT,
+  RENT_YR: CURRENCY_FMT,
+  MARKET_RENT_MO: CURRENCY_FMT,
+  WALT_YEARS: "0.00",
+};
+
+function planRentRollSheet(spread: WorkbookSpread): SheetPlan {
+  const { rendered } = spread;
+  const columns = (rendered.columnsV2 ?? []).map((c) => ({ key: c.key, label: c.label }));
+  const rows: PlannedRow[] = rendered.rows.map((r) => {
+    const status = RENT_ROLL_TOTALS[r.key];
+    const cells: Record<string, PlannedCell> = {};
+    for (const c of columns) {
+      const raw = rawCell(r, c.key, true);
+      const cell: PlannedCell = { value: raw.value };
+      if (raw.prov?.source === "RentRollRow") {
+        cell.rentRollRowId = raw.prov.row_id ? String(raw.prov.row_id) : undefined;
+        cell.sourceDocumentId = raw.prov.source_document_id ?? null;
+      }
+      if (status !== undefined && (c.key === "SQFT" || c.key === "RENT_MO")) {
+        cell.formula = { id: `RENT_ROLL_${r.key}_${c.key}`, rentRollSum: { status, col: c.key, factor: 1 } };
+      } else if (status !== undefined && c.key === "RENT_YR") {
+        cell.formula = { id: `RENT_ROLL_${r.key}_${c.key}`, rentRollSum: { status, col: "RENT_MO", factor: 12 } };
+      }
+      cells[c.key] = cell;
+    }
+    return { key: r.key, label: r.label, header: false, numFmt: null, cells };
+  });
+  return { title: rendered.title, columns, rows };
+}
+
+function planSheet(spread: WorkbookSpread): SheetPlan {
+  return spread.spreadType === "RENT_ROLL" ? planRentRollSheet(spread) : planFactSheet(spread);
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function sheetName(title: string, taken: Set<string>): string {
+  const base = (title.replace(/[[\]:*?/\\]/g, "-").trim() || "Spread").slice(0, 31);
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+function columnLetter(col: number): string {
+  let s = "";
+  for (let n = col; n > 0; n = Math.floor((n - 1) / 26)) {
+    s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  }
+  return s;
+}
+
+function provenanceNote(cell: PlannedCell, sources: WorkbookSources): string | null {
+  const docName = (id: string | null | undefined) => (id ? sources.documentNames?.[id] ?? id : null);
+  const lines: string[] = [];
+  if (cell.fact) {
+    const pages = sources.factPages?.[factRefKey(cell.fact)] ?? [];
+    const doc = docName(cell.fact.source_document_id);
+    if (doc) lines.push(`Source: ${doc}${pages.length ? `, p. ${pages.join(", ")}` : ""}`);
+    const period = cell.fact.fact_period_end ? ` @ ${String(cell.fact.fact_period_end).slice(0, 10)}` : "";
+    lines.push(`Fact: ${cell.fact.fact_type}.${cell.fact.fact_key}${period}`);
+  }
+  if (cell.rentRollRowId) {
+    const doc = docName(cell.sourceDocumentId);
+    lines.push(`Source: ${doc ? `${doc}, ` : ""}rent roll row ${cell.rentRollRowId}`);
+  }
+  if (cell.formula?.expr) lines.push(`Formula ${cell.formula.id}: ${cell.formula.expr}`);
+  return lines.length ? lines.join("\n") : null;
+}
+
+export async function renderSpreadWorkbook(
+  spreads: WorkbookSpread[],
+  args: { dealId: string; dealName?: string | null; sources?: WorkbookSources; now?: Date },
+): Promise<Buffer> {
+  const sources = args.sources ?? {};
+  const wb = new ExcelJS.Workbook();
+  wb.creator = "Buddy";
+  wb.created = args.now ?? new Date();
+
+  const manifest: SpreadWorkbookManifest = {
+    version: 1,
+    dealId: args.dealId,
+    exportedAt: (args.now ?? new Date()).toISOString(),
+    sheets: [],
+  };
+  const taken = new Set<string>([MANIFEST_SHEET]);
+
+  const ordered = [...spreads].sort(
+    (a, b) => WORKBOOK_SPREAD_TYPES.indexOf(a.spreadType) - WORKBOOK_SPREAD_TYPES.indexOf(b.spreadType),
+  );
+
+  for (const spread of ordered) {
+    if (!WORKBOOK_SPREAD_TYPES.includes(spread.spreadType)) continue;
+    const plan = planSheet(spread);
+    const name = sheetName(plan.title, taken);
+    const ws = wb.addWorksheet(name, { views: [{ state: "frozen", xSplit: 2, ySplit: 3 }] });
+    const sheetManifest: ManifestSheet = {
+      sheet: name,
+      spreadType: spread.spreadType,
+      ownerType: spread.ownerType,
+      ownerEntityId: spread.ownerEntityId,
+      cells: [],
+    };
+
+    ws.addRow([KEY_CELL, null, ...plan.columns.map((c) => c.key)]).hidden = true;
+    const titleRow = ws.addRow([null, plan.title, args.dealName ?? null]);
+    titleRow.font = { bold: true, size: 13 };
+    const header = ws.addRow([null, "Line Item", ...plan.columns.map((c) => c.label)]);
+    header.eachCell((cell, col) => {
+      if (col === 1) return;
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+    });
+    ws.getColumn(1).hidden = true;
+    ws.getColumn(2).width = 42;
+    plan.columns.forEach((_, i) => (ws.getColumn(FIRST_VALUE_COL + i).width = 16));
+
+    const rowNumber = new Map(plan.rows.map((r, i) => [r.key, FIRST_DATA_ROW + i]));
+    const colNumber = new Map(plan.columns.map((c, i) => [c.key, FIRST_VALUE_COL + i]));
+
+    const unitRows = plan.rows.filter((r) => r.key.startsWith("ROW:")).map((r) => rowNumber.get(r.key)!);
+    const unitRange = (colKey: string) => {
+      const letter = columnLetter(colNumber.get(colKey)!);
+      return `${letter}${Math.min(...unitRows)}:${letter}${Math.max(...unitRows)}`;
+    };
+
+    for (const row of plan.rows) {
+      const r = rowNumber.get(row.key)!;
+      ws.getCell(r, 1).value = row.key;
+      const labelCell = ws.getCell(r, 2);
+      labelCell.value = row.label;
+      if (row.header) {
+        labelCell.font = SECTION_FONT;
+        continue;
+      }
+
+      for (const col of plan.columns) {
+        const planned = row.cells[col.key];
+        if (!planned) continue;
+        const c = colNumber.get(col.key)!;
+        const cell = ws.getCell(r, c);
+        const letter = columnLetter(c);
+
+        let formula: string | null = null;
+        if (planned.formula?.expr) {
+          formula = formulaExprToExcel(planned.formula.expr, (k) =>
+            rowNumber.has(k) ? `${letter}${rowNumber.get(k)}` : null,
+          );
+        } else if (planned.formula?.rentRollSum && unitRows.length) {
+          const s = planned.formula.rentRollSum;
+          const sum = s.status
+            ? `SUMIF(${unitRange("STATUS")},"${s.status}",${unitRange(s.col)})`
+            : `SUM(${unitRange(s.col)})`;
+          formula = s.factor === 1 ? sum : `${sum}*${s.factor}`;
+        }
+
+        const numeric = toNumber(planned.value);
+        if (formula) {
+          cell.value = numeric === null ? { formula } : { formula, result: numeric };
+          cell.font = FORMULA_FONT;
+        } else {
+          cell.value = planned.value;
+        }
+        const fmt = row.numFmt ?? RENT_ROLL_FMT[col.key];
+        if (fmt) cell.numFmt = fmt;
+
+        const note = provenanceNote(planned, sources);
+        if (note) cell.note = note;
+
+        if (formula || numeric !== null || planned.fact || (planned.rentRollRowId && RENT_ROLL_FMT[col.key])) {
+          sheetManifest.cells.push({
+            r: row.key,
+            c: col.key,
+            v: numeric,
+            ...(formula ? { f: planned.formula!.id } : {}),
+            ...(planned.fact ? { fact: planned.fact } : {}),
+            ...(planned.rentRollRowId ? { rr: planned.rentRollRowId } : {}),
+          });
+        }
+      }
+    }
+
+    manifest.sheets.push(sheetManifest);
+  }
+
+  const meta = wb.addWorksheet(MANIFEST_SHEET);
+  meta.state = "veryHidden";
+  const json = JSON.stringify(manifest);
+  for (let i = 0, r = 1; i < json.length; i += MANIFEST_CHUNK, r++) {
+    meta.getCell(r, 1).value = json.slice(i, i + MANIFEST_CHUNK);
+  }
+
+  return Buffer.from(await wb.xlsx.writeBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// Re-import: find analyst edits
+// ---------------------------------------------------------------------------
+
+function readManifest(wb: ExcelJS.Workbook): SpreadWorkbookManifest {
+  const meta = wb.getWorksheet(MANIFEST_SHEET);
+  if (!meta) throw new SpreadWorkbookError("NOT_A_BUDDY_WORKBOOK");
+  let json = "";
+  for (let r = 1; r <= meta.rowCount; r++) {
+    const v = meta.getCell(r, 1).value;
+    if (typeof v === "string") json += v;
+  }
+  try {
+    const parsed = JSON.parse(json) as SpreadWorkbookManifest;
+    if (parsed?.version !== 1 || !parsed.dealId || !Array.isArray(parsed.sheets)) throw new Error("bad manifest");
+    return parsed;
+  } catch {
+    throw new SpreadWorkbookError("NOT_A_BUDDY_WORKBOOK");
+  }
+}
+
+/** Parse what an analyst typed: 1,234 / $1,234 / (1,234) / 12.5%. undefined = not a number. */
+function parseTyped(text: string): number | null | undefined {
+  const t = text.trim();
+  if (!t) return null;
+  const negative = /^\(.*\)$/.test(t);
+  const pct = t.endsWith("%");
+  const n = Number(t.replace(/[()$,%\s]/g, "").replace(/x$/i, ""));
+  if (!Number.isFinite(n)) return undefined;
+  const v = pct ? n / 100 : n;
+  return negative ? -v : v;
+}
+
+function readCell(cell: ExcelJS.Cell): { formula: boolean; value: number | null | undefined } {
+  const v = cell.value as any;
+  if (v === null || v === undefined) return { formula: false, value: null };
+  if (typeof v === "number") return { formula: false, value: Number.isFinite(v) ? v : undefined };
+  if (typeof v === "string") return { formula: false, value: parseTyped(v) };
+  if (typeof v === "object") {
+    if ("formula" in v || "sharedFormula" in v) {
+      return { formula: true, value: typeof v.result === "number" ? v.result : null };
+    }
+    if (Array.isArray(v.richText)) {
+      return { formula: false, value: parseTyped(v.richText.map((p: { text: string }) => p.text).join("")) };
+    }
+  }
+  return { formula: false, value: undefined };
+}
+
+function differs(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) return a !== b;
+  return Math.abs(a - b) > EDIT_TOLERANCE;
+}
+
+/**
+ * Compare a returned workbook against its export manifest. Cells are found
+ * by the hidden row/column keys, so inserted or re-ordered rows and
+ * columns don't misattribute edits; deleted rows, columns and sheets are
+ * ignored, as are non-numeric entries.
+ */
+export async function detectSpreadWorkbookEdits(buffer: Buffer | ArrayBuffer): Promise<{
+  dealId: string;
+  exportedAt: string;
+  spreads: Array<Pick<ManifestSheet, "spreadType" | "ownerType" | "ownerEntityId">>;
+  edits: SpreadWorkbookEdit[];
+}> {
+  const wb = new ExcelJS.Workbook();
+  try {
+    await wb.xlsx.load(buffer as any);
+  } catch {
+    throw new SpreadWorkbookError("NOT_A_BUDDY_WORKBOOK");
+  }
+  const manifest = readManifest(wb);
+  const edits: SpreadWorkbookEdit[] = [];
+
+  for (const sheet of manifest.sheets) {
+    const ws = wb.getWorksheet(sheet.sheet);
+    if (!ws) continue;
+
+    const rowOf = new Map<string, number>();
+    const colOf = new Map<string, number>();
+    ws.getColumn(1).eachCell((cell, r) => {
+      if (typeof cell.value === "string" && r >= 2) rowOf.set(cell.value, r);
+    });
+    ws.getRow(1).eachCell((cell, c) => {
+      if (typeof cell.value === "string" && c >= 2 && cell.value !== KEY_CELL) colOf.set(cell.value, c);
+    });
+
+    for (const mc of sheet.cells) {
+      const r = rowOf.get(mc.r);
+      const c = colOf.get(mc.c);
+      if (!r || !c) continue;
+      const now = readCell(ws.getCell(r, c));
+      if (now.value === undefined) continue;
+      if (mc.f && now.formula) continue;
+      if (!differs(mc.v, now.value)) continue;
+
+      edits.push({
+        sheet: sheet.sheet,
+        spreadType: sheet.spreadType,
+        ownerType: sheet.ownerType,
+        ownerEntityId: sheet.ownerEntityId,
+        rowKey: mc.r,
+        colKey: mc.c,
+        kind: mc.f ? "formula_replaced" : "input",
+        originalValue: mc.v,
+        editedValue: now.value,
+        formulaId: mc.f ?? null,
+        fact: mc.fact ?? null,
+        rentRollRowId: mc.rr ?? null,
+      });
+    }
+  }
+
+  return {
+    dealId: manifest.dealId,
+    exportedAt: manifest.exportedAt,
+    spreads: manifest.sheets.map(({ spreadType, ownerType, ownerEntityId }) => ({ spreadType, ownerType, ownerEntityId })),
+    edits,
+  };
+}
@@ -92,6 +92,8 @@ const ENGINE_RULES: EngineRule[] = [
   { test: (s) => /^deal_loan_requests:/.test(s), engine: "manual.loanRequest", retireInPhase: "keep" },
   // Spread renderers (T12 / balance sheet / PFS / other deal_spreads) — kept.
   { test: (s) => /^deal_spreads:/.test(s), engine: "finengine.spreads", retireInPhase: "keep" },
+  // Connected accounting / bank feeds (QuickBooks, Plaid) — kept.
+  { test: (s) => /^connected_account:/.test(s), engine: "connect.accounts", retireInPhase: "keep" },
   // Document extraction outbox — kept (lowest-authority source layer).
   { test: (s) => /^deal_documents:/.test(s), engine: "extraction.docExtract", retireInPhase: "keep" },
 ];
@@ -170,8 +172,9 @@ export function inferSourceQualityRank(args: {
     return 3;
   // 4 — CPA-reviewed or compiled statement.
   if (ct.includes("REVIEWED") || ct.includes("COMPILED") || ct.includes("FINANCIAL_STATEMENT")) return 4;
-  // 5 — bank statement / AR aging (corroborating).
+  // 5 — bank statement / AR aging / connected books and bank feeds (corroborating).
   if (ct.includes("BANK_STATEMENT") || ct.includes("AR_AGING") || ct.includes("AGING")) return 5;
+  if (ct === "QUICKBOOKS_ONLINE" || ct === "PLAID_BANK") return 5;
 
   // Computed/derived facts (SPREAD / STRUCTURAL / synthesis) are ranked by
   // producer trust: the canonical core and B4 producers above legacy paths.
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { flagFromBankTransactions } from "../flagFromBankTransactions";
+import { composeFlagReport } from "../flagComposer";
+import type { FlagEngineInput, BankTransactionReport } from "../types";
+import { resetFlagCounter } from "../flagHelpers";
+
+function makeReport(overrides: Partial<BankTransactionReport> = {}): BankTransactionReport {
+  return {
+    period_start: "2025-01-02",
+    period_end: "2025-06-30",
+    sources: ["plaid"],
+    transaction_count: 400,
+    monthly: [],
+    totals: { true_deposits: 300_000, transfers_in: 0, loan_proceeds: 0, nsf_count: 0, overdraft_count: 0 },
+    nsf_events_trailing_12m: 0,
+    recurring_debits: [],
+    revenue_verification: [],
+    debt_candidates: [],
+    ...overrides,
+  };
+}
+
+function makeInput(report?: BankTransactionReport): FlagEngineInput {
+  resetFlagCounter();
+  return {
+    deal_id: "deal-1",
+    canonical_facts: {},
+    ratios: {},
+    years_available: [2024],
+    bank_transaction_report: report,
+  };
+}
+
+const mcaDebit = {
+  counterparty: "ONDECK CAPITAL",
+  kind: "mca" as const,
+  basis: "pattern" as const,
+  cadence: "daily" as const,
+  typical_amount: 200,
+  monthly_payment: 4200,
+  occurrences: 60,
+  first_date: "2025-04-01",
+  last_date: "2025-06-30",
+  active: true,
+  disclosed: false,
+  refs: [],
+};
+
+describe("flagFromBankTransactions", () => {
+  it("returns empty array without a report or transactions", () => {
+    assert.equal(flagFromBankTransactions(makeInput()).length, 0);
+    assert.equal(flagFromBankTransactions(makeInput(makeReport({ transaction_count: 0, nsf_events_trailing_12m: 9 }))).length, 0);
+  });
+
+  it("flags NSF activity at the threshold and escalates to critical", () => {
+    const elevated = flagFromBankTransactions(makeInput(makeReport({ nsf_events_trailing_12m: 3, totals: { true_deposits: 0, transfers_in: 0, loan_proceeds: 0, nsf_count: 2, overdraft_count: 1 } })));
+    assert.equal(elevated.length, 1);
+    assert.equal(elevated[0].trigger_type, "bank_nsf_overdraft_activity");
+    assert.equal(elevated[0].severity, "elevated");
+    assert.ok(elevated[0].borrower_question?.question_text.includes("3 non-sufficient funds"));
+
+    const critical = flagFromBankTransactions(makeInput(makeReport({ nsf_events_trailing_12m: 7 })));
+    assert.equal(critical[0].severity, "critical");
+
+    assert.equal(flagFromBankTransactions(makeInput(makeReport({ nsf_events_trailing_12m: 2 }))).length, 0);
+  });
+
+  it("flags active MCA remittances and undisclosed debt payments", () => {
+    const flags = flagFromBankTransactions(makeInput(makeReport({ recurring_debits: [mcaDebit] })));
+    const types = flags.map((f) => f.trigger_type).sort();
+    assert.deepEqual(types, ["bank_mca_remittances_detected", "bank_undisclosed_debt_payments"]);
+
+    const mca = flags.find((f) => f.trigger_type === "bank_mca_remittances_detected")!;
+    assert.equal(mca.severity, "critical");
+    assert.equal(mca.observed_value, 4200);
+    assert.equal(mca.borrower_question?.document_urgency, "required_before_approval");
+
+    const undisclosed = flags.find((f) => f.trigger_type === "bank_undisclosed_debt_payments")!;
+    assert.equal(undisclosed.observed_value, 4200 * 12);
+  });
+
+  it("ignores disclosed and paid-off debits for the undisclosed flag", () => {
+    const flags = flagFromBankTransactions(makeInput(makeReport({
+      recurring_debits: [
+        { ...mcaDebit, disclosed: true },
+        { ...mcaDebit, counterparty: "OLD LENDER", kind: "loan", cadence: "monthly", active: false },
+      ],
+    })));
+    assert.deepEqual(flags.map((f) => f.trigger_type), ["bank_mca_remittances_detected"]);
+  });
+
+  it("flags the latest year whose deposits miss reported gross receipts", () => {
+    const flags = flagFromBankTransactions(makeInput(makeReport({
+      revenue_verification: [
+        { year: 2023, reported_gross_receipts: 900_000, true_deposits: 1_200_000, months_covered: 12, annualized_deposits: 1_200_000, variance_pct: 0.333, status: "deposits_above_receipts" },
+        { year: 2024, reported_gross_receipts: 800_000, true_deposits: 300_000, months_covered: 6, annualized_deposits: 600_000, variance_pct: -0.25, status: "deposits_below_receipts" },
+      ],
+    })));
+    assert.equal(flags.length, 1);
+    assert.equal(flags[0].trigger_type, "bank_deposits_below_gross_receipts");
+    assert.equal(flags[0].year_observed, 2024);
+    assert.ok(flags[0].banker_summary.includes("25.0% below"));
+  });
+
+  it("is collected by the composer", () => {
+    const result = composeFlagReport(makeInput(makeReport({ recurring_debits: [mcaDebit] })));
+    assert.ok(result.has_blocking_flags);
+    assert.ok(result.flags.some((f) => f.trigger_type === "bank_mca_remittances_detected"));
+  });
+});
@@ -11,6 +11,8 @@ import "server-only";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import type { FlagEngineInput } from "./types";
 import type { ResearchInference } from "@/lib/research/types";
+import { loadBankTransactionAnalysis } from "@/lib/deposits/loadBankTransactionAnalysis";
+import type { BankTransactionAnalysis } from "@/lib/deposits/bankTransactionAnalyzer";
 
 // ---------------------------------------------------------------------------
 // Main
@@ -31,6 +33,9 @@ export async function buildFlagEngineInput(dealId: string): Promise<FlagEngineIn
   // 4. Load research inferences (optional)
   const research_inferences = await loadResearchInferences(sb, dealId);
 
+  // 5. Transaction-level bank analysis (optional — Plaid and/or parsed statements)
+  const bank_transaction_report = await loadBankReport(sb, dealId, canonical_facts, years_available);
+
   // QoE and trend reports have no dedicated tables yet — pass undefined
   return {
     deal_id: dealId,
@@ -39,6 +44,7 @@ export async function buildFlagEngineInput(dealId: string): Promise<FlagEngineIn
     years_available,
     deal_type: deal_type ?? undefined,
     research_inferences: research_inferences.length > 0 ? research_inferences : undefined,
+    bank_transaction_report: bank_transaction_report ?? undefined,
     // qoe_report: undefined — no DB table
     // trend_report: undefined — no DB table
   };
@@ -213,3 +219,30 @@ async function loadResearchInferences(
     return [];
   }
 }
+
+// ---------------------------------------------------------------------------
+// Bank transaction analysis loader
+// ---------------------------------------------------------------------------
+
+async function loadBankReport(
+  sb: ReturnType<typeof supabaseAdmin>,
+  dealId: string,
+  facts: Record<string, unknown>,
+  years: number[],
+): Promise<BankTransactionAnalysis | null> {
+  try {
+    const grossReceiptsByYear: Record<number, number> = {};
+    for (const year of years) {
+      const v = facts[`GROSS_RECEIPTS_${year}`];
+      if (typeof v === "number") grossReceiptsByYear[year] = v;
+    }
+    const report = await loadBankTransactionAnalysis(sb as any, { dealId, grossReceiptsByYear });
+    return report.transaction_count > 0 ? report : null;
+  } catch (err: any) {
+    console.warn("[buildFlagEngineInput] bank transaction analysis failed (non-fatal)", {
+      dealId,
+      error: err?.message,
+    });
+    return null;
+  }
+}
@@ -1,5 +1,5 @@
 /**
- * Flag Composer — orchestrates all 5 flag modules, deduplicates, and sorts.
+ * Flag Composer — orchestrates all 6 flag modules, deduplicates, and sorts.
  *
  * Pure function — no DB, no server imports.
  */
@@ -10,6 +10,7 @@ import { flagFromReconciliation } from "./flagFromReconciliation";
 import { flagFromQoE } from "./flagFromQoE";
 import { flagFromTrends } from "./flagFromTrends";
 import { flagFromDocuments } from "./flagFromDocuments";
+import { flagFromBankTransactions } from "./flagFromBankTransactions";
 import { resetFlagCounter } from "./flagHelpers";
 
 // ---------------------------------------------------------------------------
@@ -38,13 +39,14 @@ export function composeFlagReport(input: FlagEngineInput): FlagEngineOutput {
   // Reset counter for deterministic IDs within a single run
   resetFlagCounter();
 
-  // 1. Collect flags from all 5 modules
+  // 1. Collect flags from all 6 modules
   const allFlags: SpreadFlag[] = [
     ...flagFromRatios(input),
     ...flagFromReconciliation(input),
     ...flagFromQoE(input),
     ...flagFromTrends(input),
     ...flagFromDocuments(input),
+    ...flagFromBankTransactions(input),
   ];
 
   // 2. Deduplicate: same trigger_type + same canonical_keys → keep higher severity
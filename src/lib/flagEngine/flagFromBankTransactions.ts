@@ -0,0 +1,125 @@
+/**
+ * Flag from Bank Transactions — NSF/overdraft activity, MCA remittances,
+ * undisclosed debt payments, and deposits vs. reported gross receipts, from
+ * the transaction-level analysis in deposits/bankTransactionAnalyzer.ts.
+ *
+ * Pure function — no DB, no server imports.
+ */
+
+import type { FlagEngineInput, SpreadFlag } from "./types";
+import { buildFlag, fmtDollars, fmtPct } from "./flagHelpers";
+import { getRule } from "./flagRegistry";
+import { generateQuestion } from "./questionGenerator";
+
+/** NSF + overdraft events in twelve months that raise a flag, and that make it critical. */
+export const NSF_FLAG_THRESHOLD = 3;
+export const NSF_CRITICAL_THRESHOLD = 6;
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+export function flagFromBankTransactions(input: FlagEngineInput): SpreadFlag[] {
+  const report = input.bank_transaction_report;
+  if (!report || report.transaction_count === 0) return [];
+
+  const flags: SpreadFlag[] = [];
+  const { deal_id, canonical_facts: facts } = input;
+  const span = `${report.period_start} to ${report.period_end}`;
+
+  // 1. NSF / overdraft activity
+  const nsf = report.nsf_events_trailing_12m;
+  if (nsf >= NSF_FLAG_THRESHOLD) {
+    flags.push(makeBankFlag(
+      deal_id, "bank_nsf_overdraft_activity", nsf, undefined,
+      `${nsf} NSF / overdraft events in the trailing twelve months of bank activity.`,
+      `Bank activity from ${span} shows ${report.totals.nsf_count} NSF / returned-item charges and ${report.totals.overdraft_count} overdraft charges; ${nsf} fall in the trailing twelve months.`,
+      `Repeated NSF and overdraft activity indicates the operating account is routinely short of cash, which undercuts reliance on historical cash flow for debt service.`,
+      facts,
+      nsf >= NSF_CRITICAL_THRESHOLD ? "critical" : undefined,
+    ));
+  }
+
+  // 2. Merchant cash advance remittances
+  const mca = report.recurring_debits.filter((d) => d.kind === "mca" && d.active);
+  if (mca.length > 0) {
+    const monthly = mca.reduce((s, d) => s + d.monthly_payment, 0);
+    flags.push(makeBankFlag(
+      deal_id, "bank_mca_remittances_detected", monthly, undefined,
+      `${mca.length} active merchant cash advance remittance stream${mca.length > 1 ? "s" : ""} totaling about ${fmtDollars(monthly)} per month.`,
+      `Recurring debits consistent with merchant cash advance remittances: ${mca.map((d) => `${d.counterparty} (${d.cadence}, ~${fmtDollars(d.typical_amount)} per debit, ${d.occurrences} debits since ${d.first_date}${d.basis === "cadence" ? ", identified by fixed-amount cadence" : ""})`).join("; ")}.`,
+      `MCA remittances take a share of daily receipts ahead of any new lender, usually at a high effective cost, and are often stacked. They must be in the debt service analysis or paid off at closing.`,
+      facts,
+    ));
+  }
+
+  // 3. Undisclosed recurring debt payments
+  const undisclosed = report.recurring_debits.filter((d) => !d.disclosed && d.active);
+  if (undisclosed.length > 0) {
+    const monthly = undisclosed.reduce((s, d) => s + d.monthly_payment, 0);
+    flags.push(makeBankFlag(
+      deal_id, "bank_undisclosed_debt_payments", monthly * 12, undefined,
+      `${undisclosed.length} recurring lender payment${undisclosed.length > 1 ? "s" : ""} in bank activity not on the debt schedule (~${fmtDollars(monthly * 12)} annual debt service).`,
+      `Recurring debits not matched to the existing debt schedule: ${undisclosed.map((d) => `${d.counterparty} (${d.kind}, ${d.cadence}, ~${fmtDollars(d.monthly_payment)}/month)`).join("; ")}.`,
+      `Debt service missing from the schedule overstates coverage. Each obligation should be confirmed and added to the existing debt schedule before DSCR is relied on.`,
+      facts,
+    ));
+  }
+
+  // 4. Deposits vs. reported gross receipts — most recent comparable year
+  const latest = [...report.revenue_verification]
+    .reverse()
+    .find((r) => r.status === "deposits_below_receipts" || r.status === "deposits_above_receipts");
+  if (latest && latest.variance_pct !== null) {
+    const below = latest.status === "deposits_below_receipts";
+    flags.push(makeBankFlag(
+      deal_id, below ? "bank_deposits_below_gross_receipts" : "bank_deposits_above_gross_receipts",
+      latest.variance_pct, latest.year,
+      `${latest.year} annualized bank deposits are ${fmtPct(Math.abs(latest.variance_pct))} ${below ? "below" : "above"} reported gross receipts.`,
+      `True deposits (transfers, loan proceeds and reversals excluded) of ${fmtDollars(latest.true_deposits)} over ${latest.months_covered} month${latest.months_covered > 1 ? "s" : ""} of ${latest.year} annualize to ${fmtDollars(latest.annualized_deposits)}, against reported gross receipts of ${fmtDollars(latest.reported_gross_receipts)}.`,
+      below
+        ? `Deposits well below reported revenue can mean receipts flow through accounts not provided, or that reported revenue is overstated.`
+        : `Deposits well above reported revenue can mean non-operating inflows not excluded here, or revenue not reported on the return.`,
+      facts,
+    ));
+  }
+
+  return flags;
+}
+
+// ---------------------------------------------------------------------------
+// Helper
+// ---------------------------------------------------------------------------
+
+function makeBankFlag(
+  dealId: string,
+  triggerType: string,
+  observedValue: number | string | null,
+  yearObserved: number | undefined,
+  bankerSummary: string,
+  bankerDetail: string,
+  bankerImplication: string,
+  facts: Record<string, unknown>,
+  severity?: SpreadFlag["severity"],
+): SpreadFlag {
+  const rule = getRule(triggerType);
+  const flag = buildFlag({
+    dealId,
+    triggerType,
+    category: rule?.category ?? "financial_irregularity",
+    severity: severity ?? rule?.default_severity ?? "watch",
+    canonicalKeys: rule?.canonical_keys_involved ?? [],
+    observedValue,
+    yearObserved,
+    bankerSummary,
+    bankerDetail,
+    bankerImplication,
+    borrowerQuestion: null,
+  });
+
+  if (rule?.generates_question) {
+    flag.borrower_question = generateQuestion(flag, facts);
+  }
+
+  return flag;
+}
@@ -372,6 +372,53 @@ export const FLAG_RULES: FlagRule[] = [
     recipient_type: "borrower",
   },
 
+  // ── Bank transaction flags ───────────────────────────────────────────────
+  {
+    trigger_type: "bank_nsf_overdraft_activity",
+    category: "financial_irregularity",
+    default_severity: "elevated",
+    description: "Three or more NSF / overdraft events in the trailing twelve months of bank activity",
+    canonical_keys_involved: ["BS_NSF_COUNT"],
+    generates_question: true,
+    recipient_type: "borrower",
+  },
+  {
+    trigger_type: "bank_mca_remittances_detected",
+    category: "financial_irregularity",
+    default_severity: "critical",
+    description: "Active daily or weekly debits consistent with merchant cash advance remittances",
+    canonical_keys_involved: ["BANK_TOTAL_WITHDRAWALS"],
+    generates_question: true,
+    recipient_type: "borrower",
+  },
+  {
+    trigger_type: "bank_undisclosed_debt_payments",
+    category: "financial_irregularity",
+    default_severity: "elevated",
+    description: "Recurring lender debits in bank activity that are not on the deal's debt schedule",
+    canonical_keys_involved: ["ANNUAL_DEBT_SERVICE"],
+    generates_question: true,
+    recipient_type: "borrower",
+  },
+  {
+    trigger_type: "bank_deposits_below_gross_receipts",
+    category: "financial_irregularity",
+    default_severity: "elevated",
+    description: "Annualized true bank deposits more than 15% below reported gross receipts",
+    canonical_keys_involved: ["BANK_TOTAL_DEPOSITS", "GROSS_RECEIPTS"],
+    generates_question: true,
+    recipient_type: "borrower",
+  },
+  {
+    trigger_type: "bank_deposits_above_gross_receipts",
+    category: "financial_irregularity",
+    default_severity: "watch",
+    description: "Annualized true bank deposits more than 15% above reported gross receipts",
+    canonical_keys_involved: ["BANK_TOTAL_DEPOSITS", "GROSS_RECEIPTS"],
+    generates_question: true,
+    recipient_type: "borrower",
+  },
+
   // ── Policy proximity flags (banker only) ─────────────────────────────────
   {
     trigger_type: "dscr_proximity_within_10pct",
@@ -11,6 +11,7 @@ export { flagFromReconciliation } from "./flagFromReconciliation";
 export { flagFromQoE } from "./flagFromQoE";
 export { flagFromTrends } from "./flagFromTrends";
 export { flagFromDocuments } from "./flagFromDocuments";
+export { flagFromBankTransactions } from "./flagFromBankTransactions";
 
 export type {
   FlagCategory,
@@ -27,4 +28,5 @@ export type {
   QoEReport,
   TrendReport,
   ConsolidatedSpread,
+  BankTransactionReport,
 } from "./types";
@@ -126,7 +126,8 @@ function getUrgency(triggerType: string): DocumentUrgency {
     "current_ratio_below_1x", "revenue_variance_3pct",
     "k1_orphan_entity", "qoe_total_adjustments_exceed_20pct",
     "undisclosed_contingent_liability", "provider_concentration_80pct",
-    "construction_budget_missing",
+    "construction_budget_missing", "bank_mca_remittances_detected",
+    "bank_undisclosed_debt_payments",
   ];
   if (criticalTriggers.includes(triggerType)) return "required_before_approval";
 
@@ -502,4 +503,53 @@ const TEMPLATES: Record<string, TemplateFn> = {
       documentFormat: "PDF or Excel",
     };
   },
+
+  // ── Bank transaction questions ───────────────────────────────────────────
+  bank_nsf_overdraft_activity: (flag) => {
+    const count = toNum(flag.observed_value) ?? 0;
+    return {
+      questionText: `Your bank statements show ${count} non-sufficient funds or overdraft charges over the past twelve months. Could you describe what caused these — for example timing of customer payments, seasonal slowdowns, or a specific event — and what has been done to prevent them going forward?`,
+      questionContext: `Recurring NSF and overdraft activity indicates tight operating liquidity.`,
+    };
+  },
+
+  bank_mca_remittances_detected: (flag) => {
+    const monthly = toNum(flag.observed_value);
+    return {
+      questionText: `Your bank activity shows recurring daily or weekly debits${monthly !== null ? " of roughly " + fmtDollars(monthly) + " per month" : ""} that appear to be merchant cash advance or similar financing remittances. Could you provide the funding agreement for each advance along with a current payoff letter?`,
+      questionContext: `Merchant cash advance obligations must be included in debt service or retired at closing.`,
+      documentRequested: "Merchant cash advance agreements and current payoff letters",
+      documentFormat: "PDF",
+    };
+  },
+
+  bank_undisclosed_debt_payments: (flag) => {
+    const annual = toNum(flag.observed_value);
+    return {
+      questionText: `We noted recurring loan-type payments in your bank activity${annual !== null ? " totaling about " + fmtDollars(annual) + " per year" : ""} that are not on the business debt schedule provided. Could you confirm each obligation and provide an updated debt schedule showing the lender, current balance, payment, and maturity?`,
+      questionContext: `Bank activity shows debt payments not reflected in the existing debt schedule.`,
+      documentRequested: "Updated business debt schedule",
+      documentFormat: "PDF or Excel",
+    };
+  },
+
+  bank_deposits_below_gross_receipts: (flag) => {
+    const pct = toNum(flag.observed_value);
+    const yr = flag.year_observed ?? "";
+    return {
+      questionText: `Deposits in the bank statements provided for ${yr} run about ${pct !== null ? fmtPct(Math.abs(pct)) : "materially"} below the gross receipts on your ${yr} tax return. Are business receipts deposited to any other accounts? If so, please provide statements for those accounts for the same period.`,
+      questionContext: `Bank deposits should broadly support reported revenue.`,
+      documentRequested: `Bank statements for all business operating accounts for ${yr}`,
+      documentFormat: "PDF",
+    };
+  },
+
+  bank_deposits_above_gross_receipts: (flag) => {
+    const pct = toNum(flag.observed_value);
+    const yr = flag.year_observed ?? "";
+    return {
+      questionText: `Deposits in the bank statements provided for ${yr} run about ${pct !== null ? fmtPct(Math.abs(pct)) : "materially"} above the gross receipts on your ${yr} tax return. Could you identify any large non-sales deposits during the year, such as owner contributions, loan proceeds, asset sales, or insurance proceeds?`,
+      questionContext: `Deposits above reported revenue usually reflect non-operating inflows that should be identified.`,
+    };
+  },
 };
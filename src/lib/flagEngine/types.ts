@@ -8,6 +8,7 @@ import type { QualityOfEarningsReport } from "../spreads/qoeEngine";
 import type { TrendAnalysisResult } from "../trends/trendAnalysis";
 import type { ConsolidationResult } from "../consolidation/consolidationEngine";
 import type { ResearchInference } from "../research/types";
+import type { BankTransactionAnalysis } from "../deposits/bankTransactionAnalyzer";
 
 // ---------------------------------------------------------------------------
 // Enum-like unions
@@ -88,6 +89,7 @@ export interface BorrowerQuestion {
 export type QoEReport = QualityOfEarningsReport;
 export type TrendReport = TrendAnalysisResult;
 export type ConsolidatedSpread = ConsolidationResult;
+export type BankTransactionReport = BankTransactionAnalysis;
 
 // ---------------------------------------------------------------------------
 // Engine I/O
@@ -103,6 +105,7 @@ export interface FlagEngineInput {
   years_available: number[];
   deal_type?: string;
   research_inferences?: ResearchInference[];
+  bank_transaction_report?: BankTransactionReport;
 }
 
 export interface FlagEngineOutput {
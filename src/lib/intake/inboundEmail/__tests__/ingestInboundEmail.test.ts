@@ -0,0 +1,351 @@
+/**
+ * Inbound email → intake: routing by address token, sender verification
+ * against deal participants, quarantine + banker release, de-duplication,
+ * per-attachment failures and retries of unfinished messages.
+ * Exercised against an in-memory fake Supabase client injected via deps.
+ */
+
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  ensureInboundAddress,
+  ingestInboundEmail,
+  loadVerifiedSenders,
+  releaseQuarantinedInboundEmail,
+  selectIntakeAttachments,
+  type InboundEmailDeps,
+} from "../ingestInboundEmail";
+
+type Row = Record<string, any>;
+
+const FIXTURE = fs.readFileSync(path.join(__dirname, "fixtures", "cpa-tax-return.eml"));
+
+/** Verified CPA message with three PDF attachments a.pdf, b.pdf, c.pdf. */
+const THREE_PDFS = Buffer.from(
+  [
+    "Authentication-Results: mx.inbound.buddy.test; dmarc=pass header.from=smithcpa.com",
+    'From: "Smith, Jane" <Jane@SmithCPA.com>',
+    "To: docs+d0123456789ab@inbound.buddy.test",
+    "Subject: Statements",
+    "Message-ID: <three@mail.smithcpa.com>",
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/mixed; boundary="b"',
+    "",
+    "--b",
+    "Content-Type: text/plain",
+    "",
+    "Three statements attached.",
+    ...["a", "b", "c"].flatMap((name) => [
+      "--b",
+      `Content-Type: application/pdf; name="${name}.pdf"`,
+      `Content-Disposition: attachment; filename="${name}.pdf"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from(`%PDF-1.4 ${name}`).toString("base64"),
+    ]),
+    "--b--",
+    "",
+  ].join("\r\n"),
+);
+
+/** Fake supporting select/insert/update with eq/in/is filters, single/maybeSingle, and storage. */
+class FakeDb {
+  objects = new Map<string, Buffer>();
+  private seq = 0;
+  constructor(public tables: Record<string, Row[]>) {}
+
+  from = (table: string) => {
+    const filters: Array<(r: Row) => boolean> = [];
+    let op: "select" | "update" | "insert" = "select";
+    let payload: Row = {};
+    const matches = () => (this.tables[table] ?? []).filter((r) => filters.every((f) => f(r)));
+    const run = (): { data: any; error: any } => {
+      if (op === "insert") {
+        const row = { id: `${table}-${++this.seq}`, ...payload };
+        (this.tables[table] ??= []).push(row);
+        return { data: [row], error: null };
+      }
+      if (op === "update") {
+        for (const r of matches()) Object.assign(r, payload);
+        return { data: null, error: null };
+      }
+      return { data: matches(), error: null };
+    };
+    const one = () => {
+      const { data, error } = run();
+      return Promise.resolve({ data: Array.isArray(data) ? (data[0] ?? null) : data, error });
+    };
+    const b: any = {
+      select: () => b,
+      insert: (p: Row) => ((op = "insert"), (payload = p), b),
+      update: (p: Row) => ((op = "update"), (payload = p), b),
+      eq: (c: string, v: unknown) => (filters.push((r) => r[c] === v), b),
+      in: (c: string, vs: unknown[]) => (filters.push((r) => vs.includes(r[c])), b),
+      is: (c: string, v: unknown) => (filters.push((r) => (r[c] ?? null) === v), b),
+      order: () => b,
+      limit: () => b,
+      single: one,
+      maybeSingle: one,
+      then: (ok: (v: unknown) => unknown, bad?: (e: unknown) => unknown) => Promise.resolve(run()).then(ok, bad),
+    };
+    return b;
+  };
+
+  storage = {
+    from: (bucket: string) => ({
+      upload: async (p: string, bytes: Buffer) => {
+        this.objects.set(`${bucket}/${p}`, Buffer.from(bytes));
+        return { data: { path: p }, error: null };
+      },
+      download: async (p: string) => {
+        const bytes = this.objects.get(`${bucket}/${p}`);
+        return bytes ? { data: new Blob([new Uint8Array(bytes)]), error: null } : { data: null, error: { message: "not found" } };
+      },
+    }),
+  };
+}
+
+function setup(opts: { participants?: Row[] } = {}) {
+  const db = new FakeDb({
+    deals: [{ id: "deal-1", bank_id: "bank-1", borrower_email: "owner@acme.test", borrower_id: "b-1" }],
+    borrowers: [{ id: "b-1", primary_contact_email: "cfo@acme.test" }],
+    borrower_request_campaigns: [],
+    deal_party_roles: opts.participants ?? [{ deal_id: "deal-1", person_id: "p-1", role: "cpa" }],
+    crm_people: [{ id: "p-1", email: "Jane@SmithCPA.com" }],
+    deal_inbound_addresses: [
+      { id: "addr-1", bank_id: "bank-1", deal_id: "deal-1", campaign_id: null, token: "d0123456789ab", status: "active" },
+    ],
+    inbound_email_messages: [],
+    deal_documents: [],
+  });
+  const events: Row[] = [];
+  const ingested: Row[] = [];
+  const activities: Row[] = [];
+  const intakeRuns: Row[] = [];
+  const deps: InboundEmailDeps = {
+    sb: db,
+    writeEvent: async (e) => {
+      events.push(e);
+      return { ok: true };
+    },
+    ingest: async (input) => {
+      ingested.push(input);
+      return { documentId: `doc-${ingested.length}`, checklistKey: ingested.length === 1 ? "BTR_2024" : null };
+    },
+    logActivity: async (input) => {
+      activities.push(input);
+      return { id: "act-1" };
+    },
+    runIntake: async (args) => {
+      intakeRuns.push(args);
+    },
+    now: () => new Date("2026-10-19T13:15:00Z"),
+  };
+  return { db, events, ingested, activities, intakeRuns, deps };
+}
+
+describe("ingestInboundEmail", () => {
+  test("verified CPA: document attachments go through ingest, body is logged, intake runs", async () => {
+    const { db, events, ingested, activities, intakeRuns, deps } = setup();
+    const res = await ingestInboundEmail({ raw: FIXTURE, transport: "local_file" }, deps);
+
+    assert.equal(res.status, "ingested");
+    assert.equal(res.dealId, "deal-1");
+    assert.deepEqual(res.documentIds, ["doc-1", "doc-2"]);
+    assert.deepEqual(res.skipped, [
+      { filename: "logo.png", reason: "inline_image" },
+      { filename: "invite.ics", reason: "unsupported_type" },
+    ]);
+
+    assert.deepEqual(ingested.map((i) => i.file.original_filename), ["Acme 1065 2024.pdf", "K-1 Partner №1.pdf"]);
+    assert.equal(ingested[0].source, "borrower");
+    assert.equal(ingested[0].metadata.source_detail, "inbound_email");
+    assert.equal(ingested[0].metadata.sender_role, "cpa");
+    assert.match(ingested[0].file.storagePath, /^deals\/deal-1\/email\/2026-10-19T13-15-00-000Z_[0-9a-f]{12}_Acme 1065 2024\.pdf$/);
+    assert.ok(db.objects.has(`deal-uploads/${ingested[0].file.storagePath}`));
+
+    assert.equal(activities.length, 1);
+    assert.equal(activities[0].direction, "inbound");
+    assert.equal(activities[0].title, "2024 returns — Acme LLC");
+    assert.match(activities[0].properties.body, /attached are the 2024 business return/);
+    assert.deepEqual(activities[0].properties.attachments, [
+      { filename: "Acme 1065 2024.pdf", checklist_key: "BTR_2024" },
+      { filename: "K-1 Partner №1.pdf", checklist_key: null },
+    ]);
+
+    const row = db.tables.inbound_email_messages[0];
+    assert.equal(row.status, "ingested");
+    assert.equal(row.transport, "local_file");
+    assert.deepEqual(row.document_ids, ["doc-1", "doc-2"]);
+    assert.equal(row.activity_id, "act-1");
+    assert.ok(db.objects.has(`deal-uploads/${row.raw_storage_path}`));
+
+    assert.deepEqual(events.map((e) => e.kind), ["intake.inbound_email_ingested"]);
+    assert.deepEqual(intakeRuns, [{ dealId: "deal-1", bankId: "bank-1" }]);
+  });
+
+  test("provider retry of the same Message-ID is a duplicate and ingests nothing", async () => {
+    const { db, ingested, deps } = setup();
+    await ingestInboundEmail({ raw: FIXTURE }, deps);
+    const again = await ingestInboundEmail({ raw: FIXTURE }, deps);
+    assert.equal(again.status, "duplicate");
+    assert.equal(ingested.length, 2);
+    assert.equal(db.tables.inbound_email_messages.length, 1);
+  });
+
+  test("one failing attachment is recorded on the row and the others still ingest", async () => {
+    const { db, ingested, deps } = setup();
+    const ingest = deps.ingest;
+    deps.ingest = async (input) => {
+      if (input.file.original_filename === "b.pdf") throw new Error("ocr queue unavailable");
+      return ingest(input);
+    };
+
+    const res = await ingestInboundEmail({ raw: THREE_PDFS }, deps);
+    assert.equal(res.status, "ingested");
+    assert.deepEqual(ingested.map((i) => i.file.original_filename), ["a.pdf", "c.pdf"]);
+    assert.deepEqual(res.skipped, [{ filename: "b.pdf", reason: "ingest_failed: ocr queue unavailable" }]);
+
+    const row = db.tables.inbound_email_messages[0];
+    assert.equal(row.status, "ingested");
+    assert.equal(row.reason, "attachments_failed");
+    assert.deepEqual(row.document_ids, ["doc-1", "doc-2"]);
+    assert.deepEqual(row.skipped_attachments, res.skipped);
+  });
+
+  test("a retry of a message left in received is routed again, not dropped as a duplicate", async () => {
+    const { db, ingested, deps } = setup();
+    db.tables.inbound_email_messages.push({
+      id: "msg-crashed",
+      bank_id: "bank-1",
+      deal_id: "deal-1",
+      address_id: "addr-1",
+      message_id: "three@mail.smithcpa.com",
+      status: "received",
+    });
+    // a.pdf landed before the crash.
+    const aSha = createHash("sha256").update("%PDF-1.4 a").digest("hex");
+    db.tables.deal_documents.push({ id: "doc-a", deal_id: "deal-1", sha256: aSha });
+
+    const res = await ingestInboundEmail({ raw: THREE_PDFS }, deps);
+    assert.equal(res.status, "ingested");
+    assert.equal(res.messageRowId, "msg-crashed");
+    assert.deepEqual(ingested.map((i) => i.file.original_filename), ["b.pdf", "c.pdf"]);
+    assert.deepEqual(res.skipped, [{ filename: "a.pdf", reason: "duplicate_document" }]);
+    assert.equal(db.tables.inbound_email_messages.length, 1);
+    assert.equal(db.tables.inbound_email_messages[0].status, "ingested");
+
+    const again = await ingestInboundEmail({ raw: THREE_PDFS }, deps);
+    assert.equal(again.status, "duplicate");
+  });
+
+  test("attachment already on the deal (same sha256) is skipped", async () => {
+    const { db, ingested, deps } = setup();
+    await ingestInboundEmail({ raw: FIXTURE }, deps);
+    db.tables.deal_documents.push(...ingested.map((i, n) => ({ id: `doc-${n + 1}`, deal_id: "deal-1", sha256: i.file.sha256 })));
+    const resent = FIXTURE.toString("latin1").replace("CAE1x7Q@", "RESEND@");
+    const res = await ingestInboundEmail({ raw: Buffer.from(resent, "latin1") }, deps);
+    assert.equal(res.status, "ingested");
+    assert.deepEqual(res.documentIds, []);
+    assert.deepEqual(res.skipped.filter((s) => s.reason === "duplicate_document").map((s) => s.filename), [
+      "Acme 1065 2024.pdf",
+      "K-1 Partner №1.pdf",
+    ]);
+  });
+
+  test("unknown sender is quarantined, then a banker release ingests it", async () => {
+    const { db, events, ingested, deps } = setup({ participants: [] });
+    const res = await ingestInboundEmail({ raw: FIXTURE }, deps);
+    assert.equal(res.status, "quarantined");
+    assert.equal(res.reason, "unverified_sender");
+    assert.equal(ingested.length, 0);
+    assert.deepEqual(events.map((e) => e.kind), ["intake.inbound_email_quarantined"]);
+
+    const rel = await releaseQuarantinedInboundEmail(
+      { messageRowId: res.messageRowId!, dealId: "deal-1", bankId: "bank-1", userId: "user_banker" },
+      deps,
+    );
+    assert.ok(rel.ok);
+    assert.deepEqual(rel.result.documentIds, ["doc-1", "doc-2"]);
+    const row = db.tables.inbound_email_messages[0];
+    assert.equal(row.status, "ingested");
+    assert.equal(row.released_by, "user_banker");
+    assert.equal(events[1].actorUserId, "user_banker");
+
+    const twice = await releaseQuarantinedInboundEmail(
+      { messageRowId: res.messageRowId!, dealId: "deal-1", bankId: "bank-1", userId: "user_banker" },
+      deps,
+    );
+    assert.deepEqual(twice, { ok: false, error: "not_quarantined" });
+  });
+
+  test("release is scoped to the caller's bank", async () => {
+    const { deps } = setup({ participants: [] });
+    const res = await ingestInboundEmail({ raw: FIXTURE }, deps);
+    const rel = await releaseQuarantinedInboundEmail(
+      { messageRowId: res.messageRowId!, dealId: "deal-1", bankId: "bank-2", userId: "u" },
+      deps,
+    );
+    assert.deepEqual(rel, { ok: false, error: "message_not_found" });
+  });
+
+  test("participant address with a DMARC failure is quarantined", async () => {
+    const { deps } = setup();
+    const spoofed = FIXTURE.toString("latin1").replace("dmarc=pass", "dmarc=fail");
+    const res = await ingestInboundEmail({ raw: Buffer.from(spoofed, "latin1") }, deps);
+    assert.equal(res.status, "quarantined");
+    assert.equal(res.reason, "dmarc_fail");
+  });
+
+  test("disabled or unknown token is rejected and recorded without a deal", async () => {
+    const { db, ingested, deps } = setup();
+    db.tables.deal_inbound_addresses[0].status = "disabled";
+    const res = await ingestInboundEmail({ raw: FIXTURE }, deps);
+    assert.equal(res.status, "rejected");
+    assert.equal(res.reason, "unknown_address");
+    assert.equal(ingested.length, 0);
+    assert.equal(db.tables.inbound_email_messages[0].deal_id, undefined);
+  });
+
+  test("mail with no inbound address is rejected", async () => {
+    const { deps } = setup();
+    const res = await ingestInboundEmail({ raw: Buffer.from("From: a@b.test\r\nTo: c@d.test\r\n\r\nhi") }, deps);
+    assert.equal(res.reason, "no_inbound_address");
+  });
+});
+
+describe("helpers", () => {
+  test("loadVerifiedSenders merges deal, borrower and party-role contacts", async () => {
+    const { db } = setup();
+    db.tables.borrower_request_campaigns.push({ deal_id: "deal-1", borrower_email: "ap@acme.test" });
+    const senders = await loadVerifiedSenders(db, "deal-1");
+    assert.deepEqual([...senders], [
+      ["owner@acme.test", "borrower"],
+      ["cfo@acme.test", "borrower"],
+      ["ap@acme.test", "borrower"],
+      ["jane@smithcpa.com", "cpa"],
+    ]);
+  });
+
+  test("selectIntakeAttachments caps the attachment count", () => {
+    const pdf = { filename: "x.pdf", contentType: "application/pdf", bytes: Buffer.from("%PDF"), inline: false, contentId: null };
+    const { accepted, skipped } = selectIntakeAttachments(Array.from({ length: 27 }, () => pdf));
+    assert.equal(accepted.length, 25);
+    assert.deepEqual(new Set(skipped.map((s) => s.reason)), new Set(["too_many_attachments"]));
+  });
+
+  test("ensureInboundAddress is idempotent per deal and per campaign", async () => {
+    const { db } = setup();
+    const deal = await ensureInboundAddress({ dealId: "deal-1", bankId: "bank-1" }, db);
+    assert.equal(deal.token, "d0123456789ab");
+    const camp = await ensureInboundAddress({ dealId: "deal-1", bankId: "bank-1", campaignId: "camp-1" }, db);
+    assert.match(camp.token, /^c[0-9a-f]{12}$/);
+    const again = await ensureInboundAddress({ dealId: "deal-1", bankId: "bank-1", campaignId: "camp-1" }, db);
+    assert.equal(again.id, camp.id);
+    assert.equal(db.tables.deal_inbound_addresses.length, 2);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Inbound email MIME parsing + address routing (pure).
+ */
+
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+
+import { decodeEncodedWords, htmlToText, parseAddressList, parseMimeMessage } from "../mime";
+import { dmarcFailed, extractInboundTokens, generateInboundToken, inboundAddressFor } from "../addresses";
+
+const FIXTURE = fs.readFileSync(path.join(__dirname, "fixtures", "cpa-tax-return.eml"));
+
+describe("parseMimeMessage", () => {
+  const mail = parseMimeMessage(FIXTURE);
+
+  test("headers: from, recipients, envelope, encoded subject, message id", () => {
+    assert.deepEqual(mail.from, { name: "Smith, Jane", address: "jane@smithcpa.com" });
+    assert.deepEqual(mail.to.map((a) => a.address), ["lo@bank.test"]);
+    assert.deepEqual(mail.cc.map((a) => a.address), ["docs+d0123456789ab@inbound.buddy.test"]);
+    assert.deepEqual(mail.envelopeTo, ["docs+d0123456789ab@inbound.buddy.test"]);
+    assert.equal(mail.subject, "2024 returns — Acme LLC");
+    assert.equal(mail.messageId, "CAE1x7Q@mail.smithcpa.com");
+  });
+
+  test("body prefers text/plain and decodes quoted-printable utf-8", () => {
+    assert.match(mail.text, /^Hi team — attached are the 2024 business return and the K-1s\.\n/);
+    assert.match(mail.html ?? "", /<p>Hi team/);
+  });
+
+  test("attachments: base64 decoded, RFC 2231 filename, inline flag", () => {
+    assert.deepEqual(
+      mail.attachments.map((a) => [a.filename, a.contentType, a.inline]),
+      [
+        ["Acme 1065 2024.pdf", "application/pdf", false],
+        ["K-1 Partner №1.pdf", "application/pdf", false],
+        ["logo.png", "image/png", true],
+        ["invite.ics", "text/calendar", false],
+      ],
+    );
+    assert.equal(mail.attachments[0].bytes.subarray(0, 8).toString("latin1"), "%PDF-1.4");
+    assert.equal(mail.attachments[2].contentId, "logo@smithcpa");
+  });
+
+  test("forwarded message/rfc822 contributes its attachments but not its body", () => {
+    const inner = [
+      "From: borrower@acme.test",
+      "Subject: returns",
+      "Content-Type: multipart/mixed; boundary=in",
+      "",
+      "--in",
+      "Content-Type: text/plain",
+      "",
+      "inner body",
+      "--in",
+      'Content-Type: application/pdf; name="bank.pdf"',
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("%PDF-1.4 stmt").toString("base64"),
+      "--in--",
+    ].join("\r\n");
+    const raw = [
+      "From: lo@bank.test",
+      "To: docs+d0123456789ab@inbound.buddy.test",
+      "Subject: Fwd: returns",
+      "Content-Type: multipart/mixed; boundary=out",
+      "",
+      "--out",
+      "Content-Type: text/plain",
+      "",
+      "see below",
+      "--out",
+      "Content-Type: message/rfc822",
+      "",
+      inner,
+      "--out--",
+    ].join("\r\n");
+    const fwd = parseMimeMessage(raw);
+    assert.equal(fwd.text, "see below");
+    assert.deepEqual(fwd.attachments.map((a) => a.filename), ["bank.pdf"]);
+    assert.equal(fwd.attachments[0].bytes.toString(), "%PDF-1.4 stmt");
+  });
+
+  test("html-only mail falls back to stripped text", () => {
+    const m = parseMimeMessage("From: a@b.test\r\nContent-Type: text/html\r\n\r\n<div>Line one</div><p>Two &amp; three</p>");
+    assert.equal(m.text, "Line one\nTwo & three");
+  });
+
+  test("no headers is an error", () => {
+    assert.throws(() => parseMimeMessage("\r\n\r\njust a body"), /mime_no_headers/);
+  });
+});
+
+describe("header helpers", () => {
+  test("decodeEncodedWords joins adjacent words and handles B and Q", () => {
+    assert.equal(decodeEncodedWords("=?utf-8?B?VGF4?= =?utf-8?Q?_returns?="), "Tax returns");
+    assert.equal(decodeEncodedWords("plain"), "plain");
+  });
+
+  test("parseAddressList keeps quoted commas inside display names", () => {
+    assert.deepEqual(parseAddressList('"Doe, Jane" <JANE@x.com>, bob@y.com, not-an-address'), [
+      { name: "Doe, Jane", address: "jane@x.com" },
+      { name: null, address: "bob@y.com" },
+    ]);
+  });
+
+  test("htmlToText drops script/style", () => {
+    assert.equal(htmlToText("<style>p{}</style><p>a</p><script>x()</script>b"), "a\nb");
+  });
+});
+
+describe("inbound addresses", () => {
+  const env = { INBOUND_EMAIL_DOMAIN: "Inbound.Buddy.Test" };
+
+  test("tokens are kind-prefixed and format into the configured domain", () => {
+    assert.match(generateInboundToken("deal"), /^d[0-9a-f]{12}$/);
+    assert.match(generateInboundToken("campaign"), /^c[0-9a-f]{12}$/);
+    assert.equal(inboundAddressFor("d0123456789ab", env), "docs+d0123456789ab@inbound.buddy.test");
+    assert.equal(inboundAddressFor("d0123456789ab", { ...env, INBOUND_EMAIL_LOCAL_PREFIX: "loans" }), "loans+d0123456789ab@inbound.buddy.test");
+    assert.equal(inboundAddressFor("d0123456789ab", {}), null);
+  });
+
+  test("extractInboundTokens filters by domain, accepts catch-all local parts, de-duplicates", () => {
+    assert.deepEqual(
+      extractInboundTokens(
+        [
+          "lo@bank.test",
+          "docs+d0123456789ab@inbound.buddy.test",
+          "DOCS+D0123456789AB@inbound.buddy.test",
+          "c00000000000f@inbound.buddy.test",
+          "docs+d999999999999@elsewhere.test",
+          "docs+notatoken@inbound.buddy.test",
+        ],
+        env,
+      ),
+      ["d0123456789ab", "c00000000000f"],
+    );
+  });
+
+  test("dmarcFailed reads Authentication-Results", () => {
+    assert.equal(dmarcFailed(["mx; spf=pass; dmarc=fail (p=reject)"]), true);
+    assert.equal(dmarcFailed(["mx; dmarc=pass"]), false);
+    assert.equal(dmarcFailed(undefined), false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Inbound intake addresses.
+ *
+ * Pure. Each deal (and optionally each borrower request campaign) gets an
+ * unguessable token; mail to `docs+<token>@<INBOUND_EMAIL_DOMAIN>` (or
+ * `<token>@<domain>` for providers that route a catch-all) lands on that deal.
+ * Deal tokens start with "d", campaign tokens with "c" — purely cosmetic, the
+ * deal_inbound_addresses row is authoritative.
+ */
+import { randomBytes } from "node:crypto";
+
+export type InboundAddressKind = "deal" | "campaign";
+
+const TOKEN_RE = /^[dc][0-9a-f]{12}$/;
+const DEFAULT_LOCAL_PREFIX = "docs";
+
+export function generateInboundToken(kind: InboundAddressKind): string {
+  return `${kind === "campaign" ? "c" : "d"}${randomBytes(6).toString("hex")}`;
+}
+
+export function inboundAddressFor(
+  token: string,
+  env: Record<string, string | undefined> = process.env,
+): string | null {
+  const domain = env.INBOUND_EMAIL_DOMAIN?.trim().toLowerCase();
+  if (!domain) return null;
+  const prefix = env.INBOUND_EMAIL_LOCAL_PREFIX?.trim().toLowerCase() || DEFAULT_LOCAL_PREFIX;
+  return `${prefix}+${token}@${domain}`;
+}
+
+/**
+ * Tokens addressed by a message, in recipient order, de-duplicated. When a
+ * domain is configured, recipients on other domains are ignored so a CC to
+ * some other `docs+…` mailbox can't route mail onto a deal.
+ */
+export function extractInboundTokens(
+  recipients: string[],
+  env: Record<string, string | undefined> = process.env,
+): string[] {
+  const domain = env.INBOUND_EMAIL_DOMAIN?.trim().toLowerCase() || null;
+  const out: string[] = [];
+  for (const r of recipients) {
+    const addr = String(r || "").trim().toLowerCase();
+    const at = addr.lastIndexOf("@");
+    if (at <= 0) continue;
+    if (domain && addr.slice(at + 1) !== domain) continue;
+    const local = addr.slice(0, at);
+    const candidate = local.includes("+") ? local.slice(local.indexOf("+") + 1) : local;
+    if (TOKEN_RE.test(candidate) && !out.includes(candidate)) out.push(candidate);
+  }
+  return out;
+}
+
+export function normalizeEmailAddress(raw: string | null | undefined): string | null {
+  const s = String(raw ?? "").trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+$/.test(s) ? s : null;
+}
+
+/**
+ * Receiving MTAs stamp Authentication-Results. A DMARC fail means the From
+ * address was spoofed, so a matching participant address proves nothing.
+ */
+export function dmarcFailed(authResults: string[] | undefined): boolean {
+  return (authResults ?? []).some((v) => /\bdmarc=fail\b/i.test(v));
+}
@@ -0,0 +1,594 @@
+/**
+ * Inbound Email Intake.
+ *
+ * Turns a raw MIME message sent to a deal's inbound address into intake:
+ *
+ *   1. Resolve docs+<token>@… → deal_inbound_addresses (deal, optional campaign)
+ *   2. De-duplicate provider retries on (address, Message-ID); a retry of a
+ *      message whose routing never finished (row still "received") is
+ *      routed again rather than dropped
+ *   3. Verify the sender against deal participants — deal/borrower contact
+ *      email, borrower request campaign emails, and external deal parties
+ *      (CPA, attorney, …) from deal_party_roles. Unverified senders (or a
+ *      DMARC fail) are quarantined: logged, raw .eml kept, nothing ingested
+ *      until a banker releases the message.
+ *   4. Attachments → storage → ingestDocument (same path as portal uploads:
+ *      deal_documents insert, checklist auto-match, reconcile) → orchestrateIntake
+ *      (classification and the rest of the intake spine)
+ *   5. Body → crm_activities as an inbound email (unified comms timeline)
+ *
+ * Transports: the /api/webhooks/inbound-email provider webhook and
+ * scripts/ingest-inbound-email.ts for local .eml files — no mail provider
+ * needed to exercise the whole path.
+ *
+ * NOTE: this module intentionally does NOT import "server-only" and lazily
+ * loads its server dependencies only when none are injected, so it is
+ * unit-testable with a fake client under node:test (same pattern as
+ * mcp/writeTools.ts).
+ */
+import { createHash } from "node:crypto";
+import type { IngestDocumentInput } from "@/lib/documents/ingestDocument";
+import type { LogActivityInput } from "@/lib/comms/activities";
+import { parseMimeMessage, type ParsedMail, type ParsedMailAttachment } from "./mime";
+import { dmarcFailed, extractInboundTokens, generateInboundToken, normalizeEmailAddress } from "./addresses";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type InboundEmailTransport = "webhook" | "local_file";
+
+export type InboundEmailStatus = "ingested" | "quarantined" | "rejected" | "duplicate";
+
+export interface InboundEmailResult {
+  status: InboundEmailStatus;
+  messageRowId: string | null;
+  dealId: string | null;
+  documentIds: string[];
+  skipped: Array<{ filename: string; reason: string }>;
+  reason?: string;
+}
+
+type LedgerWriter = (args: {
+  dealId: string;
+  kind: string;
+  actorUserId?: string | null;
+  scope?: string;
+  action?: string;
+  input?: unknown;
+  meta?: Record<string, unknown>;
+}) => Promise<unknown>;
+
+export interface InboundEmailDeps {
+  sb: any;
+  writeEvent: LedgerWriter;
+  ingest: (input: IngestDocumentInput) => Promise<{ documentId: string; checklistKey: string | null }>;
+  logActivity: (input: LogActivityInput) => Promise<{ id: string }>;
+  /** Kick the intake spine (classification etc.) after new documents land. */
+  runIntake: (args: { dealId: string; bankId: string }) => Promise<void>;
+  now?: () => Date;
+}
+
+type AddressRow = { id: string; bank_id: string; deal_id: string; campaign_id: string | null };
+
+type MessageRow = {
+  id: string;
+  bank_id: string;
+  deal_id: string;
+  address_id: string | null;
+  message_id: string;
+  status: string;
+  raw_storage_bucket: string | null;
+  raw_storage_path: string | null;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_BUCKET = "deal-uploads";
+const MAX_ATTACHMENTS = 25;
+const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+/** Inline images under this size are signature logos / tracking pixels, not documents. */
+const INLINE_IMAGE_MIN_BYTES = 20_000;
+const SKIP_EXTENSIONS = /\.(ics|vcf|p7s|p7m|asc|sig|eml)$/i;
+const MAX_ACTIVITY_BODY_CHARS = 20_000;
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+/** Which attachments are documents for intake, and why the rest were skipped. */
+export function selectIntakeAttachments(attachments: ParsedMailAttachment[]): {
+  accepted: ParsedMailAttachment[];
+  skipped: Array<{ filename: string; reason: string }>;
+} {
+  const accepted: ParsedMailAttachment[] = [];
+  const skipped: Array<{ filename: string; reason: string }> = [];
+  for (const a of attachments) {
+    if (SKIP_EXTENSIONS.test(a.filename)) skipped.push({ filename: a.filename, reason: "unsupported_type" });
+    else if (a.contentType.startsWith("image/") && a.inline && a.bytes.length < INLINE_IMAGE_MIN_BYTES)
+      skipped.push({ filename: a.filename, reason: "inline_image" });
+    else if (a.bytes.length > MAX_ATTACHMENT_BYTES) skipped.push({ filename: a.filename, reason: "too_large" });
+    else if (accepted.length >= MAX_ATTACHMENTS) skipped.push({ filename: a.filename, reason: "too_many_attachments" });
+    else accepted.push(a);
+  }
+  return { accepted, skipped };
+}
+
+function sha256(bytes: Buffer | string): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+function safeFileName(name: string): string {
+  return (name || "attachment").replace(/[^\w.\-()+\s]/g, "_").slice(0, 150);
+}
+
+// ---------------------------------------------------------------------------
+// Default deps
+// ---------------------------------------------------------------------------
+
+const FROZEN_INTAKE_PHASES = [
+  "CONFIRMED_READY_FOR_PROCESSING",
+  "PROCESSING",
+  "PROCESSING_COMPLETE",
+  "PROCESSING_COMPLETE_WITH_ERRORS",
+];
+
+async function defaultDeps(): Promise<InboundEmailDeps> {
+  const [{ supabaseAdmin }, { writeEvent }, { ingestDocument }, { logActivity }] = await Promise.all([
+    import("@/lib/supabase/admin"),
+    import("@/lib/ledger/writeEvent"),
+    import("@/lib/documents/ingestDocument"),
+    import("@/lib/comms/activities"),
+  ]);
+  const sb = supabaseAdmin();
+  return {
+    sb,
+    writeEvent,
+    ingest: ingestDocument,
+    logActivity: (input) => logActivity(input, sb),
+    runIntake: async ({ dealId, bankId }) => {
+      // Same frozen-phase rule as portal uploads: never unseal a confirmed deal.
+      const { data: deal } = await sb.from("deals").select("intake_phase").eq("id", dealId).maybeSingle();
+      const phase = (deal as any)?.intake_phase as string | null;
+      if (phase && FROZEN_INTAKE_PHASES.includes(phase)) {
+        await writeEvent({
+          dealId,
+          kind: "intake.upload_received_while_frozen",
+          scope: "intake",
+          meta: { source: "inbound_email", frozen_phase: phase },
+        });
+        return;
+      }
+      const [{ invalidateIntakeSnapshot }, { orchestrateIntake }] = await Promise.all([
+        import("@/lib/intake/confirmation/invalidateIntakeSnapshot"),
+        import("@/lib/intake/orchestrateIntake"),
+      ]);
+      await invalidateIntakeSnapshot(dealId, "inbound_email");
+      await orchestrateIntake({ dealId, bankId, source: "system" });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sender verification
+// ---------------------------------------------------------------------------
+
+/** email → participant role for everyone allowed to send documents to this deal. */
+export async function loadVerifiedSenders(sb: any, dealId: string): Promise<Map<string, string>> {
+  const senders = new Map<string, string>();
+  const add = (email: unknown, role: string) => {
+    const e = normalizeEmailAddress(email as string);
+    if (e && !senders.has(e)) senders.set(e, role);
+  };
+
+  const { data: deal } = await sb.from("deals").select("borrower_email, borrower_id").eq("id", dealId).maybeSingle();
+  add(deal?.borrower_email, "borrower");
+
+  if (deal?.borrower_id) {
+    const { data: borrower } = await sb
+      .from("borrowers")
+      .select("primary_contact_email")
+      .eq("id", deal.borrower_id)
+      .maybeSingle();
+    add(borrower?.primary_contact_email, "borrower");
+  }
+
+  const { data: campaigns } = await sb.from("borrower_request_campaigns").select("borrower_email").eq("deal_id", dealId);
+  for (const c of campaigns ?? []) add(c.borrower_email, "borrower");
+
+  const { data: parties } = await sb.from("deal_party_roles").select("person_id, role").eq("deal_id", dealId);
+  const personRoles = new Map<string, string>();
+  for (const p of parties ?? []) if (p.person_id) personRoles.set(p.person_id, p.role);
+  if (personRoles.size > 0) {
+    const { data: people } = await sb.from("crm_people").select("id, email").in("id", [...personRoles.keys()]);
+    for (const person of people ?? []) add(person.email, personRoles.get(person.id) ?? "other");
+  }
+
+  return senders;
+}
+
+// ---------------------------------------------------------------------------
+// Routing a verified message into intake
+// ---------------------------------------------------------------------------
+
+async function routeIntoIntake(
+  row: MessageRow,
+  mail: ParsedMail,
+  ctx: { campaignId: string | null; senderRole: string | null; actorUserId: string | null },
+  deps: InboundEmailDeps,
+): Promise<{ documentIds: string[]; skipped: Array<{ filename: string; reason: string }> }> {
+  const { sb } = deps;
+  const now = deps.now?.() ?? new Date();
+  const { accepted, skipped } = selectIntakeAttachments(mail.attachments);
+  const documentIds: string[] = [];
+  const matched: Array<{ filename: string; checklist_key: string | null }> = [];
+  let failedCount = 0;
+
+  // One attachment failing must not cost the rest: it is recorded on the
+  // row as skipped and the loop moves on.
+  for (const a of accepted) {
+    try {
+      const sha = sha256(a.bytes);
+      const { data: existing } = await sb
+        .from("deal_documents")
+        .select("id")
+        .eq("deal_id", row.deal_id)
+        .eq("sha256", sha)
+        .limit(1)
+        .maybeSingle();
+      if (existing?.id) {
+        skipped.push({ filename: a.filename, reason: "duplicate_document" });
+        continue;
+      }
+
+      const storagePath = `deals/${row.deal_id}/email/${now.toISOString().replace(/[:.]/g, "-")}_${sha.slice(0, 12)}_${safeFileName(a.filename)}`;
+      const up = await sb.storage.from(STORAGE_BUCKET).upload(storagePath, a.bytes, {
+        contentType: a.contentType,
+        upsert: false,
+      });
+      if (up.error) {
+        failedCount++;
+        skipped.push({ filename: a.filename, reason: `storage_failed: ${up.error.message}` });
+        continue;
+      }
+
+      const doc = await deps.ingest({
+        dealId: row.deal_id,
+        bankId: row.bank_id,
+        file: {
+          original_filename: a.filename,
+          mimeType: a.contentType,
+          sizeBytes: a.bytes.length,
+          storagePath,
+          storageBucket: STORAGE_BUCKET,
+          sha256: sha,
+        },
+        source: "borrower",
+        metadata: {
+          source_detail: "inbound_email",
+          inbound_email_message_id: row.id,
+          sender_email: mail.from?.address ?? null,
+          sender_role: ctx.senderRole,
+          campaign_id: ctx.campaignId,
+          sha256: sha,
+        },
+      });
+      documentIds.push(doc.documentId);
+      matched.push({ filename: a.filename, checklist_key: doc.checklistKey ?? null });
+    } catch (e: any) {
+      failedCount++;
+      skipped.push({ filename: a.filename, reason: `ingest_failed: ${e?.message ?? String(e)}` });
+    }
+  }
+
+  let activityId: string | null = null;
+  try {
+    const activity = await deps.logActivity({
+      bankId: row.bank_id,
+      kind: "email",
+      title: mail.subject || "(no subject)",
+      dealId: row.deal_id,
+      direction: "inbound",
+      channel: "email",
+      externalMessageId: row.message_id,
+      provider: "inbound_email",
+      deliveryState: "delivered",
+      source: "automated",
+      actorClerkUserId: ctx.actorUserId,
+      properties: {
+        from: mail.from?.address ?? null,
+        from_name: mail.from?.name ?? null,
+        sender_role: ctx.senderRole,
+        to: [...mail.to, ...mail.cc].map((a) => a.address),
+        body: mail.text.slice(0, MAX_ACTIVITY_BODY_CHARS),
+        attachments: matched,
+        skipped_attachments: skipped,
+        document_ids: documentIds,
+        inbound_email_message_id: row.id,
+        campaign_id: ctx.campaignId,
+      },
+    });
+    activityId = activity.id;
+  } catch (e: any) {
+    console.warn("[inboundEmail] activity log failed (non-fatal):", e?.message ?? String(e));
+  }
+
+  await sb
+    .from("inbound_email_messages")
+    .update({
+      status: "ingested",
+      reason: failedCount > 0 ? "attachments_failed" : null,
+      document_ids: documentIds,
+      skipped_attachments: skipped,
+      activity_id: activityId,
+    })
+    .eq("id", row.id);
+
+  await deps.writeEvent({
+    dealId: row.deal_id,
+    kind: "intake.inbound_email_ingested",
+    actorUserId: ctx.actorUserId,
+    scope: "intake",
+    action: "inbound_email_ingested",
+    meta: {
+      inbound_email_message_id: row.id,
+      from: mail.from?.address ?? null,
+      document_ids: documentIds,
+      attachments: matched,
+      skipped,
+      campaign_id: ctx.campaignId,
+    },
+  });
+
+  if (documentIds.length > 0) {
+    try {
+      await deps.runIntake({ dealId: row.deal_id, bankId: row.bank_id });
+    } catch (e: any) {
+      console.warn("[inboundEmail] intake run failed (non-fatal):", e?.message ?? String(e));
+    }
+  }
+
+  return { documentIds, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+export async function ingestInboundEmail(
+  input: { raw: Buffer; transport?: InboundEmailTransport },
+  depsIn?: InboundEmailDeps,
+): Promise<InboundEmailResult> {
+  const deps = depsIn ?? (await defaultDeps());
+  const { sb } = deps;
+  const transport = input.transport ?? "webhook";
+  const rawSha = sha256(input.raw);
+
+  const reject = async (reason: string, messageId: string, mail: ParsedMail | null): Promise<InboundEmailResult> => {
+    const { data } = await sb
+      .from("inbound_email_messages")
+      .insert({
+        message_id: messageId,
+        from_email: mail?.from?.address ?? null,
+        subject: mail?.subject ?? null,
+        recipients: mail ? [...mail.to, ...mail.cc].map((a) => a.address).concat(mail.envelopeTo) : [],
+        status: "rejected",
+        reason,
+        transport,
+        attachment_count: mail?.attachments.length ?? 0,
+      })
+      .select("id")
+      .single();
+    return { status: "rejected", messageRowId: data?.id ?? null, dealId: null, documentIds: [], skipped: [], reason };
+  };
+
+  let mail: ParsedMail;
+  try {
+    mail = parseMimeMessage(input.raw);
+  } catch {
+    return reject("unparseable", `sha256:${rawSha}`, null);
+  }
+  const messageId = mail.messageId ?? `sha256:${rawSha}`;
+  const recipients = [...mail.to, ...mail.cc].map((a) => a.address).concat(mail.envelopeTo);
+
+  const tokens = extractInboundTokens(recipients);
+  if (tokens.length === 0) return reject("no_inbound_address", messageId, mail);
+
+  const { data: addresses } = await sb
+    .from("deal_inbound_addresses")
+    .select("id, bank_id, deal_id, campaign_id, token")
+    .in("token", tokens)
+    .eq("status", "active");
+  const address: AddressRow | undefined = tokens
+    .map((t) => (addresses ?? []).find((a: any) => a.token === t))
+    .find(Boolean);
+  if (!address) return reject("unknown_address", messageId, mail);
+
+  const { data: prior } = await sb
+    .from("inbound_email_messages")
+    .select("*")
+    .eq("address_id", address.id)
+    .eq("message_id", messageId)
+    .maybeSingle();
+  if (prior?.id && prior.status === "received") {
+    // Verified earlier, but the run that inserted it never finished routing
+    // (crash or timeout). Route it now; attachments that did land are
+    // skipped as duplicate_document.
+    const senders = await loadVerifiedSenders(sb, address.deal_id);
+    const routed = await routeIntoIntake(
+      prior as MessageRow,
+      mail,
+      {
+        campaignId: address.campaign_id,
+        senderRole: mail.from?.address ? senders.get(mail.from.address) ?? null : null,
+        actorUserId: null,
+      },
+      deps,
+    );
+    return { status: "ingested", messageRowId: prior.id, dealId: address.deal_id, ...routed };
+  }
+  if (prior?.id) {
+    return { status: "duplicate", messageRowId: prior.id, dealId: address.deal_id, documentIds: [], skipped: [] };
+  }
+
+  // Keep the raw message: audit trail, and what a banker releases from quarantine.
+  const rawPath = `deals/${address.deal_id}/inbound-email/${rawSha}.eml`;
+  const rawUp = await sb.storage.from(STORAGE_BUCKET).upload(rawPath, input.raw, {
+    contentType: "message/rfc822",
+    upsert: true,
+  });
+  if (rawUp.error) {
+    console.warn("[inboundEmail] raw .eml storage failed (non-fatal):", rawUp.error.message);
+  }
+
+  const senders = await loadVerifiedSenders(sb, address.deal_id);
+  const fromAddress = mail.from?.address ?? null;
+  const senderRole = fromAddress ? senders.get(fromAddress) ?? null : null;
+  const quarantineReason = !senderRole
+    ? "unverified_sender"
+    : dmarcFailed(mail.headers["authentication-results"])
+      ? "dmarc_fail"
+      : null;
+
+  const { data: row, error } = await sb
+    .from("inbound_email_messages")
+    .insert({
+      bank_id: address.bank_id,
+      deal_id: address.deal_id,
+      address_id: address.id,
+      message_id: messageId,
+      from_email: fromAddress,
+      subject: mail.subject || null,
+      recipients,
+      status: quarantineReason ? "quarantined" : "received",
+      reason: quarantineReason,
+      transport,
+      attachment_count: mail.attachments.length,
+      raw_storage_bucket: rawUp.error ? null : STORAGE_BUCKET,
+      raw_storage_path: rawUp.error ? null : rawPath,
+    })
+    .select("*")
+    .single();
+  if (error || !row) {
+    // Unique (address_id, message_id): a concurrent retry of the same message won.
+    if (error?.code === "23505") {
+      return { status: "duplicate", messageRowId: null, dealId: address.deal_id, documentIds: [], skipped: [] };
+    }
+    throw new Error(`inbound_email_insert_failed: ${error?.message ?? "no row"}`);
+  }
+
+  if (quarantineReason) {
+    await deps.writeEvent({
+      dealId: address.deal_id,
+      kind: "intake.inbound_email_quarantined",
+      scope: "intake",
+      action: "inbound_email_quarantined",
+      meta: {
+        inbound_email_message_id: row.id,
+        from: fromAddress,
+        reason: quarantineReason,
+        attachment_count: mail.attachments.length,
+      },
+    });
+    return {
+      status: "quarantined",
+      messageRowId: row.id,
+      dealId: address.deal_id,
+      documentIds: [],
+      skipped: [],
+      reason: quarantineReason,
+    };
+  }
+
+  const routed = await routeIntoIntake(
+    row as MessageRow,
+    mail,
+    { campaignId: address.campaign_id, senderRole, actorUserId: null },
+    deps,
+  );
+  return { status: "ingested", messageRowId: row.id, dealId: address.deal_id, ...routed };
+}
+
+/**
+ * Banker override for a quarantined message: re-parse the stored raw .eml
+ * and route it into intake as if the sender had been verified.
+ */
+export async function releaseQuarantinedInboundEmail(
+  args: { messageRowId: string; dealId: string; bankId: string; userId: string },
+  depsIn?: InboundEmailDeps,
+): Promise<{ ok: true; result: InboundEmailResult } | { ok: false; error: string }> {
+  const deps = depsIn ?? (await defaultDeps());
+  const { sb } = deps;
+
+  const { data: row } = await sb
+    .from("inbound_email_messages")
+    .select("*")
+    .eq("id", args.messageRowId)
+    .eq("deal_id", args.dealId)
+    .eq("bank_id", args.bankId)
+    .maybeSingle();
+  if (!row) return { ok: false, error: "message_not_found" };
+  if (row.status !== "quarantined") return { ok: false, error: "not_quarantined" };
+  if (!row.raw_storage_bucket || !row.raw_storage_path) return { ok: false, error: "raw_message_unavailable" };
+
+  const dl = await sb.storage.from(row.raw_storage_bucket).download(row.raw_storage_path);
+  if (dl.error || !dl.data) return { ok: false, error: "raw_message_unavailable" };
+  const mail = parseMimeMessage(Buffer.from(await dl.data.arrayBuffer()));
+
+  const { data: address } = row.address_id
+    ? await sb.from("deal_inbound_addresses").select("campaign_id").eq("id", row.address_id).maybeSingle()
+    : { data: null };
+
+  await sb
+    .from("inbound_email_messages")
+    .update({ released_by: args.userId, released_at: (deps.now?.() ?? new Date()).toISOString() })
+    .eq("id", row.id);
+
+  const routed = await routeIntoIntake(
+    row as MessageRow,
+    mail,
+    { campaignId: address?.campaign_id ?? null, senderRole: null, actorUserId: args.userId },
+    deps,
+  );
+  return {
+    ok: true,
+    result: { status: "ingested", messageRowId: row.id, dealId: row.deal_id, ...routed },
+  };
+}
+
+/**
+ * Active inbound address for a deal (campaignId null) or a borrower request
+ * campaign, creating it on first use. Idempotent.
+ */
+export async function ensureInboundAddress(
+  args: { dealId: string; bankId: string; campaignId?: string | null; createdBy?: string | null },
+  sb: any,
+): Promise<{ id: string; token: string; campaign_id: string | null }> {
+  const campaignId = args.campaignId ?? null;
+  let q = sb
+    .from("deal_inbound_addresses")
+    .select("id, token, campaign_id")
+    .eq("deal_id", args.dealId)
+    .eq("bank_id", args.bankId)
+    .eq("status", "active");
+  q = campaignId ? q.eq("campaign_id", campaignId) : q.is("campaign_id", null);
+  const { data: existing } = await q.maybeSingle();
+  if (existing) return existing;
+
+  const { data, error } = await sb
+    .from("deal_inbound_addresses")
+    .insert({
+      bank_id: args.bankId,
+      deal_id: args.dealId,
+      campaign_id: campaignId,
+      token: generateInboundToken(campaignId ? "campaign" : "deal"),
+      status: "active",
+      created_by: args.createdBy ?? null,
+    })
+    .select("id, token, campaign_id")
+    .single();
+  if (error || !data) throw new Error(`inbound_address_create_failed: ${error?.message ?? "no row"}`);
+  return data;
+}
@@ -0,0 +1,300 @@
+/**
+ * Minimal RFC 5322 / MIME parser for inbound document email.
+ *
+ * Pure. Covers what borrower and CPA mail actually looks like: nested
+ * multipart (mixed / alternative / related), base64 and quoted-printable
+ * transfer encodings, RFC 2047 encoded-word headers, RFC 2231 filenames, and
+ * forwarded messages (message/rfc822 parts are descended into so a forwarded
+ * tax return still yields its PDF). It is not a general-purpose mail library —
+ * no S/MIME, no uuencode, no TNEF.
+ */
+
+export type MailAddress = { name: string | null; address: string };
+
+export type ParsedMailAttachment = {
+  filename: string;
+  contentType: string;
+  bytes: Buffer;
+  /** Content-Disposition inline (e.g. signature logos). */
+  inline: boolean;
+  contentId: string | null;
+};
+
+export type ParsedMail = {
+  messageId: string | null;
+  from: MailAddress | null;
+  to: MailAddress[];
+  cc: MailAddress[];
+  /** Delivered-To / X-Original-To — the envelope recipient when To/Cc don't carry it (Bcc). */
+  envelopeTo: string[];
+  subject: string;
+  date: string | null;
+  text: string;
+  html: string | null;
+  attachments: ParsedMailAttachment[];
+  headers: Record<string, string[]>;
+};
+
+type Entity = { headers: Record<string, string[]>; body: string };
+
+// ---------------------------------------------------------------------------
+// Headers
+// ---------------------------------------------------------------------------
+
+function splitEntity(raw: string): Entity {
+  const m = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = m ? raw.slice(0, m.index) : raw;
+  const body = m ? raw.slice(m.index + m[0].length) : "";
+
+  const headers: Record<string, string[]> = {};
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    const key = line.slice(0, idx).trim().toLowerCase();
+    (headers[key] ??= []).push(line.slice(idx + 1).trim());
+  }
+  return { headers, body };
+}
+
+function header(h: Record<string, string[]>, key: string): string | null {
+  return h[key]?.[0] ?? null;
+}
+
+function decodeCharset(bytes: Buffer, charset: string | null | undefined): string {
+  const cs = String(charset || "utf-8").toLowerCase();
+  try {
+    return new TextDecoder(cs).decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(input: string, headerMode = false): Buffer {
+  const s = headerMode ? input.replace(/_/g, " ") : input.replace(/=\r?\n/g, "");
+  const out: number[] = [];
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (c === "=" && /^[0-9a-f]{2}$/i.test(s.slice(i + 1, i + 3))) {
+      out.push(parseInt(s.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      out.push(s.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** RFC 2047: =?charset?B|Q?text?= — adjacent encoded words join without the whitespace between them. */
+export function decodeEncodedWords(value: string): string {
+  return String(value || "")
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(/=\?([^?]+)\?([bqBQ])\?([^?]*)\?=/g, (_m, charset: string, enc: string, text: string) => {
+      const bytes = enc.toUpperCase() === "B" ? Buffer.from(text, "base64") : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset.split("*")[0]);
+    });
+}
+
+type HeaderValue = { value: string; params: Record<string, string> };
+
+/** `type/subtype; a=b; c="d"` incl. RFC 2231 `name*=utf-8''x%20y` and `name*0=…; name*1=…`. */
+function parseHeaderValue(raw: string | null): HeaderValue {
+  const parts: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (const ch of String(raw || "")) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === ";" && !quoted) {
+      parts.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  parts.push(cur);
+
+  const params: Record<string, string> = {};
+  const continued: Record<string, Array<{ i: number; v: string; enc: boolean }>> = {};
+  for (const p of parts.slice(1)) {
+    const eq = p.indexOf("=");
+    if (eq <= 0) continue;
+    const rawKey = p.slice(0, eq).trim().toLowerCase();
+    let v = p.slice(eq + 1).trim();
+    if (v.startsWith('"') && v.endsWith('"')) v = v.slice(1, -1);
+
+    const m = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(rawKey);
+    if (!m) continue;
+    const [, key, idx, star] = m;
+    if (idx == null && !star) {
+      params[key] = decodeEncodedWords(v);
+      continue;
+    }
+    (continued[key] ??= []).push({ i: Number(idx ?? 0), v, enc: Boolean(star) });
+  }
+
+  for (const [key, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.i - b.i);
+    let charset = "utf-8";
+    const bytes: Buffer[] = [];
+    pieces.forEach((piece, n) => {
+      let v = piece.v;
+      if (piece.enc && n === 0) {
+        const m = /^([^']*)'[^']*'(.*)$/.exec(v);
+        if (m) {
+          charset = m[1] || charset;
+          v = m[2];
+        }
+      }
+      bytes.push(piece.enc ? Buffer.from(v.replace(/%([0-9a-f]{2})/gi, (_x, h) => String.fromCharCode(parseInt(h, 16))), "latin1") : Buffer.from(v, "latin1"));
+    });
+    params[key] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+
+  return { value: parts[0].trim().toLowerCase(), params };
+}
+
+/** `"Doe, Jane" <jane@x.com>, bob@y.com` → addresses, lowercased. */
+export function parseAddressList(raw: string | null | undefined): MailAddress[] {
+  const out: MailAddress[] = [];
+  const items: string[] = [];
+  let cur = "";
+  let quoted = false;
+  let angle = 0;
+  for (const ch of String(raw || "")) {
+    if (ch === '"') quoted = !quoted;
+    if (!quoted && ch === "<") angle++;
+    if (!quoted && ch === ">") angle = Math.max(0, angle - 1);
+    if (ch === "," && !quoted && angle === 0) {
+      items.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  items.push(cur);
+
+  for (const item of items) {
+    const s = item.trim();
+    if (!s) continue;
+    const m = /^(.*?)<([^>]+)>\s*$/.exec(s);
+    const address = (m ? m[2] : s).trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+$/.test(address)) continue;
+    const name = m ? decodeEncodedWords(m[1].trim().replace(/^"|"$/g, "")) || null : null;
+    out.push({ name, address });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Bodies
+// ---------------------------------------------------------------------------
+
+function decodeBody(body: string, transferEncoding: string | null): Buffer {
+  const te = String(transferEncoding || "7bit").toLowerCase();
+  if (te === "base64") return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+  if (te === "quoted-printable") return decodeQuotedPrintable(body);
+  return Buffer.from(body, "latin1");
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delim = `--${boundary}`;
+  const parts: string[] = [];
+  let cur: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    if (line === delim || line.startsWith(`${delim}--`) || line.trimEnd() === delim) {
+      if (cur) parts.push(cur.join("\r\n"));
+      if (line.startsWith(`${delim}--`)) return parts;
+      cur = [];
+      continue;
+    }
+    cur?.push(line);
+  }
+  if (cur) parts.push(cur.join("\r\n"));
+  return parts;
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+type Walk = { text: string | null; html: string | null; attachments: ParsedMailAttachment[] };
+
+function walk(entity: Entity, acc: Walk, depth: number): void {
+  if (depth > 10) return;
+  const ct = parseHeaderValue(header(entity.headers, "content-type") ?? "text/plain");
+  const cd = parseHeaderValue(header(entity.headers, "content-disposition"));
+  const te = header(entity.headers, "content-transfer-encoding");
+
+  if (ct.value.startsWith("multipart/") && ct.params.boundary) {
+    for (const part of splitMultipart(entity.body, ct.params.boundary)) walk(splitEntity(part), acc, depth + 1);
+    return;
+  }
+
+  if (ct.value === "message/rfc822") {
+    // Forwarded mail: keep its attachments, not its body.
+    const nested: Walk = { text: null, html: null, attachments: [] };
+    walk(splitEntity(decodeBody(entity.body, te).toString("latin1")), nested, depth + 1);
+    acc.attachments.push(...nested.attachments);
+    return;
+  }
+
+  const filename = cd.params.filename ?? ct.params.name ?? null;
+  const isBodyText = (ct.value === "text/plain" || ct.value === "text/html") && cd.value !== "attachment" && !filename;
+
+  if (isBodyText) {
+    const text = decodeCharset(decodeBody(entity.body, te), ct.params.charset);
+    if (ct.value === "text/plain" && acc.text == null) acc.text = text;
+    if (ct.value === "text/html" && acc.html == null) acc.html = text;
+    return;
+  }
+
+  const bytes = decodeBody(entity.body, te);
+  if (bytes.length === 0) return;
+  const cid = header(entity.headers, "content-id");
+  acc.attachments.push({
+    filename: filename || `attachment-${acc.attachments.length + 1}`,
+    contentType: ct.value || "application/octet-stream",
+    bytes,
+    inline: cd.value === "inline",
+    contentId: cid ? cid.replace(/^<|>$/g, "") : null,
+  });
+}
+
+export function parseMimeMessage(raw: Buffer | string): ParsedMail {
+  const source = typeof raw === "string" ? raw : raw.toString("latin1");
+  const root = splitEntity(source);
+  if (Object.keys(root.headers).length === 0) {
+    throw new Error("mime_no_headers");
+  }
+
+  const acc: Walk = { text: null, html: null, attachments: [] };
+  walk(root, acc, 0);
+
+  const h = root.headers;
+  const envelopeTo = [...(h["delivered-to"] ?? []), ...(h["x-original-to"] ?? [])].flatMap((v) =>
+    parseAddressList(v).map((a) => a.address),
+  );
+
+  return {
+    messageId: header(h, "message-id")?.replace(/^<|>$/g, "").trim() || null,
+    from: parseAddressList(header(h, "from"))[0] ?? null,
+    to: (h.to ?? []).flatMap(parseAddressList),
+    cc: (h.cc ?? []).flatMap(parseAddressList),
+    envelopeTo,
+    subject: decodeEncodedWords(header(h, "subject") ?? ""),
+    date: header(h, "date"),
+    text: (acc.text ?? (acc.html ? htmlToText(acc.html) : "")).trim(),
+    html: acc.html,
+    attachments: acc.attachments,
+    headers: h,
+  };
+}
@@ -0,0 +1,43 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  OCR_PROVIDER_MIN_ATTEMPTS,
+  OCR_PROVIDER_P95_LATENCY_MS,
+  evaluateOcrProviderSlo,
+} from "../ocrProviderSloPure";
+
+const row = (provider: string, attempts: number, failed: number, timeout: number, p95: number) => ({
+  provider,
+  attempts_1h: attempts,
+  failed_1h: failed,
+  timeout_1h: timeout,
+  p95_latency_ms: p95,
+});
+
+test("error rate counts failures and SLO timeouts together", () => {
+  const [v] = evaluateOcrProviderSlo([row("gemini_google", 10, 2, 1, 5_000)]);
+  assert.equal(v.errorRate, 0.3);
+  assert.deepEqual(v.reasons, ["error_rate"]);
+  assert.equal(v.degraded, true);
+});
+
+test("p95 latency breach marks the provider degraded", () => {
+  const [v] = evaluateOcrProviderSlo([row("mistral", 20, 0, 0, OCR_PROVIDER_P95_LATENCY_MS + 1)]);
+  assert.deepEqual(v.reasons, ["p95_latency"]);
+});
+
+test("below the minimum sample nothing is judged", () => {
+  const [v] = evaluateOcrProviderSlo([row("mistral", OCR_PROVIDER_MIN_ATTEMPTS - 1, 4, 0, 200_000)]);
+  assert.equal(v.degraded, false);
+  assert.deepEqual(v.reasons, []);
+});
+
+test("healthy provider and null view columns", () => {
+  const verdicts = evaluateOcrProviderSlo([
+    row("local_ocr", 50, 1, 0, 30_000),
+    { provider: "gemini_google", attempts_1h: null, failed_1h: null, timeout_1h: null, p95_latency_ms: null },
+  ]);
+  assert.deepEqual(verdicts.map((v) => v.degraded), [false, false]);
+  assert.equal(verdicts[1].attempts, 0);
+});
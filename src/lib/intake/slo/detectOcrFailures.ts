@@ -5,6 +5,11 @@
  * empty_ocr_count_24h > 0, emits intake.ocr_failure_detected into
  * deal_events (dealId = "system").
  *
+ * Also tracks per-provider OCR SLOs (intake_ocr_provider_slo_v1, last hour):
+ * a provider whose error rate or p95 latency breaches the thresholds in
+ * ocrProviderSloPure.ts emits intake.ocr_provider_degraded. runOcrJob reads
+ * the same verdicts via getDegradedOcrProviders() to route around it.
+ *
  * Called from: observer tick / ops cron
  * Fire-and-forget: never throws, always swallows errors.
  *
@@ -13,12 +18,19 @@
 
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { writeEvent } from "@/lib/ledger/writeEvent";
+import {
+  OCR_PROVIDER_DETECTION_VERSION,
+  evaluateOcrProviderSlo,
+  type OcrProviderSloRow,
+  type OcrProviderSloVerdict,
+} from "./ocrProviderSloPure";
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
 const DETECTION_VERSION = "detect_v1";
+const DEGRADED_CACHE_TTL_MS = 60_000;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -37,9 +49,15 @@ type OcrFailuresRow = {
 
 /**
  * Scans intake_ocr_failures_v1 for failures or empty OCR results in last 24h.
- * Emits intake.ocr_failure_detected when either metric is non-zero.
+ * Emits intake.ocr_failure_detected when either metric is non-zero, then
+ * checks per-provider SLOs.
  */
 export async function detectOcrFailures(): Promise<void> {
+  await detectOcrResultFailures();
+  await detectOcrProviderSlo();
+}
+
+async function detectOcrResultFailures(): Promise<void> {
   try {
     const sb = supabaseAdmin();
 
@@ -88,3 +106,79 @@ export async function detectOcrFailures(): Promise<void> {
     console.warn("[detectOcrFailures] unexpected error (non-fatal):", e);
   }
 }
+
+// ---------------------------------------------------------------------------
+// Per-provider SLOs
+// ---------------------------------------------------------------------------
+
+async function loadOcrProviderVerdicts(): Promise<OcrProviderSloVerdict[] | null> {
+  const sb = supabaseAdmin();
+  const { data, error } = await (sb as any).from("intake_ocr_provider_slo_v1").select("*");
+  if (error) {
+    console.warn("[detectOcrFailures] provider SLO query error (non-fatal):", error);
+    return null;
+  }
+  return evaluateOcrProviderSlo((data ?? []) as OcrProviderSloRow[]);
+}
+
+/**
+ * Emits intake.ocr_provider_degraded once per provider currently breaching
+ * its SLO. Fire-and-forget, never throws.
+ */
+export async function detectOcrProviderSlo(): Promise<void> {
+  try {
+    const verdicts = await loadOcrProviderVerdicts();
+    if (!verdicts) return;
+
+    for (const v of verdicts.filter((x) => x.degraded)) {
+      try {
+        await writeEvent({
+          dealId: "system",
+          kind: "intake.ocr_provider_degraded",
+          actorUserId: null,
+          scope: "intake",
+          action: "ocr_provider_degraded",
+          confidence: 1.0,
+          meta: {
+            provider: v.provider,
+            reasons: v.reasons,
+            attempts_1h: v.attempts,
+            error_rate_1h: v.errorRate,
+            p95_latency_ms: v.p95LatencyMs,
+            detection_version: OCR_PROVIDER_DETECTION_VERSION,
+          },
+        });
+
+        console.log(
+          `[detectOcrFailures] OCR provider degraded: ${v.provider} (${v.reasons.join(", ")}; n=${v.attempts})`,
+        );
+      } catch (e) {
+        console.warn("[detectOcrFailures] provider event emit failed (non-fatal):", e);
+      }
+    }
+  } catch (e) {
+    console.warn("[detectOcrFailures] provider SLO unexpected error (non-fatal):", e);
+  }
+}
+
+let degradedCache: { at: number; providers: Set<string> } | null = null;
+
+/**
+ * Providers currently breaching their SLO, cached per process for a minute so
+ * every OCR job doesn't re-query the view. Returns an empty set on any error —
+ * a monitoring outage must never stop OCR.
+ */
+export async function getDegradedOcrProviders(): Promise<Set<string>> {
+  if (degradedCache && Date.now() - degradedCache.at < DEGRADED_CACHE_TTL_MS) {
+    return degradedCache.providers;
+  }
+  let providers = new Set<string>();
+  try {
+    const verdicts = await loadOcrProviderVerdicts();
+    if (verdicts) providers = new Set(verdicts.filter((v) => v.degraded).map((v) => v.provider));
+  } catch (e) {
+    console.warn("[detectOcrFailures] degraded provider lookup failed (non-fatal):", e);
+  }
+  degradedCache = { at: Date.now(), providers };
+  return providers;
+}
@@ -0,0 +1,81 @@
+/**
+ * OCR Provider SLO — Pure Exports
+ *
+ * Thresholds and evaluation for per-provider OCR health, shared by the
+ * governance monitor (detectOcrFailures.ts → intake.ocr_provider_degraded)
+ * and the OCR provider chain (runOcrJob → skip degraded cloud providers).
+ * Kept pure so both sides — and tests — agree on what "degraded" means
+ * without pulling in writeEvent → server-only.
+ *
+ * Input rows come from intake_ocr_provider_slo_v1 (last hour, per provider).
+ */
+
+// ---------------------------------------------------------------------------
+// Exported constants (stable — changing is a breaking change)
+// ---------------------------------------------------------------------------
+
+export const OCR_PROVIDER_DETECTION_VERSION = "ocr_provider_v1";
+export const OCR_PROVIDER_MIN_ATTEMPTS = 5;              // ignore providers with <5 calls in the window
+export const OCR_PROVIDER_MAX_ERROR_RATE = 0.25;         // failed + timeout share
+export const OCR_PROVIDER_P95_LATENCY_MS = 90_000;       // same default as the cloud latency SLO
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type OcrProviderSloRow = {
+  provider: string;
+  attempts_1h: number | null;
+  failed_1h: number | null;
+  timeout_1h: number | null;
+  p95_latency_ms: number | null;
+};
+
+export type OcrProviderSloVerdict = {
+  provider: string;
+  degraded: boolean;
+  reasons: Array<"error_rate" | "p95_latency">;
+  attempts: number;
+  errorRate: number;
+  p95LatencyMs: number;
+};
+
+// ---------------------------------------------------------------------------
+// Exported pure helper
+// ---------------------------------------------------------------------------
+
+/**
+ * Pure helper — no DB, no IO, fully deterministic.
+ * A provider is degraded when it has enough traffic to judge AND either its
+ * error rate (failures + SLO timeouts) or its p95 latency breaches threshold.
+ */
+export function evaluateOcrProviderSlo(
+  rows: OcrProviderSloRow[],
+  opts: { minAttempts?: number; maxErrorRate?: number; p95LatencyMs?: number } = {},
+): OcrProviderSloVerdict[] {
+  const minAttempts = opts.minAttempts ?? OCR_PROVIDER_MIN_ATTEMPTS;
+  const maxErrorRate = opts.maxErrorRate ?? OCR_PROVIDER_MAX_ERROR_RATE;
+  const p95Threshold = opts.p95LatencyMs ?? OCR_PROVIDER_P95_LATENCY_MS;
+
+  return rows.map((r) => {
+    const attempts = Number(r.attempts_1h ?? 0);
+    const errors = Number(r.failed_1h ?? 0) + Number(r.timeout_1h ?? 0);
+    const errorRate = attempts > 0 ? errors / attempts : 0;
+    const p95LatencyMs = Math.round(Number(r.p95_latency_ms ?? 0));
+
+    const reasons: OcrProviderSloVerdict["reasons"] = [];
+    if (attempts >= minAttempts) {
+      if (errorRate > maxErrorRate) reasons.push("error_rate");
+      if (p95LatencyMs > p95Threshold) reasons.push("p95_latency");
+    }
+
+    return {
+      provider: r.provider,
+      degraded: reasons.length > 0,
+      reasons,
+      attempts,
+      errorRate: Math.round(errorRate * 1000) / 1000,
+      p95LatencyMs,
+    };
+  });
+}
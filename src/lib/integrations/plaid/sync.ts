@@ -222,5 +222,14 @@ export async function syncTransactions(connectionId: string, supabase: SupabaseC
     console.error("[plaid/sync] post-sync equity seasoning re-verification failed (non-fatal):", err);
   }
 
+  // Rebuild bank cash-flow spread facts (deposits vs tax gross receipts)
+  // from the full synced history. Never fatal.
+  try {
+    const { refreshPlaidCashFlowFacts } = await import("@/lib/connect/plaid");
+    await refreshPlaidCashFlowFacts({ dealId: connection.deal_id, bankId: connection.bank_id });
+  } catch (err) {
+    console.error("[plaid/sync] post-sync cash-flow fact refresh failed (non-fatal):", err);
+  }
+
   return { ok: true, added: totalAdded, modified: totalModified, removed: totalRemoved, hasMore: false };
 }
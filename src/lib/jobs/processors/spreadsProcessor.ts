@@ -66,6 +66,7 @@ async function tryFinalizeSpreadRun(
 const SPREAD_EVENT_KEY: Record<string, string> = {
   T12: "spread.business.completed",
   BALANCE_SHEET: "spread.business.completed",
+  UCA_CASH_FLOW: "spread.business.completed",
   RENT_ROLL: "spread.rentroll.completed",
   PERSONAL_INCOME: "spread.personal.completed",
   PERSONAL_FINANCIAL_STATEMENT: "spread.personal.completed",
@@ -130,6 +130,7 @@ const CODE_TO_WORKSTREAM: Partial<Record<LifecycleBlockerCode, UnderwritingWorks
   committee_packet_missing: "committee",
   decision_missing: "committee",
   attestation_missing: "committee",
+  sanctions_screening_open: "committee",
 };
 
 /**
@@ -0,0 +1,190 @@
+/**
+ * MCP write tools — dry-run diffs, commits, tenant isolation and the
+ * one-audit-entry-per-call contract. Exercised against an in-memory fake
+ * Supabase client injected via deps.
+ */
+
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  handleAttachChecklistDocument,
+  handleClearCondition,
+  handleDraftMemoSection,
+  handleRequestBorrowerDocument,
+  type McpWriteDeps,
+} from "../writeTools";
+
+type Row = Record<string, any>;
+
+/** Fake supporting select/update/insert with chained .eq filters, maybeSingle and await. */
+class FakeDb {
+  writes: Array<{ table: string; op: "update" | "insert"; payload: Row }> = [];
+  constructor(public tables: Record<string, Row[]>) {}
+
+  from = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let op: "select" | "update" | "insert" = "select";
+    let payload: Row = {};
+    const matches = () => (this.tables[table] ?? []).filter((r) => filters.every(([c, v]) => r[c] === v));
+    const run = () => {
+      if (op === "select") return { data: matches(), error: null };
+      this.writes.push({ table, op, payload });
+      if (op === "insert") (this.tables[table] ??= []).push({ id: `new-${this.writes.length}`, ...payload });
+      else for (const r of matches()) Object.assign(r, payload);
+      return { data: null, error: null };
+    };
+    const b: any = {
+      select: () => b,
+      update: (p: Row) => ((op = "update"), (payload = p), b),
+      insert: (p: Row) => ((op = "insert"), (payload = p), Promise.resolve(run())),
+      eq: (c: string, v: unknown) => (filters.push([c, v]), b),
+      maybeSingle: () => Promise.resolve({ data: matches()[0] ?? null, error: null }),
+      then: (ok: (v: unknown) => unknown, bad?: (e: unknown) => unknown) => Promise.resolve(run()).then(ok, bad),
+    };
+    return b;
+  };
+}
+
+function setup(tables: Record<string, Row[]> = {}) {
+  const db = new FakeDb({ deals: [{ id: "deal-1", bank_id: "bank-1" }], ...tables });
+  const events: Row[] = [];
+  const deps: McpWriteDeps = {
+    sb: db,
+    writeEvent: async (e) => {
+      events.push(e);
+      return { ok: true };
+    },
+    now: () => new Date("2026-10-19T12:00:00Z"),
+  };
+  return { db, events, deps };
+}
+
+const bank = (dryRun: boolean) => ({ bankId: "bank-1", dryRun });
+
+describe("handleClearCondition", () => {
+  const tables = () => ({
+    deal_conditions: [{ id: "c1", deal_id: "deal-1", title: "Hazard insurance", status: "open", source: "policy", source_key: "INSURANCE" }],
+    deal_mitigants: [{ id: "m1", deal_id: "deal-1", mitigant_key: "INSURANCE", status: "open", note: null }],
+    deal_condition_events: [],
+  });
+
+  test("dry run returns the condition + mitigant diff and writes nothing", async () => {
+    const { db, events, deps } = setup(tables());
+    const res = await handleClearCondition(bank(true), { caseId: "deal-1", conditionId: "c1", status: "waived", note: "Binder on file" }, deps);
+    assert.ok(res.ok);
+    assert.equal(res.data.committed, false);
+    assert.deepEqual(
+      res.data.diff.map((d) => [d.table, d.before?.status, d.after.status]),
+      [
+        ["deal_conditions", "open", "waived"],
+        ["deal_mitigants", "open", "waived"],
+      ],
+    );
+    assert.equal(db.writes.length, 0);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].kind, "mcp.clear_condition");
+    assert.equal(events[0].action, "dry_run");
+    assert.equal(events[0].meta.bank_id, "bank-1");
+  });
+
+  test("commit updates the condition, mirrors the mitigant, and logs a condition event", async () => {
+    const { db, events, deps } = setup(tables());
+    const res = await handleClearCondition(bank(false), { caseId: "deal-1", conditionId: "c1" }, deps);
+    assert.ok(res.ok);
+    assert.equal(res.data.committed, true);
+    assert.equal(db.tables.deal_conditions[0].status, "satisfied");
+    assert.equal(db.tables.deal_mitigants[0].status, "satisfied");
+    assert.equal(db.tables.deal_mitigants[0].satisfied_at, "2026-10-19T12:00:00.000Z");
+    assert.deepEqual(db.tables.deal_condition_events[0].payload, { status: "satisfied", note: null, source: "mcp" });
+    assert.equal(events[0].action, "committed");
+  });
+
+  test("already in the requested status is an audited no-op", async () => {
+    const t = tables();
+    t.deal_conditions[0].status = "satisfied";
+    const { db, events, deps } = setup(t);
+    const res = await handleClearCondition(bank(false), { caseId: "deal-1", conditionId: "c1" }, deps);
+    assert.ok(res.ok);
+    assert.deepEqual(res.data.diff, []);
+    assert.equal(db.writes.length, 0);
+    assert.equal(events[0].action, "noop");
+  });
+
+  test("another bank's case is refused without touching that deal's ledger", async () => {
+    const { db, events, deps } = setup(tables());
+    const res = await handleClearCondition({ bankId: "bank-2", dryRun: false }, { caseId: "deal-1", conditionId: "c1" }, deps);
+    assert.deepEqual(res, { ok: false, error: "case_not_found" });
+    assert.equal(db.writes.length, 0);
+    assert.equal(events.length, 0);
+  });
+});
+
+describe("handleAttachChecklistDocument", () => {
+  const tables = (documentType: string) => ({
+    deal_checklist_items: [{ id: "i1", deal_id: "deal-1", checklist_key: "PFS_CURRENT", status: "missing", received_at: null, received_document_id: null }],
+    deal_documents: [{ id: "d1", deal_id: "deal-1", checklist_key: null, canonical_type: null, document_type: documentType, quality_status: "PASSED" }],
+  });
+
+  test("valid document: marks the item received", async () => {
+    const { db, events, deps } = setup(tables("PERSONAL_FINANCIAL_STATEMENT"));
+    const res = await handleAttachChecklistDocument(bank(false), { caseId: "deal-1", checklistKey: "PFS_CURRENT", documentId: "d1" }, deps);
+    assert.ok(res.ok);
+    assert.deepEqual(res.data.diff[0].after, { status: "received", received_at: "2026-10-19T12:00:00.000Z", received_document_id: "d1" });
+    assert.equal(db.tables.deal_checklist_items[0].status, "received");
+    assert.equal(events[0].action, "committed");
+  });
+
+  test("incompatible document type is rejected and audited", async () => {
+    const { db, events, deps } = setup(tables("BANK_STATEMENT"));
+    const res = await handleAttachChecklistDocument(bank(false), { caseId: "deal-1", checklistKey: "PFS_CURRENT", documentId: "d1" }, deps);
+    assert.equal(res.ok, false);
+    assert.match(!res.ok ? res.error : "", /document_not_valid_for_checklist_key/);
+    assert.equal(db.writes.length, 0);
+    assert.equal(events[0].action, "rejected");
+  });
+});
+
+describe("handleRequestBorrowerDocument", () => {
+  test("inserts a portal request; an open request with the same title is not duplicated", async () => {
+    const { db, events, deps } = setup({ borrower_document_requests: [] });
+    const input = { caseId: "deal-1", title: "2025 interim balance sheet", dueAt: "2026-11-01" };
+
+    const dry = await handleRequestBorrowerDocument(bank(true), input, deps);
+    assert.ok(dry.ok);
+    assert.equal(dry.data.diff[0].op, "insert");
+    assert.equal(dry.data.diff[0].after.source, "mcp");
+    assert.equal(db.writes.length, 0);
+
+    await handleRequestBorrowerDocument(bank(false), input, deps);
+    const again = await handleRequestBorrowerDocument(bank(false), { ...input, title: "2025 Interim Balance Sheet " }, deps);
+    assert.ok(again.ok);
+    assert.deepEqual(again.data.diff, []);
+    assert.equal(db.tables.borrower_document_requests.length, 1);
+    assert.equal(db.tables.borrower_document_requests[0].status, "requested");
+    assert.deepEqual(events.map((e) => e.action), ["dry_run", "committed", "noop"]);
+  });
+});
+
+describe("handleDraftMemoSection", () => {
+  test("refuses non-narrative keys", async () => {
+    const { events, deps } = setup({ deal_memo_overrides: [] });
+    const res = await handleDraftMemoSection(bank(false), { caseId: "deal-1", sectionKey: "dscr", text: "1.45x" }, deps);
+    assert.equal(res.ok, false);
+    assert.equal(events[0].action, "rejected");
+  });
+
+  test("merges into existing overrides; replacing banker text requires overwrite", async () => {
+    const { db, deps } = setup({
+      deal_memo_overrides: [{ id: "o1", deal_id: "deal-1", bank_id: "bank-1", overrides: { business_description: "Banker text", company_history: "Founded 1998" } }],
+    });
+    const blocked = await handleDraftMemoSection(bank(false), { caseId: "deal-1", sectionKey: "business_description", text: "Draft" }, deps);
+    assert.equal(blocked.ok, false);
+    assert.match(!blocked.ok ? blocked.error : "", /overwrite: true/);
+
+    const res = await handleDraftMemoSection(bank(false), { caseId: "deal-1", sectionKey: "business_description", text: "Draft", overwrite: true }, deps);
+    assert.ok(res.ok);
+    assert.deepEqual(res.data.diff[0].before, { business_description: "Banker text" });
+    assert.deepEqual(db.tables.deal_memo_overrides[0].overrides, { business_description: "Draft", company_history: "Founded 1998" });
+  });
+});
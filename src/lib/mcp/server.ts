@@ -28,6 +28,12 @@
  *   buddy://tools/generate_missing_docs_email
  *   buddy://tools/write_signal
  *   buddy://tools/detect_anomalies
+ *
+ * Write tools (governed — accept dryRun, one audit ledger entry per call):
+ *   buddy://tools/clear_condition
+ *   buddy://tools/attach_checklist_document
+ *   buddy://tools/request_borrower_document
+ *   buddy://tools/draft_memo_section
  */
 import "server-only";
 
@@ -50,6 +56,12 @@ import {
 } from "./tools";
 
 import type { WriteSignalInput } from "./tools";
+import {
+  handleClearCondition,
+  handleAttachChecklistDocument,
+  handleRequestBorrowerDocument,
+  handleDraftMemoSection,
+} from "./writeTools";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -308,6 +320,55 @@ export async function dispatchMcpRequest(
           ? { jsonrpc: "2.0", id, result: result.data }
           : { jsonrpc: "2.0", id, error: { code: ERR_INTERNAL, message: result.error } };
       }
+
+      // --- Write tools ---
+      if (
+        parsed.resource === "clear_condition" ||
+        parsed.resource === "attach_checklist_document" ||
+        parsed.resource === "request_borrower_document" ||
+        parsed.resource === "draft_memo_section"
+      ) {
+        if (!caseId) {
+          return { jsonrpc: "2.0", id, error: { code: ERR_INVALID_PARAMS, message: "caseId required" } };
+        }
+        const str = (k: string) => (typeof params[k] === "string" ? (params[k] as string) : undefined);
+        const writeCtx = { bankId, dryRun: params.dryRun === true };
+
+        let result;
+        if (parsed.resource === "clear_condition") {
+          result = await handleClearCondition(writeCtx, {
+            caseId,
+            conditionId: str("conditionId") ?? "",
+            status: str("status") as "satisfied" | "waived" | undefined,
+            note: str("note"),
+          });
+        } else if (parsed.resource === "attach_checklist_document") {
+          result = await handleAttachChecklistDocument(writeCtx, {
+            caseId,
+            checklistKey: str("checklistKey") ?? "",
+            documentId: str("documentId") ?? "",
+          });
+        } else if (parsed.resource === "request_borrower_document") {
+          result = await handleRequestBorrowerDocument(writeCtx, {
+            caseId,
+            title: str("title") ?? "",
+            description: str("description"),
+            category: str("category"),
+            docType: str("docType"),
+            dueAt: str("dueAt"),
+          });
+        } else {
+          result = await handleDraftMemoSection(writeCtx, {
+            caseId,
+            sectionKey: str("sectionKey") ?? "",
+            text: str("text") ?? "",
+            overwrite: params.overwrite === true,
+          });
+        }
+        return result.ok
+          ? { jsonrpc: "2.0", id, result: result.data }
+          : { jsonrpc: "2.0", id, error: { code: ERR_INVALID_PARAMS, message: result.error } };
+      }
     }
 
     return {
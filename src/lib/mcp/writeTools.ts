@@ -0,0 +1,491 @@
+/**
+ * Buddy MCP Write Tools.
+ *
+ * Governed write tools for analysts working from an MCP client:
+ *   buddy_clear_condition            → satisfy / waive a deal condition
+ *   buddy_attach_checklist_document  → point a checklist item at a document
+ *   buddy_request_borrower_document  → open a borrower portal document request
+ *   buddy_draft_memo_section         → write a qualitative memo narrative section
+ *
+ * All write tools:
+ * - Are tenant-isolated via bank_id (deal must belong to the calling bank)
+ * - Accept `dryRun` — compute and return the diff, commit nothing
+ * - Return the same { table, op, id, before, after } diff whether dry or committed
+ * - Write one audit ledger entry (deal_events, kind "mcp.<tool>") per call,
+ *   including dry runs and rejections
+ * - Never throw
+ *
+ * NOTE: this module intentionally does NOT import "server-only" and lazily
+ * loads supabaseAdmin / writeEvent only when no deps are injected, so it is
+ * unit-testable with a fake client under node:test (same pattern as
+ * reconcileChecklistSatisfaction.ts).
+ */
+import { createHash } from "node:crypto";
+import { isDocValidForChecklistKey } from "@/lib/checklist/docValidity";
+import { isPermittedOverrideKey } from "@/lib/creditMemo/overridePolicy";
+import type { McpToolResult } from "./tools";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type McpWriteToolName =
+  | "clear_condition"
+  | "attach_checklist_document"
+  | "request_borrower_document"
+  | "draft_memo_section";
+
+export interface McpRowDiff {
+  table: string;
+  op: "insert" | "update";
+  /** Row id; null for inserts (assigned on commit). */
+  id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown>;
+}
+
+export interface McpWriteResult {
+  tool: McpWriteToolName;
+  caseId: string;
+  dryRun: boolean;
+  committed: boolean;
+  /** Empty when the call is a no-op (row already in the requested state). */
+  diff: McpRowDiff[];
+}
+
+type LedgerWriter = (args: {
+  dealId: string;
+  kind: string;
+  actorUserId?: string | null;
+  scope?: string;
+  action?: string;
+  input?: unknown;
+  output?: unknown;
+  meta?: Record<string, unknown>;
+}) => Promise<{ ok: boolean; error?: string }>;
+
+export interface McpWriteDeps {
+  sb: any;
+  writeEvent: LedgerWriter;
+  now?: () => Date;
+}
+
+export interface McpWriteContext {
+  bankId: string;
+  dryRun: boolean;
+}
+
+export interface ClearConditionInput {
+  caseId: string;
+  conditionId: string;
+  status?: "satisfied" | "waived";
+  note?: string;
+}
+
+export interface AttachChecklistDocumentInput {
+  caseId: string;
+  checklistKey: string;
+  documentId: string;
+}
+
+export interface RequestBorrowerDocumentInput {
+  caseId: string;
+  title: string;
+  description?: string;
+  category?: string;
+  docType?: string;
+  dueAt?: string;
+}
+
+export interface DraftMemoSectionInput {
+  caseId: string;
+  sectionKey: string;
+  text: string;
+  /** Required to replace a section that already has different text. */
+  overwrite?: boolean;
+}
+
+const MAX_MEMO_SECTION_CHARS = 20_000;
+
+// ---------------------------------------------------------------------------
+// Shared plumbing
+// ---------------------------------------------------------------------------
+
+async function defaultDeps(): Promise<McpWriteDeps> {
+  const [{ supabaseAdmin }, { writeEvent }] = await Promise.all([
+    import("@/lib/supabase/admin"),
+    import("@/lib/ledger/writeEvent"),
+  ]);
+  return { sb: supabaseAdmin(), writeEvent };
+}
+
+/** Short, non-reversible id of the API key in use — lets audits span key rotation. */
+export function mcpKeyFingerprint(): string | null {
+  const key = process.env.BUDDY_MCP_API_KEY;
+  if (!key) return null;
+  return createHash("sha256").update(key).digest("hex").slice(0, 12);
+}
+
+class McpWriteRejected extends Error {}
+
+/**
+ * Run a write tool body with tenant check + audit. `body` returns the diff
+ * and a commit thunk; the thunk only runs when not a dry run.
+ */
+async function runWriteTool(
+  tool: McpWriteToolName,
+  ctx: McpWriteContext,
+  caseId: string,
+  input: object,
+  body: (sb: any, now: Date) => Promise<{ diff: McpRowDiff[]; commit: () => Promise<void> }>,
+  injected?: McpWriteDeps,
+): Promise<McpToolResult<McpWriteResult>> {
+  let deps: McpWriteDeps;
+  try {
+    deps = injected ?? (await defaultDeps());
+  } catch (err: unknown) {
+    return { ok: false, error: err instanceof Error ? err.message : "mcp_deps_unavailable" };
+  }
+  if (!caseId) return { ok: false, error: "caseId required" };
+
+  const { data: deal, error: dealErr } = await deps.sb
+    .from("deals")
+    .select("id")
+    .eq("id", caseId)
+    .eq("bank_id", ctx.bankId)
+    .maybeSingle();
+  // Cross-tenant / unknown cases get no audit row: deal_events is deal-keyed
+  // and we must not write into another bank's ledger.
+  if (dealErr || !deal) return { ok: false, error: dealErr?.message ?? "case_not_found" };
+
+  const now = (deps.now ?? (() => new Date()))();
+  let diff: McpRowDiff[] = [];
+  let error: string | null = null;
+  let committed = false;
+
+  try {
+    const plan = await body(deps.sb, now);
+    diff = plan.diff;
+    if (!ctx.dryRun && diff.length > 0) {
+      await plan.commit();
+      committed = true;
+    }
+  } catch (err: unknown) {
+    error = err instanceof Error ? err.message : `${tool}_failed`;
+    if (!(err instanceof McpWriteRejected)) console.error(`[mcp.${tool}]`, err);
+  }
+
+  await deps
+    .writeEvent({
+      dealId: caseId,
+      kind: `mcp.${tool}`,
+      actorUserId: null,
+      scope: "mcp",
+      action: error ? "rejected" : ctx.dryRun ? "dry_run" : committed ? "committed" : "noop",
+      input,
+      output: { diff, error },
+      meta: { bank_id: ctx.bankId, dry_run: ctx.dryRun, key_fingerprint: mcpKeyFingerprint() },
+    })
+    .catch(() => ({ ok: false }));
+
+  if (error) return { ok: false, error };
+  return { ok: true, data: { tool, caseId, dryRun: ctx.dryRun, committed, diff } };
+}
+
+function reject(message: string): never {
+  throw new McpWriteRejected(message);
+}
+
+function must<T>(res: { data: T | null; error: { message: string } | null }, notFound: string): T {
+  if (res.error) throw new Error(res.error.message);
+  if (!res.data) reject(notFound);
+  return res.data as T;
+}
+
+function pick(row: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.map((k) => [k, row[k] ?? null]));
+}
+
+// ---------------------------------------------------------------------------
+// buddy_clear_condition
+// ---------------------------------------------------------------------------
+
+/**
+ * Satisfy or waive a condition. Mirrors /conditions/set-status: policy-sourced
+ * conditions also move their deal_mitigants row, and a deal_condition_events
+ * row records the change.
+ */
+export async function handleClearCondition(
+  ctx: McpWriteContext,
+  input: ClearConditionInput,
+  deps?: McpWriteDeps,
+): Promise<McpToolResult<McpWriteResult>> {
+  return runWriteTool("clear_condition", ctx, input.caseId, input, async (sb, now) => {
+    const status = input.status ?? "satisfied";
+    if (status !== "satisfied" && status !== "waived") reject("status must be satisfied or waived");
+    if (!input.conditionId) reject("conditionId required");
+    const note = input.note?.trim() || null;
+
+    const cond = must<Record<string, unknown>>(
+      await sb
+        .from("deal_conditions")
+        .select("id, title, status, source, source_key")
+        .eq("id", input.conditionId)
+        .eq("deal_id", input.caseId)
+        .maybeSingle(),
+      "condition_not_found",
+    );
+    if (cond.status === status) return { diff: [], commit: async () => {} };
+
+    const nowIso = now.toISOString();
+    const diff: McpRowDiff[] = [
+      {
+        table: "deal_conditions",
+        op: "update",
+        id: String(cond.id),
+        before: pick(cond, ["status"]),
+        after: { status },
+      },
+    ];
+
+    const mitigantKey = cond.source === "policy" && cond.source_key ? String(cond.source_key) : null;
+    let mitigant: Record<string, unknown> | null = null;
+    if (mitigantKey) {
+      const m = await sb
+        .from("deal_mitigants")
+        .select("id, status, note")
+        .eq("deal_id", input.caseId)
+        .eq("mitigant_key", mitigantKey)
+        .maybeSingle();
+      mitigant = m.data ?? null;
+      if (mitigant) {
+        diff.push({
+          table: "deal_mitigants",
+          op: "update",
+          id: String(mitigant.id),
+          before: pick(mitigant, ["status", "note"]),
+          after: { status, note },
+        });
+      }
+    }
+
+    return {
+      diff,
+      commit: async () => {
+        const up = await sb
+          .from("deal_conditions")
+          .update({ status, updated_at: nowIso })
+          .eq("id", input.conditionId)
+          .eq("deal_id", input.caseId);
+        if (up.error) throw new Error(up.error.message);
+
+        if (mitigant && mitigantKey) {
+          await sb
+            .from("deal_mitigants")
+            .update(status === "satisfied" ? { status, satisfied_at: nowIso, note } : { status, note })
+            .eq("deal_id", input.caseId)
+            .eq("mitigant_key", mitigantKey);
+        }
+
+        await sb.from("deal_condition_events").insert({
+          condition_id: input.conditionId,
+          deal_id: input.caseId,
+          bank_id: ctx.bankId,
+          action: "status_change",
+          payload: { status, note, source: "mcp" },
+          created_by: null,
+        });
+      },
+    };
+  }, deps);
+}
+
+// ---------------------------------------------------------------------------
+// buddy_attach_checklist_document
+// ---------------------------------------------------------------------------
+
+/**
+ * Point a checklist item at a specific document and mark it received. The
+ * document must already be valid evidence for the key (docValidity) — this
+ * tool does not reclassify documents; checklist_key stays derived from the
+ * document type.
+ */
+export async function handleAttachChecklistDocument(
+  ctx: McpWriteContext,
+  input: AttachChecklistDocumentInput,
+  deps?: McpWriteDeps,
+): Promise<McpToolResult<McpWriteResult>> {
+  return runWriteTool("attach_checklist_document", ctx, input.caseId, input, async (sb, now) => {
+    const checklistKey = String(input.checklistKey ?? "").trim();
+    if (!checklistKey) reject("checklistKey required");
+    if (!input.documentId) reject("documentId required");
+
+    const item = must<Record<string, unknown>>(
+      await sb
+        .from("deal_checklist_items")
+        .select("id, checklist_key, status, received_at, received_document_id")
+        .eq("deal_id", input.caseId)
+        .eq("checklist_key", checklistKey)
+        .maybeSingle(),
+      "checklist_item_not_found",
+    );
+    const doc = must<Record<string, unknown>>(
+      await sb
+        .from("deal_documents")
+        .select("id, checklist_key, canonical_type, document_type, quality_status, finalized_at")
+        .eq("deal_id", input.caseId)
+        .eq("id", input.documentId)
+        .maybeSingle(),
+      "document_not_found",
+    );
+    if (!isDocValidForChecklistKey(doc, checklistKey)) {
+      reject(`document_not_valid_for_checklist_key: ${checklistKey} (reclassify the document in Buddy first)`);
+    }
+
+    if (item.status === "received" && item.received_document_id === input.documentId) {
+      return { diff: [], commit: async () => {} };
+    }
+
+    const after = {
+      status: "received",
+      received_at: item.received_at ?? now.toISOString(),
+      received_document_id: input.documentId,
+    };
+    return {
+      diff: [
+        {
+          table: "deal_checklist_items",
+          op: "update",
+          id: String(item.id),
+          before: pick(item, ["status", "received_at", "received_document_id"]),
+          after,
+        },
+      ],
+      commit: async () => {
+        const up = await sb
+          .from("deal_checklist_items")
+          .update({ ...after, updated_at: now.toISOString() })
+          .eq("id", item.id);
+        if (up.error) throw new Error(up.error.message);
+      },
+    };
+  }, deps);
+}
+
+// ---------------------------------------------------------------------------
+// buddy_request_borrower_document
+// ---------------------------------------------------------------------------
+
+/**
+ * Open a borrower_document_requests row (shown in the borrower portal). An
+ * open request with the same title is treated as already requested.
+ */
+export async function handleRequestBorrowerDocument(
+  ctx: McpWriteContext,
+  input: RequestBorrowerDocumentInput,
+  deps?: McpWriteDeps,
+): Promise<McpToolResult<McpWriteResult>> {
+  return runWriteTool("request_borrower_document", ctx, input.caseId, input, async (sb) => {
+    const title = String(input.title ?? "").trim();
+    if (!title) reject("title required");
+    if (input.dueAt && Number.isNaN(Date.parse(input.dueAt))) reject("dueAt must be an ISO 8601 date");
+
+    const { data: open, error } = await sb
+      .from("borrower_document_requests")
+      .select("id, title, status")
+      .eq("deal_id", input.caseId)
+      .eq("status", "requested");
+    if (error) throw new Error(error.message);
+    const duplicate = ((open ?? []) as Array<{ title: string }>).some(
+      (r) => String(r.title).trim().toLowerCase() === title.toLowerCase(),
+    );
+    if (duplicate) return { diff: [], commit: async () => {} };
+
+    const row = {
+      bank_id: ctx.bankId,
+      deal_id: input.caseId,
+      source: "mcp",
+      title,
+      description: input.description?.trim() || null,
+      category: input.category?.trim() || null,
+      doc_type: input.docType?.trim() || null,
+      required: true,
+      status: "requested",
+      due_at: input.dueAt ? new Date(input.dueAt).toISOString() : null,
+      evidence: { requested_via: "mcp" },
+    };
+    return {
+      diff: [{ table: "borrower_document_requests", op: "insert", id: null, before: null, after: row }],
+      commit: async () => {
+        const ins = await sb.from("borrower_document_requests").insert(row);
+        if (ins.error) throw new Error(ins.error.message);
+      },
+    };
+  }, deps);
+}
+
+// ---------------------------------------------------------------------------
+// buddy_draft_memo_section
+// ---------------------------------------------------------------------------
+
+/**
+ * Write a qualitative memo section into deal_memo_overrides. Same key policy
+ * as the cockpit (overridePolicy) — computed / numeric sections are refused.
+ * A section that already holds different text is only replaced with
+ * `overwrite: true`, so a draft never silently clobbers banker edits.
+ */
+export async function handleDraftMemoSection(
+  ctx: McpWriteContext,
+  input: DraftMemoSectionInput,
+  deps?: McpWriteDeps,
+): Promise<McpToolResult<McpWriteResult>> {
+  return runWriteTool("draft_memo_section", ctx, input.caseId, input, async (sb, now) => {
+    const key = String(input.sectionKey ?? "").trim();
+    const text = String(input.text ?? "").trim();
+    if (!key) reject("sectionKey required");
+    if (!isPermittedOverrideKey(key)) {
+      reject(`Override key "${key}" is not permitted — only qualitative narrative keys are allowed`);
+    }
+    if (!text) reject("text required");
+    if (text.length > MAX_MEMO_SECTION_CHARS) reject(`text exceeds ${MAX_MEMO_SECTION_CHARS} characters`);
+
+    const { data: existing, error } = await sb
+      .from("deal_memo_overrides")
+      .select("id, overrides")
+      .eq("deal_id", input.caseId)
+      .eq("bank_id", ctx.bankId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+
+    const overrides = ((existing?.overrides ?? {}) as Record<string, unknown>);
+    const current = typeof overrides[key] === "string" ? (overrides[key] as string) : null;
+    if (current === text) return { diff: [], commit: async () => {} };
+    if (current && current.trim() && !input.overwrite) {
+      reject(`section_has_content: "${key}" already has text — pass overwrite: true to replace it`);
+    }
+
+    const merged = { ...overrides, [key]: text };
+    return {
+      diff: [
+        {
+          table: "deal_memo_overrides",
+          op: existing?.id ? "update" : "insert",
+          id: existing?.id ? String(existing.id) : null,
+          before: existing?.id ? { [key]: current } : null,
+          after: { [key]: text },
+        },
+      ],
+      commit: async () => {
+        const res = existing?.id
+          ? await sb
+              .from("deal_memo_overrides")
+              .update({ overrides: merged, updated_at: now.toISOString() })
+              .eq("id", existing.id)
+          : await sb
+              .from("deal_memo_overrides")
+              .insert({ deal_id: input.caseId, bank_id: ctx.bankId, overrides: merged });
+        if (res.error) throw new Error(res.error.message);
+      },
+    };
+  }, deps);
+}
@@ -13,7 +13,7 @@ import type { ProductAnalysis } from "@/lib/creditLenses/types";
 import type { PolicyResult } from "@/lib/policyEngine/types";
 import type { StressResult } from "@/lib/stressEngine/types";
 import type { PricingResult } from "@/lib/pricingEngine/types";
-import type { MemoInput, MemoSectionKey } from "../types";
+import type { MemoInput, MemoSectionKey, OptionalMemoSectionKey } from "../types";
 import { getRecommendation } from "../recommendation";
 import { generateMemo } from "../index";
 
@@ -179,7 +179,7 @@ describe("Recommendation", () => {
 // Section Tests
 // ---------------------------------------------------------------------------
 
-const ALL_SECTIONS: MemoSectionKey[] = [
+const ALL_SECTIONS: Exclude<MemoSectionKey, OptionalMemoSectionKey>[] = [
   "executiveSummary",
   "transactionOverview",
   "financialAnalysis",
@@ -7,7 +7,7 @@
  * PHASE 6: Pure memo generation — no DB, no UI.
  */
 
-import type { CreditMemo, MemoInput, MemoSectionKey, MemoSection } from "./types";
+import type { CreditMemo, MemoInput, MemoSections } from "./types";
 import { getRecommendation } from "./recommendation";
 import {
   buildExecutiveSummary,
@@ -15,6 +15,7 @@ import {
   buildFinancialAnalysis,
   buildPolicyAssessment,
   buildStressAnalysis,
+  buildCashFlowSimulation,
   buildPricingSummary,
   buildRisksAndMitigants,
   buildRecommendation,
@@ -26,6 +27,8 @@ export type {
   MemoInput,
   MemoSection,
   MemoSectionKey,
+  MemoSections,
+  OptionalMemoSectionKey,
   RecommendationType,
 } from "./types";
 
@@ -39,7 +42,8 @@ export { getRecommendation } from "./recommendation";
 /**
  * Generate a structured credit memo from underwriting results.
  *
- * Composes 8 deterministic sections from:
+ * Composes 8 deterministic sections (plus the cash-flow simulation section
+ * when the stress result carries a simulation) from:
  * - CreditSnapshot (financial data)
  * - ProductAnalysis (lens interpretation)
  * - PolicyResult (threshold evaluation)
@@ -51,12 +55,15 @@ export { getRecommendation } from "./recommendation";
 export function generateMemo(input: MemoInput): CreditMemo {
   const rec = getRecommendation(input.policy.tier);
 
-  const sections: Record<MemoSectionKey, MemoSection> = {
+  const simulation = buildCashFlowSimulation(input);
+
+  const sections: MemoSections = {
     executiveSummary: buildExecutiveSummary(input),
     transactionOverview: buildTransactionOverview(input),
     financialAnalysis: buildFinancialAnalysis(input),
     policyAssessment: buildPolicyAssessment(input),
     stressAnalysis: buildStressAnalysis(input),
+    ...(simulation ? { cashFlowSimulation: simulation } : {}),
     pricingSummary: buildPricingSummary(input),
     risksAndMitigants: buildRisksAndMitigants(input),
     recommendation: buildRecommendation(input),
@@ -1,7 +1,8 @@
 /**
  * Memo Engine — Section Builders
  *
- * Eight deterministic template-based section builders.
+ * Deterministic template-based section builders (eight core sections plus
+ * the optional cash-flow simulation section).
  * No LLM calls — all text is template-generated from structured data.
  *
  * PHASE 6: Pure functions — no DB, no side effects.
@@ -185,10 +186,62 @@ export function buildStressAnalysis(input: MemoInput): MemoSection {
     `\nScenarios:\n${scenarioLines.join("\n")}`,
   ].join(" ");
 
+  // Reverse stress: one bullet per lever/target breakeven
+  const bullets = stress.reverseStress?.breakevens.map((b) => {
+    const target = `DSCR ${fmt(b.targetDscr)}x`;
+    const lever =
+      b.lever === "REVENUE_DECLINE" ? "Revenue decline"
+      : b.lever === "EBITDA_HAIRCUT" ? "EBITDA haircut"
+      : "Rate shock";
+    if (b.breakeven === null) return `${lever} to ${target}: not reached (${b.note ?? "outside search bound"})`;
+    const amount = b.lever === "RATE_SHOCK" ? `+${Math.round(b.breakeven)}bps` : `-${pct(b.breakeven)}`;
+    return `${lever} to ${target}: ${amount}`;
+  });
+
   return {
     key: "stressAnalysis",
     title: "Stress Analysis",
     content,
+    bullets: bullets && bullets.length > 0 ? bullets : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 5b. Cash Flow Simulation (optional — present when simulation was run)
+// ---------------------------------------------------------------------------
+
+export function buildCashFlowSimulation(input: MemoInput): MemoSection | undefined {
+  const sim = input.stress.simulation;
+  if (!sim) return undefined;
+
+  const cal = sim.calibration;
+  const policyLabel = sim.policyMinimumDscr !== undefined ? `${fmt(sim.policyMinimumDscr)}x` : undefined;
+
+  const content = [
+    `Monte Carlo simulation of ${sim.iterations.toLocaleString("en-US")} cash-flow paths over ${sim.horizonYears} year(s) of the term.`,
+    `Probability DSCR falls below 1.00x in at least one year: ${pct(sim.termProbBelowOne)}.`,
+    policyLabel && sim.termProbBelowPolicy !== undefined
+      ? `Probability DSCR falls below the ${policyLabel} policy minimum in at least one year: ${pct(sim.termProbBelowPolicy)}.`
+      : "",
+    `Calibrated from ${cal.historyPeriods} fiscal year(s) of borrower history with ${pct(cal.industryWeight)} weight on the ${cal.naicsDescription ?? "generic"} industry prior:`,
+    `revenue growth ${pct(cal.revenueGrowthMean)} ± ${pct(cal.revenueGrowthVol)},`,
+    `EBITDA margin ${pct(cal.meanMargin)} ± ${pct(cal.marginVol)},`,
+    `index rate shock ± ${Math.round(cal.rateVol * 10_000)}bps per year.`,
+  ].filter(Boolean).join(" ");
+
+  const bullets = sim.years.map((y) => {
+    const probs = [`P(DSCR < 1.00x) ${pct(y.probBelowOne)}`];
+    if (policyLabel && y.probBelowPolicy !== undefined) {
+      probs.push(`P(DSCR < ${policyLabel}) ${pct(y.probBelowPolicy)}`);
+    }
+    return `Year ${y.year}: ${probs.join(", ")}; DSCR p5–p95 ${fmt(y.dscr.p5)}x–${fmt(y.dscr.p95)}x (median ${fmt(y.dscr.p50)}x)`;
+  });
+
+  return {
+    key: "cashFlowSimulation",
+    title: "Cash Flow Simulation",
+    content,
+    bullets,
   };
 }
 
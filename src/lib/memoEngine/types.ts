@@ -33,10 +33,18 @@ export type MemoSectionKey =
   | "financialAnalysis"
   | "policyAssessment"
   | "stressAnalysis"
+  | "cashFlowSimulation"
   | "pricingSummary"
   | "risksAndMitigants"
   | "recommendation";
 
+/** Sections only present when their underlying analysis was run. */
+export type OptionalMemoSectionKey = "cashFlowSimulation";
+
+export type MemoSections =
+  Record<Exclude<MemoSectionKey, OptionalMemoSectionKey>, MemoSection>
+  & Partial<Record<OptionalMemoSectionKey, MemoSection>>;
+
 export interface MemoSection {
   key: MemoSectionKey;
   title: string;
@@ -67,6 +75,6 @@ export interface CreditMemo {
   product: ProductType;
   recommendation: RecommendationType;
   recommendationText: string;
-  sections: Record<MemoSectionKey, MemoSection>;
+  sections: MemoSections;
   generatedAt: string;
 }
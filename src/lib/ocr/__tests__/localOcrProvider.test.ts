@@ -0,0 +1,163 @@
+import test, { after, describe } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { mockServerOnly } from "../../../../test/utils/mockServerOnly";
+
+import { normalizeLocalOcrResponse, normalizeOcrConfidence } from "../localOcrContract";
+import {
+  OcrLatencySloExceeded,
+  cloudOcrLatencySloMs,
+  planOcrProviderChain,
+  withLatencySlo,
+} from "../ocrProviderChain";
+import { buildOcrParityReport, numericTokens, scoreOcrParity } from "../ocrParity";
+
+mockServerOnly();
+const require = createRequire(import.meta.url);
+const { runLocalOcrJob } = require("../runLocalOcrJob") as typeof import("../runLocalOcrJob");
+const { extractNormalizedWordBoxesFromAzure } =
+  require("../../evidence/azureDiGeometry") as typeof import("../../evidence/azureDiGeometry");
+
+const WORKER_RESPONSE = {
+  engine: "tesseract",
+  engine_version: "5.3.4",
+  pages: [
+    {
+      page_number: 2,
+      width: 1000,
+      height: 2000,
+      text: "Net income 1,234",
+      words: [
+        { text: "Net", confidence: 96, bbox: [100, 200, 160, 230] as [number, number, number, number] },
+        { text: "income", confidence: 90, bbox: [170, 200, 280, 230] as [number, number, number, number] },
+        { text: "1,234", confidence: 60, bbox: [300, 200, 380, 230] as [number, number, number, number] },
+      ],
+    },
+    { page_number: 1, width: 1000, height: 2000, text: "ACME LLC", confidence: 88, words: [] },
+  ],
+};
+
+describe("normalizeLocalOcrResponse", () => {
+  test("orders pages, emits [Page N] markers and 0..1 confidence", () => {
+    const r = normalizeLocalOcrResponse(WORKER_RESPONSE);
+    assert.equal(r.pageCount, 2);
+    assert.equal(r.model, "tesseract@5.3.4");
+    assert.equal(r.text, "[Page 1]\nACME LLC\n\n[Page 2]\nNet income 1,234");
+    assert.equal(r.pages[0].confidence, 0.88);
+    // Page 2 has no page-level confidence → char-weighted mean of its words.
+    assert.equal(r.pages[1].confidence, Math.round(((3 * 0.96 + 6 * 0.9 + 5 * 0.6) / 14) * 1000) / 1000);
+    assert.ok(r.meanConfidence != null && r.meanConfidence > 0.7 && r.meanConfidence < 0.9);
+  });
+
+  test("word boxes feed the evidence geometry extractor unchanged", () => {
+    const r = normalizeLocalOcrResponse(WORKER_RESPONSE);
+    const boxes = extractNormalizedWordBoxesFromAzure({ pages: r.pages });
+    assert.equal(boxes.length, 3);
+    const net = boxes.find((b) => b.content === "Net")!;
+    assert.equal(net.page_number, 2);
+    assert.deepEqual([net.x1, net.y1, net.x2, net.y2], [0.1, 0.1, 0.16, 0.115]);
+  });
+
+  test("confidence scales: tesseract 0..100, 0..1, and -1 = unknown", () => {
+    assert.equal(normalizeOcrConfidence(87.5), 0.875);
+    assert.equal(normalizeOcrConfidence(0.42), 0.42);
+    assert.equal(normalizeOcrConfidence(-1), null);
+    assert.equal(normalizeOcrConfidence(undefined), null);
+  });
+});
+
+describe("planOcrProviderChain", () => {
+  const all = { geminiEnabled: true, mistralConfigured: true, localConfigured: true };
+
+  test("healthy cloud first, local last", () => {
+    assert.deepEqual(planOcrProviderChain(all), ["gemini_google", "mistral", "local_ocr"]);
+  });
+
+  test("degraded cloud providers move behind local", () => {
+    assert.deepEqual(planOcrProviderChain(all, new Set(["gemini_google"])), ["mistral", "local_ocr", "gemini_google"]);
+    assert.deepEqual(planOcrProviderChain(all, new Set(["gemini_google", "mistral"])), [
+      "local_ocr",
+      "gemini_google",
+      "mistral",
+    ]);
+  });
+
+  test("only configured providers are planned", () => {
+    assert.deepEqual(planOcrProviderChain({ geminiEnabled: false, mistralConfigured: false, localConfigured: true }), [
+      "local_ocr",
+    ]);
+    assert.deepEqual(planOcrProviderChain({ geminiEnabled: false, mistralConfigured: false, localConfigured: false }), []);
+  });
+
+  test("cloud latency SLO env override", () => {
+    assert.equal(cloudOcrLatencySloMs({}), 90_000);
+    assert.equal(cloudOcrLatencySloMs({ OCR_CLOUD_LATENCY_SLO_MS: "15000" }), 15_000);
+    assert.equal(cloudOcrLatencySloMs({ OCR_CLOUD_LATENCY_SLO_MS: "nope" }), 90_000);
+  });
+
+  test("withLatencySlo rejects slow calls and passes fast ones through", async () => {
+    const slow = () => new Promise<string>((resolve) => setTimeout(() => resolve("late"), 50));
+    await assert.rejects(withLatencySlo("mistral", 5, slow), (e) => e instanceof OcrLatencySloExceeded);
+    assert.equal(await withLatencySlo("mistral", 500, slow), "late");
+    assert.equal(await withLatencySlo("local_ocr", null, slow), "late");
+  });
+});
+
+describe("runLocalOcrJob", () => {
+  const realFetch = globalThis.fetch;
+  after(() => {
+    globalThis.fetch = realFetch;
+    delete process.env.LOCAL_OCR_URL;
+    delete process.env.LOCAL_OCR_TOKEN;
+  });
+
+  test("posts base64 bytes to the worker and normalizes the response", async () => {
+    process.env.LOCAL_OCR_URL = "http://ocr.internal:8080";
+    process.env.LOCAL_OCR_TOKEN = "tok";
+    let seen: { url: string; init: any } | null = null;
+    globalThis.fetch = (async (url: any, init: any) => {
+      seen = { url: String(url), init };
+      return new Response(JSON.stringify(WORKER_RESPONSE), { status: 200 });
+    }) as typeof fetch;
+
+    const r = await runLocalOcrJob({ fileBytes: Buffer.from("pdf"), mimeType: "application/pdf", fileName: "a.pdf" });
+    assert.equal(r.pageCount, 2);
+    assert.equal(seen!.url, "http://ocr.internal:8080/v1/ocr");
+    assert.equal(seen!.init.headers.Authorization, "Bearer tok");
+    assert.deepEqual(JSON.parse(seen!.init.body), { file_base64: "cGRm", mime_type: "application/pdf", file_name: "a.pdf" });
+  });
+
+  test("worker errors and empty output throw so the chain moves on", async () => {
+    process.env.LOCAL_OCR_URL = "http://ocr.internal:8080";
+    globalThis.fetch = (async () => new Response("boom", { status: 503 })) as typeof fetch;
+    await assert.rejects(runLocalOcrJob({ fileBytes: Buffer.from("x"), mimeType: "image/png" }), /HTTP 503/);
+
+    globalThis.fetch = (async () => new Response(JSON.stringify({ pages: [{ text: "" }] }), { status: 200 })) as typeof fetch;
+    await assert.rejects(runLocalOcrJob({ fileBytes: Buffer.from("x"), mimeType: "image/png" }), /empty text/);
+  });
+});
+
+describe("ocrParity", () => {
+  test("identical text scores perfectly; page markers and case are ignored", () => {
+    const s = scoreOcrParity("Net Income $1,234\nEIN 12-3456789", "[Page 1]\nnet income 1234\nEIN 12-3456789");
+    assert.equal(s.numericRecall, 1);
+    assert.ok(s.cer > 0 && s.cer < 0.15);
+    assert.equal(scoreOcrParity("abc def", "abc def").cer, 0);
+  });
+
+  test("misread digits hurt numeric recall", () => {
+    assert.deepEqual(numericTokens("$1,234.00 and 12-3456789"), ["1234.00", "12-3456789"]);
+    assert.equal(scoreOcrParity("Total 1,234 and 5,678", "Total 1,284 and 5,678").numericRecall, 0.5);
+  });
+
+  test("report aggregates per provider and counts failures", () => {
+    const report = buildOcrParityReport([
+      { documentId: "a", provider: "local_ocr", ok: true, latencyMs: 300, score: scoreOcrParity("x 1", "x 1") },
+      { documentId: "b", provider: "local_ocr", ok: false, latencyMs: 10, error: "boom" },
+      { documentId: "a", provider: "mistral", ok: true, latencyMs: 900, score: scoreOcrParity("x 1", "y 2") },
+    ]);
+    const local = report.providers.find((p) => p.provider === "local_ocr")!;
+    assert.deepEqual([local.documents, local.failures, local.meanCer, local.p50LatencyMs], [2, 1, 0, 300]);
+    assert.equal(report.providers.find((p) => p.provider === "mistral")!.meanNumericRecall, 0);
+  });
+});
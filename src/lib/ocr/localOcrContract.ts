@@ -0,0 +1,132 @@
+// src/lib/ocr/localOcrContract.ts
+//
+// Pure. Wire contract for the self-hosted OCR worker (Tesseract-class engine
+// running next to the app — see runLocalOcrJob.ts) and its normalization
+// into the shape runOcrJob persists.
+//
+// Normalized pages deliberately use the Azure DI geometry shape
+// (pages[].pageNumber/width/height/words[].content/polygon) so
+// evidence/ensureGeometry.ts can derive document_ocr_words highlight boxes
+// from local OCR output with no extra adapter.
+
+/** Response body of POST {LOCAL_OCR_URL}/v1/ocr. */
+export type LocalOcrWorkerResponse = {
+  engine?: string;
+  engine_version?: string;
+  pages?: Array<{
+    page_number?: number;
+    width?: number;
+    height?: number;
+    text?: string;
+    /** 0..100 (Tesseract) or 0..1 — both accepted. */
+    confidence?: number | null;
+    words?: Array<{
+      text?: string;
+      confidence?: number | null;
+      /** [x0, y0, x1, y1] in page units (same units as width/height). */
+      bbox?: [number, number, number, number];
+    }>;
+  }>;
+};
+
+export type LocalOcrWord = {
+  content: string;
+  confidence: number | null;
+  polygon: Array<{ x: number; y: number }>;
+};
+
+export type LocalOcrPage = {
+  pageNumber: number;
+  width: number;
+  height: number;
+  /** 0..1. Worker-reported, else the character-weighted mean of word confidences. */
+  confidence: number | null;
+  text: string;
+  words: LocalOcrWord[];
+};
+
+export type LocalOcrResult = {
+  text: string;
+  pageCount: number;
+  model: string;
+  pages: LocalOcrPage[];
+  /** Character-weighted mean page confidence (0..1), null when no page reported one. */
+  meanConfidence: number | null;
+};
+
+function finite(n: unknown): number | null {
+  const v = typeof n === "number" ? n : Number(n);
+  return Number.isFinite(v) ? v : null;
+}
+
+/** Accept Tesseract's 0..100 scale as well as 0..1; -1 ("no estimate") → null. */
+export function normalizeOcrConfidence(raw: unknown): number | null {
+  const v = finite(raw);
+  if (v == null || v < 0) return null;
+  const scaled = v > 1 ? v / 100 : v;
+  return Math.round(Math.min(1, scaled) * 1000) / 1000;
+}
+
+function weightedMean(items: Array<{ weight: number; value: number | null }>): number | null {
+  let num = 0;
+  let den = 0;
+  for (const it of items) {
+    if (it.value == null || it.weight <= 0) continue;
+    num += it.value * it.weight;
+    den += it.weight;
+  }
+  return den > 0 ? Math.round((num / den) * 1000) / 1000 : null;
+}
+
+export function normalizeLocalOcrResponse(resp: LocalOcrWorkerResponse): LocalOcrResult {
+  const rawPages = Array.isArray(resp?.pages) ? resp.pages : [];
+
+  const pages: LocalOcrPage[] = rawPages.map((p, i) => {
+    const words: LocalOcrWord[] = [];
+    for (const w of Array.isArray(p?.words) ? p.words : []) {
+      const content = String(w?.text ?? "").trim();
+      const bb = Array.isArray(w?.bbox) ? w.bbox.map(finite) : [];
+      if (!content || bb.length !== 4 || bb.some((n) => n == null)) continue;
+      const [x0, y0, x1, y1] = bb as number[];
+      words.push({
+        content,
+        confidence: normalizeOcrConfidence(w?.confidence),
+        polygon: [
+          { x: x0, y: y0 },
+          { x: x1, y: y0 },
+          { x: x1, y: y1 },
+          { x: x0, y: y1 },
+        ],
+      });
+    }
+
+    const text = typeof p?.text === "string" ? p.text : words.map((w) => w.content).join(" ");
+    const confidence =
+      normalizeOcrConfidence(p?.confidence) ??
+      weightedMean(words.map((w) => ({ weight: w.content.length, value: w.confidence })));
+
+    return {
+      pageNumber: finite(p?.page_number) ?? i + 1,
+      width: finite(p?.width) ?? 0,
+      height: finite(p?.height) ?? 0,
+      confidence,
+      text: text.trim(),
+      words,
+    };
+  });
+
+  pages.sort((a, b) => a.pageNumber - b.pageNumber);
+
+  // Same [Page N] marker convention as the Gemini/Mistral engines so
+  // runOcrJob's page map builder works unchanged.
+  const text = pages.map((p) => `[Page ${p.pageNumber}]\n${p.text}`).join("\n\n");
+  const engine = String(resp?.engine || "local");
+
+  return {
+    text,
+    pageCount: pages.length,
+    model: resp?.engine_version ? `${engine}@${resp.engine_version}` : engine,
+    pages,
+    meanConfidence: weightedMean(pages.map((p) => ({ weight: Math.max(1, p.text.length), value: p.confidence }))),
+  };
+}
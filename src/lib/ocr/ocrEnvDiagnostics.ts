@@ -1,5 +1,6 @@
 import "server-only";
 import { MISTRAL_OCR } from "@/lib/ai/models";
+import { cloudOcrLatencySloMs } from "./ocrProviderChain";
 
 export type OcrEnvDiagnostics = {
   useGeminiOcrEnabled: boolean;
@@ -10,6 +11,11 @@ export type OcrEnvDiagnostics = {
   /** Whether the Mistral fallback (used when Gemini OCR fails/is disabled) is configured. */
   mistralFallbackConfigured: boolean;
   mistralModel: string;
+  /** Whether the self-hosted OCR worker (last-resort / degraded-cloud fallback) is configured. */
+  localOcrConfigured: boolean;
+  hasLocalOcrToken: boolean;
+  /** Cloud provider calls slower than this fall through to the next provider. */
+  cloudLatencySloMs: number;
 };
 
 export function getOcrEnvDiagnostics(): OcrEnvDiagnostics {
@@ -47,5 +53,8 @@ export function getOcrEnvDiagnostics(): OcrEnvDiagnostics {
     geminiModel,
     mistralFallbackConfigured,
     mistralModel: MISTRAL_OCR,
+    localOcrConfigured: Boolean(process.env.LOCAL_OCR_URL),
+    hasLocalOcrToken: Boolean(process.env.LOCAL_OCR_TOKEN),
+    cloudLatencySloMs: cloudOcrLatencySloMs(),
   };
 }
@@ -0,0 +1,165 @@
+// src/lib/ocr/ocrParity.ts
+//
+// Pure. Text-quality scoring for the OCR provider parity report
+// (scripts/ocr-parity-report.ts): each provider's output on a golden-corpus
+// document is compared to the reference transcription.
+//
+//   CER  — character error rate (Levenshtein / reference length), whitespace-normalized
+//   WER  — word error rate over whitespace tokens
+//   numericRecall — share of reference numeric tokens (amounts, EINs, account
+//                   numbers) found in the output; the metric underwriting
+//                   actually cares about, since a misread digit moves a spread
+
+export type OcrParityScore = {
+  cer: number;
+  wer: number;
+  numericRecall: number;
+  referenceChars: number;
+  outputChars: number;
+};
+
+export type OcrParityRun = {
+  documentId: string;
+  provider: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+  score?: OcrParityScore;
+  meanConfidence?: number | null;
+};
+
+export type OcrParityProviderSummary = {
+  provider: string;
+  documents: number;
+  failures: number;
+  meanCer: number | null;
+  meanWer: number | null;
+  meanNumericRecall: number | null;
+  p50LatencyMs: number | null;
+};
+
+export type OcrParityReport = {
+  runs: OcrParityRun[];
+  providers: OcrParityProviderSummary[];
+};
+
+/** Drop [Page N] markers, lowercase, collapse whitespace. */
+export function normalizeOcrText(text: string): string {
+  return String(text || "")
+    .replace(/^\[Page\s+\d+\]\s*$/gim, " ")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein<T>(a: ArrayLike<T>, b: ArrayLike<T>): number {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  let prev = new Array<number>(b.length + 1);
+  let cur = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    cur[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+    }
+    [prev, cur] = [cur, prev];
+  }
+  return prev[b.length];
+}
+
+/** Digit runs with their separators stripped, so "$1,234.00" and "1234.00" match. */
+export function numericTokens(text: string): string[] {
+  return (String(text || "").match(/\d[\d,.\-/]*\d|\d/g) ?? []).map((t) => t.replace(/[,]/g, ""));
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+export function scoreOcrParity(reference: string, output: string): OcrParityScore {
+  const ref = normalizeOcrText(reference);
+  const out = normalizeOcrText(output);
+
+  const refWords = ref ? ref.split(" ") : [];
+  const outWords = out ? out.split(" ") : [];
+
+  const refNums = numericTokens(reference);
+  const outNums = new Map<string, number>();
+  for (const t of numericTokens(output)) outNums.set(t, (outNums.get(t) ?? 0) + 1);
+  let found = 0;
+  for (const t of refNums) {
+    const left = outNums.get(t) ?? 0;
+    if (left > 0) {
+      found++;
+      outNums.set(t, left - 1);
+    }
+  }
+
+  return {
+    cer: round(ref.length ? levenshtein(ref, out) / ref.length : out.length ? 1 : 0),
+    wer: round(refWords.length ? levenshtein(refWords, outWords) / refWords.length : outWords.length ? 1 : 0),
+    numericRecall: round(refNums.length ? found / refNums.length : 1),
+    referenceChars: ref.length,
+    outputChars: out.length,
+  };
+}
+
+function mean(xs: number[]): number | null {
+  return xs.length ? round(xs.reduce((s, x) => s + x, 0) / xs.length) : null;
+}
+
+export function buildOcrParityReport(runs: OcrParityRun[]): OcrParityReport {
+  const byProvider = new Map<string, OcrParityRun[]>();
+  for (const r of runs) {
+    const list = byProvider.get(r.provider) ?? [];
+    list.push(r);
+    byProvider.set(r.provider, list);
+  }
+
+  const providers: OcrParityProviderSummary[] = [...byProvider.entries()].map(([provider, list]) => {
+    const scored = list.filter((r) => r.ok && r.score).map((r) => r.score!);
+    const latencies = list.filter((r) => r.ok).map((r) => r.latencyMs).sort((a, b) => a - b);
+    return {
+      provider,
+      documents: list.length,
+      failures: list.filter((r) => !r.ok).length,
+      meanCer: mean(scored.map((s) => s.cer)),
+      meanWer: mean(scored.map((s) => s.wer)),
+      meanNumericRecall: mean(scored.map((s) => s.numericRecall)),
+      p50LatencyMs: latencies.length ? latencies[Math.floor((latencies.length - 1) / 2)] : null,
+    };
+  });
+
+  return { runs, providers };
+}
+
+const pct = (n: number | null) => (n == null ? "—" : `${(n * 100).toFixed(1)}%`);
+
+export function formatOcrParityReport(report: OcrParityReport): string {
+  const lines: string[] = [];
+  lines.push("provider        docs  fail   CER     WER     num-recall  p50 ms");
+  for (const p of report.providers) {
+    lines.push(
+      [
+        p.provider.padEnd(15),
+        String(p.documents).padStart(4),
+        String(p.failures).padStart(5),
+        pct(p.meanCer).padStart(7),
+        pct(p.meanWer).padStart(7),
+        pct(p.meanNumericRecall).padStart(11),
+        String(p.p50LatencyMs ?? "—").padStart(7),
+      ].join(" "),
+    );
+  }
+  lines.push("");
+  for (const r of report.runs) {
+    const detail = r.ok
+      ? `CER ${pct(r.score!.cer)}  WER ${pct(r.score!.wer)}  num ${pct(r.score!.numericRecall)}` +
+        (r.meanConfidence != null ? `  conf ${pct(r.meanConfidence)}` : "")
+      : `FAILED: ${r.error}`;
+    lines.push(`  ${r.documentId.padEnd(24)} ${r.provider.padEnd(14)} ${detail}`);
+  }
+  return lines.join("\n");
+}
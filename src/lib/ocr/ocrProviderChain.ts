@@ -0,0 +1,78 @@
+// src/lib/ocr/ocrProviderChain.ts
+//
+// Pure. Decides which OCR providers runOcrJob tries, and in what order.
+//
+//   gemini_google  — primary cloud engine (USE_GEMINI_OCR=true)
+//   mistral        — cloud fallback (MISTRAL_API_KEY)
+//   local_ocr      — self-hosted worker (LOCAL_OCR_URL), see runLocalOcrJob.ts
+//
+// Healthy cloud providers go first. A cloud provider currently breaching its
+// SLO (intake/slo/detectOcrFailures.ts → getDegradedOcrProviders) is moved
+// behind the local engine so a vendor outage doesn't make every job wait out
+// a timeout before falling back — but it stays in the chain as a last resort.
+// Cloud calls are also bounded by a latency SLO; exceeding it counts as a
+// failure and moves on to the next provider.
+
+export type OcrProvider = "gemini_google" | "mistral" | "local_ocr";
+
+export const CLOUD_OCR_PROVIDERS: readonly OcrProvider[] = ["gemini_google", "mistral"];
+
+export const DEFAULT_CLOUD_OCR_LATENCY_SLO_MS = 90_000;
+
+export type OcrProviderConfig = {
+  geminiEnabled: boolean;
+  mistralConfigured: boolean;
+  localConfigured: boolean;
+};
+
+export function readOcrProviderConfig(env: Record<string, string | undefined> = process.env): OcrProviderConfig {
+  return {
+    geminiEnabled: env.USE_GEMINI_OCR === "true",
+    mistralConfigured: Boolean(env.MISTRAL_API_KEY),
+    localConfigured: Boolean(env.LOCAL_OCR_URL),
+  };
+}
+
+export function cloudOcrLatencySloMs(env: Record<string, string | undefined> = process.env): number {
+  const n = Number(env.OCR_CLOUD_LATENCY_SLO_MS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_CLOUD_OCR_LATENCY_SLO_MS;
+}
+
+export function planOcrProviderChain(
+  config: OcrProviderConfig,
+  degraded: ReadonlySet<string> = new Set(),
+): OcrProvider[] {
+  const cloud: OcrProvider[] = [];
+  if (config.geminiEnabled) cloud.push("gemini_google");
+  if (config.mistralConfigured) cloud.push("mistral");
+
+  const healthy = cloud.filter((p) => !degraded.has(p));
+  const unhealthy = cloud.filter((p) => degraded.has(p));
+  return [...healthy, ...(config.localConfigured ? (["local_ocr"] as OcrProvider[]) : []), ...unhealthy];
+}
+
+export class OcrLatencySloExceeded extends Error {
+  constructor(
+    public readonly provider: OcrProvider,
+    public readonly sloMs: number,
+  ) {
+    super(`${provider} exceeded OCR latency SLO (${sloMs}ms)`);
+    this.name = "OcrLatencySloExceeded";
+  }
+}
+
+/**
+ * Race a provider call against its latency SLO. The abandoned call is left to
+ * settle on its own (its own fetch timeout still applies); its result is ignored.
+ */
+export function withLatencySlo<T>(provider: OcrProvider, sloMs: number | null, run: () => Promise<T>): Promise<T> {
+  const call = run();
+  if (!sloMs) return call;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const slo = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new OcrLatencySloExceeded(provider, sloMs)), sloMs);
+  });
+  call.catch(() => {});
+  return Promise.race([call, slo]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,94 @@
+// src/lib/ocr/runLocalOcrJob.ts
+import "server-only";
+import { normalizeLocalOcrResponse, type LocalOcrResult, type LocalOcrWorkerResponse } from "./localOcrContract";
+
+/**
+ * Self-hosted OCR provider — the offline fallback behind Gemini and Mistral.
+ *
+ * Talks to an OCR worker we run ourselves (Tesseract-class engine in a
+ * container on the bank's network). No document bytes leave our
+ * infrastructure, and intake keeps moving when both cloud vendors are
+ * degraded.
+ *
+ * Worker contract:
+ *   POST {LOCAL_OCR_URL}/v1/ocr
+ *   Authorization: Bearer {LOCAL_OCR_TOKEN}      (when set)
+ *   { file_base64, mime_type, file_name }
+ *   → LocalOcrWorkerResponse (per-page text, confidence, word bboxes)
+ */
+
+export type LocalOcrArgs = {
+  fileBytes: Buffer;
+  mimeType: string;
+  fileName?: string;
+};
+
+export type { LocalOcrResult } from "./localOcrContract";
+
+// Page rasterization + Tesseract is CPU-bound and much slower per page than
+// the cloud engines; allow more headroom than their 120s.
+const DEFAULT_TIMEOUT_MS = 180_000;
+
+export function isLocalOcrConfigured(): boolean {
+  return Boolean(process.env.LOCAL_OCR_URL);
+}
+
+export async function runLocalOcrJob(args: LocalOcrArgs): Promise<LocalOcrResult> {
+  const { fileBytes, mimeType, fileName } = args;
+  const started = Date.now();
+
+  const baseUrl = process.env.LOCAL_OCR_URL;
+  if (!baseUrl) {
+    throw new Error("Missing LOCAL_OCR_URL environment variable");
+  }
+  const timeoutMs = Number(process.env.LOCAL_OCR_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+  console.log("[LocalOCR] Starting OCR job", {
+    fileName,
+    mimeType,
+    fileSize: fileBytes.length,
+  });
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (process.env.LOCAL_OCR_TOKEN) headers.Authorization = `Bearer ${process.env.LOCAL_OCR_TOKEN}`;
+
+  let res: Response;
+  try {
+    res = await fetch(new URL("/v1/ocr", baseUrl), {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        file_base64: fileBytes.toString("base64"),
+        mime_type: mimeType,
+        file_name: fileName ?? null,
+      }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (e: any) {
+    if (e?.name === "TimeoutError") {
+      throw new Error(`Local OCR timeout after ${timeoutMs / 1000}s`);
+    }
+    throw new Error(`Local OCR worker unreachable: ${e?.message ?? String(e)}`);
+  }
+
+  if (!res.ok) {
+    const detail = (await res.text().catch(() => "")).slice(0, 500);
+    throw new Error(`Local OCR worker HTTP ${res.status}: ${detail}`);
+  }
+
+  const result = normalizeLocalOcrResponse((await res.json()) as LocalOcrWorkerResponse);
+  if (result.pageCount === 0 || !result.text.replace(/\[Page \d+\]/g, "").trim()) {
+    throw new Error("Local OCR returned empty text");
+  }
+
+  console.log("[LocalOCR] OCR job complete", {
+    fileName,
+    model: result.model,
+    pageCount: result.pageCount,
+    meanConfidence: result.meanConfidence,
+    textLength: result.text.length,
+    elapsedMs: Date.now() - started,
+  });
+
+  return result;
+}
@@ -3,6 +3,16 @@ import "server-only";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { runGeminiOcrJob } from "./runGeminiOcrJob";
 import { runMistralOcrJob } from "./runMistralOcrJob";
+import { runLocalOcrJob, type LocalOcrResult } from "./runLocalOcrJob";
+import {
+  OcrLatencySloExceeded,
+  cloudOcrLatencySloMs,
+  planOcrProviderChain,
+  readOcrProviderConfig,
+  withLatencySlo,
+  type OcrProvider,
+} from "./ocrProviderChain";
+import { getDegradedOcrProviders } from "@/lib/intake/slo/detectOcrFailures";
 
 type RunArgs = { dealId: string; jobId: string; reqId?: string; bankId?: string };
 
@@ -32,6 +42,49 @@ function inferMimeTypeFromName(name: string | null | undefined): string {
   return "application/pdf";
 }
 
+type EngineInput = { fileBytes: Buffer; mimeType: string; fileName?: string };
+type EngineOutput = { text: string; pageCount: number; model: string; local?: LocalOcrResult };
+
+async function runEngine(provider: OcrProvider, input: EngineInput): Promise<EngineOutput> {
+  if (provider === "gemini_google") return runGeminiOcrJob(input);
+  if (provider === "mistral") return runMistralOcrJob(input);
+  const local = await runLocalOcrJob(input);
+  return { text: local.text, pageCount: local.pageCount, model: local.model, local };
+}
+
+/** Best-effort: feeds intake_ocr_provider_slo_v1. Never fails the job. */
+async function recordProviderAttempt(sb: any, row: Record<string, unknown>) {
+  try {
+    const { error } = await sb.from("ocr_provider_attempts").insert(row);
+    if (error) console.warn("[OCR] provider attempt insert failed (non-fatal):", error.message);
+  } catch (e: any) {
+    console.warn("[OCR] provider attempt insert failed (non-fatal):", e?.message ?? String(e));
+  }
+}
+
+/**
+ * OCR a file that isn't a deal document (e.g. a third-party report) through
+ * the same provider chain + latency SLO as runOcrJob, without job / page-map
+ * bookkeeping. Throws the last provider error if every provider fails.
+ */
+export async function ocrFileBytes(input: EngineInput): Promise<EngineOutput & { engine: OcrProvider }> {
+  const chain = planOcrProviderChain(readOcrProviderConfig(), await getDegradedOcrProviders());
+  if (chain.length === 0) throw new Error("No OCR provider configured.");
+  const sloMs = cloudOcrLatencySloMs();
+  let lastErr: unknown = null;
+  for (const provider of chain) {
+    try {
+      const output = await withLatencySlo(provider, provider === "local_ocr" ? null : sloMs, () =>
+        runEngine(provider, input),
+      );
+      return { ...output, engine: provider };
+    } catch (e) {
+      lastErr = e;
+    }
+  }
+  throw lastErr;
+}
+
 type PageMapRow = {
   page_number: number;
   page_text: string;
@@ -259,16 +312,17 @@ export async function runOcrJob({ dealId, jobId, reqId: _reqId, bankId }: RunArg
     const started = Date.now();
     const engineAttempts: string[] = [];
     try {
-      // 🚀 OCR: Gemini is the primary engine; Mistral's OCR endpoint is the
-      // fallback when Gemini fails or is disabled, so a Gemini outage/model
-      // retirement doesn't fail every OCR job (Azure DI/Claude remain
-      // disabled — Mistral is the only configured fallback provider).
-      const geminiEnabled = process.env.USE_GEMINI_OCR === "true";
-      const mistralConfigured = Boolean(process.env.MISTRAL_API_KEY);
-
-      if (!geminiEnabled && !mistralConfigured) {
+      // 🚀 OCR: walk the provider chain — Gemini (primary), Mistral (cloud
+      // fallback), then the self-hosted local engine, with cloud providers
+      // that are currently breaching their SLO pushed behind local. Each cloud
+      // call is bounded by a latency SLO; blowing it counts as a failure and
+      // moves on. Every attempt is recorded in ocr_provider_attempts, which is
+      // what the SLO monitor judges providers on.
+      const chain = planOcrProviderChain(readOcrProviderConfig(), await getDegradedOcrProviders());
+
+      if (chain.length === 0) {
         throw new Error(
-          "No OCR provider configured. Set USE_GEMINI_OCR=\"true\" and/or MISTRAL_API_KEY.",
+          "No OCR provider configured. Set USE_GEMINI_OCR=\"true\", MISTRAL_API_KEY and/or LOCAL_OCR_URL.",
         );
       }
 
@@ -276,72 +330,79 @@ export async function runOcrJob({ dealId, jobId, reqId: _reqId, bankId }: RunArg
         throw new Error("ocr_missing_file_bytes");
       }
 
-      const finalMimeType = mimeType || inferMimeTypeFromName(sourceFileName || storedName);
-      const finalFileName = sourceFileName || storedName || undefined;
+      const input = {
+        fileBytes,
+        mimeType: mimeType || inferMimeTypeFromName(sourceFileName || storedName),
+        fileName: sourceFileName || storedName || undefined,
+      };
+      const sloMs = cloudOcrLatencySloMs();
 
-      let engine: string;
-      let model: string;
-      let ocrText: string;
-      let ocrPageCount: number;
-      let primaryEngineError: any = null;
+      let winner: { engine: OcrProvider; output: EngineOutput } | null = null;
+      const failedEngines: Array<{ engine: OcrProvider; error: any }> = [];
 
-      if (geminiEnabled) {
+      for (const provider of chain) {
+        engineAttempts.push(provider);
+        const attemptStarted = Date.now();
         try {
-          engineAttempts.push("gemini_google");
-          const geminiResult = await runGeminiOcrJob({
-            fileBytes,
-            mimeType: finalMimeType,
-            fileName: finalFileName,
+          const output = await withLatencySlo(provider, provider === "local_ocr" ? null : sloMs, () =>
+            runEngine(provider, input),
+          );
+          await recordProviderAttempt(sb, {
+            deal_id: dealId,
+            attachment_id: resolvedAttachmentId,
+            job_id: jobId,
+            provider,
+            model: output.model || null,
+            status: "succeeded",
+            latency_ms: Date.now() - attemptStarted,
+            page_count: output.pageCount,
+            mean_confidence: output.local?.meanConfidence ?? null,
+            error: null,
+          });
+          winner = { engine: provider, output };
+          break;
+        } catch (engineErr: any) {
+          await recordProviderAttempt(sb, {
+            deal_id: dealId,
+            attachment_id: resolvedAttachmentId,
+            job_id: jobId,
+            provider,
+            model: null,
+            status: engineErr instanceof OcrLatencySloExceeded ? "timeout" : "failed",
+            latency_ms: Date.now() - attemptStarted,
+            page_count: null,
+            mean_confidence: null,
+            error: String(engineErr?.message ?? engineErr).slice(0, 1000),
           });
-          engine = "gemini_google";
-          model = geminiResult.model;
-          ocrText = geminiResult.text;
-          ocrPageCount = geminiResult.pageCount;
-        } catch (geminiErr: any) {
-          primaryEngineError = geminiErr;
-          if (!mistralConfigured) throw geminiErr;
-
-          console.warn("[OCR] Gemini failed, falling back to Mistral", {
+          failedEngines.push({ engine: provider, error: engineErr });
+          console.warn(`[OCR] ${provider} failed, trying next provider`, {
             dealId,
             jobId,
-            error: geminiErr?.message ?? String(geminiErr),
-          });
-
-          engineAttempts.push("mistral");
-          const mistralResult = await runMistralOcrJob({
-            fileBytes,
-            mimeType: finalMimeType,
-            fileName: finalFileName,
+            error: engineErr?.message ?? String(engineErr),
           });
-          engine = "mistral";
-          model = mistralResult.model;
-          ocrText = mistralResult.text;
-          ocrPageCount = mistralResult.pageCount;
         }
-      } else {
-        // Gemini disabled by flag — go straight to Mistral.
-        engineAttempts.push("mistral");
-        const mistralResult = await runMistralOcrJob({
-          fileBytes,
-          mimeType: finalMimeType,
-          fileName: finalFileName,
-        });
-        engine = "mistral";
-        model = mistralResult.model;
-        ocrText = mistralResult.text;
-        ocrPageCount = mistralResult.pageCount;
       }
 
+      if (!winner) throw failedEngines[failedEngines.length - 1].error;
+
+      const engine = winner.engine;
+      const model = winner.output.model;
+      const ocrText = winner.output.text;
+      const ocrPageCount = winner.output.pageCount;
+      const localPages = winner.output.local?.pages ?? null;
+
       const auditMap = buildAuditMapFromMarkers(ocrText);
+      const pageConfidence = new Map((localPages ?? []).map((p) => [p.pageNumber, p.confidence]));
       const findings = [
         { kind: "engine", note: engine },
         { kind: "model", note: model || null },
         { kind: "page_markers", note: auditMap ? "present" : "missing" },
-        ...(primaryEngineError
-          ? [{
-              kind: "primary_engine_failed",
-              note: `gemini_google: ${primaryEngineError?.message ?? String(primaryEngineError)}`,
-            }]
+        ...failedEngines.map((f) => ({
+          kind: f.error instanceof OcrLatencySloExceeded ? "engine_slo_exceeded" : "engine_failed",
+          note: `${f.engine}: ${f.error?.message ?? String(f.error)}`,
+        })),
+        ...(winner.output.local?.meanConfidence != null
+          ? [{ kind: "ocr_confidence", note: String(winner.output.local.meanConfidence) }]
           : []),
       ];
 
@@ -355,6 +416,9 @@ export async function runOcrJob({ dealId, jobId, reqId: _reqId, bankId }: RunArg
           ocrText,
           auditMap,
           findings,
+          // Azure-DI-shaped word geometry (local engine only) — lets
+          // evidence/ensureGeometry derive highlight boxes without re-OCR.
+          ...(localPages ? { pages: localPages } : {}),
         },
         classification: null,
         c4: null,
@@ -393,6 +457,7 @@ export async function runOcrJob({ dealId, jobId, reqId: _reqId, bankId }: RunArg
             page_text: p.page_text,
             global_char_start: p.global_char_start,
             global_char_end: p.global_char_end,
+            ocr_confidence: pageConfidence.get(p.page_number) ?? null,
           }));
 
           const ins = await (sb as any).from("document_ocr_page_map").insert(rows);
@@ -28,9 +28,10 @@ import type {
   PolicyResult,
   PolicyThreshold,
   RiskTier,
+  StructureBounds,
   ThresholdBreach,
 } from "./types";
-import { getPolicyDefinition, MINOR_BREACH_BAND } from "./policies";
+import { getPolicyDefinition, getStructureBounds, MINOR_BREACH_BAND } from "./policies";
 
 // ---------------------------------------------------------------------------
 // Metric value extraction
@@ -130,6 +131,47 @@ function mergeThresholds(
 // Public API
 // ---------------------------------------------------------------------------
 
+/**
+ * Effective thresholds for a product: system policy with bank overrides merged.
+ *
+ * Pure function — deterministic, no side effects.
+ */
+export function resolvePolicyThresholds(
+  product: ProductType,
+  config?: PolicyConfigOverride,
+): PolicyThreshold[] {
+  const policy = getPolicyDefinition(product);
+  return config?.thresholds
+    ? mergeThresholds(
+        policy.thresholds,
+        config.thresholds.filter((t) => t.product === product),
+      )
+    : policy.thresholds;
+}
+
+/**
+ * Effective structure bounds for a product: system bounds with the bank's
+ * override for that product applied field by field.
+ *
+ * Pure function — deterministic, no side effects.
+ */
+export function resolveStructureBounds(
+  product: ProductType,
+  config?: PolicyConfigOverride,
+): StructureBounds {
+  const base = getStructureBounds(product);
+  const override = config?.structureBounds?.find((b) => b.product === product);
+  if (!override) return base;
+
+  return {
+    ...base,
+    ...override,
+    amortizationMonths: { ...base.amortizationMonths, ...override.amortizationMonths },
+    termMonths: { ...base.termMonths, ...override.termMonths },
+    guaranteePct: { ...base.guaranteePct, ...override.guaranteePct },
+  };
+}
+
 /**
  * Evaluate a CreditSnapshot against product-specific policy thresholds.
  *
@@ -148,16 +190,10 @@ export function evaluatePolicy(
   product: ProductType,
   config?: PolicyConfigOverride,
 ): PolicyResult {
-  const policy = getPolicyDefinition(product);
   const breachBand = config?.minorBreachBand ?? MINOR_BREACH_BAND;
 
   // Merge config overrides onto base thresholds
-  const thresholds = config?.thresholds
-    ? mergeThresholds(
-        policy.thresholds,
-        config.thresholds.filter((t) => t.product === product),
-      )
-    : policy.thresholds;
+  const thresholds = resolvePolicyThresholds(product, config);
 
   const breaches: ThresholdBreach[] = [];
   const warnings: string[] = [];
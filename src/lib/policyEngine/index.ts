@@ -20,11 +20,13 @@ export type {
   RiskTier,
   BreachSeverity,
   ThresholdBreach,
+  StructureBounds,
+  MonthRange,
 } from "./types";
 
 // Re-export sub-modules
-export { getPolicyDefinition, MINOR_BREACH_BAND } from "./policies";
-export { evaluatePolicy } from "./evaluator";
+export { getPolicyDefinition, getStructureBounds, MINOR_BREACH_BAND } from "./policies";
+export { evaluatePolicy, resolvePolicyThresholds, resolveStructureBounds } from "./evaluator";
 
 // ---------------------------------------------------------------------------
 // Composed decision
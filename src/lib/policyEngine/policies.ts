@@ -8,7 +8,7 @@
  */
 
 import type { ProductType } from "@/lib/creditLenses/types";
-import type { PolicyDefinition } from "./types";
+import type { PolicyDefinition, StructureBounds } from "./types";
 
 // ---------------------------------------------------------------------------
 // Thresholds (configurable constants)
@@ -70,3 +70,70 @@ const POLICY_REGISTRY: Record<ProductType, PolicyDefinition> = {
 export function getPolicyDefinition(product: ProductType): PolicyDefinition {
   return POLICY_REGISTRY[product];
 }
+
+// ---------------------------------------------------------------------------
+// Structure Bounds
+// ---------------------------------------------------------------------------
+
+const SBA_STRUCTURE: StructureBounds = {
+  product: "SBA",
+  amortizationMonths: { min: 60, max: 300 },
+  termMonths: { min: 60, max: 300 },
+  minEquityPct: 0.1,
+  guaranteePct: { min: 0.5, max: 0.85 },
+  maxLoanAmount: 5_000_000,
+  minGlobalDscr: 1.25,
+  // No maxLtv — SOP 50 10 8: a loan is not declined solely for a collateral shortfall
+};
+
+const LOC_STRUCTURE: StructureBounds = {
+  product: "LOC",
+  amortizationMonths: { min: 12, max: 60 },
+  termMonths: { min: 12, max: 24 },
+  minEquityPct: 0,
+  maxLtv: 0.8,
+  guaranteePct: { min: 0, max: 0 },
+};
+
+const EQUIPMENT_STRUCTURE: StructureBounds = {
+  product: "EQUIPMENT",
+  amortizationMonths: { min: 36, max: 84 },
+  termMonths: { min: 36, max: 84 },
+  minEquityPct: 0.1,
+  maxLtv: 0.8,
+  guaranteePct: { min: 0, max: 0 },
+};
+
+const ACQUISITION_STRUCTURE: StructureBounds = {
+  product: "ACQUISITION",
+  amortizationMonths: { min: 60, max: 120 },
+  termMonths: { min: 60, max: 120 },
+  minEquityPct: 0.1,
+  guaranteePct: { min: 0, max: 0 },
+  minGlobalDscr: 1.2,
+};
+
+const CRE_STRUCTURE: StructureBounds = {
+  product: "CRE",
+  amortizationMonths: { min: 120, max: 300 },
+  termMonths: { min: 60, max: 120 },
+  minEquityPct: 0.2,
+  maxLtv: 0.8,
+  guaranteePct: { min: 0, max: 0 },
+  minGlobalDscr: 1.2,
+};
+
+const STRUCTURE_REGISTRY: Record<ProductType, StructureBounds> = {
+  SBA: SBA_STRUCTURE,
+  LOC: LOC_STRUCTURE,
+  EQUIPMENT: EQUIPMENT_STRUCTURE,
+  ACQUISITION: ACQUISITION_STRUCTURE,
+  CRE: CRE_STRUCTURE,
+};
+
+/**
+ * Get the baseline structure bounds for a product type.
+ */
+export function getStructureBounds(product: ProductType): StructureBounds {
+  return STRUCTURE_REGISTRY[product];
+}
@@ -37,6 +37,36 @@ export interface PolicyDefinition {
   thresholds: PolicyThreshold[];
 }
 
+// ---------------------------------------------------------------------------
+// Structure Bounds
+// ---------------------------------------------------------------------------
+
+export interface MonthRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Loan-structure limits per product — the search space for the structuring
+ * optimizer. Ratio minimums (DSCR) stay in PolicyThreshold; these bound the
+ * terms themselves.
+ */
+export interface StructureBounds {
+  product: ProductType;
+  amortizationMonths: MonthRange;
+  termMonths: MonthRange;
+  /** Minimum equity injection as a fraction of project cost */
+  minEquityPct: number;
+  /** Maximum loan / lendable collateral value. Absent = LTV is not a decline factor. */
+  maxLtv?: number;
+  /** Guarantee percentage the bank may elect (0–0 when unguaranteed) */
+  guaranteePct: { min: number; max: number };
+  /** Program loan-size cap */
+  maxLoanAmount?: number;
+  /** Minimum global DSCR (business + guarantor cash flow). Absent = not tested. */
+  minGlobalDscr?: number;
+}
+
 // ---------------------------------------------------------------------------
 // Threshold Evaluation
 // ---------------------------------------------------------------------------
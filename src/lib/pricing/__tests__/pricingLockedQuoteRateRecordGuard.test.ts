@@ -0,0 +1,43 @@
+/**
+ * Locked quote → index rate record — CI Guard Tests
+ *
+ * Guards:
+ * 1. Quote generation stores the index_rate_history id on the quote and snapshot
+ * 2. Lock refuses quotes whose rate record cannot be resolved
+ * 3. Lock persists index_rate_history_id on the locked quote
+ * 4. Lock memo uses the recorded rate, not a fresh lookup
+ */
+
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+const repoRoot = resolve(__dirname, "../../../..");
+
+function read(rel: string): string {
+  return readFileSync(resolve(repoRoot, rel), "utf8");
+}
+
+const QUOTE_ROUTE = read("src/app/api/deals/[dealId]/pricing/quote/route.ts");
+const LOCK_ROUTE = read("src/app/api/deals/[dealId]/pricing/quote/[quoteId]/lock/route.ts");
+
+describe("Locked quote rate record guards", () => {
+  test("Guard 1: quote generation links the rate record", () => {
+    const matches = QUOTE_ROUTE.match(/index_rate_history_id: live\.historyId \?\? null/g) ?? [];
+    assert.equal(matches.length, 2, "Both the snapshot and the quote must carry index_rate_history_id");
+  });
+
+  test("Guard 2: lock refuses quotes without a rate record", () => {
+    assert.match(LOCK_ROUTE, /resolveQuoteRateRecordId\(sb, quote\)/);
+    assert.match(LOCK_ROUTE, /rate_record_missing/);
+  });
+
+  test("Guard 3: lock persists index_rate_history_id", () => {
+    assert.match(LOCK_ROUTE, /index_rate_history_id: rateRecordId/);
+  });
+
+  test("Guard 4: lock memo prefers the recorded rate", () => {
+    assert.match(LOCK_ROUTE, /getIndexRateRecord\(rateRecordId\)/);
+  });
+});
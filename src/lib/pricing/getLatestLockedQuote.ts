@@ -36,3 +36,40 @@ export async function getLatestLockedQuoteId(
   const row = data?.[0];
   return row?.id ?? null;
 }
+
+/**
+ * Resolves the index_rate_history record a quote was priced from.
+ *
+ * Quotes created since index-rate history carry the id directly. Older
+ * quotes fall back to their rate snapshot: first the snapshot's own link,
+ * then an exact (index_code, as_of_date, rate_pct) match in history.
+ * Returns null when no record can be proven — callers must not guess.
+ */
+export async function resolveQuoteRateRecordId(
+  sb: SupabaseClient,
+  quote: { index_rate_history_id?: string | null; rate_snapshot_id?: string | null },
+): Promise<string | null> {
+  if (quote.index_rate_history_id) return quote.index_rate_history_id;
+  if (!quote.rate_snapshot_id) return null;
+
+  const { data: snapshot } = await (sb as any)
+    .from("rate_index_snapshots")
+    .select("index_code, index_rate_pct, as_of_date, index_rate_history_id")
+    .eq("id", quote.rate_snapshot_id)
+    .maybeSingle();
+  if (!snapshot) return null;
+  if (snapshot.index_rate_history_id) return snapshot.index_rate_history_id;
+
+  const asOf = String(snapshot.as_of_date ?? "").slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) return null;
+
+  const { data: records } = await (sb as any)
+    .from("index_rate_history")
+    .select("id")
+    .eq("index_code", snapshot.index_code)
+    .eq("as_of_date", asOf)
+    .eq("rate_pct", snapshot.index_rate_pct)
+    .order("created_at", { ascending: true })
+    .limit(1);
+  return records?.[0]?.id ?? null;
+}
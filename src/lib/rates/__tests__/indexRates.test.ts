@@ -67,3 +67,84 @@ test("gateway failure (both chain steps down): rejects, does not throw a swallow
   });
   await assert.rejects(() => getLatestIndexRates(), /HTTP 500/);
 });
+
+// ── Provider chain ──────────────────────────────────────────────────────────
+
+const { __setIndexRateProvidersForTests } =
+  require("../providers") as typeof import("../providers");
+const { selectAsOfRecord } =
+  require("../indexRateHistory") as typeof import("../indexRateHistory");
+
+function rate(code: "SOFR" | "UST_5Y" | "PRIME", ratePct: number, historyId?: string) {
+  return { code, label: code, ratePct, asOf: "2026-07-29", source: "manual" as const, historyId };
+}
+
+test("provider chain: local feed wins, later providers fill only missing codes", async () => {
+  let llmCalls = 0;
+  __setIndexRateProvidersForTests([
+    {
+      name: "local",
+      recordAs: "feed",
+      fetchLatest: async () => ({ SOFR: rate("SOFR", 5.3, "h-sofr"), PRIME: rate("PRIME", 7.5, "h-prime") }),
+    },
+    {
+      name: "llm",
+      recordAs: "llm_lookup",
+      fetchLatest: async () => {
+        llmCalls++;
+        return { SOFR: rate("SOFR", 9.9), UST_5Y: rate("UST_5Y", 4.1), PRIME: rate("PRIME", 9.9) };
+      },
+    },
+  ]);
+  try {
+    const rates = await getLatestIndexRates();
+    assert.equal(llmCalls, 1);
+    assert.equal(rates.SOFR.ratePct, 5.3);
+    assert.equal(rates.SOFR.historyId, "h-sofr");
+    assert.equal(rates.UST_5Y.ratePct, 4.1);
+    assert.equal(rates.PRIME.ratePct, 7.5);
+  } finally {
+    __setIndexRateProvidersForTests(null);
+  }
+});
+
+test("provider chain: a failing provider falls through to the next", async () => {
+  __setIndexRateProvidersForTests([
+    { name: "local", recordAs: "feed", fetchLatest: async () => { throw new Error("db down"); } },
+    {
+      name: "llm",
+      recordAs: "llm_lookup",
+      fetchLatest: async () => ({ SOFR: rate("SOFR", 5.3), UST_5Y: rate("UST_5Y", 4.1), PRIME: rate("PRIME", 7.5) }),
+    },
+  ]);
+  try {
+    const rates = await getLatestIndexRates();
+    assert.equal(rates.PRIME.ratePct, 7.5);
+  } finally {
+    __setIndexRateProvidersForTests(null);
+  }
+});
+
+test("provider chain: missing codes after all providers rejects", async () => {
+  __setIndexRateProvidersForTests([
+    { name: "local", recordAs: "feed", fetchLatest: async () => ({ SOFR: rate("SOFR", 5.3, "h") }) },
+  ]);
+  try {
+    await assert.rejects(() => getLatestIndexRates(), /UST_5Y, PRIME/);
+  } finally {
+    __setIndexRateProvidersForTests(null);
+  }
+});
+
+test("selectAsOfRecord: latest date on or before as-of, then provider precedence", () => {
+  const base = { code: "SOFR" as const, source: "nyfed" as const, sourceUrl: null, uploadBatchId: null, recordedBy: null, createdAt: "2026-07-30T00:00:00Z" };
+  const records = [
+    { ...base, id: "llm-29", asOf: "2026-07-29", ratePct: 5.30, provider: "llm_lookup" as const },
+    { ...base, id: "manual-29", asOf: "2026-07-29", ratePct: 5.31, provider: "manual" as const },
+    { ...base, id: "file-28", asOf: "2026-07-28", ratePct: 5.29, provider: "file_upload" as const },
+    { ...base, id: "file-31", asOf: "2026-07-31", ratePct: 5.35, provider: "file_upload" as const },
+  ];
+  assert.equal(selectAsOfRecord(records, "2026-07-30")?.id, "manual-29");
+  assert.equal(selectAsOfRecord(records, "2026-07-28T12:00:00Z")?.id, "file-28");
+  assert.equal(selectAsOfRecord(records, "2026-07-01"), null);
+});
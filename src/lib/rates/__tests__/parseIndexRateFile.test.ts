@@ -0,0 +1,66 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseIndexRateFile } from "../parseIndexRateFile";
+
+test("simple CSV: parses rows and defaults source by index", () => {
+  const r = parseIndexRateFile(
+    "index_code,as_of_date,rate_pct\nSOFR,2026-07-29,5.31\nPRIME,07/29/2026,7.50\n",
+  );
+  assert.equal(r.format, "simple_csv");
+  assert.deepEqual(r.errors, []);
+  assert.deepEqual(r.rows, [
+    { code: "SOFR", asOf: "2026-07-29", ratePct: 5.31, source: "nyfed" },
+    { code: "PRIME", asOf: "2026-07-29", ratePct: 7.5, source: "fed_h15" },
+  ]);
+});
+
+test("simple CSV: reports bad rows and keeps the good ones", () => {
+  const r = parseIndexRateFile(
+    "index_code,as_of_date,rate_pct\nLIBOR,2026-07-29,5.1\nSOFR,2026-07-29,0.0531\nUST_5Y,bad,4.1\nUST_5Y,2026-07-29,4.12\n",
+  );
+  assert.equal(r.rows.length, 2);
+  assert.equal(r.errors.length, 2);
+  assert.match(r.errors[0], /unknown index_code "LIBOR"/);
+  assert.match(r.errors[1], /invalid as_of_date/);
+});
+
+test("simple CSV: rejects values outside the percent sanity band", () => {
+  const r = parseIndexRateFile("index_code,as_of_date,rate_pct\nSOFR,2026-07-29,531\n");
+  assert.equal(r.rows.length, 0);
+  assert.match(r.errors[0], /expected percent/);
+});
+
+test("FRED CSV: maps series columns and skips '.' gaps", () => {
+  const r = parseIndexRateFile("observation_date,DGS5,DPRIME\n2026-07-28,4.10,7.50\n2026-07-29,.,7.50\n");
+  assert.equal(r.format, "fred_csv");
+  assert.equal(r.rows.length, 3);
+  assert.ok(r.rows.every((x) => x.source === "fred"));
+  assert.deepEqual(
+    r.rows.filter((x) => x.code === "UST_5Y").map((x) => x.asOf),
+    ["2026-07-28"],
+  );
+});
+
+test("H.15 download: skips descriptive header rows and ND cells", () => {
+  const file = [
+    '"Series Description","Market yield on U.S. Treasury securities at 5-year constant maturity","Bank prime loan"',
+    '"Unit:","Percent:_Per_Year","Percent:_Per_Year"',
+    '"Multiplier:","1","1"',
+    '"Unique Identifier: ","H15/H15/RIFLGFCY05_N.B","H15/H15/RIFSPBLP_N.B"',
+    '"Time Period","RIFLGFCY05_N.B","RIFSPBLP_N.B"',
+    "2026-07-28,4.10,7.50",
+    "2026-07-29,ND,7.50",
+  ].join("\r\n");
+  const r = parseIndexRateFile(file);
+  assert.equal(r.format, "h15_csv");
+  assert.deepEqual(r.errors, []);
+  assert.equal(r.rows.length, 3);
+  assert.ok(r.rows.every((x) => x.source === "fed_h15"));
+});
+
+test("unrecognised header yields no format", () => {
+  const r = parseIndexRateFile("foo,bar\n1,2\n");
+  assert.equal(r.format, null);
+  assert.equal(r.rows.length, 0);
+  assert.equal(parseIndexRateFile("").errors[0], "file is empty");
+});
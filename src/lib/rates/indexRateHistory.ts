@@ -0,0 +1,202 @@
+import "server-only";
+
+/**
+ * Index Rate History
+ *
+ * Durable, append-only store of benchmark index rates (index_rate_history).
+ * Every rate the system prices from is recorded here so quotes can point
+ * at the exact record they used and be reproduced later.
+ *
+ * When several providers recorded the same index for the same date, the
+ * as-of lookup prefers manual > file_upload > feed > llm_lookup.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { IndexCode, IndexRate } from "./indexRates";
+
+export type IndexRateProviderKind = "manual" | "file_upload" | "feed" | "llm_lookup";
+
+export type IndexRateRecord = {
+  id: string;
+  code: IndexCode;
+  asOf: string;
+  ratePct: number;
+  source: IndexRate["source"];
+  provider: IndexRateProviderKind;
+  sourceUrl: string | null;
+  uploadBatchId: string | null;
+  recordedBy: string | null;
+  createdAt: string;
+};
+
+export type RecordIndexRatesOpts = {
+  provider: IndexRateProviderKind;
+  recordedBy?: string | null;
+  uploadBatchId?: string | null;
+};
+
+export type IndexRateRecordInput = Pick<IndexRate, "code" | "asOf" | "ratePct" | "source" | "sourceUrl" | "raw">;
+
+const PROVIDER_PRECEDENCE: Record<IndexRateProviderKind, number> = {
+  manual: 0,
+  file_upload: 1,
+  feed: 2,
+  llm_lookup: 3,
+};
+
+const INDEX_LABELS: Record<IndexCode, string> = {
+  SOFR: "SOFR (NY Fed)",
+  UST_5Y: "5Y Treasury",
+  PRIME: "Prime Rate",
+};
+
+export const INDEX_RATE_HISTORY_COLUMNS =
+  "id, index_code, as_of_date, rate_pct, source, provider, source_url, upload_batch_id, recorded_by, created_at";
+
+// ---------------------------------------------------------------------------
+// Mapping
+// ---------------------------------------------------------------------------
+
+export function rowToIndexRateRecord(row: any): IndexRateRecord {
+  return {
+    id: String(row.id),
+    code: row.index_code as IndexCode,
+    asOf: String(row.as_of_date).slice(0, 10),
+    ratePct: Number(row.rate_pct),
+    source: row.source as IndexRate["source"],
+    provider: row.provider as IndexRateProviderKind,
+    sourceUrl: row.source_url ?? null,
+    uploadBatchId: row.upload_batch_id ?? null,
+    recordedBy: row.recorded_by ?? null,
+    createdAt: String(row.created_at),
+  };
+}
+
+/** Convert a history record into the IndexRate shape used by pricing. */
+export function recordToIndexRate(record: IndexRateRecord): IndexRate {
+  return {
+    code: record.code,
+    label: INDEX_LABELS[record.code],
+    ratePct: record.ratePct,
+    asOf: record.asOf,
+    source: record.source,
+    sourceUrl: record.sourceUrl ?? undefined,
+    historyId: record.id,
+    provider: record.provider,
+  };
+}
+
+/**
+ * Pick the record to price from: latest as-of date on or before `asOf`,
+ * then provider precedence, then most recently recorded.
+ */
+export function selectAsOfRecord(
+  records: IndexRateRecord[],
+  asOf: string,
+): IndexRateRecord | null {
+  const day = asOf.slice(0, 10);
+  const eligible = records.filter((r) => r.asOf <= day);
+  if (eligible.length === 0) return null;
+  return [...eligible].sort((a, b) => {
+    if (a.asOf !== b.asOf) return a.asOf < b.asOf ? 1 : -1;
+    const p = PROVIDER_PRECEDENCE[a.provider] - PROVIDER_PRECEDENCE[b.provider];
+    if (p !== 0) return p;
+    return a.createdAt < b.createdAt ? 1 : -1;
+  })[0];
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+/**
+ * Record rates. Existing (index_code, as_of_date, provider) rows are left
+ * untouched — history is append-only — and returned alongside new rows.
+ */
+export async function recordIndexRates(
+  rates: IndexRateRecordInput[],
+  opts: RecordIndexRatesOpts,
+): Promise<IndexRateRecord[]> {
+  if (rates.length === 0) return [];
+  const sb = supabaseAdmin();
+
+  const rows = rates.map((r) => ({
+    index_code: r.code,
+    as_of_date: r.asOf.slice(0, 10),
+    rate_pct: r.ratePct,
+    source: r.source,
+    provider: opts.provider,
+    source_url: r.sourceUrl ?? null,
+    upload_batch_id: opts.uploadBatchId ?? null,
+    recorded_by: opts.recordedBy ?? null,
+    raw: r.raw ?? null,
+  }));
+
+  const { error } = await (sb as any)
+    .from("index_rate_history")
+    .upsert(rows, { onConflict: "index_code,as_of_date,provider", ignoreDuplicates: true });
+  if (error) throw new Error(`index_rate_history insert failed: ${error.message}`);
+
+  const codes = [...new Set(rows.map((r) => r.index_code))];
+  const dates = [...new Set(rows.map((r) => r.as_of_date))];
+  const { data, error: selErr } = await (sb as any)
+    .from("index_rate_history")
+    .select(INDEX_RATE_HISTORY_COLUMNS)
+    .eq("provider", opts.provider)
+    .in("index_code", codes)
+    .in("as_of_date", dates);
+  if (selErr) throw new Error(`index_rate_history read-back failed: ${selErr.message}`);
+
+  const wanted = new Set(rows.map((r) => `${r.index_code}|${r.as_of_date}`));
+  return ((data ?? []) as any[])
+    .map(rowToIndexRateRecord)
+    .filter((r) => wanted.has(`${r.code}|${r.asOf}`));
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+/** Rate in effect for `code` on `asOf` (YYYY-MM-DD or ISO), or null. */
+export async function getIndexRateAsOf(
+  code: IndexCode,
+  asOf: string,
+): Promise<IndexRateRecord | null> {
+  const sb = supabaseAdmin();
+  const { data, error } = await (sb as any)
+    .from("index_rate_history")
+    .select(INDEX_RATE_HISTORY_COLUMNS)
+    .eq("index_code", code)
+    .lte("as_of_date", asOf.slice(0, 10))
+    .order("as_of_date", { ascending: false })
+    .limit(20);
+  if (error || !data) return null;
+  return selectAsOfRecord((data as any[]).map(rowToIndexRateRecord), asOf);
+}
+
+export async function getIndexRateRecord(id: string): Promise<IndexRateRecord | null> {
+  const sb = supabaseAdmin();
+  const { data } = await (sb as any)
+    .from("index_rate_history")
+    .select(INDEX_RATE_HISTORY_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  return data ? rowToIndexRateRecord(data) : null;
+}
+
+export async function listIndexRateHistory(opts: {
+  code?: IndexCode;
+  limit?: number;
+} = {}): Promise<IndexRateRecord[]> {
+  const sb = supabaseAdmin();
+  let q = (sb as any)
+    .from("index_rate_history")
+    .select(INDEX_RATE_HISTORY_COLUMNS)
+    .order("as_of_date", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(opts.limit ?? 200);
+  if (opts.code) q = q.eq("index_code", opts.code);
+  const { data, error } = await q;
+  if (error || !data) return [];
+  return (data as any[]).map(rowToIndexRateRecord);
+}
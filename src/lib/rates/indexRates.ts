@@ -1,6 +1,8 @@
 import "server-only";
 
-import { runRole } from "@/lib/ai/gateway";
+import { recordIndexRates } from "./indexRateHistory";
+import type { IndexRateProviderKind } from "./indexRateHistory";
+import { resolveIndexRateProviders } from "./providers";
 
 export type IndexCode = "UST_5Y" | "SOFR" | "PRIME";
 
@@ -9,73 +11,75 @@ export type IndexRate = {
   label: string;
   ratePct: number;
   asOf: string;
-  source: "treasury" | "nyfed" | "fed_h15" | "fred";
+  source: "treasury" | "nyfed" | "fed_h15" | "fred" | "manual";
   sourceUrl?: string;
   raw?: unknown;
+  /** index_rate_history row this rate was recorded as (absent if persistence failed). */
+  historyId?: string;
+  provider?: IndexRateProviderKind;
 };
 
 type CacheEntry = { expiresAt: number; value: Record<IndexCode, IndexRate> };
 let cache: CacheEntry | null = null;
 const TTL_MS = 15 * 60 * 1000; // 15 min cache
 
-async function fetchRatesViaGemini(): Promise<Record<IndexCode, IndexRate>> {
-  const today = new Date().toISOString().split("T")[0];
+const INDEX_CODES: readonly IndexCode[] = ["SOFR", "UST_5Y", "PRIME"];
 
-  // SPEC-M1.1: routed through the AI gateway (runRole, "generator" role,
-  // useSearchGrounding — Gemini's google_search tool, needed to look up
-  // live rate benchmarks rather than rely on training data).
-  const result = await runRole("generator", {
-    purpose: "index_rates_lookup",
-    prompt: `Today is ${today}. Please look up the current values for these three US interest rate benchmarks and return ONLY a JSON object, no markdown, no explanation:
-{
-  "SOFR": { "rate": <number>, "asOf": "<YYYY-MM-DD>" },
-  "UST_5Y": { "rate": <number>, "asOf": "<YYYY-MM-DD>" },
-  "PRIME": { "rate": <number>, "asOf": "<YYYY-MM-DD>" }
-}
-SOFR = Secured Overnight Financing Rate (NY Fed)
-UST_5Y = 5-Year US Treasury yield (daily, from Treasury.gov)
-PRIME = Bank Prime Loan Rate (from Federal Reserve / FRED DPRIME)
-All rates should be in percent (e.g. 5.33 not 0.0533).`,
-    temperature: 0,
-    useSearchGrounding: true,
-    timeoutMs: 20_000,
-  });
+/**
+ * Walk the provider chain until every index code is filled. A provider
+ * that throws is skipped; if no provider yields a code, the last error
+ * (or a missing-code error) is raised.
+ */
+async function fetchFromProviders(): Promise<Record<IndexCode, IndexRate>> {
+  const out: Partial<Record<IndexCode, IndexRate>> = {};
+  let lastErr: unknown = null;
+
+  for (const provider of resolveIndexRateProviders()) {
+    if (INDEX_CODES.every((c) => out[c])) break;
+    let got: Partial<Record<IndexCode, IndexRate>>;
+    try {
+      got = await provider.fetchLatest();
+    } catch (err) {
+      lastErr = err;
+      console.warn("[indexRates] provider failed", { provider: provider.name, error: String((err as Error)?.message ?? err) });
+      continue;
+    }
 
-  const clean = result.text.replace(/```json|```/g, "").trim();
-  const parsed = JSON.parse(clean);
+    // Persist fresh lookups so quotes can reference the exact record.
+    // Non-fatal: pricing still works if the history write fails.
+    const unrecorded = INDEX_CODES.filter((c) => !out[c] && got[c] && !got[c]!.historyId);
+    if (unrecorded.length > 0) {
+      try {
+        const records = await recordIndexRates(unrecorded.map((c) => got[c]!), { provider: provider.recordAs });
+        // A rate already recorded for the same as-of date wins — history is
+        // append-only, so a repeat lookup must not silently change it.
+        for (const r of records) {
+          const rate = got[r.code];
+          if (rate) got[r.code] = { ...rate, ratePct: r.ratePct, historyId: r.id, provider: r.provider };
+        }
+      } catch (err) {
+        console.warn("[indexRates] history write failed (non-fatal)", String((err as Error)?.message ?? err));
+      }
+    }
 
-  const now = new Date().toISOString().split("T")[0];
+    for (const c of INDEX_CODES) {
+      if (!out[c] && got[c]) out[c] = got[c];
+    }
+  }
 
-  return {
-    SOFR: {
-      code: "SOFR",
-      label: "SOFR (NY Fed)",
-      ratePct: Number(parsed.SOFR.rate),
-      asOf: parsed.SOFR.asOf ?? now,
-      source: "nyfed",
-    },
-    UST_5Y: {
-      code: "UST_5Y",
-      label: "5Y Treasury",
-      ratePct: Number(parsed.UST_5Y.rate),
-      asOf: parsed.UST_5Y.asOf ?? now,
-      source: "treasury",
-    },
-    PRIME: {
-      code: "PRIME",
-      label: "Prime Rate",
-      ratePct: Number(parsed.PRIME.rate),
-      asOf: parsed.PRIME.asOf ?? now,
-      source: "fred",
-    },
-  };
+  const missing = INDEX_CODES.filter((c) => !out[c]);
+  if (missing.length > 0) {
+    if (lastErr) throw lastErr;
+    throw new Error(`No index rate provider returned: ${missing.join(", ")}`);
+  }
+  return out as Record<IndexCode, IndexRate>;
 }
 
 export async function getLatestIndexRates(): Promise<Record<IndexCode, IndexRate>> {
   const t = Date.now();
   if (cache && cache.expiresAt > t) return cache.value;
 
-  const value = await fetchRatesViaGemini();
+  const value = await fetchFromProviders();
   cache = { expiresAt: t + TTL_MS, value };
   return value;
 }
@@ -0,0 +1,228 @@
+/**
+ * Index Rate File Parser
+ *
+ * Parses admin-uploaded rate files into index_rate_history rows. Three
+ * shapes are accepted:
+ *
+ *   - Simple CSV:  index_code,as_of_date,rate_pct[,source]
+ *   - FRED CSV:    DATE (or observation_date) followed by series columns
+ *                  (SOFR, DGS5, DPRIME)
+ *   - H.15 Data Download Program CSV: descriptive header rows, then a
+ *     "Time Period" row whose columns are H.15 series identifiers
+ *
+ * Rates are in percent (5.31, not 0.0531). "ND" / "." / blank cells are
+ * skipped — they mark non-business days in Fed downloads.
+ *
+ * Pure function — deterministic, no side effects.
+ */
+
+import type { IndexCode } from "./indexRates";
+
+export type IndexRateFileFormat = "simple_csv" | "fred_csv" | "h15_csv";
+
+export type ParsedIndexRate = {
+  code: IndexCode;
+  asOf: string; // YYYY-MM-DD
+  ratePct: number;
+  source: "treasury" | "nyfed" | "fed_h15" | "fred" | "manual";
+};
+
+export type ParseIndexRateFileResult = {
+  format: IndexRateFileFormat | null;
+  rows: ParsedIndexRate[];
+  errors: string[];
+};
+
+const INDEX_CODES: readonly IndexCode[] = ["SOFR", "UST_5Y", "PRIME"];
+
+/** FRED series id → index code. */
+const FRED_SERIES: Record<string, IndexCode> = {
+  SOFR: "SOFR",
+  DGS5: "UST_5Y",
+  DPRIME: "PRIME",
+};
+
+/** H.15 DDP series identifier (without the "H15/H15/" prefix) → index code. */
+const H15_SERIES: Record<string, IndexCode> = {
+  "RIFLGFCY05_N.B": "UST_5Y",
+  "RIFSPBLP_N.B": "PRIME",
+};
+
+/** Sanity band — anything outside is almost certainly a units error. */
+const MIN_RATE_PCT = -1;
+const MAX_RATE_PCT = 25;
+
+// ---------------------------------------------------------------------------
+// CSV helpers
+// ---------------------------------------------------------------------------
+
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === "," && !quoted) {
+      out.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function normalizeDate(raw: string): string | null {
+  const s = raw.trim();
+  let m = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) return `${m[3]}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}`;
+  return null;
+}
+
+function parseRate(raw: string): number | null {
+  const s = raw.trim().replace(/%$/, "");
+  if (!s || s === "ND" || s === "." || s.toUpperCase() === "NA") return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+function defaultSource(code: IndexCode, format: IndexRateFileFormat): ParsedIndexRate["source"] {
+  if (format === "fred_csv") return "fred";
+  if (format === "h15_csv") return "fed_h15";
+  return code === "SOFR" ? "nyfed" : code === "UST_5Y" ? "treasury" : "fed_h15";
+}
+
+function inBand(ratePct: number): boolean {
+  return ratePct >= MIN_RATE_PCT && ratePct <= MAX_RATE_PCT;
+}
+
+// ---------------------------------------------------------------------------
+// Format parsers
+// ---------------------------------------------------------------------------
+
+function parseSimple(lines: string[][], header: string[]): ParseIndexRateFileResult {
+  const col = (name: string) => header.indexOf(name);
+  const iCode = col("index_code");
+  const iDate = col("as_of_date") >= 0 ? col("as_of_date") : col("as_of");
+  const iRate = col("rate_pct");
+  const iSource = col("source");
+
+  const rows: ParsedIndexRate[] = [];
+  const errors: string[] = [];
+
+  lines.forEach((cells, idx) => {
+    const lineNo = idx + 2;
+    const code = cells[iCode]?.toUpperCase() as IndexCode;
+    if (!INDEX_CODES.includes(code)) {
+      errors.push(`line ${lineNo}: unknown index_code "${cells[iCode] ?? ""}"`);
+      return;
+    }
+    const asOf = normalizeDate(cells[iDate] ?? "");
+    if (!asOf) {
+      errors.push(`line ${lineNo}: invalid as_of_date "${cells[iDate] ?? ""}"`);
+      return;
+    }
+    const ratePct = parseRate(cells[iRate] ?? "");
+    if (ratePct === null) {
+      errors.push(`line ${lineNo}: missing rate_pct`);
+      return;
+    }
+    if (!inBand(ratePct)) {
+      errors.push(`line ${lineNo}: rate_pct ${ratePct} outside ${MIN_RATE_PCT}..${MAX_RATE_PCT} (expected percent)`);
+      return;
+    }
+    const rawSource = iSource >= 0 ? cells[iSource]?.toLowerCase() : "";
+    const source = (["treasury", "nyfed", "fed_h15", "fred", "manual"] as const).find((s) => s === rawSource)
+      ?? defaultSource(code, "simple_csv");
+    rows.push({ code, asOf, ratePct, source });
+  });
+
+  return { format: "simple_csv", rows, errors };
+}
+
+function parseSeriesColumns(
+  lines: string[][],
+  header: string[],
+  seriesMap: Record<string, IndexCode>,
+  format: IndexRateFileFormat,
+  firstLineNo: number,
+): ParseIndexRateFileResult {
+  const columns = header
+    .map((h, i) => ({ i, code: seriesMap[h.replace(/^H15\/H15\//, "").toUpperCase()] }))
+    .filter((c): c is { i: number; code: IndexCode } => c.i > 0 && c.code !== undefined);
+
+  if (columns.length === 0) {
+    return { format, rows: [], errors: ["no recognised rate series columns"] };
+  }
+
+  const rows: ParsedIndexRate[] = [];
+  const errors: string[] = [];
+
+  lines.forEach((cells, idx) => {
+    const lineNo = firstLineNo + idx;
+    const asOf = normalizeDate(cells[0] ?? "");
+    if (!asOf) {
+      errors.push(`line ${lineNo}: invalid date "${cells[0] ?? ""}"`);
+      return;
+    }
+    for (const { i, code } of columns) {
+      const ratePct = parseRate(cells[i] ?? "");
+      if (ratePct === null) continue;
+      if (!inBand(ratePct)) {
+        errors.push(`line ${lineNo}: ${code} ${ratePct} outside ${MIN_RATE_PCT}..${MAX_RATE_PCT} (expected percent)`);
+        continue;
+      }
+      rows.push({ code, asOf, ratePct, source: defaultSource(code, format) });
+    }
+  });
+
+  return { format, rows, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse an uploaded rate file. Format is detected from the header row.
+ * Row-level problems are reported in `errors`; valid rows are still returned.
+ */
+export function parseIndexRateFile(text: string): ParseIndexRateFileResult {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((l) => l.trim().length > 0)
+    .map(splitCsvLine);
+
+  if (lines.length === 0) return { format: null, rows: [], errors: ["file is empty"] };
+
+  // H.15 DDP: skip descriptive rows up to "Time Period"
+  const h15HeaderIdx = lines.findIndex((cells) => cells[0]?.toLowerCase() === "time period");
+  if (h15HeaderIdx >= 0) {
+    return parseSeriesColumns(lines.slice(h15HeaderIdx + 1), lines[h15HeaderIdx], H15_SERIES, "h15_csv", h15HeaderIdx + 2);
+  }
+
+  const header = lines[0].map((h) => h.toLowerCase());
+  if (header.includes("index_code") && header.includes("rate_pct")) {
+    return parseSimple(lines.slice(1), header);
+  }
+  if (header[0] === "date" || header[0] === "observation_date") {
+    return parseSeriesColumns(lines.slice(1), lines[0], FRED_SERIES, "fred_csv", 2);
+  }
+
+  return {
+    format: null,
+    rows: [],
+    errors: ["unrecognised file format — expected index_code,as_of_date,rate_pct, a FRED CSV, or an H.15 download"],
+  };
+}
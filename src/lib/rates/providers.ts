@@ -0,0 +1,165 @@
+import "server-only";
+
+/**
+ * Index Rate Providers
+ *
+ * A provider returns the latest rate it knows for each index code. The
+ * chain is configured by INDEX_RATE_PROVIDERS (comma-separated, tried in
+ * order; later providers only fill codes earlier ones could not supply):
+ *
+ *   - "local" — latest manual / file_upload / feed row in index_rate_history
+ *               no older than INDEX_RATE_MAX_AGE_DAYS (default 7)
+ *   - "llm"   — grounded LLM lookup via the AI gateway (default)
+ *
+ * e.g. INDEX_RATE_PROVIDERS=local,llm prefers the bank's own feed and
+ * falls back to the lookup only for missing or stale codes.
+ */
+
+import { runRole } from "@/lib/ai/gateway";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { IndexCode, IndexRate } from "./indexRates";
+import {
+  INDEX_RATE_HISTORY_COLUMNS,
+  recordToIndexRate,
+  rowToIndexRateRecord,
+  selectAsOfRecord,
+  type IndexRateProviderKind,
+} from "./indexRateHistory";
+
+export type IndexRateProviderName = "local" | "llm";
+
+export interface IndexRateProvider {
+  name: IndexRateProviderName;
+  /** History provider kind recorded for rates this provider returns. */
+  recordAs: IndexRateProviderKind;
+  fetchLatest(): Promise<Partial<Record<IndexCode, IndexRate>>>;
+}
+
+const INDEX_CODES: readonly IndexCode[] = ["SOFR", "UST_5Y", "PRIME"];
+const DEFAULT_MAX_AGE_DAYS = 7;
+
+// ---------------------------------------------------------------------------
+// LLM lookup
+// ---------------------------------------------------------------------------
+
+async function fetchRatesViaGemini(): Promise<Record<IndexCode, IndexRate>> {
+  const today = new Date().toISOString().split("T")[0];
+
+  // SPEC-M1.1: routed through the AI gateway (runRole, "generator" role,
+  // useSearchGrounding — Gemini's google_search tool, needed to look up
+  // live rate benchmarks rather than rely on training data).
+  const result = await runRole("generator", {
+    purpose: "index_rates_lookup",
+    prompt: `Today is ${today}. Please look up the current values for these three US interest rate benchmarks and return ONLY a JSON object, no markdown, no explanation:
+{
+  "SOFR": { "rate": <number>, "asOf": "<YYYY-MM-DD>" },
+  "UST_5Y": { "rate": <number>, "asOf": "<YYYY-MM-DD>" },
+  "PRIME": { "rate": <number>, "asOf": "<YYYY-MM-DD>" }
+}
+SOFR = Secured Overnight Financing Rate (NY Fed)
+UST_5Y = 5-Year US Treasury yield (daily, from Treasury.gov)
+PRIME = Bank Prime Loan Rate (from Federal Reserve / FRED DPRIME)
+All rates should be in percent (e.g. 5.33 not 0.0533).`,
+    temperature: 0,
+    useSearchGrounding: true,
+    timeoutMs: 20_000,
+  });
+
+  const clean = result.text.replace(/```json|```/g, "").trim();
+  const parsed = JSON.parse(clean);
+
+  const now = new Date().toISOString().split("T")[0];
+
+  return {
+    SOFR: {
+      code: "SOFR",
+      label: "SOFR (NY Fed)",
+      ratePct: Number(parsed.SOFR.rate),
+      asOf: parsed.SOFR.asOf ?? now,
+      source: "nyfed",
+    },
+    UST_5Y: {
+      code: "UST_5Y",
+      label: "5Y Treasury",
+      ratePct: Number(parsed.UST_5Y.rate),
+      asOf: parsed.UST_5Y.asOf ?? now,
+      source: "treasury",
+    },
+    PRIME: {
+      code: "PRIME",
+      label: "Prime Rate",
+      ratePct: Number(parsed.PRIME.rate),
+      asOf: parsed.PRIME.asOf ?? now,
+      source: "fred",
+    },
+  };
+}
+
+export const llmIndexRateProvider: IndexRateProvider = {
+  name: "llm",
+  recordAs: "llm_lookup",
+  fetchLatest: fetchRatesViaGemini,
+};
+
+// ---------------------------------------------------------------------------
+// Local feed (index_rate_history)
+// ---------------------------------------------------------------------------
+
+function maxAgeDays(): number {
+  const n = Number(process.env.INDEX_RATE_MAX_AGE_DAYS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_MAX_AGE_DAYS;
+}
+
+export const localIndexRateProvider: IndexRateProvider = {
+  name: "local",
+  recordAs: "feed",
+  async fetchLatest() {
+    const today = new Date().toISOString().slice(0, 10);
+    const cutoff = new Date(Date.now() - maxAgeDays() * 86_400_000).toISOString().slice(0, 10);
+
+    const sb = supabaseAdmin();
+    const { data, error } = await (sb as any)
+      .from("index_rate_history")
+      .select(INDEX_RATE_HISTORY_COLUMNS)
+      .in("provider", ["manual", "file_upload", "feed"])
+      .gte("as_of_date", cutoff)
+      .lte("as_of_date", today)
+      .order("as_of_date", { ascending: false });
+    if (error) throw new Error(`index_rate_history read failed: ${error.message}`);
+
+    const out: Partial<Record<IndexCode, IndexRate>> = {};
+    for (const code of INDEX_CODES) {
+      const records = ((data ?? []) as any[])
+        .filter((r) => r.index_code === code)
+        .map(rowToIndexRateRecord);
+      const picked = selectAsOfRecord(records, today);
+      if (picked) out[code] = recordToIndexRate(picked);
+    }
+    return out;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Chain resolution
+// ---------------------------------------------------------------------------
+
+const PROVIDERS: Record<IndexRateProviderName, IndexRateProvider> = {
+  local: localIndexRateProvider,
+  llm: llmIndexRateProvider,
+};
+
+let testProviders: IndexRateProvider[] | null = null;
+
+export function resolveIndexRateProviders(): IndexRateProvider[] {
+  if (testProviders) return testProviders;
+  const names = (process.env.INDEX_RATE_PROVIDERS ?? "llm")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is IndexRateProviderName => s in PROVIDERS);
+  return names.length > 0 ? names.map((n) => PROVIDERS[n]) : [llmIndexRateProvider];
+}
+
+/** Test-only: replace the provider chain (null restores env resolution). */
+export function __setIndexRateProvidersForTests(providers: IndexRateProvider[] | null): void {
+  testProviders = providers;
+}
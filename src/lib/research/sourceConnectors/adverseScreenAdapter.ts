@@ -1,7 +1,9 @@
 /**
  * SPEC-BIE-OFFICIAL-SOURCE-CONNECTOR-FRAMEWORK-1 — Phase 5
  *
- * Public adverse-screen adapter. MVP: NO sanctions-DB integration. Builds a
+ * Public adverse-screen adapter. Sanctions/watchlist screening is NOT done
+ * here — it runs deterministically against the bank's loaded OFAC / watchlist
+ * files in src/lib/sanctions and gates the decision there. Builds a
  * structured screen plan (targets × categories) with deterministic candidate
  * URLs where safe, supports a manual attestation, and — critically — NEVER
  * produces an adverse claim without a source URL or an explicit attestation
@@ -37,7 +39,7 @@ export function buildAdverseScreenPlan(opts: {
   legalName?: string | null;
   dba?: string | null;
   principals?: Array<{ person_name?: string | null } | string>;
-  includeSanctions?: boolean; // default false — sanctions DB integration not built yet
+  includeSanctions?: boolean; // default false — deterministic screening lives in src/lib/sanctions
 }): AdverseScreenPlan {
   const targets: AdverseScreenTarget[] = [];
   if (opts.legalName?.trim()) targets.push({ kind: "borrower_legal_name", value: opts.legalName.trim() });
@@ -62,7 +64,7 @@ export function buildAdverseScreenPlan(opts: {
         supported
           ? "Free public search — a negative result is not conclusive; record search scope/date."
           : "No deterministic free portal — perform the lookup manually or attach an analyst attestation.",
-        ...(category === "sanctions_watchlist" ? ["Sanctions/watchlist screening is not integrated; treat as advisory."] : []),
+        ...(category === "sanctions_watchlist" ? ["Advisory only — the system of record is the deal's sanctions screening (hits and dispositions)."] : []),
       ],
     };
   });
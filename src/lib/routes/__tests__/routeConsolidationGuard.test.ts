@@ -53,7 +53,28 @@ const ROOT = resolve(__dirname, "../../../..");
 // existing SBA routes. 2 additional route.ts files arrived from upstream
 // merges since the last bump. Actual measured total: 803 route.ts * 2 +
 // 192 page.tsx * 2 = 1990. Still 48 slots under the 2048 hard cap.
-const MERGED_WARNING_THRESHOLD = 2000;
+//
+// Bumped 2000 -> 2010 on 2026-10-19: index-rate history added 2 route.ts
+// files — admin/rates (manual entry, with the rate-file import taken as a
+// multipart POST rather than a separate admin/rates/upload file) and
+// rates/history (read-only series for the pricing screens), neither with
+// a sibling to fold into. covenants/test landed just before without a
+// bump. Actual measured total: 809 route.ts * 2 + 192 page.tsx * 2 = 2002.
+// Still 46 slots under the 2048 hard cap.
+//
+// Bumped 2010 -> 2020 on 2026-10-19: the webhook-admin, inbound-email and
+// AI-usage work added 3 route.ts files (admin/webhooks,
+// deals/[dealId]/inbound-email, admin/ai-usage) and 2 admin pages
+// (webhooks, ai-usage), each a new resource with no sibling to fold into.
+// Actual measured total: 812 route.ts * 2 + 194 page.tsx * 2 = 2012. Still
+// 36 slots under the 2048 hard cap.
+//
+// 2026-10-19, no bump: the examiner loan-file review added
+// examiner/file-reviews (the spread Excel export/re-import before it rides
+// on the existing deals/[dealId]/spreads GET/POST). Actual measured total:
+// 813 route.ts * 2 + 194 page.tsx * 2 = 2014. Still 34 slots under the
+// 2048 hard cap.
+const MERGED_WARNING_THRESHOLD = 2020;
 
 function countRouteFiles(): number {
   const out = execSync("find src/app/api -name route.ts | wc -l", {
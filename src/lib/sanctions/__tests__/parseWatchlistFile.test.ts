@@ -0,0 +1,106 @@
+/**
+ * Watchlist file parsing (lib/sanctions).
+ *
+ * The OFAC legacy CSV trio joined on ent_num, "-0-" empties, Remarks DOB
+ * and nationality, the headed bank watchlist format, and the per-entry
+ * content hash that decides whether a disposition carries forward.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseOfacCsv, parseWatchlistCsv, remarksFacts } from "../parseWatchlistFile";
+
+const SDN = [
+  '36,"AEROCARIBBEAN AIRLINES",-0- ,"CUBA",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ',
+  '2674,"ABU ABBAS, Mohammed","individual","SDGT",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,"DOB 10 Dec 1948; POB Safed, Palestine; nationality Iraq."',
+  '9647,"KOREA NAMGANG TRADING CORPORATION",-0- ,"NPWMD] [DPRK",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ',
+].join("\r\n");
+
+const ALT = [
+  '2674,13,"aka","ABBAS, Abu",-0- ',
+  '2674,14,"aka","ZAIDAN, Muhammad",-0- ',
+  '36,15,"aka","AERO-CARIBBEAN",-0- ',
+].join("\r\n");
+
+const ADD = ['36,25,-0- ,"Havana","Cuba",-0- ', '9647,30,-0- ,"Pyongyang","North Korea",-0- '].join("\r\n");
+
+describe("parseOfacCsv", () => {
+  it("joins the primary, alias and address files on ent_num", () => {
+    const result = parseOfacCsv({ primary: SDN, alt: ALT, address: ADD }, "SDN");
+    assert.equal(result.format, "ofac_csv");
+    assert.equal(result.entries.length, 3);
+
+    const abbas = result.entries.find((e) => e.uid === "SDN:2674")!;
+    assert.equal(abbas.entityType, "individual");
+    assert.deepEqual(abbas.aliases, ["ABBAS, Abu", "ZAIDAN, Muhammad"]);
+    assert.deepEqual(abbas.dobs, ["10 Dec 1948"]);
+    assert.deepEqual(abbas.countries, ["Iraq"]);
+    assert.deepEqual(abbas.programs, ["SDGT"]);
+
+    const korea = result.entries.find((e) => e.uid === "SDN:9647")!;
+    assert.equal(korea.entityType, "entity");
+    assert.deepEqual(korea.programs, ["NPWMD", "DPRK"]);
+    assert.deepEqual(korea.countries, ["North Korea"]);
+    assert.deepEqual(korea.addresses, ["Pyongyang, North Korea"]);
+  });
+
+  it("treats -0- as an empty cell", () => {
+    const entry = parseOfacCsv({ primary: SDN }, "SDN").entries.find((e) => e.uid === "SDN:36")!;
+    assert.equal(entry.remarks, null);
+    assert.equal(entry.entityType, "entity");
+    assert.deepEqual(entry.aliases, []);
+  });
+
+  it("rejects a primary file with the wrong column count", () => {
+    const result = parseOfacCsv({ primary: "uid,name,type\n1,Acme,entity" }, "SDN");
+    assert.equal(result.format, null);
+    assert.equal(result.entries.length, 0);
+  });
+
+  it("changes an entry's content hash only when the entry changes", () => {
+    const a = parseOfacCsv({ primary: SDN, alt: ALT }, "SDN").entries.find((e) => e.uid === "SDN:2674")!;
+    const b = parseOfacCsv({ primary: SDN, alt: ALT.split("\r\n").reverse().join("\n") }, "SDN").entries.find(
+      (e) => e.uid === "SDN:2674",
+    )!;
+    const c = parseOfacCsv({ primary: SDN, alt: `${ALT}\r\n2674,16,"aka","ABU KHALED",-0- ` }, "SDN").entries.find(
+      (e) => e.uid === "SDN:2674",
+    )!;
+    assert.equal(a.contentHash, b.contentHash);
+    assert.notEqual(a.contentHash, c.contentHash);
+  });
+});
+
+describe("remarksFacts", () => {
+  it("extracts DOBs and nationality / citizenship statements", () => {
+    const facts = remarksFacts("DOB 1958 to 1960; alt. DOB circa 1962; citizen Syria; nationality Lebanon; Passport 123.");
+    assert.deepEqual(facts.dobs, ["1958 to 1960", "circa 1962"]);
+    assert.deepEqual(facts.countries, ["Syria", "Lebanon"]);
+  });
+});
+
+describe("parseWatchlistCsv", () => {
+  it("parses a headed bank watchlist with multi-value cells", () => {
+    const result = parseWatchlistCsv(
+      [
+        "uid,name,type,aliases,dob,country",
+        'W-1,"Jane Q. Roe",person,"J. Roe; Janie Roe",1971-03-04,United States',
+        "W-2,Roe Holdings LLC,company,,,",
+      ].join("\n"),
+    );
+    assert.equal(result.format, "watchlist_csv");
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.entries[0].uid, "BANK_WATCHLIST:W-1");
+    assert.equal(result.entries[0].entityType, "individual");
+    assert.deepEqual(result.entries[0].aliases, ["J. Roe", "Janie Roe"]);
+    assert.equal(result.entries[1].entityType, "entity");
+  });
+
+  it("reports duplicate uids and unknown types without failing the file", () => {
+    const result = parseWatchlistCsv(["uid,name,type", "A,Acme,entity", "A,Acme Two,entity", "B,Boat,ship"].join("\n"));
+    assert.equal(result.entries.length, 1);
+    assert.equal(result.errors.length, 2);
+  });
+
+  it("requires uid and name columns", () => {
+    assert.equal(parseWatchlistCsv("id,full_name\n1,Acme").format, null);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Sanctions list reload rescreen queue
+ * (lib/sanctions/screeningService processPendingSanctionsRescreens).
+ *
+ * Only deals whose latest screening missed an active list version are
+ * rescreened, screening rows past the first page are covered, each run
+ * stops at its batch cap, and a bank is marked complete once none of its
+ * deals are stale. A deal that keeps failing backs off and is given up on
+ * after the attempt cap instead of stalling the queue.
+ */
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { mockServerOnly } from "../../../../test/utils/mockServerOnly";
+
+mockServerOnly();
+const require = createRequire(import.meta.url);
+
+type Row = Record<string, any>;
+const tables: Record<string, Row[]> = {};
+/** Deals whose screening insert fails. */
+const failingDeals = new Set<string>();
+
+function resetTables() {
+  for (const k of Object.keys(tables)) delete tables[k];
+  tables.sanctions_list_versions = [];
+  tables.sanctions_screenings = [];
+  tables.sanctions_rescreen_attempts = [];
+  failingDeals.clear();
+}
+
+function makeQueryBuilder(table: string) {
+  const q: any = {
+    _op: "select" as "select" | "insert" | "update" | "delete",
+    _payload: null as any,
+    _filters: [] as Array<(r: Row) => boolean>,
+    _order: [] as Array<[string, boolean]>,
+    _range: null as [number, number] | null,
+    _single: false,
+    select() {
+      return this;
+    },
+    eq(col: string, v: any) {
+      this._filters.push((r: Row) => r[col] === v);
+      return this;
+    },
+    neq(col: string, v: any) {
+      this._filters.push((r: Row) => r[col] !== v);
+      return this;
+    },
+    is(col: string, v: null) {
+      this._filters.push((r: Row) => (r[col] ?? null) === v);
+      return this;
+    },
+    not() {
+      this._filters.push(() => false);
+      return this;
+    },
+    order(col: string, opts?: { ascending?: boolean }) {
+      this._order.push([col, opts?.ascending !== false]);
+      return this;
+    },
+    range(from: number, to: number) {
+      this._range = [from, to];
+      return this;
+    },
+    insert(payload: any) {
+      this._op = "insert";
+      this._payload = payload;
+      return this;
+    },
+    update(payload: any) {
+      this._op = "update";
+      this._payload = payload;
+      return this;
+    },
+    upsert(payload: Row) {
+      const source = (tables[table] ??= []);
+      const existing = source.find((r) => r.bank_id === payload.bank_id && r.deal_id === payload.deal_id);
+      if (existing) Object.assign(existing, payload);
+      else source.push({ ...payload });
+      return Promise.resolve({ data: null, error: null });
+    },
+    delete() {
+      this._op = "delete";
+      return this;
+    },
+    maybeSingle() {
+      return Promise.resolve({ data: this._exec()[0] ?? null, error: null });
+    },
+    single() {
+      if (this._op === "insert" && table === "sanctions_screenings" && failingDeals.has(this._payload.deal_id)) {
+        return Promise.resolve({ data: null, error: { message: "screening insert failed" } });
+      }
+      return Promise.resolve({ data: this._exec()[0] ?? null, error: null });
+    },
+    then(onFulfilled: any) {
+      return Promise.resolve({ data: this._exec(), error: null }).then(onFulfilled);
+    },
+    _exec(): Row[] {
+      const source = (tables[table] ??= []);
+      if (this._op === "insert") {
+        const list = (Array.isArray(this._payload) ? this._payload : [this._payload]).map((p: Row) => ({
+          id: `${table}-${source.length + 1}`,
+          screened_at: new Date(Date.UTC(2026, 9, 19, 12, 0, source.length)).toISOString(),
+          ...p,
+        }));
+        source.push(...list);
+        return list;
+      }
+      let rows = source.filter((r) => this._filters.every((f: (r: Row) => boolean) => f(r)));
+      if (this._op === "delete") {
+        tables[table] = source.filter((r) => !rows.includes(r));
+        return rows;
+      }
+      if (this._op === "update") {
+        for (const r of rows) Object.assign(r, this._payload);
+        return rows;
+      }
+      for (const [col, asc] of [...this._order].reverse()) {
+        rows = [...rows].sort((a, b) => (a[col] < b[col] ? -1 : a[col] > b[col] ? 1 : 0) * (asc ? 1 : -1));
+      }
+      if (this._range) rows = rows.slice(this._range[0], this._range[1] + 1);
+      return rows;
+    },
+  };
+  return q;
+}
+
+require.cache[require.resolve("@/lib/supabase/admin")] = {
+  id: "sb-stub",
+  filename: "sb-stub",
+  loaded: true,
+  exports: { supabaseAdmin: () => ({ from: makeQueryBuilder }) },
+} as any;
+
+require.cache[require.resolve("../watchlistStore")] = {
+  id: "watchlist-stub",
+  filename: "watchlist-stub",
+  loaded: true,
+  exports: {
+    loadActiveWatchlistVersionIds: async (bankId: string) =>
+      tables.sanctions_list_versions.filter((v) => v.bank_id === bankId && v.active).map((v) => v.id).sort(),
+    loadActiveWatchlist: async (bankId: string) => ({
+      versionIds: tables.sanctions_list_versions.filter((v) => v.bank_id === bankId && v.active).map((v) => v.id).sort(),
+      entries: [],
+    }),
+  },
+} as any;
+
+const { processPendingSanctionsRescreens } =
+  require("../screeningService") as typeof import("../screeningService");
+
+/** `count` deals screened against v1, two screening rows each, oldest first. */
+function seedScreenedDeals(bankId: string, count: number) {
+  let t = 0;
+  for (let round = 0; round < 2; round++) {
+    for (let i = 0; i < count; i++) {
+      tables.sanctions_screenings.push({
+        id: `scr-${round}-${i}`,
+        bank_id: bankId,
+        deal_id: `deal-${i}`,
+        list_version_ids: ["v1"],
+        screened_at: new Date(Date.UTC(2026, 0, 1, 0, 0, t++)).toISOString(),
+      });
+    }
+  }
+}
+
+function rescreenedDealIds(): string[] {
+  return tables.sanctions_screenings.filter((s) => s.trigger === "list_reload").map((s) => s.deal_id);
+}
+
+test("rescreens stale deals past the first page of screenings, a batch at a time", async () => {
+  resetTables();
+  tables.sanctions_list_versions.push({ id: "v2", bank_id: "bank-1", active: true, rescreen_completed_at: null });
+  seedScreenedDeals("bank-1", 600);
+
+  const first = await processPendingSanctionsRescreens({ limit: 25 });
+  assert.equal(first.rescreened, 25);
+  assert.equal(first.completedBanks, 0);
+  assert.equal(new Set(rescreenedDealIds()).size, 25);
+
+  let guard = 0;
+  while ((await processPendingSanctionsRescreens({ limit: 250 })).completedBanks === 0) {
+    assert.ok(++guard < 10, "queue drains");
+  }
+  const ids = rescreenedDealIds();
+  assert.equal(ids.length, 600, "every deal rescreened exactly once");
+  assert.equal(new Set(ids).size, 600);
+  assert.ok(tables.sanctions_list_versions[0].rescreen_completed_at, "bank marked complete");
+
+  const idle = await processPendingSanctionsRescreens({ limit: 25 });
+  assert.equal(idle.banks, 0);
+});
+
+test("does not rescreen deals already screened against the active versions", async () => {
+  resetTables();
+  tables.sanctions_list_versions.push({ id: "v1", bank_id: "bank-1", active: true, rescreen_completed_at: null });
+  seedScreenedDeals("bank-1", 3);
+
+  const r = await processPendingSanctionsRescreens({ limit: 10 });
+  assert.equal(r.rescreened, 0);
+  assert.equal(r.completedBanks, 1);
+  assert.deepEqual(rescreenedDealIds(), []);
+});
+
+test("a deal that keeps failing backs off, is given up on, and does not hold the bank open", async () => {
+  resetTables();
+  tables.sanctions_list_versions.push({ id: "v2", bank_id: "bank-1", active: true, rescreen_completed_at: null });
+  seedScreenedDeals("bank-1", 3);
+  failingDeals.add("deal-1");
+
+  const first = await processPendingSanctionsRescreens({ limit: 10 });
+  assert.equal(first.rescreened, 2);
+  assert.deepEqual(first.failed.map((f) => f.dealId), ["deal-1"]);
+  const attempt = tables.sanctions_rescreen_attempts[0];
+  assert.equal(attempt.attempt_count, 1);
+  assert.ok(new Date(attempt.next_attempt_at) > new Date(), "backing off");
+
+  // Still backing off: not retried, bank not complete.
+  const waiting = await processPendingSanctionsRescreens({ limit: 10 });
+  assert.equal(waiting.failed.length, 0);
+  assert.equal(waiting.completedBanks, 0);
+
+  let runs = 0;
+  while (tables.sanctions_rescreen_attempts[0].attempt_count < 5) {
+    tables.sanctions_rescreen_attempts[0].next_attempt_at = new Date(0).toISOString();
+    await processPendingSanctionsRescreens({ limit: 10 });
+    assert.ok(++runs < 10);
+  }
+  assert.equal(tables.sanctions_rescreen_attempts[0].next_attempt_at, null);
+
+  const done = await processPendingSanctionsRescreens({ limit: 10 });
+  assert.equal(done.failed.length, 0);
+  assert.equal(done.exhausted, 1);
+  assert.equal(done.completedBanks, 1, "an exhausted deal does not stall the bank");
+});
+
+test("a successful retry clears the deal's attempt record", async () => {
+  resetTables();
+  tables.sanctions_list_versions.push({ id: "v2", bank_id: "bank-1", active: true, rescreen_completed_at: null });
+  seedScreenedDeals("bank-1", 1);
+  tables.sanctions_rescreen_attempts.push({
+    bank_id: "bank-1",
+    deal_id: "deal-0",
+    attempt_count: 2,
+    next_attempt_at: new Date(0).toISOString(),
+  });
+
+  const r = await processPendingSanctionsRescreens({ limit: 10 });
+  assert.equal(r.rescreened, 1);
+  assert.deepEqual(tables.sanctions_rescreen_attempts, []);
+});
@@ -0,0 +1,233 @@
+/**
+ * Party screening (lib/sanctions).
+ *
+ * Name matching (token order, diacritics, legal-form suffixes, bare
+ * surnames), DOB comparison, hit generation across the ownership graph,
+ * disposition carry-forward across list reloads, disposition validation
+ * and the decision gate.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { WatchlistEntry } from "../parseWatchlistFile";
+import { compareDob, nameSimilarity, nameTokens } from "../nameMatching";
+import {
+  buildScreeningSubjects,
+  carryForwardDisposition,
+  evaluateSanctionsGate,
+  prepareWatchlist,
+  screenSubjects,
+  validateHitDisposition,
+  type PriorHitDisposition,
+} from "../screenParties";
+
+function entry(over: Partial<WatchlistEntry> & Pick<WatchlistEntry, "uid" | "name">): WatchlistEntry {
+  return {
+    listSource: "SDN",
+    entityType: "individual",
+    aliases: [],
+    dobs: [],
+    countries: [],
+    addresses: [],
+    programs: ["SDGT"],
+    remarks: null,
+    contentHash: `hash-${over.uid}`,
+    ...over,
+  };
+}
+
+const WATCHLIST = prepareWatchlist([
+  entry({ uid: "SDN:1", name: "GARCÍA MÁRQUEZ, José Luis", dobs: ["12 Jan 1970"], countries: ["Mexico"] }),
+  entry({ uid: "SDN:2", name: "NORTHWIND TRADING L.L.C.", entityType: "entity", aliases: ["NORTHWIND GENERAL TRADING"] }),
+  entry({ uid: "SDN:3", name: "SMITH, Robert" }),
+  entry({ uid: "SDN:4", name: "MV OCEAN STAR", entityType: "vessel" }),
+]);
+
+describe("name matching", () => {
+  it("ignores token order, punctuation and diacritics", () => {
+    const a = nameTokens("José Luis García Márquez", "individual");
+    const b = nameTokens("GARCIA MARQUEZ, Jose Luis", "individual");
+    assert.equal(nameSimilarity(a, b), 1);
+  });
+
+  it("drops legal-form suffixes for entities only", () => {
+    assert.deepEqual(nameTokens("Northwind Trading, LLC", "entity"), ["NORTHWIND", "TRADING"]);
+    assert.deepEqual(nameTokens("Northwind Trading L.L.C.", "entity"), ["NORTHWIND", "TRADING"]);
+    assert.deepEqual(nameTokens("Dr. Ann Co", "individual"), ["ANN", "CO"]);
+  });
+
+  it("never scores a bare surname as a full-name hit", () => {
+    assert.ok(nameSimilarity(["SMITH"], ["SMITH", "ROBERT"]) <= 0.8);
+  });
+
+  it("scores a one-letter typo above the default threshold", () => {
+    assert.ok(nameSimilarity(["ROBERT", "SMYTH"], ["SMITH", "ROBERT"]) >= 0.88);
+  });
+});
+
+describe("compareDob", () => {
+  it("distinguishes full, year and mismatched DOBs", () => {
+    assert.equal(compareDob("1970-01-12", ["12 Jan 1970"]), "match");
+    assert.equal(compareDob("1970-06-01", ["1970"]), "year_match");
+    assert.equal(compareDob("1961-06-01", ["circa 1962"]), "year_match");
+    assert.equal(compareDob("1985-01-12", ["12 Jan 1970"]), "mismatch");
+    assert.equal(compareDob(null, ["12 Jan 1970"]), "unknown");
+    assert.equal(compareDob("1970-01-12", []), "unknown");
+  });
+});
+
+describe("screenSubjects", () => {
+  const subjects = buildScreeningSubjects([
+    { kind: "entity", role: "borrower", name: "Northwind Trading, LLC" },
+    { kind: "individual", role: "owner", name: "Jose Luis Garcia Marquez", dob: "1985-03-01" },
+    { kind: "individual", role: "guarantor", name: "José Luis García Márquez", country: "Mexico" },
+    { kind: "individual", role: "owner", name: "Jane Smith" },
+    { kind: "entity", role: "affiliate", name: "Ocean Star LLC" },
+  ]);
+
+  it("merges the same party reached through different graph tables", () => {
+    const garcia = subjects.filter((s) => s.subjectKey.includes("GARCIA"));
+    assert.equal(garcia.length, 1);
+    assert.deepEqual(garcia[0].roles, ["owner", "guarantor"]);
+    assert.equal(garcia[0].dob, "1985-03-01");
+    assert.equal(garcia[0].country, "Mexico");
+  });
+
+  it("hits on names and keeps a DOB mismatch as evidence, not a clearance", () => {
+    const hits = screenSubjects(subjects, WATCHLIST);
+    assert.deepEqual(hits.map((h) => h.entryUid).sort(), ["SDN:1", "SDN:2"]);
+
+    const garcia = hits.find((h) => h.entryUid === "SDN:1")!;
+    assert.equal(garcia.nameScore, 1);
+    assert.equal(garcia.dob, "mismatch");
+    assert.equal(garcia.country, "match");
+    assert.ok(garcia.score < garcia.nameScore);
+  });
+
+  it("only compares individuals with individuals and skips vessels", () => {
+    const hits = screenSubjects(
+      buildScreeningSubjects([
+        { kind: "individual", role: "owner", name: "Northwind Trading" },
+        { kind: "entity", role: "affiliate", name: "Ocean Star" },
+      ]),
+      WATCHLIST,
+    );
+    assert.equal(hits.length, 0);
+  });
+});
+
+describe("carryForwardDisposition", () => {
+  const prior: PriorHitDisposition[] = [
+    {
+      id: "hit-1",
+      subjectKey: "individual:JOSE LUIS GARCIA MARQUEZ",
+      entryUid: "SDN:1",
+      entryContentHash: "hash-SDN:1",
+      disposition: "false_positive",
+      dispositionReasonCode: "dob_mismatch",
+      dispositionNote: "Owner born 1985; listed party born 1970.",
+      dispositionedBy: "user_1",
+      dispositionedAt: "2026-01-05T00:00:00Z",
+    },
+  ];
+
+  it("carries a disposition onto the same unchanged entry", () => {
+    const carried = carryForwardDisposition(
+      { subjectKey: "individual:JOSE LUIS GARCIA MARQUEZ", entryUid: "SDN:1", entryContentHash: "hash-SDN:1" },
+      prior,
+    );
+    assert.equal(carried?.disposition, "false_positive");
+    assert.equal(carried?.carriedFromHitId, "hit-1");
+  });
+
+  it("reopens the hit when the list entry was amended", () => {
+    const carried = carryForwardDisposition(
+      { subjectKey: "individual:JOSE LUIS GARCIA MARQUEZ", entryUid: "SDN:1", entryContentHash: "hash-amended" },
+      prior,
+    );
+    assert.equal(carried, null);
+  });
+});
+
+describe("validateHitDisposition", () => {
+  it("requires a note, and a reason code for a false positive", () => {
+    assert.deepEqual(validateHitDisposition({ disposition: "true_match", note: "Confirmed by passport" }), { ok: true });
+    assert.deepEqual(validateHitDisposition({ disposition: "true_match", note: " " }), {
+      ok: false,
+      error: "disposition_requires_note",
+    });
+    assert.deepEqual(validateHitDisposition({ disposition: "false_positive", note: "Different person" }), {
+      ok: false,
+      error: "false_positive_requires_reason_code",
+    });
+    assert.deepEqual(
+      validateHitDisposition({ disposition: "false_positive", reasonCode: "dob_mismatch", note: "Born 1985" }),
+      { ok: true },
+    );
+    assert.deepEqual(validateHitDisposition({ disposition: "cleared", note: "x" }), {
+      ok: false,
+      error: "invalid_disposition",
+    });
+  });
+});
+
+describe("evaluateSanctionsGate", () => {
+  it("fails closed when the bank has loaded no lists", () => {
+    const gate = evaluateSanctionsGate({ activeListVersionIds: [], latestScreening: null, currentSubjects: [], hits: [] });
+    assert.equal(gate.ready, false);
+    assert.equal(gate.listsLoaded, false);
+    assert.match(gate.message ?? "", /not loaded/);
+  });
+
+  it("requires a screening against the current list versions", () => {
+    assert.equal(evaluateSanctionsGate({ activeListVersionIds: ["v1"], latestScreening: null, currentSubjects: [], hits: [] }).ready, false);
+
+    const stale = evaluateSanctionsGate({
+      activeListVersionIds: ["v2"],
+      latestScreening: { listVersionIds: ["v1"], subjectKeys: [] },
+      currentSubjects: [],
+      hits: [],
+    });
+    assert.equal(stale.ready, false);
+    assert.equal(stale.current, false);
+  });
+
+  it("stays closed until every hit has a disposition", () => {
+    const open = evaluateSanctionsGate({
+      activeListVersionIds: ["v1"],
+      latestScreening: { listVersionIds: ["v1"], subjectKeys: [] },
+      currentSubjects: [],
+      hits: [{ disposition: "false_positive" }, { disposition: null }],
+    });
+    assert.equal(open.ready, false);
+    assert.equal(open.openHitCount, 1);
+
+    const done = evaluateSanctionsGate({
+      activeListVersionIds: ["v1"],
+      latestScreening: { listVersionIds: ["v1"], subjectKeys: [] },
+      currentSubjects: [],
+      hits: [{ disposition: "false_positive" }, { disposition: "true_match" }],
+    });
+    assert.equal(done.ready, true);
+    assert.equal(done.trueMatchCount, 1);
+  });
+
+  it("reopens when an owner or guarantor was added after the screening", () => {
+    const screened = buildScreeningSubjects([
+      { kind: "entity", role: "borrower", name: "Northwind Machining LLC" },
+      { kind: "individual", role: "owner", name: "Ann Lee" },
+    ]);
+    const now = buildScreeningSubjects([
+      { kind: "entity", role: "borrower", name: "Northwind Machining LLC" },
+      { kind: "individual", role: "owner", name: "Ann Lee" },
+      { kind: "individual", role: "guarantor", name: "Robert Smith" },
+    ]);
+    const latestScreening = { listVersionIds: ["v1"], subjectKeys: screened.map((s) => s.subjectKey) };
+
+    const reopened = evaluateSanctionsGate({ activeListVersionIds: ["v1"], latestScreening, currentSubjects: now, hits: [] });
+    assert.equal(reopened.ready, false);
+    assert.deepEqual(reopened.unscreenedSubjects, ["Robert Smith"]);
+
+    const unchanged = evaluateSanctionsGate({ activeListVersionIds: ["v1"], latestScreening, currentSubjects: screened, hits: [] });
+    assert.equal(unchanged.ready, true);
+  });
+});
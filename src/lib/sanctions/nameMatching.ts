@@ -0,0 +1,197 @@
+/**
+ * Name, DOB and country matching primitives for watchlist screening.
+ *
+ * Names are compared as token sets (so "SMITH, John A" and "John A Smith"
+ * agree) with Jaro-Winkler similarity per token, after transliteration
+ * to ASCII and — for organisations — removal of legal-form suffixes
+ * ("LLC", "INC", "LTD", …) that carry no identifying weight.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+export type NameKind = "individual" | "entity";
+
+export type DobComparison = "match" | "year_match" | "mismatch" | "unknown";
+export type CountryComparison = "match" | "mismatch" | "unknown";
+
+const ENTITY_SUFFIXES = new Set([
+  "AG", "BV", "CO", "COMPANY", "CORP", "CORPORATION", "GMBH", "INC", "INCORPORATED",
+  "LC", "LIMITED", "LLC", "LLLP", "LLP", "LP", "LTD", "NV", "PA", "PC", "PLC",
+  "PLLC", "SA", "SARL", "SPA", "THE",
+]);
+
+const HONORIFICS = new Set(["MR", "MRS", "MS", "DR", "JR", "SR", "II", "III", "IV"]);
+
+/** Uppercase ASCII tokens with punctuation removed. */
+export function nameTokens(raw: string, kind: NameKind): string[] {
+  const ascii = raw
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    // "L.L.C." / "S.A." collapse before punctuation becomes whitespace
+    .replace(/\b([A-Z])\.(?=[A-Z]\.)/g, "$1")
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+  const tokens = ascii ? ascii.split(" ") : [];
+  const drop = kind === "entity" ? ENTITY_SUFFIXES : HONORIFICS;
+  const kept = tokens.filter((t) => !drop.has(t));
+  return kept.length > 0 ? kept : tokens;
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const lo = Math.max(0, i - window);
+    const hi = Math.min(b.length - 1, i + window);
+    for (let j = lo; j <= hi; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const m = matches;
+  const jaro = (m / a.length + m / b.length + (m - transpositions / 2) / m) / 3;
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two token lists in [0, 1].
+ *
+ * Every token of the shorter name must find a partner in the longer one;
+ * the score is the length-weighted mean of those best partners, lightly
+ * discounted for unmatched extra tokens. A one-token name against a
+ * multi-token name is capped below the default hit threshold — a bare
+ * surname is never a hit on its own.
+ */
+export function nameSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const joinedA = [...a].sort().join(" ");
+  const joinedB = [...b].sort().join(" ");
+  if (joinedA === joinedB) return 1;
+
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  const used = new Set<number>();
+  let weighted = 0;
+  let weight = 0;
+  for (const t of short) {
+    let best = 0;
+    let bestIdx = -1;
+    long.forEach((u, idx) => {
+      if (used.has(idx)) return;
+      const s = jaroWinkler(t, u);
+      if (s > best) {
+        best = s;
+        bestIdx = idx;
+      }
+    });
+    if (bestIdx >= 0) used.add(bestIdx);
+    weighted += best * t.length;
+    weight += t.length;
+  }
+
+  const tokenScore = (weighted / weight) * (0.92 + 0.08 * (short.length / long.length));
+  const score = Math.max(tokenScore, short.length === long.length ? jaroWinkler(joinedA, joinedB) : 0);
+  return short.length === 1 && long.length > 1 ? Math.min(score, 0.8) : score;
+}
+
+/** Cheap pre-filter: at least one token pair shares its first letter. */
+export function mayMatch(a: string[], b: string[]): boolean {
+  for (const t of a) for (const u of b) if (t[0] === u[0]) return true;
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// DOB
+// ---------------------------------------------------------------------------
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+type ListDob = { fromYear: number; toYear: number; month: number | null; day: number | null };
+
+/** Parse an OFAC-style DOB ("12 Jan 1970", "Jan 1970", "circa 1970", "1958 to 1960"). */
+export function parseListDob(raw: string): ListDob | null {
+  const t = raw.toUpperCase();
+  const years = [...t.matchAll(/\b(1[89]\d{2}|20\d{2})\b/g)].map((m) => Number(m[1]));
+  if (years.length === 0) return null;
+
+  if (years.length >= 2) return { fromYear: Math.min(...years), toYear: Math.max(...years), month: null, day: null };
+  const circa = /\bCIRCA\b|\bCA\.?\s/.test(t) ? 1 : 0;
+  const monthIdx = MONTHS.findIndex((m) => new RegExp(`\\b${m}`).test(t));
+  const day = monthIdx >= 0 ? /\b(\d{1,2})\s+[A-Z]{3}/.exec(t) : null;
+  return {
+    fromYear: years[0] - circa,
+    toYear: years[0] + circa,
+    month: monthIdx >= 0 && !circa ? monthIdx + 1 : null,
+    day: day && !circa ? Number(day[1]) : null,
+  };
+}
+
+/** Compare a subject's ISO date of birth against a list entry's published DOBs. */
+export function compareDob(subjectDob: string | null, listDobs: string[]): DobComparison {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(subjectDob ?? "");
+  const parsed = listDobs.map(parseListDob).filter((d): d is ListDob => d !== null);
+  if (!m || parsed.length === 0) return "unknown";
+
+  const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  let best: DobComparison = "mismatch";
+  for (const d of parsed) {
+    if (year < d.fromYear || year > d.toYear) continue;
+    if (d.month !== null && d.month !== month) continue;
+    if (d.day !== null && d.day !== day) continue;
+    if (d.day !== null) return "match";
+    best = "year_match";
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Country
+// ---------------------------------------------------------------------------
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  US: "UNITED STATES",
+  USA: "UNITED STATES",
+  "U S": "UNITED STATES",
+  "U S A": "UNITED STATES",
+  "UNITED STATES OF AMERICA": "UNITED STATES",
+  UK: "UNITED KINGDOM",
+  "GREAT BRITAIN": "UNITED KINGDOM",
+};
+
+export function normalizeCountry(raw: string | null | undefined): string | null {
+  const t = (raw ?? "")
+    .toUpperCase()
+    .replace(/[^A-Z ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!t) return null;
+  return COUNTRY_ALIASES[t] ?? t;
+}
+
+export function compareCountry(subjectCountry: string | null, listCountries: string[]): CountryComparison {
+  const s = normalizeCountry(subjectCountry);
+  const list = listCountries.map(normalizeCountry).filter((c): c is string => !!c);
+  if (!s || list.length === 0) return "unknown";
+  return list.includes(s) ? "match" : "mismatch";
+}
@@ -0,0 +1,273 @@
+/**
+ * Watchlist File Parser
+ *
+ * Parses locally loaded sanctions / watchlist files into WatchlistEntry
+ * rows. Two shapes are accepted:
+ *
+ *   - OFAC legacy CSV: the primary file (sdn.csv / cons_prim.csv, 12
+ *     columns, no header) with optional alias (alt.csv / cons_alt.csv) and
+ *     address (add.csv / cons_add.csv) companions joined on ent_num. "-0-"
+ *     marks an empty cell; DOBs and nationality live in the Remarks column.
+ *   - Watchlist CSV: a headed file for bank-maintained lists —
+ *     uid,name,type[,aliases][,dob][,country][,address][,program][,remarks]
+ *     with multi-value cells separated by ";".
+ *
+ * Pure function — deterministic, no side effects.
+ */
+
+import * as crypto from "node:crypto";
+
+export type WatchlistSource = "SDN" | "CONSOLIDATED" | "BANK_WATCHLIST";
+
+export type WatchlistEntityType = "individual" | "entity" | "vessel" | "aircraft";
+
+export type WatchlistEntry = {
+  /** Stable across list reloads, e.g. "SDN:36" */
+  uid: string;
+  listSource: WatchlistSource;
+  entityType: WatchlistEntityType;
+  name: string;
+  aliases: string[];
+  /** DOBs as published ("12 Jan 1970", "1958 to 1960", "circa 1975") */
+  dobs: string[];
+  countries: string[];
+  addresses: string[];
+  programs: string[];
+  remarks: string | null;
+  /** Hash of the fields above; changes when OFAC amends the entry */
+  contentHash: string;
+};
+
+export type ParseWatchlistResult = {
+  format: "ofac_csv" | "watchlist_csv" | null;
+  entries: WatchlistEntry[];
+  errors: string[];
+};
+
+const OFAC_EMPTY = "-0-";
+const OFAC_PRIMARY_COLUMNS = 12;
+const OFAC_ALT_COLUMNS = 5;
+const OFAC_ADDRESS_COLUMNS = 6;
+
+/** Quote-aware CSV reader — OFAC remarks may hold commas and quotes. */
+function readCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/\u001a/g, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.some((c) => c.trim() !== "")) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some((c) => c.trim() !== "")) rows.push(row);
+  return rows;
+}
+
+function ofacCell(v: string | undefined): string | null {
+  const t = (v ?? "").trim();
+  return t === "" || t === OFAC_EMPTY ? null : t;
+}
+
+function splitMulti(v: string | undefined): string[] {
+  return (v ?? "")
+    .split(";")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/** DOB and nationality/citizenship statements from an OFAC Remarks cell. */
+export function remarksFacts(remarks: string | null): { dobs: string[]; countries: string[] } {
+  if (!remarks) return { dobs: [], countries: [] };
+  const dobs: string[] = [];
+  const countries: string[] = [];
+  for (const part of remarks.split(";")) {
+    const t = part.trim().replace(/\.$/, "");
+    const dob = /^(?:alt\.\s*)?DOB\s+(.+)$/i.exec(t);
+    if (dob) dobs.push(dob[1].trim());
+    const nat = /^(?:alt\.\s*)?(?:nationality|citizen)\s+(.+)$/i.exec(t);
+    if (nat) countries.push(nat[1].trim());
+  }
+  return { dobs, countries };
+}
+
+function entityTypeFromOfac(sdnType: string | null): WatchlistEntityType {
+  const t = (sdnType ?? "").toLowerCase();
+  if (t === "individual" || t === "vessel" || t === "aircraft") return t;
+  return "entity";
+}
+
+function entityTypeFromWatchlist(raw: string): WatchlistEntityType | null {
+  const t = raw.trim().toLowerCase();
+  if (t === "individual" || t === "person") return "individual";
+  if (t === "entity" || t === "company" || t === "organization" || t === "") return "entity";
+  if (t === "vessel" || t === "aircraft") return t;
+  return null;
+}
+
+function hashEntry(e: Omit<WatchlistEntry, "contentHash">): string {
+  const canonical = JSON.stringify([
+    e.uid,
+    e.entityType,
+    e.name,
+    [...e.aliases].sort(),
+    [...e.dobs].sort(),
+    [...e.countries].sort(),
+    [...e.addresses].sort(),
+    [...e.programs].sort(),
+    e.remarks,
+  ]);
+  return crypto.createHash("sha256").update(canonical).digest("hex");
+}
+
+function finalize(e: Omit<WatchlistEntry, "contentHash">): WatchlistEntry {
+  const entry = {
+    ...e,
+    aliases: unique(e.aliases.filter((a) => a !== e.name)),
+    dobs: unique(e.dobs),
+    countries: unique(e.countries),
+    addresses: unique(e.addresses),
+    programs: unique(e.programs),
+  };
+  return { ...entry, contentHash: hashEntry(entry) };
+}
+
+/**
+ * Parse the OFAC legacy CSV trio. Only the primary file is required.
+ */
+export function parseOfacCsv(
+  files: { primary: string; alt?: string | null; address?: string | null },
+  listSource: Exclude<WatchlistSource, "BANK_WATCHLIST">,
+): ParseWatchlistResult {
+  const errors: string[] = [];
+  const primary = readCsv(files.primary);
+  if (primary.length === 0 || primary[0].length !== OFAC_PRIMARY_COLUMNS) {
+    return { format: null, entries: [], errors: [`primary file must have ${OFAC_PRIMARY_COLUMNS} columns`] };
+  }
+
+  const aliases = new Map<string, string[]>();
+  if (files.alt) {
+    readCsv(files.alt).forEach((r, i) => {
+      if (r.length !== OFAC_ALT_COLUMNS) return void errors.push(`alt row ${i + 1}: expected ${OFAC_ALT_COLUMNS} columns`);
+      const ent = ofacCell(r[0]);
+      const name = ofacCell(r[3]);
+      if (!ent || !name) return;
+      if (!aliases.has(ent)) aliases.set(ent, []);
+      aliases.get(ent)!.push(name);
+    });
+  }
+
+  const addresses = new Map<string, Array<{ line: string; country: string | null }>>();
+  if (files.address) {
+    readCsv(files.address).forEach((r, i) => {
+      if (r.length !== OFAC_ADDRESS_COLUMNS) return void errors.push(`address row ${i + 1}: expected ${OFAC_ADDRESS_COLUMNS} columns`);
+      const ent = ofacCell(r[0]);
+      if (!ent) return;
+      const country = ofacCell(r[4]);
+      const line = [ofacCell(r[2]), ofacCell(r[3]), country].filter(Boolean).join(", ");
+      if (!addresses.has(ent)) addresses.set(ent, []);
+      addresses.get(ent)!.push({ line, country });
+    });
+  }
+
+  const entries: WatchlistEntry[] = [];
+  primary.forEach((r, i) => {
+    if (r.length !== OFAC_PRIMARY_COLUMNS) return void errors.push(`primary row ${i + 1}: expected ${OFAC_PRIMARY_COLUMNS} columns`);
+    const ent = ofacCell(r[0]);
+    const name = ofacCell(r[1]);
+    if (!ent || !name) return void errors.push(`primary row ${i + 1}: missing ent_num or name`);
+
+    const remarks = ofacCell(r[11]);
+    const facts = remarksFacts(remarks);
+    const addr = addresses.get(ent) ?? [];
+    entries.push(
+      finalize({
+        uid: `${listSource}:${ent}`,
+        listSource,
+        entityType: entityTypeFromOfac(ofacCell(r[2])),
+        name,
+        aliases: aliases.get(ent) ?? [],
+        dobs: facts.dobs,
+        countries: [...addr.map((a) => a.country).filter((c): c is string => !!c), ...facts.countries],
+        addresses: addr.map((a) => a.line).filter(Boolean),
+        programs: (ofacCell(r[3]) ?? "").split(/[;\]]\s*/).map((p) => p.replace(/[[\]]/g, "").trim()).filter(Boolean),
+        remarks,
+      }),
+    );
+  });
+
+  return { format: "ofac_csv", entries, errors };
+}
+
+/**
+ * Parse a headed watchlist CSV (bank-maintained / internal lists).
+ */
+export function parseWatchlistCsv(text: string): ParseWatchlistResult {
+  const rows = readCsv(text);
+  if (rows.length === 0) return { format: null, entries: [], errors: ["empty file"] };
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+  if (col("uid") < 0 || col("name") < 0) {
+    return { format: null, entries: [], errors: ["watchlist csv needs uid and name columns"] };
+  }
+
+  const errors: string[] = [];
+  const entries: WatchlistEntry[] = [];
+  const seen = new Set<string>();
+  rows.slice(1).forEach((r, i) => {
+    const get = (name: string) => (col(name) >= 0 ? (r[col(name)] ?? "").trim() : "");
+    const uid = get("uid");
+    const name = get("name");
+    const entityType = entityTypeFromWatchlist(get("type"));
+    if (!uid || !name) return void errors.push(`row ${i + 2}: missing uid or name`);
+    if (!entityType) return void errors.push(`row ${i + 2}: unknown type "${get("type")}"`);
+    if (seen.has(uid)) return void errors.push(`row ${i + 2}: duplicate uid ${uid}`);
+    seen.add(uid);
+
+    entries.push(
+      finalize({
+        uid: `BANK_WATCHLIST:${uid}`,
+        listSource: "BANK_WATCHLIST",
+        entityType,
+        name,
+        aliases: splitMulti(get("aliases")),
+        dobs: splitMulti(get("dob")),
+        countries: splitMulti(get("country")),
+        addresses: splitMulti(get("address")),
+        programs: splitMulti(get("program")),
+        remarks: get("remarks") || null,
+      }),
+    );
+  });
+
+  return { format: "watchlist_csv", entries, errors };
+}
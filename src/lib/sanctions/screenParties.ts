@@ -0,0 +1,349 @@
+/**
+ * Sanctions / watchlist screening of a deal's parties.
+ *
+ * Every entity and individual in the deal's ownership graph — the
+ * borrower, affiliated entities, owners and guarantors — is screened
+ * against the bank's active list entries. A hit is a candidate for
+ * analyst review, never a conclusion: hits are not auto-cleared on a DOB
+ * or country mismatch (those are recorded on the hit for the reviewer),
+ * and each one needs a disposition — true match, or false positive with
+ * a reason — before a decision can be finalized.
+ *
+ * Individuals are only compared with individual entries and
+ * organisations with entity entries; vessels and aircraft are not
+ * screened against deal parties.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+import type { WatchlistEntry, WatchlistSource } from "./parseWatchlistFile";
+import {
+  compareCountry,
+  compareDob,
+  mayMatch,
+  nameSimilarity,
+  nameTokens,
+  type CountryComparison,
+  type DobComparison,
+  type NameKind,
+} from "./nameMatching";
+
+export const DEFAULT_MATCH_THRESHOLD = 0.88;
+
+export type ScreeningRole = "borrower" | "affiliate" | "owner" | "guarantor";
+
+export type ScreeningSubject = {
+  /** Stable across rescreens: kind + normalized name */
+  subjectKey: string;
+  kind: NameKind;
+  roles: ScreeningRole[];
+  name: string;
+  aliases: string[];
+  dob: string | null;
+  country: string | null;
+};
+
+export type ScreeningHit = {
+  subjectKey: string;
+  subjectName: string;
+  subjectKind: NameKind;
+  subjectRoles: ScreeningRole[];
+  listSource: WatchlistSource;
+  entryUid: string;
+  entryContentHash: string;
+  entryName: string;
+  matchedName: string;
+  matchedOn: "primary" | "alias";
+  nameScore: number;
+  dob: DobComparison;
+  country: CountryComparison;
+  /** nameScore adjusted by DOB / country corroboration — for ordering only */
+  score: number;
+  programs: string[];
+};
+
+export type HitDisposition = "true_match" | "false_positive";
+
+export const FALSE_POSITIVE_REASONS = [
+  "dob_mismatch",
+  "nationality_or_location_mismatch",
+  "entity_type_mismatch",
+  "partial_or_common_name",
+  "identifiers_verified_different",
+  "other",
+] as const;
+
+export type FalsePositiveReason = (typeof FALSE_POSITIVE_REASONS)[number];
+
+// ---------------------------------------------------------------------------
+// Subjects
+// ---------------------------------------------------------------------------
+
+export type SubjectSourceRow = {
+  kind: NameKind;
+  role: ScreeningRole;
+  name: string | null | undefined;
+  aliases?: Array<string | null | undefined>;
+  dob?: string | null;
+  country?: string | null;
+};
+
+/**
+ * Merge party rows from the different graph tables into one subject per
+ * distinct (kind, normalized name). Roles, aliases, DOB and country are
+ * unioned so the richest record is screened.
+ */
+export function buildScreeningSubjects(rows: SubjectSourceRow[]): ScreeningSubject[] {
+  const byKey = new Map<string, ScreeningSubject>();
+  for (const r of rows) {
+    const name = (r.name ?? "").trim();
+    const tokens = nameTokens(name, r.kind);
+    if (tokens.length === 0) continue;
+
+    const subjectKey = `${r.kind}:${tokens.join(" ")}`;
+    const aliases = (r.aliases ?? []).map((a) => (a ?? "").trim()).filter((a) => a && a !== name);
+    const existing = byKey.get(subjectKey);
+    if (!existing) {
+      byKey.set(subjectKey, {
+        subjectKey,
+        kind: r.kind,
+        roles: [r.role],
+        name,
+        aliases: [...new Set(aliases)],
+        dob: r.dob ?? null,
+        country: r.country ?? null,
+      });
+      continue;
+    }
+    if (!existing.roles.includes(r.role)) existing.roles.push(r.role);
+    existing.aliases = [...new Set([...existing.aliases, ...aliases])];
+    existing.dob = existing.dob ?? r.dob ?? null;
+    existing.country = existing.country ?? r.country ?? null;
+  }
+  return [...byKey.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Screening
+// ---------------------------------------------------------------------------
+
+type PreparedName = { name: string; tokens: string[]; on: "primary" | "alias" };
+
+export type PreparedWatchlist = Array<{ entry: WatchlistEntry; kind: NameKind; names: PreparedName[] }>;
+
+/** Tokenize every list name once; reuse across subjects and deals. */
+export function prepareWatchlist(entries: WatchlistEntry[]): PreparedWatchlist {
+  const out: PreparedWatchlist = [];
+  for (const entry of entries) {
+    if (entry.entityType === "vessel" || entry.entityType === "aircraft") continue;
+    const kind: NameKind = entry.entityType === "individual" ? "individual" : "entity";
+    const names: PreparedName[] = [
+      { name: entry.name, tokens: nameTokens(entry.name, kind), on: "primary" as const },
+      ...entry.aliases.map((a) => ({ name: a, tokens: nameTokens(a, kind), on: "alias" as const })),
+    ].filter((n) => n.tokens.length > 0);
+    out.push({ entry, kind, names });
+  }
+  return out;
+}
+
+function corroborated(nameScore: number, dob: DobComparison, country: CountryComparison): number {
+  let s = nameScore;
+  if (dob === "match") s += 0.05;
+  else if (dob === "year_match") s += 0.02;
+  else if (dob === "mismatch") s -= 0.15;
+  if (country === "match") s += 0.02;
+  else if (country === "mismatch") s -= 0.05;
+  return Math.round(Math.min(1, Math.max(0, s)) * 1000) / 1000;
+}
+
+/**
+ * Screen subjects against a prepared watchlist. Returns the best-scoring
+ * name pairing per (subject, entry) at or above the threshold, strongest
+ * first.
+ */
+export function screenSubjects(
+  subjects: ScreeningSubject[],
+  watchlist: PreparedWatchlist,
+  opts: { threshold?: number } = {},
+): ScreeningHit[] {
+  const threshold = opts.threshold ?? DEFAULT_MATCH_THRESHOLD;
+  const hits: ScreeningHit[] = [];
+
+  for (const subject of subjects) {
+    const subjectNames = [subject.name, ...subject.aliases]
+      .map((n) => nameTokens(n, subject.kind))
+      .filter((t) => t.length > 0);
+
+    for (const { entry, kind, names } of watchlist) {
+      if (kind !== subject.kind) continue;
+
+      let best: { score: number; name: PreparedName } | null = null;
+      for (const s of subjectNames) {
+        for (const n of names) {
+          if (!mayMatch(s, n.tokens)) continue;
+          const score = nameSimilarity(s, n.tokens);
+          if (score >= threshold && (!best || score > best.score)) best = { score, name: n };
+        }
+      }
+      if (!best) continue;
+
+      const nameScore = Math.round(best.score * 1000) / 1000;
+      const dob = subject.kind === "individual" ? compareDob(subject.dob, entry.dobs) : "unknown";
+      const country = compareCountry(subject.country, entry.countries);
+      hits.push({
+        subjectKey: subject.subjectKey,
+        subjectName: subject.name,
+        subjectKind: subject.kind,
+        subjectRoles: subject.roles,
+        listSource: entry.listSource,
+        entryUid: entry.uid,
+        entryContentHash: entry.contentHash,
+        entryName: entry.name,
+        matchedName: best.name.name,
+        matchedOn: best.name.on,
+        nameScore,
+        dob,
+        country,
+        score: corroborated(nameScore, dob, country),
+        programs: entry.programs,
+      });
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score || a.entryUid.localeCompare(b.entryUid));
+}
+
+// ---------------------------------------------------------------------------
+// Dispositions
+// ---------------------------------------------------------------------------
+
+export type PriorHitDisposition = {
+  id: string;
+  subjectKey: string;
+  entryUid: string;
+  entryContentHash: string;
+  disposition: HitDisposition | null;
+  dispositionReasonCode: string | null;
+  dispositionNote: string | null;
+  dispositionedBy: string | null;
+  dispositionedAt: string | null;
+};
+
+export type CarriedDisposition = {
+  disposition: HitDisposition;
+  dispositionReasonCode: string | null;
+  dispositionNote: string | null;
+  dispositionedBy: string | null;
+  dispositionedAt: string | null;
+  carriedFromHitId: string;
+};
+
+/**
+ * On rescreen, a hit keeps its earlier disposition only if the same
+ * subject matched the same list entry and the entry is unchanged. An
+ * amended entry (new alias, DOB, address…) reopens the hit for review.
+ */
+export function carryForwardDisposition(
+  hit: Pick<ScreeningHit, "subjectKey" | "entryUid" | "entryContentHash">,
+  prior: PriorHitDisposition[],
+): CarriedDisposition | null {
+  const match = prior.find(
+    (p) =>
+      p.disposition &&
+      p.subjectKey === hit.subjectKey &&
+      p.entryUid === hit.entryUid &&
+      p.entryContentHash === hit.entryContentHash,
+  );
+  if (!match || !match.disposition) return null;
+  return {
+    disposition: match.disposition,
+    dispositionReasonCode: match.dispositionReasonCode,
+    dispositionNote: match.dispositionNote,
+    dispositionedBy: match.dispositionedBy,
+    dispositionedAt: match.dispositionedAt,
+    carriedFromHitId: match.id,
+  };
+}
+
+/**
+ * Validate a reviewer's disposition. Both outcomes need a note; a false
+ * positive also needs one of FALSE_POSITIVE_REASONS.
+ */
+export function validateHitDisposition(d: {
+  disposition: string;
+  reasonCode?: string | null;
+  note?: string | null;
+}): { ok: true } | { ok: false; error: string } {
+  if (d.disposition !== "true_match" && d.disposition !== "false_positive") {
+    return { ok: false, error: "invalid_disposition" };
+  }
+  if (!(d.note ?? "").trim()) return { ok: false, error: "disposition_requires_note" };
+  if (d.disposition === "false_positive" && !FALSE_POSITIVE_REASONS.includes(d.reasonCode as FalsePositiveReason)) {
+    return { ok: false, error: "false_positive_requires_reason_code" };
+  }
+  return { ok: true };
+}
+
+// ---------------------------------------------------------------------------
+// Gate
+// ---------------------------------------------------------------------------
+
+export type SanctionsGate = {
+  ready: boolean;
+  listsLoaded: boolean;
+  screened: boolean;
+  /** Latest screening used every currently active list version */
+  current: boolean;
+  /** Parties in the ownership graph now that the latest screening did not cover */
+  unscreenedSubjects: string[];
+  openHitCount: number;
+  trueMatchCount: number;
+  message: string | null;
+};
+
+/**
+ * Decision gate. Fails closed: with no lists loaded nothing can have been
+ * screened, so the gate stays shut until the bank loads its lists. The
+ * deal must have been screened against the current list versions, every
+ * party now in the
+ * ownership graph (`currentSubjects`, from buildScreeningSubjects) must
+ * have been among the screened subjects — an owner or guarantor added
+ * after the screening reopens it — and every hit must carry a
+ * disposition. A confirmed true match does not close the gate — it
+ * permits only a decline (enforced at finalize).
+ */
+export function evaluateSanctionsGate(input: {
+  activeListVersionIds: string[];
+  latestScreening: { listVersionIds: string[]; subjectKeys: string[] } | null;
+  currentSubjects: Array<Pick<ScreeningSubject, "subjectKey" | "name">>;
+  hits: Array<{ disposition: HitDisposition | null }>;
+}): SanctionsGate {
+  const listsLoaded = input.activeListVersionIds.length > 0;
+  const screened = input.latestScreening !== null;
+  const current =
+    screened && input.activeListVersionIds.every((id) => input.latestScreening!.listVersionIds.includes(id));
+  const screenedKeys = new Set(input.latestScreening?.subjectKeys ?? []);
+  const unscreenedSubjects = screened
+    ? input.currentSubjects.filter((s) => !screenedKeys.has(s.subjectKey)).map((s) => s.name)
+    : [];
+  const openHitCount = input.hits.filter((h) => !h.disposition).length;
+  const trueMatchCount = input.hits.filter((h) => h.disposition === "true_match").length;
+
+  let message: string | null = null;
+  if (!listsLoaded) message = "Sanctions lists are not loaded — load the bank's sanctions lists and screen the parties";
+  else if (!screened) message = "Parties have not been screened against the sanctions lists";
+  else if (!current) message = "Sanctions lists were reloaded since the last screening — rescreen the parties";
+  else if (unscreenedSubjects.length > 0) message = `${unscreenedSubjects.length} party(ies) added since the last screening — rescreen the parties`;
+  else if (openHitCount > 0) message = `${openHitCount} sanctions screening hit(s) need a disposition`;
+
+  return {
+    ready: message === null,
+    listsLoaded,
+    screened,
+    current,
+    unscreenedSubjects,
+    openHitCount,
+    trueMatchCount,
+    message,
+  };
+}
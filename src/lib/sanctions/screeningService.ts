@@ -0,0 +1,509 @@
+import "server-only";
+
+/**
+ * Sanctions screening orchestration.
+ *
+ * Collects a deal's parties from the ownership graph (borrower record,
+ * deal_entities, ownership_entities), screens them against the bank's
+ * active list versions, and records the run with its hits. Earlier
+ * dispositions carry forward onto unchanged hits; everything else opens
+ * for review. Loading a new list version queues a rescreen of every deal
+ * the bank has screened before; the sanctions-rescreen worker works
+ * through it in batches.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  DEFAULT_MATCH_THRESHOLD,
+  buildScreeningSubjects,
+  carryForwardDisposition,
+  evaluateSanctionsGate,
+  prepareWatchlist,
+  screenSubjects,
+  validateHitDisposition,
+  type HitDisposition,
+  type PreparedWatchlist,
+  type PriorHitDisposition,
+  type SanctionsGate,
+  type ScreeningRole,
+  type ScreeningSubject,
+  type SubjectSourceRow,
+} from "./screenParties";
+import { loadActiveWatchlist, loadActiveWatchlistVersionIds } from "./watchlistStore";
+
+export type SanctionsScreeningTrigger = "manual" | "list_reload";
+
+export type SanctionsScreeningRun = {
+  screeningId: string;
+  subjectCount: number;
+  hitCount: number;
+  openHitCount: number;
+};
+
+const ENTITY_ROLE: Record<string, ScreeningRole> = {
+  OPCO: "borrower",
+  PROPCO: "affiliate",
+  HOLDCO: "affiliate",
+  PERSON: "owner",
+};
+
+/** "Jane Roe (1998-2004); J. Smith" → ["Jane Roe", "J. Smith"] */
+function formerNames(raw: string | null | undefined): string[] {
+  return (raw ?? "")
+    .split(/[;\n]/)
+    .map((s) => s.replace(/\([^)]*\)/g, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Every entity and individual in the deal's ownership graph.
+ */
+export async function collectScreeningSubjectRows(dealId: string): Promise<SubjectSourceRow[]> {
+  const sb = supabaseAdmin();
+  const [{ data: deal, error: dealErr }, { data: story }, { data: entities, error: entErr }, { data: owners, error: ownErr }] =
+    await Promise.all([
+      sb.from("deals").select("borrower_id, borrower_name").eq("id", dealId).maybeSingle(),
+      sb.from("deal_borrower_story").select("legal_name, dba").eq("deal_id", dealId).maybeSingle(),
+      sb.from("deal_entities").select("entity_kind, name, legal_name").eq("deal_id", dealId).neq("entity_kind", "GROUP"),
+      sb
+        .from("ownership_entities")
+        .select("entity_type, display_name, date_of_birth, country_of_citizenship, home_address_state, former_names_and_dates_used, guarantee_limitation_type")
+        .eq("deal_id", dealId),
+    ]);
+  if (dealErr) throw new Error(`deals_select_failed:${dealErr.message}`);
+  if (entErr) throw new Error(`deal_entities_select_failed:${entErr.message}`);
+  if (ownErr) throw new Error(`ownership_entities_select_failed:${ownErr.message}`);
+
+  const rows: SubjectSourceRow[] = [];
+
+  let borrowerLegalName: string | null = null;
+  if ((deal as any)?.borrower_id) {
+    const { data: borrower } = await sb.from("borrowers").select("legal_name").eq("id", (deal as any).borrower_id).maybeSingle();
+    borrowerLegalName = (borrower as any)?.legal_name ?? null;
+  }
+  const borrowerName = borrowerLegalName ?? (story as any)?.legal_name ?? (deal as any)?.borrower_name ?? null;
+  if (borrowerName) {
+    rows.push({ kind: "entity", role: "borrower", name: borrowerName, aliases: [(story as any)?.dba] });
+  }
+
+  for (const e of (entities ?? []) as any[]) {
+    rows.push({
+      kind: e.entity_kind === "PERSON" ? "individual" : "entity",
+      role: ENTITY_ROLE[e.entity_kind] ?? "affiliate",
+      name: e.legal_name || e.name,
+      aliases: e.legal_name && e.name !== e.legal_name ? [e.name] : [],
+    });
+  }
+
+  for (const o of (owners ?? []) as any[]) {
+    const person = o.entity_type === "person";
+    rows.push({
+      kind: person ? "individual" : "entity",
+      role: !person ? "affiliate" : o.guarantee_limitation_type ? "guarantor" : "owner",
+      name: o.display_name,
+      aliases: formerNames(o.former_names_and_dates_used),
+      dob: o.date_of_birth ?? null,
+      country: o.country_of_citizenship ?? (o.home_address_state ? "United States" : null),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Screen a deal's parties and record the run.
+ *
+ * Pass `watchlist` to reuse one prepared list across many deals (rescreen).
+ */
+export async function runSanctionsScreening(args: {
+  dealId: string;
+  bankId: string;
+  trigger: SanctionsScreeningTrigger;
+  screenedBy?: string | null;
+  watchlist?: { versionIds: string[]; prepared: PreparedWatchlist };
+}): Promise<SanctionsScreeningRun> {
+  const sb = supabaseAdmin();
+
+  let watchlist = args.watchlist;
+  if (!watchlist) {
+    const active = await loadActiveWatchlist(args.bankId);
+    watchlist = { versionIds: active.versionIds, prepared: prepareWatchlist(active.entries) };
+  }
+  if (watchlist.versionIds.length === 0) throw new Error("no_active_watchlists");
+
+  const subjects = buildScreeningSubjects(await collectScreeningSubjectRows(args.dealId));
+  const hits = screenSubjects(subjects, watchlist.prepared, { threshold: DEFAULT_MATCH_THRESHOLD });
+
+  const { data: priorRows, error: priorErr } = await sb
+    .from("sanctions_screening_hits")
+    .select("id, subject_key, entry_uid, entry_content_hash, disposition, disposition_reason_code, disposition_note, dispositioned_by, dispositioned_at")
+    .eq("deal_id", args.dealId)
+    .not("disposition", "is", null)
+    .order("dispositioned_at", { ascending: false });
+  if (priorErr) throw new Error(`sanctions_screening_hits_select_failed:${priorErr.message}`);
+  const prior: PriorHitDisposition[] = ((priorRows ?? []) as any[]).map((r) => ({
+    id: r.id,
+    subjectKey: r.subject_key,
+    entryUid: r.entry_uid,
+    entryContentHash: r.entry_content_hash,
+    disposition: r.disposition,
+    dispositionReasonCode: r.disposition_reason_code,
+    dispositionNote: r.disposition_note,
+    dispositionedBy: r.dispositioned_by,
+    dispositionedAt: r.dispositioned_at,
+  }));
+
+  const { data: screening, error: screeningErr } = await sb
+    .from("sanctions_screenings")
+    .insert({
+      deal_id: args.dealId,
+      bank_id: args.bankId,
+      trigger: args.trigger,
+      list_version_ids: watchlist.versionIds,
+      subjects_json: subjects,
+      subject_count: subjects.length,
+      hit_count: hits.length,
+      threshold: DEFAULT_MATCH_THRESHOLD,
+      screened_by: args.screenedBy ?? null,
+    })
+    .select("id")
+    .single();
+  if (screeningErr || !screening) throw new Error(`sanctions_screenings_insert_failed:${screeningErr?.message}`);
+  const screeningId = (screening as any).id as string;
+
+  let openHitCount = 0;
+  if (hits.length > 0) {
+    const rows = hits.map((h) => {
+      const carried = carryForwardDisposition(h, prior);
+      if (!carried) openHitCount++;
+      return {
+        screening_id: screeningId,
+        deal_id: args.dealId,
+        bank_id: args.bankId,
+        subject_key: h.subjectKey,
+        subject_name: h.subjectName,
+        subject_kind: h.subjectKind,
+        subject_roles: h.subjectRoles,
+        list_source: h.listSource,
+        entry_uid: h.entryUid,
+        entry_content_hash: h.entryContentHash,
+        entry_name: h.entryName,
+        matched_name: h.matchedName,
+        matched_on: h.matchedOn,
+        name_score: h.nameScore,
+        dob_result: h.dob,
+        country_result: h.country,
+        score: h.score,
+        programs: h.programs,
+        disposition: carried?.disposition ?? null,
+        disposition_reason_code: carried?.dispositionReasonCode ?? null,
+        disposition_note: carried?.dispositionNote ?? null,
+        dispositioned_by: carried?.dispositionedBy ?? null,
+        dispositioned_at: carried?.dispositionedAt ?? null,
+        carried_from_hit_id: carried?.carriedFromHitId ?? null,
+      };
+    });
+    const { error: hitsErr } = await sb.from("sanctions_screening_hits").insert(rows);
+    if (hitsErr) throw new Error(`sanctions_screening_hits_insert_failed:${hitsErr.message}`);
+  }
+
+  // deal_events has no bank_id column; bank_id moves into payload.
+  await sb.from("deal_events").insert({
+    deal_id: args.dealId,
+    kind: "sanctions.screening_completed",
+    payload: {
+      bank_id: args.bankId,
+      screening_id: screeningId,
+      trigger: args.trigger,
+      subject_count: subjects.length,
+      hit_count: hits.length,
+      open_hit_count: openHitCount,
+    },
+  });
+
+  return { screeningId, subjectCount: subjects.length, hitCount: hits.length, openHitCount };
+}
+
+const SCREENING_PAGE = 1000;
+const MAX_RESCREEN_ATTEMPTS = 5;
+const RESCREEN_RETRY_BASE_MS = 5 * 60_000;
+
+type RescreenAttempt = { deal_id: string; attempt_count: number; next_attempt_at: string | null };
+
+async function loadRescreenAttempts(bankId: string): Promise<Map<string, RescreenAttempt>> {
+  const { data, error } = await supabaseAdmin()
+    .from("sanctions_rescreen_attempts")
+    .select("deal_id, attempt_count, next_attempt_at")
+    .eq("bank_id", bankId);
+  if (error) throw new Error(`sanctions_rescreen_attempts_select_failed:${error.message}`);
+  return new Map(((data ?? []) as RescreenAttempt[]).map((a) => [a.deal_id, a]));
+}
+
+/**
+ * Count a failed rescreen. Retries back off 5m, 10m, 20m …; after
+ * MAX_RESCREEN_ATTEMPTS the deal is no longer selected.
+ */
+async function recordRescreenFailure(
+  bankId: string,
+  dealId: string,
+  prior: RescreenAttempt | undefined,
+  message: string,
+  now: Date,
+): Promise<void> {
+  const attemptCount = (prior?.attempt_count ?? 0) + 1;
+  const { error } = await supabaseAdmin()
+    .from("sanctions_rescreen_attempts")
+    .upsert(
+      {
+        bank_id: bankId,
+        deal_id: dealId,
+        attempt_count: attemptCount,
+        last_error: message,
+        next_attempt_at:
+          attemptCount >= MAX_RESCREEN_ATTEMPTS
+            ? null
+            : new Date(now.getTime() + RESCREEN_RETRY_BASE_MS * 2 ** (attemptCount - 1)).toISOString(),
+        updated_at: now.toISOString(),
+      },
+      { onConflict: "bank_id,deal_id" },
+    );
+  if (error) throw new Error(`sanctions_rescreen_attempts_upsert_failed:${error.message}`);
+}
+
+/**
+ * Deals of the bank whose latest screening did not use every active list
+ * version, newest screening first, up to `limit`. Screenings are paged so
+ * a bank with more than one page of screening rows is fully covered.
+ * Deals past the attempt cap are counted as `exhausted`, deals still
+ * backing off as `waiting`; neither is returned.
+ */
+async function staleScreenedDealIds(
+  bankId: string,
+  activeListVersionIds: string[],
+  limit: number,
+  attempts: Map<string, RescreenAttempt>,
+  now: Date,
+): Promise<{ dealIds: string[]; waiting: number; exhausted: number }> {
+  const sb = supabaseAdmin();
+  const seen = new Set<string>();
+  const stale: string[] = [];
+  let waiting = 0;
+  let exhausted = 0;
+  for (let from = 0; stale.length < limit; from += SCREENING_PAGE) {
+    const { data, error } = await sb
+      .from("sanctions_screenings")
+      .select("deal_id, list_version_ids")
+      .eq("bank_id", bankId)
+      .order("screened_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(from, from + SCREENING_PAGE - 1);
+    if (error) throw new Error(`sanctions_screenings_select_failed:${error.message}`);
+    const rows = (data ?? []) as Array<{ deal_id: string; list_version_ids: string[] | null }>;
+    for (const r of rows) {
+      if (seen.has(r.deal_id)) continue;
+      seen.add(r.deal_id);
+      const used = r.list_version_ids ?? [];
+      if (activeListVersionIds.every((id) => used.includes(id))) continue;
+      const attempt = attempts.get(r.deal_id);
+      if (attempt && attempt.attempt_count >= MAX_RESCREEN_ATTEMPTS) exhausted++;
+      else if (attempt?.next_attempt_at && new Date(attempt.next_attempt_at) > now) waiting++;
+      else stale.push(r.deal_id);
+      if (stale.length >= limit) break;
+    }
+    if (rows.length < SCREENING_PAGE) break;
+  }
+  return { dealIds: stale, waiting, exhausted };
+}
+
+/**
+ * Rescreen, after a list version is loaded, the bank's previously screened
+ * deals that were not screened against its active versions — at most
+ * `limit` deals across all banks per call. A bank with no stale deal left
+ * to try (every one current, or past the attempt cap) has its active
+ * versions stamped rescreen_completed_at and drops out of the queue. One
+ * deal failing does not stop the others; it is retried with backoff.
+ */
+export async function processPendingSanctionsRescreens(args: {
+  limit: number;
+}): Promise<{
+  banks: number;
+  completedBanks: number;
+  rescreened: number;
+  failed: Array<{ dealId: string; error: string }>;
+  /** Stale deals skipped for good after MAX_RESCREEN_ATTEMPTS failures */
+  exhausted: number;
+}> {
+  const sb = supabaseAdmin();
+  const now = new Date();
+  const { data, error } = await sb
+    .from("sanctions_list_versions")
+    .select("bank_id")
+    .eq("active", true)
+    .is("rescreen_completed_at", null);
+  if (error) throw new Error(`sanctions_list_versions_select_failed:${error.message}`);
+  const bankIds = [...new Set(((data ?? []) as any[]).map((r) => r.bank_id as string))];
+
+  let remaining = args.limit;
+  let completedBanks = 0;
+  let rescreened = 0;
+  let exhausted = 0;
+  const failed: Array<{ dealId: string; error: string }> = [];
+  for (const bankId of bankIds) {
+    if (remaining <= 0) break;
+    const versionIds = await loadActiveWatchlistVersionIds(bankId);
+    const attempts = await loadRescreenAttempts(bankId);
+    const stale = await staleScreenedDealIds(bankId, versionIds, remaining, attempts, now);
+    const { dealIds } = stale;
+    exhausted += stale.exhausted;
+
+    if (dealIds.length === 0) {
+      if (stale.waiting > 0) continue;
+      const { error: doneErr } = await sb
+        .from("sanctions_list_versions")
+        .update({ rescreen_completed_at: new Date().toISOString() })
+        .eq("bank_id", bankId)
+        .eq("active", true)
+        .is("rescreen_completed_at", null);
+      if (doneErr) throw new Error(`sanctions_list_versions_update_failed:${doneErr.message}`);
+      completedBanks++;
+      continue;
+    }
+
+    const active = await loadActiveWatchlist(bankId);
+    const watchlist = { versionIds: active.versionIds, prepared: prepareWatchlist(active.entries) };
+    for (const dealId of dealIds) {
+      try {
+        await runSanctionsScreening({ dealId, bankId, trigger: "list_reload", watchlist });
+        rescreened++;
+        if (attempts.has(dealId)) {
+          await sb.from("sanctions_rescreen_attempts").delete().eq("bank_id", bankId).eq("deal_id", dealId);
+        }
+      } catch (err: any) {
+        const message = err?.message ?? String(err);
+        failed.push({ dealId, error: message });
+        await recordRescreenFailure(bankId, dealId, attempts.get(dealId), message, now);
+      }
+    }
+    remaining -= dealIds.length;
+  }
+  return { banks: bankIds.length, completedBanks, rescreened, failed, exhausted };
+}
+
+async function latestScreening(dealId: string): Promise<any | null> {
+  const { data, error } = await supabaseAdmin()
+    .from("sanctions_screenings")
+    .select("*")
+    .eq("deal_id", dealId)
+    .order("screened_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`sanctions_screenings_select_failed:${error.message}`);
+  return data ?? null;
+}
+
+async function screeningHits(screeningId: string): Promise<any[]> {
+  const { data, error } = await supabaseAdmin()
+    .from("sanctions_screening_hits")
+    .select("*")
+    .eq("screening_id", screeningId)
+    .order("score", { ascending: false });
+  if (error) throw new Error(`sanctions_screening_hits_select_failed:${error.message}`);
+  return data ?? [];
+}
+
+/**
+ * The deal's latest screening with its hits and the decision gate.
+ */
+export async function loadSanctionsScreening(
+  dealId: string,
+  bankId: string,
+): Promise<{ screening: any | null; hits: any[]; gate: SanctionsGate }> {
+  const [screening, activeListVersionIds, subjectRows] = await Promise.all([
+    latestScreening(dealId),
+    loadActiveWatchlistVersionIds(bankId),
+    collectScreeningSubjectRows(dealId),
+  ]);
+  const hits = screening ? await screeningHits(screening.id) : [];
+  const gate = evaluateSanctionsGate({
+    activeListVersionIds,
+    latestScreening: screening
+      ? {
+          listVersionIds: screening.list_version_ids ?? [],
+          subjectKeys: ((screening.subjects_json ?? []) as ScreeningSubject[]).map((s) => s.subjectKey),
+        }
+      : null,
+    currentSubjects: buildScreeningSubjects(subjectRows),
+    hits: hits.map((h) => ({ disposition: h.disposition ?? null })),
+  });
+  return { screening, hits, gate };
+}
+
+export async function getSanctionsScreeningGate(dealId: string, bankId: string): Promise<SanctionsGate> {
+  return (await loadSanctionsScreening(dealId, bankId)).gate;
+}
+
+/**
+ * Record a reviewer's disposition of a hit on the deal's latest
+ * screening. Dispositions are the audit record and are not edited; a
+ * later rescreen carries them forward or reopens the hit.
+ */
+export async function dispositionSanctionsHit(args: {
+  dealId: string;
+  bankId: string;
+  hitId: string;
+  disposition: HitDisposition;
+  reasonCode?: string | null;
+  note: string;
+  userId: string;
+}): Promise<Record<string, unknown>> {
+  const valid = validateHitDisposition(args);
+  if (!valid.ok) throw new Error(valid.error);
+
+  const sb = supabaseAdmin();
+  const { data: hit, error: hitErr } = await sb
+    .from("sanctions_screening_hits")
+    .select("id, screening_id, disposition, subject_key, entry_uid")
+    .eq("id", args.hitId)
+    .eq("deal_id", args.dealId)
+    .eq("bank_id", args.bankId)
+    .maybeSingle();
+  if (hitErr) throw new Error(`sanctions_screening_hits_select_failed:${hitErr.message}`);
+  if (!hit) throw new Error("hit_not_found");
+  if ((hit as any).disposition) throw new Error("already_dispositioned");
+
+  const latest = await latestScreening(args.dealId);
+  if (!latest || latest.id !== (hit as any).screening_id) throw new Error("hit_superseded");
+
+  const { data: updated, error } = await sb
+    .from("sanctions_screening_hits")
+    .update({
+      disposition: args.disposition,
+      disposition_reason_code: args.disposition === "false_positive" ? args.reasonCode : null,
+      disposition_note: args.note.trim(),
+      dispositioned_by: args.userId,
+      dispositioned_at: new Date().toISOString(),
+    })
+    .eq("id", args.hitId)
+    .is("disposition", null)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(`sanctions_screening_hits_update_failed:${error.message}`);
+  // Another reviewer dispositioned the hit between the read and the write.
+  if (!updated) throw new Error("already_dispositioned");
+
+  await sb.from("deal_events").insert({
+    deal_id: args.dealId,
+    kind: "sanctions.hit_dispositioned",
+    payload: {
+      bank_id: args.bankId,
+      hit_id: args.hitId,
+      subject_key: (hit as any).subject_key,
+      entry_uid: (hit as any).entry_uid,
+      disposition: args.disposition,
+      reason_code: args.disposition === "false_positive" ? args.reasonCode : null,
+      dispositioned_by: args.userId,
+    },
+  });
+
+  return updated as Record<string, unknown>;
+}
@@ -0,0 +1,200 @@
+import "server-only";
+
+/**
+ * Bank-loaded sanctions / watchlist versions.
+ *
+ * A version is written inactive, its entries inserted, and only then
+ * swapped in as the bank's active version of that list — a half-loaded
+ * file is never screened against. Loading a file identical to an earlier
+ * version re-activates that version instead of duplicating it. Activation
+ * leaves the version's rescreen pending for the sanctions-rescreen worker.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { WatchlistEntry, WatchlistSource } from "./parseWatchlistFile";
+
+const ENTRY_INSERT_CHUNK = 500;
+const ENTRY_PAGE = 1000;
+
+export type WatchlistVersion = {
+  id: string;
+  listSource: WatchlistSource;
+  fileFormat: string;
+  publishDate: string | null;
+  entryCount: number;
+  contentSha256: string;
+  active: boolean;
+  loadedBy: string | null;
+  loadedAt: string;
+};
+
+function toVersion(r: any): WatchlistVersion {
+  return {
+    id: r.id,
+    listSource: r.list_source,
+    fileFormat: r.file_format,
+    publishDate: r.publish_date ?? null,
+    entryCount: r.entry_count ?? 0,
+    contentSha256: r.content_sha256,
+    active: r.active === true,
+    loadedBy: r.loaded_by ?? null,
+    loadedAt: r.loaded_at,
+  };
+}
+
+async function activate(bankId: string, listSource: WatchlistSource, versionId: string): Promise<void> {
+  const sb = supabaseAdmin();
+  const { error: offErr } = await sb
+    .from("sanctions_list_versions")
+    .update({ active: false })
+    .eq("bank_id", bankId)
+    .eq("list_source", listSource)
+    .neq("id", versionId);
+  if (offErr) throw new Error(`sanctions_list_versions_update_failed:${offErr.message}`);
+
+  const { error: onErr } = await sb
+    .from("sanctions_list_versions")
+    .update({ active: true, rescreen_completed_at: null })
+    .eq("id", versionId);
+  if (onErr) throw new Error(`sanctions_list_versions_update_failed:${onErr.message}`);
+
+  // A new version is a fresh rescreen: deals that gave up before get retried.
+  const { error: resetErr } = await sb.from("sanctions_rescreen_attempts").delete().eq("bank_id", bankId);
+  if (resetErr) throw new Error(`sanctions_rescreen_attempts_delete_failed:${resetErr.message}`);
+}
+
+/**
+ * Store a parsed list file as the bank's active version of that list.
+ * `activated` is false only when the identical file is already active.
+ */
+export async function recordWatchlistVersion(args: {
+  bankId: string;
+  listSource: WatchlistSource;
+  fileFormat: "ofac_csv" | "watchlist_csv";
+  entries: WatchlistEntry[];
+  contentSha256: string;
+  publishDate?: string | null;
+  loadedBy?: string | null;
+}): Promise<{ version: WatchlistVersion; activated: boolean; reused: boolean }> {
+  const sb = supabaseAdmin();
+
+  const { data: existing, error: existingErr } = await sb
+    .from("sanctions_list_versions")
+    .select("*")
+    .eq("bank_id", args.bankId)
+    .eq("list_source", args.listSource)
+    .eq("content_sha256", args.contentSha256)
+    .maybeSingle();
+  if (existingErr) throw new Error(`sanctions_list_versions_select_failed:${existingErr.message}`);
+
+  if (existing) {
+    if ((existing as any).active) return { version: toVersion(existing), activated: false, reused: true };
+    await activate(args.bankId, args.listSource, (existing as any).id);
+    return { version: { ...toVersion(existing), active: true }, activated: true, reused: true };
+  }
+
+  const { data: version, error: versionErr } = await sb
+    .from("sanctions_list_versions")
+    .insert({
+      bank_id: args.bankId,
+      list_source: args.listSource,
+      file_format: args.fileFormat,
+      publish_date: args.publishDate ?? null,
+      entry_count: args.entries.length,
+      content_sha256: args.contentSha256,
+      active: false,
+      loaded_by: args.loadedBy ?? null,
+    })
+    .select("*")
+    .single();
+  if (versionErr || !version) throw new Error(`sanctions_list_versions_insert_failed:${versionErr?.message}`);
+
+  const versionId = (version as any).id as string;
+  for (let i = 0; i < args.entries.length; i += ENTRY_INSERT_CHUNK) {
+    const chunk = args.entries.slice(i, i + ENTRY_INSERT_CHUNK).map((e) => ({
+      list_version_id: versionId,
+      bank_id: args.bankId,
+      list_source: e.listSource,
+      entry_uid: e.uid,
+      entity_type: e.entityType,
+      primary_name: e.name,
+      aliases: e.aliases,
+      dobs: e.dobs,
+      countries: e.countries,
+      addresses: e.addresses,
+      programs: e.programs,
+      remarks: e.remarks,
+      content_hash: e.contentHash,
+    }));
+    const { error } = await sb.from("sanctions_list_entries").insert(chunk);
+    if (error) {
+      await sb.from("sanctions_list_versions").delete().eq("id", versionId);
+      throw new Error(`sanctions_list_entries_insert_failed:${error.message}`);
+    }
+  }
+
+  await activate(args.bankId, args.listSource, versionId);
+  return { version: { ...toVersion(version), active: true }, activated: true, reused: false };
+}
+
+export async function listWatchlistVersions(bankId: string, limit = 50): Promise<WatchlistVersion[]> {
+  const { data, error } = await supabaseAdmin()
+    .from("sanctions_list_versions")
+    .select("*")
+    .eq("bank_id", bankId)
+    .order("loaded_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`sanctions_list_versions_select_failed:${error.message}`);
+  return (data ?? []).map(toVersion);
+}
+
+export async function loadActiveWatchlistVersionIds(bankId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin()
+    .from("sanctions_list_versions")
+    .select("id")
+    .eq("bank_id", bankId)
+    .eq("active", true);
+  if (error) throw new Error(`sanctions_list_versions_select_failed:${error.message}`);
+  return (data ?? []).map((r: any) => r.id as string).sort();
+}
+
+/**
+ * Every entry of the bank's active list versions.
+ */
+export async function loadActiveWatchlist(
+  bankId: string,
+): Promise<{ versionIds: string[]; entries: WatchlistEntry[] }> {
+  const sb = supabaseAdmin();
+  const versionIds = await loadActiveWatchlistVersionIds(bankId);
+  const entries: WatchlistEntry[] = [];
+
+  for (const versionId of versionIds) {
+    for (let from = 0; ; from += ENTRY_PAGE) {
+      const { data, error } = await sb
+        .from("sanctions_list_entries")
+        .select("list_source, entry_uid, entity_type, primary_name, aliases, dobs, countries, addresses, programs, remarks, content_hash")
+        .eq("list_version_id", versionId)
+        .order("entry_uid", { ascending: true })
+        .range(from, from + ENTRY_PAGE - 1);
+      if (error) throw new Error(`sanctions_list_entries_select_failed:${error.message}`);
+      for (const r of (data ?? []) as any[]) {
+        entries.push({
+          uid: r.entry_uid,
+          listSource: r.list_source,
+          entityType: r.entity_type,
+          name: r.primary_name,
+          aliases: r.aliases ?? [],
+          dobs: r.dobs ?? [],
+          countries: r.countries ?? [],
+          addresses: r.addresses ?? [],
+          programs: r.programs ?? [],
+          remarks: r.remarks ?? null,
+          contentHash: r.content_hash,
+        });
+      }
+      if (!data || data.length < ENTRY_PAGE) break;
+    }
+  }
+
+  return { versionIds, entries };
+}
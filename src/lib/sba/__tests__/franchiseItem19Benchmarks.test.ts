@@ -0,0 +1,144 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildUnitProjectionMetrics } from "../sbaForwardModelBuilder";
+import {
+  classifyItem19Metric,
+  cohortOperatingYear,
+  validateAgainstFranchiseItem19,
+  type Item19FactRow,
+} from "../sbaAssumptionsValidator";
+import type { AnnualProjectionYear, UnitProjectionMetrics } from "../sbaReadinessTypes";
+
+function row(over: Partial<Item19FactRow> & Pick<Item19FactRow, "metric_name" | "value">): Item19FactRow {
+  return {
+    filing_id: "filing-2025",
+    filing_year: 2025,
+    metric_type: "currency",
+    cohort_definition: "All franchised outlets open full year 2024",
+    cohort_size: 212,
+    percentile_rank: null,
+    source_page: 4,
+    pdf_page: 61,
+    ...over,
+  };
+}
+
+// Brand publishes an all-outlet ladder plus a first-year ramp cohort.
+const ITEM19: Item19FactRow[] = [
+  row({ metric_name: "GROSS_SALES", value: 700_000, percentile_rank: 0.25 }),
+  row({ metric_name: "MEDIAN_GROSS_REVENUE", value: 921_000 }),
+  row({ metric_name: "GROSS_SALES", value: 1_180_000, percentile_rank: 0.75 }),
+  row({ metric_name: "GROSS_SALES", value: 1_500_000, percentile_rank: 0.9, pdf_page: 62 }),
+  row({ metric_name: "GROSS_SALES", value: 520_000, percentile_rank: 0.5, cohort_definition: "Outlets in first full year of operation", cohort_size: 31, pdf_page: 63 }),
+  row({ metric_name: "GROSS_SALES", value: 640_000, percentile_rank: 0.75, cohort_definition: "Outlets in first full year of operation", cohort_size: 31, pdf_page: 63 }),
+  row({ metric_name: "COGS_PCT", metric_type: "percentage", value: 29, percentile_rank: 25, pdf_page: 64 }),
+  row({ metric_name: "COGS_PCT", metric_type: "percentage", value: 32, percentile_rank: 50, pdf_page: 64 }),
+  // Older filing — superseded by the 2025 ladder
+  row({ metric_name: "GROSS_SALES", value: 10, percentile_rank: 0.75, filing_year: 2023, filing_id: "filing-2023" }),
+];
+
+const unit = (year: 1 | 2 | 3, unitRevenue: number, cogsPct = 0.31): UnitProjectionMetrics => ({
+  year,
+  unitRevenue,
+  grossMarginPct: 1 - cogsPct,
+  ebitdaMarginPct: 0.12,
+  cogsPct,
+});
+
+test("classifyItem19Metric / cohortOperatingYear map extractor vocabulary", () => {
+  assert.equal(classifyItem19Metric("AVERAGE_UNIT_VOLUME"), "unitRevenue");
+  assert.equal(classifyItem19Metric("MEDIAN_GROSS_REVENUE"), "unitRevenue");
+  assert.equal(classifyItem19Metric("COGS_PCT"), "cogsPct");
+  assert.equal(classifyItem19Metric("EBITDA_MARGIN"), "ebitdaMarginPct");
+  assert.equal(classifyItem19Metric("LABOR_PCT"), null);
+  assert.equal(classifyItem19Metric("NET_INCOME"), null);
+
+  assert.equal(cohortOperatingYear("Outlets in first full year of operation"), 1);
+  assert.equal(cohortOperatingYear("Units open 2+ years"), 2);
+  assert.equal(cohortOperatingYear("Units in their 3rd year"), 3);
+  assert.equal(cohortOperatingYear("All franchised outlets"), null);
+});
+
+test("existing business: flags years above the all-outlet 75th percentile and cites the PDF page", () => {
+  const warnings = validateAgainstFranchiseItem19(
+    [unit(1, 1_100_000), unit(2, 1_250_000), unit(3, 1_600_000)],
+    ITEM19,
+    { brandName: "Acme Burger", isNewBusiness: false },
+  );
+  const revenue = warnings.filter((w) => w.field.startsWith("franchiseItem19.unitRevenue"));
+  assert.deepEqual(revenue.map((w) => [w.field, w.severity]), [
+    ["franchiseItem19.unitRevenueYear2", "warning"],
+    ["franchiseItem19.unitRevenueYear3", "concern"],
+  ]);
+  assert.match(revenue[0].message, /above the 75th percentile \(\$1,180,000; median \$921,000\)/);
+  assert.match(revenue[0].message, /FDD Item 19, 2025 filing, p\. 61/);
+  assert.equal(revenue[0].evidence?.pdfPage, 61);
+  assert.equal(revenue[0].evidence?.filingId, "filing-2025");
+  assert.equal(revenue[0].evidence?.percentileRank, 0.75);
+});
+
+test("new business: Year 1 is judged against the first-year ramp cohort", () => {
+  const warnings = validateAgainstFranchiseItem19(
+    [unit(1, 700_000), unit(2, 900_000)],
+    ITEM19,
+    { brandName: "Acme Burger", isNewBusiness: true },
+  );
+  const y1 = warnings.find((w) => w.field === "franchiseItem19.unitRevenueYear1");
+  assert.ok(y1);
+  assert.match(y1.message, /during ramp-up/);
+  assert.match(y1.message, /"Outlets in first full year of operation" \(n=31\)/);
+  assert.equal(y1.evidence?.pdfPage, 63);
+  // No 2-year cohort is published, so Year 2 is still judged against the
+  // first-year ladder (nearest age not exceeding the projection year).
+  assert.ok(warnings.some((w) => w.field === "franchiseItem19.unitRevenueYear2"));
+});
+
+test("cost ratios flag on the low side; whole-number percents are normalized", () => {
+  const warnings = validateAgainstFranchiseItem19([unit(1, 800_000, 0.24)], ITEM19, {
+    brandName: "Acme Burger",
+    isNewBusiness: false,
+  });
+  const cogs = warnings.find((w) => w.field === "franchiseItem19.cogsPctYear1");
+  assert.ok(cogs);
+  assert.match(cogs.message, /COGS of 24\.0% is below the 25th percentile \(29\.0%; median 32\.0%\)/);
+  assert.equal(cogs.evidence?.pdfPage, 64);
+});
+
+test("no percentile data -> no findings; missing pdf_page is stated, not guessed", () => {
+  assert.deepEqual(
+    validateAgainstFranchiseItem19([unit(1, 5_000_000)], [row({ metric_name: "AVERAGE_GROSS_REVENUE", value: 900_000 })], {
+      brandName: "Acme Burger",
+      isNewBusiness: false,
+    }),
+    [],
+  );
+  const [w] = validateAgainstFranchiseItem19(
+    [unit(1, 5_000_000)],
+    [row({ metric_name: "GROSS_SALES", value: 1_000_000, percentile_rank: 0.75, pdf_page: null })],
+    { brandName: "Acme Burger", isNewBusiness: false },
+  );
+  assert.match(w.message, /2025 filing, page not recorded/);
+});
+
+test("buildUnitProjectionMetrics: per-unit revenue, ratios unchanged by unit count", () => {
+  const year = (y: 0 | 1 | 2 | 3, revenue: number): AnnualProjectionYear => ({
+    year: y,
+    label: y === 0 ? "Actual" : "Projected",
+    revenue,
+    cogs: revenue * 0.3,
+    grossProfit: revenue * 0.7,
+    grossMarginPct: 0.7,
+    operatingExpenses: revenue * 0.5,
+    ebitda: revenue * 0.2,
+    depreciation: 0,
+    ebit: revenue * 0.2,
+    interestExpense: 0,
+    taxEstimate: 0,
+    netIncome: 0,
+    totalDebtService: 1,
+    dscr: 1,
+  });
+  const metrics = buildUnitProjectionMetrics([year(1, 2_000_000), year(2, 2_200_000)], 2);
+  assert.deepEqual(metrics[0], { year: 1, unitRevenue: 1_000_000, grossMarginPct: 0.7, ebitdaMarginPct: 0.2, cogsPct: 0.3 });
+  assert.equal(metrics[1].unitRevenue, 1_100_000);
+});
@@ -16,6 +16,21 @@ export interface BenchmarkWarning {
   benchmarkLow: number;
   benchmarkHigh: number;
   naicsCode?: string;
+  /** Set when the benchmark is a brand's FDD Item 19 cohort rather than NAICS. */
+  evidence?: Item19Evidence;
+}
+
+export interface Item19Evidence {
+  source: "fdd_item19";
+  filingId: string | null;
+  filingYear: number;
+  metricName: string;
+  cohortDefinition: string | null;
+  cohortSize: number | null;
+  percentileRank: number;
+  value: number;
+  /** Page in the full FDD PDF; null for facts extracted before pdf_page existed. */
+  pdfPage: number | null;
 }
 
 export interface NAICSBenchmark {
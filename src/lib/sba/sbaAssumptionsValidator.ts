@@ -1,4 +1,9 @@
-import type { SBAAssumptions, PreflightResult } from "./sbaReadinessTypes";
+import type {
+  SBAAssumptions,
+  PreflightResult,
+  UnitProjectionMetrics,
+} from "./sbaReadinessTypes";
+import type { BenchmarkWarning } from "./sbaAssumptionBenchmarks";
 
 export function validateSBAAssumptions(a: SBAAssumptions): PreflightResult {
   const blockers: string[] = [];
@@ -64,3 +69,232 @@ export function computeAssumptionsCompletionPct(
   if ((a.managementTeam?.length ?? 0) > 0) filled++;
   return Math.round((filled / total) * 100);
 }
+
+// ─── Franchise Item 19 benchmarking ───────────────────────────────────────────
+// Advisory, like validateAgainstBenchmarks: a projection above what 75% of
+// the brand's reporting outlets achieved is flagged with the FDD page that
+// discloses the cohort, never blocked.
+
+/** Row shape of fdd_item19_facts as read by the SBA package pipeline. */
+export interface Item19FactRow {
+  filing_id: string | null;
+  filing_year: number;
+  metric_name: string;
+  metric_type: string;
+  value: number;
+  cohort_definition: string | null;
+  cohort_size: number | null;
+  percentile_rank: number | null;
+  source_page: number | null;
+  pdf_page: number | null;
+}
+
+type Item19Measure = "unitRevenue" | "grossMarginPct" | "ebitdaMarginPct" | "cogsPct";
+
+const MEASURE_LABEL: Record<Item19Measure, string> = {
+  unitRevenue: "unit revenue",
+  grossMarginPct: "gross margin",
+  ebitdaMarginPct: "EBITDA margin",
+  cogsPct: "COGS",
+};
+
+/** Cost ratios are optimistic when low; everything else when high. */
+const LOWER_IS_OPTIMISTIC: Record<Item19Measure, boolean> = {
+  unitRevenue: false,
+  grossMarginPct: false,
+  ebitdaMarginPct: false,
+  cogsPct: true,
+};
+
+/**
+ * Map an extractor metric_name onto a projection measure. The extractor's
+ * prompt suggests a vocabulary (AVERAGE_UNIT_VOLUME, COGS_PCT, ...) but lets
+ * the model invent similar names, so match on stems.
+ */
+export function classifyItem19Metric(metricName: string): Item19Measure | null {
+  const n = metricName.toUpperCase();
+  if (/(COGS|COST_OF_(GOODS|SALES))/.test(n)) return /(PCT|PERCENT|RATIO)/.test(n) ? "cogsPct" : null;
+  if (/GROSS_(PROFIT_)?MARGIN/.test(n)) return "grossMarginPct";
+  if (/EBITDA_(MARGIN|PCT)/.test(n)) return "ebitdaMarginPct";
+  if (/(PCT|PERCENT|MARGIN|COUNT)/.test(n)) return null;
+  if (/(UNIT_VOLUME|^AUV|GROSS_REVENUE|GROSS_SALES|NET_SALES|NET_REVENUE|TOTAL_REVENUE|^REVENUE$|_REVENUE$)/.test(n)) {
+    return "unitRevenue";
+  }
+  return null;
+}
+
+/**
+ * Outlet age a cohort describes, when the FDD splits cohorts by age (the
+ * brand's ramp curve): "first full year of operation" -> 1, "units open 2+
+ * years" -> 2. Null for all-outlet cohorts.
+ */
+export function cohortOperatingYear(definition: string | null): number | null {
+  if (!definition) return null;
+  const d = definition.toLowerCase();
+  if (/first (full )?(calendar |operating |fiscal )?year|year one|\byear 1\b|(less than|under|fewer than) (one|1|12)\b/.test(d)) {
+    return 1;
+  }
+  const ordinal = d.match(/\b(\d+)(st|nd|rd|th) (full )?(calendar |operating )?year/);
+  if (ordinal) return Number(ordinal[1]);
+  const open = d.match(/(\d+)\s*\+?\s*(or more\s+)?(full\s+)?(calendar\s+)?(years?|yrs?)/);
+  if (open && /(open|operat|in operation|or more|\+|at least)/.test(d)) return Number(open[1]);
+  return null;
+}
+
+type Item19Ladder = {
+  measure: Item19Measure;
+  cohortDefinition: string | null;
+  cohortSize: number | null;
+  operatingYear: number | null;
+  points: Array<{ percentile: number; value: number; row: Item19FactRow }>;
+};
+
+function normalizePercentile(row: Item19FactRow): number | null {
+  if (row.percentile_rank != null) {
+    return row.percentile_rank > 1 ? row.percentile_rank / 100 : row.percentile_rank;
+  }
+  return /^MEDIAN_/i.test(row.metric_name) ? 0.5 : null;
+}
+
+function normalizeValue(row: Item19FactRow, measure: Item19Measure): number {
+  // The extractor is asked for 0.32 not 32, but a percentage above 1.5
+  // can only be a whole-number percent.
+  return measure !== "unitRevenue" && row.value > 1.5 ? row.value / 100 : row.value;
+}
+
+/** Percentile ladders per (measure, cohort) from the brand's latest filing year. */
+function buildItem19Ladders(rows: Item19FactRow[]): Item19Ladder[] {
+  const usable = rows.filter(
+    (r) => classifyItem19Metric(r.metric_name) && normalizePercentile(r) !== null && Number.isFinite(r.value),
+  );
+  if (usable.length === 0) return [];
+  const latestYear = Math.max(...usable.map((r) => r.filing_year));
+
+  const ladders = new Map<string, Item19Ladder>();
+  for (const row of usable.filter((r) => r.filing_year === latestYear)) {
+    const measure = classifyItem19Metric(row.metric_name)!;
+    const key = `${measure}|${row.cohort_definition ?? ""}`;
+    let ladder = ladders.get(key);
+    if (!ladder) {
+      ladder = {
+        measure,
+        cohortDefinition: row.cohort_definition,
+        cohortSize: row.cohort_size,
+        operatingYear: cohortOperatingYear(row.cohort_definition),
+        points: [],
+      };
+      ladders.set(key, ladder);
+    }
+    const percentile = normalizePercentile(row)!;
+    if (ladder.points.some((p) => p.percentile === percentile)) continue;
+    ladder.points.push({ percentile, value: normalizeValue(row, measure), row });
+    ladder.cohortSize = ladder.cohortSize ?? row.cohort_size;
+  }
+  for (const ladder of ladders.values()) ladder.points.sort((a, b) => a.percentile - b.percentile);
+  return [...ladders.values()];
+}
+
+/**
+ * Cohort a projection year is judged against. A new business is compared
+ * to outlets of the same age where the FDD reports a ramp (Year 1 against
+ * first-year units); an operating business against the all-outlet cohort.
+ */
+function pickLadder(
+  ladders: Item19Ladder[],
+  measure: Item19Measure,
+  year: number,
+  isNewBusiness: boolean,
+): Item19Ladder | null {
+  const threshold = LOWER_IS_OPTIMISTIC[measure] ? 0.25 : 0.75;
+  const candidates = ladders.filter(
+    (l) => l.measure === measure && l.points.some((p) => p.percentile === threshold),
+  );
+  const bySize = (a: Item19Ladder, b: Item19Ladder) => (b.cohortSize ?? 0) - (a.cohortSize ?? 0);
+  const allOutlets = candidates.filter((l) => l.operatingYear === null).sort(bySize);
+  const aged = candidates.filter((l) => l.operatingYear !== null);
+
+  if (isNewBusiness) {
+    const sameAge = aged
+      .filter((l) => l.operatingYear! <= year)
+      .sort((a, b) => b.operatingYear! - a.operatingYear! || bySize(a, b));
+    return sameAge[0] ?? allOutlets[0] ?? null;
+  }
+  return allOutlets[0] ?? aged.sort((a, b) => b.operatingYear! - a.operatingYear!)[0] ?? null;
+}
+
+function fmtMeasure(measure: Item19Measure, v: number): string {
+  return measure === "unitRevenue"
+    ? `$${Math.round(v).toLocaleString("en-US")}`
+    : `${(v * 100).toFixed(1)}%`;
+}
+
+function citeItem19(row: Item19FactRow): string {
+  const page = row.pdf_page != null ? `p. ${row.pdf_page}` : "page not recorded";
+  return `FDD Item 19, ${row.filing_year} filing, ${page}`;
+}
+
+/**
+ * Compare per-unit projections against the brand's FDD Item 19 percentile
+ * cohorts. Flags any year whose unit revenue or margin beats the 75th
+ * percentile outlet (or whose COGS undercuts the 25th percentile), citing
+ * the page that discloses the threshold.
+ */
+export function validateAgainstFranchiseItem19(
+  unitMetrics: UnitProjectionMetrics[],
+  item19Rows: Item19FactRow[],
+  opts: { brandName: string; isNewBusiness: boolean },
+): BenchmarkWarning[] {
+  const ladders = buildItem19Ladders(item19Rows);
+  if (ladders.length === 0) return [];
+
+  const warnings: BenchmarkWarning[] = [];
+  const measures: Item19Measure[] = ["unitRevenue", "grossMarginPct", "ebitdaMarginPct", "cogsPct"];
+
+  for (const m of unitMetrics) {
+    for (const measure of measures) {
+      const ladder = pickLadder(ladders, measure, m.year, opts.isNewBusiness);
+      if (!ladder) continue;
+
+      const lower = LOWER_IS_OPTIMISTIC[measure];
+      const threshold = ladder.points.find((p) => p.percentile === (lower ? 0.25 : 0.75))!;
+      const projected = m[measure];
+      const beyond = lower ? projected < threshold.value : projected > threshold.value;
+      if (!beyond) continue;
+
+      const median = ladder.points.find((p) => p.percentile === 0.5);
+      const extreme = lower ? ladder.points[0] : ladder.points[ladder.points.length - 1];
+      const beyondTop =
+        (lower ? extreme.percentile <= 0.1 : extreme.percentile >= 0.9) &&
+        (lower ? projected < extreme.value : projected > extreme.value);
+
+      const cohort = ladder.cohortDefinition ? `"${ladder.cohortDefinition}"` : "all reporting outlets";
+      const n = ladder.cohortSize != null ? ` (n=${ladder.cohortSize})` : "";
+      const ramp = opts.isNewBusiness && ladder.operatingYear !== null ? " during ramp-up" : "";
+      const rank = lower ? "below the 25th percentile" : "above the 75th percentile";
+      const medianText = median ? `; median ${fmtMeasure(measure, median.value)}` : "";
+
+      warnings.push({
+        field: `franchiseItem19.${measure}Year${m.year}`,
+        severity: beyondTop ? "concern" : "warning",
+        message:
+          `Year ${m.year} ${MEASURE_LABEL[measure]} of ${fmtMeasure(measure, projected)}${ramp} is ${rank} ` +
+          `(${fmtMeasure(measure, threshold.value)}${medianText}) for ${opts.brandName} ${cohort}${n} — ${citeItem19(threshold.row)}.`,
+        actual: projected,
+        benchmarkLow: lower ? threshold.value : (ladder.points[0]?.value ?? 0),
+        benchmarkHigh: lower ? (ladder.points[ladder.points.length - 1]?.value ?? threshold.value) : threshold.value,
+        evidence: {
+          source: "fdd_item19",
+          filingId: threshold.row.filing_id,
+          filingYear: threshold.row.filing_year,
+          metricName: threshold.row.metric_name,
+          cohortDefinition: ladder.cohortDefinition,
+          cohortSize: ladder.cohortSize,
+          percentileRank: threshold.percentile,
+          value: threshold.value,
+          pdfPage: threshold.row.pdf_page,
+        },
+      });
+    }
+  }
+  return warnings;
+}
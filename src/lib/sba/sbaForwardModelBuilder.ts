@@ -6,6 +6,7 @@ import type {
   RevenueStream,
   RevenueStreamProjection,
   SensitivityScenario,
+  UnitProjectionMetrics,
   UseOfProceedsLine,
 } from "./sbaReadinessTypes";
 import { dscr as finengineDscr } from "@/lib/finengine/metrics/ratios";
@@ -252,6 +253,27 @@ export function buildAnnualProjections(
   return years;
 }
 
+/**
+ * Projected Years 1–3 restated per outlet. Assumptions describe the whole
+ * borrower, so a multi-unit franchisee's revenue is divided across units;
+ * ratios are unchanged by the unit count.
+ */
+export function buildUnitProjectionMetrics(
+  projections: AnnualProjectionYear[],
+  unitCount: number = 1,
+): UnitProjectionMetrics[] {
+  const units = unitCount > 0 ? unitCount : 1;
+  return projections
+    .filter((p) => p.year >= 1)
+    .map((p) => ({
+      year: p.year as 1 | 2 | 3,
+      unitRevenue: p.revenue / units,
+      grossMarginPct: p.grossMarginPct,
+      ebitdaMarginPct: p.revenue > 0 ? p.ebitda / p.revenue : 0,
+      cogsPct: p.revenue > 0 ? p.cogs / p.revenue : 0,
+    }));
+}
+
 /** Pass 4 (continued): monthly CF for Year 1 */
 export function buildMonthlyProjections(
   assumptions: SBAAssumptions,
@@ -523,7 +523,10 @@ export async function generateFranchiseSection(params: {
   fddItem7Min?: number;
   fddItem7Max?: number;
   fddItem19Avg?: number;
+  /** Units this borrower operates or will operate */
   unitCount?: number;
+  /** Brand's system-wide outlet count */
+  systemUnitCount?: number;
   territoryDescription?: string;
 }): Promise<string> {
   const prompt = `You are writing the Franchise section of an SBA business plan.
@@ -534,7 +537,8 @@ Borrower: ${params.dealName}
 Franchise brand: ${params.franchiseBrand}
 FDD Item 7 initial investment range: ${params.fddItem7Min ? `$${params.fddItem7Min.toLocaleString()}` : "Not provided"} - ${params.fddItem7Max ? `$${params.fddItem7Max.toLocaleString()}` : "Not provided"}
 FDD Item 19 representative unit average: ${params.fddItem19Avg ? `$${params.fddItem19Avg.toLocaleString()}` : "Not provided"}
-Unit count: ${params.unitCount ?? "Not provided"}
+Borrower's unit count: ${params.unitCount ?? "Not provided"}
+Brand system-wide unit count: ${params.systemUnitCount ?? "Not provided"}
 Territory: ${params.territoryDescription ?? "Not provided"}
 
 Return ONLY valid JSON:
@@ -1,7 +1,11 @@
 import "server-only";
 
 import { supabaseAdmin } from "@/lib/supabase/admin";
-import { validateSBAAssumptions } from "./sbaAssumptionsValidator";
+import {
+  validateSBAAssumptions,
+  validateAgainstFranchiseItem19,
+  type Item19FactRow,
+} from "./sbaAssumptionsValidator";
 import {
   buildBaseYear,
   buildAnnualProjections,
@@ -9,6 +13,7 @@ import {
   buildRevenueStreamProjections,
   computeBreakEven,
   buildSensitivityScenarios,
+  buildUnitProjectionMetrics,
   buildUseOfProceeds,
 } from "./sbaForwardModelBuilder";
 import { calculateSBAGuarantee, detectSBAProgram } from "./sbaGuarantee";
@@ -694,10 +699,15 @@ export async function generateSBAPackage(
   try {
     const { data: franchiseLink } = await sb
       .from("deal_franchises")
-      .select("brand_id")
+      .select("brand_id, unit_count")
       .eq("deal_id", dealId)
       .maybeSingle();
-    const franchiseBrandId = (franchiseLink as { brand_id?: string } | null)?.brand_id ?? null;
+    const link = franchiseLink as { brand_id?: string; unit_count?: number | null } | null;
+    const franchiseBrandId = link?.brand_id ?? null;
+    // The borrower's own outlets — franchise_brands.unit_count is the
+    // brand's system-wide count and must not be used to restate the
+    // projection per unit.
+    const borrowerUnitCount = link?.unit_count ?? 1;
 
     if (franchiseBrandId) {
       const { data: brandRow } = await sb
@@ -723,13 +733,33 @@ export async function generateSBAPackage(
           item19Avg = (item19Row as { value?: number } | null)?.value ?? undefined;
         }
 
+        // Item 19 percentile cohorts vs. this borrower's per-unit projection.
+        // Flags land in benchmark_warnings with the FDD page as evidence.
+        if (brandRow.has_item_19) {
+          const { data: item19Rows } = await sb
+            .from("fdd_item19_facts")
+            .select(
+              "filing_id, filing_year, metric_name, metric_type, value, cohort_definition, cohort_size, percentile_rank, source_page, pdf_page",
+            )
+            .eq("brand_id", franchiseBrandId)
+            .order("filing_year", { ascending: false });
+          benchmarkWarnings.push(
+            ...validateAgainstFranchiseItem19(
+              buildUnitProjectionMetrics(annualProjections, borrowerUnitCount),
+              (item19Rows as Item19FactRow[] | null) ?? [],
+              { brandName: brandRow.brand_name, isNewBusiness },
+            ),
+          );
+        }
+
         franchiseSection = await generateFranchiseSection({
           dealName: deal?.name ?? "Borrower",
           franchiseBrand: brandRow.brand_name,
           fddItem7Min: brandRow.initial_investment_min ?? undefined,
           fddItem7Max: brandRow.initial_investment_max ?? undefined,
           fddItem19Avg: item19Avg,
-          unitCount: brandRow.unit_count ?? undefined,
+          unitCount: link?.unit_count ?? undefined,
+          systemUnitCount: brandRow.unit_count ?? undefined,
         });
       }
     }
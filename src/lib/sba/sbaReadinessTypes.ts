@@ -118,6 +118,19 @@ export interface AnnualProjectionYear {
   revenueGrowthPct?: number; // undefined for year 0
 }
 
+/**
+ * Per-unit view of a projected year, for comparing a franchise borrower's
+ * model against the brand's FDD Item 19 cohorts (which are reported per
+ * outlet, not per borrower).
+ */
+export interface UnitProjectionMetrics {
+  year: 1 | 2 | 3;
+  unitRevenue: number;
+  grossMarginPct: number;
+  ebitdaMarginPct: number;
+  cogsPct: number;
+}
+
 /**
  * Per-stream revenue projection. Each stream is compounded by its own
  * growth rates (RevenueStream.growthRateYearN), then summed across
@@ -0,0 +1,48 @@
+/**
+ * Section 1071 firewall — guard tests.
+ *
+ * sb1071_protected_responses may only be queried by the section1071
+ * store and the bank-admin register loader. Any other reference is a new
+ * path for protected demographic data to reach an underwriter.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+
+const ROOT = join(__dirname, "../../../..");
+const SRC = join(ROOT, "src");
+
+const ALLOWED = new Set(["src/lib/section1071/tracking.ts", "src/lib/section1071/loadRegister.ts"]);
+
+function sourceFiles(dir: string): string[] {
+  const out: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const p = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "__tests__" && entry.name !== "node_modules") out.push(...sourceFiles(p));
+    } else if (/\.(ts|tsx)$/.test(entry.name)) {
+      out.push(p);
+    }
+  }
+  return out;
+}
+
+describe("section 1071 firewall guard", () => {
+  it("only the 1071 store and register loader query sb1071_protected_responses", () => {
+    const offenders = sourceFiles(SRC)
+      .filter((f) => readFileSync(f, "utf-8").includes('.from("sb1071_protected_responses")'))
+      .map((f) => relative(ROOT, f).split("\\").join("/"))
+      .filter((f) => !ALLOWED.has(f));
+    assert.deepEqual(offenders, []);
+  });
+
+  it("the portal answer routes divert firewalled keys before borrower_answers", () => {
+    for (const route of ["answer/upsert/route.ts", "answer/route.ts"]) {
+      const src = readFileSync(join(SRC, "app/api/borrower/[token]", route), "utf-8");
+      const divert = src.indexOf("isFirewalledKey(question_key)");
+      const write = src.indexOf('.from("borrower_answers")');
+      assert.ok(divert > 0 && write > divert, `${route} must divert firewalled answers first`);
+    }
+  });
+});
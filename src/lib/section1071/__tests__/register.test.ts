@@ -0,0 +1,183 @@
+/**
+ * Section 1071 register (lib/section1071).
+ *
+ * Register row building from tracking + answers, the CSV layout, local
+ * validation edits, and the firewall split between underwriter-visible
+ * and protected answers — including that every protected wizard question
+ * carries the firewalled prefix.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SECTIONS } from "@/lib/borrowerWizard/schema";
+import { ACTION_TAKEN, BUSINESS_OWNERSHIP, GUARANTEE } from "../codes";
+import { isFirewalledKey, splitFirewalledAnswers } from "../firewall";
+import {
+  REGISTER_FIELDS,
+  buildRegisterRow,
+  businessOwnershipStatus,
+  creditProductFor,
+  guaranteesFor,
+  isCoveredApplication,
+  registerCsv,
+  type Sb1071Application,
+} from "../register";
+import { runValidationEdits } from "../validationEdits";
+
+const LEI = "5493001KJTIIGC8Y1R12";
+const P = "sb1071.protected.";
+
+function app(overrides: Partial<Sb1071Application> = {}): Sb1071Application {
+  return {
+    dealId: "3f2b9c1e-0d4a-4b7e-9a51-2c8d7e6f1a00",
+    applicationDate: "2025-03-04",
+    applicationMethod: 1,
+    applicationRecipient: 1,
+    creditProduct: creditProductFor("SBA_7A"),
+    guarantees: guaranteesFor("SBA_7A"),
+    loanTermMonths: 120,
+    creditPurposes: [5],
+    amountAppliedFor: 750_000,
+    amountApproved: 700_000,
+    actionTaken: ACTION_TAKEN.originated,
+    actionTakenDate: "2025-05-20",
+    denialReasons: [],
+    pricing: { interest_rate_type: 5, adj_margin: 2.75, adj_index_name: 1, adj_index_value: 7.5, origination_charges: 3500 },
+    censusTractAdrType: 1,
+    censusTractNumber: "06037201300",
+    ...overrides,
+  };
+}
+
+const ANSWERS = {
+  "sb1071.gross_annual_revenue": "1,250,000",
+  "sb1071.number_of_workers": "2",
+  "sb1071.time_in_business_years": 6,
+  "sb1071.num_principal_owners": 2,
+  "business.naics": "722511",
+};
+
+const PROTECTED = {
+  [`${P}ownership.minority`]: "yes",
+  [`${P}ownership.women`]: "no",
+  [`${P}ownership.lgbtqi`]: "no",
+  [`${P}po1.ethnicity`]: "1",
+  [`${P}po1.race`]: "5",
+  [`${P}po1.sex_gender`]: "Female",
+  [`${P}po2.ethnicity`]: "966",
+  [`${P}po2.race`]: "966",
+};
+
+function row(overrides: Partial<Sb1071Application> = {}, answers: Record<string, unknown> = ANSWERS) {
+  return buildRegisterRow({ lei: LEI, application: app(overrides), answers, protectedAnswers: PROTECTED });
+}
+
+describe("buildRegisterRow", () => {
+  it("lays out an originated SBA loan", () => {
+    const r = row();
+    assert.ok(r.uid.startsWith(LEI));
+    assert.equal(r.uid.length, LEI.length + 25);
+    assert.equal(r.app_date, "20250304");
+    assert.equal(r.ct_guarantee, String(GUARANTEE.sba_7a));
+    assert.equal(r.amount_approved, "700000");
+    assert.equal(r.denial_reasons, "999");
+    assert.equal(r.gross_annual_revenue, "1250000");
+    assert.equal(r.naics_code, "722");
+    assert.equal(r.business_ownership_status, String(BUSINESS_OWNERSHIP.minority));
+    assert.equal(r.po_1_gender_flag, "1");
+    assert.equal(r.po_1_gender_ff, "Female");
+    assert.equal(r.po_2_race, "966");
+    assert.equal(r.po_3_ethnicity, "");
+  });
+
+  it("blanks pricing and amount approved on a denial", () => {
+    const r = row({ actionTaken: ACTION_TAKEN.denied, denialReasons: [1, 4], amountApproved: null });
+    assert.equal(r.denial_reasons, "1;4");
+    assert.equal(r.amount_approved, "");
+    assert.equal(r.pricing_interest_rate_type, "999");
+    assert.equal(r.pricing_adj_margin, "");
+  });
+
+  it("reports not-provided when the applicant left business data blank", () => {
+    const r = row({}, {});
+    assert.equal(r.gross_annual_revenue_flag, "988");
+    assert.equal(r.num_principal_owners_flag, "988");
+    assert.equal(r.po_1_ethnicity, "");
+  });
+});
+
+describe("businessOwnershipStatus", () => {
+  it("distinguishes none, declined and not provided", () => {
+    const all = (v: string) => ({ [`${P}ownership.minority`]: v, [`${P}ownership.women`]: v, [`${P}ownership.lgbtqi`]: v });
+    assert.deepEqual(businessOwnershipStatus(all("no")), [BUSINESS_OWNERSHIP.none]);
+    assert.deepEqual(businessOwnershipStatus(all("decline")), [966]);
+    assert.deepEqual(businessOwnershipStatus({}), [988]);
+  });
+});
+
+describe("isCoveredApplication", () => {
+  it("covers unknown revenue and excludes revenue over $5M", () => {
+    assert.equal(isCoveredApplication({}), true);
+    assert.equal(isCoveredApplication({ "sb1071.gross_annual_revenue": 6_000_000 }), false);
+  });
+});
+
+describe("registerCsv", () => {
+  it("writes the header in filing order and quotes free-form text", () => {
+    const csv = registerCsv([row({ freeForm: { credit_purpose_ff: 'fit-out, "phase 2"' } })]);
+    const [header, data] = csv.split("\r\n");
+    assert.equal(header, REGISTER_FIELDS.join(","));
+    assert.ok(data.includes('"fit-out, ""phase 2"""'));
+    assert.ok(csv.endsWith("\r\n"));
+  });
+});
+
+describe("runValidationEdits", () => {
+  const opts = { filerLei: LEI, filingYear: 2025 };
+
+  it("passes a complete originated row", () => {
+    const v = runValidationEdits([row()], opts);
+    assert.deepEqual(v.errors, []);
+    assert.equal(v.ok, true);
+  });
+
+  it("flags duplicates, missing denial reasons and out-of-year dates", () => {
+    const denied = row({ actionTaken: ACTION_TAKEN.denied, denialReasons: [], actionTakenDate: "2026-01-02" });
+    const v = runValidationEdits([denied, denied], opts);
+    const edits = new Set(v.errors.map((e) => e.edit));
+    assert.equal(v.ok, false);
+    assert.ok(edits.has("uid.duplicate"));
+    assert.ok(edits.has("denial_reasons.required"));
+    assert.ok(edits.has("action_taken_date.invalid"));
+  });
+
+  it("requires pricing on originations and rejects a foreign LEI", () => {
+    const v = runValidationEdits([row({ pricing: {} })], { ...opts, filerLei: "BANKLEI0000000000000" });
+    const edits = new Set(v.errors.map((e) => e.edit));
+    assert.ok(edits.has("uid.lei_mismatch"));
+    assert.ok(edits.has("pricing_interest_rate_type.required"));
+    assert.ok(edits.has("pricing_origination_charges.required"));
+  });
+
+  it("warns without blocking on quality edits", () => {
+    const v = runValidationEdits([row({ amountApproved: 2_000_000 })], opts);
+    assert.equal(v.ok, true);
+    assert.deepEqual(v.warnings.map((w) => w.edit), ["amount_approved.gt_applied_for"]);
+  });
+});
+
+describe("firewall", () => {
+  it("splits protected answers from underwriter-visible ones", () => {
+    const { visible, firewalled } = splitFirewalledAnswers([
+      { question_key: "sb1071.gross_annual_revenue" },
+      { question_key: `${P}po1.race` },
+    ]);
+    assert.deepEqual(visible.map((a) => a.question_key), ["sb1071.gross_annual_revenue"]);
+    assert.deepEqual(firewalled.map((a) => a.question_key), [`${P}po1.race`]);
+  });
+
+  it("every firewalled wizard question carries the protected prefix, and only those", () => {
+    const questions = SECTIONS.flatMap((s) => s.questions);
+    for (const q of questions) assert.equal(isFirewalledKey(q.key), q.firewalled === true, q.key);
+    assert.ok(questions.some((q) => q.firewalled));
+  });
+});
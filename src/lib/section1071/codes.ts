@@ -0,0 +1,136 @@
+/**
+ * Section 1071 (Regulation B subpart B) — small business lending register
+ * codes, per the CFPB filing instructions guide.
+ *
+ * Multi-value fields are semicolon-separated in the filed CSV. The "flag"
+ * codes 900 / 988 / 999 are shared across fields:
+ *   900 = reported, 966 = applicant declined to provide,
+ *   988 = not provided by applicant and otherwise undetermined,
+ *   999 = not applicable.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+export const REPORTED = 900;
+export const DECLINED_TO_PROVIDE = 966;
+export const NOT_PROVIDED = 988;
+export const NOT_APPLICABLE = 999;
+
+/** Businesses above this gross annual revenue are not small businesses. */
+export const SMALL_BUSINESS_REVENUE_THRESHOLD = 5_000_000;
+
+export const MAX_PRINCIPAL_OWNERS = 4;
+
+export const APPLICATION_METHOD = { in_person: 1, telephone: 2, online: 3, mail: 4 } as const;
+export const APPLICATION_RECIPIENT = { direct: 1, third_party: 2 } as const;
+
+export const ACTION_TAKEN = {
+  denied: 1,
+  originated: 2,
+  approved_not_accepted: 3,
+  incomplete: 4,
+  withdrawn: 5,
+} as const;
+export type ActionTakenCode = (typeof ACTION_TAKEN)[keyof typeof ACTION_TAKEN];
+export const ACTION_TAKEN_CODES: number[] = Object.values(ACTION_TAKEN);
+
+export const CREDIT_PRODUCT = {
+  term_unsecured: 1,
+  term_secured: 2,
+  loc_unsecured: 3,
+  loc_secured: 4,
+  credit_card: 5,
+  private_label_card: 6,
+  mca: 7,
+  other_sales_based: 8,
+  other: 977,
+  not_provided: NOT_PROVIDED,
+} as const;
+
+export const GUARANTEE = {
+  personal_owner: 1,
+  personal_non_owner: 2,
+  sba_7a: 3,
+  sba_504: 4,
+  sba_other: 5,
+  usda: 6,
+  fha: 7,
+  bia: 8,
+  other_federal: 9,
+  state_local: 10,
+  none: 11,
+  other: 977,
+} as const;
+
+export const CREDIT_PURPOSE_CODES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 977, NOT_PROVIDED, NOT_APPLICABLE];
+export const GUARANTEE_CODES: number[] = Object.values(GUARANTEE);
+export const CREDIT_PRODUCT_CODES: number[] = Object.values(CREDIT_PRODUCT);
+
+/** 1 credit characteristics (business) … 9 unverifiable information */
+export const DENIAL_REASON_CODES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 977, NOT_APPLICABLE];
+
+export const INTEREST_RATE_TYPE_CODES = [1, 2, 3, 4, 5, 6, NOT_APPLICABLE];
+
+export const CENSUS_TRACT_ADDRESS_TYPE_CODES = [1, 2, 3, NOT_PROVIDED];
+
+/** 1 = 1-4 workers … 9 = 1,000+ */
+export const NUMBER_OF_WORKERS_BANDS: Array<{ code: number; label: string; max: number }> = [
+  { code: 1, label: "1-4", max: 4 },
+  { code: 2, label: "5-9", max: 9 },
+  { code: 3, label: "10-19", max: 19 },
+  { code: 4, label: "20-49", max: 49 },
+  { code: 5, label: "50-99", max: 99 },
+  { code: 6, label: "100-249", max: 249 },
+  { code: 7, label: "250-499", max: 499 },
+  { code: 8, label: "500-999", max: 999 },
+  { code: 9, label: "1,000 or more", max: Number.POSITIVE_INFINITY },
+];
+export const NUMBER_OF_WORKERS_CODES = [...NUMBER_OF_WORKERS_BANDS.map((b) => b.code), NOT_PROVIDED];
+
+export const TIME_IN_BUSINESS_TYPE = { precise: 1, under_two_years: 2, two_years_or_more: 3, unknown: 4 } as const;
+
+export const BUSINESS_OWNERSHIP = { minority: 1, women: 2, lgbtqi: 3, none: 955 } as const;
+export const BUSINESS_OWNERSHIP_CODES = [1, 2, 3, 955, DECLINED_TO_PROVIDE, NOT_PROVIDED];
+
+export const ETHNICITY_CODES = [1, 11, 12, 13, 14, 2, DECLINED_TO_PROVIDE, 977, NOT_PROVIDED];
+
+export const RACE_CODES = [
+  1, 971,
+  2, 21, 22, 23, 24, 25, 26, 27, 972,
+  3, 31, 32, 33, 34, 35, 36, 37, 973,
+  4, 41, 42, 43, 44, 974,
+  5,
+  DECLINED_TO_PROVIDE, NOT_PROVIDED,
+];
+
+/** po_n_gender_flag: 1 = free-form response given */
+export const GENDER_FLAG_CODES = [1, DECLINED_TO_PROVIDE, NOT_PROVIDED];
+
+/** Wizard select options for the aggregate ethnicity categories. */
+export const ETHNICITY_OPTIONS = [
+  { value: "1", label: "Hispanic or Latino" },
+  { value: "2", label: "Not Hispanic or Latino" },
+  { value: String(DECLINED_TO_PROVIDE), label: "I do not wish to provide this information" },
+];
+
+/** Wizard select options for the aggregate race categories. */
+export const RACE_OPTIONS = [
+  { value: "1", label: "American Indian or Alaska Native" },
+  { value: "2", label: "Asian" },
+  { value: "3", label: "Black or African American" },
+  { value: "4", label: "Native Hawaiian or Other Pacific Islander" },
+  { value: "5", label: "White" },
+  { value: String(DECLINED_TO_PROVIDE), label: "I do not wish to provide this information" },
+];
+
+/** Yes / No / decline answers for the ownership-status questions. */
+export const OWNERSHIP_OPTIONS = [
+  { value: "yes", label: "Yes" },
+  { value: "no", label: "No" },
+  { value: "decline", label: "I do not wish to provide this information" },
+];
+
+export function workersBand(count: number | null): number {
+  if (count === null || !Number.isFinite(count) || count < 0) return NOT_PROVIDED;
+  return NUMBER_OF_WORKERS_BANDS.find((b) => count <= b.max)!.code;
+}
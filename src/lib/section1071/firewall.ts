@@ -0,0 +1,35 @@
+/**
+ * Section 1071 firewall (12 CFR 1002.108).
+ *
+ * An applicant's answers to the protected demographic questions — minority-,
+ * women- and LGBTQI+-owned business status and the principal owners'
+ * ethnicity, race and sex — must not be visible to anyone involved in
+ * deciding on the application.
+ *
+ * Enforcement here is by storage: protected answers carry the
+ * `sb1071.protected.` key prefix and are written to
+ * sb1071_protected_responses (service-role only, no authenticated RLS
+ * policy) instead of borrower_answers, which underwriter surfaces read.
+ * They are read back only by the borrower's own portal session and by the
+ * bank-admin register export.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+export const SB1071_PROTECTED_PREFIX = "sb1071.protected.";
+
+export function isFirewalledKey(questionKey: string): boolean {
+  return questionKey.startsWith(SB1071_PROTECTED_PREFIX);
+}
+
+/**
+ * Split answers into the underwriter-visible set and the firewalled set.
+ */
+export function splitFirewalledAnswers<T extends { question_key: string }>(
+  answers: T[],
+): { visible: T[]; firewalled: T[] } {
+  const visible: T[] = [];
+  const firewalled: T[] = [];
+  for (const a of answers) (isFirewalledKey(a.question_key) ? firewalled : visible).push(a);
+  return { visible, firewalled };
+}
@@ -0,0 +1,173 @@
+import "server-only";
+
+/**
+ * Assembles a bank's Section 1071 register for one filing year — every
+ * tracked application whose action was taken that year — and runs the
+ * local validation edits over it.
+ *
+ * This is the one bank-side reader of sb1071_protected_responses; callers
+ * must gate it to compliance staff (bank admins), never underwriters.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  buildRegisterRow,
+  creditProductFor,
+  creditPurposeFor,
+  guaranteesFor,
+  isCoveredApplication,
+  type AnswerMap,
+  type RegisterRow,
+  type Sb1071Application,
+} from "./register";
+import { runValidationEdits, type RegisterValidation } from "./validationEdits";
+
+export interface Section1071Register {
+  bankId: string;
+  filingYear: number;
+  lei: string | null;
+  rows: RegisterRow[];
+  validation: RegisterValidation;
+  /** Tracked applications left out of the file, and why */
+  excluded: Array<{ dealId: string; reason: "not_small_business" | "no_action_taken" }>;
+}
+
+function toAnswerMap(rows: Array<{ question_key: string; value: unknown }>): AnswerMap {
+  const m: AnswerMap = {};
+  for (const r of rows) m[r.question_key] = r.value;
+  return m;
+}
+
+function numOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export async function loadSection1071Register(args: {
+  bankId: string;
+  filingYear: number;
+}): Promise<Section1071Register> {
+  const sb = supabaseAdmin();
+  const from = `${args.filingYear}-01-01`;
+  const to = `${args.filingYear}-12-31`;
+
+  const [{ data: bank, error: bankErr }, { data: tracked, error: trackedErr }] = await Promise.all([
+    sb.from("banks").select("lei").eq("id", args.bankId).maybeSingle(),
+    sb
+      .from("sb1071_applications")
+      .select("*")
+      .eq("bank_id", args.bankId)
+      .or(`and(action_taken_date.gte.${from},action_taken_date.lte.${to}),and(action_taken.is.null,application_date.lte.${to})`)
+      .order("application_date", { ascending: true }),
+  ]);
+  if (bankErr) throw new Error(`banks_select_failed:${bankErr.message}`);
+  if (trackedErr) throw new Error(`sb1071_applications_select_failed:${trackedErr.message}`);
+
+  const apps = (tracked ?? []) as any[];
+  const dealIds = apps.map((a) => a.deal_id as string);
+  const lei = ((bank as any)?.lei as string | null) ?? null;
+
+  const answersByDeal = new Map<string, AnswerMap>();
+  const protectedByDeal = new Map<string, AnswerMap>();
+  const dealsById = new Map<string, any>();
+
+  if (dealIds.length > 0) {
+    const [{ data: deals, error: dealsErr }, { data: borrowerApps, error: baErr }] = await Promise.all([
+      sb.from("deals").select("id, product_type, loan_amount").in("id", dealIds),
+      sb.from("borrower_applications").select("id, deal_id").in("deal_id", dealIds),
+    ]);
+    if (dealsErr) throw new Error(`deals_select_failed:${dealsErr.message}`);
+    if (baErr) throw new Error(`borrower_applications_select_failed:${baErr.message}`);
+    for (const d of deals ?? []) dealsById.set((d as any).id, d);
+
+    const appToDeal = new Map<string, string>();
+    for (const a of borrowerApps ?? []) appToDeal.set((a as any).id, (a as any).deal_id);
+    const appIds = [...appToDeal.keys()];
+
+    if (appIds.length > 0) {
+      const [{ data: answers, error: ansErr }, { data: protectedRows, error: protErr }] = await Promise.all([
+        sb.from("borrower_answers").select("application_id, question_key, value").in("application_id", appIds),
+        sb.from("sb1071_protected_responses").select("borrower_application_id, question_key, value").in("borrower_application_id", appIds),
+      ]);
+      if (ansErr) throw new Error(`borrower_answers_select_failed:${ansErr.message}`);
+      if (protErr) throw new Error(`sb1071_protected_responses_select_failed:${protErr.message}`);
+
+      const group = (rows: any[], appKey: string, into: Map<string, AnswerMap>) => {
+        const byDeal = new Map<string, Array<{ question_key: string; value: unknown }>>();
+        for (const r of rows) {
+          const dealId = appToDeal.get(r[appKey]);
+          if (!dealId) continue;
+          if (!byDeal.has(dealId)) byDeal.set(dealId, []);
+          byDeal.get(dealId)!.push(r);
+        }
+        for (const [dealId, list] of byDeal) into.set(dealId, toAnswerMap(list));
+      };
+      group(answers ?? [], "application_id", answersByDeal);
+      group(protectedRows ?? [], "borrower_application_id", protectedByDeal);
+    }
+  }
+
+  const rows: RegisterRow[] = [];
+  const excluded: Section1071Register["excluded"] = [];
+
+  for (const a of apps) {
+    const dealId = a.deal_id as string;
+    const answers = answersByDeal.get(dealId) ?? {};
+    if (a.action_taken == null) {
+      excluded.push({ dealId, reason: "no_action_taken" });
+      continue;
+    }
+    if (!isCoveredApplication(answers)) {
+      excluded.push({ dealId, reason: "not_small_business" });
+      continue;
+    }
+
+    const deal = dealsById.get(dealId) ?? {};
+    const application: Sb1071Application = {
+      dealId,
+      applicationDate: a.application_date,
+      applicationMethod: a.application_method,
+      applicationRecipient: a.application_recipient,
+      creditProduct: a.credit_product ?? creditProductFor(deal.product_type ?? null),
+      guarantees: Array.isArray(a.guarantees) ? a.guarantees : guaranteesFor(deal.product_type ?? null),
+      loanTermMonths: numOrNull(a.loan_term_months),
+      creditPurposes: Array.isArray(a.credit_purposes)
+        ? a.credit_purposes
+        : creditPurposeFor(answers["loan.use_of_proceeds.primary"]),
+      amountAppliedFor: numOrNull(a.amount_applied_for) ?? numOrNull(answers["loan.amount"]) ?? numOrNull(deal.loan_amount),
+      amountApproved: numOrNull(a.amount_approved),
+      actionTaken: a.action_taken,
+      actionTakenDate: a.action_taken_date,
+      denialReasons: Array.isArray(a.denial_reasons) ? a.denial_reasons : [],
+      pricing: a.pricing_json ?? {},
+      censusTractAdrType: a.census_tract_adr_type ?? null,
+      censusTractNumber: a.census_tract_number ?? null,
+      freeForm: a.free_form_json ?? {},
+    };
+
+    rows.push(
+      buildRegisterRow({
+        lei: lei ?? "",
+        application,
+        answers,
+        protectedAnswers: protectedByDeal.get(dealId) ?? {},
+      }),
+    );
+  }
+
+  const validation = runValidationEdits(rows, { filerLei: lei ?? "", filingYear: args.filingYear });
+  if (!lei) {
+    validation.ok = false;
+    validation.errors.unshift({
+      edit: "filer.lei_missing",
+      severity: "syntax",
+      row: 0,
+      uid: "",
+      fields: ["uid"],
+      message: "The bank has no LEI on file (banks.lei); every uid must begin with it",
+    });
+  }
+
+  return { bankId: args.bankId, filingYear: args.filingYear, lei, rows, validation, excluded };
+}
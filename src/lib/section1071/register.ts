@@ -0,0 +1,344 @@
+/**
+ * Section 1071 small business lending application register.
+ *
+ * Builds one register row per covered application in the CFPB filing
+ * layout (81 fields, header row, comma-delimited, multi-value fields
+ * semicolon-separated) from:
+ *   - the bank's application-level tracking (sb1071_applications)
+ *   - underwriter-visible business answers (borrower_answers)
+ *   - firewalled demographic answers (sb1071_protected_responses)
+ *
+ * Pure — no DB, no side effects.
+ */
+
+import {
+  ACTION_TAKEN,
+  BUSINESS_OWNERSHIP,
+  CREDIT_PRODUCT,
+  DECLINED_TO_PROVIDE,
+  GUARANTEE,
+  MAX_PRINCIPAL_OWNERS,
+  NOT_APPLICABLE,
+  NOT_PROVIDED,
+  REPORTED,
+  SMALL_BUSINESS_REVENUE_THRESHOLD,
+  TIME_IN_BUSINESS_TYPE,
+} from "./codes";
+import { SB1071_PROTECTED_PREFIX } from "./firewall";
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+const PRINCIPAL_OWNER_FIELDS = [
+  "ethnicity",
+  "ethnicity_ff",
+  "race",
+  "race_anai_ff",
+  "race_asian_ff",
+  "race_baa_ff",
+  "race_pi_ff",
+  "gender_flag",
+  "gender_ff",
+] as const;
+
+export const REGISTER_FIELDS: string[] = [
+  "uid",
+  "app_date",
+  "app_method",
+  "app_recipient",
+  "ct_credit_product",
+  "ct_credit_product_ff",
+  "ct_guarantee",
+  "ct_guarantee_ff",
+  "ct_loan_term_flag",
+  "ct_loan_term",
+  "credit_purpose",
+  "credit_purpose_ff",
+  "amount_applied_for_flag",
+  "amount_applied_for",
+  "amount_approved",
+  "action_taken",
+  "action_taken_date",
+  "denial_reasons",
+  "denial_reasons_ff",
+  "pricing_interest_rate_type",
+  "pricing_init_rate_period",
+  "pricing_fixed_rate",
+  "pricing_adj_margin",
+  "pricing_adj_index_name",
+  "pricing_adj_index_name_ff",
+  "pricing_adj_index_value",
+  "pricing_origination_charges",
+  "pricing_broker_fees",
+  "pricing_initial_charges",
+  "pricing_mca_addcost_flag",
+  "pricing_mca_addcost",
+  "pricing_prepenalty_allowed",
+  "pricing_prepenalty_exists",
+  "census_tract_adr_type",
+  "census_tract_number",
+  "gross_annual_revenue_flag",
+  "gross_annual_revenue",
+  "naics_code_flag",
+  "naics_code",
+  "number_of_workers",
+  "time_in_business_type",
+  "time_in_business",
+  "business_ownership_status",
+  "num_principal_owners_flag",
+  "num_principal_owners",
+  ...Array.from({ length: MAX_PRINCIPAL_OWNERS }, (_, i) => PRINCIPAL_OWNER_FIELDS.map((f) => `po_${i + 1}_${f}`)).flat(),
+];
+
+export type RegisterRow = Record<string, string>;
+
+// ---------------------------------------------------------------------------
+// Inputs
+// ---------------------------------------------------------------------------
+
+export interface Sb1071Pricing {
+  interest_rate_type?: number | null;
+  init_rate_period?: number | null;
+  fixed_rate?: number | null;
+  adj_margin?: number | null;
+  adj_index_name?: number | null;
+  adj_index_name_ff?: string | null;
+  adj_index_value?: number | null;
+  origination_charges?: number | null;
+  broker_fees?: number | null;
+  initial_charges?: number | null;
+  mca_addcost?: number | null;
+  prepenalty_allowed?: number | null;
+  prepenalty_exists?: number | null;
+}
+
+/** Application-level tracking, with deal-derived defaults already applied. */
+export interface Sb1071Application {
+  dealId: string;
+  applicationDate: string; // YYYY-MM-DD
+  applicationMethod: number;
+  applicationRecipient: number;
+  creditProduct: number;
+  guarantees: number[];
+  loanTermMonths: number | null;
+  creditPurposes: number[];
+  amountAppliedFor: number | null;
+  amountApproved: number | null;
+  actionTaken: number | null;
+  actionTakenDate: string | null;
+  denialReasons: number[];
+  pricing: Sb1071Pricing;
+  censusTractAdrType: number | null;
+  censusTractNumber: string | null;
+  freeForm?: Partial<Record<"ct_credit_product_ff" | "ct_guarantee_ff" | "credit_purpose_ff" | "denial_reasons_ff", string>>;
+}
+
+/** answer key → value, as stored in borrower_answers / sb1071_protected_responses */
+export type AnswerMap = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Deal → register defaults
+// ---------------------------------------------------------------------------
+
+const SECURED_PRODUCTS = new Set(["CRE", "SBA_504", "EQUIPMENT", "CONSTRUCTION", "REAL_ESTATE"]);
+
+/** Credit product from the deal's product_type. */
+export function creditProductFor(productType: string | null): number {
+  const p = String(productType ?? "").toUpperCase();
+  if (!p) return CREDIT_PRODUCT.not_provided;
+  if (p.includes("LOC") || p.includes("LINE")) return p.includes("UNSECURED") ? CREDIT_PRODUCT.loc_unsecured : CREDIT_PRODUCT.loc_secured;
+  if (p.includes("CARD")) return CREDIT_PRODUCT.credit_card;
+  if (p.includes("MCA")) return CREDIT_PRODUCT.mca;
+  if (SECURED_PRODUCTS.has(p) || p.startsWith("SBA_")) return CREDIT_PRODUCT.term_secured;
+  return p.includes("UNSECURED") ? CREDIT_PRODUCT.term_unsecured : CREDIT_PRODUCT.term_secured;
+}
+
+/** Government guarantee from the deal's product_type (owner guarantees are added by the caller). */
+export function guaranteesFor(productType: string | null): number[] {
+  const p = String(productType ?? "").toUpperCase();
+  if (p === "SBA_504") return [GUARANTEE.sba_504];
+  if (p === "SBA_7A" || p === "SBA_EXPRESS") return [GUARANTEE.sba_7a];
+  if (p.startsWith("SBA_")) return [GUARANTEE.sba_other];
+  if (p.startsWith("USDA")) return [GUARANTEE.usda];
+  return [];
+}
+
+const PURPOSE_BY_USE_OF_PROCEEDS: Record<string, number> = {
+  working_capital: 5,
+  acquisition: 8,
+  equipment: 4,
+  real_estate: 2,
+  refi: 9,
+  other: 977,
+};
+
+export function creditPurposeFor(useOfProceeds: unknown): number[] {
+  const code = typeof useOfProceeds === "string" ? PURPOSE_BY_USE_OF_PROCEEDS[useOfProceeds] : undefined;
+  return code ? [code] : [NOT_PROVIDED];
+}
+
+// ---------------------------------------------------------------------------
+// Answer readers
+// ---------------------------------------------------------------------------
+
+function num(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = typeof v === "number" ? v : Number(String(v).replace(/[$,\s]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : v === null || v === undefined ? "" : String(v);
+}
+
+/**
+ * A covered application is one from a small business. Unknown revenue is
+ * treated as covered (the bank must still report it).
+ */
+export function isCoveredApplication(answers: AnswerMap): boolean {
+  const revenue = num(answers["sb1071.gross_annual_revenue"]);
+  return revenue === null || revenue <= SMALL_BUSINESS_REVENUE_THRESHOLD;
+}
+
+export function businessOwnershipStatus(protectedAnswers: AnswerMap): number[] {
+  const p = SB1071_PROTECTED_PREFIX;
+  const pairs: Array<[string, number]> = [
+    [`${p}ownership.minority`, BUSINESS_OWNERSHIP.minority],
+    [`${p}ownership.women`, BUSINESS_OWNERSHIP.women],
+    [`${p}ownership.lgbtqi`, BUSINESS_OWNERSHIP.lgbtqi],
+  ];
+  const values = pairs.map(([k]) => str(protectedAnswers[k]));
+  const yes = pairs.filter((_, i) => values[i] === "yes").map(([, code]) => code);
+  if (yes.length > 0) return yes;
+  if (values.some((v) => v === "decline")) return [DECLINED_TO_PROVIDE];
+  if (values.every((v) => v === "no")) return [BUSINESS_OWNERSHIP.none];
+  return [NOT_PROVIDED];
+}
+
+function principalOwnerFields(n: number, protectedAnswers: AnswerMap, reported: boolean): RegisterRow {
+  const out: RegisterRow = {};
+  for (const f of PRINCIPAL_OWNER_FIELDS) out[`po_${n}_${f}`] = "";
+  if (!reported) return out;
+
+  const key = `${SB1071_PROTECTED_PREFIX}po${n}`;
+  const ethnicity = str(protectedAnswers[`${key}.ethnicity`]);
+  const race = str(protectedAnswers[`${key}.race`]);
+  const gender = str(protectedAnswers[`${key}.sex_gender`]);
+
+  out[`po_${n}_ethnicity`] = ethnicity || String(NOT_PROVIDED);
+  out[`po_${n}_race`] = race || String(NOT_PROVIDED);
+  out[`po_${n}_gender_flag`] = gender ? "1" : String(NOT_PROVIDED);
+  out[`po_${n}_gender_ff`] = gender;
+  return out;
+}
+
+function money(v: number | null | undefined): string {
+  return v === null || v === undefined ? "" : String(Math.round(v * 100) / 100);
+}
+
+function list(codes: number[]): string {
+  return codes.join(";");
+}
+
+// ---------------------------------------------------------------------------
+// Row builder
+// ---------------------------------------------------------------------------
+
+/** 1071 uid: the filer LEI followed by up to 25 characters unique to the application. */
+export function applicationUid(lei: string, dealId: string): string {
+  return `${lei.trim().toUpperCase()}${dealId.replace(/[^0-9a-zA-Z]/g, "").toUpperCase().slice(0, 25)}`;
+}
+
+function yyyymmdd(date: string | null): string {
+  return date ? date.slice(0, 10).replace(/-/g, "") : "";
+}
+
+export function buildRegisterRow(args: {
+  lei: string;
+  application: Sb1071Application;
+  answers: AnswerMap;
+  protectedAnswers: AnswerMap;
+}): RegisterRow {
+  const { application: a, answers, protectedAnswers } = args;
+  const ff = a.freeForm ?? {};
+  const action = a.actionTaken;
+  const priced = action === ACTION_TAKEN.originated || action === ACTION_TAKEN.approved_not_accepted;
+  const pr = a.pricing ?? {};
+  const na = String(NOT_APPLICABLE);
+
+  const revenue = num(answers["sb1071.gross_annual_revenue"]);
+  const naics = str(answers["business.naics"]).replace(/\D/g, "").slice(0, 3);
+  const workers = num(answers["sb1071.number_of_workers"]);
+  const years = num(answers["sb1071.time_in_business_years"]);
+  const owners = num(answers["sb1071.num_principal_owners"]);
+  const ownerCount = owners === null ? 0 : Math.max(0, Math.min(MAX_PRINCIPAL_OWNERS, Math.trunc(owners)));
+
+  const row: RegisterRow = {
+    uid: applicationUid(args.lei, a.dealId),
+    app_date: yyyymmdd(a.applicationDate),
+    app_method: String(a.applicationMethod),
+    app_recipient: String(a.applicationRecipient),
+    ct_credit_product: String(a.creditProduct),
+    ct_credit_product_ff: ff.ct_credit_product_ff ?? "",
+    ct_guarantee: list(a.guarantees.length > 0 ? a.guarantees : [GUARANTEE.none]),
+    ct_guarantee_ff: ff.ct_guarantee_ff ?? "",
+    ct_loan_term_flag: a.loanTermMonths === null ? String(NOT_PROVIDED) : String(REPORTED),
+    ct_loan_term: a.loanTermMonths === null ? "" : String(a.loanTermMonths),
+    credit_purpose: list(a.creditPurposes.length > 0 ? a.creditPurposes : [NOT_PROVIDED]),
+    credit_purpose_ff: ff.credit_purpose_ff ?? "",
+    amount_applied_for_flag: a.amountAppliedFor === null ? String(NOT_PROVIDED) : String(REPORTED),
+    amount_applied_for: money(a.amountAppliedFor),
+    amount_approved: priced ? money(a.amountApproved) : "",
+    action_taken: action === null ? "" : String(action),
+    action_taken_date: yyyymmdd(a.actionTakenDate),
+    denial_reasons: action === ACTION_TAKEN.denied ? list(a.denialReasons) : na,
+    denial_reasons_ff: action === ACTION_TAKEN.denied ? ff.denial_reasons_ff ?? "" : "",
+    pricing_interest_rate_type: priced ? str(pr.interest_rate_type) : na,
+    pricing_init_rate_period: priced ? str(pr.init_rate_period) : "",
+    pricing_fixed_rate: priced ? str(pr.fixed_rate) : "",
+    pricing_adj_margin: priced ? str(pr.adj_margin) : "",
+    pricing_adj_index_name: priced ? str(pr.adj_index_name) || na : na,
+    pricing_adj_index_name_ff: priced ? str(pr.adj_index_name_ff) : "",
+    pricing_adj_index_value: priced ? str(pr.adj_index_value) : "",
+    pricing_origination_charges: priced ? money(pr.origination_charges) : "",
+    pricing_broker_fees: priced ? money(pr.broker_fees) : "",
+    pricing_initial_charges: priced ? money(pr.initial_charges) : "",
+    pricing_mca_addcost_flag: priced && pr.mca_addcost != null ? String(REPORTED) : na,
+    pricing_mca_addcost: priced ? money(pr.mca_addcost) : "",
+    pricing_prepenalty_allowed: priced ? str(pr.prepenalty_allowed) || na : na,
+    pricing_prepenalty_exists: priced ? str(pr.prepenalty_exists) || na : na,
+    census_tract_adr_type: a.censusTractAdrType === null ? String(NOT_PROVIDED) : String(a.censusTractAdrType),
+    census_tract_number: a.censusTractNumber ?? "",
+    gross_annual_revenue_flag: revenue === null ? String(NOT_PROVIDED) : String(REPORTED),
+    gross_annual_revenue: money(revenue),
+    naics_code_flag: naics.length === 3 ? String(REPORTED) : String(NOT_PROVIDED),
+    naics_code: naics.length === 3 ? naics : "",
+    number_of_workers: workers === null ? String(NOT_PROVIDED) : String(workers),
+    time_in_business_type:
+      years === null ? String(TIME_IN_BUSINESS_TYPE.unknown) : String(TIME_IN_BUSINESS_TYPE.precise),
+    time_in_business: years === null ? "" : String(Math.trunc(years)),
+    business_ownership_status: list(businessOwnershipStatus(protectedAnswers)),
+    num_principal_owners_flag: owners === null ? String(NOT_PROVIDED) : String(REPORTED),
+    num_principal_owners: owners === null ? "" : String(ownerCount),
+  };
+
+  for (let n = 1; n <= MAX_PRINCIPAL_OWNERS; n++) {
+    Object.assign(row, principalOwnerFields(n, protectedAnswers, n <= ownerCount));
+  }
+  return row;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function csvCell(v: string): string {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+export function registerCsv(rows: RegisterRow[]): string {
+  const lines = [REGISTER_FIELDS.join(",")];
+  for (const r of rows) lines.push(REGISTER_FIELDS.map((f) => csvCell(r[f] ?? "")).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
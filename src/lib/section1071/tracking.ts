@@ -0,0 +1,172 @@
+import "server-only";
+
+/**
+ * Section 1071 application-level tracking and the firewalled response store.
+ *
+ * sb1071_applications holds one row per deal: application date / method,
+ * credit terms the bank reports, and the action taken with its date.
+ * Rows are created on first write; the application date defaults to the
+ * deal's creation date.
+ *
+ * sb1071_protected_responses holds the firewalled demographic answers
+ * (see firewall.ts). Nothing here returns them to an underwriter surface.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { ACTION_TAKEN_CODES } from "./codes";
+import { isFirewalledKey } from "./firewall";
+
+export type Sb1071ApplicationPatch = Partial<{
+  application_date: string;
+  application_method: number;
+  application_recipient: number;
+  credit_product: number | null;
+  guarantees: number[] | null;
+  loan_term_months: number | null;
+  credit_purposes: number[] | null;
+  amount_applied_for: number | null;
+  amount_approved: number | null;
+  action_taken: number | null;
+  action_taken_date: string | null;
+  denial_reasons: number[];
+  pricing_json: Record<string, unknown>;
+  census_tract_adr_type: number | null;
+  census_tract_number: string | null;
+  free_form_json: Record<string, string>;
+}>;
+
+export const SB1071_APPLICATION_FIELDS: Array<keyof Sb1071ApplicationPatch> = [
+  "application_date",
+  "application_method",
+  "application_recipient",
+  "credit_product",
+  "guarantees",
+  "loan_term_months",
+  "credit_purposes",
+  "amount_applied_for",
+  "amount_approved",
+  "action_taken",
+  "action_taken_date",
+  "denial_reasons",
+  "pricing_json",
+  "census_tract_adr_type",
+  "census_tract_number",
+  "free_form_json",
+];
+
+/**
+ * Create or update a deal's 1071 tracking row.
+ */
+export async function upsertSection1071Application(args: {
+  bankId: string;
+  dealId: string;
+  patch: Sb1071ApplicationPatch;
+  updatedBy?: string | null;
+}): Promise<Record<string, unknown>> {
+  const { patch } = args;
+  if (patch.action_taken != null && !ACTION_TAKEN_CODES.includes(patch.action_taken)) {
+    throw new Error("invalid_action_taken");
+  }
+
+  const sb = supabaseAdmin();
+  const { data: existing, error: existingErr } = await sb
+    .from("sb1071_applications")
+    .select("id")
+    .eq("deal_id", args.dealId)
+    .eq("bank_id", args.bankId)
+    .maybeSingle();
+  if (existingErr) throw new Error(`sb1071_applications_select_failed:${existingErr.message}`);
+
+  const now = new Date().toISOString();
+  if (existing) {
+    const { data, error } = await sb
+      .from("sb1071_applications")
+      .update({ ...patch, updated_by: args.updatedBy ?? null, updated_at: now })
+      .eq("id", (existing as any).id)
+      .select("*")
+      .single();
+    if (error) throw new Error(`sb1071_applications_update_failed:${error.message}`);
+    return data as Record<string, unknown>;
+  }
+
+  const { data: deal, error: dealErr } = await sb
+    .from("deals")
+    .select("created_at")
+    .eq("id", args.dealId)
+    .eq("bank_id", args.bankId)
+    .maybeSingle();
+  if (dealErr) throw new Error(`deals_select_failed:${dealErr.message}`);
+  if (!deal) throw new Error("deal_not_found");
+
+  const { data, error } = await sb
+    .from("sb1071_applications")
+    .insert({
+      bank_id: args.bankId,
+      deal_id: args.dealId,
+      application_date: String((deal as any).created_at ?? now).slice(0, 10),
+      ...patch,
+      updated_by: args.updatedBy ?? null,
+      updated_at: now,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(`sb1071_applications_insert_failed:${error.message}`);
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Record the action taken on an application (1 denied … 5 withdrawn).
+ */
+export async function recordSection1071ActionTaken(args: {
+  bankId: string;
+  dealId: string;
+  actionTaken: number;
+  actionTakenDate: string;
+  updatedBy?: string | null;
+}): Promise<void> {
+  await upsertSection1071Application({
+    bankId: args.bankId,
+    dealId: args.dealId,
+    patch: { action_taken: args.actionTaken, action_taken_date: args.actionTakenDate.slice(0, 10) },
+    updatedBy: args.updatedBy,
+  });
+}
+
+/**
+ * Store one firewalled answer from the borrower portal.
+ */
+export async function saveProtectedResponse(args: {
+  applicationId: string;
+  dealId: string | null;
+  questionKey: string;
+  value: unknown;
+}): Promise<void> {
+  if (!isFirewalledKey(args.questionKey)) throw new Error("not_a_firewalled_question");
+  const sb = supabaseAdmin();
+  const { error } = await sb.from("sb1071_protected_responses").upsert(
+    {
+      borrower_application_id: args.applicationId,
+      deal_id: args.dealId,
+      question_key: args.questionKey,
+      value: args.value ?? null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "borrower_application_id,question_key" },
+  );
+  if (error) throw new Error(`sb1071_protected_responses_upsert_failed:${error.message}`);
+}
+
+/**
+ * The applicant's own firewalled answers — for the borrower portal only.
+ */
+export async function loadOwnProtectedResponses(
+  applicationId: string,
+): Promise<Array<{ question_key: string; value: unknown }>> {
+  const sb = supabaseAdmin();
+  const { data, error } = await sb
+    .from("sb1071_protected_responses")
+    .select("question_key, value")
+    .eq("borrower_application_id", applicationId);
+  if (error) throw new Error(`sb1071_protected_responses_select_failed:${error.message}`);
+  return (data ?? []) as Array<{ question_key: string; value: unknown }>;
+}
@@ -0,0 +1,210 @@
+/**
+ * Section 1071 register validation edits, run locally before filing.
+ *
+ * Mirrors the CFPB platform's three edit classes:
+ *   syntax    — the file itself is malformed (uid format, duplicates)
+ *   validity  — a field holds a value outside its code list / format
+ *   quality   — the combination is internally inconsistent
+ * Syntax and validity edits block filing; quality edits are warnings the
+ * filer must confirm.
+ *
+ * Pure — no DB, no side effects.
+ */
+
+import {
+  ACTION_TAKEN,
+  ACTION_TAKEN_CODES,
+  BUSINESS_OWNERSHIP_CODES,
+  CENSUS_TRACT_ADDRESS_TYPE_CODES,
+  CREDIT_PRODUCT_CODES,
+  CREDIT_PURPOSE_CODES,
+  DENIAL_REASON_CODES,
+  ETHNICITY_CODES,
+  GENDER_FLAG_CODES,
+  GUARANTEE_CODES,
+  INTEREST_RATE_TYPE_CODES,
+  MAX_PRINCIPAL_OWNERS,
+  NOT_APPLICABLE,
+  NUMBER_OF_WORKERS_CODES,
+  RACE_CODES,
+  SMALL_BUSINESS_REVENUE_THRESHOLD,
+} from "./codes";
+import type { RegisterRow } from "./register";
+
+export type EditSeverity = "syntax" | "validity" | "quality";
+
+export interface ValidationEditResult {
+  edit: string;
+  severity: EditSeverity;
+  row: number; // 1-based data row
+  uid: string;
+  fields: string[];
+  message: string;
+}
+
+export interface RegisterValidation {
+  ok: boolean;
+  rowCount: number;
+  errors: ValidationEditResult[];
+  warnings: ValidationEditResult[];
+}
+
+const UID_PATTERN = /^[A-Z0-9]{21,45}$/;
+const DATE_PATTERN = /^\d{8}$/;
+const CENSUS_TRACT_PATTERN = /^\d{11}$/;
+
+function codes(v: string): number[] {
+  return v === "" ? [] : v.split(";").map((c) => Number(c.trim()));
+}
+
+function allIn(v: string, allowed: number[]): boolean {
+  const parsed = codes(v);
+  return parsed.length > 0 && parsed.every((c) => Number.isInteger(c) && allowed.includes(c));
+}
+
+function isDateIn(v: string, year: number): boolean {
+  if (!DATE_PATTERN.test(v)) return false;
+  const d = new Date(`${v.slice(0, 4)}-${v.slice(4, 6)}-${v.slice(6, 8)}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.getUTCFullYear() === year && d.toISOString().slice(0, 10).replace(/-/g, "") === v;
+}
+
+function isNumber(v: string): boolean {
+  return v !== "" && Number.isFinite(Number(v)) && Number(v) >= 0;
+}
+
+/**
+ * Run every edit over the register rows for one filing year.
+ */
+export function runValidationEdits(
+  rows: RegisterRow[],
+  opts: { filerLei: string; filingYear: number },
+): RegisterValidation {
+  const results: ValidationEditResult[] = [];
+  const lei = opts.filerLei.trim().toUpperCase();
+  const seenUids = new Map<string, number>();
+
+  rows.forEach((r, i) => {
+    const rowNo = i + 1;
+    const uid = r.uid ?? "";
+    const push = (edit: string, severity: EditSeverity, fields: string[], message: string) =>
+      results.push({ edit, severity, row: rowNo, uid, fields, message });
+
+    // ── syntax ──
+    if (!UID_PATTERN.test(uid)) push("uid.invalid_format", "syntax", ["uid"], "uid must be 21-45 uppercase letters and digits");
+    if (!uid.startsWith(lei)) push("uid.lei_mismatch", "syntax", ["uid"], "uid must begin with the filer's LEI");
+    const dup = seenUids.get(uid);
+    if (dup !== undefined) push("uid.duplicate", "syntax", ["uid"], `uid duplicates row ${dup}`);
+    else seenUids.set(uid, rowNo);
+
+    // ── validity ──
+    if (!isDateIn(r.app_date, opts.filingYear)) {
+      push("app_date.invalid", "validity", ["app_date"], `app_date must be a YYYYMMDD date in ${opts.filingYear}`);
+    }
+    if (!allIn(r.app_method, [1, 2, 3, 4])) push("app_method.invalid", "validity", ["app_method"], "app_method must be 1-4");
+    if (!allIn(r.app_recipient, [1, 2])) push("app_recipient.invalid", "validity", ["app_recipient"], "app_recipient must be 1 or 2");
+    if (!allIn(r.ct_credit_product, CREDIT_PRODUCT_CODES)) {
+      push("ct_credit_product.invalid", "validity", ["ct_credit_product"], "ct_credit_product is not a valid code");
+    }
+    if (!allIn(r.ct_guarantee, GUARANTEE_CODES) || codes(r.ct_guarantee).length > 5) {
+      push("ct_guarantee.invalid", "validity", ["ct_guarantee"], "ct_guarantee must be 1-5 valid codes");
+    }
+    if (!allIn(r.credit_purpose, CREDIT_PURPOSE_CODES) || codes(r.credit_purpose).length > 3) {
+      push("credit_purpose.invalid", "validity", ["credit_purpose"], "credit_purpose must be 1-3 valid codes");
+    }
+    if (!allIn(r.action_taken, ACTION_TAKEN_CODES)) {
+      push("action_taken.invalid", "validity", ["action_taken"], "action_taken must be 1-5 (record the final action before filing)");
+    }
+    if (!isDateIn(r.action_taken_date, opts.filingYear)) {
+      push("action_taken_date.invalid", "validity", ["action_taken_date"], `action_taken_date must be a YYYYMMDD date in ${opts.filingYear}`);
+    } else if (DATE_PATTERN.test(r.app_date) && r.action_taken_date < r.app_date) {
+      push("action_taken_date.before_app_date", "validity", ["action_taken_date", "app_date"], "action_taken_date is before app_date");
+    }
+
+    const action = Number(r.action_taken);
+    const priced = action === ACTION_TAKEN.originated || action === ACTION_TAKEN.approved_not_accepted;
+    if (action === ACTION_TAKEN.denied) {
+      const reasons = codes(r.denial_reasons);
+      if (reasons.length === 0 || reasons.length > 4 || !allIn(r.denial_reasons, DENIAL_REASON_CODES.filter((c) => c !== NOT_APPLICABLE))) {
+        push("denial_reasons.required", "validity", ["denial_reasons"], "a denied application needs 1-4 denial reasons");
+      }
+      if (reasons.includes(977) && !r.denial_reasons_ff) {
+        push("denial_reasons_ff.required", "validity", ["denial_reasons_ff"], "denial reason 977 (other) needs free-form text");
+      }
+    } else if (r.denial_reasons !== String(NOT_APPLICABLE)) {
+      push("denial_reasons.not_applicable", "validity", ["denial_reasons"], "denial_reasons must be 999 unless the application was denied");
+    }
+
+    if (priced) {
+      if (!isNumber(r.amount_approved)) {
+        push("amount_approved.required", "validity", ["amount_approved"], "amount_approved is required when originated or approved");
+      }
+      if (!allIn(r.pricing_interest_rate_type, INTEREST_RATE_TYPE_CODES.filter((c) => c !== NOT_APPLICABLE))) {
+        push("pricing_interest_rate_type.required", "validity", ["pricing_interest_rate_type"], "interest rate type is required when originated or approved");
+      }
+      const rateType = Number(r.pricing_interest_rate_type);
+      if ([2, 4, 6].includes(rateType) && !isNumber(r.pricing_fixed_rate)) {
+        push("pricing_fixed_rate.required", "validity", ["pricing_fixed_rate"], "fixed rate types need pricing_fixed_rate");
+      }
+      if ([1, 3, 5].includes(rateType) && !isNumber(r.pricing_adj_margin)) {
+        push("pricing_adj_margin.required", "validity", ["pricing_adj_margin"], "adjustable rate types need pricing_adj_margin");
+      }
+      if (!isNumber(r.pricing_origination_charges)) {
+        push("pricing_origination_charges.required", "validity", ["pricing_origination_charges"], "total origination charges are required when originated or approved");
+      }
+    } else if (r.amount_approved !== "") {
+      push("amount_approved.not_applicable", "validity", ["amount_approved"], "amount_approved must be blank unless originated or approved");
+    }
+
+    if (!allIn(r.census_tract_adr_type, CENSUS_TRACT_ADDRESS_TYPE_CODES)) {
+      push("census_tract_adr_type.invalid", "validity", ["census_tract_adr_type"], "census_tract_adr_type is not a valid code");
+    } else if (r.census_tract_adr_type !== "988" && !CENSUS_TRACT_PATTERN.test(r.census_tract_number)) {
+      push("census_tract_number.invalid", "validity", ["census_tract_number"], "census_tract_number must be 11 digits");
+    }
+    if (r.naics_code_flag === "900" && !/^\d{3}$/.test(r.naics_code)) {
+      push("naics_code.invalid", "validity", ["naics_code"], "naics_code must be 3 digits");
+    }
+    if (r.gross_annual_revenue_flag === "900" && !isNumber(r.gross_annual_revenue)) {
+      push("gross_annual_revenue.invalid", "validity", ["gross_annual_revenue"], "gross_annual_revenue must be a non-negative number");
+    }
+    if (!allIn(r.number_of_workers, NUMBER_OF_WORKERS_CODES)) {
+      push("number_of_workers.invalid", "validity", ["number_of_workers"], "number_of_workers is not a valid code");
+    }
+
+    const ownership = codes(r.business_ownership_status);
+    if (!allIn(r.business_ownership_status, BUSINESS_OWNERSHIP_CODES)) {
+      push("business_ownership_status.invalid", "validity", ["business_ownership_status"], "business_ownership_status is not a valid code");
+    } else if (ownership.length > 1 && ownership.some((c) => c >= 955)) {
+      push("business_ownership_status.exclusive", "validity", ["business_ownership_status"], "955, 966 and 988 cannot be combined with other values");
+    }
+
+    const owners = r.num_principal_owners === "" ? 0 : Number(r.num_principal_owners);
+    if (r.num_principal_owners_flag === "900" && !(Number.isInteger(owners) && owners >= 0 && owners <= MAX_PRINCIPAL_OWNERS)) {
+      push("num_principal_owners.invalid", "validity", ["num_principal_owners"], `num_principal_owners must be 0-${MAX_PRINCIPAL_OWNERS}`);
+    }
+    for (let n = 1; n <= MAX_PRINCIPAL_OWNERS; n++) {
+      const fields = [`po_${n}_ethnicity`, `po_${n}_race`, `po_${n}_gender_flag`];
+      if (n <= owners) {
+        if (!allIn(r[`po_${n}_ethnicity`], ETHNICITY_CODES)) push(`po_${n}_ethnicity.invalid`, "validity", [fields[0]], `po_${n}_ethnicity is not a valid code`);
+        if (!allIn(r[`po_${n}_race`], RACE_CODES)) push(`po_${n}_race.invalid`, "validity", [fields[1]], `po_${n}_race is not a valid code`);
+        if (!allIn(r[`po_${n}_gender_flag`], GENDER_FLAG_CODES)) push(`po_${n}_gender_flag.invalid`, "validity", [fields[2]], `po_${n}_gender_flag is not a valid code`);
+      } else if (fields.some((f) => (r[f] ?? "") !== "")) {
+        push(`po_${n}.beyond_owner_count`, "validity", fields, `principal owner ${n} data reported beyond num_principal_owners`);
+      }
+    }
+
+    // ── quality ──
+    if (r.gross_annual_revenue_flag === "900" && Number(r.gross_annual_revenue) > SMALL_BUSINESS_REVENUE_THRESHOLD) {
+      push("gross_annual_revenue.not_small_business", "quality", ["gross_annual_revenue"], "revenue above the small business threshold — confirm this application is covered");
+    }
+    if (priced && isNumber(r.amount_approved) && isNumber(r.amount_applied_for) && Number(r.amount_approved) > Number(r.amount_applied_for) * 2) {
+      push("amount_approved.gt_applied_for", "quality", ["amount_approved", "amount_applied_for"], "amount_approved is more than twice amount_applied_for");
+    }
+    if (Number(r.pricing_fixed_rate) > 20 || Number(r.pricing_adj_margin) > 20) {
+      push("pricing_rate.high", "quality", ["pricing_fixed_rate", "pricing_adj_margin"], "interest rate or margin above 20% — confirm it is entered as a percentage");
+    }
+  });
+
+  const errors = results.filter((r) => r.severity !== "quality");
+  const warnings = results.filter((r) => r.severity === "quality");
+  return { ok: errors.length === 0, rowCount: rows.length, errors, warnings };
+}
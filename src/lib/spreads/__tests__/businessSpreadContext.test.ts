@@ -5,6 +5,7 @@ import {
   getBusinessSpreadTypesForDealContext,
   getBusinessSpreadsHeaderCopy,
   isPropertyCollateralMode,
+  isUcaCashFlowRequired,
   type BusinessSpreadDealContext,
 } from "@/lib/spreads/businessSpreadContext";
 import { isOptionalSpreadType } from "@/lib/spreads/t12Eligibility";
@@ -38,6 +39,17 @@ test("operating-company deal does not request/render RENT_ROLL", () => {
   assert.ok(types.includes("STANDARD"), "operating company shows the income statement / business spread");
 });
 
+test("C&I deal over $1MM adds the UCA cash flow after the business spread", () => {
+  assert.deepEqual(getBusinessSpreadTypesForDealContext({ ...OMNICARE, loanAmount: 2_500_000 }), [
+    "BALANCE_SHEET",
+    "STANDARD",
+    "UCA_CASH_FLOW",
+  ]);
+  assert.equal(isUcaCashFlowRequired({ ...OMNICARE, loanAmount: 1_000_000 }), false, "threshold is strictly above $1MM");
+  assert.equal(isUcaCashFlowRequired({ ...OMNICARE, loanAmount: null }), false);
+  assert.equal(isUcaCashFlowRequired({ collateralType: "CRE", loanAmount: 5_000_000 }), false, "C&I policy only");
+});
+
 test("operating-company deal does not request/render T12 without an actual T12 source", () => {
   const types = getBusinessSpreadTypesForDealContext(OMNICARE);
   assert.ok(!types.includes("T12"), "no trailing-twelve panel without a real source");
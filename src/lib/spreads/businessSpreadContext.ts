@@ -15,6 +15,8 @@
  *  - Operating company → the income statement / business spread (STANDARD).
  *  - CRE / property collateral → RENT_ROLL (a property section), never for an
  *    operating company.
+ *  - UCA cash flow → operating (C&I) companies borrowing more than
+ *    UCA_REQUIRED_ABOVE_LOAN_AMOUNT, per credit policy.
  *  - T12 (trailing-twelve operating statement) is OPTIONAL everywhere and is only
  *    requested when a real T12 / monthly-operating source actually exists — never
  *    speculatively (see [[t12Eligibility]] / SPEC-T12-OPTIONAL-NEVER-PRIMARY-1).
@@ -31,8 +33,13 @@ export type BusinessSpreadDealContext = {
   hasT12Source?: boolean;
   /** True only when a real rent-roll source exists (CRE / property collateral). */
   hasRentRollSource?: boolean;
+  /** deals.loan_amount — drives the UCA cash-flow policy threshold. */
+  loanAmount?: number | null;
 };
 
+/** Credit policy: C&I requests above this amount need a UCA cash-flow statement. */
+export const UCA_REQUIRED_ABOVE_LOAN_AMOUNT = 1_000_000;
+
 // Tokens that mark a deal as a real-estate / property-collateral deal where rent
 // rolls and trailing operating performance are the primary financial data sources.
 // Underscores/hyphens/spaces are normalized to spaces first so `CRE_INVESTOR`,
@@ -59,6 +66,15 @@ export function isPropertyCollateralMode(ctx: BusinessSpreadDealContext): boolea
   return matchesPropertySignal(ctx.collateralType) || matchesPropertySignal(ctx.dealMode);
 }
 
+/**
+ * True when credit policy requires the UCA cash-flow statement: an operating
+ * (C&I) company with a loan amount over UCA_REQUIRED_ABOVE_LOAN_AMOUNT.
+ */
+export function isUcaCashFlowRequired(ctx: BusinessSpreadDealContext): boolean {
+  if (isPropertyCollateralMode(ctx)) return false;
+  return typeof ctx.loanAmount === "number" && ctx.loanAmount > UCA_REQUIRED_ABOVE_LOAN_AMOUNT;
+}
+
 /**
  * Business-spread types the Business Spreads page should request/render for the
  * given deal context. Order is display order; BALANCE_SHEET (primary) is first and
@@ -76,6 +92,7 @@ export function getBusinessSpreadTypesForDealContext(
   } else {
     // Operating company: income statement / business spread.
     types.push("STANDARD");
+    if (isUcaCashFlowRequired(ctx)) types.push("UCA_CASH_FLOW");
   }
 
   // T12 is OPTIONAL everywhere and only requested when a real source exists —
@@ -0,0 +1,208 @@
+/**
+ * Stress Engine — Cash-Flow Simulation Tests
+ *
+ * Calibration from borrower history + industry prior, seeded determinism,
+ * per-year / cumulative probabilities, floating-rate paths, and wiring
+ * through runStressScenarios, runFullUnderwrite and the memo.
+ * Uses node:test + node:assert/strict.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import type { FinancialModel, FinancialPeriod } from "@/lib/modelEngine/types";
+import type { DebtInstrument } from "@/lib/debtEngine/types";
+import { getIndustryVolatility } from "@/lib/benchmarks";
+import { calibrateSimulation, runCashFlowSimulation } from "../monteCarlo";
+import { runStressScenarios } from "../index";
+import { runFullUnderwrite } from "@/lib/underwritingEngine";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function fye(year: number, revenue: number, ebitda: number): FinancialPeriod {
+  return {
+    periodId: `fy-${year}`,
+    periodEnd: `${year}-12-31`,
+    type: "FYE",
+    income: { revenue, cogs: revenue * 0.4, operatingExpenses: revenue * 0.6 - ebitda },
+    balance: { totalLiabilities: 800_000, equity: 1_200_000, longTermDebt: 500_000 },
+    cashflow: { ebitda },
+    qualityFlags: [],
+  };
+}
+
+function model(ebitdaScale: number): FinancialModel {
+  return {
+    dealId: "test-mc",
+    periods: [
+      fye(2021, 900_000, 150_000 * ebitdaScale),
+      fye(2022, 950_000, 165_000 * ebitdaScale),
+      fye(2023, 980_000, 160_000 * ebitdaScale),
+      fye(2024, 1_000_000, 170_000 * ebitdaScale),
+    ],
+  };
+}
+
+const FIXED: DebtInstrument = {
+  id: "term",
+  source: "proposed",
+  principal: 600_000,
+  rate: 0.07,
+  amortizationMonths: 120,
+  paymentFrequency: "monthly",
+};
+
+const FLOATING: DebtInstrument = {
+  ...FIXED,
+  id: "floating",
+  rate: 0.08,
+  floating: { index: "PRIME", spread: 0.005, floor: 0.06, resetFrequencyMonths: 12 },
+};
+
+const OPTS = { product: "SBA" as const, iterations: 500, seed: 7 };
+
+// ---------------------------------------------------------------------------
+// Calibration
+// ---------------------------------------------------------------------------
+
+describe("calibrateSimulation", () => {
+  it("blends borrower history with the industry prior by credibility", () => {
+    const cal = calibrateSimulation(model(1), { naicsCode: "332710" })!;
+    assert.equal(cal.historyPeriods, 4);
+    // 3 growth observations, K = 3 → equal weight
+    assert.equal(cal.industryWeight, 0.5);
+    assert.ok(Math.abs(cal.startingMargin - 0.17) < 1e-9);
+    assert.ok(cal.naicsDescription);
+  });
+
+  it("falls back entirely to the prior with a single period", () => {
+    const single: FinancialModel = { dealId: "x", periods: [fye(2024, 1_000_000, 170_000)] };
+    const cal = calibrateSimulation(single)!;
+    const prior = getIndustryVolatility(undefined, 1_000_000);
+    assert.equal(cal.industryWeight, 1);
+    assert.equal(cal.revenueGrowthVol, prior.revenueGrowthVol);
+    assert.equal(cal.marginVol, prior.ebitdaMarginVol);
+  });
+
+  it("returns undefined without revenue and EBITDA", () => {
+    assert.equal(calibrateSimulation({ dealId: "x", periods: [] }), undefined);
+  });
+
+  it("industry vols scale up for smaller borrowers", () => {
+    const small = getIndustryVolatility("722511", 500_000);
+    const mid = getIndustryVolatility("722511", 10_000_000);
+    assert.ok(small.revenueGrowthVol > mid.revenueGrowthVol);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+describe("runCashFlowSimulation", () => {
+  it("is deterministic for a given seed", () => {
+    const a = runCashFlowSimulation(model(1), [FIXED], OPTS)!;
+    const b = runCashFlowSimulation(model(1), [FIXED], OPTS)!;
+    assert.deepEqual(a, b);
+    const c = runCashFlowSimulation(model(1), [FIXED], { ...OPTS, seed: 8 })!;
+    assert.notDeepEqual(a.years[0].dscr, c.years[0].dscr);
+  });
+
+  it("reports one row per year of the term with policy probabilities", () => {
+    const sim = runCashFlowSimulation(model(1), [FIXED], OPTS)!;
+    assert.equal(sim.horizonYears, 10);
+    assert.equal(sim.years.length, 10);
+    assert.equal(sim.policyMinimumDscr, 1.25);
+    for (const y of sim.years) {
+      assert.ok(y.probBelowPolicy! >= y.probBelowOne);
+      assert.ok(y.dscr.p5 <= y.dscr.p50 && y.dscr.p50 <= y.dscr.p95);
+    }
+  });
+
+  it("cumulative probabilities are non-decreasing and bound the annual ones", () => {
+    const sim = runCashFlowSimulation(model(0.7), [FIXED], OPTS)!;
+    let prev = 0;
+    for (const y of sim.years) {
+      assert.ok(y.cumulativeProbBelowOne >= prev);
+      assert.ok(y.cumulativeProbBelowOne >= y.probBelowOne - 1e-12);
+      prev = y.cumulativeProbBelowOne;
+    }
+    assert.equal(sim.termProbBelowOne, prev);
+  });
+
+  it("weaker cash flow raises the probability of default", () => {
+    const strong = runCashFlowSimulation(model(1.5), [FIXED], OPTS)!;
+    const weak = runCashFlowSimulation(model(0.6), [FIXED], OPTS)!;
+    assert.ok(weak.termProbBelowOne > strong.termProbBelowOne);
+  });
+
+  it("fixed debt service is constant across paths; floating varies", () => {
+    const fixed = runCashFlowSimulation(model(1), [FIXED], OPTS)!;
+    const floating = runCashFlowSimulation(model(1), [FLOATING], OPTS)!;
+    const y3Fixed = fixed.years[2].annualDebtService;
+    const y3Float = floating.years[2].annualDebtService;
+    assert.ok(Math.abs(y3Fixed.p95 - y3Fixed.p5) < 1e-6);
+    assert.ok(y3Float.p95 > y3Float.p5);
+    // Floor limits downside: the p5 debt service is at or above the floor payment
+    assert.ok(y3Float.p5 > 0);
+  });
+
+  it("honors the horizon cap", () => {
+    const sim = runCashFlowSimulation(model(1), [FIXED], { ...OPTS, horizonYears: 3 })!;
+    assert.equal(sim.years.length, 3);
+  });
+
+  it("returns undefined without instruments", () => {
+    assert.equal(runCashFlowSimulation(model(1), [], OPTS), undefined);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Wiring
+// ---------------------------------------------------------------------------
+
+describe("Simulation wiring", () => {
+  it("runStressScenarios attaches the simulation only when requested", () => {
+    const snapshotOpts = { strategy: "LATEST_AVAILABLE" as const, instruments: [FIXED] };
+    const off = runStressScenarios(model(1), [FIXED], snapshotOpts, { product: "SBA" })!;
+    assert.equal(off.simulation, undefined);
+    const on = runStressScenarios(model(1), [FIXED], snapshotOpts, {
+      product: "SBA",
+      simulation: { iterations: 200 },
+    })!;
+    assert.equal(on.simulation?.iterations, 200);
+  });
+
+  it("runFullUnderwrite adds the memo section when the bank enables simulation", () => {
+    const without = runFullUnderwrite({ model: model(1), product: "SBA", instruments: [FIXED] });
+    assert.ok("memo" in without);
+    assert.equal(without.memo.sections.cashFlowSimulation, undefined);
+
+    const result = runFullUnderwrite({
+      model: model(1),
+      product: "SBA",
+      instruments: [FIXED],
+      naicsCode: "332710",
+      bankConfig: {
+        id: "cfg-1",
+        bankId: "bank-1",
+        version: 1,
+        policy: {},
+        stress: { simulation: { enabled: true, iterations: 200 } },
+        pricing: {},
+      },
+    });
+    assert.ok("memo" in result);
+    const section = result.memo.sections.cashFlowSimulation!;
+    assert.equal(section.title, "Cash Flow Simulation");
+    assert.match(section.content, /below 1\.00x in at least one year/);
+    assert.match(section.content, /policy minimum/);
+    assert.equal(section.bullets?.length, 10);
+    assert.match(section.bullets![0], /^Year 1: P\(DSCR < 1\.00x\)/);
+    // Inserted directly after the stress analysis
+    const keys = Object.keys(result.memo.sections);
+    assert.equal(keys[keys.indexOf("stressAnalysis") + 1], "cashFlowSimulation");
+  });
+});
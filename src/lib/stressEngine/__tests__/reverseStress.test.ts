@@ -0,0 +1,224 @@
+/**
+ * Stress Engine — Custom Scenario & Reverse Stress Tests
+ *
+ * Bank-configured scenarios (configEngine), AR slowdown and revenue
+ * flow-through transforms, and the breakeven solver.
+ * Uses node:test + node:assert/strict.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import type { FinancialModel } from "@/lib/modelEngine/types";
+import type { DebtInstrument } from "@/lib/debtEngine/types";
+import type { CreditSnapshotOpts } from "@/lib/creditMetrics/types";
+import { computeCreditSnapshot } from "@/lib/creditMetrics";
+import { computeAnnualDebtService } from "@/lib/debtEngine";
+import { applyArSlowdown, applyRevenueDeclineFlowThrough } from "../modelTransforms";
+import { solveReverseStress } from "../reverseStress";
+import { runStressScenarios } from "../index";
+import { STRESS_SCENARIOS } from "../scenarios";
+import {
+  resolveStressScenarios,
+  validateCustomScenario,
+} from "@/lib/configEngine/stressScenarios";
+import { buildStressAnalysis } from "@/lib/memoEngine/sections";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MODEL: FinancialModel = {
+  dealId: "test-reverse",
+  periods: [
+    {
+      periodId: "fy-2024",
+      periodEnd: "2024-12-31",
+      type: "FYE",
+      income: {
+        revenue: 1_000_000,
+        cogs: 400_000,
+        operatingExpenses: 200_000,
+        interest: 30_000,
+      },
+      balance: {
+        accountsReceivable: 80_000,
+        shortTermDebt: 50_000,
+        longTermDebt: 500_000,
+        totalLiabilities: 800_000,
+        equity: 1_200_000,
+      },
+      cashflow: { ebitda: 400_000 },
+      qualityFlags: [],
+    },
+  ],
+};
+
+const INSTRUMENTS: DebtInstrument[] = [
+  {
+    id: "term-loan",
+    source: "proposed",
+    principal: 1_500_000,
+    rate: 0.075,
+    amortizationMonths: 120,
+    paymentFrequency: "monthly",
+  },
+];
+
+const OPTS: CreditSnapshotOpts = { strategy: "LATEST_AVAILABLE", instruments: INSTRUMENTS };
+
+const DS = computeAnnualDebtService(INSTRUMENTS[0]).annualDebtService!;
+
+function dscrOf(model: FinancialModel, instruments = INSTRUMENTS): number {
+  return computeCreditSnapshot(model, { ...OPTS, instruments })!.ratios.metrics.dscr!.value!;
+}
+
+// ---------------------------------------------------------------------------
+// Transforms
+// ---------------------------------------------------------------------------
+
+describe("applyRevenueDeclineFlowThrough", () => {
+  it("reduces EBITDA by lost gross profit", () => {
+    const stressed = applyRevenueDeclineFlowThrough(MODEL, 0.25);
+    const p = stressed.periods[0];
+    assert.equal(p.income.revenue, 750_000);
+    assert.equal(p.income.cogs, 300_000);
+    // 250k lost revenue × 60% gross margin = 150k
+    assert.equal(p.cashflow.ebitda, 250_000);
+    assert.equal(MODEL.periods[0].cashflow.ebitda, 400_000, "input not mutated");
+  });
+});
+
+describe("applyArSlowdown", () => {
+  it("deducts the AR build from EBITDA", () => {
+    const stressed = applyArSlowdown(MODEL, 73);
+    const p = stressed.periods[0];
+    assert.equal(p.cashflow.ebitda, 200_000);
+    assert.equal(p.balance.accountsReceivable, 280_000);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Bank-configured scenarios
+// ---------------------------------------------------------------------------
+
+describe("resolveStressScenarios", () => {
+  it("appends valid custom scenarios after the system defaults", () => {
+    const scenarios = resolveStressScenarios({
+      customScenarios: [
+        { id: "SEVERE_RECESSION", label: "Rev -25% + Rate +300 + AR +60d", revenueDecline: 0.25, rateShockBps: 300, arSlowdownDays: 60 },
+        { id: "bad id", label: "x", ebitdaHaircut: 0.1 },
+      ],
+    })!;
+    assert.equal(scenarios.length, STRESS_SCENARIOS.length + 1);
+    assert.equal(scenarios[0].key, "BASELINE");
+    const custom = scenarios[scenarios.length - 1];
+    assert.equal(custom.key, "CUSTOM_SEVERE_RECESSION");
+    assert.equal(custom.revenueFlowsToEbitda, true);
+    assert.equal(custom.arSlowdownDays, 60);
+  });
+
+  it("returns undefined without overrides so system defaults apply", () => {
+    assert.equal(resolveStressScenarios(undefined), undefined);
+    assert.equal(resolveStressScenarios({}), undefined);
+  });
+
+  it("validates bounds and requires at least one shock", () => {
+    assert.deepEqual(validateCustomScenario({ id: "OK", label: "ok", rateShockBps: 300 }), []);
+    assert.ok(validateCustomScenario({ id: "X", label: "x", revenueDecline: 1.5 }).length > 0);
+    assert.ok(validateCustomScenario({ id: "X", label: "x" }).length > 0);
+  });
+
+  it("custom scenario flows through runStressScenarios", () => {
+    const scenarios = resolveStressScenarios({
+      customScenarios: [
+        { id: "SEVERE", label: "Severe", revenueDecline: 0.25, rateShockBps: 300, arSlowdownDays: 60 },
+      ],
+    });
+    const result = runStressScenarios(MODEL, INSTRUMENTS, OPTS, { product: "SBA", scenarios })!;
+    const severe = result.scenarios.find((s) => s.key === "CUSTOM_SEVERE")!;
+    assert.ok(severe);
+    assert.ok(severe.dscrDelta! < 0);
+    assert.ok(severe.debtServiceDelta! > 0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Reverse stress
+// ---------------------------------------------------------------------------
+
+describe("solveReverseStress", () => {
+  const result = solveReverseStress(MODEL, INSTRUMENTS, OPTS, { product: "SBA" })!;
+
+  function find(lever: string, target: number) {
+    return result.breakevens.find((b) => b.lever === lever && b.targetDscr === target)!;
+  }
+
+  it("solves for both 1.00x and the SBA policy minimum", () => {
+    assert.equal(result.policyMinimumDscr, 1.25);
+    assert.equal(result.breakevens.length, 6);
+  });
+
+  it("EBITDA haircut breakeven matches the closed form", () => {
+    const b = find("EBITDA_HAIRCUT", 1.0);
+    assert.ok(Math.abs(b.breakeven! - (1 - DS / 400_000)) < 1e-3);
+  });
+
+  it("revenue decline breakeven drives DSCR to the target", () => {
+    const b = find("REVENUE_DECLINE", 1.25);
+    const dscr = dscrOf(applyRevenueDeclineFlowThrough(MODEL, b.breakeven!));
+    assert.ok(Math.abs(dscr - 1.25) < 0.01);
+  });
+
+  it("rate shock breakeven drives DSCR to the target", () => {
+    const b = find("RATE_SHOCK", 1.25);
+    assert.ok(b.breakeven !== null && b.breakeven > 0);
+    const shocked = INSTRUMENTS.map((i) => ({ ...i, rate: i.rate + b.breakeven! / 10_000 }));
+    assert.ok(Math.abs(dscrOf(MODEL, shocked) - 1.25) < 0.01);
+  });
+
+  it("policy-minimum breakevens are smaller shocks than 1.00x breakevens", () => {
+    assert.ok(find("EBITDA_HAIRCUT", 1.25).breakeven! < find("EBITDA_HAIRCUT", 1.0).breakeven!);
+  });
+
+  it("honors bank policy overrides for the DSCR minimum", () => {
+    const r = solveReverseStress(MODEL, INSTRUMENTS, OPTS, {
+      product: "SBA",
+      policyConfig: { thresholds: [{ product: "SBA", metric: "dscr", minimum: 1.4 }] },
+    })!;
+    assert.equal(r.policyMinimumDscr, 1.4);
+  });
+
+  it("reports null when a capped rate shock cannot reach the target", () => {
+    const capped: DebtInstrument[] = [{
+      ...INSTRUMENTS[0],
+      floating: { index: "PRIME", spread: 0.0, cap: 0.08, resetFrequencyMonths: 12 },
+    }];
+    const r = solveReverseStress(MODEL, capped, { ...OPTS, instruments: capped }, { product: "SBA" })!;
+    const b = r.breakevens.find((x) => x.lever === "RATE_SHOCK" && x.targetDscr === 1.0)!;
+    assert.equal(b.breakeven, null);
+  });
+
+  it("returns zero when baseline is already below target", () => {
+    const weak: FinancialModel = {
+      ...MODEL,
+      periods: [{ ...MODEL.periods[0], cashflow: { ebitda: DS * 0.9 } }],
+    };
+    const r = solveReverseStress(weak, INSTRUMENTS, OPTS, { product: "SBA" })!;
+    assert.ok(r.breakevens.every((b) => b.breakeven === 0));
+  });
+});
+
+describe("Reverse stress in runner output and memo", () => {
+  it("attaches breakevens when requested and renders memo bullets", () => {
+    const result = runStressScenarios(MODEL, INSTRUMENTS, OPTS, { product: "SBA", reverseStress: true })!;
+    assert.ok(result.reverseStress);
+    const section = buildStressAnalysis({ stress: result } as Parameters<typeof buildStressAnalysis>[0]);
+    assert.ok(section.bullets?.some((b) => b.startsWith("EBITDA haircut to DSCR 1.00x")));
+  });
+
+  it("omits reverse stress by default", () => {
+    const result = runStressScenarios(MODEL, INSTRUMENTS, OPTS, { product: "SBA" })!;
+    assert.equal(result.reverseStress, undefined);
+  });
+});
@@ -306,6 +306,33 @@ describe("runScenario", () => {
     );
   });
 
+  it("applies the EBITDA haircut to EBITDA after a flow-through revenue decline", () => {
+    const baseline = runScenario(
+      STRESS_SCENARIOS[0], STRONG_MODEL, INSTRUMENTS, DEFAULT_OPTS, "SBA",
+    );
+    assert.ok(baseline);
+
+    const stressed = runScenario(
+      {
+        key: "CUSTOM_REV_AND_EBITDA",
+        label: "Revenue -10% flowing through, EBITDA -10%",
+        revenueHaircut: 0.10,
+        revenueFlowsToEbitda: true,
+        ebitdaHaircut: 0.10,
+      },
+      STRONG_MODEL, INSTRUMENTS, DEFAULT_OPTS, "SBA", baseline,
+    );
+    assert.ok(stressed);
+
+    // 400k EBITDA loses 60k of gross profit (10% of 1M revenue at a 60%
+    // margin) = 340k, then the 10% haircut = 306k. The reverse order
+    // would give 360k - 60k = 300k.
+    const ratio =
+      stressed.snapshot.ratios.metrics.dscr!.value! /
+      baseline.snapshot.ratios.metrics.dscr!.value!;
+    assert.ok(Math.abs(ratio - 306_000 / 400_000) < 1e-9, `DSCR ratio ${ratio}`);
+  });
+
   it("returns undefined when model has no periods", () => {
     const emptyModel: FinancialModel = { dealId: "empty", periods: [] };
     const result = runScenario(
@@ -11,22 +11,43 @@ import type { DebtInstrument } from "@/lib/debtEngine/types";
 import type { CreditSnapshotOpts } from "@/lib/creditMetrics/types";
 import type { ProductType } from "@/lib/creditLenses/types";
 import type { RiskTier } from "@/lib/policyEngine/types";
+import type { PolicyConfigOverride } from "@/lib/configEngine/types";
 import type { StressResult, StressScenarioDefinition, StressScenarioResult } from "./types";
 import { STRESS_SCENARIOS } from "./scenarios";
 import { runScenario } from "./runner";
+import { solveReverseStress } from "./reverseStress";
+import { runCashFlowSimulation, type SimulationOpts } from "./monteCarlo";
 
 // Re-export types
 export type {
   StressScenarioKey,
+  BuiltInStressScenarioKey,
+  CustomStressScenarioKey,
   StressScenarioDefinition,
   StressScenarioResult,
   StressResult,
+  ReverseStressLever,
+  ReverseStressBreakeven,
+  ReverseStressResult,
+  SimulationCalibration,
+  DscrPercentileBand,
+  SimulationYearResult,
+  SimulationResult,
 } from "./types";
 
 // Re-export sub-modules
 export { STRESS_SCENARIOS, getScenarioDefinition } from "./scenarios";
-export { applyEbitdaHaircut, applyRevenueHaircut, applyRateShock } from "./modelTransforms";
+export {
+  applyEbitdaHaircut,
+  applyRevenueHaircut,
+  applyRevenueDeclineFlowThrough,
+  applyArSlowdown,
+  applyRateShock,
+} from "./modelTransforms";
 export { runScenario } from "./runner";
+export { solveReverseStress, REVERSE_STRESS_LEVERS } from "./reverseStress";
+export { runCashFlowSimulation, calibrateSimulation } from "./monteCarlo";
+export type { SimulationOpts } from "./monteCarlo";
 
 // ---------------------------------------------------------------------------
 // Tier comparison
@@ -51,6 +72,12 @@ export interface StressOpts {
   product: ProductType;
   /** Custom stress scenarios. If provided, replaces system defaults entirely. */
   scenarios?: StressScenarioDefinition[];
+  /** Bank policy overrides, applied when evaluating each stressed snapshot */
+  policyConfig?: PolicyConfigOverride;
+  /** Also solve breakeven shocks for DSCR = 1.00x and the policy minimum */
+  reverseStress?: boolean | { additionalTargets?: number[] };
+  /** Also run the Monte Carlo DSCR simulation over the loan term */
+  simulation?: boolean | Omit<SimulationOpts, "product" | "policyConfig">;
 }
 
 /**
@@ -60,6 +87,8 @@ export interface StressOpts {
  * 1. Run BASELINE scenario (no transforms) to establish reference
  * 2. Run each stress scenario with appropriate transforms
  * 3. Compute aggregate: worstTier, tierDegraded
+ * 4. Optionally solve reverse-stress breakevens
+ * 5. Optionally simulate the DSCR distribution (Monte Carlo)
  *
  * Returns undefined if baseline snapshot fails (no suitable period).
  *
@@ -81,6 +110,8 @@ export function runStressScenarios(
     instruments,
     snapshotOpts,
     opts.product,
+    undefined,
+    opts.policyConfig,
   );
 
   if (!baseline) return undefined;
@@ -96,6 +127,7 @@ export function runStressScenarios(
       snapshotOpts,
       opts.product,
       baseline,
+      opts.policyConfig,
     );
 
     if (result) {
@@ -114,10 +146,29 @@ export function runStressScenarios(
     }
   }
 
+  const reverseStress = opts.reverseStress
+    ? solveReverseStress(model, instruments, snapshotOpts, {
+        product: opts.product,
+        policyConfig: opts.policyConfig,
+        additionalTargets:
+          typeof opts.reverseStress === "object" ? opts.reverseStress.additionalTargets : undefined,
+      })
+    : undefined;
+
+  const simulation = opts.simulation
+    ? runCashFlowSimulation(model, instruments, {
+        ...(typeof opts.simulation === "object" ? opts.simulation : {}),
+        product: opts.product,
+        policyConfig: opts.policyConfig,
+      })
+    : undefined;
+
   return {
     baseline,
     scenarios,
     worstTier: worst,
     tierDegraded,
+    ...(reverseStress ? { reverseStress } : {}),
+    ...(simulation ? { simulation } : {}),
   };
 }
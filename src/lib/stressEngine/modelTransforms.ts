@@ -71,6 +71,87 @@ export function applyRevenueHaircut(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Revenue Decline (flow-through)
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply a revenue decline that flows through to EBITDA.
+ *
+ * - haircut = 0.25 → revenue and COGS reduced 25%, operating expenses fixed
+ * - EBITDA falls by the lost gross profit (revenue loss × gross margin)
+ * - Without COGS, gross margin is taken as 100% (entire loss hits EBITDA)
+ * - Returns a new model; input is never mutated
+ */
+export function applyRevenueDeclineFlowThrough(
+  model: FinancialModel,
+  haircut: number,
+): FinancialModel {
+  return {
+    ...model,
+    periods: model.periods.map((p): FinancialPeriod => {
+      const revenue = p.income.revenue;
+      if (revenue === undefined) return p;
+      const cogs = p.income.cogs;
+      const grossMargin = cogs !== undefined && revenue !== 0 ? (revenue - cogs) / revenue : 1;
+      const lostGrossProfit = revenue * haircut * grossMargin;
+      return {
+        ...p,
+        income: {
+          ...p.income,
+          revenue: revenue * (1 - haircut),
+          cogs: cogs !== undefined ? cogs * (1 - haircut) : undefined,
+        },
+        cashflow: {
+          ...p.cashflow,
+          ebitda:
+            p.cashflow.ebitda !== undefined
+              ? p.cashflow.ebitda - lostGrossProfit
+              : undefined,
+        },
+      };
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// AR Slowdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply a collections slowdown to all periods.
+ *
+ * - days = 60 → receivables build by revenue × 60/365
+ * - The AR build is cash not collected in the year, so it is deducted
+ *   from EBITDA (the cash-flow proxy DSCR is computed on)
+ * - Periods without revenue or EBITDA are left unchanged
+ * - Returns a new model; input is never mutated
+ */
+export function applyArSlowdown(
+  model: FinancialModel,
+  days: number,
+): FinancialModel {
+  return {
+    ...model,
+    periods: model.periods.map((p): FinancialPeriod => {
+      const revenue = p.income.revenue;
+      if (revenue === undefined || p.cashflow.ebitda === undefined) return p;
+      const arBuild = (revenue * days) / 365;
+      return {
+        ...p,
+        balance: {
+          ...p.balance,
+          accountsReceivable:
+            p.balance.accountsReceivable !== undefined
+              ? p.balance.accountsReceivable + arBuild
+              : undefined,
+        },
+        cashflow: { ...p.cashflow, ebitda: p.cashflow.ebitda - arBuild },
+      };
+    }),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Rate Shock
 // ---------------------------------------------------------------------------
@@ -79,6 +160,10 @@ export function applyRevenueHaircut(
  * Apply a rate shock to debt instruments.
  *
  * - shockBps = 200 → each instrument's rate increases by 2.00%
+ * - Floating instruments: the shocked all-in rate never exceeds the
+ *   lifetime cap; the spread moves with the shock so forward-path
+ *   projections see the same parallel shift
+ * - Step-rate schedules shift by the same amount
  * - Returns undefined if instruments is undefined or empty
  * - Returns a new array; input is never mutated
  */
@@ -88,8 +173,20 @@ export function applyRateShock(
 ): DebtInstrument[] | undefined {
   if (!instruments || instruments.length === 0) return undefined;
 
-  return instruments.map((inst) => ({
-    ...inst,
-    rate: inst.rate + shockBps / 10_000,
-  }));
+  const shock = shockBps / 10_000;
+  return instruments.map((inst) => {
+    const shocked: DebtInstrument = { ...inst, rate: inst.rate + shock };
+    if (inst.floating) {
+      shocked.floating = { ...inst.floating, spread: inst.floating.spread + shock };
+      if (inst.floating.cap !== undefined) shocked.rate = Math.min(shocked.rate, inst.floating.cap);
+    }
+    if (inst.rateSteps) {
+      shocked.rateSteps = inst.rateSteps.map((s) => ({
+        ...s,
+        ...(s.rate !== undefined ? { rate: s.rate + shock } : {}),
+        ...(s.spread !== undefined ? { spread: s.spread + shock } : {}),
+      }));
+    }
+    return shocked;
+  });
 }
@@ -0,0 +1,322 @@
+/**
+ * Stress Engine — Cash-Flow Simulation (Monte Carlo)
+ *
+ * Complements the deterministic point scenarios with a distribution of
+ * DSCR outcomes for each year of the term. Each iteration draws:
+ *
+ * - Revenue growth: annual log growth ~ N(mean, vol)
+ * - EBITDA margin: mean-reverting (AR(1)) around the borrower's average
+ * - Index rates: random-walk parallel shift applied to floating instruments
+ *   (re-amortized through the debt engine, so floors/caps/resets apply)
+ *
+ * Calibration blends the borrower's own historical FYE periods with the
+ * industry volatility prior (benchmarks), weighting the prior more heavily
+ * when the borrower has few periods of history.
+ *
+ * Seeded PRNG — identical inputs and seed give identical output.
+ *
+ * Pure computation — no DB, no side effects.
+ */
+
+import type { FinancialModel, FinancialPeriod } from "@/lib/modelEngine/types";
+import type { DebtInstrument, ForwardRatePath } from "@/lib/debtEngine/types";
+import type { ProductType } from "@/lib/creditLenses/types";
+import type { PolicyConfigOverride } from "@/lib/configEngine/types";
+import { projectPaymentSchedule } from "@/lib/debtEngine/amortization";
+import { getIndustryVolatility } from "@/lib/benchmarks/industryBenchmarks";
+import { resolvePolicyThresholds } from "@/lib/policyEngine/evaluator";
+import type {
+  DscrPercentileBand,
+  SimulationCalibration,
+  SimulationResult,
+  SimulationYearResult,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_ITERATIONS = 2_000;
+const MAX_ITERATIONS = 20_000;
+const DEFAULT_SEED = 42;
+const DEFAULT_HORIZON_CAP_YEARS = 10;
+/** Annual index shock standard deviation (100bps). */
+const DEFAULT_RATE_VOL = 0.01;
+/** Credibility constant: industry weight = K / (K + borrower growth observations). */
+const CREDIBILITY_K = 3;
+/** Year-over-year persistence of margin deviations from the mean. */
+const MARGIN_PERSISTENCE = 0.5;
+
+export interface SimulationOpts {
+  product: ProductType;
+  policyConfig?: PolicyConfigOverride;
+  naicsCode?: string;
+  iterations?: number;
+  seed?: number;
+  /** Cap on simulated years; default is the longest instrument term, max 10 */
+  horizonYears?: number;
+  rateVol?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Random numbers
+// ---------------------------------------------------------------------------
+
+/** mulberry32 — small, fast, seedable 32-bit PRNG. */
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal via Box-Muller. */
+function createNormal(rng: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const s = spare;
+      spare = null;
+      return s;
+    }
+    let u = 0;
+    while (u === 0) u = rng();
+    const v = rng();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Statistics
+// ---------------------------------------------------------------------------
+
+function mean(xs: number[]): number {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+function sampleStd(xs: number[]): number | undefined {
+  if (xs.length < 2) return undefined;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((a, x) => a + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+/** Linear-interpolated quantile of an ascending-sorted array. */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function band(values: number[]): DscrPercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: quantile(sorted, 0.05),
+    p25: quantile(sorted, 0.25),
+    p50: quantile(sorted, 0.5),
+    p75: quantile(sorted, 0.75),
+    p95: quantile(sorted, 0.95),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Calibration
+// ---------------------------------------------------------------------------
+
+function hasRevenueAndEbitda(p: FinancialPeriod): boolean {
+  return (p.income.revenue ?? 0) > 0 && p.cashflow.ebitda !== undefined;
+}
+
+/**
+ * Calibrate growth and margin distributions from the borrower's FYE
+ * history, blended with the industry prior. Returns undefined when the
+ * model has no period with both revenue and EBITDA.
+ */
+export function calibrateSimulation(
+  model: FinancialModel,
+  opts: Pick<SimulationOpts, "naicsCode" | "rateVol"> = {},
+): (SimulationCalibration & { startingRevenue: number }) | undefined {
+  const usable = model.periods
+    .filter(hasRevenueAndEbitda)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
+  if (usable.length === 0) return undefined;
+
+  const latest = usable[usable.length - 1];
+  const startingRevenue = latest.income.revenue!;
+  const startingMargin = latest.cashflow.ebitda! / startingRevenue;
+
+  const annual = usable.filter((p) => p.type === "FYE");
+  const growth: number[] = [];
+  for (let i = 1; i < annual.length; i++) {
+    growth.push(Math.log(annual[i].income.revenue! / annual[i - 1].income.revenue!));
+  }
+  const margins = annual.map((p) => p.cashflow.ebitda! / p.income.revenue!);
+  const marginChanges = margins.slice(1).map((m, i) => m - margins[i]);
+
+  const industry = getIndustryVolatility(opts.naicsCode, startingRevenue);
+  const w = CREDIBILITY_K / (CREDIBILITY_K + growth.length);
+
+  const blend = (prior: number, own: number | undefined) =>
+    own === undefined ? prior : w * prior + (1 - w) * own;
+
+  return {
+    revenueGrowthMean: blend(industry.revenueGrowthMean, growth.length > 0 ? mean(growth) : undefined),
+    revenueGrowthVol: blend(industry.revenueGrowthVol, sampleStd(growth)),
+    startingMargin,
+    meanMargin: margins.length > 0 ? mean(margins) : startingMargin,
+    marginVol: blend(industry.ebitdaMarginVol, sampleStd(marginChanges)),
+    rateVol: opts.rateVol ?? DEFAULT_RATE_VOL,
+    historyPeriods: annual.length,
+    industryWeight: w,
+    ...(opts.naicsCode ? { naicsCode: opts.naicsCode, naicsDescription: industry.naicsDescription } : {}),
+    startingRevenue,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Debt service paths
+// ---------------------------------------------------------------------------
+
+function annualDs(instrument: DebtInstrument, path?: ForwardRatePath): number[] {
+  return projectPaymentSchedule(instrument, path).annual.map((y) => y.debtService);
+}
+
+function shiftedPath(instrument: DebtInstrument, shifts: number[]): ForwardRatePath {
+  const fl = instrument.floating!;
+  const baseIndex = instrument.rate - fl.spread;
+  return {
+    index: fl.index,
+    points: shifts.map((s, i) => ({ month: i * 12 + 1, rate: Math.max(0, baseIndex + s) })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Simulate annual DSCR over the loan term and report, per year, the
+ * probability DSCR falls below 1.00x and below the policy minimum, plus
+ * percentile bands.
+ *
+ * Returns undefined when there is no revenue/EBITDA history or no debt
+ * service to test against.
+ *
+ * Pure function — deterministic for a given seed, no side effects.
+ */
+export function runCashFlowSimulation(
+  model: FinancialModel,
+  instruments: DebtInstrument[] | undefined,
+  opts: SimulationOpts,
+): SimulationResult | undefined {
+  const calibration = calibrateSimulation(model, opts);
+  if (!calibration || !instruments || instruments.length === 0) return undefined;
+  const { startingRevenue, ...cal } = calibration;
+
+  const fixedDs = instruments.map((i) => (i.floating ? null : annualDs(i)));
+  const termYears = Math.max(
+    ...instruments.map((i, k) => fixedDs[k]?.length ?? annualDs(i).length),
+  );
+  if (termYears === 0) return undefined;
+  const horizonYears = Math.max(
+    1,
+    Math.min(termYears, opts.horizonYears ?? DEFAULT_HORIZON_CAP_YEARS),
+  );
+
+  const iterations = Math.min(MAX_ITERATIONS, Math.max(1, Math.floor(opts.iterations ?? DEFAULT_ITERATIONS)));
+  const seed = opts.seed ?? DEFAULT_SEED;
+  const normal = createNormal(createRng(seed));
+
+  const policyMinimumDscr = resolvePolicyThresholds(opts.product, opts.policyConfig)
+    .find((t) => t.metric === "dscr")?.minimum;
+
+  const dscrByYear: number[][] = Array.from({ length: horizonYears }, () => []);
+  const dsByYear: number[][] = Array.from({ length: horizonYears }, () => []);
+  const firstBreachOne = new Array<number>(horizonYears).fill(0);
+  const firstBreachPolicy = new Array<number>(horizonYears).fill(0);
+
+  for (let it = 0; it < iterations; it++) {
+    // Rate path: cumulative parallel shift per year
+    const shifts: number[] = [];
+    let shift = 0;
+    for (let y = 0; y < horizonYears; y++) {
+      shift += normal() * cal.rateVol;
+      shifts.push(shift);
+    }
+
+    const ds = new Array<number>(horizonYears).fill(0);
+    instruments.forEach((inst, k) => {
+      const schedule = fixedDs[k] ?? annualDs(inst, shiftedPath(inst, shifts));
+      for (let y = 0; y < horizonYears; y++) ds[y] += schedule[y] ?? 0;
+    });
+
+    let revenue = startingRevenue;
+    let margin = cal.startingMargin;
+    let breachedOne = false;
+    let breachedPolicy = false;
+
+    for (let y = 0; y < horizonYears; y++) {
+      revenue *= Math.exp(cal.revenueGrowthMean + normal() * cal.revenueGrowthVol);
+      margin = cal.meanMargin + MARGIN_PERSISTENCE * (margin - cal.meanMargin) + normal() * cal.marginVol;
+      if (ds[y] <= 0) continue;
+
+      const dscr = (revenue * margin) / ds[y];
+      dscrByYear[y].push(dscr);
+      dsByYear[y].push(ds[y]);
+
+      if (!breachedOne && dscr < 1.0) {
+        breachedOne = true;
+        firstBreachOne[y]++;
+      }
+      if (policyMinimumDscr !== undefined && !breachedPolicy && dscr < policyMinimumDscr) {
+        breachedPolicy = true;
+        firstBreachPolicy[y]++;
+      }
+    }
+  }
+
+  const years: SimulationYearResult[] = [];
+  let cumOne = 0;
+  let cumPolicy = 0;
+  for (let y = 0; y < horizonYears; y++) {
+    const values = dscrByYear[y];
+    if (values.length === 0) break;
+    cumOne += firstBreachOne[y];
+    cumPolicy += firstBreachPolicy[y];
+    const n = values.length;
+    years.push({
+      year: y + 1,
+      probBelowOne: values.filter((v) => v < 1.0).length / n,
+      cumulativeProbBelowOne: cumOne / iterations,
+      ...(policyMinimumDscr !== undefined
+        ? {
+            probBelowPolicy: values.filter((v) => v < policyMinimumDscr).length / n,
+            cumulativeProbBelowPolicy: cumPolicy / iterations,
+          }
+        : {}),
+      dscr: band(values),
+      annualDebtService: band(dsByYear[y]),
+    });
+  }
+  if (years.length === 0) return undefined;
+
+  const last = years[years.length - 1];
+  return {
+    iterations,
+    seed,
+    horizonYears: years.length,
+    ...(policyMinimumDscr !== undefined ? { policyMinimumDscr } : {}),
+    calibration: cal,
+    years,
+    termProbBelowOne: last.cumulativeProbBelowOne,
+    ...(last.cumulativeProbBelowPolicy !== undefined
+      ? { termProbBelowPolicy: last.cumulativeProbBelowPolicy }
+      : {}),
+  };
+}
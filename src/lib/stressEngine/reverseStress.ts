@@ -0,0 +1,151 @@
+/**
+ * Stress Engine — Reverse Stress (Breakeven Solver)
+ *
+ * Solves, one lever at a time, for the shock at which DSCR falls to a
+ * target: 1.00x and the product's policy minimum. Levers are revenue
+ * decline (with gross-profit flow-through), EBITDA haircut, and rate shock.
+ *
+ * Bisection over the stressed snapshot — DSCR is non-increasing in each
+ * lever, so the first crossing is well defined. Rate shock may plateau at
+ * instrument caps, in which case the target is reported as not reached.
+ *
+ * Pure computation — no DB, no side effects.
+ */
+
+import type { FinancialModel } from "@/lib/modelEngine/types";
+import type { DebtInstrument } from "@/lib/debtEngine/types";
+import type { CreditSnapshotOpts } from "@/lib/creditMetrics/types";
+import type { ProductType } from "@/lib/creditLenses/types";
+import type { PolicyConfigOverride } from "@/lib/configEngine/types";
+import { computeCreditSnapshot } from "@/lib/creditMetrics";
+import { resolvePolicyThresholds } from "@/lib/policyEngine/evaluator";
+import type {
+  ReverseStressBreakeven,
+  ReverseStressLever,
+  ReverseStressResult,
+} from "./types";
+import { applyEbitdaHaircut, applyRevenueDeclineFlowThrough, applyRateShock } from "./modelTransforms";
+
+// ---------------------------------------------------------------------------
+// Bounds
+// ---------------------------------------------------------------------------
+
+const HAIRCUT_BOUND = 1.0;
+const RATE_SHOCK_BOUND_BPS = 2_000;
+const ITERATIONS = 40;
+/** Solved values are rounded to this precision (0.01% haircut, 1bp). */
+const HAIRCUT_PRECISION = 1e-4;
+const RATE_PRECISION_BPS = 1;
+
+export const REVERSE_STRESS_LEVERS: readonly ReverseStressLever[] = [
+  "REVENUE_DECLINE",
+  "EBITDA_HAIRCUT",
+  "RATE_SHOCK",
+] as const;
+
+export interface ReverseStressOpts {
+  product: ProductType;
+  policyConfig?: PolicyConfigOverride;
+  /** Extra DSCR targets beyond 1.00x and the policy minimum */
+  additionalTargets?: number[];
+}
+
+// ---------------------------------------------------------------------------
+// Lever evaluation
+// ---------------------------------------------------------------------------
+
+function stressedDscr(
+  lever: ReverseStressLever,
+  amount: number,
+  model: FinancialModel,
+  instruments: DebtInstrument[] | undefined,
+  snapshotOpts: CreditSnapshotOpts,
+): number | undefined {
+  let m = model;
+  let inst = instruments;
+  if (lever === "REVENUE_DECLINE") m = applyRevenueDeclineFlowThrough(model, amount);
+  else if (lever === "EBITDA_HAIRCUT") m = applyEbitdaHaircut(model, amount);
+  else inst = applyRateShock(instruments, amount);
+
+  const snapshot = computeCreditSnapshot(m, { ...snapshotOpts, instruments: inst });
+  return snapshot?.ratios.metrics.dscr?.value;
+}
+
+function solveLever(
+  lever: ReverseStressLever,
+  targetDscr: number,
+  baselineDscr: number,
+  model: FinancialModel,
+  instruments: DebtInstrument[] | undefined,
+  snapshotOpts: CreditSnapshotOpts,
+): ReverseStressBreakeven {
+  const bound = lever === "RATE_SHOCK" ? RATE_SHOCK_BOUND_BPS : HAIRCUT_BOUND;
+  const precision = lever === "RATE_SHOCK" ? RATE_PRECISION_BPS : HAIRCUT_PRECISION;
+
+  if (baselineDscr <= targetDscr) {
+    return { lever, targetDscr, breakeven: 0, searchBound: bound, note: "Baseline DSCR already at or below target." };
+  }
+
+  if (lever === "RATE_SHOCK" && (!instruments || instruments.length === 0)) {
+    return { lever, targetDscr, breakeven: null, searchBound: bound, note: "No debt instruments — rate shock has no effect." };
+  }
+
+  const atBound = stressedDscr(lever, bound, model, instruments, snapshotOpts);
+  if (atBound === undefined || atBound > targetDscr) {
+    return { lever, targetDscr, breakeven: null, searchBound: bound, note: "Target DSCR not reached within search bound." };
+  }
+
+  let lo = 0;
+  let hi = bound;
+  for (let i = 0; i < ITERATIONS && hi - lo > precision / 2; i++) {
+    const mid = (lo + hi) / 2;
+    const dscr = stressedDscr(lever, mid, model, instruments, snapshotOpts);
+    if (dscr !== undefined && dscr > targetDscr) lo = mid;
+    else hi = mid;
+  }
+
+  return {
+    lever,
+    targetDscr,
+    breakeven: lever === "RATE_SHOCK" ? Math.round(hi) : Number(hi.toFixed(4)),
+    searchBound: bound,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Solve breakeven shocks for DSCR = 1.00x and DSCR = policy minimum.
+ *
+ * Returns undefined when the baseline snapshot has no DSCR.
+ *
+ * Pure function — deterministic, no side effects.
+ */
+export function solveReverseStress(
+  model: FinancialModel,
+  instruments: DebtInstrument[] | undefined,
+  snapshotOpts: CreditSnapshotOpts,
+  opts: ReverseStressOpts,
+): ReverseStressResult | undefined {
+  const baseline = computeCreditSnapshot(model, { ...snapshotOpts, instruments });
+  const baselineDscr = baseline?.ratios.metrics.dscr?.value;
+  if (baselineDscr === undefined) return undefined;
+
+  const policyMinimumDscr = resolvePolicyThresholds(opts.product, opts.policyConfig)
+    .find((t) => t.metric === "dscr")?.minimum;
+
+  const targets = [...new Set([1.0, ...(policyMinimumDscr !== undefined ? [policyMinimumDscr] : []), ...(opts.additionalTargets ?? [])])]
+    .sort((a, b) => a - b);
+
+  const breakevens: ReverseStressBreakeven[] = [];
+  for (const lever of REVERSE_STRESS_LEVERS) {
+    for (const target of targets) {
+      breakevens.push(solveLever(lever, target, baselineDscr, model, instruments, snapshotOpts));
+    }
+  }
+
+  return { baselineDscr, policyMinimumDscr, breakevens };
+}
+
@@ -13,8 +13,15 @@ import type { CreditSnapshot, CreditSnapshotOpts } from "@/lib/creditMetrics/typ
 import { computeCreditSnapshot } from "@/lib/creditMetrics";
 import { evaluatePolicy } from "@/lib/policyEngine";
 import type { ProductType } from "@/lib/creditLenses/types";
+import type { PolicyConfigOverride } from "@/lib/configEngine/types";
 import type { StressScenarioDefinition, StressScenarioResult } from "./types";
-import { applyEbitdaHaircut, applyRevenueHaircut, applyRateShock } from "./modelTransforms";
+import {
+  applyEbitdaHaircut,
+  applyRevenueHaircut,
+  applyRevenueDeclineFlowThrough,
+  applyArSlowdown,
+  applyRateShock,
+} from "./modelTransforms";
 
 // ---------------------------------------------------------------------------
 // Single scenario execution
@@ -24,7 +31,7 @@ import { applyEbitdaHaircut, applyRevenueHaircut, applyRateShock } from "./model
  * Run a single stress scenario against a financial model.
  *
  * Steps:
- * 1. Apply model transforms (EBITDA haircut, revenue haircut)
+ * 1. Apply model transforms (revenue haircut, then EBITDA haircut, AR slowdown)
  * 2. Apply instrument transforms (rate shock)
  * 3. Compute credit snapshot from stressed inputs
  * 4. Evaluate policy against stressed snapshot
@@ -41,16 +48,24 @@ export function runScenario(
   snapshotOpts: CreditSnapshotOpts,
   product: ProductType,
   baseline?: StressScenarioResult,
+  policyConfig?: PolicyConfigOverride,
 ): StressScenarioResult | undefined {
   // Step 1: Apply model transforms
   let stressedModel = model;
 
+  if (scenario.revenueHaircut !== undefined) {
+    stressedModel = scenario.revenueFlowsToEbitda
+      ? applyRevenueDeclineFlowThrough(stressedModel, scenario.revenueHaircut)
+      : applyRevenueHaircut(stressedModel, scenario.revenueHaircut);
+  }
+
+  // The EBITDA haircut applies to EBITDA after the revenue decline
   if (scenario.ebitdaHaircut !== undefined) {
     stressedModel = applyEbitdaHaircut(stressedModel, scenario.ebitdaHaircut);
   }
 
-  if (scenario.revenueHaircut !== undefined) {
-    stressedModel = applyRevenueHaircut(stressedModel, scenario.revenueHaircut);
+  if (scenario.arSlowdownDays !== undefined) {
+    stressedModel = applyArSlowdown(stressedModel, scenario.arSlowdownDays);
   }
 
   // Step 2: Apply instrument transforms
@@ -70,7 +85,7 @@ export function runScenario(
   if (!snapshot) return undefined;
 
   // Step 4: Evaluate policy
-  const policy = evaluatePolicy(snapshot, product);
+  const policy = evaluatePolicy(snapshot, product, policyConfig);
 
   // Step 5: Compute deltas
   let dscrDelta: number | undefined;
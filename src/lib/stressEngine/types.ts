@@ -14,13 +14,18 @@ import type { PolicyResult, RiskTier } from "@/lib/policyEngine/types";
 // Scenario Keys
 // ---------------------------------------------------------------------------
 
-export type StressScenarioKey =
+export type BuiltInStressScenarioKey =
   | "BASELINE"
   | "EBITDA_10_DOWN"
   | "REVENUE_10_DOWN"
   | "RATE_PLUS_200"
   | "COMBINED_MODERATE";
 
+/** Bank-defined scenarios (configEngine) are namespaced CUSTOM_*. */
+export type CustomStressScenarioKey = `CUSTOM_${string}`;
+
+export type StressScenarioKey = BuiltInStressScenarioKey | CustomStressScenarioKey;
+
 // ---------------------------------------------------------------------------
 // Scenario Definition
 // ---------------------------------------------------------------------------
@@ -34,6 +39,14 @@ export interface StressScenarioDefinition {
   revenueHaircut?: number;
   /** Rate shock in basis points (e.g. 200 = +2.00%) */
   rateShockBps?: number;
+  /**
+   * When true, the revenue haircut also reduces EBITDA by the lost gross
+   * profit (COGS scale with revenue, operating expenses are fixed).
+   * Default false: revenue haircut leaves EBITDA untouched.
+   */
+  revenueFlowsToEbitda?: boolean;
+  /** Collections slowdown in days; the AR build is deducted from EBITDA */
+  arSlowdownDays?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -62,4 +75,96 @@ export interface StressResult {
   worstTier: RiskTier;
   /** True if any scenario produced a worse tier than baseline */
   tierDegraded: boolean;
+  /** Breakeven solve, present when requested via StressOpts.reverseStress */
+  reverseStress?: ReverseStressResult;
+  /** Monte Carlo DSCR distribution, present when requested via StressOpts.simulation */
+  simulation?: SimulationResult;
+}
+
+// ---------------------------------------------------------------------------
+// Reverse Stress
+// ---------------------------------------------------------------------------
+
+/**
+ * Single-lever shocks solved for a target DSCR:
+ * - REVENUE_DECLINE: revenue haircut with gross-profit flow-through (decimal)
+ * - EBITDA_HAIRCUT: EBITDA haircut (decimal)
+ * - RATE_SHOCK: rate shock in basis points
+ */
+export type ReverseStressLever = "REVENUE_DECLINE" | "EBITDA_HAIRCUT" | "RATE_SHOCK";
+
+export interface ReverseStressBreakeven {
+  lever: ReverseStressLever;
+  targetDscr: number;
+  /**
+   * Shock at which DSCR first reaches the target. 0 when baseline is already
+   * at or below target; null when the target is not reached within bounds.
+   */
+  breakeven: number | null;
+  /** Upper bound searched (1.0 for haircuts, bps for rate shock) */
+  searchBound: number;
+  note?: string;
+}
+
+export interface ReverseStressResult {
+  baselineDscr: number;
+  /** Policy DSCR minimum for the product (after bank overrides), if any */
+  policyMinimumDscr?: number;
+  breakevens: ReverseStressBreakeven[];
+}
+
+// ---------------------------------------------------------------------------
+// Cash-Flow Simulation (Monte Carlo)
+// ---------------------------------------------------------------------------
+
+export interface SimulationCalibration {
+  /** Annual log revenue growth drawn per year: N(mean, vol) */
+  revenueGrowthMean: number;
+  revenueGrowthVol: number;
+  /** Starting EBITDA margin and the long-run level it reverts to */
+  startingMargin: number;
+  meanMargin: number;
+  /** Year-over-year EBITDA margin shock standard deviation */
+  marginVol: number;
+  /** Annual index-rate shock standard deviation (decimal, e.g. 0.01 = 100bps) */
+  rateVol: number;
+  /** Number of historical periods used (borrower spreads) */
+  historyPeriods: number;
+  /** Weight on industry priors vs borrower history, 0–1 */
+  industryWeight: number;
+  naicsCode?: string;
+  naicsDescription?: string | null;
+}
+
+export interface DscrPercentileBand {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface SimulationYearResult {
+  year: number;
+  /** P(DSCR < 1.00x) in this year */
+  probBelowOne: number;
+  /** P(DSCR < policy minimum) in this year */
+  probBelowPolicy?: number;
+  /** P(DSCR < 1.00x in any year up to and including this one) */
+  cumulativeProbBelowOne: number;
+  cumulativeProbBelowPolicy?: number;
+  dscr: DscrPercentileBand;
+  annualDebtService: DscrPercentileBand;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: number;
+  horizonYears: number;
+  policyMinimumDscr?: number;
+  calibration: SimulationCalibration;
+  years: SimulationYearResult[];
+  /** P(DSCR < 1.00x in any year of the horizon) */
+  termProbBelowOne: number;
+  termProbBelowPolicy?: number;
 }
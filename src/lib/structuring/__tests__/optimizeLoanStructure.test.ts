@@ -0,0 +1,211 @@
+/**
+ * Loan structure optimizer tests.
+ * Feasibility against policy bounds, exact maximum loan, Pareto dominance,
+ * SBA guarantee caps, balloons/LTV for CRE, bank overrides, scenario bridge,
+ * and optimized scenarios in generateStructuringScenarios.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { resolveStructureBounds } from "@/lib/policyEngine";
+import type { OptimizedStructure } from "../types";
+import {
+  optimizeLoanStructure,
+  toStructuringScenario,
+  type LoanStructureOptimizerInput,
+} from "../optimizeLoanStructure";
+import { generateStructuringScenarios, type StructuringEngineInput } from "../generateStructuringScenarios";
+
+const SBA_INPUT: LoanStructureOptimizerInput = {
+  deal_id: "deal-opt",
+  product: "SBA",
+  requested_amount: 1_000_000,
+  annual_rate: 0.08,
+  cash_flow_available: 150_000,
+  base_transaction_amount: 1_200_000,
+  borrower_equity_available: 600_000,
+};
+
+function weaklyBetter(a: OptimizedStructure, b: OptimizedStructure): boolean {
+  return (
+    a.loan_amount >= b.loan_amount &&
+    a.borrower_cash_at_close <= b.borrower_cash_at_close &&
+    a.dscr >= b.dscr &&
+    a.amortization_months <= b.amortization_months &&
+    a.balloon_amount <= b.balloon_amount &&
+    a.bank_exposure <= b.bank_exposure
+  );
+}
+
+describe("optimizeLoanStructure", () => {
+  it("finds the requested amount approvable and keeps every front member inside policy", () => {
+    const f = optimizeLoanStructure(SBA_INPUT);
+    assert.equal(f.requested_is_approvable, true);
+    assert.equal(f.max_approvable?.loan_amount, 1_000_000);
+    assert.equal(f.max_approvable?.amortization_months, 300);
+    assert.equal(f.limits.min_dscr, 1.25);
+    assert.ok(f.front.length > 1);
+    for (const s of f.front) {
+      assert.ok(s.dscr >= 1.25 - 1e-9);
+      assert.ok(s.equity_injection >= 120_000 - 1e-6);
+      assert.ok(s.equity_injection <= 600_000 + 1e-6);
+      assert.ok(s.term_months <= s.amortization_months);
+    }
+  });
+
+  it("returns a true Pareto front", () => {
+    const { front } = optimizeLoanStructure(SBA_INPUT);
+    for (const a of front) {
+      for (const b of front) {
+        if (a === b) continue;
+        const strictly =
+          weaklyBetter(a, b) &&
+          (a.loan_amount > b.loan_amount ||
+            a.borrower_cash_at_close < b.borrower_cash_at_close ||
+            a.dscr > b.dscr ||
+            a.amortization_months < b.amortization_months ||
+            a.balloon_amount < b.balloon_amount ||
+            a.bank_exposure < b.bank_exposure);
+        assert.equal(strictly, false, `${a.id} dominates ${b.id}`);
+      }
+    }
+  });
+
+  it("offers faster amortization as a trade-off at lower amounts", () => {
+    const { front } = optimizeLoanStructure(SBA_INPUT);
+    const amorts = new Set(front.map((s) => s.amortization_months));
+    assert.ok(amorts.size > 1);
+    const shortest = front.filter((s) => s.amortization_months === Math.min(...amorts));
+    assert.ok(shortest.every((s) => s.loan_amount < 1_000_000));
+  });
+
+  it("solves the exact DSCR-limited maximum when cash flow is tight", () => {
+    const f = optimizeLoanStructure({ ...SBA_INPUT, cash_flow_available: 100_000 });
+    assert.equal(f.requested_is_approvable, false);
+    assert.ok((f.rejected_by.dscr ?? 0) > 0);
+    const best = f.max_approvable!;
+    assert.equal(best.binding_constraint, "dscr");
+    assert.ok(best.headroom < 0.02);
+    assert.equal(best.loan_amount % 1_000, 0);
+    // $1,000 more would breach 1.25x
+    const ads = ((best.loan_amount + 1_000) * best.annual_debt_service) / best.loan_amount;
+    assert.ok(100_000 / ads < 1.25);
+  });
+
+  it("rejects structures the borrower cannot fund", () => {
+    const f = optimizeLoanStructure({ ...SBA_INPUT, borrower_equity_available: 100_000 });
+    assert.equal(f.front.length, 0);
+    assert.equal(f.max_approvable, null);
+    assert.ok((f.rejected_by.borrower_equity ?? 0) > 0);
+  });
+
+  it("applies the SBA statutory guarantee cap and only trades guarantee against a fee", () => {
+    const small = optimizeLoanStructure({
+      ...SBA_INPUT,
+      requested_amount: 200_000,
+      base_transaction_amount: 240_000,
+    });
+    assert.ok(small.front.some((s) => s.loan_amount === 150_000 && s.guarantee_pct === 0.85));
+    assert.ok(small.front.filter((s) => s.loan_amount > 150_000).every((s) => s.guarantee_pct === 0.75));
+
+    const withFee = optimizeLoanStructure({ ...SBA_INPUT, guaranty_fee_pct: 0.035 });
+    const pcts = new Set(withFee.front.map((s) => s.guarantee_pct));
+    assert.ok(pcts.size > 1);
+  });
+
+  it("CRE: term below amortization leaves a balloon and LTV binds", () => {
+    const f = optimizeLoanStructure({
+      deal_id: "deal-cre",
+      product: "CRE",
+      requested_amount: 2_000_000,
+      annual_rate: 0.07,
+      cash_flow_available: 400_000,
+      base_transaction_amount: 2_500_000,
+      lendable_collateral_value: 2_200_000,
+    });
+    const best = f.max_approvable!;
+    assert.equal(best.loan_amount, 1_760_000);
+    assert.equal(best.binding_constraint, "ltv");
+    assert.equal(best.term_months, 120);
+    assert.ok(best.balloon_amount > 0);
+    assert.ok((f.rejected_by.ltv ?? 0) > 0);
+    assert.ok(f.front.every((s) => s.guarantee_pct === 0));
+  });
+
+  it("honors bank structure-bound overrides", () => {
+    const policy_config = {
+      structureBounds: [{ product: "SBA" as const, amortizationMonths: { max: 120 } }],
+    };
+    const bounds = resolveStructureBounds("SBA", policy_config);
+    assert.deepEqual(bounds.amortizationMonths, { min: 60, max: 120 });
+    assert.equal(bounds.minEquityPct, 0.1);
+
+    const f = optimizeLoanStructure({ ...SBA_INPUT, policy_config });
+    assert.ok(f.front.every((s) => s.amortization_months <= 120));
+    assert.ok(f.max_approvable!.loan_amount < 1_000_000);
+  });
+});
+
+describe("toStructuringScenario", () => {
+  it("maps loan and equity changes to applyable actions", () => {
+    const f = optimizeLoanStructure({ ...SBA_INPUT, cash_flow_available: 100_000 });
+    const scenario = toStructuringScenario(f.max_approvable!, SBA_INPUT);
+    assert.equal(scenario.recommendation_type, "reduce_loan_amount");
+    assert.equal(scenario.path_type, "inside_policy");
+    const kinds = scenario.actions.map((a) => a.kind);
+    assert.deepEqual(kinds, ["set_loan_amount", "set_equity_amount", "set_equity_pct"]);
+    assert.equal(scenario.projected_loan_amount, f.max_approvable!.loan_amount);
+    assert.match(scenario.summary, /DSCR 1\.2\dx/);
+  });
+
+  it("emits no actions for the structure as requested", () => {
+    const f = optimizeLoanStructure(SBA_INPUT);
+    const scenario = toStructuringScenario(f.max_approvable!, SBA_INPUT);
+    assert.deepEqual(scenario.actions, []);
+    assert.equal(scenario.recommendation_type, "other");
+  });
+});
+
+describe("generateStructuringScenarios with the optimizer", () => {
+  const ENGINE_INPUT: StructuringEngineInput = {
+    deal_id: "deal-opt",
+    requested_amount: 1_000_000,
+    ltv: { totalGrossValue: 0, totalLendableValue: 0, ltv: null, policyLimit: null, withinPolicy: null, itemsAwaitingReview: 0 },
+    equity_required_pct: 0.1,
+    equity_actual_pct: 0.05,
+    base_transaction_amount: 1_200_000,
+    collateral_items: [],
+    policy_exceptions: [{ type: "equity_shortfall", severity: "exception", description: "Equity below 10%" }],
+    readiness: {
+      credit_ready: false,
+      credit_ready_with_exceptions: false,
+      credit_ready_pct: 0,
+      credit_ready_blockers: [],
+      doc_ready: false,
+      doc_ready_pct: 0,
+      doc_ready_blockers: [],
+      policy_exceptions: [],
+    },
+    policy_resolution: { advance_rates: [], equity_requirement: null, ltv_limit: null },
+  };
+
+  it("adds the largest approvable structure from the front", () => {
+    const scenarios = generateStructuringScenarios({
+      ...ENGINE_INPUT,
+      optimizer: { product: "SBA", annual_rate: 0.08, cash_flow_available: 100_000, borrower_equity_available: 600_000 },
+    });
+    const frontier = optimizeLoanStructure({ ...SBA_INPUT, cash_flow_available: 100_000 });
+    const optimized = scenarios.find((s) => s.id === `scn_${frontier.max_approvable!.id}`);
+    assert.ok(optimized, "max approvable structure offered");
+    assert.equal(optimized.projected_loan_amount, frontier.max_approvable!.loan_amount);
+    assert.deepEqual(optimized.resolves_exception_keys, ["equity_shortfall"]);
+    assert.deepEqual(optimized.remaining_exception_keys, []);
+    assert.ok(optimized.recommendation_score > 0);
+  });
+
+  it("adds nothing from the optimizer without its inputs", () => {
+    const scenarios = generateStructuringScenarios(ENGINE_INPUT);
+    assert.ok(scenarios.every((s) => !s.rationale.startsWith("Pareto-optimal")));
+  });
+});
@@ -8,8 +8,13 @@ import type { BuilderReadiness, BuilderPolicyException } from "@/lib/builder/bui
 import type { CollateralLtvSummary } from "@/lib/builder/collateralLtv";
 import type { BuilderPolicyResolution } from "@/lib/builder/builderPolicyResolver";
 import type { NormalizedCollateralItem } from "@/lib/builder/normalizeCollateralItem";
-import type { StructuringScenario, StructuringAction } from "./types";
+import type { OptimizedStructure, StructuringScenario, StructuringAction } from "./types";
 import { scoreStructuringScenario } from "./scoreStructuringScenario";
+import {
+  optimizeLoanStructure,
+  toStructuringScenario,
+  type LoanStructureOptimizerInput,
+} from "./optimizeLoanStructure";
 
 // ── Input ────────────────────────────────────────────────────────
 
@@ -25,6 +30,11 @@ export type StructuringEngineInput = {
   policy_exceptions: BuilderPolicyException[];
   readiness: BuilderReadiness;
   policy_resolution: BuilderPolicyResolution;
+  /** Product, rate and cash flow for the loan structure optimizer; omitted = no optimized scenarios */
+  optimizer?: Omit<
+    LoanStructureOptimizerInput,
+    "deal_id" | "requested_amount" | "base_transaction_amount" | "lendable_collateral_value"
+  > | null;
 };
 
 // ── Generator ────────────────────────────────────────────────────
@@ -204,6 +214,44 @@ export function generateStructuringScenarios(
     });
   }
 
+  // Scenario G — Optimized structures from the policy-bounded Pareto front:
+  // the largest approvable loan and the structure needing the least borrower cash
+  if (input.optimizer && loanAmt > 0) {
+    const optimizerInput: LoanStructureOptimizerInput = {
+      ...input.optimizer,
+      deal_id: input.deal_id,
+      requested_amount: loanAmt,
+      base_transaction_amount: input.base_transaction_amount ?? null,
+      lendable_collateral_value: input.ltv.totalLendableValue > 0 ? input.ltv.totalLendableValue : null,
+    };
+    const frontier = optimizeLoanStructure(optimizerInput);
+    const leastCash = frontier.front.reduce<OptimizedStructure | null>(
+      (best, s) => (best == null || s.borrower_cash_at_close < best.borrower_cash_at_close ? s : best),
+      null,
+    );
+    const picks = [frontier.max_approvable, leastCash].filter(
+      (s, i, all): s is OptimizedStructure => s != null && all.findIndex((o) => o?.id === s.id) === i,
+    );
+    for (const structure of picks) {
+      const resolves = activeExceptionKeys.filter(
+        (k) =>
+          (k === "ltv_exceeded" &&
+            structure.ltv != null &&
+            input.ltv.policyLimit != null &&
+            structure.ltv <= input.ltv.policyLimit) ||
+          (k === "equity_shortfall" &&
+            structure.equity_pct != null &&
+            input.equity_required_pct != null &&
+            structure.equity_pct >= input.equity_required_pct),
+      );
+      scenarios.push({
+        ...toStructuringScenario(structure, optimizerInput),
+        resolves_exception_keys: resolves,
+        remaining_exception_keys: activeExceptionKeys.filter((k) => !resolves.includes(k)),
+      });
+    }
+  }
+
   // Score all scenarios
   for (const scenario of scenarios) {
     scenario.recommendation_score = scoreStructuringScenario(scenario, input);
@@ -0,0 +1,435 @@
+/**
+ * Loan structure optimizer.
+ * Searches loan amount, amortization, term, guarantee percentage and (via the
+ * project cost) equity injection within the product's policy bounds, and
+ * returns the Pareto front of feasible structures instead of a single answer
+ * so the banker can pick the trade-off with the borrower.
+ * Pure module — no DB, no server-only.
+ */
+
+import type { ProductType } from "@/lib/creditLenses/types";
+import type { PolicyConfigOverride } from "@/lib/configEngine/types";
+import { resolvePolicyThresholds, resolveStructureBounds } from "@/lib/policyEngine";
+import { computeAnnualDebtService } from "@/lib/debtEngine";
+import { calculateSBAGuarantee } from "@/lib/sba/sbaGuarantee";
+import type {
+  OptimizedStructure,
+  StructureConstraintKey,
+  StructuringFrontier,
+  StructuringScenario,
+  StructuringAction,
+} from "./types";
+
+// ── Input ────────────────────────────────────────────────────────
+
+export type LoanStructureOptimizerInput = {
+  deal_id: string;
+  product: ProductType;
+  policy_config?: PolicyConfigOverride;
+  requested_amount: number;
+  /** All-in annual rate as decimal */
+  annual_rate: number;
+  /** Business cash flow available for debt service (annual) */
+  cash_flow_available: number;
+  /** Existing business debt service that stays in place after closing */
+  existing_debt_service?: number | null;
+  /** Business + guarantor cash flow available for the global test */
+  global_cash_flow_available?: number | null;
+  /** All other debt service in the global test (business and personal) */
+  global_existing_debt_service?: number | null;
+  /** Project cost; equity injection = project cost − loan */
+  base_transaction_amount?: number | null;
+  /** Cash the borrower can actually inject */
+  borrower_equity_available?: number | null;
+  lendable_collateral_value?: number | null;
+  /** Upfront fee as a fraction of the guaranteed portion, paid by the borrower */
+  guaranty_fee_pct?: number | null;
+  /** Smallest loan searched, as a fraction of the request (default 0.5) */
+  loan_floor_pct?: number;
+};
+
+// ── Search grid ──────────────────────────────────────────────────
+
+/** Month ladder bankers quote; bounds endpoints are always added. */
+const MONTH_LADDER = [12, 24, 36, 48, 60, 84, 120, 180, 240, 300];
+const LOAN_STEP_PCT = 0.1;
+const GUARANTEE_STEP = 0.05;
+const LOAN_ROUNDING = 1_000;
+/** SBA 7(a) guaranty drops from 85% to 75% above this amount */
+const SBA_GUARANTEE_BREAKPOINT = 150_000;
+const EPS = 1e-9;
+
+type Objective = { key: keyof OptimizedStructure; sense: "max" | "min" };
+
+const OBJECTIVES: Objective[] = [
+  { key: "loan_amount", sense: "max" },
+  { key: "borrower_cash_at_close", sense: "min" },
+  { key: "dscr", sense: "max" },
+  { key: "amortization_months", sense: "min" },
+  { key: "balloon_amount", sense: "min" },
+  { key: "bank_exposure", sense: "min" },
+];
+
+// ── Optimizer ────────────────────────────────────────────────────
+
+export function optimizeLoanStructure(input: LoanStructureOptimizerInput): StructuringFrontier {
+  const bounds = resolveStructureBounds(input.product, input.policy_config);
+  const dscrThreshold = resolvePolicyThresholds(input.product, input.policy_config).find(
+    (t) => t.metric === "dscr",
+  );
+  // Products without a DSCR threshold still have to cover debt service
+  const minDscr = dscrThreshold?.minimum ?? 1.0;
+  const minGlobalDscr =
+    input.global_cash_flow_available != null ? bounds.minGlobalDscr ?? null : null;
+  const maxLtv =
+    input.lendable_collateral_value != null && input.lendable_collateral_value > 0
+      ? bounds.maxLtv ?? null
+      : null;
+
+  const frontier: StructuringFrontier = {
+    deal_id: input.deal_id,
+    requested_amount: input.requested_amount,
+    limits: {
+      min_dscr: minDscr,
+      min_global_dscr: minGlobalDscr,
+      max_ltv: maxLtv,
+      min_equity_pct: bounds.minEquityPct,
+      max_loan_amount: bounds.maxLoanAmount ?? null,
+    },
+    candidates_evaluated: 0,
+    feasible_count: 0,
+    rejected_by: {},
+    front: [],
+    max_approvable: null,
+    requested_is_approvable: false,
+  };
+
+  if (input.requested_amount <= 0 || input.cash_flow_available <= 0) return frontier;
+
+  const feasible: OptimizedStructure[] = [];
+
+  for (const amort of monthCandidates(bounds.amortizationMonths.min, bounds.amortizationMonths.max)) {
+    const terms = monthCandidates(bounds.termMonths.min, bounds.termMonths.max, amort).filter(
+      (t) => t <= amort,
+    );
+    if (terms.length === 0) continue;
+
+    const dsFactor = annualDebtServicePerDollar(input.annual_rate, amort);
+
+    for (const loan of loanCandidates(input, bounds.maxLoanAmount, minDscr, minGlobalDscr, maxLtv, dsFactor)) {
+      for (const term of terms) {
+        for (const guaranteePct of guaranteeCandidates(input.product, bounds.guaranteePct, loan)) {
+          frontier.candidates_evaluated++;
+          const evaluated = evaluateStructure(input, {
+            loan,
+            amort,
+            term,
+            guaranteePct,
+            dsFactor,
+            minDscr,
+            minGlobalDscr,
+            maxLtv,
+            minEquityPct: bounds.minEquityPct,
+            maxLoanAmount: bounds.maxLoanAmount,
+          });
+          if (evaluated.violations.length > 0) {
+            for (const v of evaluated.violations) {
+              frontier.rejected_by[v] = (frontier.rejected_by[v] ?? 0) + 1;
+            }
+            continue;
+          }
+          feasible.push(evaluated.structure);
+        }
+      }
+    }
+  }
+
+  frontier.feasible_count = feasible.length;
+  frontier.requested_is_approvable = feasible.some((s) => s.loan_amount === input.requested_amount);
+  frontier.front = paretoFront(feasible).sort(
+    (a, b) =>
+      b.loan_amount - a.loan_amount ||
+      b.dscr - a.dscr ||
+      a.amortization_months - b.amortization_months ||
+      a.balloon_amount - b.balloon_amount ||
+      a.bank_exposure - b.bank_exposure,
+  );
+  frontier.max_approvable = frontier.front[0] ?? null;
+
+  return frontier;
+}
+
+// ── Candidate generation ─────────────────────────────────────────
+
+function monthCandidates(min: number, max: number, extra?: number): number[] {
+  const set = new Set([min, max, ...MONTH_LADDER]);
+  if (extra != null) set.add(extra);
+  return [...set].filter((m) => m >= min && m <= max).sort((a, b) => a - b);
+}
+
+function annualDebtServicePerDollar(rate: number, amortizationMonths: number): number {
+  const ds = computeAnnualDebtService({
+    id: "optimizer",
+    source: "proposed",
+    principal: 1,
+    rate,
+    amortizationMonths,
+    paymentFrequency: "monthly",
+  });
+  return ds.annualDebtService ?? Infinity;
+}
+
+/**
+ * Loan grid for one amortization: fixed steps of the request plus the exact
+ * largest amount every constraint allows, so the maximum is not lost between
+ * grid points.
+ */
+function loanCandidates(
+  input: LoanStructureOptimizerInput,
+  maxLoanAmount: number | undefined,
+  minDscr: number,
+  minGlobalDscr: number | null,
+  maxLtv: number | null,
+  dsFactor: number,
+): number[] {
+  const requested = input.requested_amount;
+  const floorPct = input.loan_floor_pct ?? 0.5;
+  const set = new Set<number>([requested]);
+
+  for (let pct = 1 - LOAN_STEP_PCT; pct >= floorPct - EPS; pct -= LOAN_STEP_PCT) {
+    set.add(roundDown(requested * pct));
+  }
+  if (input.product === "SBA" && SBA_GUARANTEE_BREAKPOINT < requested) {
+    set.add(SBA_GUARANTEE_BREAKPOINT);
+  }
+
+  const caps: number[] = [requested];
+  const existing = input.existing_debt_service ?? 0;
+  caps.push((input.cash_flow_available / minDscr - existing) / dsFactor);
+  if (minGlobalDscr != null) {
+    const globalExisting = input.global_existing_debt_service ?? 0;
+    caps.push((input.global_cash_flow_available! / minGlobalDscr - globalExisting) / dsFactor);
+  }
+  if (maxLtv != null) caps.push(maxLtv * input.lendable_collateral_value!);
+  if (maxLoanAmount != null) caps.push(maxLoanAmount);
+  const maxLoan = Math.min(...caps);
+  if (maxLoan < requested) set.add(roundDown(maxLoan));
+
+  return [...set].filter((l) => l > 0).sort((a, b) => b - a);
+}
+
+function guaranteeCandidates(
+  product: ProductType,
+  range: { min: number; max: number },
+  loan: number,
+): number[] {
+  let max = range.max;
+  if (product === "SBA") {
+    max = Math.min(max, calculateSBAGuarantee(loan, "sba_7a_standard").guaranteePct);
+  }
+  if (max <= range.min) return [round2(max)];
+
+  const out: number[] = [];
+  for (let g = range.min; g < max - EPS; g += GUARANTEE_STEP) out.push(round2(g));
+  out.push(round2(max));
+  return out;
+}
+
+// ── Evaluation ───────────────────────────────────────────────────
+
+type EvaluationArgs = {
+  loan: number;
+  amort: number;
+  term: number;
+  guaranteePct: number;
+  dsFactor: number;
+  minDscr: number;
+  minGlobalDscr: number | null;
+  maxLtv: number | null;
+  minEquityPct: number;
+  maxLoanAmount: number | undefined;
+};
+
+function evaluateStructure(
+  input: LoanStructureOptimizerInput,
+  a: EvaluationArgs,
+): { structure: OptimizedStructure; violations: StructureConstraintKey[] } {
+  const ads = a.loan * a.dsFactor;
+  const dscr = input.cash_flow_available / ((input.existing_debt_service ?? 0) + ads);
+  const globalDscr =
+    input.global_cash_flow_available != null
+      ? input.global_cash_flow_available / ((input.global_existing_debt_service ?? 0) + ads)
+      : null;
+  const ltv =
+    input.lendable_collateral_value != null && input.lendable_collateral_value > 0
+      ? a.loan / input.lendable_collateral_value
+      : null;
+
+  const project = input.base_transaction_amount ?? null;
+  const equity = project != null ? Math.max(0, project - a.loan) : 0;
+  const guaranteed = a.loan * a.guaranteePct;
+  const fee = guaranteed * (input.guaranty_fee_pct ?? 0);
+
+  // Relative slack per active constraint; negative = violated
+  const slack: Partial<Record<StructureConstraintKey, number>> = {
+    dscr: (dscr - a.minDscr) / a.minDscr,
+  };
+  if (a.minGlobalDscr != null && globalDscr != null) {
+    slack.global_dscr = (globalDscr - a.minGlobalDscr) / a.minGlobalDscr;
+  }
+  if (a.maxLtv != null && ltv != null) slack.ltv = (a.maxLtv - ltv) / a.maxLtv;
+  if (project != null && project > 0 && a.minEquityPct > 0) {
+    const required = project * a.minEquityPct;
+    slack.min_equity = (equity - required) / required;
+  }
+  if (project != null && input.borrower_equity_available != null) {
+    const available = Math.max(input.borrower_equity_available, EPS);
+    slack.borrower_equity = (available - equity) / available;
+  }
+  if (a.maxLoanAmount != null) {
+    slack.max_loan_amount = (a.maxLoanAmount - a.loan) / a.maxLoanAmount;
+  }
+
+  const violations: StructureConstraintKey[] = [];
+  let binding: StructureConstraintKey = "dscr";
+  let headroom = Infinity;
+  for (const [key, value] of Object.entries(slack) as Array<[StructureConstraintKey, number]>) {
+    if (value < -EPS) violations.push(key);
+    if (value < headroom) {
+      headroom = value;
+      binding = key;
+    }
+  }
+
+  return {
+    violations,
+    structure: {
+      id: `str_${a.loan}_${a.amort}_${a.term}_${Math.round(a.guaranteePct * 100)}`,
+      loan_amount: a.loan,
+      amortization_months: a.amort,
+      term_months: a.term,
+      guarantee_pct: a.guaranteePct,
+      annual_debt_service: ads,
+      dscr,
+      global_dscr: globalDscr,
+      ltv,
+      equity_injection: equity,
+      equity_pct: project != null && project > 0 ? equity / project : null,
+      guaranty_fee: fee,
+      borrower_cash_at_close: equity + fee,
+      balloon_amount: balloonAt(a.loan, input.annual_rate, a.amort, a.term),
+      guaranteed_amount: guaranteed,
+      bank_exposure: a.loan - guaranteed,
+      binding_constraint: binding,
+      headroom: Math.max(0, headroom),
+    },
+  };
+}
+
+/** Remaining principal after `term` monthly payments on an `amort`-month schedule. */
+function balloonAt(principal: number, annualRate: number, amort: number, term: number): number {
+  if (term >= amort) return 0;
+  const r = annualRate / 12;
+  if (r === 0) return principal * (1 - term / amort);
+  const growth = Math.pow(1 + r, term);
+  const payment = (principal * r) / (1 - Math.pow(1 + r, -amort));
+  return Math.max(0, principal * growth - (payment * (growth - 1)) / r);
+}
+
+// ── Pareto front ─────────────────────────────────────────────────
+
+function dominates(a: OptimizedStructure, b: OptimizedStructure): boolean {
+  let strictlyBetter = false;
+  for (const { key, sense } of OBJECTIVES) {
+    const av = a[key] as number;
+    const bv = b[key] as number;
+    const diff = sense === "max" ? av - bv : bv - av;
+    if (diff < -EPS) return false;
+    if (diff > EPS) strictlyBetter = true;
+  }
+  return strictlyBetter;
+}
+
+function paretoFront(structures: OptimizedStructure[]): OptimizedStructure[] {
+  return structures.filter((s) => !structures.some((o) => o !== s && dominates(o, s)));
+}
+
+// ── Scenario bridge ──────────────────────────────────────────────
+
+/**
+ * Present a front structure as a StructuringScenario so it flows through the
+ * existing preview / apply path. Only loan and equity changes become actions;
+ * amortization, term and guarantee are carried in the summary.
+ */
+export function toStructuringScenario(
+  structure: OptimizedStructure,
+  input: LoanStructureOptimizerInput,
+): StructuringScenario {
+  const requested = input.requested_amount;
+  const project = input.base_transaction_amount ?? null;
+  const currentEquity = project != null ? Math.max(0, project - requested) : null;
+  const actions: StructuringAction[] = [];
+  const tradeoffs: string[] = [];
+
+  if (structure.loan_amount !== requested) {
+    actions.push({ kind: "set_loan_amount", from: requested, to: structure.loan_amount });
+    tradeoffs.push(`Loan amount reduced by $${(requested - structure.loan_amount).toLocaleString()}`);
+  }
+  if (project != null && currentEquity != null && structure.equity_injection !== currentEquity) {
+    actions.push({ kind: "set_equity_amount", from: currentEquity, to: structure.equity_injection });
+    actions.push({
+      kind: "set_equity_pct",
+      from: project > 0 ? currentEquity / project : null,
+      to: structure.equity_pct ?? 0,
+    });
+    tradeoffs.push(
+      `Borrower injects $${structure.equity_injection.toLocaleString(undefined, { maximumFractionDigits: 0 })} (${((structure.equity_pct ?? 0) * 100).toFixed(0)}%)`,
+    );
+  }
+  if (structure.balloon_amount > 0) {
+    tradeoffs.push(
+      `Balloon of $${structure.balloon_amount.toLocaleString(undefined, { maximumFractionDigits: 0 })} at month ${structure.term_months}`,
+    );
+  }
+
+  const years = (m: number) => `${+(m / 12).toFixed(1)}-year`;
+  const terms = `${years(structure.amortization_months)} amortization, ${years(structure.term_months)} term`;
+  const guarantee =
+    structure.guarantee_pct > 0 ? `, ${(structure.guarantee_pct * 100).toFixed(0)}% guaranteed` : "";
+
+  return {
+    id: `scn_${structure.id}`,
+    label: `$${structure.loan_amount.toLocaleString()} over ${years(structure.amortization_months)} amortization`,
+    recommendation_type:
+      structure.loan_amount < requested ? "reduce_loan_amount" : actions.length > 0 ? "increase_equity" : "other",
+    summary: `$${structure.loan_amount.toLocaleString()} loan, ${terms}${guarantee}: DSCR ${structure.dscr.toFixed(2)}x, annual debt service $${structure.annual_debt_service.toLocaleString(undefined, { maximumFractionDigits: 0 })}.`,
+    projected_loan_amount: structure.loan_amount,
+    projected_equity_amount: project != null ? structure.equity_injection : null,
+    projected_equity_pct: structure.equity_pct,
+    projected_lendable_value: input.lendable_collateral_value ?? null,
+    projected_ltv: structure.ltv,
+    resolves_exception_keys: [],
+    remaining_exception_keys: [],
+    new_exception_keys: [],
+    actions,
+    tradeoffs,
+    assumptions: [
+      `Rate of ${(input.annual_rate * 100).toFixed(2)}% and current cash flow hold`,
+      `Tightest constraint: ${structure.binding_constraint} (${(structure.headroom * 100).toFixed(1)}% headroom)`,
+    ],
+    rationale: `Pareto-optimal structure within ${input.product} policy bounds — no other feasible structure is at least as good on loan amount, borrower cash, DSCR, amortization, balloon and bank exposure.`,
+    recommendation_score: 0,
+    recommendation_band: "possible",
+    path_type: "inside_policy",
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function roundDown(n: number): number {
+  return Math.floor(n / LOAN_ROUNDING) * LOAN_ROUNDING;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
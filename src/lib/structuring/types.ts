@@ -65,3 +65,58 @@ export type BorrowerOptionSummary = {
   required_changes: string[];
   not_for_external_use_yet: true;
 };
+
+// ── Structure optimizer ─────────────────────────────────────────
+
+export type StructureConstraintKey =
+  | "dscr"
+  | "global_dscr"
+  | "ltv"
+  | "min_equity"
+  | "borrower_equity"
+  | "max_loan_amount";
+
+export type OptimizedStructure = {
+  id: string;
+  loan_amount: number;
+  amortization_months: number;
+  term_months: number;
+  guarantee_pct: number;
+  annual_debt_service: number;
+  dscr: number;
+  global_dscr: number | null;
+  ltv: number | null;
+  equity_injection: number;
+  equity_pct: number | null;
+  guaranty_fee: number;
+  /** Equity injection plus any guaranty fee paid at closing */
+  borrower_cash_at_close: number;
+  /** Unamortized principal due at maturity (0 when term ≥ amortization) */
+  balloon_amount: number;
+  guaranteed_amount: number;
+  bank_exposure: number;
+  /** Tightest constraint and its relative slack (0 = exactly at the limit) */
+  binding_constraint: StructureConstraintKey;
+  headroom: number;
+};
+
+export type StructuringFrontier = {
+  deal_id: string;
+  requested_amount: number;
+  limits: {
+    min_dscr: number;
+    min_global_dscr: number | null;
+    max_ltv: number | null;
+    min_equity_pct: number;
+    max_loan_amount: number | null;
+  };
+  candidates_evaluated: number;
+  feasible_count: number;
+  /** Infeasible candidates counted by each violated constraint */
+  rejected_by: Partial<Record<StructureConstraintKey, number>>;
+  /** Non-dominated feasible structures, largest loan first */
+  front: OptimizedStructure[];
+  /** Largest approvable loan (highest DSCR on ties) */
+  max_approvable: OptimizedStructure | null;
+  requested_is_approvable: boolean;
+};
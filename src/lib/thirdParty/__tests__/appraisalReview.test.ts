@@ -0,0 +1,277 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractAppraisalReport, parseAppraisalDate, parseAppraisalMoney } from "@/lib/thirdParty/appraisal/extractAppraisalReport";
+import { buildAppraisalReviewChecklist, clientIsBank } from "@/lib/thirdParty/appraisal/appraisalReviewChecklist";
+import { processAppraisalResult, resolveAppraisalReview } from "@/lib/thirdParty/orchestrator";
+import { computeCollateralLtv } from "@/lib/builder/collateralLtv";
+import type { CollateralItem } from "@/lib/builder/builderTypes";
+
+type Row = Record<string, any>;
+
+const REPORT = `
+APPRAISAL REPORT
+Subject Property: 1200 Commerce Drive, Austin, TX 78701
+Client: First Capital Bank, N.A.
+Intended User: First Capital Bank, N.A. and its successors
+Date of Report: April 2, 2026
+Effective Date of Value: March 15, 2026
+
+RECONCILIATION OF VALUE
+Market Value "As Is" as of March 15, 2026: $2,450,000
+Prospective Market Value Upon Stabilization as of March 15, 2027: $2,900,000
+
+Income Approach
+Net Operating Income (NOI) $201,250
+Overall Capitalization Rate (OAR) 8.25%
+
+Comparable Sale 1
+Address: 410 Industrial Blvd, Round Rock, TX
+Sale Price: $2,100,000
+Sale Date: 11/04/2025
+$142.50/SF
+
+Comparable Sale 2
+Address: 88 Tech Ridge Pkwy, Austin, TX
+Sale Price: $2,650,000
+Sale Date: January 9, 2026
+
+Comparable Sale 3
+Address: 9 Ranch Rd, Pflugerville, TX
+Sale Price: $1.9 million
+Sale Date: 2025-08-21
+
+Hypothetical Conditions:
+None.
+
+Extraordinary Assumptions:
+1. The roof replacement scheduled for May 2026 is completed in a workmanlike manner.
+
+Appraiser: Dana Whitfield, MAI
+State of Texas Certified General Real Estate Appraiser
+Certification No. TX-1338920-G
+Expiration Date: 09/30/2027
+`;
+
+test("parse helpers: money and dates", () => {
+  assert.equal(parseAppraisalMoney("$1,250,000"), 1_250_000);
+  assert.equal(parseAppraisalMoney("$1.9 million"), 1_900_000);
+  assert.equal(parseAppraisalDate("March 15, 2026"), "2026-03-15");
+  assert.equal(parseAppraisalDate("Sept. 3, 2025"), "2025-09-03");
+  assert.equal(parseAppraisalDate("11/04/2025"), "2025-11-04");
+  assert.equal(parseAppraisalDate("not a date"), null);
+});
+
+test("extractAppraisalReport: values, dates, direct cap, comps, credential, client, conditions", () => {
+  const x = extractAppraisalReport(REPORT);
+  assert.equal(x.propertyAddress, "1200 Commerce Drive, Austin, TX 78701");
+  assert.equal(x.asIsValue, 2_450_000);
+  assert.equal(x.asStabilizedValue, 2_900_000);
+  assert.equal(x.asCompleteValue, null);
+  assert.equal(x.effectiveDate, "2026-03-15");
+  assert.equal(x.reportDate, "2026-04-02");
+  assert.equal(x.capRate, 0.0825);
+  assert.equal(x.noi, 201_250);
+  assert.deepEqual(
+    x.comparableSales.map((c) => [c.index, c.salePrice, c.saleDate]),
+    [
+      [1, 2_100_000, "2025-11-04"],
+      [2, 2_650_000, "2026-01-09"],
+      [3, 1_900_000, "2025-08-21"],
+    ],
+  );
+  assert.equal(x.comparableSales[0].address, "410 Industrial Blvd, Round Rock, TX");
+  assert.equal(x.comparableSales[0].pricePerSf, 142.5);
+  assert.deepEqual(x.appraiser, {
+    name: "Dana Whitfield, MAI",
+    licenseNumber: "TX-1338920-G",
+    licenseState: "Texas",
+    licenseType: "Certified General",
+    licenseExpiration: "2027-09-30",
+  });
+  assert.equal(x.client, "First Capital Bank, N.A");
+  assert.deepEqual(x.hypotheticalConditions, []);
+  assert.equal(x.extraordinaryAssumptions.length, 1);
+  assert.match(x.extraordinaryAssumptions[0], /roof replacement/);
+  assert.equal(x.confidence, 1);
+});
+
+test("checklist: passes what the report proves, opens staleness / assumptions / engagement gaps", () => {
+  const x = extractAppraisalReport(REPORT);
+  const fresh = buildAppraisalReviewChecklist(x, { bankName: "First Capital Bank", asOf: new Date("2026-10-19T00:00:00Z") });
+  assert.deepEqual(
+    fresh.map((i) => [i.key, i.status]),
+    [
+      ["VALUE_CONCLUSION", "passed"],
+      ["VALUE_DATE_STALENESS", "passed"],
+      ["HYPOTHETICAL_CONDITIONS", "open"],
+      ["BANK_ENGAGEMENT", "passed"],
+      ["APPRAISER_LICENSE", "passed"],
+      ["COMPARABLE_SALES", "passed"],
+    ],
+  );
+
+  const stale = buildAppraisalReviewChecklist(x, { bankName: "Other Community Bank", asOf: new Date("2027-06-01T00:00:00Z") });
+  assert.equal(stale.find((i) => i.key === "VALUE_DATE_STALENESS")?.status, "open");
+  assert.match(stale.find((i) => i.key === "VALUE_DATE_STALENESS")!.detail, /443 day/);
+  assert.equal(stale.find((i) => i.key === "BANK_ENGAGEMENT")?.status, "open");
+});
+
+test("checklist: prospective-only value and residential credential stay open", () => {
+  const x = extractAppraisalReport(
+    REPORT.replace(/Market Value "As Is"[^\n]*\n/, "").replace("Certified General", "Certified Residential"),
+  );
+  const items = buildAppraisalReviewChecklist(x, { bankName: "First Capital Bank", asOf: new Date("2026-10-19T00:00:00Z") });
+  assert.match(items.find((i) => i.key === "VALUE_CONCLUSION")!.detail, /as-stabilized value \$2,900,000/);
+  assert.match(items.find((i) => i.key === "HYPOTHETICAL_CONDITIONS")!.detail, /Only a prospective/);
+  assert.equal(items.find((i) => i.key === "APPRAISER_LICENSE")?.status, "open");
+});
+
+test("clientIsBank ignores entity suffixes and punctuation", () => {
+  assert.equal(clientIsBank("First Capital Bank, N.A.", "First Capital Bank"), true);
+  assert.equal(clientIsBank("Acme Holdings LLC (borrower)", "First Capital Bank"), false);
+  assert.equal(clientIsBank(null, "First Capital Bank"), false);
+});
+
+// ---------------------------------------------------------------------------
+// Orchestrator: extraction → collateral + review → clearance
+// ---------------------------------------------------------------------------
+
+/** Fake supporting select/insert/update with eq filters, single/maybeSingle and await. */
+class FakeDb {
+  private seq = 0;
+  constructor(public tables: Record<string, Row[]>) {}
+
+  from = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let op: "select" | "update" | "insert" = "select";
+    let payload: Row = {};
+    const matches = () => (this.tables[table] ?? []).filter((r) => filters.every(([c, v]) => r[c] === v));
+    const run = () => {
+      if (op === "insert") {
+        const row = { id: `${table}-${++this.seq}`, ...payload };
+        (this.tables[table] ??= []).push(row);
+        return { data: [row], error: null };
+      }
+      if (op === "update") for (const r of matches()) Object.assign(r, payload);
+      return { data: matches(), error: null };
+    };
+    const one = () => Promise.resolve({ data: run().data[0] ?? null, error: null });
+    const b: any = {
+      select: () => b,
+      insert: (p: Row) => ((op = "insert"), (payload = p), b),
+      update: (p: Row) => ((op = "update"), (payload = p), b),
+      eq: (c: string, v: unknown) => (filters.push([c, v]), b),
+      single: one,
+      maybeSingle: one,
+      then: (ok: (v: unknown) => unknown, bad?: (e: unknown) => unknown) => Promise.resolve(run()).then(ok, bad),
+    };
+    return b;
+  };
+}
+
+function setup(collateral: Row[] = []) {
+  return new FakeDb({
+    banks: [{ id: "b1", name: "First Capital Bank" }],
+    third_party_orders: [
+      { id: "o1", deal_id: "d1", bank_id: "b1", order_type: "real_estate_appraisal", status: "delivered", order_metadata: {}, result_storage_path: "third-party-results/d1/o1/x.pdf" },
+      { id: "o2", deal_id: "d1", bank_id: "b1", order_type: "ucc_lien_search", status: "delivered", order_metadata: {} },
+    ],
+    deal_collateral_items: collateral,
+    appraisal_reviews: [],
+    deal_events: [],
+  });
+}
+
+const now = () => new Date("2026-10-19T12:00:00Z");
+
+test("processAppraisalResult: stages the appraisal on the review and leaves the matching item's value alone", async () => {
+  const db = setup([
+    { id: "c1", deal_id: "d1", item_type: "real_estate", address: "1200 Commerce Dr., Austin, TX 78701", estimated_value: 2_000_000, lien_position: 1 },
+  ]);
+  db.tables.deal_collateral_items[0].address = "1200 Commerce Drive, Austin, TX 78701";
+  const res = await processAppraisalResult({ orderId: "o1", text: REPORT }, { sb: db as any, now });
+  assert.ok(res.ok);
+  assert.equal(res.collateralItemId, "c1");
+  assert.deepEqual(res.openItems, ["HYPOTHETICAL_CONDITIONS"]);
+
+  const item = db.tables.deal_collateral_items[0];
+  assert.equal(item.estimated_value, 2_000_000, "banker's value survives while the review is open");
+  assert.equal(item.appraised_value, undefined);
+  assert.equal(item.cap_rate, undefined);
+  assert.equal(item.appraisal_review_status, "pending_review");
+  assert.equal(item.appraisal_review_id, res.reviewId);
+
+  const staged = db.tables.appraisal_reviews[0].staged_values;
+  assert.equal(staged.estimated_value, 2_450_000);
+  assert.equal(staged.as_stabilized_value, 2_900_000);
+  assert.equal(staged.cap_rate, 0.0825);
+  assert.equal(staged.net_operating_income, 201_250);
+  assert.equal(staged.valuation_date, "2026-03-15");
+  assert.equal(staged.valuation_method, "appraisal");
+
+  assert.equal(db.tables.third_party_orders[0].status, "parsed");
+  assert.equal(db.tables.third_party_orders[0].result_parsed_json.asIsValue, 2_450_000);
+  assert.ok(db.tables.deal_events.some((e) => e.kind === "third_party.appraisal_extracted"));
+
+  const ltv = computeCollateralLtv(db.tables.deal_collateral_items as CollateralItem[], 1_500_000);
+  assert.equal(ltv.totalLendableValue, 2_000_000 * 0.8);
+  assert.equal(ltv.itemsAwaitingReview, 1);
+});
+
+test("processAppraisalResult: creates a real-estate item when none matches; rejects non-appraisal orders", async () => {
+  const db = setup([{ id: "c9", deal_id: "d1", item_type: "equipment", address: null }]);
+  const res = await processAppraisalResult({ orderId: "o1", text: REPORT }, { sb: db as any, now });
+  assert.ok(res.ok);
+  const created = db.tables.deal_collateral_items.find((c) => c.id === res.collateralItemId)!;
+  assert.equal(created.item_type, "real_estate");
+  assert.equal(created.description, "Real estate — 1200 Commerce Drive, Austin, TX 78701");
+  assert.equal(created.bank_id, "b1");
+  assert.equal(created.estimated_value, undefined, "no value until the review clears");
+
+  assert.deepEqual(await processAppraisalResult({ orderId: "o2", text: REPORT }, { sb: db as any }), { ok: false, reason: "NOT_AN_APPRAISAL" });
+  assert.deepEqual(await processAppraisalResult({ orderId: "nope", text: REPORT }, { sb: db as any }), { ok: false, reason: "ORDER_NOT_FOUND" });
+});
+
+test("resolveAppraisalReview: notes required; clearing every open item applies the staged values", async () => {
+  const db = setup([{ id: "c1", deal_id: "d1", item_type: "real_estate", address: "1200 Commerce Drive, Austin, TX 78701", lien_position: 1 }]);
+  const res = await processAppraisalResult({ orderId: "o1", text: REPORT }, { sb: db as any, now });
+  assert.ok(res.ok);
+
+  const noNote = await resolveAppraisalReview(
+    { reviewId: res.reviewId, dealId: "d1", userId: "u1", clearances: { HYPOTHETICAL_CONDITIONS: "  " } },
+    { sb: db as any, now },
+  );
+  assert.deepEqual(noNote, { ok: false, reason: "NOTE_REQUIRED", detail: "HYPOTHETICAL_CONDITIONS" });
+
+  const wrongDeal = await resolveAppraisalReview(
+    { reviewId: res.reviewId, dealId: "d2", userId: "u1", clearances: {} },
+    { sb: db as any, now },
+  );
+  assert.deepEqual(wrongDeal, { ok: false, reason: "REVIEW_NOT_FOUND" });
+
+  const cleared = await resolveAppraisalReview(
+    { reviewId: res.reviewId, dealId: "d1", userId: "u1", clearances: { HYPOTHETICAL_CONDITIONS: "Roof EA acceptable — escrow holdback conditioned." } },
+    { sb: db as any, now },
+  );
+  assert.deepEqual(cleared, { ok: true, status: "cleared", openItems: [] });
+
+  const review = db.tables.appraisal_reviews[0];
+  assert.equal(review.status, "cleared");
+  assert.equal(review.cleared_by, "u1");
+  const item = review.checklist.find((i: Row) => i.key === "HYPOTHETICAL_CONDITIONS");
+  assert.equal(item.status, "cleared");
+  assert.equal(item.cleared_at, "2026-10-19T12:00:00.000Z");
+
+  const collateral = db.tables.deal_collateral_items[0];
+  assert.equal(collateral.appraisal_review_status, "cleared");
+  assert.equal(collateral.estimated_value, 2_450_000);
+  assert.equal(collateral.appraised_value, 2_450_000);
+  assert.equal(collateral.cap_rate, 0.0825);
+  assert.equal(collateral.valuation_source, "third_party_appraisal");
+  const ltv = computeCollateralLtv(db.tables.deal_collateral_items as CollateralItem[], 1_500_000);
+  assert.equal(ltv.totalLendableValue, 2_450_000 * 0.8);
+  assert.equal(ltv.itemsAwaitingReview, 0);
+
+  const again = await resolveAppraisalReview({ reviewId: res.reviewId, dealId: "d1", userId: "u1", clearances: {} }, { sb: db as any });
+  assert.deepEqual(again, { ok: false, reason: "ALREADY_CLEARED" });
+});
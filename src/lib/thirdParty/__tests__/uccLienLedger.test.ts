@@ -0,0 +1,251 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { consolidateUccFilings, parseUccSearchResult } from "@/lib/thirdParty/ucc/parseUccSearchResult";
+import { buildUccLienLedger, isBlanketLien, uccLienConditions } from "@/lib/thirdParty/ucc/uccLienLedger";
+import { partyNamesMatch } from "@/lib/thirdParty/partyNames";
+import { processUccSearchResult, rematchUccLiens } from "@/lib/thirdParty/orchestrator";
+
+type Row = Record<string, any>;
+
+const SEARCH = `
+UCC SEARCH REPORT
+Jurisdiction: Texas Secretary of State
+Search Date: 10/01/2026
+
+Debtor Searched: Lone Star Fabrication LLC
+
+File Number: 19-0023456
+Filing Type: UCC-1 Financing Statement
+File Date: 03/14/2019
+Lapse Date: 03/14/2024
+Secured Party: Frost Bank, 111 W Houston St, San Antonio, TX 78205
+Collateral: All assets of the debtor, now owned or hereafter acquired,
+including all accounts, inventory, equipment and general intangibles.
+
+File Number: 24-0001122
+Filing Type: UCC-3 Continuation
+File Date: 01/10/2024
+Original File Number: 19-0023456
+Secured Party: Frost Bank
+
+File Number: 21-0078901
+Filing Type: UCC-1 Financing Statement
+File Date: 06/01/2022
+Secured Party: Caterpillar Financial Services Corporation, 2120 West End Ave, Nashville, TN
+Collateral: One (1) Caterpillar 320 excavator, serial no. CAT0320XYZ, and proceeds.
+
+File Number: 22-0044001
+Filing Type: UCC-1 Financing Statement
+File Date: 09/15/2022
+Secured Party: Rapid Funding Group LLC
+Collateral: All accounts, receivables, inventory, equipment, general intangibles,
+chattel paper and deposit accounts.
+
+File Number: 16-0001000
+Filing Type: UCC-1 Financing Statement
+File Date: 02/01/2016
+Secured Party: Old National Leasing Inc
+Collateral: One forklift.
+
+File Number: 20-0009999
+Filing Type: UCC-1 Financing Statement
+File Date: 05/05/2020
+Secured Party: Wells Fargo Bank, N.A.
+Collateral: Inventory and accounts.
+
+File Number: 23-0100200
+Filing Type: UCC-3 Termination
+File Date: 07/20/2023
+Original File Number: 20-0009999
+`;
+
+test("parseUccSearchResult: one filing per block with dates, secured party and collateral", () => {
+  const filings = parseUccSearchResult(SEARCH);
+  assert.equal(filings.length, 7);
+  const first = filings[0];
+  assert.equal(first.debtorName, "Lone Star Fabrication LLC");
+  assert.equal(first.jurisdiction, "Texas Secretary of State");
+  assert.equal(first.filingNumber, "19-0023456");
+  assert.equal(first.filingType, "initial");
+  assert.equal(first.filingDate, "2019-03-14");
+  assert.equal(first.lapseDate, "2024-03-14");
+  assert.equal(first.securedParty, "Frost Bank");
+  assert.match(first.collateralDescription!, /^All assets of the debtor.*general intangibles\.$/);
+  assert.equal(filings[1].filingType, "continuation");
+  assert.equal(filings[1].originalFilingNumber, "19-0023456");
+  assert.equal(filings[2].securedParty, "Caterpillar Financial Services Corporation");
+  assert.equal(filings[6].filingType, "termination");
+});
+
+test("consolidateUccFilings: folds continuations and terminations into the initial filing", () => {
+  const liens = consolidateUccFilings(parseUccSearchResult(SEARCH));
+  assert.deepEqual(
+    liens.map((l) => [l.filingNumber, l.lapseDate, l.terminated, l.amendments]),
+    [
+      ["16-0001000", "2021-02-01", false, []],
+      ["19-0023456", "2029-03-14", false, ["24-0001122"]],
+      ["20-0009999", "2025-05-05", true, ["23-0100200"]],
+      ["21-0078901", "2027-06-01", false, []],
+      ["22-0044001", "2027-09-15", false, []],
+    ],
+  );
+});
+
+test("isBlanketLien and partyNamesMatch", () => {
+  assert.equal(isBlanketLien("All assets of the debtor"), true);
+  assert.equal(isBlanketLien("all personal property of debtor"), true);
+  assert.equal(isBlanketLien("Accounts, inventory, equipment and general intangibles"), true);
+  assert.equal(isBlanketLien("One (1) Caterpillar 320 excavator and proceeds"), false);
+  assert.equal(isBlanketLien("Inventory and accounts"), false);
+  assert.equal(partyNamesMatch("Wells Fargo Bank, N.A.", "WELLS FARGO"), true);
+  assert.equal(partyNamesMatch("Frost Bank", "Frost National Bank"), true);
+  assert.equal(partyNamesMatch("Frost Bank", "First Capital Bank"), false);
+});
+
+test("buildUccLienLedger: matches the debt schedule, flags unexplained liens and blanket priority conflicts", () => {
+  const liens = consolidateUccFilings(parseUccSearchResult(SEARCH));
+  const ledger = buildUccLienLedger(liens, {
+    existingDebt: [{ id: "debt-cat", lender_name: "Caterpillar Financial Services", is_being_refinanced: false }],
+    bankName: "First Capital Bank",
+    asOf: new Date("2026-10-19T00:00:00Z"),
+  });
+  const by = (n: string) => ledger.find((e) => e.filingNumber === n)!;
+
+  assert.equal(by("16-0001000").status, "lapsed");
+  assert.equal(by("16-0001000").matchStatus, "inactive");
+  assert.equal(by("20-0009999").status, "terminated");
+  assert.equal(by("21-0078901").matchStatus, "existing_debt");
+  assert.equal(by("21-0078901").matchedDebtId, "debt-cat");
+  assert.equal(by("21-0078901").priorityConflict, false);
+
+  // Frost: active blanket lien, not on the schedule.
+  assert.equal(by("19-0023456").matchStatus, "unexplained");
+  assert.equal(by("19-0023456").isBlanket, true);
+  assert.equal(by("19-0023456").priorityConflict, true);
+  // Merchant-cash-advance style blanket filing.
+  assert.equal(by("22-0044001").priorityConflict, true);
+
+  const keys = uccLienConditions(ledger).map((c) => [c.sourceKey, c.category]);
+  assert.deepEqual(keys, [
+    ["ucc_lien_unexplained:19-0023456", "credit"],
+    ["ucc_priority_conflict:19-0023456", "legal"],
+    ["ucc_lien_unexplained:22-0044001", "credit"],
+    ["ucc_priority_conflict:22-0044001", "legal"],
+  ]);
+
+  // Disclosed and being refinanced: explained, needs a termination at payoff instead.
+  const refi = buildUccLienLedger(liens, {
+    existingDebt: [{ id: "debt-frost", lender_name: "Frost Bank", is_being_refinanced: true }],
+    bankName: "First Capital Bank",
+    asOf: new Date("2026-10-19T00:00:00Z"),
+  });
+  const frost = refi.find((e) => e.filingNumber === "19-0023456")!;
+  assert.equal(frost.matchStatus, "existing_debt");
+  assert.equal(frost.matchedDebtId, "debt-frost");
+  assert.equal(frost.priorityConflict, false);
+  assert.equal(frost.terminationAtPayoff, true);
+  assert.ok(uccLienConditions(refi).some((c) => c.sourceKey === "ucc_termination_at_payoff:19-0023456"));
+});
+
+class FakeDb {
+  private seq = 0;
+  constructor(public tables: Record<string, Row[]>) {}
+
+  from = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let op: "select" | "update" | "insert" = "select";
+    let payload: Row = {};
+    const matches = () => (this.tables[table] ?? []).filter((r) => filters.every(([c, v]) => r[c] === v));
+    const run = () => {
+      if (op === "insert") {
+        const row = { id: `${table}-${++this.seq}`, ...payload };
+        (this.tables[table] ??= []).push(row);
+        return { data: [row], error: null };
+      }
+      if (op === "update") for (const r of matches()) Object.assign(r, payload);
+      return { data: matches(), error: null };
+    };
+    const one = () => Promise.resolve({ data: run().data[0] ?? null, error: null });
+    const b: any = {
+      select: () => b,
+      insert: (p: Row) => ((op = "insert"), (payload = p), b),
+      update: (p: Row) => ((op = "update"), (payload = p), b),
+      eq: (c: string, v: unknown) => (filters.push([c, v]), b),
+      single: one,
+      maybeSingle: one,
+      then: (ok: (v: unknown) => unknown, bad?: (e: unknown) => unknown) => Promise.resolve(run()).then(ok, bad),
+    };
+    return b;
+  };
+}
+
+function setup() {
+  return new FakeDb({
+    banks: [{ id: "b1", name: "First Capital Bank" }],
+    third_party_orders: [
+      { id: "o1", deal_id: "d1", bank_id: "b1", order_type: "real_estate_appraisal", status: "delivered" },
+      { id: "o2", deal_id: "d1", bank_id: "b1", order_type: "ucc_lien_search", status: "delivered" },
+    ],
+    deal_ucc_liens: [],
+    deal_existing_debt_schedule: [
+      { id: "debt-cat", deal_id: "d1", lender_name: "Caterpillar Financial Services", is_being_refinanced: false },
+    ],
+    deal_conditions: [],
+    deal_events: [],
+  });
+}
+
+const now = () => new Date("2026-10-19T12:00:00Z");
+
+test("processUccSearchResult: persists the ledger, opens conditions, and is idempotent on re-ingest", async () => {
+  const db = setup();
+  const res = await processUccSearchResult({ orderId: "o2", text: SEARCH }, { sb: db as any, now });
+  assert.ok(res.ok);
+  assert.equal(res.liens, 5);
+  assert.deepEqual(res.rematch, { unexplained: 2, priorityConflicts: 2, conditionsCreated: 4, conditionsSatisfied: 0 });
+
+  const frost = db.tables.deal_ucc_liens.find((r) => r.filing_number === "19-0023456")!;
+  assert.equal(frost.secured_party, "Frost Bank");
+  assert.equal(frost.lapse_date, "2029-03-14");
+  assert.deepEqual(frost.amendments, ["24-0001122"]);
+  assert.equal(frost.match_status, "unexplained");
+  assert.equal(frost.priority_conflict, true);
+  assert.equal(db.tables.third_party_orders[1].status, "parsed");
+  assert.ok(db.tables.deal_events.some((e) => e.kind === "third_party.ucc_search_parsed"));
+  assert.equal(db.tables.deal_conditions.length, 4);
+  assert.ok(db.tables.deal_conditions.every((c) => c.source === "system" && c.status === "open"));
+
+  const again = await processUccSearchResult({ orderId: "o2", text: SEARCH }, { sb: db as any, now });
+  assert.ok(again.ok);
+  assert.equal(db.tables.deal_ucc_liens.length, 5);
+  assert.equal(db.tables.deal_conditions.length, 4);
+
+  assert.deepEqual(await processUccSearchResult({ orderId: "o1", text: SEARCH }, { sb: db as any, now }), {
+    ok: false,
+    reason: "NOT_A_UCC_SEARCH",
+  });
+});
+
+test("rematchUccLiens: disclosing the debt explains the lien and satisfies its conditions", async () => {
+  const db = setup();
+  await processUccSearchResult({ orderId: "o2", text: SEARCH }, { sb: db as any, now });
+
+  db.tables.deal_existing_debt_schedule.push(
+    { id: "debt-frost", deal_id: "d1", lender_name: "Frost Bank", is_being_refinanced: true },
+    { id: "debt-rapid", deal_id: "d1", lender_name: "Rapid Funding Group", is_being_refinanced: false },
+  );
+  const res = await rematchUccLiens({ dealId: "d1", bankId: "b1" }, { sb: db as any, now });
+  assert.deepEqual(res, { unexplained: 0, priorityConflicts: 1, conditionsCreated: 1, conditionsSatisfied: 3 });
+
+  const status = (key: string) => db.tables.deal_conditions.find((c) => c.source_key === key)?.status;
+  assert.equal(status("ucc_lien_unexplained:19-0023456"), "satisfied");
+  assert.equal(status("ucc_priority_conflict:19-0023456"), "satisfied");
+  assert.equal(status("ucc_lien_unexplained:22-0044001"), "satisfied");
+  // Disclosed but staying in place: still primes our collateral.
+  assert.equal(status("ucc_priority_conflict:22-0044001"), "open");
+  assert.equal(status("ucc_termination_at_payoff:19-0023456"), "open");
+
+  const frost = db.tables.deal_ucc_liens.find((r) => r.filing_number === "19-0023456")!;
+  assert.equal(frost.match_status, "existing_debt");
+  assert.equal(frost.matched_debt_id, "debt-frost");
+});
@@ -0,0 +1,139 @@
+/**
+ * Appraisal reviewer checklist — pure.
+ *
+ * Built from an AppraisalExtraction when a report is ingested. Items that
+ * the extraction already satisfies are "passed"; everything else is "open"
+ * and must be cleared by a reviewer (with a note) before the appraised
+ * value is allowed to feed collateral LTV (see builder/collateralLtv.ts).
+ */
+
+import { partyNamesMatch } from "../partyNames";
+import { ltvValueFromAppraisal, type AppraisalExtraction } from "./extractAppraisalReport";
+
+export type AppraisalReviewItemKey =
+  | "VALUE_CONCLUSION"
+  | "VALUE_DATE_STALENESS"
+  | "HYPOTHETICAL_CONDITIONS"
+  | "BANK_ENGAGEMENT"
+  | "APPRAISER_LICENSE"
+  | "COMPARABLE_SALES";
+
+export type AppraisalReviewItemStatus = "passed" | "open" | "cleared";
+
+export type AppraisalReviewItem = {
+  key: AppraisalReviewItemKey;
+  label: string;
+  status: AppraisalReviewItemStatus;
+  detail: string;
+  cleared_by?: string | null;
+  cleared_at?: string | null;
+  note?: string | null;
+};
+
+export type AppraisalReviewStatus = "pending_review" | "cleared";
+
+/** Interagency guidance: re-evaluate values older than 12 months before relying on them. */
+export const APPRAISAL_MAX_AGE_DAYS = 365;
+export const APPRAISAL_MIN_COMPARABLES = 3;
+
+const MS_PER_DAY = 86_400_000;
+
+/** Client named in the report is the bank. */
+export function clientIsBank(client: string | null, bankName: string | null): boolean {
+  return partyNamesMatch(client, bankName);
+}
+
+function money(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+export function buildAppraisalReviewChecklist(
+  x: AppraisalExtraction,
+  ctx: { bankName: string | null; asOf: Date; maxValueAgeDays?: number },
+): AppraisalReviewItem[] {
+  const items: AppraisalReviewItem[] = [];
+  const push = (key: AppraisalReviewItemKey, label: string, ok: boolean, detail: string) =>
+    items.push({ key, label, status: ok ? "passed" : "open", detail });
+
+  const ltv = ltvValueFromAppraisal(x);
+  push(
+    "VALUE_CONCLUSION",
+    "Value conclusion extracted",
+    ltv.value != null,
+    ltv.value != null
+      ? `${ltv.premise?.replace("_", "-")} value ${money(ltv.value)} will feed LTV.`
+      : "No as-is, as-complete or as-stabilized value found — enter the value from the report.",
+  );
+
+  const maxAge = ctx.maxValueAgeDays ?? APPRAISAL_MAX_AGE_DAYS;
+  if (!x.effectiveDate) {
+    push("VALUE_DATE_STALENESS", "Effective date of value is current", false, "No effective date of value found in the report.");
+  } else {
+    const ageDays = Math.floor((ctx.asOf.getTime() - Date.parse(`${x.effectiveDate}T00:00:00Z`)) / MS_PER_DAY);
+    push(
+      "VALUE_DATE_STALENESS",
+      "Effective date of value is current",
+      ageDays >= 0 && ageDays <= maxAge,
+      ageDays < 0
+        ? `Effective date ${x.effectiveDate} is in the future — confirm the value premise.`
+        : `Effective date ${x.effectiveDate} is ${ageDays} day(s) old (limit ${maxAge}).`,
+    );
+  }
+
+  const prospectiveOnly = x.asIsValue == null && (x.asCompleteValue != null || x.asStabilizedValue != null);
+  const hc = x.hypotheticalConditions.length;
+  const ea = x.extraordinaryAssumptions.length;
+  push(
+    "HYPOTHETICAL_CONDITIONS",
+    "No hypothetical conditions or extraordinary assumptions",
+    hc === 0 && ea === 0 && !prospectiveOnly,
+    [
+      hc > 0 ? `${hc} hypothetical condition(s): ${x.hypotheticalConditions.join("; ")}` : null,
+      ea > 0 ? `${ea} extraordinary assumption(s): ${x.extraordinaryAssumptions.join("; ")}` : null,
+      prospectiveOnly ? "Only a prospective (as-complete / as-stabilized) value was concluded." : null,
+    ]
+      .filter(Boolean)
+      .join(" ") || "None stated.",
+  );
+
+  push(
+    "BANK_ENGAGEMENT",
+    "Appraiser engaged by the bank",
+    clientIsBank(x.client, ctx.bankName),
+    x.client
+      ? `Client / intended user: ${x.client}.${ctx.bankName ? ` Bank: ${ctx.bankName}.` : ""}`
+      : "No client / intended user found — a report ordered by the borrower needs a transfer letter or re-engagement.",
+  );
+
+  const lic = x.appraiser;
+  const residential = /residential/i.test(lic.licenseType ?? "");
+  const expired = Boolean(lic.licenseExpiration && x.effectiveDate && lic.licenseExpiration < x.effectiveDate);
+  push(
+    "APPRAISER_LICENSE",
+    "Appraiser credential valid for the assignment",
+    Boolean(lic.licenseNumber) && !expired && !residential,
+    !lic.licenseNumber
+      ? "No appraiser license / certification number found."
+      : [
+          `${lic.name ?? "Appraiser"} — ${lic.licenseType ?? "credential"} #${lic.licenseNumber}${lic.licenseState ? ` (${lic.licenseState})` : ""}.`,
+          expired ? `Credential expired ${lic.licenseExpiration}, before the effective date.` : null,
+          residential ? "Residential credential on a commercial assignment — confirm scope." : null,
+        ]
+          .filter(Boolean)
+          .join(" "),
+  );
+
+  push(
+    "COMPARABLE_SALES",
+    `At least ${APPRAISAL_MIN_COMPARABLES} comparable sales`,
+    x.comparableSales.length >= APPRAISAL_MIN_COMPARABLES,
+    `${x.comparableSales.length} comparable sale(s) extracted.`,
+  );
+
+  return items;
+}
+
+/** Open items block clearance; passed and cleared items don't. */
+export function openAppraisalReviewItems(items: AppraisalReviewItem[]): AppraisalReviewItem[] {
+  return items.filter((i) => i.status === "open");
+}
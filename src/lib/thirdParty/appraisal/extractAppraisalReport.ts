@@ -0,0 +1,260 @@
+/**
+ * Appraisal report extractor — pure, deterministic, no LLM.
+ *
+ * Reads the OCR text of a commercial appraisal (narrative or summary
+ * format) and pulls the fields underwriting needs from it: the value
+ * conclusions (as-is / as-stabilized / as-complete), effective date of
+ * value, direct-cap inputs (cap rate, NOI), the comparable sales grid, the
+ * appraiser's credential, the client / intended user, and any hypothetical
+ * conditions or extraordinary assumptions the values depend on.
+ *
+ * Missing fields come back null — the reviewer checklist
+ * (appraisalReviewChecklist.ts) turns gaps into open review items rather
+ * than this module guessing.
+ */
+
+export type AppraisalComparableSale = {
+  index: number;
+  address: string | null;
+  salePrice: number | null;
+  saleDate: string | null;
+  pricePerSf: number | null;
+};
+
+export type AppraiserCredential = {
+  name: string | null;
+  licenseNumber: string | null;
+  licenseState: string | null;
+  /** e.g. "Certified General", "Certified Residential", "Licensed Residential". */
+  licenseType: string | null;
+  licenseExpiration: string | null;
+};
+
+export type AppraisalExtraction = {
+  propertyAddress: string | null;
+  asIsValue: number | null;
+  asStabilizedValue: number | null;
+  asCompleteValue: number | null;
+  /** Effective date of the as-is value (ISO yyyy-mm-dd). */
+  effectiveDate: string | null;
+  reportDate: string | null;
+  capRate: number | null;
+  noi: number | null;
+  comparableSales: AppraisalComparableSale[];
+  appraiser: AppraiserCredential;
+  /** Client / intended user named in the engagement section. */
+  client: string | null;
+  hypotheticalConditions: string[];
+  extraordinaryAssumptions: string[];
+  /** Share of core fields found (values, effective date, client, license, comps). */
+  confidence: number;
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONEY = String.raw`\$\s*[\d,]+(?:\.\d+)?(?:\s*(?:million|mm|m)\b)?`;
+const DATE = String.raw`(?:[A-Z][a-z]{2,8}\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}\/\d{1,2}\/\d{2,4}|\d{4}-\d{2}-\d{2})`;
+
+// ---------------------------------------------------------------------------
+// Token parsing
+// ---------------------------------------------------------------------------
+
+export function parseAppraisalMoney(raw: string | null | undefined): number | null {
+  if (!raw) return null;
+  const m = /\$?\s*([\d,]+(?:\.\d+)?)\s*(million|mm|m)?\b/i.exec(raw);
+  if (!m) return null;
+  const n = Number(m[1].replace(/,/g, ""));
+  if (!Number.isFinite(n)) return null;
+  return m[2] ? Math.round(n * 1_000_000) : n;
+}
+
+export function parseAppraisalDate(raw: string | null | undefined): string | null {
+  const s = String(raw ?? "").trim();
+  if (!s) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const iso = (y: number, mo: number, d: number) =>
+    mo >= 1 && mo <= 12 && d >= 1 && d <= 31 ? `${y}-${pad(mo)}-${pad(d)}` : null;
+
+  let m = /^(\d{4})-(\d{2})-(\d{2})/.exec(s);
+  if (m) return iso(Number(m[1]), Number(m[2]), Number(m[3]));
+  m = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/.exec(s);
+  if (m) {
+    const y = Number(m[3]) < 100 ? 2000 + Number(m[3]) : Number(m[3]);
+    return iso(y, Number(m[1]), Number(m[2]));
+  }
+  m = /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})/.exec(s);
+  if (m) {
+    const mo = MONTHS[m[1].slice(0, 4).toLowerCase()] ?? MONTHS[m[1].slice(0, 3).toLowerCase()];
+    return mo ? iso(Number(m[3]), mo, Number(m[2])) : null;
+  }
+  return null;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): RegExpExecArray | null {
+  for (const p of patterns) {
+    const m = p.exec(text);
+    if (m) return m;
+  }
+  return null;
+}
+
+function clean(s: string | null | undefined): string | null {
+  const v = String(s ?? "").replace(/\s+/g, " ").trim().replace(/[.,;]$/, "");
+  return v.length > 0 ? v : null;
+}
+
+// ---------------------------------------------------------------------------
+// Field extractors
+// ---------------------------------------------------------------------------
+
+function extractValue(text: string, premise: "as_is" | "as_stabilized" | "as_complete"): number | null {
+  const label = {
+    as_is: String.raw`(?:market\s+value\s+)?["“]?as[\s-]+is["”]?(?:\s+market)?(?:\s+value)?`,
+    as_stabilized: String.raw`(?:(?:prospective\s+)?market\s+value\s+)?(?:["“]?as[\s-]+stabilized["”]?|upon\s+stabilization)(?:\s+market)?(?:\s+value)?`,
+    as_complete: String.raw`(?:(?:prospective\s+)?market\s+value\s+)?(?:["“]?as[\s-]+complete(?:d)?["”]?|upon\s+completion)(?:\s+market)?(?:\s+value)?`,
+  }[premise];
+  // Label, then (within one line-ish) the first dollar amount.
+  const re = new RegExp(String.raw`${label}[^$\n]{0,80}(${MONEY})`, "i");
+  const m = re.exec(text);
+  return m ? parseAppraisalMoney(m[1]) : null;
+}
+
+function extractSection(text: string, heading: RegExp): string[] {
+  const m = heading.exec(text);
+  if (!m) return [];
+  const rest = text.slice(m.index + m[0].length);
+  // Section runs to the next blank line or the next Title-Case heading ending in ':'.
+  const end = rest.search(/\n\s*\n|\n[A-Z][A-Za-z ]{3,40}:/);
+  const body = (end >= 0 ? rest.slice(0, end) : rest.slice(0, 1500)).replace(/^[:\s-]+/, "");
+  if (/^(none|n\/a|not applicable|no\s+(hypothetical|extraordinary))/i.test(body.trim())) return [];
+  return body
+    .split(/\n|(?:^|\s)(?:\d+\.|•|-)\s+/)
+    .map((s) => clean(s))
+    .filter((s): s is string => Boolean(s) && s!.length > 8);
+}
+
+function extractComparableSales(text: string): AppraisalComparableSale[] {
+  const header = /(?:^|\n)\s*(?:comparable\s+(?:sale|no\.?)|improved\s+sale|sale\s+no\.?|comp(?:arable)?\s*#)\s*(\d{1,2})\b[:\s-]*/gi;
+  const heads: Array<{ index: number; n: number; end: number }> = [];
+  let m: RegExpExecArray | null;
+  while ((m = header.exec(text))) heads.push({ index: m.index, n: Number(m[1]), end: m.index + m[0].length });
+
+  const seen = new Set<number>();
+  const comps: AppraisalComparableSale[] = [];
+  heads.forEach((h, i) => {
+    if (seen.has(h.n)) return;
+    const chunk = text.slice(h.end, heads[i + 1]?.index ?? Math.min(text.length, h.end + 800));
+    const addr =
+      firstMatch(chunk, [/(?:address|location)\s*:\s*([^\n]+)/i, /^\s*(\d{1,6}\s+[^\n$]{4,80})/])?.[1] ?? null;
+    const price = firstMatch(chunk, [new RegExp(String.raw`(?:sale\s+price|price)\s*:?\s*(${MONEY})`, "i")])?.[1] ?? null;
+    const date = firstMatch(chunk, [new RegExp(String.raw`(?:sale\s+date|date\s+of\s+sale|sold)\s*:?\s*(${DATE})`, "i")])?.[1] ?? null;
+    const psf = firstMatch(chunk, [/\$\s*([\d,]+(?:\.\d+)?)\s*(?:\/\s*sf|per\s+(?:sq\.?\s*ft|square\s+foot|sf))/i])?.[1] ?? null;
+    const sale: AppraisalComparableSale = {
+      index: h.n,
+      address: clean(addr),
+      salePrice: parseAppraisalMoney(price),
+      saleDate: parseAppraisalDate(date),
+      pricePerSf: psf ? Number(psf.replace(/,/g, "")) : null,
+    };
+    if (sale.salePrice != null || sale.address != null) {
+      seen.add(h.n);
+      comps.push(sale);
+    }
+  });
+  return comps.sort((a, b) => a.index - b.index);
+}
+
+function extractAppraiser(text: string): AppraiserCredential {
+  const license = firstMatch(text, [
+    /(?:license|certification|certificate)\s*(?:no\.?|number|#)\s*:?\s*([A-Z0-9][A-Z0-9-]{3,20})/i,
+  ]);
+  const type = firstMatch(text, [
+    /(state[\s-]+)?(certified\s+general|certified\s+residential|licensed\s+residential|licensed)\s+(?:real\s+(?:estate|property)\s+)?appraiser/i,
+  ]);
+  const state = firstMatch(text, [
+    /[Ss]tate\s+of\s+([A-Z][a-z]+(?:[ \t]+[A-Z][a-z]+)?)\s+(?:[Cc]ertified|[Ll]icensed)/,
+    /(?:license|certification)\s*(?:no\.?|number|#)\s*:?\s*[A-Z0-9-]+\s*\(([A-Z]{2})\)/,
+    /\b([A-Z]{2})\s+(?:[Cc]ertified|[Ll]icensed)\s+(?:[Gg]eneral|[Rr]esidential)/,
+    /(?:license|certification)\s+state\s*:\s*([A-Z]{2}|[A-Z][a-z]+)/,
+  ]);
+  const exp = firstMatch(text, [new RegExp(String.raw`(?:expires?|expiration(?:\s+date)?)\s*:?\s*(${DATE})`, "i")]);
+  const name = firstMatch(text, [
+    /(?:[Aa]ppraiser|[Aa]ppraised\s+by|[Pp]repared\s+by)[ \t]*:[ \t]*([A-Z][A-Za-z.'-]+(?:[ \t]+[A-Z][A-Za-z.'-]+){1,3}(?:,[ \t]*(?:MAI|SRA|AI-GRS|CCIM|MRICS)(?:,[ \t]*[A-Z]{2,5})*)?)/,
+  ]);
+  const typeLabel = type?.[2]
+    ? type[2].replace(/\s+/g, " ").replace(/\b\w/g, (c) => c.toUpperCase())
+    : null;
+  return {
+    name: clean(name?.[1]),
+    licenseNumber: license?.[1] ?? null,
+    licenseState: clean(state?.[1]),
+    licenseType: typeLabel,
+    licenseExpiration: parseAppraisalDate(exp?.[1]),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+export function extractAppraisalReport(text: string): AppraisalExtraction {
+  const t = String(text ?? "").replace(/\r\n/g, "\n");
+
+  const effective = firstMatch(t, [
+    new RegExp(String.raw`effective\s+date(?:\s+of\s+(?:the\s+)?(?:as[\s-]+is\s+)?(?:value|appraisal))?\s*(?:\(as[\s-]+is\))?\s*:?\s*(${DATE})`, "i"),
+    new RegExp(String.raw`date\s+of\s+(?:value|valuation|inspection)\s*:?\s*(${DATE})`, "i"),
+    new RegExp(String.raw`as\s+of\s+(${DATE})`, "i"),
+  ]);
+  const report = firstMatch(t, [new RegExp(String.raw`(?:date\s+of\s+(?:the\s+)?report|report\s+date)\s*:?\s*(${DATE})`, "i")]);
+  const cap = firstMatch(t, [
+    /(?:overall\s+)?cap(?:italization)?\s+rate(?:\s*\(OAR\))?[^%\n]{0,40}?(\d{1,2}(?:\.\d{1,3})?)\s*%/i,
+    /\bOAR\b[^%\n]{0,20}?(\d{1,2}(?:\.\d{1,3})?)\s*%/,
+  ]);
+  const noi = firstMatch(t, [new RegExp(String.raw`net\s+operating\s+income(?:\s*\(NOI\))?[^$\n]{0,40}(${MONEY})`, "i")]);
+  const client = firstMatch(t, [
+    /(?:^|\n)\s*client\s*:\s*([^\n]+)/i,
+    /(?:^|\n)\s*prepared\s+for\s*:?\s*([^\n]+)/i,
+    /intended\s+user(?:s|\(s\))?\s*(?:is|are|:)\s*([^\n.]+)/i,
+  ]);
+  const address = firstMatch(t, [/(?:subject\s+property|property\s+address|property\s+location)\s*:\s*([^\n]+)/i]);
+
+  const extraction: Omit<AppraisalExtraction, "confidence"> = {
+    propertyAddress: clean(address?.[1]),
+    asIsValue: extractValue(t, "as_is"),
+    asStabilizedValue: extractValue(t, "as_stabilized"),
+    asCompleteValue: extractValue(t, "as_complete"),
+    effectiveDate: parseAppraisalDate(effective?.[1]),
+    reportDate: parseAppraisalDate(report?.[1]),
+    capRate: cap ? Number(cap[1]) / 100 : null,
+    noi: parseAppraisalMoney(noi?.[1]),
+    comparableSales: extractComparableSales(t),
+    appraiser: extractAppraiser(t),
+    client: clean(client?.[1]),
+    hypotheticalConditions: extractSection(t, /hypothetical\s+conditions?\s*:?/i),
+    extraordinaryAssumptions: extractSection(t, /extraordinary\s+assumptions?\s*:?/i),
+  };
+
+  const core = [
+    extraction.asIsValue ?? extraction.asCompleteValue ?? extraction.asStabilizedValue,
+    extraction.effectiveDate,
+    extraction.client,
+    extraction.appraiser.licenseNumber,
+    extraction.comparableSales.length > 0 ? true : null,
+  ];
+  const confidence = Math.round((core.filter((v) => v != null).length / core.length) * 100) / 100;
+  return { ...extraction, confidence };
+}
+
+/**
+ * The value that feeds LTV: as-is when the report has one, otherwise the
+ * prospective value (construction / lease-up deals). The reviewer checklist
+ * flags the prospective case as a hypothetical-condition dependency.
+ */
+export function ltvValueFromAppraisal(x: AppraisalExtraction): { value: number | null; premise: "as_is" | "as_complete" | "as_stabilized" | null } {
+  if (x.asIsValue != null) return { value: x.asIsValue, premise: "as_is" };
+  if (x.asCompleteValue != null) return { value: x.asCompleteValue, premise: "as_complete" };
+  if (x.asStabilizedValue != null) return { value: x.asStabilizedValue, premise: "as_stabilized" };
+  return { value: null, premise: null };
+}
@@ -1,4 +1,13 @@
 import { evaluateThirdPartyTriggers, type ThirdPartyTriggerInput } from "@/lib/sba/thirdPartyTriggers";
+import { extractAppraisalReport, ltvValueFromAppraisal } from "@/lib/thirdParty/appraisal/extractAppraisalReport";
+import {
+  buildAppraisalReviewChecklist,
+  openAppraisalReviewItems,
+  type AppraisalReviewItem,
+  type AppraisalReviewItemKey,
+} from "@/lib/thirdParty/appraisal/appraisalReviewChecklist";
+import { consolidateUccFilings, parseUccSearchResult, type UccLien } from "@/lib/thirdParty/ucc/parseUccSearchResult";
+import { buildUccLienLedger, uccLienConditions, type UccDebtRow } from "@/lib/thirdParty/ucc/uccLienLedger";
 
 /**
  * SPEC S5 A-4 — third-party order lifecycle. Free of "server-only" for
@@ -171,3 +180,413 @@ export async function cancelOrder(args: { orderId: string; reason: string }, dep
 
   return { ok: true };
 }
+
+export type ProcessAppraisalResultOutcome =
+  | { ok: true; reviewId: string; collateralItemId: string; openItems: AppraisalReviewItemKey[] }
+  | { ok: false; reason: "ORDER_NOT_FOUND" | "NOT_AN_APPRAISAL" | "PERSIST_FAILED"; detail?: string };
+
+function normalizeAddress(s: unknown): string {
+  return String(s ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Extract a delivered appraisal report (OCR text) into the order, the deal's
+ * real-estate collateral record, and a reviewer checklist. The appraised
+ * values are staged on the review (appraisal_reviews.staged_values) and the
+ * collateral row is only marked appraisal_review_status='pending_review':
+ * its current value — the banker's, or none for a new item — stays in every
+ * LTV and memo path until resolveAppraisalReview clears every open item and
+ * copies the staged values over.
+ *
+ * Collateral item: order_metadata.collateral_item_id when the order named
+ * one, else the deal's real-estate item at the same address, else a new
+ * real-estate item.
+ */
+export async function processAppraisalResult(
+  args: { orderId: string; text: string },
+  deps: { sb: ThirdPartySupabaseClient; now?: () => Date },
+): Promise<ProcessAppraisalResultOutcome> {
+  const { sb } = deps;
+  const now = deps.now?.() ?? new Date();
+
+  const { data: order } = await sb
+    .from("third_party_orders")
+    .select("id, deal_id, bank_id, order_type, order_metadata, result_storage_path")
+    .eq("id", args.orderId)
+    .maybeSingle();
+  if (!order) return { ok: false, reason: "ORDER_NOT_FOUND" };
+  if (order.order_type !== "real_estate_appraisal") return { ok: false, reason: "NOT_AN_APPRAISAL" };
+
+  const extraction = extractAppraisalReport(args.text);
+  const { data: bank } = await sb.from("banks").select("id, name").eq("id", order.bank_id).maybeSingle();
+  const checklist = buildAppraisalReviewChecklist(extraction, { bankName: bank?.name ?? null, asOf: now });
+  const { value, premise } = ltvValueFromAppraisal(extraction);
+
+  const { data: existingItems } = await sb
+    .from("deal_collateral_items")
+    .select("id, item_type, address")
+    .eq("deal_id", order.deal_id);
+  const items = (existingItems ?? []) as Array<{ id: string; item_type: string; address: string | null }>;
+  const wantedId = typeof order.order_metadata?.collateral_item_id === "string" ? order.order_metadata.collateral_item_id : null;
+  const target =
+    items.find((i) => i.id === wantedId) ??
+    (extraction.propertyAddress
+      ? items.find((i) => i.item_type === "real_estate" && normalizeAddress(i.address) === normalizeAddress(extraction.propertyAddress))
+      : undefined);
+
+  const appraiser = extraction.appraiser;
+  const stagedValues = {
+    estimated_value: value,
+    appraised_value: value,
+    market_value: extraction.asIsValue,
+    as_complete_value: extraction.asCompleteValue,
+    as_stabilized_value: extraction.asStabilizedValue,
+    cap_rate: extraction.capRate,
+    net_operating_income: extraction.noi,
+    appraisal_date: extraction.effectiveDate,
+    valuation_date: extraction.effectiveDate,
+    valuation_method: "appraisal",
+    valuation_source: "third_party_appraisal",
+    valuation_source_note: [
+      premise ? `${premise.replace("_", "-")} value` : "appraisal",
+      appraiser.name ? `by ${appraiser.name}` : null,
+      appraiser.licenseNumber ? `(lic. ${appraiser.licenseNumber})` : null,
+      extraction.effectiveDate ? `effective ${extraction.effectiveDate}` : null,
+    ]
+      .filter(Boolean)
+      .join(" "),
+    confidence: extraction.confidence,
+  };
+  const collateralPatch = {
+    bank_id: order.bank_id,
+    requires_review: true,
+    appraisal_review_status: "pending_review",
+    updated_at: now.toISOString(),
+  };
+
+  let collateralItemId: string;
+  if (target) {
+    await sb.from("deal_collateral_items").update(collateralPatch).eq("id", target.id);
+    collateralItemId = target.id;
+  } else {
+    const { data: created, error } = await sb
+      .from("deal_collateral_items")
+      .insert({
+        deal_id: order.deal_id,
+        item_type: "real_estate",
+        collateral_type: "real_estate",
+        description: extraction.propertyAddress ? `Real estate — ${extraction.propertyAddress}` : "Real estate (appraised)",
+        address: extraction.propertyAddress,
+        lien_position: 1,
+        ...collateralPatch,
+      })
+      .select("id")
+      .single();
+    if (error || !created) return { ok: false, reason: "PERSIST_FAILED", detail: error?.message };
+    collateralItemId = created.id;
+  }
+
+  const { data: review, error: reviewErr } = await sb
+    .from("appraisal_reviews")
+    .insert({
+      deal_id: order.deal_id,
+      bank_id: order.bank_id,
+      order_id: order.id,
+      collateral_item_id: collateralItemId,
+      status: "pending_review",
+      extraction,
+      checklist,
+      staged_values: stagedValues,
+      result_storage_path: order.result_storage_path ?? null,
+    })
+    .select("id")
+    .single();
+  if (reviewErr || !review) return { ok: false, reason: "PERSIST_FAILED", detail: reviewErr?.message };
+
+  await sb.from("deal_collateral_items").update({ appraisal_review_id: review.id }).eq("id", collateralItemId);
+
+  await sb
+    .from("third_party_orders")
+    .update({ status: "parsed", result_parsed_json: extraction, parsed_at: now.toISOString() })
+    .eq("id", order.id);
+
+  const openItems = openAppraisalReviewItems(checklist).map((i) => i.key);
+  await sb.from("deal_events").insert({
+    deal_id: order.deal_id,
+    kind: "third_party.appraisal_extracted",
+    payload: { order_id: order.id, review_id: review.id, collateral_item_id: collateralItemId, value, premise, open_items: openItems },
+  });
+
+  return { ok: true, reviewId: review.id, collateralItemId, openItems };
+}
+
+export type ResolveAppraisalReviewOutcome =
+  | { ok: true; status: "pending_review" | "cleared"; openItems: AppraisalReviewItemKey[] }
+  | { ok: false; reason: "REVIEW_NOT_FOUND" | "ALREADY_CLEARED" | "NOTE_REQUIRED" | "UNKNOWN_ITEM"; detail?: string };
+
+/**
+ * Reviewer clears open checklist items (each with a note). Once nothing is
+ * open the review is cleared and the staged appraisal values are copied onto
+ * the collateral item.
+ */
+export async function resolveAppraisalReview(
+  args: { reviewId: string; dealId: string; userId: string; clearances: Partial<Record<AppraisalReviewItemKey, string>> },
+  deps: { sb: ThirdPartySupabaseClient; now?: () => Date },
+): Promise<ResolveAppraisalReviewOutcome> {
+  const { sb } = deps;
+  const nowIso = (deps.now?.() ?? new Date()).toISOString();
+
+  const { data: review } = await sb
+    .from("appraisal_reviews")
+    .select("id, deal_id, collateral_item_id, status, checklist, staged_values")
+    .eq("id", args.reviewId)
+    .eq("deal_id", args.dealId)
+    .maybeSingle();
+  if (!review) return { ok: false, reason: "REVIEW_NOT_FOUND" };
+  if (review.status === "cleared") return { ok: false, reason: "ALREADY_CLEARED" };
+
+  const checklist = ((review.checklist ?? []) as AppraisalReviewItem[]).map((i) => ({ ...i }));
+  for (const [key, note] of Object.entries(args.clearances)) {
+    const item = checklist.find((i) => i.key === key);
+    if (!item) return { ok: false, reason: "UNKNOWN_ITEM", detail: key };
+    if (!note || !note.trim()) return { ok: false, reason: "NOTE_REQUIRED", detail: key };
+    if (item.status !== "open") continue;
+    Object.assign(item, { status: "cleared", note: note.trim(), cleared_by: args.userId, cleared_at: nowIso });
+  }
+
+  const openItems = openAppraisalReviewItems(checklist).map((i) => i.key);
+  const status = openItems.length === 0 ? "cleared" : "pending_review";
+
+  await sb
+    .from("appraisal_reviews")
+    .update({
+      checklist,
+      status,
+      ...(status === "cleared" ? { cleared_by: args.userId, cleared_at: nowIso } : {}),
+    })
+    .eq("id", review.id);
+
+  if (status === "cleared") {
+    await sb
+      .from("deal_collateral_items")
+      .update({
+        ...(review.staged_values ?? {}),
+        appraisal_review_status: "cleared",
+        requires_review: false,
+        updated_at: nowIso,
+      })
+      .eq("id", review.collateral_item_id);
+  }
+
+  await sb.from("deal_events").insert({
+    deal_id: review.deal_id,
+    kind: status === "cleared" ? "third_party.appraisal_review_cleared" : "third_party.appraisal_review_updated",
+    payload: { review_id: review.id, cleared_keys: Object.keys(args.clearances), open_items: openItems, user_id: args.userId },
+  });
+
+  return { ok: true, status, openItems };
+}
+
+export type ProcessUccSearchResultOutcome =
+  | { ok: true; liens: number; rematch: RematchUccLiensResult }
+  | { ok: false; reason: "ORDER_NOT_FOUND" | "NOT_A_UCC_SEARCH" | "NO_FILINGS" | "PERSIST_FAILED"; detail?: string };
+
+/**
+ * Parse a delivered UCC search (OCR text) into deal_ucc_liens — one row per
+ * debtor + initial filing, with UCC-3s folded in — then match the ledger
+ * against the existing debt schedule. Re-ingesting a later search updates
+ * the same rows.
+ */
+export async function processUccSearchResult(
+  args: { orderId: string; text: string },
+  deps: { sb: ThirdPartySupabaseClient; now?: () => Date },
+): Promise<ProcessUccSearchResultOutcome> {
+  const { sb } = deps;
+  const nowIso = (deps.now?.() ?? new Date()).toISOString();
+
+  const { data: order } = await sb
+    .from("third_party_orders")
+    .select("id, deal_id, bank_id, order_type")
+    .eq("id", args.orderId)
+    .maybeSingle();
+  if (!order) return { ok: false, reason: "ORDER_NOT_FOUND" };
+  if (order.order_type !== "ucc_lien_search") return { ok: false, reason: "NOT_A_UCC_SEARCH" };
+
+  const filings = parseUccSearchResult(args.text);
+  const liens = consolidateUccFilings(filings);
+  if (liens.length === 0) return { ok: false, reason: "NO_FILINGS" };
+
+  for (const lien of liens) {
+    const row = {
+      deal_id: order.deal_id,
+      bank_id: order.bank_id,
+      order_id: order.id,
+      debtor_name: lien.debtorName ?? "",
+      jurisdiction: lien.jurisdiction,
+      filing_number: lien.filingNumber,
+      filing_date: lien.filingDate,
+      lapse_date: lien.lapseDate,
+      secured_party: lien.securedParty,
+      collateral_description: lien.collateralDescription,
+      terminated: lien.terminated,
+      amendments: lien.amendments,
+      updated_at: nowIso,
+    };
+    const { data: existing } = await sb
+      .from("deal_ucc_liens")
+      .select("id")
+      .eq("deal_id", order.deal_id)
+      .eq("debtor_name", row.debtor_name)
+      .eq("filing_number", lien.filingNumber)
+      .maybeSingle();
+    const { error } = existing
+      ? await sb.from("deal_ucc_liens").update(row).eq("id", existing.id)
+      : await sb.from("deal_ucc_liens").insert(row);
+    if (error) return { ok: false, reason: "PERSIST_FAILED", detail: error.message };
+  }
+
+  await sb
+    .from("third_party_orders")
+    .update({ status: "parsed", result_parsed_json: { filings, liens }, parsed_at: nowIso })
+    .eq("id", order.id);
+
+  await sb.from("deal_events").insert({
+    deal_id: order.deal_id,
+    kind: "third_party.ucc_search_parsed",
+    payload: { order_id: order.id, filings: filings.length, liens: liens.length },
+  });
+
+  const rematch = await rematchUccLiens({ dealId: order.deal_id, bankId: order.bank_id }, deps);
+  return { ok: true, liens: liens.length, rematch };
+}
+
+export type RematchUccLiensResult = {
+  unexplained: number;
+  priorityConflicts: number;
+  conditionsCreated: number;
+  conditionsSatisfied: number;
+};
+
+const UCC_CONDITION_PREFIXES = ["ucc_lien_unexplained:", "ucc_priority_conflict:", "ucc_termination_at_payoff:"];
+
+/**
+ * Re-classify the deal's UCC liens against the current existing debt
+ * schedule. Called after a search is parsed and whenever the schedule
+ * changes. Opens a system condition for each unexplained lien / priority
+ * conflict; conditions whose lien has since been explained are satisfied.
+ */
+export async function rematchUccLiens(
+  args: { dealId: string; bankId: string },
+  deps: { sb: ThirdPartySupabaseClient; now?: () => Date },
+): Promise<RematchUccLiensResult> {
+  const { sb } = deps;
+  const now = deps.now?.() ?? new Date();
+  const result: RematchUccLiensResult = { unexplained: 0, priorityConflicts: 0, conditionsCreated: 0, conditionsSatisfied: 0 };
+
+  const { data: rows } = await sb
+    .from("deal_ucc_liens")
+    .select("id, debtor_name, jurisdiction, filing_number, filing_date, lapse_date, secured_party, collateral_description, terminated, amendments")
+    .eq("deal_id", args.dealId);
+  const lienRows = (rows ?? []) as Array<{
+    id: string;
+    debtor_name: string;
+    jurisdiction: string | null;
+    filing_number: string;
+    filing_date: string | null;
+    lapse_date: string | null;
+    secured_party: string | null;
+    collateral_description: string | null;
+    terminated: boolean;
+    amendments: string[] | null;
+  }>;
+
+  const { data: debt } = await sb
+    .from("deal_existing_debt_schedule")
+    .select("id, lender_name, is_being_refinanced")
+    .eq("deal_id", args.dealId);
+  const { data: bank } = await sb.from("banks").select("id, name").eq("id", args.bankId).maybeSingle();
+
+  const liens: UccLien[] = lienRows.map((r) => ({
+    debtorName: r.debtor_name || null,
+    jurisdiction: r.jurisdiction,
+    filingNumber: r.filing_number,
+    filingDate: r.filing_date,
+    lapseDate: r.lapse_date,
+    securedParty: r.secured_party,
+    collateralDescription: r.collateral_description,
+    terminated: Boolean(r.terminated),
+    amendments: r.amendments ?? [],
+  }));
+  const ledger = buildUccLienLedger(liens, {
+    existingDebt: (debt ?? []) as UccDebtRow[],
+    bankName: bank?.name ?? null,
+    asOf: now,
+  });
+
+  for (const [i, entry] of ledger.entries()) {
+    if (entry.matchStatus === "unexplained") result.unexplained += 1;
+    if (entry.priorityConflict) result.priorityConflicts += 1;
+    await sb
+      .from("deal_ucc_liens")
+      .update({
+        status: entry.status,
+        is_blanket: entry.isBlanket,
+        match_status: entry.matchStatus,
+        matched_debt_id: entry.matchedDebtId,
+        priority_conflict: entry.priorityConflict,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", lienRows[i].id);
+  }
+
+  const drafts = uccLienConditions(ledger);
+  for (const draft of drafts) {
+    const existing = await sb
+      .from("deal_conditions")
+      .select("id")
+      .eq("deal_id", args.dealId)
+      .eq("source", "system")
+      .eq("source_key", draft.sourceKey)
+      .maybeSingle();
+    if (existing.data?.id) continue;
+
+    const ins = await sb.from("deal_conditions").insert({
+      deal_id: args.dealId,
+      bank_id: args.bankId,
+      title: draft.title,
+      description: draft.description,
+      category: draft.category,
+      status: "open",
+      source: "system",
+      source_key: draft.sourceKey,
+      required_docs: [],
+      created_by: null,
+    });
+    if (!ins.error) result.conditionsCreated += 1;
+  }
+
+  // Liens explained since the last match: satisfy their open conditions.
+  const wanted = new Set(drafts.map((d) => d.sourceKey));
+  const { data: openConditions } = await sb
+    .from("deal_conditions")
+    .select("id, source_key")
+    .eq("deal_id", args.dealId)
+    .eq("source", "system")
+    .eq("status", "open");
+  for (const c of (openConditions ?? []) as Array<{ id: string; source_key: string | null }>) {
+    const key = c.source_key ?? "";
+    if (!UCC_CONDITION_PREFIXES.some((p) => key.startsWith(p)) || wanted.has(key)) continue;
+    await sb.from("deal_conditions").update({ status: "satisfied" }).eq("id", c.id);
+    result.conditionsSatisfied += 1;
+  }
+
+  if (result.conditionsCreated > 0 || result.conditionsSatisfied > 0) {
+    await sb.from("deal_events").insert({
+      deal_id: args.dealId,
+      kind: "third_party.ucc_liens_matched",
+      payload: result,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,31 @@
+/**
+ * Party-name matching for third-party reports — pure.
+ *
+ * Appraisal clients, UCC secured parties and debt-schedule lenders are all
+ * free-text legal names ("Wells Fargo Bank, N.A." vs "WELLS FARGO BANK NA"
+ * vs "Wells Fargo"). Names match when every distinctive token of the
+ * shorter name appears in the longer one, ignoring entity suffixes,
+ * "bank"/"trust" and punctuation.
+ */
+
+const NOISE = new Set([
+  "the", "inc", "incorporated", "llc", "llp", "lp", "ltd", "corp", "corporation", "co", "company",
+  "na", "fsb", "ssb", "bank", "banking", "trust", "national", "association", "and", "of", "as", "agent",
+]);
+
+export function partyNameTokens(name: string | null | undefined): string[] {
+  return String(name ?? "")
+    .toLowerCase()
+    .replace(/\bn\.\s*a\.?/g, " ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 1 && !NOISE.has(w));
+}
+
+export function partyNamesMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  const ta = partyNameTokens(a);
+  const tb = partyNameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return false;
+  const [short, long] = ta.length <= tb.length ? [ta, new Set(tb)] : [tb, new Set(ta)];
+  return short.every((w) => long.has(w));
+}
@@ -0,0 +1,190 @@
+/**
+ * UCC search result parser — pure, deterministic, no LLM.
+ *
+ * Reads the OCR text of a UCC lien search report (Secretary of State
+ * certified search or a search vendor's summary) into individual filings,
+ * then folds UCC-3 records (continuation / termination / assignment /
+ * amendment) into the initial financing statement they reference so each
+ * lien appears once with its current secured party, collateral and lapse
+ * date.
+ *
+ * Reports are grouped by debtor searched ("Debtor Searched: …"); filings
+ * are blocks that start at a "File Number:" line.
+ */
+
+export type UccFilingType = "initial" | "continuation" | "termination" | "assignment" | "amendment";
+
+export type UccFiling = {
+  debtorName: string | null;
+  jurisdiction: string | null;
+  filingNumber: string;
+  filingType: UccFilingType;
+  /** UCC-3s: the initial financing statement they amend. */
+  originalFilingNumber: string | null;
+  filingDate: string | null;
+  lapseDate: string | null;
+  securedParty: string | null;
+  collateralDescription: string | null;
+};
+
+export type UccLien = {
+  debtorName: string | null;
+  jurisdiction: string | null;
+  filingNumber: string;
+  filingDate: string | null;
+  lapseDate: string | null;
+  securedParty: string | null;
+  collateralDescription: string | null;
+  terminated: boolean;
+  /** Filing numbers of the UCC-3s folded into this lien, in filing order. */
+  amendments: string[];
+};
+
+function parseDate(raw: string | null | undefined): string | null {
+  const s = String(raw ?? "").trim();
+  let m = /^(\d{4})-(\d{2})-(\d{2})/.exec(s);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = /^(\d{1,2})\/(\d{1,2})\/(\d{4})/.exec(s);
+  if (m) return `${m[3]}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}`;
+  const d = Date.parse(s);
+  return Number.isFinite(d) && /\d{4}/.test(s) ? new Date(d).toISOString().slice(0, 10) : null;
+}
+
+function addYears(iso: string, years: number): string {
+  const [y, rest] = [Number(iso.slice(0, 4)), iso.slice(4)];
+  return `${y + years}${rest}`;
+}
+
+function field(block: string, labels: string): string | null {
+  const m = new RegExp(String.raw`(?:^|\n)[ \t]*(?:${labels})[ \t]*:[ \t]*([^\n]*)`, "i").exec(block);
+  const v = m?.[1]?.trim();
+  return v ? v : null;
+}
+
+/** Multi-line field: continues until the next "Label:" line or a blank line. */
+function longField(block: string, labels: string): string | null {
+  const m = new RegExp(String.raw`(?:^|\n)[ \t]*(?:${labels})[ \t]*:[ \t]*`, "i").exec(block);
+  if (!m) return null;
+  const rest = block.slice(m.index + m[0].length);
+  const end = rest.search(/\n[ \t]*\n|\n[ \t]*[A-Z][A-Za-z .#/]{2,40}:/);
+  const v = (end >= 0 ? rest.slice(0, end) : rest).replace(/\s+/g, " ").trim();
+  return v || null;
+}
+
+function classify(typeText: string | null): UccFilingType {
+  const t = String(typeText ?? "").toLowerCase();
+  if (/terminat/.test(t)) return "termination";
+  if (/continu/.test(t)) return "continuation";
+  if (/assign/.test(t)) return "assignment";
+  if (/amend|ucc-?3|change/.test(t)) return "amendment";
+  return "initial";
+}
+
+/** Secured party lines often carry an address after the name. */
+function securedPartyName(raw: string | null): string | null {
+  if (!raw) return null;
+  const name = raw.split(/\s{2,}|\s+\d{1,6}\s+[A-Za-z]|,\s*(?:P\.?O\.?\s*Box|\d)/i)[0];
+  return name.replace(/[,;]\s*$/, "").trim() || null;
+}
+
+export function parseUccSearchResult(text: string): UccFiling[] {
+  const t = String(text ?? "").replace(/\r\n/g, "\n");
+  const jurisdiction = field(t, "Jurisdiction|Filing Office|Searched In|State");
+
+  // Debtor sections.
+  const sectionRe = /(?:^|\n)[ \t]*(?:Debtor(?:\s+Name)?\s+Searched|Search(?:ed)?\s+Name|Name\s+Searched)[ \t]*:[ \t]*([^\n]+)/gi;
+  const sections: Array<{ debtor: string | null; start: number }> = [];
+  let m: RegExpExecArray | null;
+  while ((m = sectionRe.exec(t))) sections.push({ debtor: m[1].trim(), start: m.index });
+  if (sections.length === 0) sections.push({ debtor: null, start: 0 });
+
+  const filings: UccFiling[] = [];
+  sections.forEach((section, si) => {
+    const body = t.slice(section.start, sections[si + 1]?.start ?? t.length);
+    const blockRe = /(?:^|\n)[ \t]*(?:(?:Initial\s+)?File|Filing|Document)\s+(?:Number|No\.?|#)[ \t]*:/gi;
+    const starts: number[] = [];
+    while ((m = blockRe.exec(body))) starts.push(m.index);
+    starts.forEach((start, bi) => {
+      const block = body.slice(start, starts[bi + 1] ?? body.length);
+      const filingNumber = field(block, "(?:Initial\\s+)?File\\s+(?:Number|No\\.?|#)|Filing\\s+(?:Number|No\\.?|#)|Document\\s+(?:Number|No\\.?|#)")?.split(/\s/)[0];
+      if (!filingNumber) return;
+      const filingType = classify(field(block, "Filing\\s+Type|Document\\s+Type|Record\\s+Type|Type"));
+      const filingDate = parseDate(field(block, "File\\s+Date|Filing\\s+Date|Date\\s+Filed"));
+      filings.push({
+        debtorName: field(block, "Debtor(?:\\s+Name)?") ?? section.debtor,
+        jurisdiction,
+        filingNumber,
+        filingType,
+        originalFilingNumber:
+          filingType === "initial"
+            ? null
+            : (field(block, "Original\\s+File\\s+(?:Number|No\\.?|#)|Initial\\s+Financing\\s+Statement(?:\\s+File)?\\s+(?:Number|No\\.?|#)|Amends|Related\\s+Filing")?.split(/\s/)[0] ?? null),
+        filingDate,
+        lapseDate: parseDate(field(block, "Lapse\\s+Date|Lapses|Expiration\\s+Date")),
+        securedParty: securedPartyName(field(block, "Secured\\s+Part(?:y|ies)(?:\\s+Name)?|Assignee")),
+        collateralDescription: longField(block, "Collateral(?:\\s+Description)?"),
+      });
+    });
+  });
+  return filings;
+}
+
+/**
+ * Fold UCC-3s into their initial filings. Continuations without an explicit
+ * lapse date extend the prior lapse by five years (UCC 9-515(e)).
+ * UCC-3s whose initial filing isn't in the report stand alone.
+ */
+export function consolidateUccFilings(filings: UccFiling[]): UccLien[] {
+  const liens = new Map<string, UccLien>();
+  const key = (debtor: string | null, num: string) => `${(debtor ?? "").toLowerCase()}|${num}`;
+
+  for (const f of filings.filter((x) => x.filingType === "initial")) {
+    liens.set(key(f.debtorName, f.filingNumber), {
+      debtorName: f.debtorName,
+      jurisdiction: f.jurisdiction,
+      filingNumber: f.filingNumber,
+      filingDate: f.filingDate,
+      lapseDate: f.lapseDate ?? (f.filingDate ? addYears(f.filingDate, 5) : null),
+      securedParty: f.securedParty,
+      collateralDescription: f.collateralDescription,
+      terminated: false,
+      amendments: [],
+    });
+  }
+
+  const updates = filings
+    .filter((x) => x.filingType !== "initial")
+    .sort((a, b) => String(a.filingDate ?? "").localeCompare(String(b.filingDate ?? "")));
+  for (const f of updates) {
+    const target =
+      (f.originalFilingNumber && liens.get(key(f.debtorName, f.originalFilingNumber))) ||
+      (f.originalFilingNumber && [...liens.values()].find((l) => l.filingNumber === f.originalFilingNumber));
+    if (!target) {
+      liens.set(key(f.debtorName, f.filingNumber), {
+        debtorName: f.debtorName,
+        jurisdiction: f.jurisdiction,
+        filingNumber: f.originalFilingNumber ?? f.filingNumber,
+        filingDate: f.filingDate,
+        lapseDate: f.lapseDate,
+        securedParty: f.securedParty,
+        collateralDescription: f.collateralDescription,
+        terminated: f.filingType === "termination",
+        amendments: [f.filingNumber],
+      });
+      continue;
+    }
+    target.amendments.push(f.filingNumber);
+    if (f.filingType === "termination") target.terminated = true;
+    if (f.filingType === "continuation") {
+      target.lapseDate = f.lapseDate ?? (target.lapseDate ? addYears(target.lapseDate, 5) : null);
+    }
+    if (f.filingType === "assignment" && f.securedParty) target.securedParty = f.securedParty;
+    if (f.filingType === "amendment" && f.collateralDescription) target.collateralDescription = f.collateralDescription;
+  }
+
+  return [...liens.values()].sort(
+    (a, b) =>
+      String(a.debtorName ?? "").localeCompare(String(b.debtorName ?? "")) ||
+      String(a.filingDate ?? "").localeCompare(String(b.filingDate ?? "")),
+  );
+}
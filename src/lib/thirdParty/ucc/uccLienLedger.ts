@@ -0,0 +1,137 @@
+/**
+ * UCC lien ledger — pure.
+ *
+ * Classifies each lien from a UCC search against the deal's existing debt
+ * schedule (deal_existing_debt_schedule) and our own bank:
+ *
+ *   our_bank       secured party is this bank
+ *   existing_debt  secured party matches a disclosed lender
+ *   unexplained    active lien nobody has told us about → condition
+ *   inactive       lapsed or terminated — informational only
+ *
+ * A blanket lien (all assets / all Article 9 categories) held by another
+ * lender is a priority conflict for our collateral position unless that
+ * debt is being refinanced with our proceeds — then the lien only needs a
+ * UCC-3 termination at payoff.
+ */
+
+import { partyNamesMatch } from "../partyNames";
+import type { UccLien } from "./parseUccSearchResult";
+
+export type UccLienStatus = "active" | "lapsed" | "terminated";
+export type UccMatchStatus = "our_bank" | "existing_debt" | "unexplained" | "inactive";
+
+export type UccLedgerEntry = UccLien & {
+  status: UccLienStatus;
+  isBlanket: boolean;
+  matchStatus: UccMatchStatus;
+  matchedDebtId: string | null;
+  priorityConflict: boolean;
+  /** Blanket lien on debt we're refinancing: needs a UCC-3 termination at closing. */
+  terminationAtPayoff: boolean;
+};
+
+export type UccDebtRow = { id: string; lender_name: string; is_being_refinanced?: boolean | null };
+
+export type UccConditionDraft = {
+  sourceKey: string;
+  title: string;
+  description: string;
+  category: "credit" | "legal" | "closing";
+};
+
+const ARTICLE_9_CATEGORIES = [
+  /\baccounts\b|\breceivables\b/,
+  /\binventory\b/,
+  /\bequipment\b/,
+  /general\s+intangibles/,
+  /chattel\s+paper/,
+  /\binstruments\b/,
+  /deposit\s+accounts/,
+  /investment\s+property/,
+  /\bfixtures\b/,
+  /letter[\s-]of[\s-]credit\s+rights/,
+];
+
+/** "All assets" language, or a collateral grant naming most Article 9 categories. */
+export function isBlanketLien(collateral: string | null | undefined): boolean {
+  const c = String(collateral ?? "").toLowerCase();
+  if (!c) return false;
+  if (/\ball\s+(?:of\s+(?:the\s+)?debtor'?s\s+)?(?:business\s+|personal\s+property\s+and\s+)?assets\b|\ball\s+personal\s+property\b|\ball\s+assets\s+of\s+(?:the\s+)?debtor/.test(c)) {
+    return true;
+  }
+  return ARTICLE_9_CATEGORIES.filter((re) => re.test(c)).length >= 4;
+}
+
+export function uccLienStatus(lien: UccLien, asOf: Date): UccLienStatus {
+  if (lien.terminated) return "terminated";
+  if (lien.lapseDate && Date.parse(`${lien.lapseDate}T23:59:59Z`) < asOf.getTime()) return "lapsed";
+  return "active";
+}
+
+export function buildUccLienLedger(
+  liens: UccLien[],
+  ctx: { existingDebt: UccDebtRow[]; bankName: string | null; asOf: Date },
+): UccLedgerEntry[] {
+  return liens.map((lien) => {
+    const status = uccLienStatus(lien, ctx.asOf);
+    const isBlanket = isBlanketLien(lien.collateralDescription);
+    const debt = ctx.existingDebt.find((d) => partyNamesMatch(d.lender_name, lien.securedParty)) ?? null;
+    const ours = partyNamesMatch(lien.securedParty, ctx.bankName);
+
+    const matchStatus: UccMatchStatus =
+      status !== "active" ? "inactive" : ours ? "our_bank" : debt ? "existing_debt" : "unexplained";
+    const otherLenderBlanket = status === "active" && isBlanket && !ours;
+    const refinanced = debt?.is_being_refinanced === true;
+
+    return {
+      ...lien,
+      status,
+      isBlanket,
+      matchStatus,
+      matchedDebtId: matchStatus === "existing_debt" ? debt!.id : null,
+      priorityConflict: otherLenderBlanket && !refinanced,
+      terminationAtPayoff: otherLenderBlanket && refinanced,
+    };
+  });
+}
+
+function lienLabel(e: UccLedgerEntry): string {
+  return `${e.securedParty ?? "Unknown secured party"} (UCC #${e.filingNumber}${e.filingDate ? `, filed ${e.filingDate}` : ""})`;
+}
+
+/**
+ * Conditions the ledger calls for. Keys are stable per filing so
+ * re-parsing the same search never duplicates a condition.
+ */
+export function uccLienConditions(entries: UccLedgerEntry[]): UccConditionDraft[] {
+  const out: UccConditionDraft[] = [];
+  for (const e of entries) {
+    const debtor = e.debtorName ? ` against ${e.debtorName}` : "";
+    if (e.matchStatus === "unexplained") {
+      out.push({
+        sourceKey: `ucc_lien_unexplained:${e.filingNumber}`,
+        title: `Explain UCC lien — ${e.securedParty ?? "unknown secured party"}`,
+        description: `Active lien${debtor} by ${lienLabel(e)} is not on the existing debt schedule. Collateral: ${e.collateralDescription ?? "not stated"}. Add the debt to the schedule or obtain a UCC-3 termination / payoff letter.`,
+        category: "credit",
+      });
+    }
+    if (e.priorityConflict) {
+      out.push({
+        sourceKey: `ucc_priority_conflict:${e.filingNumber}`,
+        title: `Blanket lien ahead of our position — ${e.securedParty ?? "unknown secured party"}`,
+        description: `${lienLabel(e)} holds a blanket lien${debtor} that primes our collateral. Obtain a subordination / intercreditor agreement, or refinance and terminate before closing.`,
+        category: "legal",
+      });
+    }
+    if (e.terminationAtPayoff) {
+      out.push({
+        sourceKey: `ucc_termination_at_payoff:${e.filingNumber}`,
+        title: `UCC-3 termination at payoff — ${e.securedParty ?? "unknown secured party"}`,
+        description: `${lienLabel(e)} is being refinanced; obtain the payoff letter and file / receive the UCC-3 termination at closing.`,
+        category: "closing",
+      });
+    }
+  }
+  return out;
+}
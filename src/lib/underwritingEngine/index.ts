@@ -14,6 +14,7 @@ import { evaluatePolicy } from "@/lib/policyEngine";
 import { runStressScenarios } from "@/lib/stressEngine";
 import { computePricing } from "@/lib/pricingEngine";
 import { generateMemo } from "@/lib/memoEngine";
+import { resolveStressScenarios } from "@/lib/configEngine/stressScenarios";
 import type { UnderwriteInput, UnderwriteResult, UnderwriteFailure } from "./types";
 
 // Re-export types
@@ -45,7 +46,9 @@ export function runFullUnderwrite(
 
   // Extract config overrides (all optional — undefined = system defaults)
   const policyConfig = bankConfig?.policy;
-  const stressScenarios = bankConfig?.stress?.scenarios;
+  const stressScenarios = resolveStressScenarios(bankConfig?.stress);
+  const reverseStressConfig = bankConfig?.stress?.reverseStress;
+  const simulationConfig = bankConfig?.stress?.simulation;
   const pricingConfig = bankConfig?.pricing;
 
   // Build snapshot opts with defaults
@@ -73,10 +76,23 @@ export function runFullUnderwrite(
   // Step 3: Policy evaluation (with optional bank config)
   const policy = evaluatePolicy(snapshot, product, policyConfig);
 
-  // Step 4: Stress testing (with optional custom scenarios)
+  // Step 4: Stress testing (with optional custom scenarios, reverse stress, simulation)
   const stress = runStressScenarios(model, instruments, snapshotOpts, {
     product,
     scenarios: stressScenarios,
+    policyConfig,
+    reverseStress: reverseStressConfig?.enabled
+      ? { additionalTargets: reverseStressConfig.additionalTargets }
+      : false,
+    simulation: simulationConfig?.enabled
+      ? {
+          naicsCode: input.naicsCode,
+          iterations: simulationConfig.iterations,
+          seed: simulationConfig.seed,
+          horizonYears: simulationConfig.horizonYears,
+          rateVol: simulationConfig.rateVol,
+        }
+      : false,
   });
   if (!stress) {
     return {
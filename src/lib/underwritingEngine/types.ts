@@ -28,6 +28,8 @@ export interface UnderwriteInput {
   snapshotOpts?: Partial<CreditSnapshotOpts>;
   /** Optional bank-specific configuration. When omitted, system defaults apply. */
   bankConfig?: BankConfig;
+  /** Borrower NAICS code — selects the industry volatility prior for simulation */
+  naicsCode?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,246 @@
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  enqueueWebhookEvent,
+  processDueWebhookDeliveries,
+  replayWebhookDelivery,
+  storeWebhookSecret,
+  webhookRetryDelayMs,
+  type WebhookDeliveryDeps,
+} from "../deliveries";
+import { signWebhookPayload, verifyWebhookSignature } from "../signing";
+import { isWebhookEvent } from "../events";
+
+type Row = Record<string, any>;
+
+/** In-memory fake covering the query shapes deliveries.ts uses. */
+class FakeDb {
+  private seq = 0;
+  constructor(public tables: Record<string, Row[]>) {}
+
+  from = (table: string) => {
+    const preds: Array<(r: Row) => boolean> = [];
+    let op: "select" | "update" | "insert" = "select";
+    let payload: Row | Row[] = {};
+    let inserted: Row[] = [];
+    let limit = Infinity;
+    const rows = () => (this.tables[table] ??= []);
+    const matches = () => rows().filter((r) => preds.every((p) => p(r))).slice(0, limit);
+    const run = () => {
+      if (op === "select") return { data: matches(), error: null };
+      if (op === "insert") return { data: inserted, error: null };
+      for (const r of matches()) Object.assign(r, payload);
+      return { data: null, error: null };
+    };
+    const b: any = {
+      select: () => b,
+      insert: (p: Row | Row[]) => {
+        op = "insert";
+        inserted = (Array.isArray(p) ? p : [p]).map((r) => ({ id: `del-${++this.seq}`, replay_of: null, ...r }));
+        rows().push(...inserted);
+        return b;
+      },
+      upsert: (p: Row, opts: { onConflict: string }) => {
+        const existing = rows().find((r) => r[opts.onConflict] === p[opts.onConflict]);
+        if (existing) Object.assign(existing, p);
+        else rows().push({ ...p });
+        return b;
+      },
+      update: (p: Row) => ((op = "update"), (payload = p), b),
+      eq: (c: string, v: unknown) => (preds.push((r) => r[c] === v), b),
+      in: (c: string, vs: unknown[]) => (preds.push((r) => vs.includes(r[c])), b),
+      lte: (c: string, v: string) => (preds.push((r) => r[c] != null && r[c] <= v), b),
+      contains: (c: string, vs: unknown[]) => (preds.push((r) => vs.every((v) => (r[c] ?? []).includes(v))), b),
+      order: () => b,
+      limit: (n: number) => ((limit = n), b),
+      single: () => Promise.resolve({ data: op === "insert" ? inserted[0] : matches()[0] ?? null, error: null }),
+      maybeSingle: () => Promise.resolve({ data: matches()[0] ?? null, error: null }),
+      then: (ok: (v: unknown) => unknown, bad?: (e: unknown) => unknown) => Promise.resolve(run()).then(ok, bad),
+    };
+    return b;
+  };
+}
+
+const SECRET = "whsec_test";
+
+function setup(responses: number[]) {
+  const db = new FakeDb({
+    deal_webhooks: [
+      { id: "sub-1", bank_id: "bank-1", url: "https://los.example/hook", events: ["condition.status_changed", "decision.finalized"], enabled: true },
+      { id: "sub-2", bank_id: "bank-1", url: "https://core.example/hook", events: ["decision.finalized"], enabled: true },
+      { id: "sub-3", bank_id: "bank-2", url: "https://other.example/hook", events: ["condition.status_changed"], enabled: true },
+    ],
+    deal_webhook_secrets: [
+      { webhook_id: "sub-1", bank_id: "bank-1", secret: SECRET },
+      { webhook_id: "sub-2", bank_id: "bank-1", secret: SECRET },
+      { webhook_id: "sub-3", bank_id: "bank-2", secret: SECRET },
+    ],
+    webhook_deliveries: [],
+  });
+  const calls: Array<{ url: string; headers: Record<string, string>; body: string }> = [];
+  let clock = new Date("2026-10-19T12:00:00Z");
+  const deps: WebhookDeliveryDeps = {
+    sb: db,
+    now: () => clock,
+    fetchImpl: (async (url: string, init: any) => {
+      calls.push({ url, headers: init.headers, body: init.body });
+      const status = responses.length > 0 ? responses.shift()! : 200;
+      return new Response(status >= 400 ? "nope" : "ok", { status });
+    }) as any,
+  };
+  return { db, calls, deps, advance: (ms: number) => (clock = new Date(clock.getTime() + ms)) };
+}
+
+describe("signing", () => {
+  test("round-trips and rejects tampering, wrong secret and stale timestamps", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    const body = JSON.stringify({ hello: "world" });
+    const header = signWebhookPayload(SECRET, body, now);
+    assert.match(header, /^t=\d+,v1=[0-9a-f]{64}$/);
+    assert.deepEqual(verifyWebhookSignature(SECRET, body, header, { now }), { ok: true, timestamp: now.getTime() / 1000 });
+    assert.equal(verifyWebhookSignature(SECRET, body + " ", header, { now }).ok, false);
+    assert.equal(verifyWebhookSignature("whsec_other", body, header, { now }).ok, false);
+    assert.deepEqual(verifyWebhookSignature(SECRET, body, header, { now: new Date(now.getTime() + 301_000) }), {
+      ok: false,
+      reason: "timestamp_out_of_tolerance",
+    });
+    assert.deepEqual(verifyWebhookSignature(SECRET, body, "garbage"), { ok: false, reason: "malformed" });
+  });
+
+  test("event catalog covers decision, condition, checklist, memo and closing", () => {
+    for (const e of ["decision.finalized", "condition.status_changed", "checklist.item_status_changed", "memo.section_saved", "closing.funding_authorized"]) {
+      assert.ok(isWebhookEvent(e), e);
+    }
+    assert.equal(isWebhookEvent("deal.exploded"), false);
+  });
+});
+
+test("webhookRetryDelayMs: doubles from one minute, capped at six hours", () => {
+  assert.deepEqual([1, 2, 3, 4].map(webhookRetryDelayMs), [60_000, 120_000, 240_000, 480_000]);
+  assert.equal(webhookRetryDelayMs(20), 6 * 60 * 60 * 1000);
+});
+
+describe("enqueueWebhookEvent", () => {
+  test("queues one delivery per subscribed endpoint of the same bank without sending inline", async () => {
+    const { db, calls, deps } = setup([200, 200]);
+    const { eventId, deliveryIds } = await enqueueWebhookEvent(
+      { event: "decision.finalized", bankId: "bank-1", dealId: "deal-1", data: { decision: "approve" } },
+      deps,
+    );
+    assert.equal(deliveryIds.length, 2);
+    assert.equal(calls.length, 0, "the firing transition never waits on an endpoint");
+    assert.ok(
+      db.tables.webhook_deliveries.every((d) => d.status === "pending" && d.next_attempt_at === "2026-10-19T12:00:00.000Z"),
+      "queued rows are due immediately",
+    );
+
+    assert.deepEqual(await processDueWebhookDeliveries({ limit: 10 }, deps), { claimed: 2, delivered: 2, retrying: 0, failed: 0 });
+    assert.deepEqual(calls.map((c) => c.url).sort(), ["https://core.example/hook", "https://los.example/hook"]);
+
+    const call = calls[0];
+    assert.equal(call.headers["Buddy-Event"], "decision.finalized");
+    assert.equal(call.headers["Buddy-Event-Id"], eventId);
+    assert.ok(verifyWebhookSignature(SECRET, call.body, call.headers["Buddy-Signature"], { now: new Date("2026-10-19T12:00:00Z") }).ok);
+    assert.equal(JSON.parse(call.body).id, eventId);
+
+    assert.ok(db.tables.webhook_deliveries.every((d) => d.status === "delivered" && d.attempt_count === 1 && d.next_attempt_at === null));
+  });
+
+  test("no subscriptions -> nothing recorded", async () => {
+    const { db, calls, deps } = setup([]);
+    const res = await enqueueWebhookEvent({ event: "memo.section_saved", bankId: "bank-1", dealId: "deal-1", data: {} }, deps);
+    assert.deepEqual(res.deliveryIds, []);
+    assert.equal(calls.length, 0);
+    assert.equal(db.tables.webhook_deliveries.length, 0);
+  });
+});
+
+describe("retries", () => {
+  test("failed attempts back off and park as failed after the max", async () => {
+    const { db, calls, deps, advance } = setup(Array(WEBHOOK_MAX_ATTEMPTS).fill(503));
+    await enqueueWebhookEvent({ event: "condition.status_changed", bankId: "bank-1", dealId: "deal-1", data: {} }, deps);
+    await processDueWebhookDeliveries({ limit: 10 }, deps);
+    const row = db.tables.webhook_deliveries[0];
+    assert.equal(row.status, "pending");
+    assert.equal(row.error, "HTTP 503");
+    assert.equal(row.next_attempt_at, "2026-10-19T12:01:00.000Z");
+
+    // Not yet due
+    assert.equal((await processDueWebhookDeliveries({ limit: 10 }, deps)).claimed, 0);
+
+    for (let i = 1; i < WEBHOOK_MAX_ATTEMPTS; i++) {
+      advance(webhookRetryDelayMs(i));
+      await processDueWebhookDeliveries({ limit: 10 }, deps);
+    }
+    assert.equal(calls.length, WEBHOOK_MAX_ATTEMPTS);
+    assert.equal(row.status, "failed");
+    assert.equal(row.attempt_count, WEBHOOK_MAX_ATTEMPTS);
+    assert.equal(row.next_attempt_at, null);
+  });
+
+  test("a disabled subscription fails the delivery without sending", async () => {
+    const { db, calls, deps, advance } = setup([500]);
+    await enqueueWebhookEvent({ event: "condition.status_changed", bankId: "bank-1", dealId: "deal-1", data: {} }, deps);
+    await processDueWebhookDeliveries({ limit: 10 }, deps);
+    db.tables.deal_webhooks[0].enabled = false;
+    advance(60_000);
+    const res = await processDueWebhookDeliveries({ limit: 10 }, deps);
+    assert.deepEqual(res, { claimed: 1, delivered: 0, retrying: 0, failed: 1 });
+    assert.equal(calls.length, 1);
+    assert.equal(db.tables.webhook_deliveries[0].error, "subscription_disabled");
+  });
+});
+
+describe("signing secrets", () => {
+  test("a rotated secret signs the next delivery and only its hint is on the subscription", async () => {
+    const { db, calls, deps } = setup([]);
+    const rotated = "whsec_rotated0123456789abcdef";
+    await storeWebhookSecret({ webhookId: "sub-2", bankId: "bank-1", secret: rotated, rotated: true }, deps);
+    assert.equal(db.tables.deal_webhooks[1].secret_hint, "whsec_rota…cdef");
+    assert.equal(db.tables.deal_webhook_secrets[1].rotated_at, "2026-10-19T12:00:00.000Z");
+
+    await enqueueWebhookEvent({ event: "decision.finalized", bankId: "bank-1", dealId: "deal-1", data: {} }, deps);
+    await processDueWebhookDeliveries({ limit: 10 }, deps);
+    const call = calls.find((c) => c.url === "https://core.example/hook")!;
+    const opts = { now: new Date("2026-10-19T12:00:00Z") };
+    assert.ok(verifyWebhookSignature(rotated, call.body, call.headers["Buddy-Signature"], opts).ok);
+    assert.equal(verifyWebhookSignature(SECRET, call.body, call.headers["Buddy-Signature"], opts).ok, false);
+  });
+
+  test("a subscription with no stored secret fails without sending", async () => {
+    const { db, calls, deps } = setup([]);
+    db.tables.deal_webhook_secrets = db.tables.deal_webhook_secrets.filter((s) => s.webhook_id !== "sub-1");
+    await enqueueWebhookEvent({ event: "condition.status_changed", bankId: "bank-1", dealId: "deal-1", data: {} }, deps);
+    await processDueWebhookDeliveries({ limit: 10 }, deps);
+    assert.equal(calls.length, 0);
+    assert.equal(db.tables.webhook_deliveries[0].status, "failed");
+    assert.equal(db.tables.webhook_deliveries[0].error, "subscription_missing_secret");
+  });
+});
+
+describe("replayWebhookDelivery", () => {
+  test("re-sends as a new row with the same event id; other banks cannot replay it", async () => {
+    const { db, calls, deps } = setup([500, 200]);
+    const { eventId } = await enqueueWebhookEvent(
+      { event: "condition.status_changed", bankId: "bank-1", dealId: "deal-1", data: { status: "waived" } },
+      deps,
+    );
+    await processDueWebhookDeliveries({ limit: 10 }, deps);
+    const original = db.tables.webhook_deliveries[0];
+
+    assert.deepEqual(await replayWebhookDelivery({ deliveryId: original.id, bankId: "bank-2" }, deps), {
+      ok: false,
+      error: "delivery_not_found",
+    });
+
+    const res = await replayWebhookDelivery({ deliveryId: original.id, bankId: "bank-1" }, deps);
+    assert.ok(res.ok);
+    assert.equal(res.outcome.status, "delivered");
+    const replay = db.tables.webhook_deliveries[1];
+    assert.equal(replay.replay_of, original.id);
+    assert.equal(replay.event_id, eventId);
+    assert.equal(calls[1].body, calls[0].body);
+  });
+});
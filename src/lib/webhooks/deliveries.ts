@@ -0,0 +1,385 @@
+/**
+ * Outbound webhook delivery engine.
+ *
+ * One webhook_deliveries row per (event, subscribed endpoint). Firing an
+ * event only records the rows, due immediately — the transition that fired
+ * it never waits on a partner endpoint. The webhook-deliveries worker sends
+ * them and retries failures with exponential backoff until
+ * WEBHOOK_MAX_ATTEMPTS, then parks them as "failed" for the admin view,
+ * where they can be replayed.
+ *
+ * Signing secrets are read from deal_webhook_secrets (service role only),
+ * never from deal_webhooks, which every bank user can select.
+ *
+ * Concurrency: before any attempt the row's next_attempt_at is pushed out by
+ * ATTEMPT_LEASE_MS, so a worker tick never picks up a row a replay (or
+ * another worker tick) is still sending.
+ *
+ * NOTE: this module intentionally does NOT import "server-only" and lazily
+ * loads supabaseAdmin only when no `sb` is injected, so it runs under
+ * node:test with a fake client (same pattern as etran/submitter.ts).
+ */
+
+import { randomUUID } from "node:crypto";
+import { isWebhookEvent, type WebhookEvent, type WebhookPayload } from "./events";
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload, webhookSecretHint } from "./signing";
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+const ATTEMPT_LEASE_MS = 2 * 60_000;
+const MAX_STORED_RESPONSE_CHARS = 2_000;
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookSubscription = {
+  id: string;
+  bank_id: string;
+  url: string;
+  secret: string | null;
+  events: string[] | null;
+  enabled: boolean;
+};
+
+export type WebhookDeliveryRow = {
+  id: string;
+  bank_id: string;
+  webhook_id: string | null;
+  event: string;
+  event_id: string;
+  deal_id: string | null;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  replay_of: string | null;
+};
+
+export type WebhookDeliveryDeps = {
+  sb: any;
+  fetchImpl?: typeof fetch;
+  now?: () => Date;
+};
+
+export type WebhookAttemptOutcome = {
+  deliveryId: string;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  responseStatus: number | null;
+  error: string | null;
+};
+
+const SUBSCRIPTION_COLUMNS = "id, bank_id, url, events, enabled";
+const DELIVERY_COLUMNS =
+  "id, bank_id, webhook_id, event, event_id, deal_id, payload, status, attempt_count, next_attempt_at, replay_of";
+
+async function resolveDeps(deps?: Partial<WebhookDeliveryDeps>): Promise<Required<WebhookDeliveryDeps>> {
+  const sb = deps?.sb ?? (await import("@/lib/supabase/admin")).supabaseAdmin();
+  return {
+    sb,
+    fetchImpl: deps?.fetchImpl ?? fetch,
+    now: deps?.now ?? (() => new Date()),
+  };
+}
+
+/**
+ * Delay before the next attempt after `attemptCount` failed attempts:
+ * 1m, 2m, 4m … capped at 6h. Deterministic (no jitter) — the worker only
+ * ticks every few minutes, which spreads load on its own.
+ */
+export function webhookRetryDelayMs(attemptCount: number): number {
+  const n = Math.max(1, Math.floor(attemptCount));
+  return Math.min(RETRY_BASE_MS * 2 ** (n - 1), RETRY_MAX_MS);
+}
+
+function addMs(d: Date, ms: number): string {
+  return new Date(d.getTime() + ms).toISOString();
+}
+
+/**
+ * Send one attempt for a delivery row and persist the result. Never throws.
+ */
+export async function attemptWebhookDelivery(
+  delivery: WebhookDeliveryRow,
+  subscription: WebhookSubscription | null,
+  deps?: Partial<WebhookDeliveryDeps>,
+): Promise<WebhookAttemptOutcome> {
+  const { sb, fetchImpl, now } = await resolveDeps(deps);
+  const startedAt = now();
+  const attemptCount = (delivery.attempt_count ?? 0) + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  if (!subscription || !subscription.enabled || !subscription.secret) {
+    error = !subscription ? "subscription_deleted" : !subscription.enabled ? "subscription_disabled" : "subscription_missing_secret";
+  } else {
+    // Claim the row before the network call (see header: lease).
+    await sb
+      .from("webhook_deliveries")
+      .update({ next_attempt_at: addMs(startedAt, ATTEMPT_LEASE_MS) })
+      .eq("id", delivery.id);
+
+    const body = JSON.stringify(delivery.payload);
+    try {
+      const res = await fetchImpl(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Buddy-Webhooks/1",
+          "Buddy-Event": delivery.event,
+          "Buddy-Event-Id": delivery.event_id,
+          "Buddy-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, body, startedAt),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = res.status;
+      responseBody = (await res.text().catch(() => "")).slice(0, MAX_STORED_RESPONSE_CHARS);
+      if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (err: any) {
+      error = err?.name === "TimeoutError" ? `timeout after ${WEBHOOK_TIMEOUT_MS}ms` : String(err?.message ?? err);
+    }
+  }
+
+  const finishedAt = now();
+  const permanent = !subscription || !subscription.enabled || !subscription.secret;
+  const status: WebhookDeliveryStatus = !error
+    ? "delivered"
+    : permanent || attemptCount >= WEBHOOK_MAX_ATTEMPTS
+      ? "failed"
+      : "pending";
+
+  const { error: updateErr } = await sb
+    .from("webhook_deliveries")
+    .update({
+      status,
+      attempt_count: permanent ? delivery.attempt_count ?? 0 : attemptCount,
+      last_attempt_at: finishedAt.toISOString(),
+      next_attempt_at: status === "pending" ? addMs(finishedAt, webhookRetryDelayMs(attemptCount)) : null,
+      delivered_at: status === "delivered" ? finishedAt.toISOString() : null,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error,
+    })
+    .eq("id", delivery.id);
+  if (updateErr) {
+    console.error("[webhook] delivery log update failed", { delivery_id: delivery.id, error: updateErr.message });
+  }
+
+  if (error) {
+    console.warn("[webhook] delivery attempt failed", {
+      delivery_id: delivery.id,
+      event: delivery.event,
+      attempt: attemptCount,
+      status,
+      error,
+    });
+  }
+
+  return {
+    deliveryId: delivery.id,
+    status,
+    attemptCount: permanent ? delivery.attempt_count ?? 0 : attemptCount,
+    responseStatus,
+    error,
+  };
+}
+
+async function loadSubscriptions(sb: any, ids: string[]): Promise<Map<string, WebhookSubscription>> {
+  if (ids.length === 0) return new Map();
+  const [{ data }, { data: secrets }] = await Promise.all([
+    sb.from("deal_webhooks").select(SUBSCRIPTION_COLUMNS).in("id", ids),
+    sb.from("deal_webhook_secrets").select("webhook_id, secret").in("webhook_id", ids),
+  ]);
+  const secretById = new Map(
+    ((secrets ?? []) as Array<{ webhook_id: string; secret: string }>).map((s) => [s.webhook_id, s.secret]),
+  );
+  return new Map(
+    ((data ?? []) as Array<Omit<WebhookSubscription, "secret">>).map((s) => [
+      s.id,
+      { ...s, secret: secretById.get(s.id) ?? null },
+    ]),
+  );
+}
+
+/**
+ * Store (or replace, on rotation) a subscription's signing secret and its
+ * masked hint on deal_webhooks.
+ */
+export async function storeWebhookSecret(
+  input: { webhookId: string; bankId: string; secret: string; rotated: boolean },
+  deps?: Partial<WebhookDeliveryDeps>,
+): Promise<void> {
+  const { sb, now } = await resolveDeps(deps);
+  const { error } = await sb.from("deal_webhook_secrets").upsert(
+    {
+      webhook_id: input.webhookId,
+      bank_id: input.bankId,
+      secret: input.secret,
+      rotated_at: input.rotated ? now().toISOString() : null,
+    },
+    { onConflict: "webhook_id" },
+  );
+  if (error) throw new Error(`deal_webhook_secrets_upsert_failed:${error.message}`);
+
+  const { error: hintErr } = await sb
+    .from("deal_webhooks")
+    .update({ secret_hint: webhookSecretHint(input.secret) })
+    .eq("id", input.webhookId)
+    .eq("bank_id", input.bankId);
+  if (hintErr) throw new Error(`deal_webhooks_update_failed:${hintErr.message}`);
+}
+
+/**
+ * Record one delivery per subscribed endpoint, due now. Sending is the
+ * worker's job; the caller waits on two queries, never on an endpoint.
+ */
+export async function enqueueWebhookEvent(
+  input: {
+    event: WebhookEvent;
+    bankId: string;
+    dealId: string | null;
+    data: Record<string, any>;
+    occurredAt?: Date;
+  },
+  deps?: Partial<WebhookDeliveryDeps>,
+): Promise<{ eventId: string; deliveryIds: string[] }> {
+  const { sb, now } = await resolveDeps(deps);
+  const eventId = randomUUID();
+
+  if (!isWebhookEvent(input.event)) {
+    throw new Error(`Unknown webhook event: ${String(input.event)}`);
+  }
+
+  const { data: subs, error } = await sb
+    .from("deal_webhooks")
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq("bank_id", input.bankId)
+    .eq("enabled", true)
+    .contains("events", [input.event]);
+  if (error) throw new Error(error.message);
+
+  const subscriptions = (subs ?? []) as Array<Omit<WebhookSubscription, "secret">>;
+  if (subscriptions.length === 0) return { eventId, deliveryIds: [] };
+
+  const createdAt = now();
+  const payload: WebhookPayload = {
+    id: eventId,
+    event: input.event,
+    deal_id: input.dealId,
+    bank_id: input.bankId,
+    timestamp: (input.occurredAt ?? createdAt).toISOString(),
+    data: input.data,
+  };
+
+  const { data: rows, error: insertErr } = await sb
+    .from("webhook_deliveries")
+    .insert(
+      subscriptions.map((s) => ({
+        bank_id: input.bankId,
+        webhook_id: s.id,
+        event: input.event,
+        event_id: eventId,
+        deal_id: input.dealId,
+        payload,
+        status: "pending",
+        attempt_count: 0,
+        next_attempt_at: createdAt.toISOString(),
+      })),
+    )
+    .select("id");
+  if (insertErr) throw new Error(insertErr.message);
+
+  return { eventId, deliveryIds: ((rows ?? []) as Array<{ id: string }>).map((r) => r.id) };
+}
+
+/**
+ * Worker entry point: attempt every pending delivery whose backoff has
+ * elapsed, oldest first.
+ */
+export async function processDueWebhookDeliveries(
+  opts: { limit: number },
+  deps?: Partial<WebhookDeliveryDeps>,
+): Promise<{ claimed: number; delivered: number; retrying: number; failed: number }> {
+  const resolved = await resolveDeps(deps);
+  const { sb, now } = resolved;
+
+  const { data, error } = await sb
+    .from("webhook_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("status", "pending")
+    .lte("next_attempt_at", now().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(opts.limit);
+  if (error) throw new Error(error.message);
+
+  const due = (data ?? []) as WebhookDeliveryRow[];
+  const subs = await loadSubscriptions(
+    sb,
+    Array.from(new Set(due.map((d) => d.webhook_id).filter((id): id is string => Boolean(id)))),
+  );
+
+  const counts = { claimed: due.length, delivered: 0, retrying: 0, failed: 0 };
+  // Sequential: one slow endpoint should not fan out into a burst of
+  // concurrent requests against the same partner.
+  for (const row of due) {
+    const outcome = await attemptWebhookDelivery(row, subs.get(row.webhook_id ?? "") ?? null, resolved);
+    if (outcome.status === "delivered") counts.delivered += 1;
+    else if (outcome.status === "pending") counts.retrying += 1;
+    else counts.failed += 1;
+  }
+  return counts;
+}
+
+/**
+ * Re-send a past delivery as a new delivery row (replay_of → original). The
+ * payload and event id are unchanged so receivers can de-duplicate; the
+ * signature is fresh. Bank-scoped: a delivery id from another bank is not
+ * found.
+ */
+export async function replayWebhookDelivery(
+  input: { deliveryId: string; bankId: string },
+  deps?: Partial<WebhookDeliveryDeps>,
+): Promise<{ ok: true; outcome: WebhookAttemptOutcome } | { ok: false; error: string }> {
+  const resolved = await resolveDeps(deps);
+  const { sb, now } = resolved;
+
+  const { data: original } = await sb
+    .from("webhook_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("id", input.deliveryId)
+    .eq("bank_id", input.bankId)
+    .maybeSingle();
+  if (!original) return { ok: false, error: "delivery_not_found" };
+  if (!original.webhook_id) return { ok: false, error: "subscription_deleted" };
+
+  const subs = await loadSubscriptions(sb, [original.webhook_id]);
+  const subscription = subs.get(original.webhook_id) ?? null;
+  if (!subscription || !subscription.enabled) return { ok: false, error: "subscription_disabled" };
+
+  const { data: replay, error } = await sb
+    .from("webhook_deliveries")
+    .insert({
+      bank_id: original.bank_id,
+      webhook_id: original.webhook_id,
+      event: original.event,
+      event_id: original.event_id,
+      deal_id: original.deal_id,
+      payload: original.payload,
+      status: "pending",
+      attempt_count: 0,
+      next_attempt_at: addMs(now(), ATTEMPT_LEASE_MS),
+      replay_of: original.id,
+    })
+    .select(DELIVERY_COLUMNS)
+    .single();
+  if (error || !replay) return { ok: false, error: error?.message ?? "replay_insert_failed" };
+
+  const outcome = await attemptWebhookDelivery(replay as WebhookDeliveryRow, subscription, resolved);
+  return { ok: true, outcome };
+}
@@ -0,0 +1,43 @@
+/**
+ * Outbound webhook event catalog.
+ *
+ * Pure. The single list of event names a bank can subscribe an endpoint to
+ * (deal_webhooks.events). Adding an event here makes it subscribable; firing
+ * it is up to the call site (see fireWebhook).
+ */
+
+export const WEBHOOK_EVENTS = [
+  // Deal lifecycle
+  "deal.ready",
+  "deal.submitted",
+  // Credit decision
+  "decision.finalized",
+  // Conditions
+  "condition.status_changed",
+  // Checklist
+  "checklist.item_status_changed",
+  // Credit memo
+  "memo.section_saved",
+  // Closing
+  "closing.funding_authorized",
+  // AI usage budgets (bank-level; deal_id is null)
+  "ai_budget.soft_limit_reached",
+  "ai_budget.hard_limit_reached",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export type WebhookPayload = {
+  /** Stable event id — identical across retries and replays. */
+  id: string;
+  event: WebhookEvent;
+  deal_id: string | null;
+  bank_id: string;
+  /** When the event occurred (not when this attempt was sent). */
+  timestamp: string;
+  data: Record<string, any>;
+};
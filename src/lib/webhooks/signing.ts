@@ -0,0 +1,69 @@
+/**
+ * Webhook payload signing.
+ *
+ * Header format (one scheme, versioned so it can rotate):
+ *
+ *   Buddy-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<raw body>")>
+ *
+ * The timestamp is signed with the body, so a captured request cannot be
+ * re-sent outside the receiver's tolerance window. Receivers should compare
+ * with a constant-time equality (verifyWebhookSignature does).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "Buddy-Signature";
+
+/** Default receiver tolerance for the signed timestamp. */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString("hex")}`;
+}
+
+/** Masked form kept on deal_webhooks.secret_hint for display; never enough to sign. */
+export function webhookSecretHint(secret: string): string {
+  return `${secret.slice(0, 10)}…${secret.slice(-4)}`;
+}
+
+function hmacHex(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function signWebhookPayload(secret: string, body: string, now: Date = new Date()): string {
+  const t = Math.floor(now.getTime() / 1000);
+  return `t=${t},v1=${hmacHex(secret, t, body)}`;
+}
+
+export type WebhookSignatureCheck =
+  | { ok: true; timestamp: number }
+  | { ok: false; reason: "malformed" | "timestamp_out_of_tolerance" | "signature_mismatch" };
+
+/**
+ * Verify a Buddy-Signature header. Exported for integration partners' test
+ * harnesses and our own tests; Buddy never receives its own webhooks.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  opts: { now?: Date; toleranceSeconds?: number } = {},
+): WebhookSignatureCheck {
+  const parts = new Map(
+    String(header ?? "")
+      .split(",")
+      .map((p) => p.trim().split("=", 2) as [string, string | undefined]),
+  );
+  const t = Number(parts.get("t"));
+  const v1 = parts.get("v1");
+  if (!Number.isInteger(t) || !v1 || !/^[0-9a-f]{64}$/.test(v1)) return { ok: false, reason: "malformed" };
+
+  const nowSec = Math.floor((opts.now ?? new Date()).getTime() / 1000);
+  const tolerance = opts.toleranceSeconds ?? WEBHOOK_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(nowSec - t) > tolerance) return { ok: false, reason: "timestamp_out_of_tolerance" };
+
+  const expected = Buffer.from(hmacHex(secret, t, body), "hex");
+  const given = Buffer.from(v1, "hex");
+  if (!timingSafeEqual(expected, given)) return { ok: false, reason: "signature_mismatch" };
+  return { ok: true, timestamp: t };
+}
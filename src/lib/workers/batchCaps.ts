@@ -4,15 +4,19 @@
  * Conservative defaults so cron invocations do bounded, predictable work.
  * Each env var is parsed once and clamped to a worker-specific maximum.
  *
- *   outbox        BUDDY_OUTBOX_BATCH_SIZE          default 10  max 25
- *   ledger        BUDDY_LEDGER_FORWARD_BATCH_SIZE  default 25  max 50
- *   doc extract   BUDDY_DOC_EXTRACTION_BATCH_SIZE  default 5   max 10
+ *   outbox        BUDDY_OUTBOX_BATCH_SIZE              default 10  max 25
+ *   ledger        BUDDY_LEDGER_FORWARD_BATCH_SIZE      default 25  max 50
+ *   doc extract   BUDDY_DOC_EXTRACTION_BATCH_SIZE      default 5   max 10
+ *   webhooks      BUDDY_WEBHOOK_BATCH_SIZE             default 20  max 50
+ *   sanctions     BUDDY_SANCTIONS_RESCREEN_BATCH_SIZE  default 10  max 25
  */
 
 const DEFAULTS = {
   outbox: { default: 10, max: 25 },
   ledger: { default: 25, max: 50 },
   docExtraction: { default: 5, max: 10 },
+  webhooks: { default: 20, max: 50 },
+  sanctionsRescreen: { default: 10, max: 25 },
 } as const;
 
 function parseInt10(v: string | null | undefined): number | null {
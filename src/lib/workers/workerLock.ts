@@ -30,6 +30,8 @@
  *   - intake outbox                  42001003
  *   - deal pipeline ledger forwarder 42001004
  *   - spreads worker / monitor       42001005
+ *   - webhook deliveries             42001006
+ *   - sanctions list rescreen        42001007
  */
 
 import { assertServerOnly } from "@/lib/serverOnly";
@@ -43,6 +45,8 @@ export const WORKER_LOCK_KEYS = {
   INTAKE_OUTBOX: 42001003,
   LEDGER_FORWARDER: 42001004,
   SPREADS_WORKER: 42001005,
+  WEBHOOK_DELIVERIES: 42001006,
+  SANCTIONS_RESCREEN: 42001007,
 } as const;
 
 export type WorkerLockKey =
@@ -0,0 +1,101 @@
+-- Post-close covenant compliance testing
+--
+-- Two tables:
+--   1. buddy_covenant_test_results — one row per financial covenant per
+--      tested spread period (pass / near_miss / fail). Re-running a test for
+--      the same period upserts on (deal_id, covenant_id, period_end).
+--   2. buddy_covenant_springing_activations — one row per springing covenant
+--      per period in which its trigger metric crossed the trigger threshold.
+--
+-- covenant_id / springing_id are the ids inside the jsonb arrays of
+-- buddy_covenant_packages, not foreign keys.
+--
+-- RLS: Only service_role may access these tables.
+
+create table if not exists public.buddy_covenant_test_results (
+  id                 uuid primary key default gen_random_uuid(),
+  deal_id            uuid not null references public.deals(id) on delete cascade,
+  bank_id            uuid not null references public.banks(id) on delete cascade,
+  snapshot_hash      text,
+  covenant_id        text not null,
+  covenant_name      text not null,
+  category           text not null,
+  direction          text not null check (direction in ('floor','cap')),
+  threshold          numeric not null,
+  actual_value       numeric,
+  headroom           numeric,
+  status             text not null check (
+    status in ('pass','near_miss','fail','insufficient_data')
+  ),
+  testing_frequency  text not null,
+  period_end         date not null,
+  test_date          timestamptz not null,
+  reason             text,
+  exception_id       uuid null references public.deal_monitoring_exceptions(id) on delete set null,
+  tested_by          text not null,
+  created_at         timestamptz not null default now(),
+  unique (deal_id, covenant_id, period_end)
+);
+
+create index if not exists idx_bctr_deal_period
+  on public.buddy_covenant_test_results(deal_id, period_end desc);
+
+create index if not exists idx_bctr_bank_status
+  on public.buddy_covenant_test_results(bank_id, status);
+
+create table if not exists public.buddy_covenant_springing_activations (
+  id                 uuid primary key default gen_random_uuid(),
+  deal_id            uuid not null references public.deals(id) on delete cascade,
+  bank_id            uuid not null references public.banks(id) on delete cascade,
+  springing_id       text not null,
+  name               text not null,
+  trigger_metric     text not null,
+  trigger_threshold  numeric not null,
+  actual_value       numeric not null,
+  period_end         date not null,
+  remedy             text,
+  exception_id       uuid null references public.deal_monitoring_exceptions(id) on delete set null,
+  activated_at       timestamptz not null default now(),
+  unique (deal_id, springing_id, period_end)
+);
+
+create index if not exists idx_bcsa_deal
+  on public.buddy_covenant_springing_activations(deal_id, activated_at desc);
+
+alter table public.buddy_covenant_test_results enable row level security;
+alter table public.buddy_covenant_springing_activations enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policy p
+    join pg_class c on c.oid = p.polrelid
+    where c.relname = 'buddy_covenant_test_results' and p.polname = 'service_role_all'
+  ) then
+    create policy "service_role_all"
+      on public.buddy_covenant_test_results
+      for all
+      to service_role
+      using (true)
+      with check (true);
+  end if;
+
+  if not exists (
+    select 1 from pg_policy p
+    join pg_class c on c.oid = p.polrelid
+    where c.relname = 'buddy_covenant_springing_activations' and p.polname = 'service_role_all'
+  ) then
+    create policy "service_role_all"
+      on public.buddy_covenant_springing_activations
+      for all
+      to service_role
+      using (true)
+      with check (true);
+  end if;
+end $$;
+
+comment on table public.buddy_covenant_test_results is
+  'Post-close financial covenant test results, one row per covenant per tested spread period.';
+
+comment on table public.buddy_covenant_springing_activations is
+  'Springing covenants activated when their trigger metric crossed the trigger threshold in a spread period.';
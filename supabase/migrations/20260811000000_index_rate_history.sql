@@ -0,0 +1,72 @@
+-- Durable index-rate history
+--
+-- index_rate_history holds one row per (index_code, as_of_date, provider).
+-- Rows are append-only: a correction for the same date is recorded under
+-- the 'manual' provider, which outranks feed/file/LLM rows in as-of lookups.
+--
+--   provider = 'manual'       — admin-entered single rate
+--   provider = 'file_upload'  — admin CSV / H.15 / FRED file import
+--   provider = 'feed'         — local scheduled feed
+--   provider = 'llm_lookup'   — grounded LLM lookup (legacy default)
+--
+-- rate_index_snapshots and deal_pricing_quotes gain index_rate_history_id so
+-- every quote (and in particular every locked quote) points at the exact
+-- rate record it was priced from.
+--
+-- RLS: Only service_role may access index_rate_history.
+
+create table if not exists public.index_rate_history (
+  id               uuid primary key default gen_random_uuid(),
+  index_code       text not null check (index_code in ('SOFR','UST_5Y','PRIME')),
+  as_of_date       date not null,
+  rate_pct         numeric not null,
+  source           text not null,
+  provider         text not null check (
+    provider in ('manual','file_upload','feed','llm_lookup')
+  ),
+  source_url       text,
+  upload_batch_id  uuid,
+  recorded_by      text,
+  raw              jsonb,
+  created_at       timestamptz not null default now(),
+  unique (index_code, as_of_date, provider)
+);
+
+create index if not exists idx_irh_code_asof
+  on public.index_rate_history(index_code, as_of_date desc);
+
+create index if not exists idx_irh_batch
+  on public.index_rate_history(upload_batch_id)
+  where upload_batch_id is not null;
+
+alter table public.rate_index_snapshots
+  add column if not exists index_rate_history_id uuid null
+    references public.index_rate_history(id) on delete restrict;
+
+alter table public.deal_pricing_quotes
+  add column if not exists index_rate_history_id uuid null
+    references public.index_rate_history(id) on delete restrict;
+
+alter table public.index_rate_history enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policy p
+    join pg_class c on c.oid = p.polrelid
+    where c.relname = 'index_rate_history' and p.polname = 'service_role_all'
+  ) then
+    create policy "service_role_all"
+      on public.index_rate_history
+      for all
+      to service_role
+      using (true)
+      with check (true);
+  end if;
+end $$;
+
+comment on table public.index_rate_history is
+  'Append-only benchmark index rates (SOFR, UST_5Y, PRIME) by as-of date and provider, used for as-of pricing lookups.';
+
+comment on column public.deal_pricing_quotes.index_rate_history_id is
+  'The index_rate_history record the quote base rate was taken from.';
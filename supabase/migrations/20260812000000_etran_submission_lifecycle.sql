@@ -0,0 +1,78 @@
+-- E-Tran submission lifecycle after SBA receipt
+--
+-- sba_etran_submissions previously stopped at 'accepted' (SBA received the
+-- XML). SBA then decides the application asynchronously:
+--
+--   status = 'approved'   — SBA loan number issued
+--   status = 'screenout'  — SBA screened the application out
+--   status = 'returned'   — returned with field-level errors to correct
+--
+-- Each poll or banker-ingested SBA response is recorded once in
+-- sba_etran_status_events (deduped by response hash). Rejected fields open
+-- deal_gap_queue rows (gap_type 'etran_field_rejected') for the banker.
+--
+-- RLS: Only service_role may access sba_etran_status_events.
+
+alter table public.sba_etran_submissions
+  drop constraint if exists sba_etran_submissions_status_check;
+
+alter table public.sba_etran_submissions
+  add constraint sba_etran_submissions_status_check check (
+    status in ('prepared','submitted','accepted','rejected','error','approved','screenout','returned')
+  );
+
+alter table public.sba_etran_submissions
+  add column if not exists sba_loan_number text null,
+  add column if not exists sba_errors jsonb not null default '[]'::jsonb,
+  add column if not exists decision_at timestamptz null,
+  add column if not exists last_polled_at timestamptz null,
+  add column if not exists next_poll_at timestamptz null,
+  add column if not exists poll_attempt_count integer not null default 0;
+
+create index if not exists idx_ses_awaiting_decision
+  on public.sba_etran_submissions(next_poll_at)
+  where status = 'accepted';
+
+create table if not exists public.sba_etran_status_events (
+  id                    uuid primary key default gen_random_uuid(),
+  submission_id         uuid not null references public.sba_etran_submissions(id) on delete cascade,
+  deal_id               uuid not null references public.deals(id) on delete cascade,
+  bank_id               uuid not null references public.banks(id),
+  sba_application_number text,
+  source                text not null check (source in ('poll','ingest')),
+  status                text not null check (status in ('pending','approved','screenout','returned')),
+  sba_loan_number       text,
+  errors                jsonb not null default '[]'::jsonb,
+  response_hash         text not null,
+  response_body         text not null,
+  received_by           text,
+  created_at            timestamptz not null default now(),
+  unique (submission_id, response_hash)
+);
+
+create index if not exists idx_sese_submission
+  on public.sba_etran_status_events(submission_id, created_at desc);
+
+alter table public.sba_etran_status_events enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policy p
+    join pg_class c on c.oid = p.polrelid
+    where c.relname = 'sba_etran_status_events' and p.polname = 'service_role_all'
+  ) then
+    create policy "service_role_all"
+      on public.sba_etran_status_events
+      for all
+      to service_role
+      using (true)
+      with check (true);
+  end if;
+end $$;
+
+comment on table public.sba_etran_status_events is
+  'SBA E-Tran status responses (polled or banker-ingested) per submission, one row per distinct response.';
+
+comment on column public.sba_etran_submissions.sba_errors is
+  'Field-level SBA errors from the latest returned/screenout decision, reconciled to E-Tran mapper fields.';
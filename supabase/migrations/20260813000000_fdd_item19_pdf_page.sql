@@ -0,0 +1,17 @@
+-- Absolute FDD page for Item 19 metrics
+--
+-- fdd_item19_facts.source_page is the page number the model reported inside
+-- the Item 19 page slice sent for extraction — not a page a reviewer can
+-- open in the filing. franchise-fdd-extractor now also writes pdf_page
+-- (slice start page + source_page - 1) so SBA projection benchmarking can
+-- cite the exact page of the FDD. Rows extracted before this column existed
+-- keep pdf_page null until the filing is re-extracted.
+
+alter table public.fdd_item19_facts
+  add column if not exists pdf_page integer null;
+
+comment on column public.fdd_item19_facts.source_page is
+  '1-indexed page within the Item 19 extraction slice (model-reported). Use pdf_page for citations.';
+
+comment on column public.fdd_item19_facts.pdf_page is
+  '1-indexed page in the full FDD PDF (fdd_filings.gcs_path) where this metric appears. Null for rows extracted before 2026-08.';
@@ -0,0 +1,119 @@
+-- Outbound webhook delivery subsystem
+--
+-- deal_webhooks becomes the per-bank subscription table: one endpoint can
+-- subscribe to many events (events[]). The old one-row-per-event `event`
+-- column is kept (nullable) for rows written before this migration and
+-- folded into events[].
+--
+-- The shared secret used to HMAC-sign every payload lives in
+-- deal_webhook_secrets, not on deal_webhooks: every bank user can select
+-- deal_webhooks, and a readable secret lets anyone forge deliveries.
+-- deal_webhook_secrets has RLS on and no policies (service role only);
+-- deal_webhooks keeps only a masked secret_hint for the admin view.
+--
+-- webhook_deliveries (created with deal_webhooks but never written) becomes
+-- the persisted delivery log: one row per (event, subscription) with the
+-- retry state the webhook-deliveries worker drains with exponential backoff.
+-- Replays insert a new row pointing at the original via replay_of.
+
+-- ---------------------------------------------------------------------------
+-- Subscriptions
+-- ---------------------------------------------------------------------------
+
+alter table public.deal_webhooks
+  add column if not exists events text[] not null default '{}',
+  add column if not exists secret_hint text,
+  add column if not exists description text;
+
+alter table public.deal_webhooks drop constraint if exists valid_event;
+alter table public.deal_webhooks alter column event drop not null;
+
+update public.deal_webhooks
+   set events = array[event]
+ where event is not null
+   and cardinality(events) = 0;
+
+create table if not exists public.deal_webhook_secrets (
+  webhook_id uuid primary key references public.deal_webhooks(id) on delete cascade,
+  bank_id uuid not null references public.banks(id) on delete cascade,
+  secret text not null,
+  created_at timestamptz not null default now(),
+  rotated_at timestamptz
+);
+
+-- No policies = locked to service_role only.
+alter table public.deal_webhook_secrets enable row level security;
+
+-- Legacy endpoints never verified a signature, so a generated secret is
+-- harmless to them; banks rotate it from the admin view when they start
+-- verifying.
+insert into public.deal_webhook_secrets (webhook_id, bank_id, secret)
+select w.id,
+       w.bank_id,
+       'whsec_' || replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+  from public.deal_webhooks w
+on conflict (webhook_id) do nothing;
+
+update public.deal_webhooks w
+   set secret_hint = left(s.secret, 10) || '…' || right(s.secret, 4)
+  from public.deal_webhook_secrets s
+ where s.webhook_id = w.id
+   and w.secret_hint is null;
+
+create index if not exists idx_deal_webhooks_bank_events
+  on public.deal_webhooks using gin (events)
+  where enabled = true;
+
+comment on column public.deal_webhooks.events is
+  'Subscribed event names (see src/lib/webhooks/events.ts). Supersedes the single-event column.';
+comment on column public.deal_webhooks.secret_hint is
+  'Masked signing secret (prefix…last 4) for display. The secret itself is in deal_webhook_secrets.';
+comment on table public.deal_webhook_secrets is
+  'Shared HMAC-SHA256 signing secret per subscription, service role only. Sent as Buddy-Signature: t=<unix>,v1=<hex(hmac(secret, t + "." + body))>.';
+
+-- ---------------------------------------------------------------------------
+-- Delivery log
+-- ---------------------------------------------------------------------------
+
+alter table public.webhook_deliveries
+  add column if not exists bank_id uuid references public.banks(id) on delete cascade,
+  add column if not exists deal_id uuid,
+  add column if not exists event_id uuid,
+  add column if not exists status text not null default 'pending',
+  add column if not exists attempt_count integer not null default 0,
+  add column if not exists next_attempt_at timestamptz,
+  add column if not exists last_attempt_at timestamptz,
+  add column if not exists replay_of uuid references public.webhook_deliveries(id) on delete set null,
+  add column if not exists created_at timestamptz not null default now();
+
+alter table public.webhook_deliveries alter column delivered_at drop not null;
+alter table public.webhook_deliveries alter column delivered_at drop default;
+
+update public.webhook_deliveries
+   set status = case when error is null then 'delivered' else 'failed' end
+ where status = 'pending'
+   and delivered_at is not null;
+
+alter table public.webhook_deliveries drop constraint if exists webhook_deliveries_status_check;
+alter table public.webhook_deliveries
+  add constraint webhook_deliveries_status_check
+  check (status in ('pending', 'delivered', 'failed'));
+
+create index if not exists idx_webhook_deliveries_due
+  on public.webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+
+create index if not exists idx_webhook_deliveries_bank_status
+  on public.webhook_deliveries (bank_id, status, created_at desc);
+
+alter table public.webhook_deliveries enable row level security;
+
+drop policy if exists bank_select on public.webhook_deliveries;
+create policy bank_select on public.webhook_deliveries
+for select to authenticated
+using (bank_id = public.get_current_bank_id());
+
+comment on column public.webhook_deliveries.status is
+  'pending = queued or awaiting retry; delivered = 2xx received; failed = retries exhausted or subscription gone.';
+comment on column public.webhook_deliveries.event_id is
+  'Stable id of the underlying event. Retries and replays reuse it so receivers can de-duplicate.';
@@ -0,0 +1,64 @@
+-- OCR provider attempts + per-provider SLO view
+--
+-- runOcrJob now walks a provider chain (Gemini → Mistral → self-hosted local
+-- OCR) instead of a hard-coded Gemini/Mistral pair. Every provider call —
+-- success, error or latency-SLO timeout — is recorded here so
+-- intake/slo/detectOcrFailures.ts can judge each provider's health and the
+-- chain can route around a degraded cloud vendor before a job ever waits on
+-- it.
+--
+-- document_ocr_page_map gains per-page OCR confidence (0..1). Only engines
+-- that report it (local OCR) populate it; cloud LLM engines leave it null.
+
+create table if not exists public.ocr_provider_attempts (
+  id uuid primary key default gen_random_uuid(),
+  deal_id uuid,
+  attachment_id uuid,
+  job_id text,
+  provider text not null,
+  model text,
+  status text not null,
+  latency_ms integer not null,
+  page_count integer,
+  mean_confidence numeric,
+  error text,
+  created_at timestamptz not null default now(),
+  constraint ocr_provider_attempts_status_check
+    check (status in ('succeeded', 'failed', 'timeout'))
+);
+
+create index if not exists idx_ocr_provider_attempts_provider_created
+  on public.ocr_provider_attempts (provider, created_at desc);
+create index if not exists idx_ocr_provider_attempts_deal
+  on public.ocr_provider_attempts (deal_id, created_at desc);
+
+alter table public.ocr_provider_attempts enable row level security;
+
+comment on table public.ocr_provider_attempts is
+  'One row per OCR provider call made by runOcrJob (including fallbacks). Feeds intake_ocr_provider_slo_v1. RLS: service_role only.';
+comment on column public.ocr_provider_attempts.status is
+  'succeeded; failed = provider error; timeout = exceeded the cloud latency SLO and was abandoned for the next provider.';
+
+alter table public.document_ocr_page_map
+  add column if not exists ocr_confidence numeric;
+
+comment on column public.document_ocr_page_map.ocr_confidence is
+  'Engine-reported page confidence, 0..1. Null for engines that do not report one (Gemini, Mistral).';
+
+-- ---------------------------------------------------------------------------
+-- intake_ocr_provider_slo_v1
+-- Reads ocr_provider_attempts. Covers the last hour, one row per provider.
+-- Thresholds live in code (intake/slo/ocrProviderSloPure.ts) so the chain and
+-- the governance monitor agree on what "degraded" means.
+-- ---------------------------------------------------------------------------
+create or replace view public.intake_ocr_provider_slo_v1 as
+select
+  provider,
+  count(*)                                                            as attempts_1h,
+  count(*) filter (where status = 'failed')                           as failed_1h,
+  count(*) filter (where status = 'timeout')                          as timeout_1h,
+  percentile_cont(0.95) within group (order by latency_ms)            as p95_latency_ms,
+  max(created_at)                                                     as last_attempt_at
+from public.ocr_provider_attempts
+where created_at >= now() - interval '1 hour'
+group by provider;
@@ -0,0 +1,85 @@
+-- Per-deal inbound email intake
+--
+-- Borrowers and CPAs email documents instead of using the portal. Each deal
+-- (and optionally each borrower request campaign) gets an inbound address
+-- token; mail to docs+<token>@<INBOUND_EMAIL_DOMAIN> is parsed by
+-- src/lib/intake/inboundEmail/ingestInboundEmail.ts, attachments go through
+-- ingestDocument → checklist auto-match → orchestrateIntake like portal
+-- uploads, and the body is logged as an inbound email crm_activity.
+--
+-- inbound_email_messages is the receipt log: one row per message received,
+-- including rejected (unknown address) and quarantined (sender not a deal
+-- participant) mail. The raw .eml is kept in storage so quarantined mail can
+-- be released by a banker without asking the sender to resend.
+
+create table if not exists public.deal_inbound_addresses (
+  id uuid primary key default gen_random_uuid(),
+  bank_id uuid not null references public.banks(id) on delete cascade,
+  deal_id uuid not null references public.deals(id) on delete cascade,
+  campaign_id uuid references public.borrower_request_campaigns(id) on delete cascade,
+  token text not null unique,
+  status text not null default 'active',
+  created_by text,
+  created_at timestamptz not null default now(),
+  constraint deal_inbound_addresses_status_check check (status in ('active', 'disabled'))
+);
+
+create index if not exists idx_deal_inbound_addresses_deal on public.deal_inbound_addresses (deal_id);
+create unique index if not exists uq_deal_inbound_addresses_deal_default
+  on public.deal_inbound_addresses (deal_id)
+  where campaign_id is null and status = 'active';
+create unique index if not exists uq_deal_inbound_addresses_campaign
+  on public.deal_inbound_addresses (campaign_id)
+  where campaign_id is not null and status = 'active';
+
+alter table public.deal_inbound_addresses enable row level security;
+
+drop policy if exists bank_select on public.deal_inbound_addresses;
+create policy bank_select on public.deal_inbound_addresses
+for select to authenticated
+using (bank_id = public.get_current_bank_id());
+
+create table if not exists public.inbound_email_messages (
+  id uuid primary key default gen_random_uuid(),
+  bank_id uuid references public.banks(id) on delete cascade,
+  deal_id uuid references public.deals(id) on delete cascade,
+  address_id uuid references public.deal_inbound_addresses(id) on delete set null,
+  message_id text not null,
+  from_email text,
+  subject text,
+  recipients text[] not null default '{}',
+  status text not null,
+  reason text,
+  transport text not null default 'webhook',
+  attachment_count integer not null default 0,
+  document_ids uuid[] not null default '{}',
+  skipped_attachments jsonb not null default '[]'::jsonb,
+  activity_id uuid,
+  raw_storage_bucket text,
+  raw_storage_path text,
+  released_by text,
+  released_at timestamptz,
+  received_at timestamptz not null default now(),
+  constraint inbound_email_messages_status_check
+    check (status in ('received', 'ingested', 'quarantined', 'rejected')),
+  constraint inbound_email_messages_transport_check
+    check (transport in ('webhook', 'local_file'))
+);
+
+create unique index if not exists uq_inbound_email_messages_address_message
+  on public.inbound_email_messages (address_id, message_id)
+  where address_id is not null;
+create index if not exists idx_inbound_email_messages_deal
+  on public.inbound_email_messages (deal_id, received_at desc);
+
+alter table public.inbound_email_messages enable row level security;
+
+drop policy if exists bank_select on public.inbound_email_messages;
+create policy bank_select on public.inbound_email_messages
+for select to authenticated
+using (bank_id = public.get_current_bank_id());
+
+comment on column public.inbound_email_messages.status is
+  'received = accepted, attachments in flight; ingested = attachments routed into intake; quarantined = sender not verified against deal participants (release to ingest); rejected = no active inbound address matched.';
+comment on column public.inbound_email_messages.message_id is
+  'RFC 5322 Message-ID (sha256 of the raw message when absent). Provider retries of the same message are de-duplicated on (address_id, message_id).';
@@ -0,0 +1,61 @@
+-- Appraisal report extraction + reviewer checklist
+--
+-- When a real_estate_appraisal third-party order delivers its report,
+-- src/lib/thirdParty/orchestrator.ts processAppraisalResult extracts the
+-- value conclusions, effective date, direct-cap inputs, comparable sales and
+-- appraiser credential, writes them onto the deal's real-estate
+-- deal_collateral_items row, and opens an appraisal_reviews row whose
+-- checklist (value-date staleness, hypothetical conditions, bank engagement,
+-- license, comps) must be cleared before the value feeds LTV.
+--
+-- deal_collateral_items.appraisal_review_status = 'pending_review' holds the
+-- item's value out of computeCollateralLtv (src/lib/builder/collateralLtv.ts).
+
+alter table public.deal_collateral_items
+  add column if not exists as_complete_value      numeric,
+  add column if not exists as_stabilized_value    numeric,
+  add column if not exists cap_rate               numeric,
+  add column if not exists net_operating_income   numeric,
+  add column if not exists appraisal_review_id    uuid,
+  add column if not exists appraisal_review_status text;
+
+alter table public.deal_collateral_items
+  drop constraint if exists deal_collateral_items_appraisal_review_status_check;
+alter table public.deal_collateral_items
+  add constraint deal_collateral_items_appraisal_review_status_check
+  check (appraisal_review_status is null or appraisal_review_status in ('pending_review', 'cleared'));
+
+create table if not exists public.appraisal_reviews (
+  id uuid primary key default gen_random_uuid(),
+  deal_id uuid not null references public.deals(id) on delete cascade,
+  bank_id uuid not null references public.banks(id) on delete cascade,
+  order_id uuid references public.third_party_orders(id) on delete set null,
+  collateral_item_id uuid references public.deal_collateral_items(id) on delete set null,
+  status text not null default 'pending_review',
+  extraction jsonb not null default '{}'::jsonb,
+  checklist jsonb not null default '[]'::jsonb,
+  result_storage_path text,
+  cleared_by text,
+  cleared_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint appraisal_reviews_status_check check (status in ('pending_review', 'cleared'))
+);
+
+create index if not exists idx_appraisal_reviews_deal on public.appraisal_reviews (deal_id, created_at desc);
+create index if not exists idx_appraisal_reviews_pending
+  on public.appraisal_reviews (deal_id) where status = 'pending_review';
+
+alter table public.appraisal_reviews enable row level security;
+
+drop policy if exists bank_select on public.appraisal_reviews;
+create policy bank_select on public.appraisal_reviews
+for select to authenticated
+using (bank_id = public.get_current_bank_id());
+
+drop trigger if exists trg_appraisal_reviews_updated_at on public.appraisal_reviews;
+create trigger trg_appraisal_reviews_updated_at before update on public.appraisal_reviews
+  for each row execute function public.set_updated_at();
+
+comment on column public.appraisal_reviews.checklist is
+  'AppraisalReviewItem[] (src/lib/thirdParty/appraisal/appraisalReviewChecklist.ts). status passed | open | cleared; the review clears when no item is open.';
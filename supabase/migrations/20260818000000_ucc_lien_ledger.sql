@@ -0,0 +1,56 @@
+-- UCC lien ledger
+--
+-- When a ucc_lien_search third-party order delivers its search report,
+-- src/lib/thirdParty/orchestrator.ts processUccSearchResult parses each
+-- filing (secured party, filing number, file date, collateral, lapse date),
+-- folds UCC-3 continuations / terminations / assignments / amendments into
+-- the initial financing statement, and upserts one deal_ucc_liens row per
+-- debtor + initial filing.
+--
+-- rematchUccLiens then classifies every lien against
+-- deal_existing_debt_schedule: our_bank | existing_debt | unexplained |
+-- inactive. Unexplained liens and other lenders' blanket liens (priority
+-- conflicts for our collateral position) open system deal_conditions.
+
+create table if not exists public.deal_ucc_liens (
+  id uuid primary key default gen_random_uuid(),
+  deal_id uuid not null references public.deals(id) on delete cascade,
+  bank_id uuid not null references public.banks(id) on delete cascade,
+  order_id uuid references public.third_party_orders(id) on delete set null,
+  debtor_name text not null default '',
+  jurisdiction text,
+  filing_number text not null,
+  filing_date date,
+  lapse_date date,
+  secured_party text,
+  collateral_description text,
+  terminated boolean not null default false,
+  amendments text[] not null default '{}',
+  status text not null default 'active',
+  is_blanket boolean not null default false,
+  match_status text not null default 'unexplained',
+  matched_debt_id uuid,
+  priority_conflict boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint deal_ucc_liens_status_check check (status in ('active', 'lapsed', 'terminated')),
+  constraint deal_ucc_liens_match_status_check
+    check (match_status in ('our_bank', 'existing_debt', 'unexplained', 'inactive')),
+  constraint deal_ucc_liens_filing_unique unique (deal_id, debtor_name, filing_number)
+);
+
+create index if not exists idx_deal_ucc_liens_deal on public.deal_ucc_liens (deal_id, debtor_name, filing_date);
+
+alter table public.deal_ucc_liens enable row level security;
+
+drop policy if exists bank_select on public.deal_ucc_liens;
+create policy bank_select on public.deal_ucc_liens
+for select to authenticated
+using (bank_id = public.get_current_bank_id());
+
+drop trigger if exists trg_deal_ucc_liens_updated_at on public.deal_ucc_liens;
+create trigger trg_deal_ucc_liens_updated_at before update on public.deal_ucc_liens
+  for each row execute function public.set_updated_at();
+
+comment on column public.deal_ucc_liens.amendments is
+  'Filing numbers of UCC-3 records folded into this lien, in filing order.';
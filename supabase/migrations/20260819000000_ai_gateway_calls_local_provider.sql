@@ -0,0 +1,20 @@
+BEGIN;
+
+-- ============================================================
+-- Widen ai_gateway_calls.provider CHECK to include "local" — a bank's
+-- self-hosted OpenAI-compatible model (src/lib/ai/providers/local.ts),
+-- routed per role via AI_GATEWAY_CHAIN_<ROLE>=local:<model>.
+--
+-- Same widening pattern as 20260804000020_ai_gateway_calls_embedder_role.sql.
+-- Replayed calls (providers/replay.ts cassettes) are never ledgered, so no
+-- provider value is needed for them.
+-- ============================================================
+
+ALTER TABLE public.ai_gateway_calls
+  DROP CONSTRAINT IF EXISTS ai_gateway_calls_provider_check;
+
+ALTER TABLE public.ai_gateway_calls
+  ADD CONSTRAINT ai_gateway_calls_provider_check
+  CHECK (provider IN ('google', 'anthropic', 'openai', 'local'));
+
+COMMIT;
@@ -0,0 +1,77 @@
+BEGIN;
+
+-- ============================================================
+-- Per-bank AI usage metering, monthly budgets and chargeback.
+--
+-- ai_gateway_calls gains bank_id (attributed by src/lib/ai/gateway.ts from
+-- the request or the deal) and cost_usd (src/lib/ai/pricing.ts). Rows
+-- written before this migration have no bank_id; v_ai_usage_monthly falls
+-- back to the deal's bank so historical deal-scoped calls still charge back.
+--
+-- bank_ai_budgets holds each bank's monthly soft/hard limit. Over the hard
+-- limit, deferrable purposes (narratives, coaching) degrade while
+-- extraction continues — see src/lib/ai/usageBudget.ts. The *_notified_month
+-- columns make the threshold webhooks fire once per bank per month.
+-- ============================================================
+
+ALTER TABLE public.ai_gateway_calls
+  ADD COLUMN IF NOT EXISTS bank_id uuid NULL REFERENCES public.banks(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_gateway_calls
+  ADD COLUMN IF NOT EXISTS cost_usd numeric(14, 6) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS ai_gateway_calls_bank_created_at_idx
+  ON public.ai_gateway_calls (bank_id, created_at);
+
+COMMENT ON COLUMN public.ai_gateway_calls.cost_usd IS
+  'Metered cost of the call in USD (tokens x src/lib/ai/pricing.ts list price). 0 for refused calls, unpriced and self-hosted models.';
+
+CREATE TABLE IF NOT EXISTS public.bank_ai_budgets (
+  bank_id uuid PRIMARY KEY REFERENCES public.banks(id) ON DELETE CASCADE,
+  monthly_soft_limit_usd numeric(12, 2) NULL CHECK (monthly_soft_limit_usd IS NULL OR monthly_soft_limit_usd >= 0),
+  monthly_hard_limit_usd numeric(12, 2) NULL CHECK (monthly_hard_limit_usd IS NULL OR monthly_hard_limit_usd >= 0),
+  soft_notified_month text NULL,
+  hard_notified_month text NULL,
+  updated_by text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT bank_ai_budgets_soft_le_hard CHECK (
+    monthly_soft_limit_usd IS NULL OR monthly_hard_limit_usd IS NULL OR monthly_soft_limit_usd <= monthly_hard_limit_usd
+  )
+);
+
+ALTER TABLE public.bank_ai_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.bank_ai_budgets;
+CREATE POLICY bank_select ON public.bank_ai_budgets
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP TRIGGER IF EXISTS trg_bank_ai_budgets_updated_at ON public.bank_ai_budgets;
+CREATE TRIGGER trg_bank_ai_budgets_updated_at BEFORE UPDATE ON public.bank_ai_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Monthly usage rollup per bank / deal / role / purpose / model — the
+-- source for both month-to-date budget checks and the chargeback report.
+CREATE OR REPLACE VIEW public.v_ai_usage_monthly AS
+SELECT
+  COALESCE(c.bank_id, d.bank_id) AS bank_id,
+  to_char(date_trunc('month', c.created_at AT TIME ZONE 'UTC'), 'YYYY-MM') AS month,
+  c.deal_id,
+  c.role,
+  c.purpose,
+  c.provider,
+  c.model,
+  COUNT(*) AS calls,
+  COUNT(*) FILTER (WHERE c.outcome = 'failure') AS failed_calls,
+  COALESCE(SUM(c.tokens_in), 0) AS tokens_in,
+  COALESCE(SUM(c.tokens_out), 0) AS tokens_out,
+  COALESCE(SUM(c.cost_usd), 0) AS cost_usd
+FROM public.ai_gateway_calls c
+LEFT JOIN public.deals d ON d.id = c.deal_id
+GROUP BY 1, 2, 3, 4, 5, 6, 7;
+
+-- Same visibility as the ledger itself: server-side (service role) only.
+REVOKE ALL ON public.v_ai_usage_monthly FROM anon, authenticated;
+
+COMMIT;
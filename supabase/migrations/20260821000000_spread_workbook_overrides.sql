@@ -0,0 +1,63 @@
+BEGIN;
+
+-- ============================================================
+-- Spread workbook overrides.
+--
+-- One row per analyst edit found when a spread workbook exported by
+-- src/lib/financialSpreads/xlsx/spreadWorkbook.ts is uploaded back.
+-- status = 'applied' means the edit was written as a MANUAL fact that
+-- supersedes source_fact_id (provenance.source_ref points back here);
+-- 'recorded' edits (replaced formulas, cleared cells, rent roll cells,
+-- lines with no single source fact) are kept for review only.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.deal_spread_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id uuid NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  workbook_sha256 text NOT NULL,
+  file_name text NULL,
+  exported_at timestamptz NULL,
+  spread_type text NOT NULL,
+  owner_type text NOT NULL DEFAULT 'DEAL',
+  owner_entity_id uuid NULL,
+  row_key text NOT NULL,
+  col_key text NOT NULL,
+  edit_kind text NOT NULL CHECK (edit_kind IN ('input', 'formula_replaced')),
+  original_value numeric NULL,
+  edited_value numeric NULL,
+  formula_id text NULL,
+  fact_type text NULL,
+  fact_key text NULL,
+  fact_period_end date NULL,
+  source_document_id uuid NULL,
+  source_fact_id uuid NULL,
+  rent_roll_row_id uuid NULL,
+  status text NOT NULL CHECK (status IN ('applied', 'recorded', 'failed')),
+  reason text NULL,
+  created_by text NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Re-importing the same workbook never duplicates an edit.
+CREATE UNIQUE INDEX IF NOT EXISTS deal_spread_overrides_workbook_cell_uidx
+  ON public.deal_spread_overrides (
+    deal_id,
+    workbook_sha256,
+    spread_type,
+    COALESCE(owner_entity_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    row_key,
+    col_key
+  );
+
+CREATE INDEX IF NOT EXISTS deal_spread_overrides_deal_created_at_idx
+  ON public.deal_spread_overrides (deal_id, created_at DESC);
+
+ALTER TABLE public.deal_spread_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.deal_spread_overrides;
+CREATE POLICY bank_select ON public.deal_spread_overrides
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+COMMIT;
@@ -0,0 +1,65 @@
+BEGIN;
+
+-- ============================================================
+-- Examiner simulator file reviews.
+--
+-- examiner_review_runs is one simulated examination: either a sample
+-- drawn across the bank's portfolio (kind = 'sample', seed reproduces
+-- the draw) or a single deal reviewed on demand (kind = 'single').
+-- examiner_file_reviews holds one scored loan file per run, with the
+-- findings (and the ledger events / documents each cites) produced by
+-- src/lib/examiner/examinerRules.ts.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.examiner_review_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('sample', 'single')),
+  sample_size integer NOT NULL DEFAULT 0,
+  seed text NULL,
+  sampling jsonb NOT NULL DEFAULT '[]'::jsonb,
+  summary jsonb NOT NULL DEFAULT '{}'::jsonb,
+  rules_version text NOT NULL,
+  created_by text NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS examiner_review_runs_bank_created_at_idx
+  ON public.examiner_review_runs (bank_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.examiner_file_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES public.examiner_review_runs(id) ON DELETE CASCADE,
+  deal_id uuid NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  score numeric NOT NULL,
+  rating text NOT NULL CHECK (rating IN ('SATISFACTORY', 'NEEDS_IMPROVEMENT', 'DEFICIENT')),
+  risk_level text NOT NULL,
+  sample_reasons text[] NOT NULL DEFAULT '{}',
+  findings jsonb NOT NULL DEFAULT '[]'::jsonb,
+  rule_results jsonb NOT NULL DEFAULT '[]'::jsonb,
+  rules_version text NOT NULL,
+  reviewed_as_of timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS examiner_file_reviews_run_idx
+  ON public.examiner_file_reviews (run_id);
+
+CREATE INDEX IF NOT EXISTS examiner_file_reviews_deal_created_at_idx
+  ON public.examiner_file_reviews (deal_id, created_at DESC);
+
+ALTER TABLE public.examiner_review_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.examiner_file_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.examiner_review_runs;
+CREATE POLICY bank_select ON public.examiner_review_runs
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP POLICY IF EXISTS bank_select ON public.examiner_file_reviews;
+CREATE POLICY bank_select ON public.examiner_file_reviews
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+COMMIT;
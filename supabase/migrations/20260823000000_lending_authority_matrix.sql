@@ -0,0 +1,82 @@
+BEGIN;
+
+-- ============================================================
+-- Delegated lending authority matrix + approval routing.
+--
+-- bank_officer_lending_authority holds each officer's individual
+-- (sign alone) and joint (sign with a co-signer) limits against
+-- aggregate relationship exposure, plus an optional risk-rating cap
+-- and product list. bank_lending_authority_matrices holds the bank's
+-- escalation rules (src/lib/committee/authorityMatrix.ts).
+--
+-- decision_approval_routings is the append-only record of each
+-- routing decision — which route was chosen and which rule fired —
+-- written at finalize and read into the credit decision audit
+-- snapshot. decision_snapshots are immutable once final, so the
+-- routing lives beside them rather than on them.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.bank_officer_lending_authority (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  user_id text NOT NULL, -- Clerk user ID
+  individual_limit numeric NOT NULL CHECK (individual_limit >= 0),
+  joint_limit numeric NOT NULL,
+  max_risk_rating integer NULL,
+  products text[] NULL,
+  active boolean NOT NULL DEFAULT true,
+  updated_by text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (bank_id, user_id),
+  CHECK (joint_limit >= individual_limit)
+);
+
+CREATE TABLE IF NOT EXISTS public.bank_lending_authority_matrices (
+  bank_id uuid PRIMARY KEY REFERENCES public.banks(id) ON DELETE CASCADE,
+  matrix_json jsonb NOT NULL,
+  updated_by text NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.decision_approval_routings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  deal_id uuid NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  decision_snapshot_id uuid NOT NULL REFERENCES public.decision_snapshots(id) ON DELETE CASCADE,
+  officer_user_id text NULL,
+  route text NOT NULL CHECK (route IN ('sole', 'co_signer', 'committee')),
+  fired_rule_key text NOT NULL,
+  aggregate_exposure numeric NOT NULL DEFAULT 0,
+  matrix_version integer NULL,
+  routing_json jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS decision_approval_routings_snapshot_created_at_idx
+  ON public.decision_approval_routings (decision_snapshot_id, created_at DESC);
+
+ALTER TABLE public.bank_officer_lending_authority ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_lending_authority_matrices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.decision_approval_routings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.bank_officer_lending_authority;
+CREATE POLICY bank_select ON public.bank_officer_lending_authority
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP POLICY IF EXISTS bank_select ON public.bank_lending_authority_matrices;
+CREATE POLICY bank_select ON public.bank_lending_authority_matrices
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP POLICY IF EXISTS bank_select ON public.decision_approval_routings;
+CREATE POLICY bank_select ON public.decision_approval_routings
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+COMMENT ON COLUMN public.decision_approval_routings.fired_rule_key IS
+  'Key of the authority rule that set the route (officer-authority built-in or bank matrix rule).';
+
+COMMIT;
@@ -0,0 +1,78 @@
+BEGIN;
+
+-- ============================================================
+-- CFPB Section 1071 small business lending data.
+--
+-- sb1071_applications is the application-level tracking the register
+-- is built from: application date / method / recipient, the credit
+-- terms the bank reports, and the action taken with its date. One row
+-- per deal; null credit-term columns fall back to deal-derived values
+-- (src/lib/section1071/register.ts).
+--
+-- sb1071_protected_responses holds the applicant's answers to the
+-- protected demographic questions (ownership status; principal owners'
+-- ethnicity, race and sex). It is the Section 1071 firewall: RLS is
+-- enabled with NO authenticated policy, so only the service role can
+-- read it, and only the borrower portal and the bank-admin register
+-- export do. These answers are never written to borrower_answers.
+--
+-- banks.lei is the filer's Legal Entity Identifier; every register uid
+-- begins with it.
+-- ============================================================
+
+ALTER TABLE public.banks
+  ADD COLUMN IF NOT EXISTS lei text NULL;
+
+CREATE TABLE IF NOT EXISTS public.sb1071_applications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  deal_id uuid NOT NULL UNIQUE REFERENCES public.deals(id) ON DELETE CASCADE,
+  application_date date NOT NULL,
+  application_method integer NOT NULL DEFAULT 3 CHECK (application_method IN (1, 2, 3, 4)),
+  application_recipient integer NOT NULL DEFAULT 1 CHECK (application_recipient IN (1, 2)),
+  credit_product integer NULL,
+  guarantees integer[] NULL,
+  loan_term_months integer NULL,
+  credit_purposes integer[] NULL,
+  amount_applied_for numeric NULL,
+  amount_approved numeric NULL,
+  action_taken integer NULL CHECK (action_taken IN (1, 2, 3, 4, 5)),
+  action_taken_date date NULL,
+  denial_reasons integer[] NOT NULL DEFAULT '{}',
+  pricing_json jsonb NOT NULL DEFAULT '{}'::jsonb,
+  census_tract_adr_type integer NULL,
+  census_tract_number text NULL,
+  free_form_json jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_by text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sb1071_applications_bank_action_date_idx
+  ON public.sb1071_applications (bank_id, action_taken_date);
+
+CREATE TABLE IF NOT EXISTS public.sb1071_protected_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  borrower_application_id uuid NOT NULL,
+  deal_id uuid NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  question_key text NOT NULL CHECK (question_key LIKE 'sb1071.protected.%'),
+  value jsonb NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (borrower_application_id, question_key)
+);
+
+ALTER TABLE public.sb1071_applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sb1071_protected_responses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.sb1071_applications;
+CREATE POLICY bank_select ON public.sb1071_applications
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+-- sb1071_protected_responses: intentionally no policies (service role only).
+
+COMMENT ON TABLE public.sb1071_protected_responses IS
+  'Section 1071 firewalled demographic answers. Service-role only; never joined into underwriter views.';
+
+COMMIT;
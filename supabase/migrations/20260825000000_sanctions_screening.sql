@@ -0,0 +1,139 @@
+BEGIN;
+
+-- ============================================================
+-- Local OFAC / watchlist screening.
+--
+-- sanctions_list_versions: one row per list file a bank loads (SDN,
+-- consolidated non-SDN, or the bank's own watchlist). Loading a new
+-- version of a list deactivates the previous one and triggers a rescreen
+-- of the bank's screened deals. Re-loading an identical file is a no-op
+-- (content_sha256).
+--
+-- sanctions_list_entries: the parsed entries of a version. entry_uid is
+-- stable across versions ("SDN:36"); content_hash changes when the entry
+-- is amended, which reopens any earlier disposition of a hit on it.
+--
+-- sanctions_screenings / sanctions_screening_hits: each screening run of
+-- a deal's parties and its candidate hits. A hit's disposition (true
+-- match, or false positive with a reason) is the analyst's review; the
+-- latest screening's undispositioned hits gate decision finalization
+-- (src/lib/sanctions/screenParties.ts evaluateSanctionsGate).
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.sanctions_list_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  list_source text NOT NULL CHECK (list_source IN ('SDN', 'CONSOLIDATED', 'BANK_WATCHLIST')),
+  file_format text NOT NULL CHECK (file_format IN ('ofac_csv', 'watchlist_csv')),
+  publish_date date NULL,
+  entry_count integer NOT NULL DEFAULT 0,
+  content_sha256 text NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  loaded_by text NULL,
+  loaded_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (bank_id, list_source, content_sha256)
+);
+
+CREATE INDEX IF NOT EXISTS sanctions_list_versions_active_idx
+  ON public.sanctions_list_versions (bank_id, list_source)
+  WHERE active;
+
+CREATE TABLE IF NOT EXISTS public.sanctions_list_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_version_id uuid NOT NULL REFERENCES public.sanctions_list_versions(id) ON DELETE CASCADE,
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  list_source text NOT NULL,
+  entry_uid text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('individual', 'entity', 'vessel', 'aircraft')),
+  primary_name text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}',
+  dobs text[] NOT NULL DEFAULT '{}',
+  countries text[] NOT NULL DEFAULT '{}',
+  addresses text[] NOT NULL DEFAULT '{}',
+  programs text[] NOT NULL DEFAULT '{}',
+  remarks text NULL,
+  content_hash text NOT NULL,
+
+  UNIQUE (list_version_id, entry_uid)
+);
+
+CREATE TABLE IF NOT EXISTS public.sanctions_screenings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id uuid NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  trigger text NOT NULL CHECK (trigger IN ('manual', 'list_reload')),
+  list_version_ids uuid[] NOT NULL DEFAULT '{}',
+  subjects_json jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subject_count integer NOT NULL DEFAULT 0,
+  hit_count integer NOT NULL DEFAULT 0,
+  threshold numeric NOT NULL,
+  screened_by text NULL,
+  screened_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sanctions_screenings_deal_idx
+  ON public.sanctions_screenings (deal_id, screened_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.sanctions_screening_hits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  screening_id uuid NOT NULL REFERENCES public.sanctions_screenings(id) ON DELETE CASCADE,
+  deal_id uuid NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  subject_key text NOT NULL,
+  subject_name text NOT NULL,
+  subject_kind text NOT NULL CHECK (subject_kind IN ('individual', 'entity')),
+  subject_roles text[] NOT NULL DEFAULT '{}',
+  list_source text NOT NULL,
+  entry_uid text NOT NULL,
+  entry_content_hash text NOT NULL,
+  entry_name text NOT NULL,
+  matched_name text NOT NULL,
+  matched_on text NOT NULL CHECK (matched_on IN ('primary', 'alias')),
+  name_score numeric NOT NULL,
+  dob_result text NOT NULL,
+  country_result text NOT NULL,
+  score numeric NOT NULL,
+  programs text[] NOT NULL DEFAULT '{}',
+
+  disposition text NULL CHECK (disposition IN ('true_match', 'false_positive')),
+  disposition_reason_code text NULL,
+  disposition_note text NULL,
+  dispositioned_by text NULL,
+  dispositioned_at timestamptz NULL,
+  carried_from_hit_id uuid NULL,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (screening_id, subject_key, entry_uid)
+);
+
+CREATE INDEX IF NOT EXISTS sanctions_screening_hits_deal_idx
+  ON public.sanctions_screening_hits (deal_id, screening_id);
+
+ALTER TABLE public.sanctions_list_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sanctions_list_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sanctions_screenings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sanctions_screening_hits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.sanctions_list_versions;
+CREATE POLICY bank_select ON public.sanctions_list_versions
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP POLICY IF EXISTS bank_select ON public.sanctions_list_entries;
+CREATE POLICY bank_select ON public.sanctions_list_entries
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP POLICY IF EXISTS bank_select ON public.sanctions_screenings;
+CREATE POLICY bank_select ON public.sanctions_screenings
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP POLICY IF EXISTS bank_select ON public.sanctions_screening_hits;
+CREATE POLICY bank_select ON public.sanctions_screening_hits
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+COMMIT;
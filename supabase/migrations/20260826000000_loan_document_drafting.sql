@@ -0,0 +1,81 @@
+BEGIN;
+
+-- ============================================================
+-- Loan document drafting from approved terms.
+--
+-- loan_doc_drafting_templates: the bank's own text for each document type
+-- (promissory note, loan agreement, guaranty, security agreement, …).
+-- Bodies carry merge fields ({{loan.amount}}) and clause slots
+-- ({{clauses.covenants}}). Every edit is a new version; the highest
+-- active version is drafted.
+--
+-- loan_doc_clauses: the bank's versioned clause library. condition_json
+-- is a predicate over the deal's approved terms deciding whether the
+-- clause is drafted (src/lib/closingPackage/drafting/clauseLibrary.ts).
+--
+-- closing_package_documents gains the drafted text, the draft record
+-- (template version, clauses used, merge-field bindings), the DOCX
+-- storage path next to the PDF in storage_ref, and the deviations from
+-- the approved terms found at drafting time. The funding authorization
+-- gate re-diffs the draft against the current terms.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.loan_doc_drafting_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  document_type text NOT NULL,
+  version integer NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (bank_id, document_type, version)
+);
+
+CREATE TABLE IF NOT EXISTS public.loan_doc_clauses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  clause_key text NOT NULL,
+  version integer NOT NULL,
+  title text NOT NULL,
+  section text NOT NULL,
+  document_types text[] NOT NULL DEFAULT '{}',
+  condition_json jsonb NULL,
+  body text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (bank_id, clause_key, version)
+);
+
+ALTER TABLE public.closing_package_documents
+  ADD COLUMN IF NOT EXISTS drafted_text text NULL,
+  ADD COLUMN IF NOT EXISTS draft_json jsonb NULL,
+  ADD COLUMN IF NOT EXISTS docx_storage_ref text NULL,
+  ADD COLUMN IF NOT EXISTS deviations_json jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS drafted_at timestamptz NULL;
+
+-- Conventional products close on a loan agreement carrying the covenants.
+UPDATE public.loan_doc_templates
+SET supported_features = supported_features || '["loan_agreement"]'::jsonb
+WHERE template_key IN ('term_loan_standard', 'loc_standard', 'cre_standard')
+  AND NOT supported_features ? 'loan_agreement';
+
+ALTER TABLE public.loan_doc_drafting_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_doc_clauses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.loan_doc_drafting_templates;
+CREATE POLICY bank_select ON public.loan_doc_drafting_templates
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+DROP POLICY IF EXISTS bank_select ON public.loan_doc_clauses;
+CREATE POLICY bank_select ON public.loan_doc_clauses
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+COMMIT;
@@ -0,0 +1,18 @@
+BEGIN;
+
+-- ============================================================
+-- Borrower's own unit count on the deal -> franchise link.
+--
+-- franchise_brands.unit_count is the brand's system-wide outlet count.
+-- The business plan's Item 19 comparison restates the borrower's
+-- projection per outlet, which needs the number of units this
+-- franchisee will operate. NULL is read as a single unit.
+-- ============================================================
+
+ALTER TABLE public.deal_franchises
+  ADD COLUMN IF NOT EXISTS unit_count integer NULL CHECK (unit_count IS NULL OR unit_count > 0);
+
+COMMENT ON COLUMN public.deal_franchises.unit_count IS
+  'Units the borrower operates or will operate under the brand. NULL = 1. Not the brand''s system-wide count (franchise_brands.unit_count).';
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Appraisal review: stage the appraised values on the review
+--
+-- processAppraisalResult used to write the extracted values straight onto
+-- deal_collateral_items, which overwrote the banker's value while the
+-- review was open and reached every LTV / credit-memo path that does not
+-- read appraisal_review_status. The values now wait in
+-- appraisal_reviews.staged_values and are copied onto the collateral item
+-- when resolveAppraisalReview clears the checklist
+-- (src/lib/thirdParty/orchestrator.ts).
+
+alter table public.appraisal_reviews
+  add column if not exists staged_values jsonb not null default '{}'::jsonb;
+
+comment on column public.appraisal_reviews.staged_values is
+  'deal_collateral_items columns (estimated_value, appraised_value, market_value, cap_rate, …) applied to collateral_item_id when the review clears.';
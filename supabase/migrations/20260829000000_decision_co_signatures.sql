@@ -0,0 +1,32 @@
+BEGIN;
+
+-- ============================================================
+-- Co-signatures for decisions routed to the co_signer route.
+--
+-- When the delegated authority matrix routes a decision to co_signer,
+-- finalize is refused until an officer holding joint authority for the
+-- request (routing_json.eligibleCoSigners on the latest
+-- decision_approval_routings row) has co-signed the snapshot.
+-- One co-signature per officer per snapshot.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.decision_co_signatures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  deal_id uuid NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  decision_snapshot_id uuid NOT NULL REFERENCES public.decision_snapshots(id) ON DELETE CASCADE,
+  signer_user_id text NOT NULL, -- Clerk user ID
+  approval_routing_id uuid NULL REFERENCES public.decision_approval_routings(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (decision_snapshot_id, signer_user_id)
+);
+
+ALTER TABLE public.decision_co_signatures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_select ON public.decision_co_signatures;
+CREATE POLICY bank_select ON public.decision_co_signatures
+FOR SELECT TO authenticated
+USING (bank_id = public.get_current_bank_id());
+
+COMMIT;
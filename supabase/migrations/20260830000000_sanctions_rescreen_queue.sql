@@ -0,0 +1,47 @@
+BEGIN;
+
+-- ============================================================
+-- Sanctions list reload rescreens run in the sanctions-rescreen worker.
+--
+-- An activated list version starts with rescreen_completed_at NULL. The
+-- worker (src/app/api/workers/[...path]/_handlers/sanctions-rescreen.ts)
+-- rescreens, a batch at a time, every deal whose latest screening did
+-- not use all of the bank's active versions, and stamps the bank's
+-- active versions once none are left.
+--
+-- sanctions_rescreen_attempts records deals whose rescreen failed, with
+-- exponential backoff; after the attempt cap the worker stops selecting
+-- them, so one deal that always fails cannot stall the bank's queue. Its
+-- sanctions gate stays closed until someone rescreens it by hand.
+-- Activating a new list version clears the bank's rows.
+-- ============================================================
+
+ALTER TABLE public.sanctions_list_versions
+  ADD COLUMN IF NOT EXISTS rescreen_completed_at timestamptz NULL;
+
+-- Versions loaded before the worker were rescreened inline at upload.
+UPDATE public.sanctions_list_versions
+SET rescreen_completed_at = loaded_at
+WHERE rescreen_completed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS sanctions_list_versions_rescreen_pending_idx
+  ON public.sanctions_list_versions (bank_id)
+  WHERE active AND rescreen_completed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS sanctions_screenings_bank_screened_at_idx
+  ON public.sanctions_screenings (bank_id, screened_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.sanctions_rescreen_attempts (
+  bank_id uuid NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  deal_id uuid NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  attempt_count integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (bank_id, deal_id)
+);
+
+-- No policies = locked to service_role only (worker bookkeeping).
+ALTER TABLE public.sanctions_rescreen_attempts ENABLE ROW LEVEL SECURITY;
+
+COMMIT;